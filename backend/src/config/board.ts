@@ -0,0 +1,6 @@
+// Logical board dimensions (mirrors the frontend GAME_CONFIG grid)
+export const GRID_COLS = 20;
+export const GRID_ROWS = 10;
+
+// Reference cell size in pixels (frontend default canvas: 1200px wide, board at 90%)
+export const GRID_SIZE = (1200 * 0.9) / GRID_COLS;
@@ -42,8 +42,19 @@ const options: swaggerJsdoc.Options = {
         name: 'Statistics',
         description: 'Game statistics and analytics',
       },
+      {
+        name: 'Auth',
+        description: 'Player accounts and sign-in',
+      },
     ],
     components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'Token from /api/auth/login or /api/auth/register',
+        },
+      },
       schemas: {
         TowerDefinition: {
           type: 'object',
@@ -52,6 +63,7 @@ const options: swaggerJsdoc.Options = {
             name: { type: 'string', example: 'Basic Tower' },
             color: { type: 'string', example: '#607D8B' },
             description: { type: 'string', example: 'Balanced tower for general defense' },
+            attackPattern: { $ref: '#/components/schemas/AttackPattern' },
           },
         },
         TowerLevel: {
@@ -59,12 +71,95 @@ const options: swaggerJsdoc.Options = {
           properties: {
             towerType: { type: 'string', example: 'basic' },
             level: { type: 'number', example: 1 },
+            branch: {
+              type: 'string',
+              description: 'Upgrade tree branch; empty string is the main branch',
+              example: '',
+            },
+            parentBranch: {
+              type: 'string',
+              description: 'Branch of the level below this upgrades from (ignored at level 1)',
+              example: '',
+            },
             cost: { type: 'number', example: 50 },
             damage: { type: 'number', example: 20 },
             range: { type: 'number', example: 120 },
             fireRate: { type: 'number', example: 1.0 },
+            damageType: { $ref: '#/components/schemas/DamageType' },
+            projectileType: { $ref: '#/components/schemas/ProjectileType' },
+            splashRadius: { type: 'number', example: 0 },
+            chainCount: { type: 'number', example: 0 },
+            chainRange: { type: 'number', example: 0 },
+            pierceCount: { type: 'number', example: 0 },
+            effectType: { $ref: '#/components/schemas/StatusEffectType' },
+            effectStrength: { type: 'number', example: 0 },
+            effectDuration: { type: 'number', description: 'ms', example: 0 },
           },
         },
+        DamageType: {
+          type: 'string',
+          description: 'pierce and splash are reduced by armor, magic ignores it',
+          enum: ['pierce', 'splash', 'magic'],
+          example: 'pierce',
+        },
+        AttackPattern: {
+          type: 'string',
+          description:
+            'radius shoots anything within range; rook, bishop and knight only shoot enemies on the cells that chess piece could move to (rook and bishop lines reach as far as range)',
+          enum: ['radius', 'rook', 'bishop', 'knight'],
+          example: 'radius',
+        },
+        ProjectileType: {
+          type: 'string',
+          description:
+            'single hits one enemy, splash also hurts enemies within splashRadius, chain bounces to chainCount nearby enemies, pierce flies straight through pierceCount extra enemies',
+          enum: ['single', 'splash', 'chain', 'pierce'],
+          example: 'single',
+        },
+        StatusEffectType: {
+          type: 'string',
+          nullable: true,
+          description:
+            'Debuff applied on hit. effectStrength is the fraction of speed removed (slow), damage per second (poison) or armor removed (shred); stun ignores it',
+          enum: ['slow', 'poison', 'stun', 'shred'],
+          example: 'slow',
+        },
+        Resistances: {
+          type: 'object',
+          description: 'Fraction of damage resisted per damage type, -1 to 1 (negative = weakness)',
+          additionalProperties: { type: 'number' },
+          example: { splash: 0.25 },
+        },
+        EnemyAbilities: {
+          type: 'object',
+          description: 'Optional abilities; an enemy may have any combination',
+          properties: {
+            jump: {
+              type: 'object',
+              description: 'Leap forward along the path every intervalMs',
+              properties: { distance: { type: 'number' }, intervalMs: { type: 'number' } },
+            },
+            diagonal: {
+              type: 'boolean',
+              description: 'Cut path corners diagonally on maps with allowDiagonal',
+            },
+            promote: {
+              type: 'object',
+              description: 'Turn into another enemy past a fraction (0-1) of the path',
+              properties: { atProgress: { type: 'number' }, toEnemyId: { type: 'number' } },
+            },
+            aura: {
+              type: 'object',
+              description: 'Speed (fraction) and armor bonus for other enemies within radius px',
+              properties: {
+                radius: { type: 'number' },
+                speedBonus: { type: 'number' },
+                armorBonus: { type: 'number' },
+              },
+            },
+          },
+          example: { jump: { distance: 90, intervalMs: 3000 } },
+        },
         TowerDefinitionWithLevels: {
           type: 'object',
           properties: {
@@ -73,6 +168,7 @@ const options: swaggerJsdoc.Options = {
             color: { type: 'string', example: '#607D8B' },
             description: { type: 'string', example: 'Balanced tower for general defense' },
             maxLevel: { type: 'number', example: 5 },
+            attackPattern: { $ref: '#/components/schemas/AttackPattern' },
             levels: {
               type: 'array',
               items: { $ref: '#/components/schemas/TowerLevel' },
@@ -86,6 +182,15 @@ const options: swaggerJsdoc.Options = {
             damage: { type: 'number', example: 20 },
             range: { type: 'number', example: 120 },
             fireRate: { type: 'number', example: 1.0 },
+            damageType: { $ref: '#/components/schemas/DamageType' },
+            projectileType: { $ref: '#/components/schemas/ProjectileType' },
+            splashRadius: { type: 'number', example: 0 },
+            chainCount: { type: 'number', example: 0 },
+            chainRange: { type: 'number', example: 0 },
+            pierceCount: { type: 'number', example: 0 },
+            effectType: { $ref: '#/components/schemas/StatusEffectType' },
+            effectStrength: { type: 'number', example: 0 },
+            effectDuration: { type: 'number', description: 'ms', example: 0 },
           },
         },
         EnemyDefinition: {
@@ -98,6 +203,9 @@ const options: swaggerJsdoc.Options = {
             reward: { type: 'number', example: 10 },
             color: { type: 'string', example: '#4CAF50' },
             size: { type: 'number', example: 20 },
+            armor: { type: 'number', description: 'Flat damage reduction per hit', example: 0 },
+            resistances: { $ref: '#/components/schemas/Resistances' },
+            abilities: { $ref: '#/components/schemas/EnemyAbilities' },
           },
         },
         Tower: {
@@ -110,7 +218,13 @@ const options: swaggerJsdoc.Options = {
             x: { type: 'number', example: 330 },
             y: { type: 'number', example: 210 },
             level: { type: 'number', example: 1 },
+            branch: {
+              type: 'string',
+              description: 'Upgrade tree branch of the current level',
+              example: '',
+            },
             stats: { $ref: '#/components/schemas/TowerStats' },
+            targetingMode: { $ref: '#/components/schemas/TargetingMode' },
             lastFireTime: { type: 'number', example: 0 },
           },
         },
@@ -131,6 +245,18 @@ const options: swaggerJsdoc.Options = {
             },
             initialCoins: { type: 'number', example: 200 },
             lives: { type: 'number', example: 10 },
+            map: { $ref: '#/components/schemas/MapDefinition' },
+            seed: { type: 'number', example: 2654435769 },
+            daily: {
+              allOf: [{ $ref: '#/components/schemas/DailyGame' }],
+              nullable: true,
+              description: 'Only for daily challenge games',
+            },
+            mutators: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/MutatorId' },
+              example: ['doubleSpeed'],
+            },
           },
         },
         GameConfigResponse: {
@@ -156,6 +282,52 @@ const options: swaggerJsdoc.Options = {
               type: 'array',
               items: { $ref: '#/components/schemas/Tower' },
             },
+            enemiesKilled: { type: 'number', example: 12 },
+            status: {
+              type: 'string',
+              enum: ['active', 'completed', 'abandoned'],
+              example: 'active',
+            },
+            waveActive: { type: 'boolean', example: false },
+            map: {
+              allOf: [{ $ref: '#/components/schemas/MapDefinition' }],
+              nullable: true,
+            },
+            seed: { type: 'number', nullable: true, example: 2654435769 },
+            mutators: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/MutatorId' },
+              example: ['doubleSpeed'],
+            },
+          },
+        },
+        GameSessionSummary: {
+          type: 'object',
+          properties: {
+            gameId: { type: 'string', format: 'uuid' },
+            gameMode: {
+              type: 'string',
+              enum: ['10waves', '20waves', 'endless', 'daily'],
+              example: '10waves',
+            },
+            difficulty: {
+              type: 'string',
+              enum: ['easy', 'normal', 'hard', 'custom'],
+              nullable: true,
+              example: 'normal',
+            },
+            mapName: { type: 'string', nullable: true, example: 'Straight Lane' },
+            wave: { type: 'number', example: 4 },
+            coins: { type: 'number', example: 230 },
+            lives: { type: 'number', example: 8 },
+            towerCount: { type: 'number', example: 5 },
+            startedAt: { type: 'string', format: 'date-time' },
+            lastUpdated: { type: 'string', format: 'date-time' },
+            status: {
+              type: 'string',
+              enum: ['active', 'completed', 'abandoned'],
+              example: 'active',
+            },
           },
         },
         BuildTowerRequest: {
@@ -183,6 +355,25 @@ const options: swaggerJsdoc.Options = {
             remainingCoins: { type: 'number', example: 100 },
           },
         },
+        TargetingMode: {
+          type: 'string',
+          enum: ['first', 'last', 'strongest', 'weakest', 'closest'],
+          example: 'first',
+        },
+        SetTargetingRequest: {
+          type: 'object',
+          required: ['targetingMode'],
+          properties: {
+            targetingMode: { $ref: '#/components/schemas/TargetingMode' },
+          },
+        },
+        SetTargetingResponse: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean', example: true },
+            tower: { $ref: '#/components/schemas/Tower' },
+          },
+        },
         SellTowerResponse: {
           type: 'object',
           properties: {
@@ -201,6 +392,33 @@ const options: swaggerJsdoc.Options = {
             },
             enemyHealthWaveMultiplier: { type: 'number', example: 0.1 },
             enemyRewardWaveMultiplier: { type: 'number', example: 0.05 },
+            result: { $ref: '#/components/schemas/WaveSimulationResult' },
+            coins: { type: 'number', example: 245 },
+            lives: { type: 'number', example: 9 },
+            gameOver: { type: 'boolean', example: false },
+            gameWon: {
+              type: 'boolean',
+              description: "The game mode's final wave was cleared; the game is won",
+              example: false,
+            },
+          },
+        },
+        WaveSimulationResult: {
+          type: 'object',
+          properties: {
+            waveNumber: { type: 'number', example: 1 },
+            enemiesSpawned: { type: 'number', example: 8 },
+            enemiesKilled: { type: 'number', example: 7 },
+            enemiesLeaked: { type: 'number', example: 1 },
+            enemiesKilledByType: {
+              type: 'object',
+              additionalProperties: { type: 'number' },
+              example: { '1': 7 },
+            },
+            coinsEarned: { type: 'number', example: 45 },
+            livesLost: { type: 'number', example: 1 },
+            damageDealt: { type: 'number', example: 560 },
+            durationMs: { type: 'number', example: 38500 },
           },
         },
         EndGameRequest: {
@@ -209,22 +427,117 @@ const options: swaggerJsdoc.Options = {
           properties: {
             finalWave: { type: 'number', example: 5 },
             enemiesKilled: { type: 'number', example: 42 },
+            outcome: {
+              type: 'string',
+              enum: ['win', 'loss'],
+              default: 'loss',
+              description: 'Must be win once the final wave was cleared, loss otherwise',
+            },
+            duration: { type: 'number', description: 'Milliseconds of play time', example: 600000 },
+            enemiesKilledByType: {
+              type: 'object',
+              description: 'Enemy ID to kills; may not exceed the kills and coins of the session',
+              example: { '1': 30, '2': 12 },
+            },
+            towersBuiltByType: {
+              type: 'object',
+              description: 'Tower ID to towers built; their costs may not exceed the coins spent',
+              example: { '1': 3, '2': 1 },
+            },
+            damageByTowerType: {
+              type: 'object',
+              description: 'Tower ID to damage dealt by its shots',
+              example: { '1': 4200, '2': 800 },
+            },
+            replay: { $ref: '#/components/schemas/ReplayUpload' },
           },
         },
+        ReplayUpload: {
+          type: 'object',
+          required: ['config', 'actions', 'duration'],
+          properties: {
+            config: {
+              type: 'object',
+              description: 'Tower/enemy definitions, map and starting values used by the game',
+              properties: {
+                towers: { type: 'array', items: { type: 'object' } },
+                enemies: { type: 'array', items: { type: 'object' } },
+                map: { $ref: '#/components/schemas/MapDefinition' },
+                initialCoins: { type: 'number', example: 200 },
+                lives: { type: 'number', example: 10 },
+              },
+            },
+            actions: {
+              type: 'array',
+              description:
+                'Player actions ordered by gameTime (ms): build, upgrade, sell, targeting and wave (wave carries the StartWaveResponse)',
+              items: {
+                type: 'object',
+                required: ['type', 'gameTime'],
+                properties: {
+                  type: { type: 'string', enum: ['build', 'upgrade', 'sell', 'targeting', 'wave'] },
+                  gameTime: { type: 'number', example: 12500 },
+                },
+              },
+            },
+            duration: { type: 'number', description: 'Game time in ms', example: 184000 },
+          },
+        },
+        GameReplay: {
+          allOf: [
+            { $ref: '#/components/schemas/ReplayUpload' },
+            {
+              type: 'object',
+              properties: {
+                id: { type: 'number', example: 1 },
+                gameId: { type: 'string', format: 'uuid' },
+                createdAt: { type: 'string', format: 'date-time' },
+              },
+            },
+          ],
+        },
         EndGameResponse: {
           type: 'object',
           properties: {
             success: { type: 'boolean', example: true },
+            score: { type: 'number', example: 2850 },
+            scoreBreakdown: { $ref: '#/components/schemas/ScoreBreakdown' },
+          },
+        },
+        ScoreBreakdown: {
+          type: 'object',
+          description: 'Points per part of the score, before the difficulty multiplier',
+          properties: {
+            waves: { type: 'number', example: 1000 },
+            lives: { type: 'number', example: 250 },
+            efficiency: { type: 'number', example: 150 },
+            time: { type: 'number', example: 500 },
+            multiplier: { type: 'number', example: 1.5 },
           },
         },
         TowerLevelInput: {
           type: 'object',
           required: ['cost', 'damage', 'range', 'fireRate'],
           properties: {
+            parentBranch: {
+              type: 'string',
+              description:
+                'Branch of the level below this upgrades from (defaults to the main branch)',
+              example: '',
+            },
             cost: { type: 'number', example: 75 },
             damage: { type: 'number', example: 30 },
             range: { type: 'number', example: 135 },
             fireRate: { type: 'number', example: 1.1 },
+            damageType: { $ref: '#/components/schemas/DamageType' },
+            projectileType: { $ref: '#/components/schemas/ProjectileType' },
+            splashRadius: { type: 'number', example: 0 },
+            chainCount: { type: 'number', example: 0 },
+            chainRange: { type: 'number', example: 0 },
+            pierceCount: { type: 'number', example: 0 },
+            effectType: { $ref: '#/components/schemas/StatusEffectType' },
+            effectStrength: { type: 'number', example: 0 },
+            effectDuration: { type: 'number', description: 'ms', example: 0 },
           },
         },
         GameSettings: {
@@ -240,6 +553,73 @@ const options: swaggerJsdoc.Options = {
             enemyRewardMultiplier: { type: 'number', example: 1.0 },
             enemyHealthWaveMultiplier: { type: 'number', example: 0.1 },
             enemyRewardWaveMultiplier: { type: 'number', example: 0.05 },
+            endlessBudgetGrowth: {
+              type: 'number',
+              example: 0.15,
+              description: 'Budget growth per generated wave past the last defined one',
+            },
+            endlessBossInterval: {
+              type: 'number',
+              example: 5,
+              description: 'Every Nth wave is a boss wave, 0 for none',
+            },
+            endlessUnlockWaves: {
+              type: 'object',
+              additionalProperties: { type: 'number' },
+              example: { '6': 15 },
+              description: 'Enemy ID to the first wave the generator may use it in',
+            },
+            scoreWavePoints: { type: 'number', example: 100, description: 'Per wave cleared' },
+            scoreLifePoints: {
+              type: 'number',
+              example: 50,
+              description: 'Per life remaining, wins only',
+            },
+            scoreEfficiencyPoints: {
+              type: 'number',
+              example: 500,
+              description: 'For winning with every coin earned unspent, pro rata',
+            },
+            scoreTimePoints: {
+              type: 'number',
+              example: 50,
+              description: 'Per wave cleared at par pace (1 min) or faster, pro rata when slower',
+            },
+            scoreMultiplier: { type: 'number', example: 1.0, description: 'Difficulty multiplier' },
+          },
+        },
+        MapDefinition: {
+          type: 'object',
+          properties: {
+            id: { type: 'number', example: 1 },
+            name: { type: 'string', example: 'Straight Lane' },
+            description: { type: 'string', example: 'A single straight lane' },
+            waypoints: {
+              type: 'array',
+              description: 'Enemy path polyline in grid units (grid line intersections)',
+              items: {
+                type: 'object',
+                properties: { x: { type: 'number' }, y: { type: 'number' } },
+              },
+              example: [
+                { x: -1, y: 5 },
+                { x: 21, y: 5 },
+              ],
+            },
+            blockedCells: {
+              type: 'array',
+              description: 'Cells where towers cannot be built',
+              items: {
+                type: 'object',
+                properties: { gridX: { type: 'number' }, gridY: { type: 'number' } },
+              },
+              example: [{ gridX: 0, gridY: 4 }],
+            },
+            allowDiagonal: {
+              type: 'boolean',
+              description: 'Enemies with the diagonal ability may cut corners',
+              example: false,
+            },
           },
         },
         GameStatistics: {
@@ -247,10 +627,16 @@ const options: swaggerJsdoc.Options = {
           properties: {
             id: { type: 'number', example: 1 },
             gameId: { type: 'string', format: 'uuid' },
+            playerId: { type: 'number', nullable: true, example: 1 },
+            playerName: { type: 'string', nullable: true, example: 'rookie' },
             timestamp: { type: 'string', format: 'date-time' },
             duration: { type: 'number', example: 60000 },
             outcome: { type: 'string', enum: ['win', 'loss'], example: 'win' },
-            gameMode: { type: 'string', enum: ['10waves', '20waves', 'endless'], example: '10waves' },
+            gameMode: {
+              type: 'string',
+              enum: ['10waves', '20waves', 'endless', 'daily'],
+              example: '10waves',
+            },
             finalWave: { type: 'number', example: 10 },
             wavesCompleted: { type: 'number', example: 10 },
             enemiesKilledTotal: { type: 'number', example: 100 },
@@ -260,6 +646,79 @@ const options: swaggerJsdoc.Options = {
             coinsEarned: { type: 'number', example: 1000 },
             coinsSpent: { type: 'number', example: 800 },
             damageDealt: { type: 'number', example: 5000 },
+            damageByTowerType: { type: 'object', example: { '1': 4200, '2': 800 } },
+            seed: { type: 'number', nullable: true, example: 2654435769 },
+            dailyDate: { type: 'string', format: 'date', nullable: true, example: '2026-10-19' },
+            customSeed: { type: 'boolean', example: false },
+            dailyRanked: { type: 'boolean', example: false },
+            mutators: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/MutatorId' },
+              description: 'In catalog order, so equal sets compare equal',
+              example: ['doubleSpeed', 'fogOfWar'],
+            },
+            score: { type: 'number', example: 2850, description: '0 before scoring' },
+            scoreBreakdown: {
+              allOf: [{ $ref: '#/components/schemas/ScoreBreakdown' }],
+              nullable: true,
+            },
+          },
+        },
+        MutatorId: {
+          type: 'string',
+          enum: [
+            'doubleSpeed',
+            'noSelling',
+            'halfRefunds',
+            'expensiveTowers',
+            'regeneration',
+            'fogOfWar',
+          ],
+          description: 'Optional rule change picked at game start',
+        },
+        DailyModifier: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              enum: ['wealthy', 'fragile', 'armored', 'bounty', 'relentless'],
+              example: 'armored',
+            },
+            name: { type: 'string', example: 'Armored' },
+            description: { type: 'string', example: 'Enemy health grows 50% faster each wave' },
+          },
+        },
+        DailyChallenge: {
+          type: 'object',
+          properties: {
+            date: { type: 'string', format: 'date', example: '2026-10-19' },
+            seed: { type: 'number', example: 2654435769 },
+            modifiers: { type: 'array', items: { $ref: '#/components/schemas/DailyModifier' } },
+            towerIds: {
+              type: 'array',
+              items: { type: 'number' },
+              description: 'The only towers that can be built',
+              example: [1, 3, 4, 6],
+            },
+          },
+        },
+        DailyGame: {
+          type: 'object',
+          properties: {
+            date: { type: 'string', format: 'date', example: '2026-10-19' },
+            modifiers: { type: 'array', items: { type: 'string' }, example: ['armored', 'bounty'] },
+            towerIds: { type: 'array', items: { type: 'number' }, example: [1, 3, 4, 6] },
+            ranked: {
+              type: 'boolean',
+              description: "Only a player's first attempt at a date is ranked",
+            },
+          },
+        },
+        DailyLeaderboardResponse: {
+          type: 'object',
+          properties: {
+            challenge: { $ref: '#/components/schemas/DailyChallenge' },
+            entries: { type: 'array', items: { $ref: '#/components/schemas/GameStatistics' } },
           },
         },
         StatisticsSummary: {
@@ -275,6 +734,234 @@ const options: swaggerJsdoc.Options = {
             totalDamageDealt: { type: 'number', example: 150000 },
           },
         },
+        TowerAnalytics: {
+          type: 'object',
+          properties: {
+            towerType: { type: 'string', example: '1' },
+            gamesPicked: { type: 'number', example: 30 },
+            pickRate: { type: 'number', example: 71.4, description: 'Percent of all games' },
+            winRate: { type: 'number', example: 60, description: 'Percent of games picking it' },
+            totalBuilt: { type: 'number', example: 95 },
+            damageDealt: { type: 'number', example: 420000 },
+          },
+        },
+        EnemyAnalytics: {
+          type: 'object',
+          properties: {
+            enemyType: { type: 'string', example: '1' },
+            kills: { type: 'number', example: 2100 },
+            killShare: { type: 'number', example: 45.2, description: 'Percent of all kills' },
+            gamesSeen: { type: 'number', example: 42 },
+          },
+        },
+        WaveDistributionPoint: {
+          type: 'object',
+          properties: {
+            wave: { type: 'number', example: 8 },
+            games: { type: 'number', example: 14 },
+            wins: { type: 'number', example: 0 },
+          },
+        },
+        TrendPoint: {
+          type: 'object',
+          properties: {
+            period: { type: 'string', format: 'date', example: '2026-10-12' },
+            difficulty: {
+              type: 'string',
+              nullable: true,
+              enum: ['easy', 'normal', 'hard', 'custom'],
+            },
+            games: { type: 'number', example: 12 },
+            winRate: { type: 'number', example: 58.3 },
+            avgWave: { type: 'number', example: 8.5 },
+          },
+        },
+        PlayerRole: {
+          type: 'string',
+          enum: ['admin', 'designer', 'player'],
+          description: 'Designers and admins may edit game config; admins also manage accounts',
+        },
+        Player: {
+          type: 'object',
+          properties: {
+            id: { type: 'number', example: 1 },
+            username: { type: 'string', example: 'rookie' },
+            role: { $ref: '#/components/schemas/PlayerRole' },
+            createdAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        AuthRequest: {
+          type: 'object',
+          required: ['username', 'password'],
+          properties: {
+            username: { type: 'string', pattern: '^[A-Za-z0-9_-]{3,32}$', example: 'rookie' },
+            password: { type: 'string', minLength: 8, example: 'correct-horse' },
+          },
+        },
+        AuthResponse: {
+          type: 'object',
+          properties: {
+            token: { type: 'string' },
+            player: { $ref: '#/components/schemas/Player' },
+          },
+        },
+        PlayerHistoryResponse: {
+          type: 'object',
+          properties: {
+            summary: { $ref: '#/components/schemas/StatisticsSummary' },
+            games: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/GameStatistics' },
+            },
+          },
+        },
+        AuditLogEntry: {
+          type: 'object',
+          properties: {
+            id: { type: 'number' },
+            playerId: { type: 'number', nullable: true },
+            username: { type: 'string', example: 'designer1' },
+            entityType: {
+              type: 'string',
+              enum: [
+                'tower',
+                'tower_level',
+                'enemy',
+                'wave',
+                'settings',
+                'map',
+                'player',
+                'version',
+              ],
+            },
+            entityId: { type: 'string', example: '5' },
+            field: { type: 'string', example: 'health' },
+            oldValue: { nullable: true, description: 'null when the entity was created' },
+            newValue: { nullable: true, description: 'null when the entity was deleted' },
+            createdAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        WaveDefinition: {
+          type: 'object',
+          properties: {
+            waveNumber: { type: 'integer', example: 1 },
+            enemyId: { type: 'integer', example: 1 },
+            count: { type: 'integer', example: 7 },
+            spawnDelayMs: { type: 'integer', example: 800 },
+            difficultyLabel: { type: 'string', example: 'easy' },
+          },
+        },
+        ConfigSnapshot: {
+          type: 'object',
+          description: 'Tower, enemy, wave and settings config frozen at publish time',
+          properties: {
+            towers: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/TowerDefinitionWithLevels' },
+            },
+            enemies: { type: 'array', items: { $ref: '#/components/schemas/EnemyDefinition' } },
+            waves: { type: 'array', items: { $ref: '#/components/schemas/WaveDefinition' } },
+            settings: { type: 'array', items: { $ref: '#/components/schemas/GameSettings' } },
+          },
+        },
+        ConfigVersionSummary: {
+          type: 'object',
+          properties: {
+            id: { type: 'number', example: 3 },
+            notes: { type: 'string', example: 'Cheaper rooks' },
+            rolledBackFrom: {
+              type: 'number',
+              nullable: true,
+              description: 'The version a rollback restored',
+            },
+            playerId: { type: 'number', nullable: true },
+            username: { type: 'string', example: 'designer1' },
+            publishedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        ConfigVersion: {
+          allOf: [
+            { $ref: '#/components/schemas/ConfigVersionSummary' },
+            {
+              type: 'object',
+              properties: { snapshot: { $ref: '#/components/schemas/ConfigSnapshot' } },
+            },
+          ],
+        },
+        ConfigVersionChange: {
+          type: 'object',
+          properties: {
+            entityType: {
+              type: 'string',
+              enum: ['tower', 'tower_level', 'enemy', 'wave', 'settings', 'map'],
+              description: 'map only appears in import results',
+            },
+            entityId: {
+              type: 'string',
+              example: '2:3',
+              description: 'Tower levels are towerId:level',
+            },
+            field: { type: 'string', example: 'cost' },
+            oldValue: { nullable: true, description: 'null when the entity was added' },
+            newValue: { nullable: true, description: 'null when the entity was removed' },
+          },
+        },
+        ConfigVersionDiff: {
+          type: 'object',
+          properties: {
+            from: { oneOf: [{ type: 'number' }, { type: 'string', enum: ['draft'] }] },
+            to: { oneOf: [{ type: 'number' }, { type: 'string', enum: ['draft'] }] },
+            changes: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/ConfigVersionChange' },
+            },
+          },
+        },
+        ConfigBundle: {
+          description: 'Portable config bundle: the whole config plus maps as one JSON file',
+          allOf: [
+            {
+              type: 'object',
+              required: ['format', 'formatVersion'],
+              properties: {
+                format: { type: 'string', enum: ['chess-tdf-config'] },
+                formatVersion: { type: 'number', example: 1 },
+                exportedAt: { type: 'string', format: 'date-time' },
+                configVersionId: {
+                  type: 'number',
+                  nullable: true,
+                  description: 'The published version exported, null for the draft',
+                },
+                maps: { type: 'array', items: { $ref: '#/components/schemas/MapDefinition' } },
+              },
+            },
+            { $ref: '#/components/schemas/ConfigSnapshot' },
+          ],
+        },
+        ConfigImportResult: {
+          type: 'object',
+          properties: {
+            dryRun: { type: 'boolean' },
+            applied: { type: 'boolean', description: 'Whether the draft was overwritten' },
+            changes: {
+              type: 'array',
+              description: 'Changes from the draft to the bundle',
+              items: { $ref: '#/components/schemas/ConfigVersionChange' },
+            },
+            conflicts: {
+              type: 'array',
+              description: 'Entities that exist on only one side; the bundle cannot be applied',
+              items: {
+                type: 'object',
+                properties: {
+                  entityType: { type: 'string', enum: ['tower', 'enemy', 'settings', 'map'] },
+                  entityId: { type: 'number', example: 7 },
+                  message: { type: 'string', example: 'Tower 7 does not exist here' },
+                },
+              },
+            },
+          },
+        },
         Error: {
           type: 'object',
           properties: {
@@ -0,0 +1,126 @@
+import { Request, Response } from 'express';
+import { authService } from '../services/AuthService';
+import { auditService } from '../services/AuditService';
+import { AuthRequest } from '../types';
+import { parseIntParam } from './helpers';
+
+/**
+ * AuthController
+ * Handles player registration, login and profile requests
+ */
+export class AuthController {
+  /**
+   * POST /api/auth/register
+   * Create an account; returns a token and the player
+   */
+  async register(req: Request, res: Response): Promise<void> {
+    try {
+      const { username, password }: AuthRequest = req.body ?? {};
+      const response = await authService.register(username, password);
+      res.status(201).json(response);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ error: error.message });
+      } else {
+        console.error('Error registering player:', error);
+        res.status(500).json({ error: 'Failed to register' });
+      }
+    }
+  }
+
+  /**
+   * POST /api/auth/login
+   * Exchange username and password for a token
+   */
+  async login(req: Request, res: Response): Promise<void> {
+    try {
+      const { username, password }: AuthRequest = req.body ?? {};
+      const response = await authService.login(username, password);
+
+      if (!response) {
+        res.status(401).json({ error: 'Invalid username or password' });
+        return;
+      }
+
+      res.status(200).json(response);
+    } catch (error) {
+      console.error('Error logging in:', error);
+      res.status(500).json({ error: 'Failed to log in' });
+    }
+  }
+
+  /**
+   * GET /api/auth/me
+   * Get the signed-in player
+   */
+  async getCurrentPlayer(req: Request, res: Response): Promise<void> {
+    try {
+      const player = await authService.getPlayer(req.player!.id);
+
+      if (!player) {
+        res.status(404).json({ error: 'Player not found' });
+        return;
+      }
+
+      res.status(200).json(player);
+    } catch (error) {
+      console.error('Error fetching player:', error);
+      res.status(500).json({ error: 'Failed to fetch player' });
+    }
+  }
+
+  /**
+   * GET /api/auth/players
+   * List all accounts
+   */
+  async getPlayers(req: Request, res: Response): Promise<void> {
+    try {
+      const players = await authService.getAllPlayers();
+      res.status(200).json(players);
+    } catch (error) {
+      console.error('Error fetching players:', error);
+      res.status(500).json({ error: 'Failed to fetch players' });
+    }
+  }
+
+  /**
+   * PATCH /api/auth/players/:id/role
+   * Change an account's role
+   * Body: { role: 'admin' | 'designer' | 'player' }
+   */
+  async updatePlayerRole(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseIntParam(req.params['id']);
+
+      if (isNaN(id)) {
+        res.status(400).json({ error: 'Invalid player ID' });
+        return;
+      }
+
+      if (id === req.player!.id) {
+        res.status(400).json({ error: 'You cannot change your own role' });
+        return;
+      }
+
+      const before = await authService.getPlayer(id);
+      const player = await authService.setPlayerRole(id, req.body?.role);
+
+      if (!player) {
+        res.status(404).json({ error: 'Player not found' });
+        return;
+      }
+
+      await auditService.recordChange(req.player!, 'player', id, before, player);
+      res.status(200).json(player);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ error: error.message });
+      } else {
+        console.error('Error updating player role:', error);
+        res.status(500).json({ error: 'Failed to update player role' });
+      }
+    }
+  }
+}
+
+export const authController = new AuthController();
@@ -1,12 +1,48 @@
 import { Request, Response } from 'express';
 import { configService } from '../services/ConfigService';
 import { waveService } from '../services/WaveService';
-import { TowerLevel, EnemyDefinition, GameSettings } from '../types';
+import { auditService } from '../services/AuditService';
+import { configVersionService } from '../services/ConfigVersionService';
+import { configBundleService } from '../services/ConfigBundleService';
+import {
+  TowerLevel,
+  EnemyDefinition,
+  GameSettings,
+  MapDefinition,
+  AuditEntityType,
+  ConfigVersionRef,
+} from '../types';
+import { DEFAULT_DAMAGE_TYPE } from '../simulation/damage';
+import { DEFAULT_PROJECTILE_STATS } from '../simulation/projectiles';
+import { DEFAULT_EFFECT_STATS } from '../simulation/statusEffects';
+import { MAIN_BRANCH, levelKey } from '../simulation/upgradeTree';
 import { parseIntParam } from './helpers';
 
+// Upgrade tree branch of a level endpoint (?branch=), the main branch if not given
+const branchParam = (req: Request): string =>
+  typeof req.query['branch'] === 'string' ? req.query['branch'] : MAIN_BRANCH;
+
+const AUDIT_ENTITY_TYPES: AuditEntityType[] = [
+  'tower',
+  'tower_level',
+  'enemy',
+  'wave',
+  'settings',
+  'map',
+  'player',
+  'version',
+];
+
+// A version ID or 'draft' (the live config); null if neither
+const parseVersionRef = (param: string | string[] | undefined): ConfigVersionRef | null => {
+  if (param === 'draft') return 'draft';
+  const id = parseIntParam(param);
+  return isNaN(id) ? null : id;
+};
+
 /**
  * ConfigController
- * Unified controller for all game configuration: towers, enemies, settings
+ * Unified controller for all game configuration: towers, enemies, settings, waves, maps
  * Merged from DefinitionsController + SettingsController
  */
 export class ConfigController {
@@ -44,7 +80,7 @@ export class ConfigController {
 
   /**
    * PATCH /api/config/towers/:id
-   * Update tower definition metadata (name, description, color, maxLevel)
+   * Update tower definition metadata (name, description, color, maxLevel, attackPattern)
    */
   async updateTowerDefinition(req: Request, res: Response): Promise<void> {
     try {
@@ -58,6 +94,7 @@ export class ConfigController {
 
       const updates = req.body;
 
+      const [before] = await configService.getTowerDefinitionsWithLevels(id);
       const success = await configService.updateTowerDefinition(id, updates);
 
       if (!success) {
@@ -65,8 +102,15 @@ export class ConfigController {
         return;
       }
 
-      const updatedTower = await configService.getTowerDefinitionsWithLevels(id);
-      res.status(200).json(updatedTower[0]);
+      const [updatedTower] = await configService.getTowerDefinitionsWithLevels(id);
+      await auditService.recordChange(
+        req.player!,
+        'tower',
+        id,
+        before ?? null,
+        updatedTower ?? null
+      );
+      res.status(200).json(updatedTower);
     } catch (error) {
       if (error instanceof Error) {
         res.status(400).json({ error: error.message });
@@ -108,8 +152,8 @@ export class ConfigController {
   }
 
   /**
-   * GET /api/config/towers/:towerId/levels/:level
-   * Get specific level for a tower ID
+   * GET /api/config/towers/:towerId/levels/:level?branch=
+   * Get specific level for a tower ID (main branch unless given)
    */
   async getTowerLevel(req: Request, res: Response): Promise<void> {
     try {
@@ -128,7 +172,7 @@ export class ConfigController {
         return;
       }
 
-      const towerLevel = await configService.getTowerLevel(towerId, level);
+      const towerLevel = await configService.getTowerLevel(towerId, level, branchParam(req));
 
       if (!towerLevel) {
         res.status(404).json({ error: 'Tower level not found' });
@@ -143,8 +187,8 @@ export class ConfigController {
   }
 
   /**
-   * PUT /api/config/towers/:towerId/levels/:level
-   * Create or update a tower level
+   * PUT /api/config/towers/:towerId/levels/:level?branch=
+   * Create or update a tower level (main branch unless given)
    */
   async upsertTowerLevel(req: Request, res: Response): Promise<void> {
     try {
@@ -163,20 +207,55 @@ export class ConfigController {
         return;
       }
 
-      const { cost, damage, range, fireRate } = req.body;
+      const branch = branchParam(req);
+      const {
+        parentBranch,
+        cost,
+        damage,
+        range,
+        fireRate,
+        damageType,
+        projectileType,
+        splashRadius,
+        chainCount,
+        chainRange,
+        pierceCount,
+        effectType,
+        effectStrength,
+        effectDuration,
+      } = req.body;
 
       const towerLevel: TowerLevel = {
         towerId,
         level,
+        branch,
+        parentBranch: parentBranch ?? MAIN_BRANCH,
         cost,
         damage,
         range,
         fireRate,
+        damageType: damageType ?? DEFAULT_DAMAGE_TYPE,
+        projectileType: projectileType ?? DEFAULT_PROJECTILE_STATS.projectileType,
+        splashRadius: splashRadius ?? DEFAULT_PROJECTILE_STATS.splashRadius,
+        chainCount: chainCount ?? DEFAULT_PROJECTILE_STATS.chainCount,
+        chainRange: chainRange ?? DEFAULT_PROJECTILE_STATS.chainRange,
+        pierceCount: pierceCount ?? DEFAULT_PROJECTILE_STATS.pierceCount,
+        effectType: effectType ?? DEFAULT_EFFECT_STATS.effectType,
+        effectStrength: effectStrength ?? DEFAULT_EFFECT_STATS.effectStrength,
+        effectDuration: effectDuration ?? DEFAULT_EFFECT_STATS.effectDuration,
       };
 
+      const before = await configService.getTowerLevel(towerId, level, branch);
       await configService.upsertTowerLevel(towerLevel);
 
-      const updated = await configService.getTowerLevel(towerId, level);
+      const updated = await configService.getTowerLevel(towerId, level, branch);
+      await auditService.recordChange(
+        req.player!,
+        'tower_level',
+        levelKey(towerLevel),
+        before,
+        updated
+      );
       res.status(200).json(updated);
     } catch (error) {
       if (error instanceof Error) {
@@ -189,8 +268,8 @@ export class ConfigController {
   }
 
   /**
-   * DELETE /api/config/towers/:towerId/levels/:level
-   * Delete a tower level
+   * DELETE /api/config/towers/:towerId/levels/:level?branch=
+   * Delete a tower level (main branch unless given)
    */
   async deleteTowerLevel(req: Request, res: Response): Promise<void> {
     try {
@@ -209,17 +288,30 @@ export class ConfigController {
         return;
       }
 
-      const success = await configService.deleteTowerLevel(towerId, level);
+      const branch = branchParam(req);
+      const before = await configService.getTowerLevel(towerId, level, branch);
+      const success = await configService.deleteTowerLevel(towerId, level, branch);
 
       if (!success) {
         res.status(404).json({ error: 'Tower level not found' });
         return;
       }
 
+      await auditService.recordChange(
+        req.player!,
+        'tower_level',
+        levelKey({ towerId, level, branch }),
+        before,
+        null
+      );
       res.status(204).send();
     } catch (error) {
-      console.error('Error deleting tower level:', error);
-      res.status(500).json({ error: 'Failed to delete tower level' });
+      if (error instanceof Error) {
+        res.status(400).json({ error: error.message });
+      } else {
+        console.error('Error deleting tower level:', error);
+        res.status(500).json({ error: 'Failed to delete tower level' });
+      }
     }
   }
 
@@ -283,6 +375,7 @@ export class ConfigController {
 
       const updates: Partial<EnemyDefinition> = req.body;
 
+      const before = await configService.getEnemyDefinition(id);
       const success = await configService.updateEnemyDefinition(id, updates);
 
       if (!success) {
@@ -291,6 +384,7 @@ export class ConfigController {
       }
 
       const updatedEnemy = await configService.getEnemyDefinition(id);
+      await auditService.recordChange(req.player!, 'enemy', id, before, updatedEnemy);
       res.status(200).json(updatedEnemy);
     } catch (error) {
       if (error instanceof Error) {
@@ -392,6 +486,13 @@ export class ConfigController {
       const newSettings = await configService.createCustomSettings(
         settingsData as Omit<GameSettings, 'id' | 'createdAt' | 'updatedAt'>
       );
+      await auditService.recordChange(
+        req.player!,
+        'settings',
+        newSettings.id ?? newSettings.mode,
+        null,
+        newSettings
+      );
 
       res.status(201).json(newSettings);
     } catch (error) {
@@ -420,6 +521,7 @@ export class ConfigController {
 
       const updates: Partial<GameSettings> = req.body;
 
+      const before = await configService.getSettingsById(id);
       const success = await configService.updateSettings(id, updates);
 
       if (!success) {
@@ -428,6 +530,7 @@ export class ConfigController {
       }
 
       const updatedSettings = await configService.getSettingsById(id);
+      await auditService.recordChange(req.player!, 'settings', id, before, updatedSettings);
       res.status(200).json(updatedSettings);
     } catch (error) {
       if (error instanceof Error) {
@@ -518,6 +621,7 @@ export class ConfigController {
       }
 
       const wave = await waveService.createWave(waveNumber, enemies);
+      await auditService.recordChange(req.player!, 'wave', waveNumber, null, wave);
       res.status(201).json(wave);
     } catch (error) {
       if (error instanceof Error) {
@@ -551,7 +655,9 @@ export class ConfigController {
         return;
       }
 
+      const before = await waveService.getWave(waveNumber);
       const wave = await waveService.replaceWave(waveNumber, enemies);
+      await auditService.recordChange(req.player!, 'wave', waveNumber, before, wave);
       res.status(200).json(wave);
     } catch (error) {
       if (error instanceof Error) {
@@ -577,6 +683,7 @@ export class ConfigController {
         return;
       }
 
+      const before = await waveService.getWave(waveNumber);
       const success = await waveService.deleteWave(waveNumber);
 
       if (!success) {
@@ -584,12 +691,388 @@ export class ConfigController {
         return;
       }
 
+      await auditService.recordChange(req.player!, 'wave', waveNumber, before, null);
       res.status(204).send();
     } catch (error) {
       console.error('Error deleting wave:', error);
       res.status(500).json({ error: 'Failed to delete wave' });
     }
   }
+
+  // ==================== Maps ====================
+
+  /**
+   * GET /api/config/maps
+   * Get all maps
+   */
+  async getAllMaps(req: Request, res: Response): Promise<void> {
+    try {
+      const maps = await configService.getAllMaps();
+      res.status(200).json(maps);
+    } catch (error) {
+      console.error('Error fetching maps:', error);
+      res.status(500).json({ error: 'Failed to fetch maps' });
+    }
+  }
+
+  /**
+   * GET /api/config/maps/:id
+   * Get a specific map
+   */
+  async getMap(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseIntParam(req.params['id']);
+
+      if (isNaN(id)) {
+        res.status(400).json({ error: 'Invalid map ID' });
+        return;
+      }
+
+      const map = await configService.getMap(id);
+
+      if (!map) {
+        res.status(404).json({ error: 'Map not found' });
+        return;
+      }
+
+      res.status(200).json(map);
+    } catch (error) {
+      console.error('Error fetching map:', error);
+      res.status(500).json({ error: 'Failed to fetch map' });
+    }
+  }
+
+  /**
+   * POST /api/config/maps
+   * Create a new map
+   */
+  async createMap(req: Request, res: Response): Promise<void> {
+    try {
+      const {
+        name,
+        description = '',
+        waypoints,
+        blockedCells = [],
+        allowDiagonal = false,
+      } = req.body;
+
+      if (!name || waypoints === undefined) {
+        res.status(400).json({ error: 'Missing required fields: name, waypoints' });
+        return;
+      }
+
+      const map = await configService.createMap({
+        name,
+        description,
+        waypoints,
+        blockedCells,
+        allowDiagonal,
+      });
+      await auditService.recordChange(req.player!, 'map', map.id, null, map);
+
+      res.status(201).json(map);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ error: error.message });
+      } else {
+        console.error('Error creating map:', error);
+        res.status(500).json({ error: 'Failed to create map' });
+      }
+    }
+  }
+
+  /**
+   * PATCH /api/config/maps/:id
+   * Update an existing map
+   */
+  async updateMap(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseIntParam(req.params['id']);
+
+      if (isNaN(id)) {
+        res.status(400).json({ error: 'Invalid map ID' });
+        return;
+      }
+
+      const updates: Partial<MapDefinition> = req.body;
+
+      const before = await configService.getMap(id);
+      const success = await configService.updateMap(id, updates);
+
+      if (!success) {
+        res.status(404).json({ error: 'Map not found or update failed' });
+        return;
+      }
+
+      const updatedMap = await configService.getMap(id);
+      await auditService.recordChange(req.player!, 'map', id, before, updatedMap);
+      res.status(200).json(updatedMap);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ error: error.message });
+      } else {
+        console.error('Error updating map:', error);
+        res.status(500).json({ error: 'Failed to update map' });
+      }
+    }
+  }
+
+  /**
+   * DELETE /api/config/maps/:id
+   * Delete a map (the last remaining map cannot be deleted)
+   */
+  async deleteMap(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseIntParam(req.params['id']);
+
+      if (isNaN(id)) {
+        res.status(400).json({ error: 'Invalid map ID' });
+        return;
+      }
+
+      const before = await configService.getMap(id);
+      const success = await configService.deleteMap(id);
+
+      if (!success) {
+        res.status(404).json({ error: 'Map not found' });
+        return;
+      }
+
+      await auditService.recordChange(req.player!, 'map', id, before, null);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ error: error.message });
+      } else {
+        console.error('Error deleting map:', error);
+        res.status(500).json({ error: 'Failed to delete map' });
+      }
+    }
+  }
+
+  // ==================== Config Versions ====================
+
+  /**
+   * GET /api/config/versions
+   * List published config versions (newest first, the first is current)
+   */
+  async getVersions(req: Request, res: Response): Promise<void> {
+    try {
+      const versions = await configVersionService.getVersions();
+      res.status(200).json(versions);
+    } catch (error) {
+      console.error('Error fetching config versions:', error);
+      res.status(500).json({ error: 'Failed to fetch config versions' });
+    }
+  }
+
+  /**
+   * GET /api/config/versions/:id
+   * Get a config version with its snapshot
+   */
+  async getVersion(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseIntParam(req.params['id']);
+
+      if (isNaN(id)) {
+        res.status(400).json({ error: 'Invalid version ID' });
+        return;
+      }
+
+      const version = await configVersionService.getVersion(id);
+
+      if (!version) {
+        res.status(404).json({ error: 'Config version not found' });
+        return;
+      }
+
+      res.status(200).json(version);
+    } catch (error) {
+      console.error('Error fetching config version:', error);
+      res.status(500).json({ error: 'Failed to fetch config version' });
+    }
+  }
+
+  /**
+   * POST /api/config/versions
+   * Publish the draft as a new version; new games start on it
+   * Body: { notes?: string }
+   */
+  async publishVersion(req: Request, res: Response): Promise<void> {
+    try {
+      const notes: unknown = req.body?.notes ?? '';
+
+      if (typeof notes !== 'string') {
+        res.status(400).json({ error: 'notes must be a string' });
+        return;
+      }
+
+      const version = await configVersionService.publish(req.player!, notes.trim());
+      await auditService.recordChange(req.player!, 'version', version.id, null, {
+        notes: version.notes,
+      });
+      res.status(201).json(version);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ error: error.message });
+      } else {
+        console.error('Error publishing config version:', error);
+        res.status(500).json({ error: 'Failed to publish config version' });
+      }
+    }
+  }
+
+  /**
+   * POST /api/config/versions/:id/rollback
+   * Restore the draft to a version and publish it again as a new version
+   */
+  async rollbackVersion(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseIntParam(req.params['id']);
+
+      if (isNaN(id)) {
+        res.status(400).json({ error: 'Invalid version ID' });
+        return;
+      }
+
+      const version = await configVersionService.rollback(req.player!, id);
+
+      if (!version) {
+        res.status(404).json({ error: 'Config version not found' });
+        return;
+      }
+
+      await auditService.recordChange(req.player!, 'version', version.id, null, {
+        notes: version.notes,
+        rolledBackFrom: version.rolledBackFrom,
+      });
+      res.status(201).json(version);
+    } catch (error) {
+      console.error('Error rolling back config version:', error);
+      res.status(500).json({ error: 'Failed to roll back config version' });
+    }
+  }
+
+  /**
+   * GET /api/config/versions/:a/diff/:b
+   * Field-level changes from version a to version b ('draft' for the live config)
+   */
+  async diffVersions(req: Request, res: Response): Promise<void> {
+    try {
+      const from = parseVersionRef(req.params['a']);
+      const to = parseVersionRef(req.params['b']);
+
+      if (from === null || to === null) {
+        res.status(400).json({ error: "Versions must be version IDs or 'draft'" });
+        return;
+      }
+
+      const diff = await configVersionService.diff(from, to);
+
+      if (!diff) {
+        res.status(404).json({ error: 'Config version not found' });
+        return;
+      }
+
+      res.status(200).json(diff);
+    } catch (error) {
+      console.error('Error diffing config versions:', error);
+      res.status(500).json({ error: 'Failed to diff config versions' });
+    }
+  }
+
+  // ==================== Import / Export ====================
+
+  /**
+   * GET /api/config/export
+   * Download the whole config as a portable JSON bundle
+   * Query param: ?version=3 to export a published version instead of the draft
+   */
+  async exportConfig(req: Request, res: Response): Promise<void> {
+    try {
+      const versionParam = req.query['version'] as string | undefined;
+      const versionId = versionParam !== undefined ? parseInt(versionParam) : undefined;
+
+      if (versionId !== undefined && isNaN(versionId)) {
+        res.status(400).json({ error: 'Invalid version ID' });
+        return;
+      }
+
+      const bundle = await configBundleService.exportBundle(versionId);
+
+      if (!bundle) {
+        res.status(404).json({ error: 'Config version not found' });
+        return;
+      }
+
+      const name = `chess-tdf-config-${bundle.configVersionId ?? 'draft'}.json`;
+      res.setHeader('Content-Disposition', `attachment; filename="${name}"`);
+      res.status(200).json(bundle);
+    } catch (error) {
+      console.error('Error exporting config:', error);
+      res.status(500).json({ error: 'Failed to export config' });
+    }
+  }
+
+  /**
+   * POST /api/config/import
+   * Overwrite the draft with an exported bundle (publish afterwards to use it)
+   * Query param: ?dryRun=true to only report changes and conflicts
+   * Body: a bundle from GET /api/config/export
+   */
+  async importConfig(req: Request, res: Response): Promise<void> {
+    try {
+      const dryRun = req.query['dryRun'] === 'true';
+      const { bundle, errors } = await configBundleService.parseBundle(req.body);
+
+      if (!bundle) {
+        res.status(400).json({ error: 'Invalid config bundle', details: errors });
+        return;
+      }
+
+      const result = await configBundleService.importBundle(req.player!, bundle, dryRun);
+
+      if (!dryRun && result.conflicts.length > 0) {
+        res.status(409).json({
+          error: 'Bundle does not match the towers, enemies, settings and maps here',
+          ...result,
+        });
+        return;
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      console.error('Error importing config:', error);
+      res.status(500).json({ error: 'Failed to import config' });
+    }
+  }
+
+  // ==================== Audit Log ====================
+
+  /**
+   * GET /api/config/audit-log
+   * Get recent config changes (newest first)
+   * Query params: ?entityType=enemy&limit=100
+   */
+  async getAuditLog(req: Request, res: Response): Promise<void> {
+    try {
+      const entityType = req.query['entityType'] as AuditEntityType | undefined;
+      const limit = parseInt(req.query['limit'] as string) || 100;
+
+      if (entityType !== undefined && !AUDIT_ENTITY_TYPES.includes(entityType)) {
+        res.status(400).json({
+          error: `Invalid entityType. Must be one of: ${AUDIT_ENTITY_TYPES.join(', ')}`,
+        });
+        return;
+      }
+
+      const entries = await auditService.getAuditLog(entityType, limit);
+      res.status(200).json(entries);
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      res.status(500).json({ error: 'Failed to fetch audit log' });
+    }
+  }
 }
 
 export const configController = new ConfigController();
@@ -1,7 +1,9 @@
 import { Request, Response } from 'express';
 import { gameService } from '../services/GameService';
-import { waveService } from '../services/WaveService';
-import { configService } from '../services/ConfigService';
+import { replayService } from '../services/ReplayService';
+import { isTargetingMode } from '../simulation/targeting';
+import { isSeed } from '../simulation/random';
+import { isMutatorId, MUTATORS } from '../simulation/mutators';
 import {
   StartGameResponse,
   GameConfigResponse,
@@ -11,40 +13,92 @@ import {
   EndGameRequest,
   EndGameResponse,
   GameStateResponse,
+  SetTargetingRequest,
+  UpgradeTowerRequest,
+  SetTargetingResponse,
+  SessionStatus,
+  GameSessionSummary,
+  GameMode,
+  GameOutcome,
 } from '../types';
 
+const SESSION_STATUSES: SessionStatus[] = ['active', 'completed', 'abandoned'];
+const GAME_MODES: GameMode[] = ['10waves', '20waves', 'endless', 'daily'];
+const GAME_OUTCOMES: GameOutcome[] = ['win', 'loss'];
+
+// A statistics breakdown like enemiesKilledByType: ID keys with non-negative amounts
+const isBreakdown = (value: unknown): value is Record<string, number> =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  Object.values(value).every((n) => typeof n === 'number' && Number.isFinite(n) && n >= 0);
+
 export class GameController {
   // POST /api/game/start
   async startGame(req: Request, res: Response): Promise<void> {
     try {
-      const { difficulty = 'normal', gameMode = '10waves' } = req.body;
-      const game = await gameService.createGame(gameMode, difficulty);
+      const { difficulty = 'normal', gameMode = '10waves', mapId, seed, mutators = [] } = req.body;
+
+      if (!GAME_MODES.includes(gameMode)) {
+        res.status(400).json({ error: `Invalid game mode. Must be ${GAME_MODES.join(', ')}` });
+        return;
+      }
+      if (mapId !== undefined && !Number.isInteger(mapId)) {
+        res.status(400).json({ error: 'Invalid map ID' });
+        return;
+      }
+      if (seed !== undefined && !isSeed(seed)) {
+        res.status(400).json({ error: 'Invalid seed: must be an integer from 0 to 4294967295' });
+        return;
+      }
+      if (!Array.isArray(mutators) || !mutators.every(isMutatorId)) {
+        res.status(400).json({
+          error: `Invalid mutators. Must be a list of ${MUTATORS.map((m) => m.id).join(', ')}`,
+        });
+        return;
+      }
+
+      const game = await gameService.createGame(
+        gameMode,
+        difficulty,
+        mapId,
+        req.player?.id,
+        seed,
+        mutators
+      );
 
       const response: StartGameResponse = {
         gameId: game.id,
         initialCoins: game.coins,
         lives: game.lives,
+        map: game.map!,
+        seed: game.seed!,
+        daily: game.daily ?? null,
+        mutators: game.mutators,
       };
 
       res.status(201).json(response);
     } catch (error) {
+      if (error instanceof Error && error.message === 'Map not found') {
+        res.status(404).json({ error: error.message });
+        return;
+      }
       console.error('Error starting game:', error);
       res.status(500).json({ error: 'Failed to start game' });
     }
   }
 
-  // GET /api/game/config
+  // GET /api/game/config and GET /api/game/:gameId/config
+  // With a game ID: the config version that game is pinned to
   async getConfig(req: Request, res: Response): Promise<void> {
     try {
-      const [towers, enemies] = await Promise.all([
-        configService.getTowerDefinitionsWithLevels(),
-        configService.getAllEnemyDefinitions(),
-      ]);
-
-      const response: GameConfigResponse = {
-        towers,
-        enemies,
-      };
+      const gameId = req.params['gameId'] as string | undefined;
+      const response: GameConfigResponse | null = await gameService.getGameConfig(gameId);
+
+      if (!response) {
+        res.status(404).json({ error: 'Game not found' });
+        return;
+      }
 
       res.status(200).json(response);
     } catch (error) {
@@ -53,6 +107,27 @@ export class GameController {
     }
   }
 
+  // GET /api/games?status=active (signed-in players only)
+  async listGames(req: Request, res: Response): Promise<void> {
+    try {
+      const status = (req.query['status'] ?? 'active') as string;
+
+      if (!SESSION_STATUSES.includes(status as SessionStatus)) {
+        res.status(400).json({ error: `Invalid status. Must be ${SESSION_STATUSES.join(', ')}` });
+        return;
+      }
+
+      const games: GameSessionSummary[] = await gameService.listGames(
+        status as SessionStatus,
+        req.player!.id
+      );
+      res.status(200).json(games);
+    } catch (error) {
+      console.error('Error listing games:', error);
+      res.status(500).json({ error: 'Failed to list games' });
+    }
+  }
+
   // GET /api/game/:gameId/state
   async getGameState(req: Request, res: Response): Promise<void> {
     try {
@@ -69,6 +144,12 @@ export class GameController {
         lives: game.lives,
         wave: game.wave,
         towers: game.towers,
+        enemiesKilled: game.enemiesKilled,
+        status: game.status,
+        waveActive: game.waveActive,
+        map: game.map ?? null,
+        seed: game.seed ?? null,
+        mutators: game.mutators,
       };
 
       res.status(200).json(response);
@@ -109,8 +190,14 @@ export class GameController {
     try {
       const gameId = req.params['gameId'] as string;
       const towerId = req.params['towerId'] as string;
+      const request: UpgradeTowerRequest = req.body ?? {};
 
-      const result = await gameService.upgradeTower(gameId, towerId);
+      if (request.branch !== undefined && typeof request.branch !== 'string') {
+        res.status(400).json({ error: 'Invalid branch' });
+        return;
+      }
+
+      const result = await gameService.upgradeTower(gameId, towerId, request.branch);
 
       if (!result.success) {
         res.status(400).json({ error: result.message });
@@ -128,6 +215,38 @@ export class GameController {
     }
   }
 
+  // PATCH /api/game/:gameId/towers/:towerId/targeting
+  async setTowerTargeting(req: Request, res: Response): Promise<void> {
+    try {
+      const gameId = req.params['gameId'] as string;
+      const towerId = req.params['towerId'] as string;
+      const request: SetTargetingRequest = req.body;
+
+      if (!isTargetingMode(request.targetingMode)) {
+        res.status(400).json({ error: 'Invalid targeting mode' });
+        return;
+      }
+
+      const result = await gameService.setTowerTargeting(gameId, towerId, request.targetingMode);
+
+      if (!result.success) {
+        const status = result.message === 'Game not found' ? 404 : 400;
+        res.status(status).json({ error: result.message });
+        return;
+      }
+
+      const response: SetTargetingResponse = {
+        success: true,
+        tower: result.tower,
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      console.error('Error setting tower targeting:', error);
+      res.status(500).json({ error: 'Failed to set tower targeting' });
+    }
+  }
+
   // DELETE /api/game/:gameId/tower/:towerId
   async sellTower(req: Request, res: Response): Promise<void> {
     try {
@@ -157,36 +276,23 @@ export class GameController {
     try {
       const gameId = req.params['gameId'] as string;
 
-      const success = await gameService.startWave(gameId);
-      if (!success) {
-        res.status(404).json({ error: 'Game not found' });
-        return;
-      }
-
-      const game = await gameService.getGame(gameId);
-      if (!game) {
-        res.status(404).json({ error: 'Game not found' });
+      const wave = await gameService.startWave(gameId);
+      if (!wave.success || !wave.result) {
+        const status = wave.message === 'Game not found' ? 404 : 400;
+        res.status(status).json({ error: wave.message });
         return;
       }
 
-      const enemies = await waveService.getWaveEnemies(game.wave);
-
-      // Get settings for wave scaling multipliers
-      let enemyHealthWaveMultiplier = 0.1;
-      let enemyRewardWaveMultiplier = 0.05;
-      if (game.settingsId) {
-        const settings = await configService.getSettingsById(game.settingsId);
-        if (settings) {
-          enemyHealthWaveMultiplier = settings.enemyHealthWaveMultiplier;
-          enemyRewardWaveMultiplier = settings.enemyRewardWaveMultiplier;
-        }
-      }
-
       const response: StartWaveResponse = {
-        waveNumber: game.wave,
-        enemies,
-        enemyHealthWaveMultiplier,
-        enemyRewardWaveMultiplier,
+        waveNumber: wave.waveNumber ?? 0,
+        enemies: wave.enemies ?? [],
+        enemyHealthWaveMultiplier: wave.enemyHealthWaveMultiplier ?? 0.1,
+        enemyRewardWaveMultiplier: wave.enemyRewardWaveMultiplier ?? 0.05,
+        result: wave.result,
+        coins: wave.remainingCoins ?? 0,
+        lives: wave.remainingLives ?? 0,
+        gameOver: (wave.remainingLives ?? 0) <= 0,
+        gameWon: wave.gameWon ?? false,
       };
 
       res.status(200).json(response);
@@ -196,76 +302,104 @@ export class GameController {
     }
   }
 
-  // POST /api/game/:gameId/end
-  async endGame(req: Request, res: Response): Promise<void> {
+  // POST /api/game/:gameId/waves/complete
+  async completeWave(req: Request, res: Response): Promise<void> {
     try {
       const gameId = req.params['gameId'] as string;
-      const request: EndGameRequest = req.body;
 
-      console.log(
-        `Game ${gameId} ended - Wave: ${request.finalWave}, Enemies Killed: ${request.enemiesKilled}`
-      );
-
-      const success = await gameService.endGame(gameId, 'loss', {
-        duration: 0,
-        enemiesKilledTotal: request.enemiesKilled,
-        enemiesKilledByType: {},
-        towersBuiltTotal: 0,
-        towersBuiltByType: {},
-        coinsEarned: 0,
-        coinsSpent: 0,
-        damageDealt: 0,
-      });
+      const result = await gameService.completeWave(gameId);
+      if (!result.success) {
+        const status = result.message === 'Game not found' ? 404 : 400;
+        res.status(status).json({ error: result.message });
+        return;
+      }
 
-      const response: EndGameResponse = { success };
-      res.status(200).json(response);
+      res.status(200).json({ success: true });
     } catch (error) {
-      console.error('Error ending game:', error);
-      res.status(500).json({ error: 'Failed to end game' });
+      console.error('Error completing wave:', error);
+      res.status(500).json({ error: 'Failed to complete wave' });
     }
   }
 
-  // POST /api/game/:gameId/coins
-  async addCoins(req: Request, res: Response): Promise<void> {
+  // POST /api/game/:gameId/end
+  async endGame(req: Request, res: Response): Promise<void> {
     try {
       const gameId = req.params['gameId'] as string;
-      const { amount } = req.body;
-
-      if (typeof amount !== 'number' || amount <= 0) {
-        res.status(400).json({ error: 'Invalid coin amount' });
+      const request: EndGameRequest = req.body;
+      const {
+        outcome = 'loss',
+        duration = 0,
+        enemiesKilledByType = {},
+        towersBuiltByType = {},
+        damageByTowerType = {},
+      } = request;
+
+      if (!GAME_OUTCOMES.includes(outcome)) {
+        res.status(400).json({ error: `Invalid outcome. Must be ${GAME_OUTCOMES.join(', ')}` });
+        return;
+      }
+      if (typeof duration !== 'number' || !Number.isFinite(duration) || duration < 0) {
+        res.status(400).json({ error: 'Invalid duration' });
+        return;
+      }
+      if (![enemiesKilledByType, towersBuiltByType, damageByTowerType].every(isBreakdown)) {
+        res.status(400).json({ error: 'Invalid statistics breakdown' });
         return;
       }
 
-      const success = await gameService.addCoins(gameId, amount);
-      if (!success) {
-        res.status(404).json({ error: 'Game not found' });
+      if (request.replay !== undefined) {
+        try {
+          replayService.validateReplay(request.replay);
+        } catch (error) {
+          res.status(400).json({ error: (error as Error).message });
+          return;
+        }
+      }
+
+      console.log(
+        `Game ${gameId} ended (${outcome}) - Wave: ${request.finalWave}, Enemies Killed: ${request.enemiesKilled}`
+      );
+
+      const result = await gameService.endGame(
+        gameId,
+        outcome,
+        { duration, enemiesKilledByType, towersBuiltByType, damageByTowerType },
+        request.replay
+      );
+
+      if (!result.success || !result.scoreBreakdown) {
+        const status = result.message === 'Game not found' ? 404 : 400;
+        res.status(status).json({ error: result.message });
         return;
       }
 
-      const game = await gameService.getGame(gameId);
-      res.status(200).json({ success: true, coins: game?.coins ?? 0 });
+      const response: EndGameResponse = {
+        success: true,
+        score: result.score ?? 0,
+        scoreBreakdown: result.scoreBreakdown,
+      };
+      res.status(200).json(response);
     } catch (error) {
-      console.error('Error adding coins:', error);
-      res.status(500).json({ error: 'Failed to add coins' });
+      console.error('Error ending game:', error);
+      res.status(500).json({ error: 'Failed to end game' });
     }
   }
 
-  // POST /api/game/:gameId/life/lose
-  async loseLife(req: Request, res: Response): Promise<void> {
+  // GET /api/game/:gameId/replay
+  async getReplay(req: Request, res: Response): Promise<void> {
     try {
       const gameId = req.params['gameId'] as string;
+      const replay = await replayService.getReplay(gameId);
 
-      const stillAlive = await gameService.loseLife(gameId);
-      const game = await gameService.getGame(gameId);
+      if (!replay) {
+        res.status(404).json({ error: 'Replay not found' });
+        return;
+      }
 
-      res.status(200).json({
-        success: true,
-        lives: game?.lives ?? 0,
-        gameOver: !stillAlive,
-      });
+      res.status(200).json(replay);
     } catch (error) {
-      console.error('Error losing life:', error);
-      res.status(500).json({ error: 'Failed to lose life' });
+      console.error('Error getting replay:', error);
+      res.status(500).json({ error: 'Failed to get replay' });
     }
   }
 }
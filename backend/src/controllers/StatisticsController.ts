@@ -1,8 +1,60 @@
 import { Request, Response } from 'express';
-import { statisticsService } from '../services/StatisticsService';
-import { GameStatistics } from '../types';
+import { statisticsService, StatisticsService } from '../services/StatisticsService';
+import { configService } from '../services/ConfigService';
+import { dailyChallengeService, DailyChallengeService } from '../services/DailyChallengeService';
+import { isMutatorId } from '../simulation/mutators';
+import {
+  AnalyticsFilters,
+  GameMode,
+  GameStatistics,
+  PlayerHistoryResponse,
+  SettingsMode,
+  TopScoreFilters,
+  TrendInterval,
+} from '../types';
 import { parseIntParam } from './helpers';
 
+const GAME_MODES: GameMode[] = ['10waves', '20waves', 'endless', 'daily'];
+const DIFFICULTIES: SettingsMode[] = ['easy', 'normal', 'hard', 'custom'];
+const TREND_INTERVALS: TrendInterval[] = ['day', 'week'];
+const MAX_ANALYTICS_DAYS = 365;
+// Trends cover this many days unless asked for more
+const DEFAULT_TREND_DAYS = 90;
+
+/**
+ * Analytics filters from ?gameMode=&difficulty=&days=, or the message of the
+ * first invalid one
+ */
+function parseAnalyticsFilters(query: Request['query']): AnalyticsFilters | string {
+  const filters: AnalyticsFilters = {};
+
+  const gameMode = query['gameMode'];
+  if (gameMode !== undefined) {
+    if (!GAME_MODES.includes(gameMode as GameMode)) {
+      return `Invalid game mode. Must be ${GAME_MODES.join(', ')}`;
+    }
+    filters.gameMode = gameMode as GameMode;
+  }
+
+  const difficulty = query['difficulty'];
+  if (difficulty !== undefined) {
+    if (!DIFFICULTIES.includes(difficulty as SettingsMode)) {
+      return `Invalid difficulty. Must be ${DIFFICULTIES.join(', ')}`;
+    }
+    filters.difficulty = difficulty as SettingsMode;
+  }
+
+  if (query['days'] !== undefined) {
+    const days = parseIntParam(query['days'] as string | string[]);
+    if (isNaN(days) || days < 1 || days > MAX_ANALYTICS_DAYS) {
+      return `Invalid days. Must be between 1 and ${MAX_ANALYTICS_DAYS}`;
+    }
+    filters.days = days;
+  }
+
+  return filters;
+}
+
 /**
  * StatisticsController
  * Handles HTTP requests for game statistics
@@ -92,8 +144,15 @@ export class StatisticsController {
     try {
       const gameMode = (req.params['gameMode'] ?? '') as string;
 
-      if (gameMode !== '10waves' && gameMode !== '20waves' && gameMode !== 'endless') {
-        res.status(400).json({ error: 'Invalid game mode. Must be 10waves, 20waves, or endless' });
+      if (
+        gameMode !== '10waves' &&
+        gameMode !== '20waves' &&
+        gameMode !== 'endless' &&
+        gameMode !== 'daily'
+      ) {
+        res
+          .status(400)
+          .json({ error: 'Invalid game mode. Must be 10waves, 20waves, endless, or daily' });
         return;
       }
 
@@ -108,13 +167,45 @@ export class StatisticsController {
   }
 
   /**
-   * GET /api/statistics/top-scores
-   * Get top scores (highest waves in endless mode)
+   * GET /api/statistics/top-scores?mutators=&gameMode=&difficulty=
+   * Get top scores (highest score first). With mutators (comma-separated, empty
+   * for none): only games played with exactly that mutator set. With gameMode or
+   * difficulty: only games of that mode or difficulty.
    */
   async getTopScores(req: Request, res: Response): Promise<void> {
     try {
       const limit = parseInt(req.query['limit'] as string) || 10;
-      const topScores = await statisticsService.getTopScores(limit);
+      const filters: TopScoreFilters = {};
+
+      const mutatorsParam = req.query['mutators'];
+      if (mutatorsParam !== undefined) {
+        const ids = mutatorsParam === '' ? [] : String(mutatorsParam).split(',');
+        if (!ids.every(isMutatorId)) {
+          res.status(400).json({ error: 'Invalid mutators' });
+          return;
+        }
+        filters.mutators = ids;
+      }
+
+      const gameMode = req.query['gameMode'];
+      if (gameMode !== undefined) {
+        if (!GAME_MODES.includes(gameMode as GameMode)) {
+          res.status(400).json({ error: `Invalid game mode. Must be ${GAME_MODES.join(', ')}` });
+          return;
+        }
+        filters.gameMode = gameMode as GameMode;
+      }
+
+      const difficulty = req.query['difficulty'];
+      if (difficulty !== undefined) {
+        if (!DIFFICULTIES.includes(difficulty as SettingsMode)) {
+          res.status(400).json({ error: `Invalid difficulty. Must be ${DIFFICULTIES.join(', ')}` });
+          return;
+        }
+        filters.difficulty = difficulty as SettingsMode;
+      }
+
+      const topScores = await statisticsService.getTopScores(limit, filters);
 
       res.status(200).json(topScores);
     } catch (error) {
@@ -123,6 +214,124 @@ export class StatisticsController {
     }
   }
 
+  /**
+   * GET /api/statistics/towers?gameMode=&difficulty=&days=
+   * Get pick rate and win rate when picked per tower type
+   */
+  async getTowerAnalytics(req: Request, res: Response): Promise<void> {
+    try {
+      const filters = parseAnalyticsFilters(req.query);
+      if (typeof filters === 'string') {
+        res.status(400).json({ error: filters });
+        return;
+      }
+
+      const towers = await statisticsService.getTowerAnalytics(filters);
+
+      res.status(200).json(towers);
+    } catch (error) {
+      console.error('Error fetching tower analytics:', error);
+      res.status(500).json({ error: 'Failed to fetch tower analytics' });
+    }
+  }
+
+  /**
+   * GET /api/statistics/enemies?gameMode=&difficulty=&days=
+   * Get kills and kill share per enemy type
+   */
+  async getEnemyAnalytics(req: Request, res: Response): Promise<void> {
+    try {
+      const filters = parseAnalyticsFilters(req.query);
+      if (typeof filters === 'string') {
+        res.status(400).json({ error: filters });
+        return;
+      }
+
+      const enemies = await statisticsService.getEnemyAnalytics(filters);
+
+      res.status(200).json(enemies);
+    } catch (error) {
+      console.error('Error fetching enemy analytics:', error);
+      res.status(500).json({ error: 'Failed to fetch enemy analytics' });
+    }
+  }
+
+  /**
+   * GET /api/statistics/waves?gameMode=&difficulty=&days=
+   * Get the number of games (and wins) per final wave reached
+   */
+  async getWaveDistribution(req: Request, res: Response): Promise<void> {
+    try {
+      const filters = parseAnalyticsFilters(req.query);
+      if (typeof filters === 'string') {
+        res.status(400).json({ error: filters });
+        return;
+      }
+
+      const distribution = await statisticsService.getWaveDistribution(filters);
+
+      res.status(200).json(distribution);
+    } catch (error) {
+      console.error('Error fetching wave distribution:', error);
+      res.status(500).json({ error: 'Failed to fetch wave distribution' });
+    }
+  }
+
+  /**
+   * GET /api/statistics/trends?interval=day|week&gameMode=&difficulty=&days=
+   * Get win rate and average wave per difficulty for each day or week
+   * (the last 90 days unless days is given)
+   */
+  async getTrends(req: Request, res: Response): Promise<void> {
+    try {
+      const filters = parseAnalyticsFilters(req.query);
+      if (typeof filters === 'string') {
+        res.status(400).json({ error: filters });
+        return;
+      }
+
+      const interval = req.query['interval'] ?? 'day';
+      if (!TREND_INTERVALS.includes(interval as TrendInterval)) {
+        res.status(400).json({ error: `Invalid interval. Must be ${TREND_INTERVALS.join(', ')}` });
+        return;
+      }
+
+      const trends = await statisticsService.getTrends(interval as TrendInterval, {
+        days: DEFAULT_TREND_DAYS,
+        ...filters,
+      });
+
+      res.status(200).json(trends);
+    } catch (error) {
+      console.error('Error fetching statistics trends:', error);
+      res.status(500).json({ error: 'Failed to fetch statistics trends' });
+    }
+  }
+
+  /**
+   * GET /api/statistics/daily/:date
+   * Get a daily challenge and its leaderboard (each player's first attempt)
+   */
+  async getDailyLeaderboard(req: Request, res: Response): Promise<void> {
+    try {
+      const date = (req.params['date'] ?? '') as string;
+
+      // Later challenges are not revealed before their day
+      if (!DailyChallengeService.isDailyDate(date) || date > DailyChallengeService.today()) {
+        res.status(400).json({ error: 'Invalid date. Must be YYYY-MM-DD, today or earlier' });
+        return;
+      }
+
+      const limit = parseInt(req.query['limit'] as string) || 50;
+      const leaderboard = await dailyChallengeService.getLeaderboard(date, limit);
+
+      res.status(200).json(leaderboard);
+    } catch (error) {
+      console.error('Error fetching daily leaderboard:', error);
+      res.status(500).json({ error: 'Failed to fetch daily leaderboard' });
+    }
+  }
+
   /**
    * GET /api/statistics/recent
    * Get recent games
@@ -139,13 +348,49 @@ export class StatisticsController {
     }
   }
 
+  /**
+   * GET /api/statistics/me
+   * Get the signed-in player's game history and summary
+   */
+  async getPlayerHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const playerId = req.player!.id;
+      const limit = parseInt(req.query['limit'] as string) || 50;
+
+      const [games, summary] = await Promise.all([
+        statisticsService.getPlayerStatistics(playerId, limit),
+        statisticsService.getStatisticsSummary(playerId),
+      ]);
+
+      const response: PlayerHistoryResponse = { summary, games };
+      res.status(200).json(response);
+    } catch (error) {
+      console.error('Error fetching player history:', error);
+      res.status(500).json({ error: 'Failed to fetch player history' });
+    }
+  }
+
   /**
    * POST /api/statistics
-   * Record new game statistics
+   * Record game statistics by hand (admin endpoint). Played games are recorded
+   * by GameService.endGame from their session, never from a client.
    */
   async recordStatistics(req: Request, res: Response): Promise<void> {
     try {
-      const statsData: Omit<GameStatistics, 'id' | 'createdAt'> = req.body;
+      // Statistics belong to the signed-in player, never to a player named in the body,
+      // and scores are always computed here. Only a daily game's session can rank it,
+      // so manual records never count as daily attempts.
+      const {
+        score: _score,
+        scoreBreakdown: _scoreBreakdown,
+        dailyDate: _dailyDate,
+        dailyRanked: _dailyRanked,
+        ...body
+      } = req.body ?? {};
+      const statsData: Omit<GameStatistics, 'id' | 'createdAt'> = {
+        ...body,
+        playerId: req.player?.id ?? null,
+      };
 
       // Validate required fields
       if (!statsData.gameId || !statsData.outcome || !statsData.gameMode) {
@@ -153,7 +398,28 @@ export class StatisticsController {
         return;
       }
 
-      const statistics = await statisticsService.recordGameStatistics(statsData);
+      // Lives left are not part of the statistics, and unspent coins are whatever was earned
+      // but not spent
+      const settings = statsData.settingsId
+        ? await configService.getSettingsById(statsData.settingsId)
+        : null;
+      const { score, breakdown } = StatisticsService.computeScore(
+        {
+          won: statsData.outcome === 'win',
+          wavesCleared: Math.max(0, statsData.wavesCompleted ?? 0),
+          lives: 0,
+          coins: Math.max(0, (statsData.coinsEarned ?? 0) - (statsData.coinsSpent ?? 0)),
+          coinsSpent: Math.max(0, statsData.coinsSpent ?? 0),
+          elapsedMs: Math.max(0, statsData.duration ?? 0),
+        },
+        settings ?? undefined
+      );
+
+      const statistics = await statisticsService.recordGameStatistics({
+        ...statsData,
+        score,
+        scoreBreakdown: breakdown,
+      });
 
       res.status(201).json(statistics);
     } catch (error) {
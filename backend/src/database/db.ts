@@ -1,3 +1,4 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import { Pool, PoolClient, QueryResult, QueryResultRow } from 'pg';
 
 // Database connection using environment variables (injected by Docker from .env file)
@@ -16,13 +17,16 @@ pool.on('error', (err) => {
   console.error('Unexpected database pool error:', err);
 });
 
+// Client of the transaction the current call runs in (see transaction)
+const transactionClient = new AsyncLocalStorage<PoolClient>();
+
 export const query = async <T extends QueryResultRow = QueryResultRow>(
   text: string,
   params?: unknown[]
 ): Promise<QueryResult<T>> => {
   const start = Date.now();
   try {
-    const res = await pool.query<T>(text, params);
+    const res = await (transactionClient.getStore() ?? pool).query<T>(text, params);
     const duration = Date.now() - start;
     console.log('Executed query', { text, duration, rows: res.rowCount });
     return res;
@@ -36,6 +40,23 @@ export const getClient = async (): Promise<PoolClient> => {
   return await pool.connect();
 };
 
+// Run fn in a transaction: its queries (repositories' too) share one client, and are
+// committed if fn resolves or rolled back if it throws
+export const transaction = async <T>(fn: () => Promise<T>): Promise<T> => {
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
+    const result = await transactionClient.run(client, fn);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
 export const testConnection = async (): Promise<boolean> => {
   try {
     const result = await query('SELECT NOW()');
@@ -55,6 +76,7 @@ export const closePool = async (): Promise<void> => {
 export default {
   query,
   getClient,
+  transaction,
   testConnection,
   closePool,
 };
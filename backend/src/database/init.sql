@@ -12,24 +12,37 @@ CREATE TABLE IF NOT EXISTS tower_definitions (
     color VARCHAR(20) NOT NULL,
     description TEXT,
     max_level INTEGER NOT NULL DEFAULT 5,
+    attack_pattern VARCHAR(20) NOT NULL DEFAULT 'radius', -- 'radius', 'rook', 'bishop', 'knight'
     created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
 
 -- Table: tower_levels
--- Stores per-level stats for each tower type
+-- Stores per-level stats for each tower type. Rows are the nodes of the tower's
+-- upgrade tree; parent_branch is the edge to the node one level below.
 -- Level 1 = base tower, Level 2+ = upgrades
 CREATE TABLE IF NOT EXISTS tower_levels (
     id SERIAL PRIMARY KEY,
     tower_id INTEGER NOT NULL REFERENCES tower_definitions(id) ON DELETE CASCADE,
     level INTEGER NOT NULL,
+    branch VARCHAR(30) NOT NULL DEFAULT '', -- '' is the main branch
+    parent_branch VARCHAR(30) NOT NULL DEFAULT '', -- branch of the level this upgrades from
     cost INTEGER NOT NULL,
     damage INTEGER NOT NULL,
     range INTEGER NOT NULL,
     fire_rate DECIMAL(4,2) NOT NULL,
+    damage_type VARCHAR(20) NOT NULL DEFAULT 'pierce', -- 'pierce', 'splash', 'magic'
+    projectile_type VARCHAR(20) NOT NULL DEFAULT 'single', -- 'single', 'splash', 'chain', 'pierce'
+    splash_radius INTEGER NOT NULL DEFAULT 0, -- pixels, splash only
+    chain_count INTEGER NOT NULL DEFAULT 0, -- extra enemies a chain bounces to
+    chain_range INTEGER NOT NULL DEFAULT 0, -- pixels between chain bounces
+    pierce_count INTEGER NOT NULL DEFAULT 0, -- extra enemies a pierce shot passes through
+    effect_type VARCHAR(20), -- 'slow', 'poison', 'stun', 'shred' or NULL for none
+    effect_strength DECIMAL(6,2) NOT NULL DEFAULT 0, -- slow fraction, poison dps, shred armor
+    effect_duration INTEGER NOT NULL DEFAULT 0, -- ms
     created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
-    UNIQUE (tower_id, level)
+    UNIQUE (tower_id, level, branch)
 );
 
 -- Table: enemy_definitions
@@ -43,6 +56,9 @@ CREATE TABLE IF NOT EXISTS enemy_definitions (
     reward INTEGER NOT NULL,
     color VARCHAR(20) NOT NULL,
     size INTEGER NOT NULL,
+    armor INTEGER NOT NULL DEFAULT 0, -- flat reduction per hit (ignored by magic)
+    resistances JSONB NOT NULL DEFAULT '{}', -- damage type -> fraction resisted, e.g. {"magic": 0.25}
+    abilities JSONB NOT NULL DEFAULT '{}', -- e.g. {"jump": {"distance": 90, "intervalMs": 3000}}
     created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
@@ -56,6 +72,14 @@ CREATE TABLE IF NOT EXISTS game_settings (
     initial_lives INTEGER NOT NULL DEFAULT 10,
     enemy_health_wave_multiplier DECIMAL(4,3) NOT NULL DEFAULT 0.100,
     enemy_reward_wave_multiplier DECIMAL(4,3) NOT NULL DEFAULT 0.050,
+    endless_budget_growth DECIMAL(4,3) NOT NULL DEFAULT 0.150, -- budget growth per generated endless wave
+    endless_boss_interval INTEGER NOT NULL DEFAULT 5, -- every Nth wave is a boss wave, 0 for none
+    endless_unlock_waves JSONB NOT NULL DEFAULT '{}', -- {enemyId: first wave the generator may use it in}
+    score_wave_points INTEGER NOT NULL DEFAULT 100, -- per wave cleared
+    score_life_points INTEGER NOT NULL DEFAULT 50, -- per life remaining
+    score_efficiency_points INTEGER NOT NULL DEFAULT 500, -- for ending with every coin earned unspent
+    score_time_points INTEGER NOT NULL DEFAULT 50, -- per wave cleared at par pace or faster
+    score_multiplier DECIMAL(4,2) NOT NULL DEFAULT 1.00, -- difficulty multiplier of the score
     created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
@@ -69,18 +93,62 @@ CREATE TABLE IF NOT EXISTS wave_definitions (
     count INTEGER NOT NULL DEFAULT 1,
     spawn_delay_ms INTEGER NOT NULL DEFAULT 500,
     difficulty_label VARCHAR(20) NOT NULL DEFAULT 'normal',
+    position INTEGER NOT NULL DEFAULT 0, -- spawn order of the enemy groups within the wave
     created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
     UNIQUE(wave_number, enemy_id)
 );
 
+-- Table: maps
+-- Named boards: enemy path as a waypoint polyline plus cells blocked for building
+CREATE TABLE IF NOT EXISTS maps (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(50) NOT NULL UNIQUE,
+    description TEXT,
+    waypoints JSONB NOT NULL DEFAULT '[]', -- [{x, y}] in grid units
+    blocked_cells JSONB NOT NULL DEFAULT '[]', -- [{gridX, gridY}]
+    allow_diagonal BOOLEAN NOT NULL DEFAULT false, -- enemies with the diagonal ability may cut corners
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Table: players
+-- Player accounts (passwords are stored as salted scrypt hashes)
+CREATE TABLE IF NOT EXISTS players (
+    id SERIAL PRIMARY KEY,
+    username VARCHAR(32) NOT NULL UNIQUE,
+    password_hash TEXT NOT NULL,
+    role VARCHAR(16) NOT NULL DEFAULT 'player', -- 'admin', 'designer', 'player'
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Table: config_versions
+-- Immutable published snapshots of the tower, enemy, wave and settings tables.
+-- The live tables are the draft; the newest version is what new games play.
+CREATE TABLE IF NOT EXISTS config_versions (
+    id SERIAL PRIMARY KEY,
+    snapshot JSONB NOT NULL, -- { towers, enemies, waves, settings }
+    notes TEXT NOT NULL DEFAULT '',
+    rolled_back_from INTEGER REFERENCES config_versions(id) ON DELETE SET NULL, -- set by rollbacks
+    player_id INTEGER REFERENCES players(id) ON DELETE SET NULL,
+    username VARCHAR(32) NOT NULL, -- kept if the account is deleted
+    published_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Table: game_sessions
 -- Stores active and completed game sessions
 CREATE TABLE IF NOT EXISTS game_sessions (
     id SERIAL PRIMARY KEY,
     game_id VARCHAR(36) NOT NULL UNIQUE DEFAULT uuid_generate_v4()::text,
+    player_id INTEGER REFERENCES players(id) ON DELETE SET NULL, -- NULL for anonymous games
     settings_id INTEGER REFERENCES game_settings(id) ON DELETE SET NULL,
-    game_mode VARCHAR(20) NOT NULL DEFAULT 'endless', -- '10waves', '20waves', 'endless'
+    map_id INTEGER REFERENCES maps(id) ON DELETE SET NULL,
+    config_version_id INTEGER REFERENCES config_versions(id) ON DELETE SET NULL, -- NULL plays the live config
+    seed BIGINT, -- drives every random choice of the game; NULL for games started before seeds
+    custom_seed BOOLEAN NOT NULL DEFAULT false, -- the player chose the seed, so the game is not ranked
+    daily JSONB, -- daily challenge (date, modifiers, loadout, ranked); NULL for other modes
+    mutators JSONB NOT NULL DEFAULT '[]', -- mutator IDs picked at game start, in catalog order
+    game_mode VARCHAR(20) NOT NULL DEFAULT 'endless', -- '10waves', '20waves', 'endless', 'daily'
     current_wave INTEGER NOT NULL DEFAULT 0,
     waves_completed INTEGER NOT NULL DEFAULT 0,
     coins INTEGER NOT NULL DEFAULT 200,
@@ -90,9 +158,12 @@ CREATE TABLE IF NOT EXISTS game_sessions (
     coins_earned INTEGER NOT NULL DEFAULT 0,
     coins_spent INTEGER NOT NULL DEFAULT 0,
     damage_dealt INTEGER NOT NULL DEFAULT 0,
+    play_time_ms INTEGER NOT NULL DEFAULT 0, -- simulated wave time, the pace scores use
+    wave_active BOOLEAN NOT NULL DEFAULT false, -- a started wave the client is still playing
     started_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
     last_updated TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
-    status VARCHAR(20) NOT NULL DEFAULT 'active' -- 'active', 'completed', 'abandoned'
+    status VARCHAR(20) NOT NULL DEFAULT 'active', -- 'active', 'completed', 'abandoned'
+    outcome VARCHAR(10) -- 'win' or 'loss' once a wave decides the game; NULL until then
 );
 
 -- Table: game_statistics
@@ -100,10 +171,11 @@ CREATE TABLE IF NOT EXISTS game_sessions (
 CREATE TABLE IF NOT EXISTS game_statistics (
     id SERIAL PRIMARY KEY,
     game_id VARCHAR(36) NOT NULL,
+    player_id INTEGER REFERENCES players(id) ON DELETE SET NULL, -- NULL for anonymous games
     timestamp TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
     duration INTEGER NOT NULL, -- milliseconds
     outcome VARCHAR(10) NOT NULL, -- 'win', 'loss'
-    game_mode VARCHAR(20) NOT NULL, -- '10waves', '20waves', 'endless'
+    game_mode VARCHAR(20) NOT NULL, -- '10waves', '20waves', 'endless', 'daily'
     final_wave INTEGER NOT NULL,
     waves_completed INTEGER NOT NULL,
     enemies_killed_total INTEGER NOT NULL,
@@ -113,7 +185,40 @@ CREATE TABLE IF NOT EXISTS game_statistics (
     coins_earned INTEGER NOT NULL,
     coins_spent INTEGER NOT NULL,
     damage_dealt INTEGER NOT NULL,
+    damage_by_tower_type JSONB NOT NULL DEFAULT '{}', -- tower ID -> damage its shots dealt (client-tracked)
     settings_id INTEGER REFERENCES game_settings(id) ON DELETE SET NULL,
+    seed BIGINT, -- the game's seed, so the run can be replayed
+    custom_seed BOOLEAN NOT NULL DEFAULT false, -- played on a seed the player chose; not in top scores
+    daily_date VARCHAR(10), -- 'YYYY-MM-DD' (UTC) of a daily challenge game
+    daily_ranked BOOLEAN NOT NULL DEFAULT false, -- the player's first attempt at that date
+    mutators JSONB NOT NULL DEFAULT '[]', -- mutator IDs in catalog order, equal sets compare equal
+    score INTEGER NOT NULL DEFAULT 0, -- 0 for games recorded before scoring
+    score_breakdown JSONB, -- points per part of the score formula; NULL before scoring
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Table: game_replays
+-- Stores the recorded action log of finished games for playback
+CREATE TABLE IF NOT EXISTS game_replays (
+    id SERIAL PRIMARY KEY,
+    game_id VARCHAR(36) NOT NULL UNIQUE,
+    config JSONB NOT NULL, -- tower/enemy definitions, map and starting values
+    actions JSONB NOT NULL DEFAULT '[]',
+    duration INTEGER NOT NULL, -- milliseconds of game time
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Table: config_audit_log
+-- One row per changed field of a config change (who, what, from, to)
+CREATE TABLE IF NOT EXISTS config_audit_log (
+    id SERIAL PRIMARY KEY,
+    player_id INTEGER REFERENCES players(id) ON DELETE SET NULL,
+    username VARCHAR(32) NOT NULL, -- kept if the account is deleted
+    entity_type VARCHAR(20) NOT NULL, -- 'tower', 'tower_level', 'enemy', 'wave', 'settings', 'map', 'player', 'version'
+    entity_id VARCHAR(32) NOT NULL,
+    field VARCHAR(64) NOT NULL,
+    old_value JSONB, -- NULL when the entity was created
+    new_value JSONB, -- NULL when the entity was deleted
     created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
 
@@ -121,46 +226,58 @@ CREATE TABLE IF NOT EXISTS game_statistics (
 CREATE INDEX IF NOT EXISTS idx_tower_levels_tower_id ON tower_levels(tower_id);
 CREATE INDEX IF NOT EXISTS idx_game_sessions_game_id ON game_sessions(game_id);
 CREATE INDEX IF NOT EXISTS idx_game_sessions_status ON game_sessions(status);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_players_username_lower ON players(LOWER(username));
+CREATE INDEX IF NOT EXISTS idx_game_sessions_player_id ON game_sessions(player_id);
 CREATE INDEX IF NOT EXISTS idx_game_statistics_game_id ON game_statistics(game_id);
 CREATE INDEX IF NOT EXISTS idx_game_statistics_timestamp ON game_statistics(timestamp DESC);
 CREATE INDEX IF NOT EXISTS idx_game_statistics_outcome ON game_statistics(outcome);
 CREATE INDEX IF NOT EXISTS idx_game_statistics_game_mode ON game_statistics(game_mode);
+CREATE INDEX IF NOT EXISTS idx_game_statistics_player_id ON game_statistics(player_id);
+CREATE INDEX IF NOT EXISTS idx_game_statistics_daily_date ON game_statistics(daily_date);
 CREATE INDEX IF NOT EXISTS idx_wave_definitions_wave ON wave_definitions(wave_number);
+CREATE INDEX IF NOT EXISTS idx_config_audit_log_created_at ON config_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_config_audit_log_entity ON config_audit_log(entity_type, entity_id);
 
 -- Insert default tower definitions (metadata only)
-INSERT INTO tower_definitions (name, color, description, max_level)
+INSERT INTO tower_definitions (name, color, description, max_level, attack_pattern)
 VALUES
-    ('Basic Tower', '#607D8B', 'Balanced tower for general defense', 5),
-    ('Sniper Tower', '#1565C0', 'Long range, high damage, slow firing', 3),
-    ('Rapid Tower', '#7CB342', 'Fast firing, low damage, short range', 4)
+    ('Basic Tower', '#607D8B', 'Balanced tower for general defense', 5, 'radius'),
+    ('Sniper Tower', '#1565C0', 'Long range, high damage, slow firing', 3, 'rook'),
+    ('Rapid Tower', '#7CB342', 'Fast firing, low damage, short range', 4, 'radius')
 ON CONFLICT (name) DO NOTHING;
 
 -- Insert default tower levels (level 1 = base, level 2+ = upgrades)
-INSERT INTO tower_levels (tower_id, level, cost, damage, range, fire_rate)
+INSERT INTO tower_levels (tower_id, level, cost, damage, range, fire_rate, damage_type, projectile_type, splash_radius, chain_count, chain_range, pierce_count, effect_type, effect_strength, effect_duration)
+VALUES
+    (1, 1, 29, 21, 120, 1.00, 'pierce', 'single', 0, 0, 0, 0, NULL, 0, 0),
+    (1, 2, 38, 30, 135, 1.10, 'pierce', 'single', 0, 0, 0, 0, 'poison', 6, 3000),
+    (1, 3, 56, 40, 150, 1.20, 'pierce', 'single', 0, 0, 0, 0, 'poison', 8, 3000),
+    (1, 4, 84, 50, 165, 1.30, 'magic', 'chain', 0, 2, 80, 0, NULL, 0, 0),
+    (1, 5, 126, 60, 180, 1.40, 'magic', 'chain', 0, 3, 90, 0, NULL, 0, 0),
+    (2, 1, 75, 80, 250, 0.50, 'pierce', 'single', 0, 0, 0, 0, 'shred', 2, 3000),
+    (2, 2, 150, 110, 275, 0.55, 'pierce', 'pierce', 0, 0, 0, 1, 'shred', 3, 3000),
+    (2, 3, 300, 140, 300, 0.60, 'pierce', 'pierce', 0, 0, 0, 2, 'stun', 0, 400),
+    (3, 1, 50, 10, 100, 3.00, 'splash', 'splash', 25, 0, 0, 0, NULL, 0, 0),
+    (3, 2, 70, 15, 110, 3.30, 'splash', 'splash', 30, 0, 0, 0, NULL, 0, 0),
+    (3, 3, 98, 20, 120, 3.60, 'splash', 'splash', 35, 0, 0, 0, 'slow', 0.25, 1500)
+ON CONFLICT (tower_id, level, branch) DO NOTHING;
+
+-- The Rapid Tower branches at level 4
+INSERT INTO tower_levels (tower_id, level, branch, parent_branch, cost, damage, range, fire_rate, damage_type, projectile_type, splash_radius, chain_count, chain_range, pierce_count, effect_type, effect_strength, effect_duration)
 VALUES
-    (1, 1, 29, 21, 120, 1.00),
-    (1, 2, 38, 30, 135, 1.10),
-    (1, 3, 56, 40, 150, 1.20),
-    (1, 4, 84, 50, 165, 1.30),
-    (1, 5, 126, 60, 180, 1.40),
-    (2, 1, 75, 80, 250, 0.50),
-    (2, 2, 150, 110, 275, 0.55),
-    (2, 3, 300, 140, 300, 0.60),
-    (3, 1, 50, 10, 100, 3.00),
-    (3, 2, 70, 15, 110, 3.30),
-    (3, 3, 98, 20, 120, 3.60),
-    (3, 4, 137, 25, 130, 3.90)
-ON CONFLICT (tower_id, level) DO NOTHING;
+    (3, 4, 'Artillery', '', 137, 25, 130, 3.90, 'splash', 'splash', 40, 0, 0, 0, 'slow', 0.30, 1500),
+    (3, 4, 'Marksman', '', 137, 45, 170, 2.40, 'pierce', 'pierce', 0, 0, 0, 2, NULL, 0, 0)
+ON CONFLICT (tower_id, level, branch) DO NOTHING;
 
 -- Insert default enemy definitions
-INSERT INTO enemy_definitions (name, description, health, speed, reward, color, size)
+INSERT INTO enemy_definitions (name, description, health, speed, reward, color, size, armor, resistances, abilities)
 VALUES
-    ('Pawn', 'Weak but numerous foot soldier', 49, 60, 8, '#4CAF50', 20),
-    ('Bishop', 'Agile diagonal attacker', 80, 90, 15, '#9C27B0', 28),
-    ('Knight', 'Fast moving cavalry unit', 100, 120, 18, '#2196F3', 25),
-    ('Rook', 'Slow but heavily armored', 200, 50, 35, '#FF9800', 30),
-    ('Queen', 'Powerful versatile unit', 300, 80, 60, '#F44336', 35),
-    ('King', 'Ultimate boss unit', 800, 30, 200, '#FFC107', 40)
+    ('Pawn', 'Weak but numerous foot soldier', 49, 60, 8, '#4CAF50', 20, 0, '{}', '{"promote": {"atProgress": 0.85, "toEnemyId": 5}}'),
+    ('Bishop', 'Agile diagonal attacker', 80, 90, 15, '#9C27B0', 28, 0, '{"magic": 0.5}', '{"diagonal": true}'),
+    ('Knight', 'Fast moving cavalry unit', 100, 120, 18, '#2196F3', 25, 2, '{"pierce": 0.2}', '{"jump": {"distance": 90, "intervalMs": 3000}}'),
+    ('Rook', 'Slow but heavily armored', 200, 50, 35, '#FF9800', 30, 6, '{"splash": 0.25}', '{}'),
+    ('Queen', 'Powerful versatile unit', 300, 80, 60, '#F44336', 35, 3, '{}', '{}'),
+    ('King', 'Ultimate boss unit', 800, 30, 200, '#FFC107', 40, 4, '{"magic": 0.25}', '{"aura": {"radius": 120, "speedBonus": 0.25, "armorBonus": 2}}')
 ON CONFLICT (name) DO NOTHING;
 
 -- Insert default wave definitions
@@ -199,13 +316,20 @@ INSERT INTO wave_definitions (wave_number, enemy_id, count, spawn_delay_ms, diff
 ON CONFLICT (wave_number, enemy_id) DO NOTHING;
 
 -- Insert default game settings presets
-INSERT INTO game_settings (mode, initial_coins, initial_lives, enemy_health_wave_multiplier, enemy_reward_wave_multiplier)
+INSERT INTO game_settings (mode, initial_coins, initial_lives, enemy_health_wave_multiplier, enemy_reward_wave_multiplier, endless_budget_growth, score_multiplier)
 VALUES
-    ('easy', 250, 15, 0.080, 0.040),
-    ('normal', 200, 10, 0.100, 0.050),
-    ('hard', 150, 5, 0.150, 0.060)
+    ('easy', 250, 15, 0.080, 0.040, 0.100, 0.75),
+    ('normal', 200, 10, 0.100, 0.050, 0.150, 1.00),
+    ('hard', 150, 5, 0.150, 0.060, 0.200, 1.50)
 ON CONFLICT (mode) DO NOTHING;
 
+-- Insert default maps
+INSERT INTO maps (name, description, waypoints, blocked_cells, allow_diagonal)
+VALUES
+    ('Straight Lane', 'A single straight lane through the middle of the board', '[{"x":-1,"y":5},{"x":21,"y":5}]', '[{"gridX":0,"gridY":4},{"gridX":1,"gridY":4},{"gridX":2,"gridY":4},{"gridX":3,"gridY":4},{"gridX":4,"gridY":4},{"gridX":5,"gridY":4},{"gridX":6,"gridY":4},{"gridX":7,"gridY":4},{"gridX":8,"gridY":4},{"gridX":9,"gridY":4},{"gridX":10,"gridY":4},{"gridX":11,"gridY":4},{"gridX":12,"gridY":4},{"gridX":13,"gridY":4},{"gridX":14,"gridY":4},{"gridX":15,"gridY":4},{"gridX":16,"gridY":4},{"gridX":17,"gridY":4},{"gridX":18,"gridY":4},{"gridX":19,"gridY":4},{"gridX":0,"gridY":5},{"gridX":1,"gridY":5},{"gridX":2,"gridY":5},{"gridX":3,"gridY":5},{"gridX":4,"gridY":5},{"gridX":5,"gridY":5},{"gridX":6,"gridY":5},{"gridX":7,"gridY":5},{"gridX":8,"gridY":5},{"gridX":9,"gridY":5},{"gridX":10,"gridY":5},{"gridX":11,"gridY":5},{"gridX":12,"gridY":5},{"gridX":13,"gridY":5},{"gridX":14,"gridY":5},{"gridX":15,"gridY":5},{"gridX":16,"gridY":5},{"gridX":17,"gridY":5},{"gridX":18,"gridY":5},{"gridX":19,"gridY":5}]', false),
+    ('Serpentine', 'The lane snakes down and back up, passing the center twice', '[{"x":-1,"y":2},{"x":7,"y":2},{"x":7,"y":8},{"x":14,"y":8},{"x":14,"y":2},{"x":21,"y":2}]', '[{"gridX":0,"gridY":1},{"gridX":1,"gridY":1},{"gridX":2,"gridY":1},{"gridX":3,"gridY":1},{"gridX":4,"gridY":1},{"gridX":5,"gridY":1},{"gridX":6,"gridY":1},{"gridX":7,"gridY":1},{"gridX":13,"gridY":1},{"gridX":14,"gridY":1},{"gridX":15,"gridY":1},{"gridX":16,"gridY":1},{"gridX":17,"gridY":1},{"gridX":18,"gridY":1},{"gridX":19,"gridY":1},{"gridX":0,"gridY":2},{"gridX":1,"gridY":2},{"gridX":2,"gridY":2},{"gridX":3,"gridY":2},{"gridX":4,"gridY":2},{"gridX":5,"gridY":2},{"gridX":6,"gridY":2},{"gridX":7,"gridY":2},{"gridX":13,"gridY":2},{"gridX":14,"gridY":2},{"gridX":15,"gridY":2},{"gridX":16,"gridY":2},{"gridX":17,"gridY":2},{"gridX":18,"gridY":2},{"gridX":19,"gridY":2},{"gridX":6,"gridY":3},{"gridX":7,"gridY":3},{"gridX":13,"gridY":3},{"gridX":14,"gridY":3},{"gridX":6,"gridY":4},{"gridX":7,"gridY":4},{"gridX":13,"gridY":4},{"gridX":14,"gridY":4},{"gridX":6,"gridY":5},{"gridX":7,"gridY":5},{"gridX":13,"gridY":5},{"gridX":14,"gridY":5},{"gridX":6,"gridY":6},{"gridX":7,"gridY":6},{"gridX":13,"gridY":6},{"gridX":14,"gridY":6},{"gridX":6,"gridY":7},{"gridX":7,"gridY":7},{"gridX":8,"gridY":7},{"gridX":9,"gridY":7},{"gridX":10,"gridY":7},{"gridX":11,"gridY":7},{"gridX":12,"gridY":7},{"gridX":13,"gridY":7},{"gridX":14,"gridY":7},{"gridX":6,"gridY":8},{"gridX":7,"gridY":8},{"gridX":8,"gridY":8},{"gridX":9,"gridY":8},{"gridX":10,"gridY":8},{"gridX":11,"gridY":8},{"gridX":12,"gridY":8},{"gridX":13,"gridY":8},{"gridX":14,"gridY":8}]', true)
+ON CONFLICT (name) DO NOTHING;
+
 -- Function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -250,6 +374,11 @@ BEFORE UPDATE ON wave_definitions
 FOR EACH ROW
 EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_maps_updated_at
+BEFORE UPDATE ON maps
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_game_sessions_last_updated
 BEFORE UPDATE ON game_sessions
 FOR EACH ROW
@@ -0,0 +1,75 @@
+import { query } from '../db';
+import { AuditEntityType, AuditLogEntry } from '../../types';
+
+interface AuditLogRow {
+  id: number;
+  player_id: number | null;
+  username: string;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  field: string;
+  old_value: unknown;
+  new_value: unknown;
+  created_at: Date;
+}
+
+export type NewAuditLogEntry = Omit<AuditLogEntry, 'id' | 'createdAt'>;
+
+export class AuditLogRepository {
+  // Insert the entries of one change in a single statement
+  async insertEntries(entries: NewAuditLogEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const values: unknown[] = [];
+    const placeholders = entries.map((entry, i) => {
+      const base = i * 7;
+      values.push(
+        entry.playerId,
+        entry.username,
+        entry.entityType,
+        entry.entityId,
+        entry.field,
+        JSON.stringify(entry.oldValue ?? null),
+        JSON.stringify(entry.newValue ?? null)
+      );
+      return `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6}, $${base + 7})`;
+    });
+
+    await query(
+      `INSERT INTO config_audit_log
+         (player_id, username, entity_type, entity_id, field, old_value, new_value)
+       VALUES ${placeholders.join(', ')}`,
+      values
+    );
+  }
+
+  // Get entries (newest first), optionally for one entity type
+  async getEntries(entityType?: AuditEntityType, limit = 100): Promise<AuditLogEntry[]> {
+    const result = entityType
+      ? await query<AuditLogRow>(
+          `SELECT * FROM config_audit_log WHERE entity_type = $1
+           ORDER BY created_at DESC, id DESC LIMIT $2`,
+          [entityType, limit]
+        )
+      : await query<AuditLogRow>(
+          'SELECT * FROM config_audit_log ORDER BY created_at DESC, id DESC LIMIT $1',
+          [limit]
+        );
+    return result.rows.map((row) => this.mapToEntry(row));
+  }
+
+  // Helper: Map database row to AuditLogEntry (JSONB values arrive parsed)
+  private mapToEntry(row: AuditLogRow): AuditLogEntry {
+    return {
+      id: row.id,
+      playerId: row.player_id,
+      username: row.username,
+      entityType: row.entity_type,
+      entityId: row.entity_id,
+      field: row.field,
+      oldValue: row.old_value,
+      newValue: row.new_value,
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,89 @@
+import { query } from '../db';
+import { ConfigSnapshot, ConfigVersion, ConfigVersionSummary } from '../../types';
+import { withBranchDefaults } from '../../simulation/upgradeTree';
+
+interface ConfigVersionRow {
+  id: number;
+  snapshot?: string | ConfigSnapshot; // left out of version listings
+  notes: string;
+  rolled_back_from: number | null;
+  player_id: number | null;
+  username: string;
+  published_at: Date;
+}
+
+const SUMMARY_COLUMNS = 'id, notes, rolled_back_from, player_id, username, published_at';
+
+export type NewConfigVersion = Omit<ConfigVersion, 'id' | 'publishedAt'>;
+
+export class ConfigVersionRepository {
+  // Store a published version (versions are never updated afterwards)
+  async createVersion(version: NewConfigVersion): Promise<ConfigVersion> {
+    const result = await query<ConfigVersionRow>(
+      `INSERT INTO config_versions (snapshot, notes, rolled_back_from, player_id, username)
+       VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+      [
+        JSON.stringify(version.snapshot),
+        version.notes,
+        version.rolledBackFrom,
+        version.playerId,
+        version.username,
+      ]
+    );
+    return this.mapToVersion(result.rows[0]!);
+  }
+
+  // List versions without their snapshots (newest first)
+  async getVersions(): Promise<ConfigVersionSummary[]> {
+    const result = await query<ConfigVersionRow>(
+      `SELECT ${SUMMARY_COLUMNS} FROM config_versions ORDER BY id DESC`
+    );
+    return result.rows.map((row) => this.mapToSummary(row));
+  }
+
+  async getVersion(id: number): Promise<ConfigVersion | null> {
+    const result = await query<ConfigVersionRow>('SELECT * FROM config_versions WHERE id = $1', [
+      id,
+    ]);
+    if (result.rows.length === 0) return null;
+    return this.mapToVersion(result.rows[0]!);
+  }
+
+  // The most recently published version is the one new games play
+  async getLatestVersion(): Promise<ConfigVersion | null> {
+    const result = await query<ConfigVersionRow>(
+      'SELECT * FROM config_versions ORDER BY id DESC LIMIT 1'
+    );
+    if (result.rows.length === 0) return null;
+    return this.mapToVersion(result.rows[0]!);
+  }
+
+  // Helper: Map database row to ConfigVersionSummary
+  private mapToSummary(row: ConfigVersionRow): ConfigVersionSummary {
+    return {
+      id: row.id,
+      notes: row.notes,
+      rolledBackFrom: row.rolled_back_from,
+      playerId: row.player_id,
+      username: row.username,
+      publishedAt: row.published_at,
+    };
+  }
+
+  // Helper: Map database row to ConfigVersion
+  private mapToVersion(row: ConfigVersionRow): ConfigVersion {
+    const snapshot: ConfigSnapshot =
+      typeof row.snapshot === 'string' ? JSON.parse(row.snapshot) : row.snapshot!;
+    return {
+      ...this.mapToSummary(row),
+      snapshot: {
+        ...snapshot,
+        // Versions published before upgrade trees have no branch fields
+        towers: snapshot.towers.map((tower) => ({
+          ...tower,
+          levels: tower.levels.map(withBranchDefaults),
+        })),
+      },
+    };
+  }
+}
@@ -1,5 +1,5 @@
 import { query } from '../db';
-import { EnemyDefinition } from '../../types';
+import { EnemyAbilities, EnemyDefinition, Resistances } from '../../types';
 import { buildUpdateFields } from '../helpers';
 
 interface EnemyRow {
@@ -11,6 +11,9 @@ interface EnemyRow {
   reward: number;
   color: string;
   size: number;
+  armor: number;
+  resistances: string | Resistances;
+  abilities: string | EnemyAbilities;
 }
 
 export class EnemyRepository {
@@ -37,6 +40,9 @@ export class EnemyRepository {
       reward: 'reward',
       color: 'color',
       size: 'size',
+      armor: 'armor',
+      resistances: ['resistances', (v) => JSON.stringify(v)],
+      abilities: ['abilities', (v) => JSON.stringify(v)],
     });
     if (!built) return false;
 
@@ -57,6 +63,10 @@ export class EnemyRepository {
       reward: row.reward,
       color: row.color,
       size: row.size,
+      armor: row.armor,
+      resistances:
+        typeof row.resistances === 'string' ? JSON.parse(row.resistances) : row.resistances,
+      abilities: typeof row.abilities === 'string' ? JSON.parse(row.abilities) : row.abilities,
     };
   }
 }
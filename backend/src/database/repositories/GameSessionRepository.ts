@@ -1,10 +1,24 @@
 import { query } from '../db';
-import { GameSessionDB, GameMode, SessionStatus } from '../../types';
+import {
+  GameSessionDB,
+  GameMode,
+  GameOutcome,
+  SessionStatus,
+  DailyGame,
+  MutatorId,
+} from '../../types';
 import { buildUpdateFields } from '../helpers';
 
 interface GameSessionRow {
   game_id: string;
+  player_id: number | null;
   settings_id: number | null;
+  map_id: number | null;
+  config_version_id: number | null;
+  seed: string | null; // BIGINT
+  custom_seed: boolean;
+  daily: string | DailyGame | null;
+  mutators: string | MutatorId[];
   game_mode: string;
   current_wave: number;
   waves_completed: number;
@@ -15,9 +29,12 @@ interface GameSessionRow {
   coins_earned: number;
   coins_spent: number;
   damage_dealt: number;
+  play_time_ms: number;
+  wave_active: boolean;
   started_at: Date;
   last_updated: Date;
   status: string;
+  outcome: string | null;
 }
 
 export class GameSessionRepository {
@@ -27,12 +44,18 @@ export class GameSessionRepository {
   ): Promise<GameSessionDB> {
     const result = await query<GameSessionRow>(
       `INSERT INTO game_sessions (
-        game_id, settings_id, game_mode, current_wave, waves_completed, coins, lives,
-        towers, enemies_killed, coins_earned, coins_spent, damage_dealt, status
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13) RETURNING *`,
+        game_id, settings_id, map_id, game_mode, current_wave, waves_completed, coins, lives,
+        towers, enemies_killed, coins_earned, coins_spent, damage_dealt, play_time_ms, wave_active,
+        status, player_id, config_version_id, seed, custom_seed, daily, mutators
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20,
+        $21, $22
+      )
+      RETURNING *`,
       [
         session.gameId,
         session.settingsId || null,
+        session.mapId || null,
         session.gameMode,
         session.currentWave,
         session.wavesCompleted,
@@ -43,7 +66,15 @@ export class GameSessionRepository {
         session.coinsEarned,
         session.coinsSpent,
         session.damageDealt,
+        session.playTimeMs,
+        session.waveActive,
         session.status,
+        session.playerId ?? null,
+        session.configVersionId ?? null,
+        session.seed ?? null,
+        session.customSeed ?? false,
+        session.daily ? JSON.stringify(session.daily) : null,
+        JSON.stringify(session.mutators ?? []),
       ]
     );
     return this.mapToGameSession(result.rows[0]!);
@@ -70,7 +101,10 @@ export class GameSessionRepository {
       coinsEarned: 'coins_earned',
       coinsSpent: 'coins_spent',
       damageDealt: 'damage_dealt',
+      playTimeMs: 'play_time_ms',
+      waveActive: 'wave_active',
       status: 'status',
+      outcome: 'outcome',
     });
     if (!built) return false;
 
@@ -88,19 +122,44 @@ export class GameSessionRepository {
 
   // Get all active sessions
   async getActiveSessions(): Promise<GameSessionDB[]> {
-    const result = await query<GameSessionRow>(
-      `SELECT * FROM game_sessions WHERE status = 'active' ORDER BY last_updated DESC`
-    );
+    return this.getSessionsByStatus('active');
+  }
+
+  // Get sessions with the given status, most recently played first.
+  // Pass a player ID to only get that player's sessions.
+  async getSessionsByStatus(status: SessionStatus, playerId?: number): Promise<GameSessionDB[]> {
+    const result =
+      playerId === undefined
+        ? await query<GameSessionRow>(
+            'SELECT * FROM game_sessions WHERE status = $1 ORDER BY last_updated DESC',
+            [status]
+          )
+        : await query<GameSessionRow>(
+            `SELECT * FROM game_sessions
+             WHERE status = $1 AND player_id = $2
+             ORDER BY last_updated DESC`,
+            [status, playerId]
+          );
     return result.rows.map(this.mapToGameSession);
   }
 
+  // Whether a player has a session of a daily challenge (games that ended have none)
+  async hasDailySession(playerId: number, date: string): Promise<boolean> {
+    const result = await query(
+      `SELECT 1 FROM game_sessions WHERE player_id = $1 AND daily->>'date' = $2 LIMIT 1`,
+      [playerId, date]
+    );
+    return result.rows.length > 0;
+  }
+
   // Clean up abandoned sessions (not updated in X hours)
   async cleanupAbandonedSessions(hoursInactive: number): Promise<number> {
     const result = await query(
       `UPDATE game_sessions
        SET status = 'abandoned'
        WHERE status = 'active'
-       AND last_updated < NOW() - INTERVAL '${hoursInactive} hours'`
+       AND last_updated < NOW() - $1 * INTERVAL '1 hour'`,
+      [hoursInactive]
     );
     return result.rowCount ?? 0;
   }
@@ -109,7 +168,14 @@ export class GameSessionRepository {
   private mapToGameSession(row: GameSessionRow): GameSessionDB {
     return {
       gameId: row.game_id,
+      playerId: row.player_id,
       settingsId: row.settings_id,
+      mapId: row.map_id,
+      configVersionId: row.config_version_id,
+      seed: row.seed === null ? null : Number(row.seed),
+      customSeed: row.custom_seed,
+      daily: typeof row.daily === 'string' ? JSON.parse(row.daily) : row.daily,
+      mutators: typeof row.mutators === 'string' ? JSON.parse(row.mutators) : row.mutators,
       gameMode: row.game_mode as GameMode,
       currentWave: row.current_wave,
       wavesCompleted: row.waves_completed,
@@ -120,9 +186,12 @@ export class GameSessionRepository {
       coinsEarned: row.coins_earned,
       coinsSpent: row.coins_spent,
       damageDealt: row.damage_dealt,
+      playTimeMs: row.play_time_ms,
+      waveActive: row.wave_active,
       startedAt: row.started_at,
       lastUpdated: row.last_updated,
       status: row.status as SessionStatus,
+      outcome: row.outcome as GameOutcome | null,
     };
   }
 }
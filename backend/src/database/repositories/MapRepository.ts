@@ -0,0 +1,98 @@
+import { query } from '../db';
+import { MapDefinition, MapPoint, GridCell } from '../../types';
+import { buildUpdateFields } from '../helpers';
+
+interface MapRow {
+  id: number;
+  name: string;
+  description: string | null;
+  waypoints: string | MapPoint[];
+  blocked_cells: string | GridCell[];
+  allow_diagonal: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export class MapRepository {
+  // Get all maps
+  async getAllMaps(): Promise<MapDefinition[]> {
+    const result = await query<MapRow>('SELECT * FROM maps ORDER BY id ASC');
+    return result.rows.map(this.mapToMapDefinition);
+  }
+
+  // Get map by ID
+  async getMap(id: number): Promise<MapDefinition | null> {
+    const result = await query<MapRow>('SELECT * FROM maps WHERE id = $1', [id]);
+    if (result.rows.length === 0) return null;
+    return this.mapToMapDefinition(result.rows[0]!);
+  }
+
+  // Get the default map (lowest ID)
+  async getDefaultMap(): Promise<MapDefinition | null> {
+    const result = await query<MapRow>('SELECT * FROM maps ORDER BY id ASC LIMIT 1');
+    if (result.rows.length === 0) return null;
+    return this.mapToMapDefinition(result.rows[0]!);
+  }
+
+  // Create new map
+  async createMap(
+    map: Omit<MapDefinition, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<MapDefinition> {
+    const result = await query<MapRow>(
+      `INSERT INTO maps (name, description, waypoints, blocked_cells, allow_diagonal)
+       VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+      [
+        map.name,
+        map.description,
+        JSON.stringify(map.waypoints),
+        JSON.stringify(map.blockedCells),
+        map.allowDiagonal,
+      ]
+    );
+    return this.mapToMapDefinition(result.rows[0]!);
+  }
+
+  // Update existing map
+  async updateMap(id: number, updates: Partial<MapDefinition>): Promise<boolean> {
+    const built = buildUpdateFields(updates, {
+      name: 'name',
+      description: 'description',
+      waypoints: ['waypoints', (v) => JSON.stringify(v)],
+      blockedCells: ['blocked_cells', (v) => JSON.stringify(v)],
+      allowDiagonal: 'allow_diagonal',
+    });
+    if (!built) return false;
+
+    built.values.push(id);
+    const sql = `UPDATE maps SET ${built.fields.join(', ')} WHERE id = $${built.nextParam}`;
+    const result = await query(sql, built.values);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Delete map (sessions on this map keep running on the default map)
+  async deleteMap(id: number): Promise<boolean> {
+    const result = await query('DELETE FROM maps WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Count maps
+  async countMaps(): Promise<number> {
+    const result = await query<{ count: string }>('SELECT COUNT(*) as count FROM maps');
+    return parseInt(result.rows[0]!.count);
+  }
+
+  // Helper: Map database row to MapDefinition
+  private mapToMapDefinition(row: MapRow): MapDefinition {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description ?? '',
+      waypoints: typeof row.waypoints === 'string' ? JSON.parse(row.waypoints) : row.waypoints,
+      blockedCells:
+        typeof row.blocked_cells === 'string' ? JSON.parse(row.blocked_cells) : row.blocked_cells,
+      allowDiagonal: row.allow_diagonal,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
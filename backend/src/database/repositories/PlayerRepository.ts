@@ -0,0 +1,71 @@
+import { query } from '../db';
+import { PlayerDB, PlayerRole } from '../../types';
+
+interface PlayerRow {
+  id: number;
+  username: string;
+  password_hash: string;
+  role: PlayerRole;
+  created_at: Date;
+}
+
+export class PlayerRepository {
+  // Create a new player account
+  async createPlayer(
+    username: string,
+    passwordHash: string,
+    role: PlayerRole = 'player'
+  ): Promise<PlayerDB> {
+    const result = await query<PlayerRow>(
+      'INSERT INTO players (username, password_hash, role) VALUES ($1, $2, $3) RETURNING *',
+      [username, passwordHash, role]
+    );
+    return this.mapToPlayer(result.rows[0]!);
+  }
+
+  // Get all players (oldest first)
+  async getAllPlayers(): Promise<PlayerDB[]> {
+    const result = await query<PlayerRow>('SELECT * FROM players ORDER BY id');
+    return result.rows.map((row) => this.mapToPlayer(row));
+  }
+
+  // Get player by ID
+  async getPlayerById(id: number): Promise<PlayerDB | null> {
+    const result = await query<PlayerRow>('SELECT * FROM players WHERE id = $1', [id]);
+    if (result.rows.length === 0) return null;
+    return this.mapToPlayer(result.rows[0]!);
+  }
+
+  // Get player by username (case-insensitive)
+  async getPlayerByUsername(username: string): Promise<PlayerDB | null> {
+    const result = await query<PlayerRow>(
+      'SELECT * FROM players WHERE LOWER(username) = LOWER($1)',
+      [username]
+    );
+    if (result.rows.length === 0) return null;
+    return this.mapToPlayer(result.rows[0]!);
+  }
+
+  // Change a player's role
+  async updatePlayerRole(id: number, role: PlayerRole): Promise<boolean> {
+    const result = await query('UPDATE players SET role = $1 WHERE id = $2', [role, id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Delete player (their sessions and statistics become anonymous)
+  async deletePlayer(id: number): Promise<boolean> {
+    const result = await query('DELETE FROM players WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Helper: Map database row to PlayerDB
+  private mapToPlayer(row: PlayerRow): PlayerDB {
+    return {
+      id: row.id,
+      username: row.username,
+      passwordHash: row.password_hash,
+      role: row.role,
+      createdAt: row.created_at,
+    };
+  }
+}
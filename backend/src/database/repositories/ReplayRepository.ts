@@ -0,0 +1,58 @@
+import { query } from '../db';
+import { GameReplay, ReplayAction, ReplayConfig } from '../../types';
+
+interface ReplayRow {
+  id: number;
+  game_id: string;
+  config: string | ReplayConfig;
+  actions: string | ReplayAction[];
+  duration: number;
+  created_at: Date;
+}
+
+export class ReplayRepository {
+  // Create or replace the replay of a game
+  async saveReplay(replay: Omit<GameReplay, 'id' | 'createdAt'>): Promise<GameReplay> {
+    const result = await query<ReplayRow>(
+      `INSERT INTO game_replays (game_id, config, actions, duration)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (game_id) DO UPDATE
+         SET config = EXCLUDED.config, actions = EXCLUDED.actions, duration = EXCLUDED.duration
+       RETURNING *`,
+      [
+        replay.gameId,
+        JSON.stringify(replay.config),
+        JSON.stringify(replay.actions),
+        Math.round(replay.duration),
+      ]
+    );
+    return this.mapToReplay(result.rows[0]!);
+  }
+
+  // Get replay by game ID
+  async getReplayByGameId(gameId: string): Promise<GameReplay | null> {
+    const result = await query<ReplayRow>('SELECT * FROM game_replays WHERE game_id = $1', [
+      gameId,
+    ]);
+    if (result.rows.length === 0) return null;
+    return this.mapToReplay(result.rows[0]!);
+  }
+
+  // Delete replay by game ID
+  async deleteReplay(gameId: string): Promise<boolean> {
+    const result = await query('DELETE FROM game_replays WHERE game_id = $1', [gameId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Helper: Map database row to GameReplay
+  private mapToReplay(row: ReplayRow): GameReplay {
+    return {
+      id: row.id,
+      gameId: row.game_id,
+      config: typeof row.config === 'string' ? JSON.parse(row.config) : row.config,
+      actions: typeof row.actions === 'string' ? JSON.parse(row.actions) : row.actions,
+      duration: row.duration,
+      createdAt: row.created_at,
+    };
+  }
+}
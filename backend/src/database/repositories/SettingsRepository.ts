@@ -9,6 +9,14 @@ interface SettingsRow {
   initial_lives: number;
   enemy_health_wave_multiplier: string;
   enemy_reward_wave_multiplier: string;
+  endless_budget_growth: string;
+  endless_boss_interval: number;
+  endless_unlock_waves: string | Record<number, number>;
+  score_wave_points: number;
+  score_life_points: number;
+  score_efficiency_points: number;
+  score_time_points: number;
+  score_multiplier: string;
   created_at: Date;
   updated_at: Date;
 }
@@ -41,14 +49,25 @@ export class SettingsRepository {
     const result = await query<SettingsRow>(
       `INSERT INTO game_settings (
         mode, initial_coins, initial_lives,
-        enemy_health_wave_multiplier, enemy_reward_wave_multiplier
-      ) VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+        enemy_health_wave_multiplier, enemy_reward_wave_multiplier,
+        endless_budget_growth, endless_boss_interval, endless_unlock_waves,
+        score_wave_points, score_life_points, score_efficiency_points, score_time_points,
+        score_multiplier
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13) RETURNING *`,
       [
         settings.mode,
         settings.initialCoins,
         settings.initialLives,
         settings.enemyHealthWaveMultiplier,
         settings.enemyRewardWaveMultiplier,
+        settings.endlessBudgetGrowth,
+        settings.endlessBossInterval,
+        JSON.stringify(settings.endlessUnlockWaves),
+        settings.scoreWavePoints,
+        settings.scoreLifePoints,
+        settings.scoreEfficiencyPoints,
+        settings.scoreTimePoints,
+        settings.scoreMultiplier,
       ]
     );
     return this.mapToGameSettings(result.rows[0]!);
@@ -62,6 +81,14 @@ export class SettingsRepository {
       initialLives: 'initial_lives',
       enemyHealthWaveMultiplier: 'enemy_health_wave_multiplier',
       enemyRewardWaveMultiplier: 'enemy_reward_wave_multiplier',
+      endlessBudgetGrowth: 'endless_budget_growth',
+      endlessBossInterval: 'endless_boss_interval',
+      endlessUnlockWaves: ['endless_unlock_waves', (v) => JSON.stringify(v)],
+      scoreWavePoints: 'score_wave_points',
+      scoreLifePoints: 'score_life_points',
+      scoreEfficiencyPoints: 'score_efficiency_points',
+      scoreTimePoints: 'score_time_points',
+      scoreMultiplier: 'score_multiplier',
     });
     if (!built) return false;
 
@@ -80,6 +107,17 @@ export class SettingsRepository {
       initialLives: row.initial_lives,
       enemyHealthWaveMultiplier: parseFloat(row.enemy_health_wave_multiplier),
       enemyRewardWaveMultiplier: parseFloat(row.enemy_reward_wave_multiplier),
+      endlessBudgetGrowth: parseFloat(row.endless_budget_growth),
+      endlessBossInterval: row.endless_boss_interval,
+      endlessUnlockWaves:
+        typeof row.endless_unlock_waves === 'string'
+          ? JSON.parse(row.endless_unlock_waves)
+          : row.endless_unlock_waves,
+      scoreWavePoints: row.score_wave_points,
+      scoreLifePoints: row.score_life_points,
+      scoreEfficiencyPoints: row.score_efficiency_points,
+      scoreTimePoints: row.score_time_points,
+      scoreMultiplier: parseFloat(row.score_multiplier),
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
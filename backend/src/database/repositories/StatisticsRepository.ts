@@ -1,9 +1,26 @@
 import { query } from '../db';
-import { GameStatistics, StatisticsSummary, GameOutcome, GameMode } from '../../types';
+import {
+  GameStatistics,
+  StatisticsSummary,
+  GameOutcome,
+  GameMode,
+  MutatorId,
+  ScoreBreakdown,
+  TopScoreFilters,
+  AnalyticsFilters,
+  TowerAnalytics,
+  EnemyAnalytics,
+  TrendInterval,
+  TrendPoint,
+  SettingsMode,
+  WaveDistributionPoint,
+} from '../../types';
 
 interface StatisticsRow {
   id: number;
   game_id: string;
+  player_id: number | null;
+  player_name?: string | null; // only when joined with players
   timestamp: Date;
   duration: number;
   outcome: string;
@@ -17,7 +34,15 @@ interface StatisticsRow {
   coins_earned: number;
   coins_spent: number;
   damage_dealt: number;
+  damage_by_tower_type: string | Record<string, number>;
   settings_id: number | null;
+  seed: string | null; // BIGINT
+  custom_seed: boolean;
+  daily_date: string | null;
+  daily_ranked: boolean;
+  mutators: string | MutatorId[];
+  score: number;
+  score_breakdown: string | ScoreBreakdown | null;
   created_at: Date;
 }
 
@@ -31,6 +56,55 @@ interface SummaryRow {
   total_towers_built: string;
 }
 
+interface TowerAnalyticsRow {
+  tower_type: string;
+  games_picked: string;
+  wins: string;
+  total_built: string;
+  damage_dealt: string;
+  total_games: string;
+}
+
+interface EnemyAnalyticsRow {
+  enemy_type: string;
+  kills: string;
+  games_seen: string;
+}
+
+interface WaveDistributionRow {
+  wave: number;
+  games: string;
+  wins: string;
+}
+
+interface TrendRow {
+  period: string;
+  difficulty: SettingsMode | null;
+  games: string;
+  wins: string;
+  avg_wave: string;
+}
+
+// Statistics with the player's username (for leaderboards and history)
+const SELECT_WITH_PLAYER = `SELECT s.*, p.username AS player_name
+  FROM game_statistics s LEFT JOIN players p ON p.id = s.player_id`;
+
+// Games matching AnalyticsFilters ($1-$3, see analyticsParams), with their difficulty
+const FILTERED_GAMES = `SELECT s.*, gs.mode AS difficulty
+  FROM game_statistics s LEFT JOIN game_settings gs ON gs.id = s.settings_id
+  WHERE ($1::text IS NULL OR s.game_mode = $1)
+    AND ($2::text IS NULL OR gs.mode = $2)
+    AND ($3::int IS NULL OR s.timestamp >= NOW() - make_interval(days => $3::int))`;
+
+function analyticsParams(filters: AnalyticsFilters): (string | number | null)[] {
+  return [filters.gameMode ?? null, filters.difficulty ?? null, filters.days ?? null];
+}
+
+// Share of a total in percent, 0 when there is nothing to share
+function percentOf(part: number, total: number): number {
+  return total > 0 ? (part / total) * 100 : 0;
+}
+
 export class StatisticsRepository {
   // Create new game statistics entry
   async createStatistics(stats: Omit<GameStatistics, 'id' | 'createdAt'>): Promise<GameStatistics> {
@@ -38,8 +112,13 @@ export class StatisticsRepository {
       `INSERT INTO game_statistics (
         game_id, timestamp, duration, outcome, game_mode, final_wave, waves_completed,
         enemies_killed_total, enemies_killed_by_type, towers_built_total, towers_built_by_type,
-        coins_earned, coins_spent, damage_dealt, settings_id
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15) RETURNING *`,
+        coins_earned, coins_spent, damage_dealt, damage_by_tower_type, settings_id, player_id, seed,
+        custom_seed, daily_date, daily_ranked, mutators, score, score_breakdown
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21,
+        $22, $23, $24
+      )
+      RETURNING *`,
       [
         stats.gameId,
         stats.timestamp,
@@ -55,7 +134,16 @@ export class StatisticsRepository {
         stats.coinsEarned,
         stats.coinsSpent,
         stats.damageDealt,
+        JSON.stringify(stats.damageByTowerType ?? {}),
         stats.settingsId || null,
+        stats.playerId ?? null,
+        stats.seed ?? null,
+        stats.customSeed ?? false,
+        stats.dailyDate ?? null,
+        stats.dailyRanked ?? false,
+        JSON.stringify(stats.mutators ?? []),
+        stats.score ?? 0,
+        stats.scoreBreakdown ? JSON.stringify(stats.scoreBreakdown) : null,
       ]
     );
     return this.mapToStatistics(result.rows[0]!);
@@ -79,9 +167,10 @@ export class StatisticsRepository {
     return this.mapToStatistics(result.rows[0]!);
   }
 
-  // Get statistics summary (aggregated)
-  async getStatisticsSummary(): Promise<StatisticsSummary> {
-    const result = await query<SummaryRow>(`
+  // Get statistics summary (aggregated), optionally for a single player
+  async getStatisticsSummary(playerId?: number): Promise<StatisticsSummary> {
+    const result = await query<SummaryRow>(
+      `
       SELECT
         COUNT(*) as total_games,
         SUM(CASE WHEN outcome = 'win' THEN 1 ELSE 0 END) as wins,
@@ -91,7 +180,10 @@ export class StatisticsRepository {
         SUM(enemies_killed_total) as total_enemies_killed,
         SUM(towers_built_total) as total_towers_built
       FROM game_statistics
-    `);
+      ${playerId !== undefined ? 'WHERE player_id = $1' : ''}
+    `,
+      playerId !== undefined ? [playerId] : []
+    );
 
     const row = result.rows[0]!;
     const totalGames = parseInt(row.total_games) || 0;
@@ -128,26 +220,165 @@ export class StatisticsRepository {
     return result.rows.map(this.mapToStatistics);
   }
 
-  // Get top scores (highest wave reached)
-  async getTopScores(limit = 10): Promise<GameStatistics[]> {
+  // Get top scores (highest score, then wave reached), without games on a chosen seed
+  // With mutators: only games played with exactly that set (in catalog order, [] for none)
+  async getTopScores(limit = 10, filters: TopScoreFilters = {}): Promise<GameStatistics[]> {
     const result = await query<StatisticsRow>(
-      `SELECT * FROM game_statistics
-       ORDER BY final_wave DESC, enemies_killed_total DESC
+      `${SELECT_WITH_PLAYER}
+       LEFT JOIN game_settings gs ON gs.id = s.settings_id
+       WHERE NOT s.custom_seed
+         AND ($2::jsonb IS NULL OR s.mutators = $2::jsonb)
+         AND ($3::text IS NULL OR s.game_mode = $3)
+         AND ($4::text IS NULL OR gs.mode = $4)
+       ORDER BY s.score DESC, s.final_wave DESC, s.enemies_killed_total DESC
        LIMIT $1`,
-      [limit]
+      [
+        limit,
+        filters.mutators ? JSON.stringify(filters.mutators) : null,
+        filters.gameMode ?? null,
+        filters.difficulty ?? null,
+      ]
+    );
+    return result.rows.map(this.mapToStatistics);
+  }
+
+  // Ranked attempts at a daily challenge: highest score first, then furthest wave, most kills
+  // and fastest
+  async getDailyLeaderboard(date: string, limit = 50): Promise<GameStatistics[]> {
+    const result = await query<StatisticsRow>(
+      `${SELECT_WITH_PLAYER}
+       WHERE s.daily_date = $1 AND s.daily_ranked
+       ORDER BY s.score DESC, s.final_wave DESC, s.enemies_killed_total DESC, s.duration ASC
+       LIMIT $2`,
+      [date, limit]
     );
     return result.rows.map(this.mapToStatistics);
   }
 
+  // Whether a player has a recorded game of a daily challenge
+  async hasDailyStatistics(playerId: number, date: string): Promise<boolean> {
+    const result = await query(
+      'SELECT 1 FROM game_statistics WHERE player_id = $1 AND daily_date = $2 LIMIT 1',
+      [playerId, date]
+    );
+    return result.rows.length > 0;
+  }
+
   // Get recent games
   async getRecentGames(limit = 20): Promise<GameStatistics[]> {
     const result = await query<StatisticsRow>(
-      `SELECT * FROM game_statistics ORDER BY timestamp DESC LIMIT $1`,
+      `${SELECT_WITH_PLAYER} ORDER BY s.timestamp DESC LIMIT $1`,
       [limit]
     );
     return result.rows.map(this.mapToStatistics);
   }
 
+  // Get a player's games, most recent first
+  async getStatisticsByPlayer(playerId: number, limit = 50): Promise<GameStatistics[]> {
+    const result = await query<StatisticsRow>(
+      `${SELECT_WITH_PLAYER} WHERE s.player_id = $1 ORDER BY s.timestamp DESC LIMIT $2`,
+      [playerId, limit]
+    );
+    return result.rows.map(this.mapToStatistics);
+  }
+
+  // Per tower type: the games that built it at least once, and how they went
+  async getTowerAnalytics(filters: AnalyticsFilters = {}): Promise<TowerAnalytics[]> {
+    const result = await query<TowerAnalyticsRow>(
+      `WITH games AS (${FILTERED_GAMES})
+       SELECT t.key AS tower_type,
+         COUNT(*) AS games_picked,
+         SUM(CASE WHEN g.outcome = 'win' THEN 1 ELSE 0 END) AS wins,
+         SUM(t.value::numeric) AS total_built,
+         SUM(COALESCE((g.damage_by_tower_type->>t.key)::numeric, 0)) AS damage_dealt,
+         (SELECT COUNT(*) FROM games) AS total_games
+       FROM games g CROSS JOIN LATERAL jsonb_each_text(g.towers_built_by_type) t
+       WHERE t.value::numeric > 0
+       GROUP BY t.key
+       ORDER BY games_picked DESC, t.key ASC`,
+      analyticsParams(filters)
+    );
+    return result.rows.map((row) => {
+      const gamesPicked = parseInt(row.games_picked) || 0;
+      return {
+        towerType: row.tower_type,
+        gamesPicked,
+        pickRate: percentOf(gamesPicked, parseInt(row.total_games) || 0),
+        winRate: percentOf(parseInt(row.wins) || 0, gamesPicked),
+        totalBuilt: parseInt(row.total_built) || 0,
+        damageDealt: Math.round(parseFloat(row.damage_dealt) || 0),
+      };
+    });
+  }
+
+  // Per enemy type: its kills and their share of all kills
+  async getEnemyAnalytics(filters: AnalyticsFilters = {}): Promise<EnemyAnalytics[]> {
+    const result = await query<EnemyAnalyticsRow>(
+      `WITH games AS (${FILTERED_GAMES})
+       SELECT e.key AS enemy_type, SUM(e.value::numeric) AS kills, COUNT(*) AS games_seen
+       FROM games g CROSS JOIN LATERAL jsonb_each_text(g.enemies_killed_by_type) e
+       WHERE e.value::numeric > 0
+       GROUP BY e.key
+       ORDER BY kills DESC, e.key ASC`,
+      analyticsParams(filters)
+    );
+    const totalKills = result.rows.reduce((sum, row) => sum + (parseInt(row.kills) || 0), 0);
+    return result.rows.map((row) => {
+      const kills = parseInt(row.kills) || 0;
+      return {
+        enemyType: row.enemy_type,
+        kills,
+        killShare: percentOf(kills, totalKills),
+        gamesSeen: parseInt(row.games_seen) || 0,
+      };
+    });
+  }
+
+  // Number of games (and wins) per final wave reached, lowest wave first
+  async getWaveDistribution(filters: AnalyticsFilters = {}): Promise<WaveDistributionPoint[]> {
+    const result = await query<WaveDistributionRow>(
+      `WITH games AS (${FILTERED_GAMES})
+       SELECT g.final_wave AS wave,
+         COUNT(*) AS games,
+         SUM(CASE WHEN g.outcome = 'win' THEN 1 ELSE 0 END) AS wins
+       FROM games g
+       GROUP BY g.final_wave
+       ORDER BY g.final_wave ASC`,
+      analyticsParams(filters)
+    );
+    return result.rows.map((row) => ({
+      wave: row.wave,
+      games: parseInt(row.games) || 0,
+      wins: parseInt(row.wins) || 0,
+    }));
+  }
+
+  // Win rate and average wave reached per day or week and difficulty, oldest first
+  async getTrends(interval: TrendInterval, filters: AnalyticsFilters = {}): Promise<TrendPoint[]> {
+    const result = await query<TrendRow>(
+      `WITH games AS (${FILTERED_GAMES})
+       SELECT to_char(date_trunc($4::text, g.timestamp), 'YYYY-MM-DD') AS period,
+         g.difficulty,
+         COUNT(*) AS games,
+         SUM(CASE WHEN g.outcome = 'win' THEN 1 ELSE 0 END) AS wins,
+         AVG(g.final_wave) AS avg_wave
+       FROM games g
+       GROUP BY 1, 2
+       ORDER BY 1 ASC, 2 ASC`,
+      [...analyticsParams(filters), interval]
+    );
+    return result.rows.map((row) => {
+      const games = parseInt(row.games) || 0;
+      return {
+        period: row.period,
+        difficulty: row.difficulty,
+        games,
+        winRate: percentOf(parseInt(row.wins) || 0, games),
+        avgWave: parseFloat(row.avg_wave) || 0,
+      };
+    });
+  }
+
   // Delete old statistics (cleanup - optional)
   async deleteOldStatistics(daysOld: number): Promise<number> {
     const result = await query(
@@ -161,6 +392,8 @@ export class StatisticsRepository {
     return {
       id: row.id,
       gameId: row.game_id,
+      playerId: row.player_id,
+      playerName: row.player_name ?? null,
       timestamp: row.timestamp,
       duration: row.duration,
       outcome: row.outcome as GameOutcome,
@@ -180,7 +413,21 @@ export class StatisticsRepository {
       coinsEarned: row.coins_earned,
       coinsSpent: row.coins_spent,
       damageDealt: row.damage_dealt,
+      damageByTowerType:
+        typeof row.damage_by_tower_type === 'string'
+          ? JSON.parse(row.damage_by_tower_type)
+          : row.damage_by_tower_type,
       settingsId: row.settings_id,
+      seed: row.seed === null ? null : Number(row.seed),
+      customSeed: row.custom_seed,
+      dailyDate: row.daily_date,
+      dailyRanked: row.daily_ranked,
+      mutators: typeof row.mutators === 'string' ? JSON.parse(row.mutators) : row.mutators,
+      score: row.score,
+      scoreBreakdown:
+        typeof row.score_breakdown === 'string'
+          ? JSON.parse(row.score_breakdown)
+          : row.score_breakdown,
       createdAt: row.created_at,
     };
   }
@@ -1,6 +1,14 @@
 import { query } from '../db';
-import { TowerDefinition, TowerLevel } from '../../types';
+import {
+  AttackPattern,
+  DamageType,
+  ProjectileType,
+  StatusEffectType,
+  TowerDefinition,
+  TowerLevel,
+} from '../../types';
 import { buildUpdateFields } from '../helpers';
+import { MAIN_BRANCH } from '../../simulation/upgradeTree';
 
 interface TowerDefinitionRow {
   id: number;
@@ -8,16 +16,28 @@ interface TowerDefinitionRow {
   color: string;
   description: string;
   max_level: number;
+  attack_pattern: AttackPattern;
 }
 
 interface TowerLevelRow {
   id: number;
   tower_id: number;
   level: number;
+  branch: string;
+  parent_branch: string;
   cost: number;
   damage: number;
   range: number;
   fire_rate: string;
+  damage_type: DamageType;
+  projectile_type: ProjectileType;
+  splash_radius: number;
+  chain_count: number;
+  chain_range: number;
+  pierce_count: number;
+  effect_type: StatusEffectType | null;
+  effect_strength: string;
+  effect_duration: number;
 }
 
 interface MaxLevelRow {
@@ -46,25 +66,29 @@ export class TowerRepository {
   // Get all tower levels for all towers
   async getAllTowerLevels(): Promise<TowerLevel[]> {
     const result = await query<TowerLevelRow>(
-      'SELECT * FROM tower_levels ORDER BY tower_id ASC, level ASC'
+      'SELECT * FROM tower_levels ORDER BY tower_id ASC, level ASC, branch ASC'
     );
     return result.rows.map(this.mapToTowerLevel);
   }
 
-  // Get all levels for a tower ID
+  // Get all levels for a tower ID (every branch of its upgrade tree)
   async getTowerLevels(towerId: number): Promise<TowerLevel[]> {
     const result = await query<TowerLevelRow>(
-      'SELECT * FROM tower_levels WHERE tower_id = $1 ORDER BY level ASC',
+      'SELECT * FROM tower_levels WHERE tower_id = $1 ORDER BY level ASC, branch ASC',
       [towerId]
     );
     return result.rows.map(this.mapToTowerLevel);
   }
 
-  // Get specific level for a tower ID
-  async getTowerLevel(towerId: number, level: number): Promise<TowerLevel | null> {
+  // Get specific level (on a branch) for a tower ID
+  async getTowerLevel(
+    towerId: number,
+    level: number,
+    branch = MAIN_BRANCH
+  ): Promise<TowerLevel | null> {
     const result = await query<TowerLevelRow>(
-      'SELECT * FROM tower_levels WHERE tower_id = $1 AND level = $2',
-      [towerId, level]
+      'SELECT * FROM tower_levels WHERE tower_id = $1 AND level = $2 AND branch = $3',
+      [towerId, level, branch]
     );
     if (result.rows.length === 0) return null;
     return this.mapToTowerLevel(result.rows[0]!);
@@ -86,6 +110,7 @@ export class TowerRepository {
       color: 'color',
       description: 'description',
       maxLevel: 'max_level',
+      attackPattern: 'attack_pattern',
     });
     if (!built) return false;
 
@@ -99,18 +124,29 @@ export class TowerRepository {
   async updateTowerLevel(
     towerId: number,
     level: number,
-    updates: Partial<TowerLevel>
+    updates: Partial<TowerLevel>,
+    branch = MAIN_BRANCH
   ): Promise<boolean> {
     const built = buildUpdateFields(updates, {
+      parentBranch: 'parent_branch',
       cost: 'cost',
       damage: 'damage',
       range: 'range',
       fireRate: 'fire_rate',
+      damageType: 'damage_type',
+      projectileType: 'projectile_type',
+      splashRadius: 'splash_radius',
+      chainCount: 'chain_count',
+      chainRange: 'chain_range',
+      pierceCount: 'pierce_count',
+      effectType: 'effect_type',
+      effectStrength: 'effect_strength',
+      effectDuration: 'effect_duration',
     });
     if (!built) return false;
 
-    built.values.push(towerId, level);
-    const sql = `UPDATE tower_levels SET ${built.fields.join(', ')} WHERE tower_id = $${built.nextParam} AND level = $${built.nextParam + 1}`;
+    built.values.push(towerId, level, branch);
+    const sql = `UPDATE tower_levels SET ${built.fields.join(', ')} WHERE tower_id = $${built.nextParam} AND level = $${built.nextParam + 1} AND branch = $${built.nextParam + 2}`;
     const result = await query(sql, built.values);
     return (result.rowCount ?? 0) > 0;
   }
@@ -118,31 +154,54 @@ export class TowerRepository {
   // Create or update a tower level (upsert)
   async upsertTowerLevel(towerLevel: TowerLevel): Promise<boolean> {
     const result = await query(
-      `INSERT INTO tower_levels (tower_id, level, cost, damage, range, fire_rate)
-       VALUES ($1, $2, $3, $4, $5, $6)
-       ON CONFLICT (tower_id, level) DO UPDATE SET
+      `INSERT INTO tower_levels (tower_id, level, branch, parent_branch, cost, damage, range,
+         fire_rate, damage_type, projectile_type, splash_radius, chain_count, chain_range,
+         pierce_count, effect_type, effect_strength, effect_duration)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+       ON CONFLICT (tower_id, level, branch) DO UPDATE SET
+         parent_branch = EXCLUDED.parent_branch,
          cost = EXCLUDED.cost,
          damage = EXCLUDED.damage,
          range = EXCLUDED.range,
-         fire_rate = EXCLUDED.fire_rate`,
+         fire_rate = EXCLUDED.fire_rate,
+         damage_type = EXCLUDED.damage_type,
+         projectile_type = EXCLUDED.projectile_type,
+         splash_radius = EXCLUDED.splash_radius,
+         chain_count = EXCLUDED.chain_count,
+         chain_range = EXCLUDED.chain_range,
+         pierce_count = EXCLUDED.pierce_count,
+         effect_type = EXCLUDED.effect_type,
+         effect_strength = EXCLUDED.effect_strength,
+         effect_duration = EXCLUDED.effect_duration`,
       [
         towerLevel.towerId,
         towerLevel.level,
+        towerLevel.branch,
+        towerLevel.parentBranch,
         towerLevel.cost,
         towerLevel.damage,
         towerLevel.range,
         towerLevel.fireRate,
+        towerLevel.damageType,
+        towerLevel.projectileType,
+        towerLevel.splashRadius,
+        towerLevel.chainCount,
+        towerLevel.chainRange,
+        towerLevel.pierceCount,
+        towerLevel.effectType,
+        towerLevel.effectStrength,
+        towerLevel.effectDuration,
       ]
     );
     return (result.rowCount ?? 0) > 0;
   }
 
   // Delete a tower level
-  async deleteTowerLevel(towerId: number, level: number): Promise<boolean> {
-    const result = await query('DELETE FROM tower_levels WHERE tower_id = $1 AND level = $2', [
-      towerId,
-      level,
-    ]);
+  async deleteTowerLevel(towerId: number, level: number, branch = MAIN_BRANCH): Promise<boolean> {
+    const result = await query(
+      'DELETE FROM tower_levels WHERE tower_id = $1 AND level = $2 AND branch = $3',
+      [towerId, level, branch]
+    );
     return (result.rowCount ?? 0) > 0;
   }
 
@@ -154,6 +213,7 @@ export class TowerRepository {
       color: row.color,
       description: row.description,
       maxLevel: row.max_level,
+      attackPattern: row.attack_pattern,
     };
   }
 
@@ -163,10 +223,21 @@ export class TowerRepository {
       id: row.id,
       towerId: row.tower_id,
       level: row.level,
+      branch: row.branch,
+      parentBranch: row.parent_branch,
       cost: row.cost,
       damage: row.damage,
       range: row.range,
       fireRate: parseFloat(row.fire_rate),
+      damageType: row.damage_type,
+      projectileType: row.projectile_type,
+      splashRadius: row.splash_radius,
+      chainCount: row.chain_count,
+      chainRange: row.chain_range,
+      pierceCount: row.pierce_count,
+      effectType: row.effect_type,
+      effectStrength: parseFloat(row.effect_strength),
+      effectDuration: row.effect_duration,
     };
   }
 }
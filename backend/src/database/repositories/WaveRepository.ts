@@ -28,7 +28,7 @@ export class WaveRepository {
     const result = await query<WaveDbRow>(
       `SELECT * FROM wave_definitions
        WHERE wave_number = LEAST($1, (SELECT MAX(wave_number) FROM wave_definitions))
-       ORDER BY enemy_id`,
+       ORDER BY position, id`,
       [waveNumber]
     );
     return result.rows.map(this.mapRow);
@@ -36,7 +36,7 @@ export class WaveRepository {
 
   async getAll(): Promise<WaveDefinitionRow[]> {
     const result = await query<WaveDbRow>(
-      'SELECT * FROM wave_definitions ORDER BY wave_number, enemy_id'
+      'SELECT * FROM wave_definitions ORDER BY wave_number, position, id'
     );
     return result.rows.map(this.mapRow);
   }
@@ -60,12 +60,19 @@ export class WaveRepository {
     // Delete existing entries for this wave
     await query('DELETE FROM wave_definitions WHERE wave_number = $1', [waveNumber]);
 
-    // Insert new entries
-    for (const enemy of enemies) {
+    // Insert new entries, keeping their order as the spawn order
+    for (const [position, enemy] of enemies.entries()) {
       await query(
-        `INSERT INTO wave_definitions (wave_number, enemy_id, count, spawn_delay_ms, difficulty_label)
-         VALUES ($1, $2, $3, $4, $5)`,
-        [waveNumber, enemy.enemyId, enemy.count, enemy.spawnDelayMs, enemy.difficultyLabel]
+        `INSERT INTO wave_definitions (wave_number, enemy_id, count, spawn_delay_ms, difficulty_label, position)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          waveNumber,
+          enemy.enemyId,
+          enemy.count,
+          enemy.spawnDelayMs,
+          enemy.difficultyLabel,
+          position,
+        ]
       );
     }
 
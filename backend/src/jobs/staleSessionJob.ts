@@ -0,0 +1,29 @@
+import { gameService } from '../services/GameService';
+
+const STALE_SESSION_HOURS = Number(process.env['STALE_SESSION_HOURS']) || 72;
+const CHECK_INTERVAL_MS = 60 * 60 * 1000; // hourly
+
+/**
+ * Background job that marks active sessions nobody has played for
+ * STALE_SESSION_HOURS as abandoned, so they drop off the "Continue game" list.
+ */
+async function abandonStaleSessions(): Promise<void> {
+  try {
+    const abandoned = await gameService.abandonStaleSessions(STALE_SESSION_HOURS);
+    if (abandoned > 0) {
+      console.log(`Marked ${abandoned} stale game session(s) as abandoned`);
+    }
+  } catch (error) {
+    console.error('Error abandoning stale sessions:', error);
+  }
+}
+
+/**
+ * Run the check now and then every hour. The timer does not keep the process alive.
+ */
+export function startStaleSessionJob(): NodeJS.Timeout {
+  void abandonStaleSessions();
+  const timer = setInterval(() => void abandonStaleSessions(), CHECK_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,87 @@
+import { Request, Response, NextFunction } from 'express';
+import { authService } from '../services/AuthService';
+import { gameService } from '../services/GameService';
+import { AuthenticatedPlayer, PlayerRole } from '../types';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    player?: AuthenticatedPlayer;
+  }
+}
+
+/**
+ * Attach the signed-in player (if any) to req.player.
+ * Requests without an Authorization header stay anonymous; a bad token is rejected.
+ */
+export function authenticate(req: Request, res: Response, next: NextFunction): void {
+  const header = req.headers.authorization;
+  if (!header) {
+    next();
+    return;
+  }
+
+  const player = header.startsWith('Bearer ')
+    ? authService.verifyToken(header.slice('Bearer '.length))
+    : null;
+  if (!player) {
+    res.status(401).json({ error: 'Invalid or expired token' });
+    return;
+  }
+
+  req.player = player;
+  next();
+}
+
+/**
+ * Reject anonymous requests
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction): void {
+  if (!req.player) {
+    res.status(401).json({ error: 'Authentication required' });
+    return;
+  }
+  next();
+}
+
+/**
+ * Only let players with one of the given roles through.
+ * The role is read from the database so promotions and demotions apply immediately.
+ */
+export function requireRole(...roles: PlayerRole[]) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.player) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+    try {
+      const player = await authService.getPlayer(req.player.id);
+      if (!player || !roles.includes(player.role)) {
+        res.status(403).json({ error: 'Insufficient permissions' });
+        return;
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Reject requests for another player's game (anonymous games stay open to anyone)
+ */
+export async function requireGameAccess(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  gameId: string
+): Promise<void> {
+  try {
+    if (!(await gameService.canAccessGame(gameId, req.player?.id))) {
+      res.status(403).json({ error: 'This game belongs to another player' });
+      return;
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
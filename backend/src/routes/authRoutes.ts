@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { authController } from '../controllers/AuthController';
+import { requireAuth, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// POST /api/auth/register - Create an account
+router.post('/register', (req, res) => authController.register(req, res));
+
+// POST /api/auth/login - Sign in
+router.post('/login', (req, res) => authController.login(req, res));
+
+// GET /api/auth/me - Get the signed-in player
+router.get('/me', requireAuth, (req, res) => authController.getCurrentPlayer(req, res));
+
+// GET /api/auth/players - List accounts (admins only)
+router.get('/players', requireRole('admin'), (req, res) => authController.getPlayers(req, res));
+
+// PATCH /api/auth/players/:id/role - Change an account's role (admins only)
+router.patch('/players/:id/role', requireRole('admin'), (req, res) =>
+  authController.updatePlayerRole(req, res)
+);
+
+export default router;
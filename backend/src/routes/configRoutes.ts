@@ -1,42 +1,79 @@
 import { Router } from 'express';
 import { configController } from '../controllers/ConfigController';
+import { requireRole } from '../middleware/auth';
 
 const router = Router();
 
+// Reads are public (the game needs them); changes are for designers and admins only
+const canEditConfig = requireRole('admin', 'designer');
+
 // Tower Definitions
 router.get('/towers', (req, res) => configController.getTowerDefinitions(req, res));
-router.patch('/towers/:id', (req, res) => configController.updateTowerDefinition(req, res));
+router.patch('/towers/:id', canEditConfig, (req, res) =>
+  configController.updateTowerDefinition(req, res)
+);
 
 // Tower Levels
 router.get('/towers/:towerId/levels', (req, res) => configController.getTowerLevels(req, res));
 router.get('/towers/:towerId/levels/:level', (req, res) =>
   configController.getTowerLevel(req, res)
 );
-router.put('/towers/:towerId/levels/:level', (req, res) =>
+router.put('/towers/:towerId/levels/:level', canEditConfig, (req, res) =>
   configController.upsertTowerLevel(req, res)
 );
-router.delete('/towers/:towerId/levels/:level', (req, res) =>
+router.delete('/towers/:towerId/levels/:level', canEditConfig, (req, res) =>
   configController.deleteTowerLevel(req, res)
 );
 
 // Enemy Definitions
 router.get('/enemies', (req, res) => configController.getAllEnemyDefinitions(req, res));
 router.get('/enemies/:id', (req, res) => configController.getEnemyDefinition(req, res));
-router.patch('/enemies/:id', (req, res) => configController.updateEnemyDefinition(req, res));
+router.patch('/enemies/:id', canEditConfig, (req, res) =>
+  configController.updateEnemyDefinition(req, res)
+);
 
 // Wave Definitions
 router.get('/waves', (req, res) => configController.getWaves(req, res));
-router.post('/waves', (req, res) => configController.createWave(req, res));
+router.post('/waves', canEditConfig, (req, res) => configController.createWave(req, res));
 router.get('/waves/:waveNumber', (req, res) => configController.getWave(req, res));
-router.put('/waves/:waveNumber', (req, res) => configController.replaceWave(req, res));
-router.delete('/waves/:waveNumber', (req, res) => configController.deleteWave(req, res));
+router.put('/waves/:waveNumber', canEditConfig, (req, res) =>
+  configController.replaceWave(req, res)
+);
+router.delete('/waves/:waveNumber', canEditConfig, (req, res) =>
+  configController.deleteWave(req, res)
+);
 
 // Game Settings
 router.get('/settings', (req, res) => configController.getAllSettings(req, res));
-router.post('/settings', (req, res) => configController.createSettings(req, res));
+router.post('/settings', canEditConfig, (req, res) => configController.createSettings(req, res));
 router.get('/settings/default', (req, res) => configController.getDefaultSettings(req, res));
 router.get('/settings/:mode', (req, res) => configController.getSettingsByMode(req, res));
 router.get('/settings/id/:id', (req, res) => configController.getSettingsById(req, res));
-router.patch('/settings/:id', (req, res) => configController.updateSettings(req, res));
+router.patch('/settings/:id', canEditConfig, (req, res) =>
+  configController.updateSettings(req, res)
+);
+
+// Maps
+router.get('/maps', (req, res) => configController.getAllMaps(req, res));
+router.post('/maps', canEditConfig, (req, res) => configController.createMap(req, res));
+router.get('/maps/:id', (req, res) => configController.getMap(req, res));
+router.patch('/maps/:id', canEditConfig, (req, res) => configController.updateMap(req, res));
+router.delete('/maps/:id', canEditConfig, (req, res) => configController.deleteMap(req, res));
+
+// Config Versions
+router.get('/versions', (req, res) => configController.getVersions(req, res));
+router.post('/versions', canEditConfig, (req, res) => configController.publishVersion(req, res));
+router.get('/versions/:id', (req, res) => configController.getVersion(req, res));
+router.post('/versions/:id/rollback', canEditConfig, (req, res) =>
+  configController.rollbackVersion(req, res)
+);
+router.get('/versions/:a/diff/:b', (req, res) => configController.diffVersions(req, res));
+
+// Import / Export
+router.get('/export', (req, res) => configController.exportConfig(req, res));
+router.post('/import', canEditConfig, (req, res) => configController.importConfig(req, res));
+
+// Audit Log
+router.get('/audit-log', canEditConfig, (req, res) => configController.getAuditLog(req, res));
 
 export default router;
@@ -1,17 +1,25 @@
 import { Router } from 'express';
 import { gameController } from '../controllers/GameController';
+import { requireAuth, requireGameAccess } from '../middleware/auth';
 
 const router = Router();
 
+router.param('gameId', requireGameAccess);
+
 router.post('/', (req, res) => gameController.startGame(req, res));
+router.get('/', requireAuth, (req, res) => gameController.listGames(req, res));
 router.get('/config', (req, res) => gameController.getConfig(req, res));
 router.get('/:gameId', (req, res) => gameController.getGameState(req, res));
+router.get('/:gameId/config', (req, res) => gameController.getConfig(req, res));
 router.post('/:gameId/towers', (req, res) => gameController.buildTower(req, res));
 router.patch('/:gameId/towers/:towerId', (req, res) => gameController.upgradeTower(req, res));
+router.patch('/:gameId/towers/:towerId/targeting', (req, res) =>
+  gameController.setTowerTargeting(req, res)
+);
 router.delete('/:gameId/towers/:towerId', (req, res) => gameController.sellTower(req, res));
 router.post('/:gameId/waves', (req, res) => gameController.startWave(req, res));
+router.post('/:gameId/waves/complete', (req, res) => gameController.completeWave(req, res));
 router.post('/:gameId/end', (req, res) => gameController.endGame(req, res));
-router.patch('/:gameId/coins', (req, res) => gameController.addCoins(req, res));
-router.patch('/:gameId/lives', (req, res) => gameController.loseLife(req, res));
+router.get('/:gameId/replay', (req, res) => gameController.getReplay(req, res));
 
 export default router;
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { statisticsController } from '../controllers/StatisticsController';
+import { requireAuth, requireRole } from '../middleware/auth';
 
 const router = Router();
 
@@ -12,9 +13,27 @@ router.get('/summary', (req, res) => statisticsController.getStatisticsSummary(r
 // GET /api/statistics/top-scores - Get top scores
 router.get('/top-scores', (req, res) => statisticsController.getTopScores(req, res));
 
+// GET /api/statistics/towers - Get pick and win rates per tower type
+router.get('/towers', (req, res) => statisticsController.getTowerAnalytics(req, res));
+
+// GET /api/statistics/enemies - Get kill share per enemy type
+router.get('/enemies', (req, res) => statisticsController.getEnemyAnalytics(req, res));
+
+// GET /api/statistics/waves - Get the number of games per final wave reached
+router.get('/waves', (req, res) => statisticsController.getWaveDistribution(req, res));
+
+// GET /api/statistics/trends - Get daily or weekly win rate and average wave per difficulty
+router.get('/trends', (req, res) => statisticsController.getTrends(req, res));
+
+// GET /api/statistics/daily/:date - Get a daily challenge and its leaderboard
+router.get('/daily/:date', (req, res) => statisticsController.getDailyLeaderboard(req, res));
+
 // GET /api/statistics/recent - Get recent games
 router.get('/recent', (req, res) => statisticsController.getRecentGames(req, res));
 
+// GET /api/statistics/me - Get the signed-in player's history
+router.get('/me', requireAuth, (req, res) => statisticsController.getPlayerHistory(req, res));
+
 // GET /api/statistics/period - Get statistics for time period
 router.get('/period', (req, res) => statisticsController.getStatisticsForPeriod(req, res));
 
@@ -29,10 +48,15 @@ router.get('/outcome/:outcome', (req, res) =>
 // GET /api/statistics/mode/:gameMode - Get statistics by game mode
 router.get('/mode/:gameMode', (req, res) => statisticsController.getStatisticsByGameMode(req, res));
 
-// POST /api/statistics - Record new game statistics
-router.post('/', (req, res) => statisticsController.recordStatistics(req, res));
+// POST /api/statistics - Record game statistics by hand (admins only; games record their
+// own statistics when they end)
+router.post('/', requireRole('admin'), (req, res) =>
+  statisticsController.recordStatistics(req, res)
+);
 
-// DELETE /api/statistics?olderThanDays=90 - Cleanup old statistics (admin)
-router.delete('/', (req, res) => statisticsController.cleanupOldStatistics(req, res));
+// DELETE /api/statistics?olderThanDays=90 - Cleanup old statistics (admins only)
+router.delete('/', requireRole('admin'), (req, res) =>
+  statisticsController.cleanupOldStatistics(req, res)
+);
 
 export default router;
@@ -39,8 +39,10 @@
  * /api/config/towers/{id}:
  *   patch:
  *     summary: Update tower definition metadata
- *     description: Update tower metadata (name, description, color, maxLevel)
+ *     description: Update tower metadata (name, description, color, maxLevel, attackPattern)
  *     tags: [Config]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -65,6 +67,8 @@
  *                 type: integer
  *                 minimum: 1
  *                 maximum: 10
+ *               attackPattern:
+ *                 $ref: '#/components/schemas/AttackPattern'
  *     responses:
  *       200:
  *         description: Updated tower definition
@@ -78,6 +82,18 @@
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Not signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Signed-in player is not a designer or admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Tower not found
  *         content:
@@ -136,6 +152,11 @@
  *           type: integer
  *           minimum: 1
  *         description: Level number
+ *       - in: query
+ *         name: branch
+ *         schema:
+ *           type: string
+ *         description: Upgrade tree branch (defaults to the main branch)
  *     responses:
  *       200:
  *         description: Tower level data
@@ -158,6 +179,8 @@
  *   put:
  *     summary: Create or update a tower level
  *     tags: [Config]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: towerId
@@ -172,6 +195,11 @@
  *           type: integer
  *           minimum: 1
  *         description: Level number
+ *       - in: query
+ *         name: branch
+ *         schema:
+ *           type: string
+ *         description: Upgrade tree branch (defaults to the main branch)
  *     requestBody:
  *       required: true
  *       content:
@@ -191,9 +219,23 @@
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Not signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Signed-in player is not a designer or admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *   delete:
  *     summary: Delete a tower level
  *     tags: [Config]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: towerId
@@ -208,9 +250,32 @@
  *           type: integer
  *           minimum: 1
  *         description: Level number
+ *       - in: query
+ *         name: branch
+ *         schema:
+ *           type: string
+ *         description: Upgrade tree branch (defaults to the main branch)
  *     responses:
  *       204:
  *         description: Level deleted successfully
+ *       400:
+ *         description: Invalid ID or level, or levels still upgrade from it
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Not signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Signed-in player is not a designer or admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Tower level not found
  *         content:
@@ -265,6 +330,8 @@
  *   patch:
  *     summary: Update enemy definition
  *     tags: [Config]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -291,6 +358,18 @@
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Not signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Signed-in player is not a designer or admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Enemy not found
  *         content:
@@ -304,7 +383,7 @@
  * /api/config/waves:
  *   get:
  *     summary: Get all wave definitions
- *     description: Returns all wave definitions grouped by wave number, with enemy composition for each wave.
+ *     description: Returns all wave definitions grouped by wave number, with enemy composition for each wave. Enemy groups spawn in the order listed.
  *     tags: [Config]
  *     responses:
  *       200:
@@ -337,6 +416,9 @@
  *                           type: integer
  *                           description: Delay between spawns in milliseconds
  *                           example: 800
+ *                         difficultyLabel:
+ *                           type: string
+ *                           example: easy
  *       500:
  *         description: Server error
  *         content:
@@ -346,6 +428,8 @@
  *   post:
  *     summary: Create a new wave
  *     tags: [Config]
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -380,6 +464,18 @@
  *         description: Created wave
  *       400:
  *         description: Validation error or wave already exists
+ *       401:
+ *         description: Not signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Signed-in player is not a designer or admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
 
 /**
@@ -402,7 +498,10 @@
  *         description: Wave not found
  *   put:
  *     summary: Replace entire wave composition
+ *     description: Creates the wave if it does not exist. Enemy groups spawn in the order given.
  *     tags: [Config]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: waveNumber
@@ -437,9 +536,23 @@
  *         description: Replaced wave composition
  *       400:
  *         description: Validation error
+ *       401:
+ *         description: Not signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Signed-in player is not a designer or admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *   delete:
  *     summary: Delete an entire wave
  *     tags: [Config]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: waveNumber
@@ -450,6 +563,18 @@
  *     responses:
  *       204:
  *         description: Wave deleted
+ *       401:
+ *         description: Not signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Signed-in player is not a designer or admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Wave not found
  */
@@ -472,6 +597,8 @@
  *   post:
  *     summary: Create custom settings
  *     tags: [Config]
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -491,6 +618,18 @@
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Not signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Signed-in player is not a designer or admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
 
 /**
@@ -589,6 +728,8 @@
  *   patch:
  *     summary: Update settings
  *     tags: [Config]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -615,6 +756,18 @@
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Not signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Signed-in player is not a designer or admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Settings not found
  *         content:
@@ -623,4 +776,512 @@
  *               $ref: '#/components/schemas/Error'
  */
 
+/**
+ * @swagger
+ * /api/config/maps:
+ *   get:
+ *     summary: Get all maps
+ *     tags: [Config]
+ *     responses:
+ *       200:
+ *         description: Array of maps ordered by ID (the first one is the default)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/MapDefinition'
+ *   post:
+ *     summary: Create a map
+ *     tags: [Config]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/MapDefinition'
+ *     responses:
+ *       201:
+ *         description: Created map
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MapDefinition'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Not signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Signed-in player is not a designer or admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+
+/**
+ * @swagger
+ * /api/config/maps/{id}:
+ *   get:
+ *     summary: Get a map by ID
+ *     tags: [Config]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Map ID
+ *     responses:
+ *       200:
+ *         description: Map
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MapDefinition'
+ *       400:
+ *         description: Invalid ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Map not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   patch:
+ *     summary: Update a map
+ *     tags: [Config]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Map ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/MapDefinition'
+ *     responses:
+ *       200:
+ *         description: Updated map
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MapDefinition'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Not signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Signed-in player is not a designer or admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Map not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   delete:
+ *     summary: Delete a map
+ *     tags: [Config]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Map ID
+ *     responses:
+ *       204:
+ *         description: Map deleted
+ *       400:
+ *         description: Invalid ID or last remaining map
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Not signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Signed-in player is not a designer or admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Map not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+
+/**
+ * @swagger
+ * /api/config/audit-log:
+ *   get:
+ *     summary: Get recent config changes
+ *     description: One entry per changed field, newest first
+ *     tags: [Config]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: entityType
+ *         schema:
+ *           type: string
+ *           enum: [tower, tower_level, enemy, wave, settings, map, player, version]
+ *         description: Only changes to this kind of entity
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 100
+ *     responses:
+ *       200:
+ *         description: Audit log entries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/AuditLogEntry'
+ *       400:
+ *         description: Invalid entity type
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Not signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Signed-in player is not a designer or admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+
+/**
+ * @swagger
+ * /api/config/versions:
+ *   get:
+ *     summary: List published config versions
+ *     description: Newest first; the first version is the one new games are pinned to
+ *     tags: [Config]
+ *     responses:
+ *       200:
+ *         description: Config versions (without snapshots)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ConfigVersionSummary'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   post:
+ *     summary: Publish the draft config
+ *     description: Freezes the current tower, enemy, wave and settings tables into a new immutable version. Games started from now on play this version.
+ *     tags: [Config]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               notes:
+ *                 type: string
+ *                 example: Cheaper rooks
+ *     responses:
+ *       201:
+ *         description: Published version
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ConfigVersion'
+ *       400:
+ *         description: Invalid notes, or the draft has no changes since the current version
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Not signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Signed-in player is not a designer or admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+
+/**
+ * @swagger
+ * /api/config/versions/{id}:
+ *   get:
+ *     summary: Get a config version with its snapshot
+ *     tags: [Config]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Config version
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ConfigVersion'
+ *       400:
+ *         description: Invalid version ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Config version not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+
+/**
+ * @swagger
+ * /api/config/versions/{id}/rollback:
+ *   post:
+ *     summary: Roll back to a config version
+ *     description: Restores the draft to the version and publishes it again as a new version, so history is never rewritten
+ *     tags: [Config]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       201:
+ *         description: New version with the restored config
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ConfigVersion'
+ *       400:
+ *         description: Invalid version ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Not signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Signed-in player is not a designer or admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Config version not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+
+/**
+ * @swagger
+ * /api/config/versions/{a}/diff/{b}:
+ *   get:
+ *     summary: Diff two config versions
+ *     description: Field-level changes from version a to version b. Either side may be "draft" for the unpublished config.
+ *     tags: [Config]
+ *     parameters:
+ *       - in: path
+ *         name: a
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: '1'
+ *       - in: path
+ *         name: b
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: draft
+ *     responses:
+ *       200:
+ *         description: Changes between the versions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ConfigVersionDiff'
+ *       400:
+ *         description: Versions are not version IDs or 'draft'
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Config version not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+
+/**
+ * @swagger
+ * /api/config/export:
+ *   get:
+ *     summary: Export the config as a bundle
+ *     description: Towers with levels, enemies, waves, settings and maps as one versioned JSON bundle that POST /api/config/import (or the balance bot) can read. Maps are not versioned, so they are always the current ones.
+ *     tags: [Config]
+ *     parameters:
+ *       - in: query
+ *         name: version
+ *         schema:
+ *           type: integer
+ *         description: Export a published version instead of the draft
+ *     responses:
+ *       200:
+ *         description: Config bundle (sent as a file download)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ConfigBundle'
+ *       400:
+ *         description: Invalid version ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Config version not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+
+/**
+ * @swagger
+ * /api/config/import:
+ *   post:
+ *     summary: Import a config bundle into the draft
+ *     description: Validates the bundle, compares it with the draft and overwrites the draft with it. Towers, enemies, settings and maps are matched by ID and must exist on both sides; waves are replaced. Publish a version afterwards to let new games play the imported config.
+ *     tags: [Config]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *         description: Only report changes and conflicts, do not write anything
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ConfigBundle'
+ *     responses:
+ *       200:
+ *         description: Import result (applied is false for dry runs and bundles without changes)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ConfigImportResult'
+ *       400:
+ *         description: Invalid bundle; details lists every problem found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 error:
+ *                   type: string
+ *                   example: Invalid config bundle
+ *                 details:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                   example: ['towers[0].levels[1]: Cost must be at least 1']
+ *       401:
+ *         description: Not signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Signed-in player is not a designer or admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Bundle has conflicts and was not applied (the import result plus an error message)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ConfigImportResult'
+ */
+
 export {};
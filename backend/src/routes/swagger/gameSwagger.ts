@@ -20,8 +20,22 @@
  *                 default: normal
  *               gameMode:
  *                 type: string
- *                 enum: [10waves, 20waves, endless]
+ *                 enum: [10waves, 20waves, endless, daily]
  *                 default: 10waves
+ *                 description: A daily game plays today's challenge; its difficulty, map, seed and mutators are ignored
+ *               mapId:
+ *                 type: integer
+ *                 description: Map to play on (defaults to the first map)
+ *               seed:
+ *                 type: integer
+ *                 minimum: 0
+ *                 maximum: 4294967295
+ *                 description: Seed for the game's random choices; pass a finished game's seed to replay it (defaults to a new one). Games on a chosen seed are left out of the top scores
+ *               mutators:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/MutatorId'
+ *                 description: Rule changes for this game, freely combinable (defaults to none)
  *     responses:
  *       201:
  *         description: Game created successfully
@@ -29,6 +43,51 @@
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/StartGameResponse'
+ *       400:
+ *         description: Invalid game mode, map ID, seed or mutators
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Map not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   get:
+ *     summary: List game sessions by status (resumable games by default)
+ *     description: Signed-in players get their own games; anonymous callers get anonymous games.
+ *     tags: [Game]
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [active, completed, abandoned]
+ *           default: active
+ *     responses:
+ *       200:
+ *         description: Game sessions, most recently played first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/GameSessionSummary'
+ *       400:
+ *         description: Invalid status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       500:
  *         description: Server error
  *         content:
@@ -42,7 +101,38 @@
  * /api/games/config:
  *   get:
  *     summary: Get game configuration (tower and enemy definitions)
+ *     description: The current config version (what a new game plays)
+ *     tags: [Game]
+ *     responses:
+ *       200:
+ *         description: Game configuration retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/GameConfigResponse'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+
+/**
+ * @swagger
+ * /api/games/{gameId}/config:
+ *   get:
+ *     summary: Get a game's configuration (tower and enemy definitions)
+ *     description: The config version the game is pinned to, with its mutators and daily loadout applied
  *     tags: [Game]
+ *     parameters:
+ *       - in: path
+ *         name: gameId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: The game session ID
  *     responses:
  *       200:
  *         description: Game configuration retrieved successfully
@@ -50,6 +140,18 @@
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/GameConfigResponse'
+ *       403:
+ *         description: The game belongs to another player
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Game not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       500:
  *         description: Server error
  *         content:
@@ -79,6 +181,12 @@
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/GameStateResponse'
+ *       403:
+ *         description: The game belongs to another player
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Game not found
  *         content:
@@ -121,7 +229,7 @@
  *             schema:
  *               $ref: '#/components/schemas/BuildTowerResponse'
  *       400:
- *         description: Invalid request (insufficient coins, invalid position, etc.)
+ *         description: Invalid request (insufficient coins, invalid position, game not between waves, etc.)
  *         content:
  *           application/json:
  *             schema:
@@ -155,6 +263,16 @@
  *           type: string
  *           format: uuid
  *         description: The tower ID to upgrade
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               branch:
+ *                 type: string
+ *                 description: Upgrade tree branch to take; only required where the tower's next level branches
+ *                 example: Marksman
  *     responses:
  *       200:
  *         description: Tower upgraded successfully
@@ -163,7 +281,7 @@
  *             schema:
  *               $ref: '#/components/schemas/UpgradeTowerResponse'
  *       400:
- *         description: Invalid request (insufficient coins, max level, etc.)
+ *         description: Invalid request (insufficient coins, max level, missing or unknown branch, game not between waves, etc.)
  *         content:
  *           application/json:
  *             schema:
@@ -200,7 +318,65 @@
  *             schema:
  *               $ref: '#/components/schemas/SellTowerResponse'
  *       400:
- *         description: Tower not found
+ *         description: Tower not found, selling not allowed, or game not between waves
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+
+/**
+ * @swagger
+ * /api/games/{gameId}/towers/{towerId}/targeting:
+ *   patch:
+ *     summary: Change which enemy a tower shoots at
+ *     description: >
+ *       first/last pick the enemy furthest/least far along the path,
+ *       strongest/weakest the one with the most/least health, closest the
+ *       nearest one. Applies to server-side wave resolution as well.
+ *     tags: [Tower]
+ *     parameters:
+ *       - in: path
+ *         name: gameId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: The game session ID
+ *       - in: path
+ *         name: towerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: The tower ID to retarget
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SetTargetingRequest'
+ *     responses:
+ *       200:
+ *         description: Targeting mode updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SetTargetingResponse'
+ *       400:
+ *         description: Invalid targeting mode or tower not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Game not found
  *         content:
  *           application/json:
  *             schema:
@@ -218,6 +394,15 @@
  * /api/games/{gameId}/waves:
  *   post:
  *     summary: Start the next wave
+ *     description: >
+ *       Simulates the wave server-side against the session's towers and applies
+ *       the resulting kills, rewards and lost lives to the session. The client
+ *       animation is cosmetic; coins and lives in the response are authoritative.
+ *       Waves past the last defined one are generated from the game settings'
+ *       endless parameters, seeded by the game so they are the same on replay.
+ *       10waves and 20waves games are won by clearing their last wave, which
+ *       completes the session; endless and daily games have no last wave.
+ *       Towers cannot change until the client completes the wave.
  *     tags: [Wave]
  *     parameters:
  *       - in: path
@@ -234,6 +419,12 @@
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/StartWaveResponse'
+ *       400:
+ *         description: Game is over (no lives left or the mode's last wave was cleared) or a wave is in progress
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Game not found
  *         content:
@@ -250,10 +441,14 @@
 
 /**
  * @swagger
- * /api/games/{gameId}/end:
+ * /api/games/{gameId}/waves/complete:
  *   post:
- *     summary: End the game and submit final stats
- *     tags: [Game]
+ *     summary: Complete the started wave
+ *     description: >
+ *       Called when the client has played the started wave back. Its outcome was
+ *       applied when it started; completing it lets towers be built, upgraded and
+ *       sold again.
+ *     tags: [Wave]
  *     parameters:
  *       - in: path
  *         name: gameId
@@ -262,19 +457,21 @@
  *           type: string
  *           format: uuid
  *         description: The game session ID
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             $ref: '#/components/schemas/EndGameRequest'
  *     responses:
  *       200:
- *         description: Game ended successfully
+ *         description: Wave completed
+ *       400:
+ *         description: No wave is in progress
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/EndGameResponse'
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Game not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       500:
  *         description: Server error
  *         content:
@@ -285,9 +482,9 @@
 
 /**
  * @swagger
- * /api/games/{gameId}/coins:
- *   patch:
- *     summary: Add coins to the game (when enemy dies)
+ * /api/games/{gameId}/end:
+ *   post:
+ *     summary: End the game and submit final stats
  *     tags: [Game]
  *     parameters:
  *       - in: path
@@ -302,29 +499,16 @@
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required: [amount]
- *             properties:
- *               amount:
- *                 type: number
- *                 minimum: 1
- *                 example: 10
+ *             $ref: '#/components/schemas/EndGameRequest'
  *     responses:
  *       200:
- *         description: Coins added successfully
+ *         description: Game ended successfully
  *         content:
  *           application/json:
  *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   example: true
- *                 coins:
- *                   type: number
- *                   example: 260
+ *               $ref: '#/components/schemas/EndGameResponse'
  *       400:
- *         description: Invalid amount
+ *         description: Invalid replay, an outcome other than the session's, or statistics that do not add up with the session
  *         content:
  *           application/json:
  *             schema:
@@ -345,9 +529,9 @@
 
 /**
  * @swagger
- * /api/games/{gameId}/lives:
- *   patch:
- *     summary: Lose a life (when enemy reaches end)
+ * /api/games/{gameId}/replay:
+ *   get:
+ *     summary: Get the recorded replay of a finished game
  *     tags: [Game]
  *     parameters:
  *       - in: path
@@ -359,23 +543,13 @@
  *         description: The game session ID
  *     responses:
  *       200:
- *         description: Life lost successfully
+ *         description: Replay retrieved successfully
  *         content:
  *           application/json:
  *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   example: true
- *                 lives:
- *                   type: number
- *                   example: 9
- *                 gameOver:
- *                   type: boolean
- *                   example: false
+ *               $ref: '#/components/schemas/GameReplay'
  *       404:
- *         description: Game not found
+ *         description: Replay not found
  *         content:
  *           application/json:
  *             schema:
@@ -42,8 +42,11 @@
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *   post:
- *     summary: Record new game statistics
+ *     summary: Record game statistics by hand (admins only)
+ *     description: Played games record their own statistics when they end.
  *     tags: [Statistics]
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -63,6 +66,18 @@
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Not signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not an admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       500:
  *         description: Server error
  *         content:
@@ -70,8 +85,10 @@
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *   delete:
- *     summary: Cleanup old statistics (admin)
+ *     summary: Cleanup old statistics (admins only)
  *     tags: [Statistics]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: query
  *         name: olderThanDays
@@ -100,6 +117,18 @@
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Not signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Signed-in player is not an admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       500:
  *         description: Server error
  *         content:
@@ -133,7 +162,12 @@
  * @swagger
  * /api/statistics/top-scores:
  *   get:
- *     summary: Get top scores (highest waves in endless mode)
+ *     summary: Get top scores (highest score first)
+ *     description: >
+ *       Scores add up points for waves cleared, lives remaining, coins left
+ *       unspent and wave pace, times the difficulty multiplier, all configured
+ *       per game settings. Games played on a seed the player chose are not
+ *       ranked.
  *     tags: [Statistics]
  *     parameters:
  *       - in: query
@@ -142,6 +176,23 @@
  *           type: integer
  *           default: 10
  *         description: Number of top scores to return
+ *       - in: query
+ *         name: mutators
+ *         schema:
+ *           type: string
+ *         description: Only games played with exactly this mutator set (comma-separated IDs, empty for games without mutators)
+ *       - in: query
+ *         name: gameMode
+ *         schema:
+ *           type: string
+ *           enum: [10waves, 20waves, endless, daily]
+ *         description: Only games of this mode
+ *       - in: query
+ *         name: difficulty
+ *         schema:
+ *           type: string
+ *           enum: [easy, normal, hard, custom]
+ *         description: Only games played on this difficulty
  *     responses:
  *       200:
  *         description: Top scores
@@ -151,6 +202,261 @@
  *               type: array
  *               items:
  *                 $ref: '#/components/schemas/GameStatistics'
+ *       400:
+ *         description: Invalid mutators, game mode or difficulty
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+
+/**
+ * @swagger
+ * /api/statistics/towers:
+ *   get:
+ *     summary: Get pick and win rates per tower type
+ *     description: Pick rate is the percentage of games that built the tower at least once; win rate the percentage of those games that were won.
+ *     tags: [Statistics]
+ *     parameters:
+ *       - in: query
+ *         name: gameMode
+ *         schema:
+ *           type: string
+ *           enum: [10waves, 20waves, endless, daily]
+ *         description: Only games of this mode
+ *       - in: query
+ *         name: difficulty
+ *         schema:
+ *           type: string
+ *           enum: [easy, normal, hard, custom]
+ *         description: Only games played on this difficulty
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 365
+ *         description: Only games of the last this many days (all games if omitted)
+ *     responses:
+ *       200:
+ *         description: Tower types, most picked first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/TowerAnalytics'
+ *       400:
+ *         description: Invalid game mode, difficulty or days
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+
+/**
+ * @swagger
+ * /api/statistics/enemies:
+ *   get:
+ *     summary: Get kill share per enemy type
+ *     description: Kill share is the percentage of all kills in the matching games.
+ *     tags: [Statistics]
+ *     parameters:
+ *       - in: query
+ *         name: gameMode
+ *         schema:
+ *           type: string
+ *           enum: [10waves, 20waves, endless, daily]
+ *         description: Only games of this mode
+ *       - in: query
+ *         name: difficulty
+ *         schema:
+ *           type: string
+ *           enum: [easy, normal, hard, custom]
+ *         description: Only games played on this difficulty
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 365
+ *         description: Only games of the last this many days (all games if omitted)
+ *     responses:
+ *       200:
+ *         description: Enemy types, most killed first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/EnemyAnalytics'
+ *       400:
+ *         description: Invalid game mode, difficulty or days
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+
+/**
+ * @swagger
+ * /api/statistics/waves:
+ *   get:
+ *     summary: Get the distribution of final waves reached
+ *     description: Number of games, and of wins, that ended on each wave.
+ *     tags: [Statistics]
+ *     parameters:
+ *       - in: query
+ *         name: gameMode
+ *         schema:
+ *           type: string
+ *           enum: [10waves, 20waves, endless, daily]
+ *         description: Only games of this mode
+ *       - in: query
+ *         name: difficulty
+ *         schema:
+ *           type: string
+ *           enum: [easy, normal, hard, custom]
+ *         description: Only games played on this difficulty
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 365
+ *         description: Only games of the last this many days (all games if omitted)
+ *     responses:
+ *       200:
+ *         description: Final waves, lowest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/WaveDistributionPoint'
+ *       400:
+ *         description: Invalid game mode, difficulty or days
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+
+/**
+ * @swagger
+ * /api/statistics/trends:
+ *   get:
+ *     summary: Get win rate and average wave over time
+ *     description: One point per day or week (starting on Monday) and difficulty, oldest first. Covers the last 90 days unless days is given.
+ *     tags: [Statistics]
+ *     parameters:
+ *       - in: query
+ *         name: gameMode
+ *         schema:
+ *           type: string
+ *           enum: [10waves, 20waves, endless, daily]
+ *         description: Only games of this mode
+ *       - in: query
+ *         name: difficulty
+ *         schema:
+ *           type: string
+ *           enum: [easy, normal, hard, custom]
+ *         description: Only games played on this difficulty
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 365
+ *         description: Only games of the last this many days (default 90)
+ *       - in: query
+ *         name: interval
+ *         schema:
+ *           type: string
+ *           enum: [day, week]
+ *           default: day
+ *         description: Length of each period
+ *     responses:
+ *       200:
+ *         description: Trend points
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/TrendPoint'
+ *       400:
+ *         description: Invalid interval, game mode, difficulty or days
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+
+/**
+ * @swagger
+ * /api/statistics/daily/{date}:
+ *   get:
+ *     summary: Get a daily challenge and its leaderboard
+ *     description: Only each player's first attempt at the challenge is ranked; anonymous games are not.
+ *     tags: [Statistics]
+ *     parameters:
+ *       - in: path
+ *         name: date
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Challenge date (UTC), today or earlier
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *         description: Number of leaderboard entries to return
+ *     responses:
+ *       200:
+ *         description: The challenge and its ranked attempts, highest score first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DailyLeaderboardResponse'
+ *       400:
+ *         description: Invalid or future date
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       500:
  *         description: Server error
  *         content:
@@ -189,6 +495,48 @@
  *               $ref: '#/components/schemas/Error'
  */
 
+/**
+ * @swagger
+ * /api/statistics/me:
+ *   get:
+ *     summary: Get the signed-in player's game history and summary
+ *     tags: [Statistics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *         description: Number of games to return
+ *     responses:
+ *       200:
+ *         description: Player history
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PlayerHistoryResponse'
+ *       401:
+ *         description: Not signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Signed-in player is not an admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+
 /**
  * @swagger
  * /api/statistics/period:
@@ -330,7 +678,7 @@
  *         required: true
  *         schema:
  *           type: string
- *           enum: [10waves, 20waves, endless]
+ *           enum: [10waves, 20waves, endless, daily]
  *         description: Game mode to filter by
  *       - in: query
  *         name: limit
@@ -16,6 +16,8 @@ const API_BASE = process.env['API_URL'] || 'http://localhost:3001';
 interface TowerLevel {
   towerId: number;
   level: number;
+  branch: string;
+  parentBranch: string;
   cost: number;
   damage: number;
   range: number;
@@ -60,6 +62,16 @@ interface GameSettings {
   initialLives: number;
   enemyHealthWaveMultiplier: number;
   enemyRewardWaveMultiplier: number;
+  endlessBudgetGrowth: number;
+  scoreMultiplier: number;
+}
+
+interface MapDefinition {
+  id: number;
+  name: string;
+  description: string;
+  waypoints: { x: number; y: number }[];
+  blockedCells: { gridX: number; gridY: number }[];
 }
 
 async function fetchJson<T>(endpoint: string): Promise<T> {
@@ -79,7 +91,7 @@ function generateTowerInserts(towers: TowerDefinition[]): string {
   for (const tower of towers) {
     for (const lvl of tower.levels) {
       levelRows.push(
-        `    (${lvl.towerId}, ${lvl.level}, ${lvl.cost}, ${lvl.damage}, ${lvl.range}, ${lvl.fireRate.toFixed(2)})`
+        `    (${lvl.towerId}, ${lvl.level}, '${lvl.branch}', '${lvl.parentBranch}', ${lvl.cost}, ${lvl.damage}, ${lvl.range}, ${lvl.fireRate.toFixed(2)})`
       );
     }
   }
@@ -92,10 +104,10 @@ function generateTowerInserts(towers: TowerDefinition[]): string {
     'ON CONFLICT (name) DO NOTHING;',
     '',
     '-- Insert default tower levels (level 1 = base, level 2+ = upgrades)',
-    'INSERT INTO tower_levels (tower_id, level, cost, damage, range, fire_rate)',
+    'INSERT INTO tower_levels (tower_id, level, branch, parent_branch, cost, damage, range, fire_rate)',
     'VALUES',
     levelRows.join(',\n'),
-    'ON CONFLICT (tower_id, level) DO NOTHING;',
+    'ON CONFLICT (tower_id, level, branch) DO NOTHING;',
   ].join('\n');
 }
 
@@ -148,31 +160,49 @@ function generateSettingsInserts(settings: GameSettings[]): string {
   const rows = settings
     .map(
       (s) =>
-        `    ('${s.mode}', ${s.initialCoins}, ${s.initialLives}, ${s.enemyHealthWaveMultiplier.toFixed(3)}, ${s.enemyRewardWaveMultiplier.toFixed(3)})`
+        `    ('${s.mode}', ${s.initialCoins}, ${s.initialLives}, ${s.enemyHealthWaveMultiplier.toFixed(3)}, ${s.enemyRewardWaveMultiplier.toFixed(3)}, ${s.endlessBudgetGrowth.toFixed(3)}, ${s.scoreMultiplier.toFixed(2)})`
     )
     .join(',\n');
 
   return [
     '-- Insert default game settings presets',
-    'INSERT INTO game_settings (mode, initial_coins, initial_lives, enemy_health_wave_multiplier, enemy_reward_wave_multiplier)',
+    'INSERT INTO game_settings (mode, initial_coins, initial_lives, enemy_health_wave_multiplier, enemy_reward_wave_multiplier, endless_budget_growth, score_multiplier)',
     'VALUES',
     rows,
     "ON CONFLICT (mode) DO NOTHING;",
   ].join('\n');
 }
 
+function generateMapInserts(maps: MapDefinition[]): string {
+  const rows = maps
+    .map(
+      (m) =>
+        `    ('${m.name}', '${m.description}', '${JSON.stringify(m.waypoints)}', '${JSON.stringify(m.blockedCells)}')`
+    )
+    .join(',\n');
+
+  return [
+    '-- Insert default maps',
+    'INSERT INTO maps (name, description, waypoints, blocked_cells)',
+    'VALUES',
+    rows,
+    'ON CONFLICT (name) DO NOTHING;',
+  ].join('\n');
+}
+
 async function main(): Promise<void> {
   console.log(`Fetching config from ${API_BASE}...`);
 
-  const [towers, enemies, waves, settings] = await Promise.all([
+  const [towers, enemies, waves, settings, maps] = await Promise.all([
     fetchJson<TowerDefinition[]>('/api/config/towers'),
     fetchJson<EnemyDefinition[]>('/api/config/enemies'),
     fetchJson<WaveComposition[]>('/api/config/waves'),
     fetchJson<GameSettings[]>('/api/config/settings'),
+    fetchJson<MapDefinition[]>('/api/config/maps'),
   ]);
 
   console.log(
-    `Fetched: ${towers.length} towers, ${enemies.length} enemies, ${waves.length} waves, ${settings.length} settings`
+    `Fetched: ${towers.length} towers, ${enemies.length} enemies, ${waves.length} waves, ${settings.length} settings, ${maps.length} maps`
   );
 
   const initSqlPath = path.join(__dirname, '..', 'database', 'init.sql');
@@ -208,6 +238,8 @@ async function main(): Promise<void> {
     '',
     generateSettingsInserts(settings),
     '',
+    generateMapInserts(maps),
+    '',
     '',
   ].join('\n');
 
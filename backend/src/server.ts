@@ -2,17 +2,20 @@ import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import swaggerUi from 'swagger-ui-express';
 import gameRoutes from './routes/gameRoutes';
+import authRoutes from './routes/authRoutes';
 import configRoutes from './routes/configRoutes';
 import statisticsRoutes from './routes/statisticsRoutes';
 import { swaggerSpec } from './config/swagger';
 import { testConnection } from './database/db';
+import { startStaleSessionJob } from './jobs/staleSessionJob';
+import { authenticate } from './middleware/auth';
 
 const app = express();
 const PORT = process.env['PORT'] || 3001;
 
 // Middleware
 app.use(cors()); // Enable CORS for frontend
-app.use(express.json()); // Parse JSON request bodies
+app.use(express.json({ limit: '1mb' })); // Parse JSON request bodies (replays can be large)
 
 // Request logging middleware
 app.use((req: Request, res: Response, next: NextFunction) => {
@@ -20,6 +23,9 @@ app.use((req: Request, res: Response, next: NextFunction) => {
   next();
 });
 
+// Identify the signed-in player from the Authorization header (anonymous play stays allowed)
+app.use(authenticate);
+
 // Swagger UI
 app.use(
   '/api-docs',
@@ -70,6 +76,7 @@ app.get('/health', async (req: Request, res: Response) => {
 });
 
 // API Routes
+app.use('/api/auth', authRoutes);
 app.use('/api/games', gameRoutes);
 app.use('/api/config', configRoutes);
 app.use('/api/statistics', statisticsRoutes);
@@ -98,6 +105,7 @@ app.listen(PORT, async () => {
   const dbConnected = await testConnection();
   if (dbConnected) {
     console.log('Database connected successfully');
+    startStaleSessionJob();
   } else {
     console.error('Database connection failed');
   }
@@ -0,0 +1,98 @@
+import { AuditLogRepository, NewAuditLogEntry } from '../database/repositories/AuditLogRepository';
+import { AuditEntityType, AuditLogEntry, AuthenticatedPlayer, ConfigVersionChange } from '../types';
+
+// Bookkeeping columns that change on every write
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt']);
+
+// JSON with object keys sorted, so values read back from JSONB (which reorders keys)
+// compare equal to the values written
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : v
+  );
+}
+
+interface FieldChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+/**
+ * AuditService
+ * Records who changed which config field from what to what
+ */
+export class AuditService {
+  private auditRepo: AuditLogRepository;
+
+  constructor() {
+    this.auditRepo = new AuditLogRepository();
+  }
+
+  /**
+   * Record one change as an entry per changed field.
+   * `before` is null for creations and `after` is null for deletions.
+   * Returns the number of entries written.
+   */
+  async recordChange(
+    actor: AuthenticatedPlayer,
+    entityType: AuditEntityType,
+    entityId: string | number,
+    before: object | null,
+    after: object | null
+  ): Promise<number> {
+    const entries: NewAuditLogEntry[] = AuditService.diff(before, after).map((change) => ({
+      playerId: actor.id,
+      username: actor.username,
+      entityType,
+      entityId: String(entityId),
+      ...change,
+    }));
+
+    await this.auditRepo.insertEntries(entries);
+    return entries.length;
+  }
+
+  /**
+   * Record field changes that were already diffed (e.g. a config import).
+   * Returns the number of entries written.
+   */
+  async recordChanges(actor: AuthenticatedPlayer, changes: ConfigVersionChange[]): Promise<number> {
+    const entries: NewAuditLogEntry[] = changes.map((change) => ({
+      playerId: actor.id,
+      username: actor.username,
+      ...change,
+    }));
+
+    await this.auditRepo.insertEntries(entries);
+    return entries.length;
+  }
+
+  async getAuditLog(entityType?: AuditEntityType, limit = 100): Promise<AuditLogEntry[]> {
+    return await this.auditRepo.getEntries(entityType, limit);
+  }
+
+  /**
+   * Top-level fields whose values differ (compared as JSON, whatever the key order)
+   */
+  static diff(before: object | null, after: object | null): FieldChange[] {
+    const oldFields: Record<string, unknown> = { ...before };
+    const newFields: Record<string, unknown> = { ...after };
+    const fields = new Set([...Object.keys(oldFields), ...Object.keys(newFields)]);
+
+    const changes: FieldChange[] = [];
+    for (const field of fields) {
+      if (IGNORED_FIELDS.has(field)) continue;
+      const oldValue = oldFields[field] ?? null;
+      const newValue = newFields[field] ?? null;
+      if (canonicalJson(oldValue) !== canonicalJson(newValue)) {
+        changes.push({ field, oldValue, newValue });
+      }
+    }
+    return changes;
+  }
+}
+
+export const auditService = new AuditService();
@@ -0,0 +1,177 @@
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { PlayerRepository } from '../database/repositories/PlayerRepository';
+import { AuthenticatedPlayer, AuthResponse, Player, PlayerDB, PlayerRole } from '../types';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const USERNAME_PATTERN = /^[A-Za-z0-9_-]{3,32}$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+export const PLAYER_ROLES: readonly PlayerRole[] = ['admin', 'designer', 'player'];
+
+export function isPlayerRole(value: unknown): value is PlayerRole {
+  return PLAYER_ROLES.includes(value as PlayerRole);
+}
+
+interface TokenPayload {
+  sub: number; // player ID
+  username: string;
+  exp: number; // expiry, ms since epoch
+}
+
+/**
+ * AuthService
+ * Player registration and login. Passwords are stored as salted scrypt hashes;
+ * tokens are HMAC-SHA256 signed payloads (payload.signature, base64url).
+ */
+export class AuthService {
+  private playerRepo: PlayerRepository;
+  private secret: string;
+  private tokenTtlMs: number;
+  private adminUsernames: Set<string>;
+
+  constructor() {
+    this.playerRepo = new PlayerRepository();
+    this.secret = process.env['AUTH_SECRET'] || AuthService.generateSecret();
+    this.tokenTtlMs = (Number(process.env['AUTH_TOKEN_TTL_HOURS']) || 24 * 7) * 60 * 60 * 1000;
+    // Accounts registered under these names start as admins (bootstraps the first admin)
+    this.adminUsernames = new Set(
+      (process.env['ADMIN_USERNAMES'] ?? '')
+        .split(',')
+        .map((name) => name.trim().toLowerCase())
+        .filter(Boolean)
+    );
+  }
+
+  // Without a configured secret, sign with a random one so tokens cannot be forged;
+  // players then have to sign in again after every restart
+  private static generateSecret(): string {
+    console.warn('AUTH_SECRET is not set: using a random secret, tokens will not survive restarts');
+    return randomBytes(32).toString('hex');
+  }
+
+  /**
+   * Create an account and sign the player in
+   */
+  async register(username: string, password: string): Promise<AuthResponse> {
+    if (typeof username !== 'string' || !USERNAME_PATTERN.test(username)) {
+      throw new Error('Username must be 3-32 letters, digits, underscores or dashes');
+    }
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+    if (await this.playerRepo.getPlayerByUsername(username)) {
+      throw new Error('Username is already taken');
+    }
+
+    const role: PlayerRole = this.adminUsernames.has(username.toLowerCase()) ? 'admin' : 'player';
+    const player = await this.playerRepo.createPlayer(
+      username,
+      await this.hashPassword(password),
+      role
+    );
+    return { token: this.signToken(player), player: AuthService.toPlayer(player) };
+  }
+
+  /**
+   * Sign a player in; null if the username or password is wrong
+   */
+  async login(username: string, password: string): Promise<AuthResponse | null> {
+    if (typeof username !== 'string' || typeof password !== 'string') return null;
+
+    const player = await this.playerRepo.getPlayerByUsername(username);
+    if (!player || !(await this.verifyPassword(password, player.passwordHash))) return null;
+
+    return { token: this.signToken(player), player: AuthService.toPlayer(player) };
+  }
+
+  /**
+   * Get a player's public profile
+   */
+  async getPlayer(id: number): Promise<Player | null> {
+    const player = await this.playerRepo.getPlayerById(id);
+    return player ? AuthService.toPlayer(player) : null;
+  }
+
+  async getAllPlayers(): Promise<Player[]> {
+    const players = await this.playerRepo.getAllPlayers();
+    return players.map(AuthService.toPlayer);
+  }
+
+  /**
+   * Change a player's role; null if the player does not exist
+   */
+  async setPlayerRole(id: number, role: PlayerRole): Promise<Player | null> {
+    if (!isPlayerRole(role)) {
+      throw new Error(`Role must be one of: ${PLAYER_ROLES.join(', ')}`);
+    }
+    if (!(await this.playerRepo.updatePlayerRole(id, role))) return null;
+    return await this.getPlayer(id);
+  }
+
+  /**
+   * Check a token's signature and expiry; null if it is invalid
+   */
+  verifyToken(token: string): AuthenticatedPlayer | null {
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) return null;
+
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+    try {
+      const data = JSON.parse(Buffer.from(payload, 'base64url').toString()) as TokenPayload;
+      if (typeof data.sub !== 'number' || data.exp < Date.now()) return null;
+      return { id: data.sub, username: data.username };
+    } catch {
+      return null;
+    }
+  }
+
+  async hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16);
+    const hash = await scryptAsync(password, salt, KEY_LENGTH);
+    return `${salt.toString('hex')}:${hash.toString('hex')}`;
+  }
+
+  async verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [salt, hash] = stored.split(':');
+    if (!salt || !hash) return false;
+
+    const expected = Buffer.from(hash, 'hex');
+    const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+    return timingSafeEqual(expected, actual);
+  }
+
+  private signToken(player: PlayerDB): string {
+    const data: TokenPayload = {
+      sub: player.id,
+      username: player.username,
+      exp: Date.now() + this.tokenTtlMs,
+    };
+    const payload = Buffer.from(JSON.stringify(data)).toString('base64url');
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  private sign(payload: string): string {
+    return createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+
+  private static toPlayer(player: PlayerDB): Player {
+    return {
+      id: player.id,
+      username: player.username,
+      role: player.role,
+      createdAt: player.createdAt,
+    };
+  }
+}
+
+export const authService = new AuthService();
@@ -0,0 +1,428 @@
+import { MapRepository } from '../database/repositories/MapRepository';
+import { configService } from './ConfigService';
+import { auditService } from './AuditService';
+import { ConfigVersionService, configVersionService, diffEntities } from './ConfigVersionService';
+import {
+  AuthenticatedPlayer,
+  ConfigBundle,
+  ConfigImportConflict,
+  ConfigImportResult,
+  ConfigSnapshot,
+  EnemyDefinition,
+  GameSettings,
+  MapDefinition,
+  TowerDefinitionWithLevels,
+  TowerLevel,
+  WaveDefinition,
+} from '../types';
+import { MAIN_BRANCH, findLevelNode, getUpgradeTreeErrors } from '../simulation/upgradeTree';
+import { DEFAULT_ENDLESS_SETTINGS } from './WaveService';
+import { DEFAULT_SCORING_SETTINGS } from './StatisticsService';
+
+export const CONFIG_BUNDLE_FORMAT = 'chess-tdf-config';
+export const CONFIG_BUNDLE_FORMAT_VERSION = 1;
+
+// Field types of the bundle schema; a trailing '?' also allows null
+type FieldType = 'integer' | 'number' | 'string' | 'boolean' | 'object' | 'array' | 'string?';
+type Schema<T> = Record<keyof T & string, FieldType>;
+
+const TOWER_SCHEMA: Schema<TowerDefinitionWithLevels> = {
+  id: 'integer',
+  name: 'string',
+  color: 'string',
+  description: 'string',
+  maxLevel: 'integer',
+  attackPattern: 'string',
+  levels: 'array',
+};
+
+const LEVEL_SCHEMA: Schema<Omit<TowerLevel, 'id'>> = {
+  towerId: 'integer',
+  level: 'integer',
+  branch: 'string',
+  parentBranch: 'string',
+  cost: 'number',
+  damage: 'number',
+  range: 'number',
+  fireRate: 'number',
+  damageType: 'string',
+  projectileType: 'string',
+  splashRadius: 'number',
+  chainCount: 'integer',
+  chainRange: 'number',
+  pierceCount: 'integer',
+  effectType: 'string?',
+  effectStrength: 'number',
+  effectDuration: 'number',
+};
+
+const ENEMY_SCHEMA: Schema<EnemyDefinition> = {
+  id: 'integer',
+  name: 'string',
+  description: 'string',
+  health: 'number',
+  speed: 'number',
+  reward: 'number',
+  color: 'string',
+  size: 'number',
+  armor: 'number',
+  resistances: 'object',
+  abilities: 'object',
+};
+
+const WAVE_SCHEMA: Schema<WaveDefinition> = {
+  waveNumber: 'integer',
+  enemyId: 'integer',
+  count: 'integer',
+  spawnDelayMs: 'number',
+  difficultyLabel: 'string',
+};
+
+const SETTINGS_SCHEMA: Schema<Omit<GameSettings, 'createdAt' | 'updatedAt'>> = {
+  id: 'integer',
+  mode: 'string',
+  initialCoins: 'number',
+  initialLives: 'number',
+  enemyHealthWaveMultiplier: 'number',
+  enemyRewardWaveMultiplier: 'number',
+  endlessBudgetGrowth: 'number',
+  endlessBossInterval: 'integer',
+  endlessUnlockWaves: 'object',
+  scoreWavePoints: 'integer',
+  scoreLifePoints: 'integer',
+  scoreEfficiencyPoints: 'integer',
+  scoreTimePoints: 'integer',
+  scoreMultiplier: 'number',
+};
+
+const MAP_SCHEMA: Schema<Omit<MapDefinition, 'createdAt' | 'updatedAt'>> = {
+  id: 'integer',
+  name: 'string',
+  description: 'string',
+  waypoints: 'array',
+  blockedCells: 'array',
+  allowDiagonal: 'boolean',
+};
+
+const SETTINGS_MODES = ['easy', 'normal', 'hard', 'custom'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const matchesType = (value: unknown, type: FieldType): boolean => {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'string?':
+      return value === null || typeof value === 'string';
+    case 'object':
+      return isObject(value);
+    case 'array':
+      return Array.isArray(value);
+    default:
+      return typeof value === type;
+  }
+};
+
+// Check an entity against its schema, pushing one error per bad field
+const checkFields = (
+  value: unknown,
+  schema: Record<string, FieldType>,
+  path: string,
+  errors: string[]
+) => {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  for (const [field, type] of Object.entries(schema)) {
+    if (!matchesType(value[field], type)) {
+      const expected = type === 'string?' ? 'a string or null' : `of type ${type}`;
+      errors.push(`${path}.${field} must be ${expected}`);
+    }
+  }
+};
+
+// Keep only the schema's fields (drops database bookkeeping and unknown keys)
+const pick = <T extends object>(value: T, schema: Record<string, FieldType>): T =>
+  Object.fromEntries(Object.keys(schema).map((field) => [field, value[field as keyof T]])) as T;
+
+// Run a ConfigService validator, turning its error into a bundle error
+const runValidator = async (check: () => void | Promise<void>, path: string, errors: string[]) => {
+  try {
+    await check();
+  } catch (error) {
+    errors.push(`${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+// Entries for IDs that appear more than once in a list
+const checkUniqueIds = (items: { id?: number }[], path: string, errors: string[]) => {
+  const seen = new Set<number>();
+  for (const { id } of items) {
+    if (id === undefined) continue;
+    if (seen.has(id)) errors.push(`${path} has duplicate id ${id}`);
+    seen.add(id);
+  }
+};
+
+const CONFLICT_LABELS: Record<ConfigImportConflict['entityType'], string> = {
+  tower: 'Tower',
+  enemy: 'Enemy',
+  settings: 'Settings',
+  map: 'Map',
+};
+
+// Entities whose IDs exist on only one side (imports update in place, never create or delete)
+const findConflicts = (
+  entityType: ConfigImportConflict['entityType'],
+  current: { id?: number }[],
+  incoming: { id?: number }[]
+): ConfigImportConflict[] => {
+  const currentIds = new Set(current.map((entity) => entity.id));
+  const incomingIds = new Set(incoming.map((entity) => entity.id));
+  const label = CONFLICT_LABELS[entityType];
+
+  const conflicts: ConfigImportConflict[] = [];
+  for (const id of incomingIds) {
+    if (id !== undefined && !currentIds.has(id)) {
+      conflicts.push({ entityType, entityId: id, message: `${label} ${id} does not exist here` });
+    }
+  }
+  for (const id of currentIds) {
+    if (id !== undefined && !incomingIds.has(id)) {
+      conflicts.push({
+        entityType,
+        entityId: id,
+        message: `${label} ${id} is missing from the bundle`,
+      });
+    }
+  }
+  return conflicts;
+};
+
+/**
+ * ConfigBundleService
+ * Exports the config as a portable, versioned JSON bundle and imports
+ * bundles into the draft after validating them against the bundle schema
+ */
+export class ConfigBundleService {
+  private mapRepo: MapRepository;
+
+  constructor() {
+    this.mapRepo = new MapRepository();
+  }
+
+  /**
+   * Bundle the draft, or a published version if given (maps are not versioned,
+   * so they are always the current ones). Returns null if the version does not exist.
+   */
+  async exportBundle(versionId?: number): Promise<ConfigBundle | null> {
+    const version =
+      versionId !== undefined ? await configVersionService.getVersion(versionId) : null;
+    if (versionId !== undefined && !version) return null;
+
+    const [snapshot, maps] = await Promise.all([
+      version ? version.snapshot : configVersionService.getDraftSnapshot(),
+      this.mapRepo.getAllMaps(),
+    ]);
+
+    return {
+      format: CONFIG_BUNDLE_FORMAT,
+      formatVersion: CONFIG_BUNDLE_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      configVersionId: version?.id ?? null,
+      ...ConfigBundleService.normalize(snapshot),
+      maps: maps.map((map) => pick(map, MAP_SCHEMA)),
+    };
+  }
+
+  /**
+   * Check an uploaded bundle: its format header, every entity against the
+   * schema, then the same rules the config endpoints enforce.
+   * Returns the bundle (stripped to schema fields) or the list of problems.
+   */
+  async parseBundle(input: unknown): Promise<{ bundle: ConfigBundle | null; errors: string[] }> {
+    if (!isObject(input) || input['format'] !== CONFIG_BUNDLE_FORMAT) {
+      return { bundle: null, errors: [`format must be '${CONFIG_BUNDLE_FORMAT}'`] };
+    }
+    const formatVersion = input['formatVersion'];
+    if (!Number.isInteger(formatVersion) || (formatVersion as number) < 1) {
+      return { bundle: null, errors: ['formatVersion must be a positive integer'] };
+    }
+    if ((formatVersion as number) > CONFIG_BUNDLE_FORMAT_VERSION) {
+      return {
+        bundle: null,
+        errors: [
+          `formatVersion ${formatVersion} is newer than this server supports (${CONFIG_BUNDLE_FORMAT_VERSION})`,
+        ],
+      };
+    }
+
+    const errors: string[] = [];
+    const lists = ['towers', 'enemies', 'waves', 'settings', 'maps'] as const;
+    for (const list of lists) {
+      if (!Array.isArray(input[list])) errors.push(`${list} must be an array`);
+    }
+    if (errors.length > 0) return { bundle: null, errors };
+
+    const towers = input['towers'] as unknown[];
+    towers.forEach((tower, i) => {
+      checkFields(tower, TOWER_SCHEMA, `towers[${i}]`, errors);
+      if (isObject(tower) && Array.isArray(tower['levels'])) {
+        // Bundles exported before upgrade trees have no branch fields
+        const levels = tower['levels'].map((level: unknown) =>
+          isObject(level) ? { branch: MAIN_BRANCH, parentBranch: MAIN_BRANCH, ...level } : level
+        );
+        tower['levels'] = levels;
+        levels.forEach((level: unknown, j: number) =>
+          checkFields(level, LEVEL_SCHEMA, `towers[${i}].levels[${j}]`, errors)
+        );
+      }
+    });
+    (input['enemies'] as unknown[]).forEach((enemy, i) =>
+      checkFields(enemy, ENEMY_SCHEMA, `enemies[${i}]`, errors)
+    );
+    (input['waves'] as unknown[]).forEach((wave, i) =>
+      checkFields(wave, WAVE_SCHEMA, `waves[${i}]`, errors)
+    );
+    // Bundles exported before endless generation or scoring (and exports of versions
+    // published before them) have no endless or score fields
+    input['settings'] = (input['settings'] as unknown[]).map((settings) =>
+      isObject(settings)
+        ? { ...DEFAULT_ENDLESS_SETTINGS, ...DEFAULT_SCORING_SETTINGS, ...settings }
+        : settings
+    );
+    (input['settings'] as unknown[]).forEach((settings, i) =>
+      checkFields(settings, SETTINGS_SCHEMA, `settings[${i}]`, errors)
+    );
+    (input['maps'] as unknown[]).forEach((map, i) =>
+      checkFields(map, MAP_SCHEMA, `maps[${i}]`, errors)
+    );
+    if (errors.length > 0) return { bundle: null, errors };
+
+    const raw = input as unknown as ConfigBundle;
+    const bundle: ConfigBundle = {
+      format: CONFIG_BUNDLE_FORMAT,
+      formatVersion: raw.formatVersion,
+      exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+      configVersionId: Number.isInteger(raw.configVersionId) ? raw.configVersionId : null,
+      ...ConfigBundleService.normalize(raw),
+      maps: raw.maps.map((map) => pick(map, MAP_SCHEMA)),
+    };
+
+    await this.checkRules(bundle, errors);
+    return errors.length > 0 ? { bundle: null, errors } : { bundle, errors: [] };
+  }
+
+  /**
+   * Compare a bundle with the draft and, unless this is a dry run or there are
+   * conflicts, overwrite the draft with it. Imported changes are audited but
+   * not published; publish a version to let new games play them.
+   */
+  async importBundle(
+    actor: AuthenticatedPlayer,
+    bundle: ConfigBundle,
+    dryRun: boolean
+  ): Promise<ConfigImportResult> {
+    const [draft, maps] = await Promise.all([
+      configVersionService.getDraftSnapshot(),
+      this.mapRepo.getAllMaps(),
+    ]);
+
+    const conflicts = [
+      ...findConflicts('tower', draft.towers, bundle.towers),
+      ...findConflicts('enemy', draft.enemies, bundle.enemies),
+      ...findConflicts('settings', draft.settings, bundle.settings),
+      ...findConflicts('map', maps, bundle.maps),
+    ];
+    const changes = [
+      ...ConfigVersionService.diffSnapshots(draft, bundle),
+      ...diffEntities('map', maps, bundle.maps, (m) => m.id),
+    ];
+
+    if (dryRun || conflicts.length > 0 || changes.length === 0) {
+      return { dryRun, applied: false, changes, conflicts };
+    }
+
+    await configVersionService.restoreDraft(bundle);
+    for (const map of bundle.maps) {
+      await this.mapRepo.updateMap(map.id, map);
+    }
+    await auditService.recordChanges(actor, changes);
+
+    return { dryRun, applied: true, changes, conflicts };
+  }
+
+  // Cross-entity rules and the config endpoints' own validators
+  private async checkRules(bundle: ConfigBundle, errors: string[]): Promise<void> {
+    checkUniqueIds(bundle.towers, 'towers', errors);
+    checkUniqueIds(bundle.enemies, 'enemies', errors);
+    checkUniqueIds(bundle.settings, 'settings', errors);
+    checkUniqueIds(bundle.maps, 'maps', errors);
+
+    for (const [i, tower] of bundle.towers.entries()) {
+      const path = `towers[${i}]`;
+      await runValidator(() => configService.validateTowerDefinition(tower), path, errors);
+
+      if (!findLevelNode(tower.levels, 1, MAIN_BRANCH)) errors.push(`${path} must have level 1`);
+      for (const error of getUpgradeTreeErrors(tower.levels)) errors.push(`${path}: ${error}`);
+
+      for (const [j, level] of tower.levels.entries()) {
+        if (level.towerId !== tower.id) {
+          errors.push(`${path}.levels[${j}].towerId must be ${tower.id}`);
+        }
+        await runValidator(
+          () => configService.validateTowerLevel(level),
+          `${path}.levels[${j}]`,
+          errors
+        );
+      }
+    }
+
+    for (const [i, enemy] of bundle.enemies.entries()) {
+      await runValidator(
+        () => configService.validateEnemy(enemy.id, enemy),
+        `enemies[${i}]`,
+        errors
+      );
+    }
+
+    const enemyIds = new Set(bundle.enemies.map((enemy) => enemy.id));
+    for (const [i, wave] of bundle.waves.entries()) {
+      if (wave.waveNumber < 1) errors.push(`waves[${i}].waveNumber must be at least 1`);
+      if (wave.count < 1) errors.push(`waves[${i}].count must be at least 1`);
+      if (!enemyIds.has(wave.enemyId)) {
+        errors.push(`waves[${i}].enemyId ${wave.enemyId} is not an enemy in the bundle`);
+      }
+    }
+
+    for (const [i, settings] of bundle.settings.entries()) {
+      if (!SETTINGS_MODES.includes(settings.mode)) {
+        errors.push(`settings[${i}].mode must be one of: ${SETTINGS_MODES.join(', ')}`);
+      }
+      await runValidator(() => configService.validateSettings(settings), `settings[${i}]`, errors);
+    }
+
+    for (const [i, map] of bundle.maps.entries()) {
+      await runValidator(() => configService.validateMap(map), `maps[${i}]`, errors);
+    }
+  }
+
+  // The snapshot part of a bundle, stripped to schema fields
+  private static normalize(snapshot: ConfigSnapshot): ConfigSnapshot {
+    return {
+      towers: snapshot.towers.map((tower) => ({
+        ...pick(tower, TOWER_SCHEMA),
+        levels: tower.levels.map((level) => pick(level, LEVEL_SCHEMA)),
+      })),
+      enemies: snapshot.enemies.map((enemy) => pick(enemy, ENEMY_SCHEMA)),
+      waves: snapshot.waves.map((wave) => pick(wave, WAVE_SCHEMA)),
+      settings: snapshot.settings.map((settings) => pick(settings, SETTINGS_SCHEMA)),
+    };
+  }
+}
+
+export const configBundleService = new ConfigBundleService();
@@ -1,33 +1,56 @@
 import { TowerRepository } from '../database/repositories/TowerRepository';
 import { EnemyRepository } from '../database/repositories/EnemyRepository';
 import { SettingsRepository } from '../database/repositories/SettingsRepository';
+import { MapRepository } from '../database/repositories/MapRepository';
+import { GRID_COLS, GRID_ROWS } from '../config/board';
+import { ATTACK_PATTERNS, isAttackPattern } from '../simulation/attackPatterns';
+import { DAMAGE_TYPES, isDamageType } from '../simulation/damage';
+import { PROJECTILE_TYPES, isProjectileType } from '../simulation/projectiles';
+import { MAX_SLOW, STATUS_EFFECT_TYPES, isStatusEffectType } from '../simulation/statusEffects';
+import {
+  MAIN_BRANCH,
+  MAX_BRANCH_LENGTH,
+  describeNode,
+  findLevelNode,
+  getUpgradeOptions,
+} from '../simulation/upgradeTree';
+import { DEFAULT_ENDLESS_SETTINGS } from './WaveService';
+import { DEFAULT_SCORING_SETTINGS } from './StatisticsService';
 import {
   TowerDefinition,
   TowerLevel,
   TowerDefinitionWithLevels,
   EnemyDefinition,
+  EnemyAbilities,
   GameSettings,
   SettingsMode,
+  MapDefinition,
 } from '../types';
 
 /**
  * ConfigService
- * Manages all game configuration: tower definitions, enemy definitions, tower levels, and game settings
+ * Manages all game configuration: tower definitions, enemy definitions, tower levels, game settings, and maps
  * Merged from DefinitionsService + SettingsService
  */
 export class ConfigService {
   private towerRepo: TowerRepository;
   private enemyRepo: EnemyRepository;
   private settingsRepo: SettingsRepository;
+  private mapRepo: MapRepository;
 
   constructor() {
     this.towerRepo = new TowerRepository();
     this.enemyRepo = new EnemyRepository();
     this.settingsRepo = new SettingsRepository();
+    this.mapRepo = new MapRepository();
   }
 
   // ==================== Tower Definitions ====================
 
+  async getAllTowerDefinitions(): Promise<TowerDefinition[]> {
+    return await this.towerRepo.getAllTowerDefinitions();
+  }
+
   // Get tower definitions with all levels
   // If id provided: return single tower, otherwise return all
   async getTowerDefinitionsWithLevels(id?: number): Promise<TowerDefinitionWithLevels[]> {
@@ -47,11 +70,9 @@ export class ConfigService {
     });
   }
 
-  // Update tower definition metadata (name, description, color, maxLevel)
+  // Update tower definition metadata (name, description, color, maxLevel, attackPattern)
   async updateTowerDefinition(id: number, updates: Partial<TowerDefinition>): Promise<boolean> {
-    if (updates.maxLevel !== undefined && (updates.maxLevel < 1 || updates.maxLevel > 10)) {
-      throw new Error('Max level must be between 1 and 10');
-    }
+    this.validateTowerDefinition(updates);
 
     const success = await this.towerRepo.updateTowerDefinition(id, updates);
 
@@ -63,62 +84,148 @@ export class ConfigService {
     return success;
   }
 
+  // Validators throw on the first invalid field; config imports also run them
+  validateTowerDefinition(tower: Partial<TowerDefinition>): void {
+    if (tower.maxLevel !== undefined && (tower.maxLevel < 1 || tower.maxLevel > 10)) {
+      throw new Error('Max level must be between 1 and 10');
+    }
+    if (tower.attackPattern !== undefined && !isAttackPattern(tower.attackPattern)) {
+      throw new Error(`Attack pattern must be one of: ${ATTACK_PATTERNS.join(', ')}`);
+    }
+  }
+
   // Ensure all tower levels from 1 to maxLevel exist, creating missing ones with default values
   private async ensureTowerLevelsExist(towerId: number, maxLevel: number): Promise<void> {
-    const existingLevels = await this.towerRepo.getTowerLevels(towerId);
-    const existingLevelNumbers = new Set(existingLevels.map((l) => l.level));
+    const levels = await this.towerRepo.getTowerLevels(towerId);
 
     // Get level 1 as base for calculating defaults
-    const baseLevel = existingLevels.find((l) => l.level === 1);
+    const baseLevel = findLevelNode(levels, 1, MAIN_BRANCH);
     if (!baseLevel) {
       throw new Error(`Tower ${towerId} must have at least level 1 defined`);
     }
 
-    // Create missing levels with progressive stats based on level 1
-    for (let level = 1; level <= maxLevel; level++) {
-      if (!existingLevelNumbers.has(level)) {
+    // Extend every branch of the upgrade tree up to maxLevel,
+    // creating missing levels with progressive stats based on level 1
+    for (let level = 2; level <= maxLevel; level++) {
+      const parents = levels.filter((l) => l.level === level - 1);
+      for (const parent of parents) {
+        if (getUpgradeOptions(levels, parent.level, parent.branch).length > 0) continue;
+
         // Calculate stats that scale with level
         const scaleFactor = level;
         const newLevel: TowerLevel = {
           towerId,
           level,
+          branch: parent.branch,
+          parentBranch: parent.branch,
           cost: Math.round(baseLevel.cost * scaleFactor * 1.5),
           damage: Math.round(baseLevel.damage * scaleFactor * 1.2),
           range: Math.round(baseLevel.range + (level - 1) * 10),
           fireRate: parseFloat((baseLevel.fireRate * (1 + (level - 1) * 0.1)).toFixed(2)),
+          damageType: baseLevel.damageType,
+          projectileType: baseLevel.projectileType,
+          splashRadius: baseLevel.splashRadius,
+          chainCount: baseLevel.chainCount,
+          chainRange: baseLevel.chainRange,
+          pierceCount: baseLevel.pierceCount,
+          effectType: baseLevel.effectType,
+          effectStrength: baseLevel.effectStrength,
+          effectDuration: baseLevel.effectDuration,
         };
         await this.towerRepo.upsertTowerLevel(newLevel);
+        levels.push(newLevel);
       }
     }
   }
 
   // ==================== Tower Levels CRUD ====================
 
-  // Get tower level(s) - if level provided: return single, otherwise return all for tower ID
-  async getTowerLevel(towerId: number, level: number): Promise<TowerLevel | null>;
+  // Get tower level(s) - if level provided: return single (main branch unless given),
+  // otherwise return all for tower ID
+  async getTowerLevel(towerId: number, level: number, branch?: string): Promise<TowerLevel | null>;
   async getTowerLevel(towerId: number): Promise<TowerLevel[]>;
-  async getTowerLevel(towerId: number, level?: number): Promise<TowerLevel | TowerLevel[] | null> {
+  async getTowerLevel(
+    towerId: number,
+    level?: number,
+    branch?: string
+  ): Promise<TowerLevel | TowerLevel[] | null> {
     if (level !== undefined) {
-      return await this.towerRepo.getTowerLevel(towerId, level);
+      return await this.towerRepo.getTowerLevel(towerId, level, branch);
     }
     return await this.towerRepo.getTowerLevels(towerId);
   }
 
+  // Levels above 1 must hang off an existing node of the upgrade tree
   async upsertTowerLevel(towerLevel: TowerLevel): Promise<boolean> {
     this.validateTowerLevel(towerLevel);
+    if (towerLevel.level > 1) {
+      const levels = await this.towerRepo.getTowerLevels(towerLevel.towerId);
+      if (!findLevelNode(levels, towerLevel.level - 1, towerLevel.parentBranch)) {
+        const parent = { level: towerLevel.level - 1, branch: towerLevel.parentBranch };
+        throw new Error(`Level ${describeNode(parent)} to upgrade from does not exist`);
+      }
+    }
     return await this.towerRepo.upsertTowerLevel(towerLevel);
   }
 
-  async deleteTowerLevel(towerId: number, level: number): Promise<boolean> {
-    return await this.towerRepo.deleteTowerLevel(towerId, level);
+  // Only leaves of the upgrade tree can be deleted, so no level loses the one it upgrades from
+  async deleteTowerLevel(towerId: number, level: number, branch = MAIN_BRANCH): Promise<boolean> {
+    const children = getUpgradeOptions(await this.towerRepo.getTowerLevels(towerId), level, branch);
+    if (children.length > 0) {
+      const names = children.map(describeNode).join(', ');
+      throw new Error(
+        `Level ${describeNode({ level, branch })} upgrades into ${names}; delete those first`
+      );
+    }
+    return await this.towerRepo.deleteTowerLevel(towerId, level, branch);
   }
 
-  private validateTowerLevel(level: TowerLevel): void {
+  validateTowerLevel(level: TowerLevel): void {
     if (level.level < 1) throw new Error('Level must be at least 1');
+    for (const field of ['branch', 'parentBranch'] as const) {
+      if (typeof level[field] !== 'string' || level[field].length > MAX_BRANCH_LENGTH) {
+        throw new Error(`${field} must be a string of at most ${MAX_BRANCH_LENGTH} characters`);
+      }
+    }
+    if (level.level === 1 && level.branch !== MAIN_BRANCH) {
+      throw new Error('Level 1 must be on the main branch');
+    }
     if (level.cost < 1) throw new Error('Cost must be at least 1');
     if (level.damage < 1) throw new Error('Damage must be at least 1');
     if (level.range < 1) throw new Error('Range must be at least 1');
     if (level.fireRate <= 0) throw new Error('Fire rate must be greater than 0');
+    if (!isDamageType(level.damageType)) {
+      throw new Error(`Damage type must be one of: ${DAMAGE_TYPES.join(', ')}`);
+    }
+    if (!isProjectileType(level.projectileType)) {
+      throw new Error(`Projectile type must be one of: ${PROJECTILE_TYPES.join(', ')}`);
+    }
+    for (const field of ['splashRadius', 'chainCount', 'chainRange', 'pierceCount'] as const) {
+      if (!Number.isInteger(level[field]) || level[field] < 0) {
+        throw new Error(`${field} must be a non-negative integer`);
+      }
+    }
+    if (level.projectileType === 'splash' && level.splashRadius < 1) {
+      throw new Error('Splash projectiles need a splash radius of at least 1');
+    }
+    if (level.projectileType === 'chain' && (level.chainCount < 1 || level.chainRange < 1)) {
+      throw new Error('Chain projectiles need a chain count and chain range of at least 1');
+    }
+    if (level.projectileType === 'pierce' && level.pierceCount < 1) {
+      throw new Error('Pierce projectiles need a pierce count of at least 1');
+    }
+    if (level.effectType !== null) {
+      if (!isStatusEffectType(level.effectType)) {
+        throw new Error(`Effect type must be one of: ${STATUS_EFFECT_TYPES.join(', ')}`);
+      }
+      if (!Number.isInteger(level.effectDuration) || level.effectDuration < 1) {
+        throw new Error('Effect duration must be a positive integer (ms)');
+      }
+      if (level.effectStrength < 0) throw new Error('Effect strength cannot be negative');
+      if (level.effectType === 'slow' && level.effectStrength > MAX_SLOW) {
+        throw new Error(`Slow strength must be at most ${MAX_SLOW}`);
+      }
+    }
   }
 
   // ==================== Enemy Definitions ====================
@@ -132,20 +239,83 @@ export class ConfigService {
   }
 
   async updateEnemyDefinition(id: number, updates: Partial<EnemyDefinition>): Promise<boolean> {
-    if (updates.health !== undefined && updates.health < 1) {
+    await this.validateEnemy(id, updates);
+    return await this.enemyRepo.updateEnemyDefinition(id, updates);
+  }
+
+  async validateEnemy(id: number, enemy: Partial<EnemyDefinition>): Promise<void> {
+    if (enemy.health !== undefined && enemy.health < 1) {
       throw new Error('Enemy health must be at least 1');
     }
-    if (updates.speed !== undefined && updates.speed < 1) {
+    if (enemy.speed !== undefined && enemy.speed < 1) {
       throw new Error('Enemy speed must be at least 1');
     }
-    if (updates.reward !== undefined && updates.reward < 0) {
+    if (enemy.reward !== undefined && enemy.reward < 0) {
       throw new Error('Enemy reward cannot be negative');
     }
-    if (updates.size !== undefined && updates.size < 1) {
+    if (enemy.size !== undefined && enemy.size < 1) {
       throw new Error('Enemy size must be at least 1');
     }
+    if (enemy.armor !== undefined && (!Number.isInteger(enemy.armor) || enemy.armor < 0)) {
+      throw new Error('Enemy armor must be a non-negative integer');
+    }
+    if (enemy.resistances !== undefined) {
+      this.validateResistances(enemy.resistances);
+    }
+    if (enemy.abilities !== undefined) {
+      await this.validateAbilities(id, enemy.abilities);
+    }
+  }
 
-    return await this.enemyRepo.updateEnemyDefinition(id, updates);
+  private validateResistances(resistances: unknown): void {
+    if (!resistances || typeof resistances !== 'object' || Array.isArray(resistances)) {
+      throw new Error('Resistances must be an object keyed by damage type');
+    }
+    for (const [type, value] of Object.entries(resistances)) {
+      if (!isDamageType(type)) {
+        throw new Error(`Unknown damage type in resistances: ${type}`);
+      }
+      if (typeof value !== 'number' || value < -1 || value > 1) {
+        throw new Error(`Resistance for ${type} must be between -1 and 1`);
+      }
+    }
+  }
+
+  private async validateAbilities(id: number, abilities: unknown): Promise<void> {
+    if (!abilities || typeof abilities !== 'object' || Array.isArray(abilities)) {
+      throw new Error('Abilities must be an object');
+    }
+    const { jump, diagonal, promote, aura } = abilities as EnemyAbilities;
+    const isPositive = (value: unknown) => typeof value === 'number' && value > 0;
+
+    if (jump !== undefined && (!isPositive(jump?.distance) || !isPositive(jump?.intervalMs))) {
+      throw new Error('Jump ability needs a positive distance and intervalMs');
+    }
+    if (diagonal !== undefined && typeof diagonal !== 'boolean') {
+      throw new Error('Diagonal ability must be true or false');
+    }
+    if (promote !== undefined) {
+      if (!isPositive(promote?.atProgress) || promote.atProgress > 1) {
+        throw new Error('Promote atProgress must be between 0 and 1');
+      }
+      if (
+        promote.toEnemyId === id ||
+        !(await this.enemyRepo.getEnemyDefinition(promote.toEnemyId))
+      ) {
+        throw new Error('Promote toEnemyId must be another existing enemy');
+      }
+    }
+    if (aura !== undefined) {
+      if (!isPositive(aura?.radius)) {
+        throw new Error('Aura radius must be positive');
+      }
+      if (typeof aura.speedBonus !== 'number' || aura.speedBonus < 0) {
+        throw new Error('Aura speedBonus cannot be negative');
+      }
+      if (!Number.isInteger(aura.armorBonus) || aura.armorBonus < 0) {
+        throw new Error('Aura armorBonus must be a non-negative integer');
+      }
+    }
   }
 
   // ==================== Game Settings ====================
@@ -166,7 +336,11 @@ export class ConfigService {
     settings: Omit<GameSettings, 'id' | 'createdAt' | 'updatedAt'>
   ): Promise<GameSettings> {
     this.validateSettings(settings);
-    return await this.settingsRepo.createSettings(settings);
+    return await this.settingsRepo.createSettings({
+      ...DEFAULT_ENDLESS_SETTINGS,
+      ...DEFAULT_SCORING_SETTINGS,
+      ...settings,
+    });
   }
 
   async updateSettings(id: number, updates: Partial<GameSettings>): Promise<boolean> {
@@ -178,7 +352,7 @@ export class ConfigService {
     return await this.getSettingsByMode('normal');
   }
 
-  private validateSettings(settings: Partial<GameSettings>): void {
+  validateSettings(settings: Partial<GameSettings>): void {
     const waveMultipliers = [
       { name: 'enemyHealthWaveMultiplier', value: settings.enemyHealthWaveMultiplier },
       { name: 'enemyRewardWaveMultiplier', value: settings.enemyRewardWaveMultiplier },
@@ -203,6 +377,134 @@ export class ConfigService {
     ) {
       throw new Error(`initialLives must be between 1 and 50, got ${settings.initialLives}`);
     }
+
+    if (
+      settings.endlessBudgetGrowth !== undefined &&
+      (settings.endlessBudgetGrowth < 0 || settings.endlessBudgetGrowth > 1.0)
+    ) {
+      throw new Error(
+        `endlessBudgetGrowth must be between 0 and 1.0, got ${settings.endlessBudgetGrowth}`
+      );
+    }
+
+    if (
+      settings.endlessBossInterval !== undefined &&
+      (!Number.isInteger(settings.endlessBossInterval) || settings.endlessBossInterval < 0)
+    ) {
+      throw new Error(
+        `endlessBossInterval must be a whole number of waves (0 for none), got ${settings.endlessBossInterval}`
+      );
+    }
+
+    if (settings.endlessUnlockWaves !== undefined) {
+      const unlockWaves: unknown = settings.endlessUnlockWaves;
+      if (typeof unlockWaves !== 'object' || unlockWaves === null || Array.isArray(unlockWaves)) {
+        throw new Error('endlessUnlockWaves must map enemy IDs to wave numbers');
+      }
+      for (const [enemyId, wave] of Object.entries(unlockWaves)) {
+        if (!Number.isInteger(Number(enemyId)) || !Number.isInteger(wave) || (wave as number) < 1) {
+          throw new Error(`endlessUnlockWaves[${enemyId}] must be a wave number of at least 1`);
+        }
+      }
+    }
+
+    const scorePoints = [
+      { name: 'scoreWavePoints', value: settings.scoreWavePoints },
+      { name: 'scoreLifePoints', value: settings.scoreLifePoints },
+      { name: 'scoreEfficiencyPoints', value: settings.scoreEfficiencyPoints },
+      { name: 'scoreTimePoints', value: settings.scoreTimePoints },
+    ];
+
+    for (const { name, value } of scorePoints) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 0 || value > 10000)) {
+        throw new Error(`${name} must be a whole number between 0 and 10000, got ${value}`);
+      }
+    }
+
+    if (
+      settings.scoreMultiplier !== undefined &&
+      (settings.scoreMultiplier < 0.1 || settings.scoreMultiplier > 10)
+    ) {
+      throw new Error(
+        `scoreMultiplier must be between 0.1 and 10, got ${settings.scoreMultiplier}`
+      );
+    }
+  }
+
+  // ==================== Maps ====================
+
+  async getAllMaps(): Promise<MapDefinition[]> {
+    return await this.mapRepo.getAllMaps();
+  }
+
+  async getMap(id: number): Promise<MapDefinition | null> {
+    return await this.mapRepo.getMap(id);
+  }
+
+  async getDefaultMap(): Promise<MapDefinition | null> {
+    return await this.mapRepo.getDefaultMap();
+  }
+
+  async createMap(
+    map: Omit<MapDefinition, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<MapDefinition> {
+    this.validateMap(map);
+    return await this.mapRepo.createMap(map);
+  }
+
+  async updateMap(id: number, updates: Partial<MapDefinition>): Promise<boolean> {
+    this.validateMap(updates);
+    return await this.mapRepo.updateMap(id, updates);
+  }
+
+  async deleteMap(id: number): Promise<boolean> {
+    const map = await this.mapRepo.getMap(id);
+    if (!map) return false;
+    if ((await this.mapRepo.countMaps()) <= 1) {
+      throw new Error('Cannot delete the last remaining map');
+    }
+    return await this.mapRepo.deleteMap(id);
+  }
+
+  validateMap(map: Partial<MapDefinition>): void {
+    if (map.name !== undefined && map.name.trim().length === 0) {
+      throw new Error('Map name cannot be empty');
+    }
+
+    if (map.waypoints !== undefined) {
+      if (!Array.isArray(map.waypoints) || map.waypoints.length < 2) {
+        throw new Error('Map must have at least 2 waypoints');
+      }
+      for (const point of map.waypoints) {
+        if (!Number.isFinite(point?.x) || !Number.isFinite(point?.y)) {
+          throw new Error('Waypoints must have numeric x and y');
+        }
+      }
+    }
+
+    if (map.allowDiagonal !== undefined && typeof map.allowDiagonal !== 'boolean') {
+      throw new Error('allowDiagonal must be true or false');
+    }
+
+    if (map.blockedCells !== undefined) {
+      if (!Array.isArray(map.blockedCells)) {
+        throw new Error('blockedCells must be an array');
+      }
+      for (const cell of map.blockedCells) {
+        if (
+          !Number.isInteger(cell?.gridX) ||
+          !Number.isInteger(cell?.gridY) ||
+          cell.gridX < 0 ||
+          cell.gridX >= GRID_COLS ||
+          cell.gridY < 0 ||
+          cell.gridY >= GRID_ROWS
+        ) {
+          throw new Error(
+            `Blocked cells must be inside the ${GRID_COLS}x${GRID_ROWS} grid, got ${JSON.stringify(cell)}`
+          );
+        }
+      }
+    }
   }
 }
 
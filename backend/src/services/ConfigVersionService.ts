@@ -0,0 +1,244 @@
+import { ConfigVersionRepository } from '../database/repositories/ConfigVersionRepository';
+import { TowerRepository } from '../database/repositories/TowerRepository';
+import { EnemyRepository } from '../database/repositories/EnemyRepository';
+import { SettingsRepository } from '../database/repositories/SettingsRepository';
+import { waveRepository } from '../database/repositories/WaveRepository';
+import { transaction } from '../database/db';
+import { AuditService } from './AuditService';
+import {
+  AuthenticatedPlayer,
+  ConfigSnapshot,
+  ConfigVersion,
+  ConfigVersionChange,
+  ConfigVersionDiff,
+  ConfigVersionRef,
+  ConfigVersionSummary,
+  WaveDefinition,
+} from '../types';
+import { levelKey } from '../simulation/upgradeTree';
+
+// One entry per wave number so a wave's enemy list diffs as a single field
+const groupWaves = (waves: WaveDefinition[]) => {
+  const grouped = new Map<number, Omit<WaveDefinition, 'waveNumber'>[]>();
+  for (const { waveNumber, ...enemy } of waves) {
+    grouped.set(waveNumber, [...(grouped.get(waveNumber) ?? []), enemy]);
+  }
+  return [...grouped].map(([waveNumber, enemies]) => ({ waveNumber, enemies }));
+};
+
+// Field changes of every entity (matched by key) between two lists
+export const diffEntities = <T extends object>(
+  entityType: ConfigVersionChange['entityType'],
+  before: T[],
+  after: T[],
+  key: (entity: T) => string | number
+): ConfigVersionChange[] => {
+  const oldByKey = new Map(before.map((entity) => [String(key(entity)), entity]));
+  const newByKey = new Map(after.map((entity) => [String(key(entity)), entity]));
+  const keys = new Set([...oldByKey.keys(), ...newByKey.keys()]);
+
+  const changes: ConfigVersionChange[] = [];
+  for (const entityId of keys) {
+    const fieldChanges = AuditService.diff(
+      oldByKey.get(entityId) ?? null,
+      newByKey.get(entityId) ?? null
+    );
+    for (const change of fieldChanges) {
+      changes.push({ entityType, entityId, ...change });
+    }
+  }
+  return changes;
+};
+
+/**
+ * ConfigVersionService
+ * Publishes the draft config (the live tables) as immutable versions,
+ * diffs versions and rolls the draft back to an earlier version
+ */
+export class ConfigVersionService {
+  private versionRepo: ConfigVersionRepository;
+  private towerRepo: TowerRepository;
+  private enemyRepo: EnemyRepository;
+  private settingsRepo: SettingsRepository;
+
+  constructor() {
+    this.versionRepo = new ConfigVersionRepository();
+    this.towerRepo = new TowerRepository();
+    this.enemyRepo = new EnemyRepository();
+    this.settingsRepo = new SettingsRepository();
+  }
+
+  async getVersions(): Promise<ConfigVersionSummary[]> {
+    return await this.versionRepo.getVersions();
+  }
+
+  async getVersion(id: number): Promise<ConfigVersion | null> {
+    return await this.versionRepo.getVersion(id);
+  }
+
+  // The version new games are pinned to (null until the first publish)
+  async getCurrentVersion(): Promise<ConfigVersion | null> {
+    return await this.versionRepo.getLatestVersion();
+  }
+
+  // Read the draft: the config tables as designers left them
+  async getDraftSnapshot(): Promise<ConfigSnapshot> {
+    const [towers, levels, enemies, waves, settings] = await Promise.all([
+      this.towerRepo.getAllTowerDefinitions(),
+      this.towerRepo.getAllTowerLevels(),
+      this.enemyRepo.getAllEnemyDefinitions(),
+      waveRepository.getAll(),
+      this.settingsRepo.getAllSettings(),
+    ]);
+
+    return {
+      towers: towers.map((tower) => ({
+        ...tower,
+        levels: levels.filter((l) => l.towerId === tower.id),
+      })),
+      enemies,
+      waves: waves.map(({ waveNumber, enemyId, count, spawnDelayMs, difficultyLabel }) => ({
+        waveNumber,
+        enemyId,
+        count,
+        spawnDelayMs,
+        difficultyLabel,
+      })),
+      settings,
+    };
+  }
+
+  /**
+   * The config a game plays with: its pinned version, or the draft for games
+   * started before anything was published
+   */
+  async getSnapshot(versionId: number | null): Promise<ConfigSnapshot> {
+    const version = versionId !== null ? await this.versionRepo.getVersion(versionId) : null;
+    return version?.snapshot ?? (await this.getDraftSnapshot());
+  }
+
+  /**
+   * Freeze the draft into a new version that new games will play
+   */
+  async publish(actor: AuthenticatedPlayer, notes = ''): Promise<ConfigVersion> {
+    const [snapshot, current] = await Promise.all([
+      this.getDraftSnapshot(),
+      this.versionRepo.getLatestVersion(),
+    ]);
+    if (current && ConfigVersionService.diffSnapshots(current.snapshot, snapshot).length === 0) {
+      throw new Error(`Draft has no changes since version ${current.id}`);
+    }
+
+    return await this.versionRepo.createVersion({
+      snapshot,
+      notes,
+      rolledBackFrom: null,
+      playerId: actor.id,
+      username: actor.username,
+    });
+  }
+
+  /**
+   * Restore the draft to an earlier version and publish it again as a new version,
+   * so the history stays append-only. Returns null if the version does not exist.
+   */
+  async rollback(actor: AuthenticatedPlayer, versionId: number): Promise<ConfigVersion | null> {
+    const target = await this.versionRepo.getVersion(versionId);
+    if (!target) return null;
+
+    await this.restoreDraft(target.snapshot);
+
+    return await this.versionRepo.createVersion({
+      snapshot: await this.getDraftSnapshot(),
+      notes: `Rollback to version ${versionId}`,
+      rolledBackFrom: versionId,
+      playerId: actor.id,
+      username: actor.username,
+    });
+  }
+
+  /**
+   * Field-level changes from one version (or the draft) to another.
+   * Returns null if either version does not exist.
+   */
+  async diff(from: ConfigVersionRef, to: ConfigVersionRef): Promise<ConfigVersionDiff | null> {
+    const [before, after] = await Promise.all([this.resolve(from), this.resolve(to)]);
+    if (!before || !after) return null;
+    return { from, to, changes: ConfigVersionService.diffSnapshots(before, after) };
+  }
+
+  private async resolve(ref: ConfigVersionRef): Promise<ConfigSnapshot | null> {
+    if (ref === 'draft') return await this.getDraftSnapshot();
+    return (await this.versionRepo.getVersion(ref))?.snapshot ?? null;
+  }
+
+  // Overwrite the config tables with a snapshot (towers and enemies are never deleted),
+  // all at once or not at all
+  async restoreDraft(snapshot: ConfigSnapshot): Promise<void> {
+    await transaction(async () => {
+      const snapshotLevels = snapshot.towers.flatMap((tower) => tower.levels);
+      const keptLevels = new Set(snapshotLevels.map(levelKey));
+      for (const level of await this.towerRepo.getAllTowerLevels()) {
+        if (!keptLevels.has(levelKey(level))) {
+          await this.towerRepo.deleteTowerLevel(level.towerId, level.level, level.branch);
+        }
+      }
+      for (const { levels: _levels, ...tower } of snapshot.towers) {
+        await this.towerRepo.updateTowerDefinition(tower.id, tower);
+      }
+      for (const level of snapshotLevels) {
+        await this.towerRepo.upsertTowerLevel(level);
+      }
+
+      for (const enemy of snapshot.enemies) {
+        await this.enemyRepo.updateEnemyDefinition(enemy.id, enemy);
+      }
+
+      for (const settings of snapshot.settings) {
+        if (settings.id !== undefined) {
+          await this.settingsRepo.updateSettings(settings.id, settings);
+        }
+      }
+
+      const waves = groupWaves(snapshot.waves);
+      const keptWaves = new Set(waves.map((wave) => wave.waveNumber));
+      for (const { waveNumber } of await waveRepository.getAll()) {
+        if (!keptWaves.has(waveNumber)) {
+          await waveRepository.deleteWave(waveNumber);
+        }
+      }
+      for (const wave of waves) {
+        await waveRepository.replaceWave(wave.waveNumber, wave.enemies);
+      }
+    });
+  }
+
+  /**
+   * Every changed field between two snapshots, per tower, tower level, enemy,
+   * wave and settings row
+   */
+  static diffSnapshots(before: ConfigSnapshot, after: ConfigSnapshot): ConfigVersionChange[] {
+    const withoutLevels = (snapshot: ConfigSnapshot) =>
+      snapshot.towers.map(({ levels: _levels, ...tower }) => tower);
+
+    return [
+      ...diffEntities('tower', withoutLevels(before), withoutLevels(after), (t) => t.id),
+      ...diffEntities(
+        'tower_level',
+        before.towers.flatMap((t) => t.levels),
+        after.towers.flatMap((t) => t.levels),
+        levelKey
+      ),
+      ...diffEntities('enemy', before.enemies, after.enemies, (e) => e.id),
+      ...diffEntities(
+        'wave',
+        groupWaves(before.waves),
+        groupWaves(after.waves),
+        (w) => w.waveNumber
+      ),
+      ...diffEntities('settings', before.settings, after.settings, (s) => s.id ?? s.mode),
+    ];
+  }
+}
+
+export const configVersionService = new ConfigVersionService();
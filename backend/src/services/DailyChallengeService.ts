@@ -0,0 +1,151 @@
+import {
+  DailyChallenge,
+  DailyLeaderboardResponse,
+  DailyModifier,
+  DailyModifierId,
+  GameSettings,
+  SettingsMode,
+} from '../types';
+import { GameSessionRepository } from '../database/repositories/GameSessionRepository';
+import { StatisticsRepository } from '../database/repositories/StatisticsRepository';
+import { ConfigVersionService } from './ConfigVersionService';
+import { createRng, hashSeed, shuffle } from '../simulation/random';
+
+// Daily challenges are always played on this difficulty and the default map
+export const DAILY_DIFFICULTY: SettingsMode = 'normal';
+const DAILY_MODIFIER_COUNT = 2;
+const DAILY_LOADOUT_SIZE = 4;
+
+interface ModifierDefinition extends DailyModifier {
+  apply: (settings: GameSettings) => GameSettings;
+}
+
+// Each modifier changes the settings a daily game plays with.
+// Sessions store modifier IDs, so keep IDs stable once they have been played.
+const DAILY_MODIFIERS: ModifierDefinition[] = [
+  {
+    id: 'wealthy',
+    name: 'Wealthy',
+    description: 'Start with 50% more coins',
+    apply: (s) => ({ ...s, initialCoins: Math.round(s.initialCoins * 1.5) }),
+  },
+  {
+    id: 'fragile',
+    name: 'Fragile',
+    description: 'Start with half the lives',
+    apply: (s) => ({ ...s, initialLives: Math.ceil(s.initialLives / 2) }),
+  },
+  {
+    id: 'armored',
+    name: 'Armored',
+    description: 'Enemy health grows 50% faster each wave',
+    apply: (s) => ({ ...s, enemyHealthWaveMultiplier: s.enemyHealthWaveMultiplier * 1.5 }),
+  },
+  {
+    id: 'bounty',
+    name: 'Bounty',
+    description: 'Enemy rewards grow twice as fast each wave',
+    apply: (s) => ({ ...s, enemyRewardWaveMultiplier: s.enemyRewardWaveMultiplier * 2 }),
+  },
+  {
+    id: 'relentless',
+    name: 'Relentless',
+    description: 'Waves past the defined ones grow 50% faster',
+    apply: (s) => ({ ...s, endlessBudgetGrowth: s.endlessBudgetGrowth * 1.5 }),
+  },
+];
+
+/**
+ * DailyChallengeService
+ * Derives each date's challenge and ranks the attempts at it
+ */
+export class DailyChallengeService {
+  private gameSessionRepo: GameSessionRepository;
+  private statsRepo: StatisticsRepository;
+  private configVersionService: ConfigVersionService;
+
+  constructor() {
+    this.gameSessionRepo = new GameSessionRepository();
+    this.statsRepo = new StatisticsRepository();
+    this.configVersionService = new ConfigVersionService();
+  }
+
+  // Today's challenge date (UTC), so every player shares the same one
+  static today(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+
+  // A real calendar date written as YYYY-MM-DD
+  static isDailyDate(value: string): boolean {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+    const date = new Date(`${value}T00:00:00Z`);
+    return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+  }
+
+  /**
+   * The challenge of a date: everything is derived from the date's seed,
+   * so every player (and every server) gets the same one for the same towers
+   */
+  static deriveChallenge(date: string, towers: { id: number }[]): DailyChallenge {
+    const seed = hashSeed(`daily:${date}`);
+    const rng = createRng(seed);
+    const modifierIds = new Set(
+      shuffle(rng, DAILY_MODIFIERS)
+        .slice(0, DAILY_MODIFIER_COUNT)
+        .map((m) => m.id)
+    );
+    const towerIds = shuffle(
+      rng,
+      towers.map((t) => t.id)
+    ).slice(0, DAILY_LOADOUT_SIZE);
+
+    return {
+      date,
+      seed,
+      modifiers: DAILY_MODIFIERS.filter((m) => modifierIds.has(m.id)).map(
+        ({ id, name, description }) => ({ id, name, description })
+      ),
+      towerIds: towerIds.sort((a, b) => a - b),
+    };
+  }
+
+  // Settings with a daily game's modifiers applied (in catalog order)
+  static applyModifiers(settings: GameSettings, modifiers: DailyModifierId[]): GameSettings {
+    return DAILY_MODIFIERS.filter((m) => modifiers.includes(m.id)).reduce(
+      (result, modifier) => modifier.apply(result),
+      settings
+    );
+  }
+
+  // The challenge of a date for the config new games play
+  async getChallenge(date: string): Promise<DailyChallenge> {
+    const version = await this.configVersionService.getCurrentVersion();
+    const config = version?.snapshot ?? (await this.configVersionService.getDraftSnapshot());
+    return DailyChallengeService.deriveChallenge(date, config.towers);
+  }
+
+  /**
+   * Whether a new attempt of a player at a date is ranked: only the first one
+   * is, whether the earlier attempt is still running or already recorded
+   */
+  async isFirstAttempt(playerId: number, date: string): Promise<boolean> {
+    const [hasSession, hasStatistics] = await Promise.all([
+      this.gameSessionRepo.hasDailySession(playerId, date),
+      this.statsRepo.hasDailyStatistics(playerId, date),
+    ]);
+    return !hasSession && !hasStatistics;
+  }
+
+  /**
+   * A date's challenge and its ranked attempts, best first
+   */
+  async getLeaderboard(date: string, limit = 50): Promise<DailyLeaderboardResponse> {
+    const [challenge, entries] = await Promise.all([
+      this.getChallenge(date),
+      this.statsRepo.getDailyLeaderboard(date, limit),
+    ]);
+    return { challenge, entries };
+  }
+}
+
+export const dailyChallengeService = new DailyChallengeService();
@@ -8,10 +8,46 @@ import {
   TowerLevel,
   GameMode,
   SettingsMode,
+  EnemySpawnData,
+  WaveSimulationResult,
+  MapDefinition,
+  ReplayUpload,
+  TargetingMode,
+  SessionStatus,
+  GameSessionSummary,
+  GameConfigResponse,
+  DailyGame,
+  MutatorId,
+  GameOutcome,
+  GameSessionDB,
+  ConfigSnapshot,
+  EndGameStats,
+  GameSettings,
+  ScoreBreakdown,
 } from '../types';
 import { GameSessionRepository } from '../database/repositories/GameSessionRepository';
 import { ConfigService } from './ConfigService';
 import { StatisticsService } from './StatisticsService';
+import { ReplayService } from './ReplayService';
+import { WaveService } from './WaveService';
+import { ConfigVersionService } from './ConfigVersionService';
+import { DailyChallengeService, DAILY_DIFFICULTY } from './DailyChallengeService';
+import { simulateWave } from '../simulation/WaveSimulator';
+import { createSeed, hashSeed } from '../simulation/random';
+import { DEFAULT_TARGETING_MODE } from '../simulation/targeting';
+import { DEFAULT_DAMAGE_TYPE } from '../simulation/damage';
+import { DEFAULT_PROJECTILE_STATS } from '../simulation/projectiles';
+import { DEFAULT_EFFECT_STATS } from '../simulation/statusEffects';
+import {
+  canSellTowers,
+  getEnemyRegenerationRate,
+  getEnemySpeedMultiplier,
+  getSellRefund,
+  getTowerCost,
+  normalizeMutators,
+} from '../simulation/mutators';
+import { MAIN_BRANCH, getUpgradeOptions, getUpgradePath } from '../simulation/upgradeTree';
+import { GRID_COLS, GRID_ROWS } from '../config/board';
 
 /**
  * GameService
@@ -23,40 +59,246 @@ export class GameService {
   private gameSessionRepo: GameSessionRepository;
   private configService: ConfigService;
   private statsService: StatisticsService;
+  private replayService: ReplayService;
+  private configVersionService: ConfigVersionService;
+  private dailyChallengeService: DailyChallengeService;
 
   constructor() {
     this.gameSessionRepo = new GameSessionRepository();
     this.configService = new ConfigService();
     this.statsService = new StatisticsService();
+    this.replayService = new ReplayService();
+    this.configVersionService = new ConfigVersionService();
+    this.dailyChallengeService = new DailyChallengeService();
   }
 
   private static levelToStats(level: TowerLevel): TowerStats {
-    return { cost: level.cost, damage: level.damage, range: level.range, fireRate: level.fireRate };
+    return {
+      cost: level.cost,
+      damage: level.damage,
+      range: level.range,
+      fireRate: level.fireRate,
+      damageType: level.damageType,
+      projectileType: level.projectileType,
+      splashRadius: level.splashRadius,
+      chainCount: level.chainCount,
+      chainRange: level.chainRange,
+      pierceCount: level.pierceCount,
+      effectType: level.effectType,
+      effectStrength: level.effectStrength,
+      effectDuration: level.effectDuration,
+    };
   }
 
   private static towerToDb(t: Tower): TowerDB {
-    return { id: t.id, towerId: t.towerId, gridX: t.gridX, gridY: t.gridY, level: t.level, stats: t.stats };
+    return {
+      id: t.id,
+      towerId: t.towerId,
+      gridX: t.gridX,
+      gridY: t.gridY,
+      level: t.level,
+      branch: t.branch,
+      stats: t.stats,
+      targetingMode: t.targetingMode,
+    };
+  }
+
+  // A game's settings in its config version, with its daily challenge's modifiers applied
+  private static getSessionSettings(
+    session: GameSessionDB,
+    config: ConfigSnapshot
+  ): GameSettings | undefined {
+    const settings = config.settings.find((s) => s.id === session.settingsId);
+    return settings && session.daily
+      ? DailyChallengeService.applyModifiers(settings, session.daily.modifiers)
+      : settings;
+  }
+
+  // Levels with the costs a game pays for them (mutators can raise them)
+  private static withMutatorCosts(levels: TowerLevel[], mutators: MutatorId[]): TowerLevel[] {
+    return levels.map((l) => ({ ...l, cost: getTowerCost(l.cost, mutators) }));
+  }
+
+  // Why a game's towers cannot change right now (null if they can): only active games
+  // between waves may build, upgrade or sell
+  private static towerChangeBlocked(game: GameSession): string | null {
+    if (game.status !== 'active') return 'Game is no longer active';
+    if (game.waveActive) return 'A wave is in progress';
+    return null;
+  }
+
+  /**
+   * What is wrong with a client's statistics of a finished game, or null if they
+   * add up with the session. Breakdowns may fall short of the session's totals
+   * (a resumed game only tracked part of it), but never exceed them.
+   */
+  private static checkEndGameStats(
+    session: GameSessionDB,
+    outcome: GameOutcome,
+    stats: EndGameStats,
+    config: ConfigSnapshot
+  ): string | null {
+    // Only clearing the final wave wins; a game ended before that is resigned
+    const decided = session.outcome ?? 'loss';
+    if (outcome !== decided) {
+      return decided === 'win'
+        ? 'The game was won'
+        : 'Only a game whose final wave was cleared can be won';
+    }
+    if (stats.duration > Date.now() - session.startedAt.getTime()) {
+      return 'Duration is longer than the game has existed';
+    }
+
+    // Rewards only grow with the wave, so base rewards are the least the kills earned
+    let kills = 0;
+    let minCoinsEarned = 0;
+    for (const [enemyId, count] of Object.entries(stats.enemiesKilledByType)) {
+      const enemy = config.enemies.find((e) => String(e.id) === enemyId);
+      if (!enemy) return `Unknown enemy ID ${enemyId}`;
+      kills += count;
+      minCoinsEarned += enemy.reward * count;
+    }
+    if (kills > session.enemiesKilled) {
+      return 'More kills by type than enemies killed in the game';
+    }
+    if (minCoinsEarned > session.coinsEarned) {
+      return 'Kills by type are worth more coins than the game earned';
+    }
+
+    // Upgrades spend coins too, so build costs are the least the game spent
+    let minCoinsSpent = 0;
+    for (const [towerId, count] of Object.entries(stats.towersBuiltByType)) {
+      const level1 = config.towers
+        .find((t) => String(t.id) === towerId)
+        ?.levels.find((l) => l.level === 1);
+      if (!level1) return `Unknown tower ID ${towerId}`;
+      minCoinsSpent += getTowerCost(level1.cost, session.mutators ?? []) * count;
+    }
+    if (minCoinsSpent > session.coinsSpent) {
+      return 'Towers built by type cost more coins than the game spent';
+    }
+
+    const unknownTower = Object.keys(stats.damageByTowerType).find(
+      (towerId) => !config.towers.some((t) => String(t.id) === towerId)
+    );
+    return unknownTower === undefined ? null : `Unknown tower ID ${unknownTower}`;
+  }
+
+  // A tower's levels in the config version the game is pinned to
+  private async getTowerLevels(game: GameSession, towerId: number): Promise<TowerLevel[]> {
+    const config = await this.configVersionService.getSnapshot(game.configVersionId ?? null);
+    const levels = config.towers.find((t) => t.id === towerId)?.levels ?? [];
+    return GameService.withMutatorCosts(levels, game.mutators);
+  }
+
+  /**
+   * Resolve a session's map, falling back to the default map when none is
+   * stored or the stored map has since been deleted
+   */
+  private async resolveMap(mapId: number | null | undefined): Promise<MapDefinition | null> {
+    const map = mapId ? await this.configService.getMap(mapId) : null;
+    return map ?? (await this.configService.getDefaultMap());
+  }
+
+  /**
+   * Tower and enemy definitions a game plays with (its pinned config version).
+   * Without a game ID: what a new game would get. Returns null for unknown games.
+   */
+  async getGameConfig(gameId?: string): Promise<GameConfigResponse | null> {
+    let versionId: number | null;
+    let daily: DailyGame | null = null;
+    let mutators: MutatorId[] = [];
+    if (gameId !== undefined) {
+      const session = await this.gameSessionRepo.getGameSession(gameId);
+      if (!session) return null;
+      versionId = session.configVersionId ?? null;
+      daily = session.daily ?? null;
+      mutators = session.mutators ?? [];
+    } else {
+      versionId = (await this.configVersionService.getCurrentVersion())?.id ?? null;
+    }
+
+    const { towers, enemies } = await this.configVersionService.getSnapshot(versionId);
+    // A daily game can only build the towers of its loadout, and costs follow the mutators
+    return {
+      towers: (daily ? towers.filter((t) => daily.towerIds.includes(t.id)) : towers).map((t) => ({
+        ...t,
+        levels: GameService.withMutatorCosts(t.levels, mutators),
+      })),
+      enemies,
+    };
   }
 
   /**
-   * Create a new game session with settings
+   * Create a new game session with settings on the chosen map (default map if omitted).
+   * Games started by a signed-in player belong to that player, and every game is
+   * pinned to the config version published when it started.
+   * Daily games ignore the difficulty, map, seed and mutators: today's challenge decides them.
+   * A seed chosen by the player replays a game but keeps it out of the top scores.
    */
   async createGame(
     gameMode: GameMode = '10waves',
-    difficulty: SettingsMode = 'normal'
+    difficulty: SettingsMode = 'normal',
+    mapId?: number,
+    playerId?: number,
+    seed?: number,
+    mutators: MutatorId[] = []
   ): Promise<GameSession> {
-    // Get settings for the difficulty
-    const settings = await this.configService.getSettingsByMode(difficulty);
-    if (!settings) {
+    let customSeed = seed !== undefined;
+    const version = await this.configVersionService.getCurrentVersion();
+    const config = version?.snapshot ?? (await this.configVersionService.getDraftSnapshot());
+
+    let daily: DailyGame | undefined;
+    if (gameMode === 'daily') {
+      const date = DailyChallengeService.today();
+      const challenge = DailyChallengeService.deriveChallenge(date, config.towers);
+      daily = {
+        date,
+        modifiers: challenge.modifiers.map((m) => m.id),
+        towerIds: challenge.towerIds,
+        ranked:
+          playerId !== undefined &&
+          (await this.dailyChallengeService.isFirstAttempt(playerId, date)),
+      };
+      difficulty = DAILY_DIFFICULTY;
+      mapId = undefined;
+      seed = challenge.seed;
+      customSeed = false;
+      mutators = [];
+    }
+    seed ??= createSeed();
+    mutators = normalizeMutators(mutators);
+
+    // Get settings for the difficulty from the current config version
+    const baseSettings = config.settings.find((s) => s.mode === difficulty);
+    if (!baseSettings) {
       throw new Error('Failed to load game settings');
     }
+    const settings = daily
+      ? DailyChallengeService.applyModifiers(baseSettings, daily.modifiers)
+      : baseSettings;
+
+    const map =
+      mapId !== undefined
+        ? await this.configService.getMap(mapId)
+        : await this.configService.getDefaultMap();
+    if (!map) {
+      throw new Error(mapId !== undefined ? 'Map not found' : 'No maps configured');
+    }
 
     const gameId = uuidv4();
 
     // Create database session
     await this.gameSessionRepo.createGameSession({
       gameId,
+      playerId: playerId ?? null,
       settingsId: settings.id ?? null,
+      mapId: map.id,
+      configVersionId: version?.id ?? null,
+      seed,
+      customSeed,
+      daily: daily ?? null,
+      mutators,
       gameMode,
       currentWave: 0,
       wavesCompleted: 0,
@@ -67,6 +309,8 @@ export class GameService {
       coinsEarned: 0,
       coinsSpent: 0,
       damageDealt: 0,
+      playTimeMs: 0,
+      waveActive: false,
       status: 'active',
     });
 
@@ -81,6 +325,14 @@ export class GameService {
       lastUpdated: new Date(),
       gameMode,
       settingsId: settings.id ?? 0,
+      configVersionId: version?.id,
+      seed,
+      daily,
+      mutators,
+      map,
+      enemiesKilled: 0,
+      status: 'active',
+      waveActive: false,
     };
   }
 
@@ -91,6 +343,8 @@ export class GameService {
     const session = await this.gameSessionRepo.getGameSession(gameId);
     if (!session) return undefined;
 
+    const map = await this.resolveMap(session.mapId);
+
     // Convert database towers to game towers
     const towers: Tower[] = session.towers.map((t) => ({
       id: t.id,
@@ -100,7 +354,14 @@ export class GameService {
       x: t.gridX * GameService.GRID_SIZE + GameService.GRID_SIZE / 2,
       y: t.gridY * GameService.GRID_SIZE + GameService.GRID_SIZE / 2,
       level: t.level ?? 1,
-      stats: t.stats,
+      branch: t.branch ?? MAIN_BRANCH,
+      stats: {
+        ...DEFAULT_PROJECTILE_STATS,
+        ...DEFAULT_EFFECT_STATS,
+        ...t.stats,
+        damageType: t.stats.damageType ?? DEFAULT_DAMAGE_TYPE,
+      },
+      targetingMode: t.targetingMode ?? DEFAULT_TARGETING_MODE,
       lastFireTime: 0,
     }));
 
@@ -114,9 +375,59 @@ export class GameService {
       lastUpdated: session.lastUpdated,
       gameMode: session.gameMode,
       settingsId: session.settingsId ?? undefined,
+      configVersionId: session.configVersionId ?? undefined,
+      seed: session.seed ?? undefined,
+      daily: session.daily ?? undefined,
+      mutators: session.mutators ?? [],
+      map: map ?? undefined,
+      enemiesKilled: session.enemiesKilled,
+      status: session.status,
+      waveActive: session.waveActive,
     };
   }
 
+  /**
+   * Whether a player may act on a game: anonymous games are open to anyone,
+   * a player's games only to that player. Missing games are left to the caller.
+   */
+  async canAccessGame(gameId: string, playerId?: number): Promise<boolean> {
+    const session = await this.gameSessionRepo.getGameSession(gameId);
+    if (!session || !session.playerId) return true;
+    return session.playerId === playerId;
+  }
+
+  /**
+   * List a player's game sessions by status (the main screen's "Continue game" list)
+   */
+  async listGames(status: SessionStatus, playerId: number): Promise<GameSessionSummary[]> {
+    const [sessions, settings, maps] = await Promise.all([
+      this.gameSessionRepo.getSessionsByStatus(status, playerId),
+      this.configService.getAllSettings(),
+      this.configService.getAllMaps(),
+    ]);
+
+    return sessions.map((session) => ({
+      gameId: session.gameId,
+      gameMode: session.gameMode,
+      difficulty: settings.find((s) => s.id === session.settingsId)?.mode ?? null,
+      mapName: maps.find((m) => m.id === session.mapId)?.name ?? null,
+      wave: session.currentWave,
+      coins: session.coins,
+      lives: session.lives,
+      towerCount: session.towers.length,
+      startedAt: session.startedAt,
+      lastUpdated: session.lastUpdated,
+      status: session.status,
+    }));
+  }
+
+  /**
+   * Mark active sessions that have not been played for a while as abandoned
+   */
+  async abandonStaleSessions(hoursInactive: number): Promise<number> {
+    return await this.gameSessionRepo.cleanupAbandonedSessions(hoursInactive);
+  }
+
   /**
    * Build a tower
    */
@@ -128,18 +439,41 @@ export class GameService {
     if (!game) {
       return { success: false, message: 'Game not found' };
     }
+    const blocked = GameService.towerChangeBlocked(game);
+    if (blocked) {
+      return { success: false, message: blocked };
+    }
 
     // Get level 1 stats for this tower ID
-    const level1 = await this.configService.getTowerLevel(request.towerId, 1);
+    const level1 = (await this.getTowerLevels(game, request.towerId)).find((l) => l.level === 1);
     if (!level1) {
       return { success: false, message: 'Invalid tower ID' };
     }
+    if (game.daily && !game.daily.towerIds.includes(request.towerId)) {
+      return { success: false, message: 'Tower is not in the daily loadout' };
+    }
 
     // Check if player has enough coins
     if (game.coins < level1.cost) {
       return { success: false, message: 'Insufficient coins' };
     }
 
+    // Check bounds and the map's blocked cells (enemy path)
+    if (
+      request.gridX < 0 ||
+      request.gridX >= GRID_COLS ||
+      request.gridY < 0 ||
+      request.gridY >= GRID_ROWS
+    ) {
+      return { success: false, message: 'Position out of bounds' };
+    }
+    const isBlocked = game.map?.blockedCells.some(
+      (c) => c.gridX === request.gridX && c.gridY === request.gridY
+    );
+    if (isBlocked) {
+      return { success: false, message: 'Position is blocked by the map' };
+    }
+
     // Check if position is occupied
     const isOccupied = game.towers.some(
       (t) => t.gridX === request.gridX && t.gridY === request.gridY
@@ -160,7 +494,9 @@ export class GameService {
       x: request.gridX * GameService.GRID_SIZE + GameService.GRID_SIZE / 2,
       y: request.gridY * GameService.GRID_SIZE + GameService.GRID_SIZE / 2,
       level: 1,
+      branch: MAIN_BRANCH,
       stats,
+      targetingMode: DEFAULT_TARGETING_MODE,
       lastFireTime: 0,
     };
 
@@ -178,16 +514,22 @@ export class GameService {
   }
 
   /**
-   * Upgrade a tower
+   * Upgrade a tower to the next level of its upgrade tree. Where the tree
+   * branches, the branch to take must be given.
    */
   async upgradeTower(
     gameId: string,
-    towerId: string
+    towerId: string,
+    branch?: string
   ): Promise<{ success: boolean; tower?: Tower; remainingCoins?: number; message?: string }> {
     const game = await this.getGame(gameId);
     if (!game) {
       return { success: false, message: 'Game not found' };
     }
+    const blocked = GameService.towerChangeBlocked(game);
+    if (blocked) {
+      return { success: false, message: blocked };
+    }
 
     const tower = game.towers.find((t) => t.id === towerId);
     if (!tower) {
@@ -195,11 +537,30 @@ export class GameService {
     }
 
     // Get next level stats
-    const nextLevel = tower.level + 1;
-    const nextLevelData = await this.configService.getTowerLevel(tower.towerId, nextLevel);
-    if (!nextLevelData) {
+    const options = getUpgradeOptions(
+      await this.getTowerLevels(game, tower.towerId),
+      tower.level,
+      tower.branch
+    );
+    if (options.length === 0) {
       return { success: false, message: 'Tower already at max level' };
     }
+    const nextLevelData =
+      branch === undefined && options.length === 1
+        ? options[0]
+        : options.find((l) => l.branch === branch);
+    if (!nextLevelData) {
+      // Quoted, as sent: the main branch is the empty string
+      const branches = options.map((l) => JSON.stringify(l.branch)).join(', ');
+      return {
+        success: false,
+        message:
+          branch === undefined
+            ? `Choose an upgrade branch: ${branches}`
+            : `Unknown upgrade branch. Must be one of: ${branches}`,
+      };
+    }
+    const nextLevel = nextLevelData.level;
 
     // Check if player has enough coins
     if (game.coins < nextLevelData.cost) {
@@ -213,6 +574,7 @@ export class GameService {
     const upgradedTower: Tower = {
       ...tower,
       level: nextLevel,
+      branch: nextLevelData.branch,
       stats: newStats,
     };
 
@@ -221,9 +583,7 @@ export class GameService {
     const dbSession = await this.gameSessionRepo.getGameSession(gameId);
 
     const updatedTowers = game.towers.map((t) =>
-      t.id === towerId
-        ? GameService.towerToDb({ ...t, level: nextLevel, stats: newStats })
-        : GameService.towerToDb(t)
+      GameService.towerToDb(t.id === towerId ? upgradedTower : t)
     );
 
     await this.gameSessionRepo.updateGameSession(gameId, {
@@ -236,7 +596,34 @@ export class GameService {
   }
 
   /**
-   * Sell a tower (70% refund of total invested)
+   * Change which enemy a tower shoots at
+   */
+  async setTowerTargeting(
+    gameId: string,
+    towerId: string,
+    targetingMode: TargetingMode
+  ): Promise<{ success: boolean; tower?: Tower; message?: string }> {
+    const game = await this.getGame(gameId);
+    if (!game) {
+      return { success: false, message: 'Game not found' };
+    }
+
+    const tower = game.towers.find((t) => t.id === towerId);
+    if (!tower) {
+      return { success: false, message: 'Tower not found' };
+    }
+
+    const updatedTower: Tower = { ...tower, targetingMode };
+
+    await this.gameSessionRepo.updateGameSession(gameId, {
+      towers: game.towers.map((t) => GameService.towerToDb(t.id === towerId ? updatedTower : t)),
+    });
+
+    return { success: true, tower: updatedTower };
+  }
+
+  /**
+   * Sell a tower (70% refund of total invested, less with mutators)
    */
   async sellTower(
     gameId: string,
@@ -251,23 +638,28 @@ export class GameService {
     if (!game) {
       return { success: false, message: 'Game not found' };
     }
+    const blocked = GameService.towerChangeBlocked(game);
+    if (blocked) {
+      return { success: false, message: blocked };
+    }
 
     const tower = game.towers.find((t) => t.id === towerId);
     if (!tower) {
       return { success: false, message: 'Tower not found' };
     }
-
-    // Calculate total invested (sum of all level costs up to current level)
-    const levels = await this.configService.getTowerLevel(tower.towerId);
-    let totalInvested = 0;
-    for (const lvl of levels) {
-      if (lvl.level <= tower.level) {
-        totalInvested += lvl.cost;
-      }
+    if (!canSellTowers(game.mutators)) {
+      return { success: false, message: 'Towers cannot be sold in this game' };
     }
 
-    // Calculate refund (70% of total invested)
-    const refundAmount = Math.floor(totalInvested * 0.7);
+    // Calculate total invested (sum of the level costs on the tower's upgrade path)
+    const levels = await this.getTowerLevels(game, tower.towerId);
+    const totalInvested = getUpgradePath(levels, tower.level, tower.branch).reduce(
+      (sum, lvl) => sum + lvl.cost,
+      0
+    );
+
+    // Calculate refund (share of total invested)
+    const refundAmount = getSellRefund(totalInvested, game.mutators);
     const remainingCoins = game.coins + refundAmount;
 
     // Remove tower and add refund
@@ -282,115 +674,209 @@ export class GameService {
   }
 
   /**
-   * Start next wave
+   * Start next wave and resolve it server-side.
+   * Kills, leaks, rewards and lives come from the deterministic simulation
+   * of the session's towers, never from the client.
    */
-  async startWave(gameId: string): Promise<boolean> {
-    const game = await this.getGame(gameId);
-    if (!game) {
-      return false;
+  async startWave(gameId: string): Promise<{
+    success: boolean;
+    waveNumber?: number;
+    enemies?: EnemySpawnData[];
+    enemyHealthWaveMultiplier?: number;
+    enemyRewardWaveMultiplier?: number;
+    result?: WaveSimulationResult;
+    remainingCoins?: number;
+    remainingLives?: number;
+    gameWon?: boolean;
+    message?: string;
+  }> {
+    const session = await this.gameSessionRepo.getGameSession(gameId);
+    if (!session) {
+      return { success: false, message: 'Game not found' };
+    }
+    if (session.lives <= 0) {
+      return { success: false, message: 'Game is over' };
+    }
+    const waveCap = WaveService.getWaveCap(session.gameMode);
+    if (waveCap !== null && session.currentWave >= waveCap) {
+      return { success: false, message: `Game is over (all ${waveCap} waves cleared)` };
+    }
+    if (session.status !== 'active') {
+      return { success: false, message: 'Game is no longer active' };
+    }
+    if (session.waveActive) {
+      return { success: false, message: 'A wave is in progress' };
     }
 
-    await this.gameSessionRepo.updateGameSession(gameId, {
-      currentWave: game.wave + 1,
-    });
-
-    return true;
-  }
-
-  /**
-   * Complete a wave (track success)
-   */
-  async completeWave(gameId: string): Promise<boolean> {
-    const game = await this.getGame(gameId);
-    if (!game) {
-      return false;
+    const waveNumber = session.currentWave + 1;
+    const [config, map] = await Promise.all([
+      this.configVersionService.getSnapshot(session.configVersionId ?? null),
+      this.resolveMap(session.mapId),
+    ]);
+    const settings = GameService.getSessionSettings(session, config);
+    // Games started before seeds fall back to one derived from their ID
+    const seed = session.seed ?? hashSeed(gameId);
+    const enemies = WaveService.toSpawns(
+      WaveService.getGameWave(config, settings, waveNumber, seed)
+    );
+    const enemyDefinitions = config.enemies;
+    const towerDefinitions = config.towers;
+    if (!map) {
+      return { success: false, message: 'No maps configured' };
     }
+    const enemyHealthWaveMultiplier = settings?.enemyHealthWaveMultiplier ?? 0.1;
+    const enemyRewardWaveMultiplier = settings?.enemyRewardWaveMultiplier ?? 0.05;
+    const mutators = session.mutators ?? [];
 
-    const dbSession = await this.gameSessionRepo.getGameSession(gameId);
-    await this.gameSessionRepo.updateGameSession(gameId, {
-      wavesCompleted: (dbSession?.wavesCompleted ?? 0) + 1,
+    const result = simulateWave({
+      waveNumber,
+      lives: session.lives,
+      towers: session.towers,
+      towerDefinitions,
+      waypoints: map.waypoints,
+      allowDiagonal: map.allowDiagonal,
+      spawns: enemies,
+      enemyDefinitions,
+      enemyHealthWaveMultiplier,
+      enemyRewardWaveMultiplier,
+      enemySpeedMultiplier: getEnemySpeedMultiplier(mutators),
+      enemyRegenerationRate: getEnemyRegenerationRate(mutators),
     });
 
-    return true;
-  }
+    const remainingCoins = session.coins + result.coinsEarned;
+    const remainingLives = session.lives - result.livesLost;
+    const gameWon = remainingLives > 0 && waveNumber === waveCap;
 
-  /**
-   * Update coins (called when enemy dies)
-   */
-  async addCoins(gameId: string, amount: number): Promise<boolean> {
-    const game = await this.getGame(gameId);
-    if (!game) {
-      return false;
-    }
-
-    const dbSession = await this.gameSessionRepo.getGameSession(gameId);
     await this.gameSessionRepo.updateGameSession(gameId, {
-      coins: game.coins + amount,
-      coinsEarned: (dbSession?.coinsEarned ?? 0) + amount,
+      currentWave: waveNumber,
+      wavesCompleted: session.wavesCompleted + (remainingLives > 0 ? 1 : 0),
+      coins: remainingCoins,
+      lives: remainingLives,
+      enemiesKilled: session.enemiesKilled + result.enemiesKilled,
+      coinsEarned: session.coinsEarned + result.coinsEarned,
+      damageDealt: session.damageDealt + result.damageDealt,
+      playTimeMs: session.playTimeMs + result.durationMs,
+      waveActive: true,
+      // A lost or won game can no longer be resumed
+      ...(remainingLives <= 0 && { status: 'completed' as const, outcome: 'loss' as const }),
+      ...(gameWon && { status: 'completed' as const, outcome: 'win' as const }),
     });
 
-    return true;
+    return {
+      success: true,
+      waveNumber,
+      enemies,
+      enemyHealthWaveMultiplier,
+      enemyRewardWaveMultiplier,
+      result,
+      remainingCoins,
+      remainingLives,
+      gameWon,
+    };
   }
 
   /**
-   * Lose a life (called when enemy reaches end)
+   * Complete a wave: the client has played the started wave back, so towers may
+   * change again. Its outcome was already applied when it started.
    */
-  async loseLife(gameId: string): Promise<boolean> {
-    const game = await this.getGame(gameId);
-    if (!game) {
-      return false;
+  async completeWave(gameId: string): Promise<{ success: boolean; message?: string }> {
+    const session = await this.gameSessionRepo.getGameSession(gameId);
+    if (!session) {
+      return { success: false, message: 'Game not found' };
+    }
+    if (!session.waveActive) {
+      return { success: false, message: 'No wave is in progress' };
     }
 
-    const newLives = Math.max(0, game.lives - 1);
-    await this.gameSessionRepo.updateGameSession(gameId, {
-      lives: newLives,
-    });
-
-    return newLives > 0; // Return false if game over
+    await this.gameSessionRepo.updateGameSession(gameId, { waveActive: false });
+    return { success: true };
   }
 
   /**
    * End game (record statistics and delete session)
+   * Kill, coin and damage totals come from the session, which only the
+   * server-side wave simulation and tower purchases update. The client's
+   * breakdowns are only recorded if they add up with those totals. The score
+   * is computed from the session too, with the game's settings.
    */
   async endGame(
     gameId: string,
-    outcome: 'win' | 'loss',
-    stats: {
-      duration: number;
-      enemiesKilledTotal: number;
-      enemiesKilledByType: Record<string, number>;
-      towersBuiltTotal: number;
-      towersBuiltByType: Record<string, number>;
-      coinsEarned: number;
-      coinsSpent: number;
-      damageDealt: number;
-    }
-  ): Promise<boolean> {
-    const game = await this.getGame(gameId);
-    if (!game) {
-      return false;
+    outcome: GameOutcome,
+    stats: EndGameStats,
+    replay?: ReplayUpload
+  ): Promise<{
+    success: boolean;
+    score?: number;
+    scoreBreakdown?: ScoreBreakdown;
+    message?: string;
+  }> {
+    const session = await this.gameSessionRepo.getGameSession(gameId);
+    if (!session) {
+      return { success: false, message: 'Game not found' };
+    }
+
+    const config = await this.configVersionService.getSnapshot(session.configVersionId ?? null);
+    const problem = GameService.checkEndGameStats(session, outcome, stats, config);
+    if (problem) {
+      return { success: false, message: problem };
+    }
+
+    // Keep the replay; it outlives the session
+    if (replay) {
+      await this.replayService.recordReplay(gameId, replay);
     }
 
+    // A game ended before its first wave has cleared none
+    const wavesCompleted = Math.max(
+      0,
+      outcome === 'win' ? session.currentWave : session.currentWave - 1
+    );
+    const { score, breakdown } = StatisticsService.computeScore(
+      {
+        won: outcome === 'win',
+        wavesCleared: wavesCompleted,
+        lives: session.lives,
+        coins: session.coins,
+        coinsSpent: session.coinsSpent,
+        elapsedMs: session.playTimeMs,
+      },
+      GameService.getSessionSettings(session, config)
+    );
+
     // Record statistics
     await this.statsService.recordGameStatistics({
       gameId,
+      playerId: session.playerId ?? null,
       outcome,
-      gameMode: game.gameMode ?? '10waves',
-      finalWave: game.wave,
-      wavesCompleted: outcome === 'win' ? game.wave : game.wave - 1,
+      gameMode: session.gameMode ?? '10waves',
+      finalWave: session.currentWave,
+      wavesCompleted,
       duration: stats.duration,
-      enemiesKilledTotal: stats.enemiesKilledTotal,
+      enemiesKilledTotal: session.enemiesKilled,
       enemiesKilledByType: stats.enemiesKilledByType,
-      towersBuiltTotal: stats.towersBuiltTotal,
+      towersBuiltTotal: Object.values(stats.towersBuiltByType).reduce((sum, n) => sum + n, 0),
       towersBuiltByType: stats.towersBuiltByType,
-      coinsEarned: stats.coinsEarned,
-      coinsSpent: stats.coinsSpent,
-      damageDealt: stats.damageDealt,
+      coinsEarned: session.coinsEarned,
+      coinsSpent: session.coinsSpent,
+      damageDealt: session.damageDealt,
+      damageByTowerType: stats.damageByTowerType,
+      settingsId: session.settingsId ?? null,
+      seed: session.seed ?? null,
+      customSeed: session.customSeed ?? false,
+      dailyDate: session.daily?.date ?? null,
+      dailyRanked: session.daily?.ranked ?? false,
+      mutators: session.mutators ?? [],
+      score,
+      scoreBreakdown: breakdown,
       timestamp: new Date(),
     });
 
     // Delete game session
-    return await this.gameSessionRepo.deleteGameSession(gameId);
+    return {
+      success: await this.gameSessionRepo.deleteGameSession(gameId),
+      score,
+      scoreBreakdown: breakdown,
+    };
   }
 }
 
@@ -0,0 +1,74 @@
+import { ReplayRepository } from '../database/repositories/ReplayRepository';
+import { GameReplay, ReplayActionType, ReplayUpload } from '../types';
+
+const ACTION_TYPES: ReplayActionType[] = ['build', 'upgrade', 'sell', 'targeting', 'wave'];
+
+/**
+ * ReplayService
+ * Stores and serves the recorded action logs of finished games
+ */
+export class ReplayService {
+  private replayRepo: ReplayRepository;
+
+  constructor() {
+    this.replayRepo = new ReplayRepository();
+  }
+
+  /**
+   * Record the replay uploaded when a game ends
+   */
+  async recordReplay(gameId: string, replay: ReplayUpload): Promise<GameReplay> {
+    this.validateReplay(replay);
+
+    return await this.replayRepo.saveReplay({ gameId, ...replay });
+  }
+
+  /**
+   * Get the replay of a specific game
+   */
+  async getReplay(gameId: string): Promise<GameReplay | null> {
+    return await this.replayRepo.getReplayByGameId(gameId);
+  }
+
+  /**
+   * Validate replay data (shape only; actions are not re-simulated)
+   */
+  validateReplay(replay: unknown): void {
+    if (!replay || typeof replay !== 'object') {
+      throw new Error('Replay must be an object');
+    }
+
+    const { config, actions, duration } = replay as Partial<ReplayUpload>;
+
+    if (
+      !config ||
+      !Array.isArray(config.towers) ||
+      !Array.isArray(config.enemies) ||
+      !config.map ||
+      !Array.isArray(config.map.waypoints)
+    ) {
+      throw new Error('Replay config must include towers, enemies and map');
+    }
+
+    if (typeof duration !== 'number' || !Number.isFinite(duration) || duration < 0) {
+      throw new Error('Replay duration must be a non-negative number');
+    }
+
+    if (!Array.isArray(actions)) {
+      throw new Error('Replay actions must be an array');
+    }
+
+    let lastTime = 0;
+    for (const action of actions) {
+      if (!action || !ACTION_TYPES.includes(action.type)) {
+        throw new Error('Replay action has an unknown type');
+      }
+      if (typeof action.gameTime !== 'number' || action.gameTime < lastTime) {
+        throw new Error('Replay actions must be ordered by game time');
+      }
+      lastTime = action.gameTime;
+    }
+  }
+}
+
+export const replayService = new ReplayService();
@@ -1,5 +1,51 @@
 import { StatisticsRepository } from '../database/repositories/StatisticsRepository';
-import { GameStatistics, StatisticsSummary, GameOutcome, GameMode } from '../types';
+import { normalizeMutators } from '../simulation/mutators';
+import {
+  GameStatistics,
+  StatisticsSummary,
+  GameOutcome,
+  GameMode,
+  GameSettings,
+  ScoreBreakdown,
+  TopScoreFilters,
+  AnalyticsFilters,
+  TowerAnalytics,
+  EnemyAnalytics,
+  TrendInterval,
+  TrendPoint,
+  WaveDistributionPoint,
+} from '../types';
+
+type ScoringSettings = Pick<
+  GameSettings,
+  | 'scoreWavePoints'
+  | 'scoreLifePoints'
+  | 'scoreEfficiencyPoints'
+  | 'scoreTimePoints'
+  | 'scoreMultiplier'
+>;
+
+// Settings rows and published versions saved before scoring existed use these
+export const DEFAULT_SCORING_SETTINGS: ScoringSettings = {
+  scoreWavePoints: 100,
+  scoreLifePoints: 50,
+  scoreEfficiencyPoints: 500,
+  scoreTimePoints: 50,
+  scoreMultiplier: 1,
+};
+
+// Clearing waves at this pace or faster earns the full time points
+const SCORE_PAR_WAVE_MS = 60_000;
+
+// What a finished game is scored on
+export interface ScoredGame {
+  won: boolean;
+  wavesCleared: number;
+  lives: number; // remaining
+  coins: number; // left unspent
+  coinsSpent: number;
+  elapsedMs: number; // time its waves were in play, simulated by the server
+}
 
 /**
  * StatisticsService
@@ -39,10 +85,17 @@ export class StatisticsService {
   }
 
   /**
-   * Get aggregated statistics summary
+   * Get aggregated statistics summary (all games, or a single player's)
+   */
+  async getStatisticsSummary(playerId?: number): Promise<StatisticsSummary> {
+    return await this.statsRepo.getStatisticsSummary(playerId);
+  }
+
+  /**
+   * Get a player's game history
    */
-  async getStatisticsSummary(): Promise<StatisticsSummary> {
-    return await this.statsRepo.getStatisticsSummary();
+  async getPlayerStatistics(playerId: number, limit = 50): Promise<GameStatistics[]> {
+    return await this.statsRepo.getStatisticsByPlayer(playerId, limit);
   }
 
   /**
@@ -60,10 +113,14 @@ export class StatisticsService {
   }
 
   /**
-   * Get top scores (highest waves in endless mode)
+   * Get top scores (highest score first), optionally of one mutator set, game mode or difficulty
    */
-  async getTopScores(limit = 10): Promise<GameStatistics[]> {
-    return await this.statsRepo.getTopScores(limit);
+  async getTopScores(limit = 10, filters: TopScoreFilters = {}): Promise<GameStatistics[]> {
+    // Games store their mutators normalized, so match the set in the same order
+    const normalized = filters.mutators
+      ? { ...filters, mutators: normalizeMutators(filters.mutators) }
+      : filters;
+    return await this.statsRepo.getTopScores(limit, normalized);
   }
 
   /**
@@ -73,6 +130,34 @@ export class StatisticsService {
     return await this.statsRepo.getRecentGames(limit);
   }
 
+  /**
+   * Get pick and win rates per tower type
+   */
+  async getTowerAnalytics(filters: AnalyticsFilters = {}): Promise<TowerAnalytics[]> {
+    return await this.statsRepo.getTowerAnalytics(filters);
+  }
+
+  /**
+   * Get kills and kill share per enemy type
+   */
+  async getEnemyAnalytics(filters: AnalyticsFilters = {}): Promise<EnemyAnalytics[]> {
+    return await this.statsRepo.getEnemyAnalytics(filters);
+  }
+
+  /**
+   * Get the number of games per final wave reached
+   */
+  async getWaveDistribution(filters: AnalyticsFilters = {}): Promise<WaveDistributionPoint[]> {
+    return await this.statsRepo.getWaveDistribution(filters);
+  }
+
+  /**
+   * Get daily or weekly win rate and average wave per difficulty
+   */
+  async getTrends(interval: TrendInterval, filters: AnalyticsFilters = {}): Promise<TrendPoint[]> {
+    return await this.statsRepo.getTrends(interval, filters);
+  }
+
   /**
    * Calculate statistics for a specific time period
    */
@@ -115,6 +200,36 @@ export class StatisticsService {
     return await this.statsRepo.deleteOldStatistics(daysOld);
   }
 
+  /**
+   * Score a finished game: points for the waves cleared, the lives left, the
+   * share of coins left unspent and the pace of the waves, all times the
+   * difficulty's multiplier. Lives and coins only count for a win, so a game
+   * given up early scores no more than its waves. Settings without scoring
+   * fields use the defaults.
+   */
+  static computeScore(
+    game: ScoredGame,
+    settings: Partial<ScoringSettings> | undefined
+  ): { score: number; breakdown: ScoreBreakdown } {
+    const scoring = { ...DEFAULT_SCORING_SETTINGS, ...settings };
+    const coinsTotal = game.coins + game.coinsSpent;
+    const efficiency = game.won && coinsTotal > 0 ? game.coins / coinsTotal : 0;
+    const pace =
+      game.wavesCleared > 0
+        ? Math.min(1, (SCORE_PAR_WAVE_MS * game.wavesCleared) / Math.max(1, game.elapsedMs))
+        : 0;
+
+    const breakdown: ScoreBreakdown = {
+      waves: game.wavesCleared * scoring.scoreWavePoints,
+      lives: game.won ? Math.max(0, game.lives) * scoring.scoreLifePoints : 0,
+      efficiency: Math.round(efficiency * scoring.scoreEfficiencyPoints),
+      time: Math.round(pace * game.wavesCleared * scoring.scoreTimePoints),
+      multiplier: scoring.scoreMultiplier,
+    };
+    const points = breakdown.waves + breakdown.lives + breakdown.efficiency + breakdown.time;
+    return { score: Math.round(points * breakdown.multiplier), breakdown };
+  }
+
   /**
    * Validate statistics data
    */
@@ -150,6 +265,10 @@ export class StatisticsService {
     if (stats.damageDealt !== undefined && stats.damageDealt < 0) {
       throw new Error('Damage dealt cannot be negative');
     }
+
+    if (stats.score !== undefined && stats.score < 0) {
+      throw new Error('Score cannot be negative');
+    }
   }
 }
 
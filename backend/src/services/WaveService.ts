@@ -1,12 +1,58 @@
-import { EnemySpawnData } from '../types';
+import {
+  ConfigSnapshot,
+  EnemyDefinition,
+  EnemySpawnData,
+  GameMode,
+  GameSettings,
+  WaveDefinition,
+} from '../types';
 import { waveRepository } from '../database/repositories/WaveRepository';
+import { createRng, hashSeed, randomInt, shuffle } from '../simulation/random';
 
 // Wave generation service (database-driven)
 
+type EndlessSettings = Pick<
+  GameSettings,
+  'endlessBudgetGrowth' | 'endlessBossInterval' | 'endlessUnlockWaves'
+>;
+
+// Settings rows and published versions saved before endless generation existed use these
+export const DEFAULT_ENDLESS_SETTINGS: EndlessSettings = {
+  endlessBudgetGrowth: 0.15,
+  endlessBossInterval: 5,
+  endlessUnlockWaves: {},
+};
+
+// Regular enemy groups in a generated wave, before capping at the enemies available
+const MIN_GENERATED_GROUPS = 2;
+const MAX_GENERATED_GROUPS = 4;
+// Share of a boss wave's budget spent on its boss group
+const BOSS_BUDGET_SHARE = 0.4;
+const GENERATED_SPAWN_DELAY_MS = 500;
+const BOSS_SPAWN_DELAY_MS = 2000;
+const GENERATED_DIFFICULTY_LABEL = 'extreme';
+
+// Waves to clear to win each game mode; endless and daily games last until the lives run out
+const WAVE_CAPS: Record<GameMode, number | null> = {
+  '10waves': 10,
+  '20waves': 20,
+  endless: null,
+  daily: null,
+};
+
+interface GenerateWaveOptions {
+  waveNumber: number;
+  waves: WaveDefinition[]; // the defined waves
+  enemies: EnemyDefinition[];
+  settings: Partial<GameSettings> | undefined;
+  seed: number;
+}
+
 interface WaveEnemyEntry {
   enemyId: number;
   count: number;
   spawnDelayMs: number;
+  difficultyLabel: string;
 }
 
 interface WaveComposition {
@@ -30,6 +76,7 @@ export class WaveService {
         enemyId: row.enemyId,
         count: row.count,
         spawnDelayMs: row.spawnDelayMs,
+        difficultyLabel: row.difficultyLabel,
       });
     }
 
@@ -43,7 +90,18 @@ export class WaveService {
 
   // Generate enemies for a specific wave
   async getWaveEnemies(waveNumber: number): Promise<EnemySpawnData[]> {
-    const definitions = await waveRepository.getWave(waveNumber);
+    return WaveService.toSpawns(await waveRepository.getWave(waveNumber));
+  }
+
+  // Final wave of a game mode, or null if it has none
+  static getWaveCap(gameMode: GameMode): number | null {
+    return WAVE_CAPS[gameMode];
+  }
+
+  // Expand a wave's enemy entries into individual spawns with cumulative delays
+  static toSpawns(
+    definitions: Array<{ enemyId: number; count: number; spawnDelayMs: number }>
+  ): EnemySpawnData[] {
     const enemies: EnemySpawnData[] = [];
     let currentDelay = 0;
 
@@ -60,6 +118,110 @@ export class WaveService {
     return enemies;
   }
 
+  /**
+   * A game's enemy entries for a wave: the defined wave, or a generated one
+   * when it is not defined (e.g. endless mode past the last defined wave)
+   */
+  static getGameWave(
+    snapshot: ConfigSnapshot,
+    settings: GameSettings | undefined,
+    waveNumber: number,
+    seed: number
+  ): WaveDefinition[] {
+    const defined = snapshot.waves.filter((w) => w.waveNumber === waveNumber);
+    if (defined.length > 0) {
+      return defined;
+    }
+    return WaveService.generateWave({
+      waveNumber,
+      waves: snapshot.waves,
+      enemies: snapshot.enemies,
+      settings,
+      seed,
+    });
+  }
+
+  /**
+   * Build a wave from a difficulty budget: the total scaled HP of the closest
+   * defined wave before it, grown by endlessBudgetGrowth per wave since. Only
+   * enemies unlocked by this wave are used; every endlessBossInterval-th wave
+   * also spends part of the budget on the strongest one. The same seed and
+   * wave number always give the same wave.
+   */
+  static generateWave({
+    waveNumber,
+    waves,
+    enemies,
+    settings,
+    seed,
+  }: GenerateWaveOptions): WaveDefinition[] {
+    const { endlessBudgetGrowth, endlessBossInterval, endlessUnlockWaves } = {
+      ...DEFAULT_ENDLESS_SETTINGS,
+      ...settings,
+    };
+    const healthMultiplier = settings?.enemyHealthWaveMultiplier ?? 0.1;
+    const cost = (enemy: EnemyDefinition, wave: number) =>
+      Math.round(enemy.health * (1 + wave * healthMultiplier));
+
+    const definedNumbers = [...new Set(waves.map((w) => w.waveNumber))].sort((a, b) => a - b);
+    const baseWaveNumber = definedNumbers.filter((n) => n < waveNumber).pop() ?? definedNumbers[0];
+    if (baseWaveNumber === undefined) {
+      return [];
+    }
+    const baseBudget = waves
+      .filter((w) => w.waveNumber === baseWaveNumber)
+      .reduce((total, w) => {
+        const enemy = enemies.find((e) => e.id === w.enemyId);
+        return total + (enemy ? w.count * cost(enemy, baseWaveNumber) : 0);
+      }, 0);
+    let budget = baseBudget * (1 + endlessBudgetGrowth) ** (waveNumber - baseWaveNumber);
+
+    const unlocked = enemies
+      .filter((e) => e.health > 0 && (endlessUnlockWaves[e.id] ?? 0) <= waveNumber)
+      .sort((a, b) => a.health - b.health || a.id - b.id);
+    if (unlocked.length === 0) {
+      return [];
+    }
+
+    const rng = createRng(hashSeed(`${seed}:${waveNumber}`));
+    const group = (enemyId: number, count: number, spawnDelayMs: number): WaveDefinition => ({
+      waveNumber,
+      enemyId,
+      count,
+      spawnDelayMs,
+      difficultyLabel: GENERATED_DIFFICULTY_LABEL,
+    });
+
+    // The strongest unlocked enemy is kept for boss waves while there is anything else
+    const boss = unlocked[unlocked.length - 1]!;
+    const pool = unlocked.length > 1 ? unlocked.slice(0, -1) : unlocked;
+
+    const bossGroups: WaveDefinition[] = [];
+    if (endlessBossInterval > 0 && waveNumber % endlessBossInterval === 0) {
+      const count = Math.max(1, Math.round((budget * BOSS_BUDGET_SHARE) / cost(boss, waveNumber)));
+      budget -= count * cost(boss, waveNumber);
+      bossGroups.push(group(boss.id, count, BOSS_SPAWN_DELAY_MS));
+    }
+
+    // Weaker enemies spawn first, like the defined waves
+    const groupCount = Math.min(
+      pool.length,
+      randomInt(rng, MIN_GENERATED_GROUPS, MAX_GENERATED_GROUPS)
+    );
+    const picked = shuffle(rng, pool)
+      .slice(0, groupCount)
+      .sort((a, b) => a.health - b.health || a.id - b.id);
+    const weights = picked.map(() => 0.5 + rng());
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    const regularGroups = picked.map((enemy, i) => {
+      const share = (Math.max(0, budget) * weights[i]!) / totalWeight;
+      const count = Math.max(1, Math.round(share / cost(enemy, waveNumber)));
+      return group(enemy.id, count, GENERATED_SPAWN_DELAY_MS);
+    });
+
+    return [...regularGroups, ...bossGroups];
+  }
+
   // Get a single wave composition by wave number (exact match, no fallback)
   async getWave(waveNumber: number): Promise<WaveComposition | null> {
     const rows = await waveRepository.getWave(waveNumber);
@@ -72,6 +234,7 @@ export class WaveService {
         enemyId: r.enemyId,
         count: r.count,
         spawnDelayMs: r.spawnDelayMs,
+        difficultyLabel: r.difficultyLabel,
       })),
     };
   }
@@ -110,6 +273,7 @@ export class WaveService {
         enemyId: r.enemyId,
         count: r.count,
         spawnDelayMs: r.spawnDelayMs,
+        difficultyLabel: r.difficultyLabel,
       })),
     };
   }
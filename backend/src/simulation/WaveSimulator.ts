@@ -0,0 +1,490 @@
+import {
+  AttackPattern,
+  DamageType,
+  EnemyAbilities,
+  EnemyDefinition,
+  EnemySpawnData,
+  MapPoint,
+  ProjectileType,
+  Resistances,
+  StatusEffect,
+  StatusEffectType,
+  TargetingMode,
+  TowerDB,
+  TowerDefinition,
+  WaveSimulationResult,
+} from '../types';
+import { GRID_SIZE } from '../config/board';
+import { DEFAULT_TARGETING_MODE, selectTarget } from './targeting';
+import { DEFAULT_ATTACK_PATTERN } from './attackPatterns';
+import { DEFAULT_DAMAGE_TYPE, calculateDamage } from './damage';
+import { CHAIN_DAMAGE_FALLOFF, DEFAULT_PROJECTILE_STATS, splashDamage } from './projectiles';
+import {
+  DEFAULT_EFFECT_STATS,
+  applyStatusEffect,
+  getEffectiveArmor,
+  getSpeedMultiplier,
+  tickStatusEffects,
+} from './statusEffects';
+import {
+  AuraBonus,
+  diagonalWaypoints,
+  getAuraBonus,
+  shouldPromote,
+  usesDiagonalPath,
+} from './abilities';
+
+/**
+ * WaveSimulator
+ * Deterministic, fixed-timestep replay of a single wave. The backend uses the
+ * outcome as the authoritative source for kills, leaks, rewards and lives, so
+ * the client can no longer report its own. Mirrors the frontend game loop
+ * (Enemy -> Tower -> Projectile -> Collision) on the default 1200px board,
+ * same as the balance-bot SimulationEngine. Enemies walk the map's waypoint
+ * polyline and leak when they reach its last point. Splash shots also hurt
+ * enemies around the impact, chain shots bounce to the nearest enemy not yet
+ * hit, and pierce shots fly straight through up to pierceCount + 1 enemies.
+ * Hits apply the tower's status effect (slow, poison, stun, armor shred).
+ * Enemy abilities: jumpers leap ahead periodically, diagonal walkers cut
+ * corners on maps that allow it, promoters turn into another enemy late in
+ * the path, and aura carriers speed up and armor nearby allies.
+ * Towers with a chess attack pattern only shoot enemies on their piece's cells.
+ * Mutators can speed every enemy up and make them regenerate health.
+ */
+
+const PROJECTILE_SPEED = 400; // pixels per second
+const HIT_THRESHOLD = 10; // pixels
+const TICK_MS = 1000 / 60;
+const MAX_WAVE_TIME_MS = 10 * 60 * 1000; // safety cap, unresolved enemies count as leaked
+
+export interface WaveSimulationInput {
+  waveNumber: number;
+  lives: number;
+  towers: TowerDB[];
+  towerDefinitions: TowerDefinition[]; // for attack patterns
+  waypoints: MapPoint[]; // grid units
+  allowDiagonal: boolean;
+  spawns: EnemySpawnData[];
+  enemyDefinitions: EnemyDefinition[];
+  enemyHealthWaveMultiplier: number;
+  enemyRewardWaveMultiplier: number;
+  enemySpeedMultiplier: number; // from mutators, 1 without
+  enemyRegenerationRate: number; // share of max health healed per second, 0 without
+}
+
+interface SimTower {
+  x: number;
+  y: number;
+  damage: number;
+  damageType: DamageType;
+  projectileType: ProjectileType;
+  splashRadius: number;
+  chainCount: number;
+  chainRange: number;
+  pierceCount: number;
+  effectType: StatusEffectType | null;
+  effectStrength: number;
+  effectDuration: number;
+  range: number;
+  attackPattern: AttackPattern;
+  targetingMode: TargetingMode;
+  cooldownMs: number;
+  lastFireTime: number;
+}
+
+interface SimEnemy {
+  id: number;
+  enemyId: number;
+  path: SimPath; // fixed at spawn, diagonal walkers may use a shortcut
+  progress: number; // pixels travelled along the path
+  x: number;
+  y: number;
+  speed: number;
+  health: number;
+  maxHealth: number;
+  armor: number;
+  resistances: Resistances;
+  abilities: EnemyAbilities;
+  effects: StatusEffect[];
+  aura: AuraBonus; // bonus from nearby aura carriers, refreshed every tick
+  nextJumpAt: number;
+  reward: number;
+  resolved: boolean;
+}
+
+interface SimProjectile {
+  x: number;
+  y: number;
+  target: SimEnemy | null; // null for pierce shots, which fly straight
+  damage: number;
+  damageType: DamageType;
+  projectileType: ProjectileType;
+  splashRadius: number;
+  chainRange: number;
+  bouncesLeft: number; // chain only
+  piercesLeft: number; // pierce only
+  dirX: number; // pierce only
+  dirY: number; // pierce only
+  travelLeft: number; // pierce only, pixels before the shot expires
+  hitIds: Set<number>; // enemies already hit by this shot or its chain
+  effectType: StatusEffectType | null;
+  effectStrength: number;
+  effectDuration: number;
+}
+
+function distance(x1: number, y1: number, x2: number, y2: number): number {
+  return Math.sqrt((x2 - x1) ** 2 + (y2 - y1) ** 2);
+}
+
+interface PathSegment {
+  x: number;
+  y: number;
+  dx: number;
+  dy: number;
+  start: number; // path distance at the segment's first point
+  length: number;
+}
+
+interface SimPath {
+  segments: PathSegment[];
+  length: number;
+}
+
+function buildPath(waypoints: MapPoint[]): SimPath {
+  const segments: PathSegment[] = [];
+  let length = 0;
+  for (let i = 0; i < waypoints.length - 1; i++) {
+    const a = waypoints[i]!;
+    const b = waypoints[i + 1]!;
+    const dx = (b.x - a.x) * GRID_SIZE;
+    const dy = (b.y - a.y) * GRID_SIZE;
+    const segLength = Math.sqrt(dx * dx + dy * dy);
+    if (segLength === 0) continue;
+    segments.push({
+      x: a.x * GRID_SIZE,
+      y: a.y * GRID_SIZE,
+      dx,
+      dy,
+      start: length,
+      length: segLength,
+    });
+    length += segLength;
+  }
+  return { segments, length };
+}
+
+function positionAt(segments: PathSegment[], progress: number): { x: number; y: number } {
+  for (const seg of segments) {
+    if (progress <= seg.start + seg.length) {
+      const t = Math.max(0, (progress - seg.start) / seg.length);
+      return { x: seg.x + seg.dx * t, y: seg.y + seg.dy * t };
+    }
+  }
+  const last = segments[segments.length - 1];
+  return last ? { x: last.x + last.dx, y: last.y + last.dy } : { x: 0, y: 0 };
+}
+
+/**
+ * Run one wave to completion and return what happened.
+ * Same inputs always produce the same result (no randomness, fixed tick).
+ */
+export function simulateWave(input: WaveSimulationInput): WaveSimulationResult {
+  const definitions = new Map(input.enemyDefinitions.map((d) => [d.id, d]));
+  const attackPatterns = new Map(input.towerDefinitions.map((d) => [d.id, d.attackPattern]));
+  const spawns = [...input.spawns].sort((a, b) => a.spawnDelay - b.spawnDelay);
+  const path = buildPath(input.waypoints);
+  const diagonalPath = buildPath(diagonalWaypoints(input.waypoints));
+  const spawnPos = positionAt(path.segments, 0);
+  const scaleHealth = (def: EnemyDefinition) =>
+    Math.round(def.health * (1 + input.waveNumber * input.enemyHealthWaveMultiplier));
+  const scaleReward = (def: EnemyDefinition) =>
+    Math.round(def.reward * (1 + input.waveNumber * input.enemyRewardWaveMultiplier));
+
+  const towers: SimTower[] = input.towers
+    .filter((t) => t.stats.fireRate > 0)
+    .map((t) => {
+      const stats = { ...DEFAULT_PROJECTILE_STATS, ...DEFAULT_EFFECT_STATS, ...t.stats };
+      return {
+        x: t.gridX * GRID_SIZE + GRID_SIZE / 2,
+        y: t.gridY * GRID_SIZE + GRID_SIZE / 2,
+        damage: stats.damage,
+        damageType: stats.damageType ?? DEFAULT_DAMAGE_TYPE,
+        projectileType: stats.projectileType,
+        splashRadius: stats.splashRadius,
+        chainCount: stats.chainCount,
+        chainRange: stats.chainRange,
+        pierceCount: stats.pierceCount,
+        effectType: stats.effectType,
+        effectStrength: stats.effectStrength,
+        effectDuration: stats.effectDuration,
+        range: stats.range,
+        attackPattern: attackPatterns.get(t.towerId) ?? DEFAULT_ATTACK_PATTERN,
+        targetingMode: t.targetingMode ?? DEFAULT_TARGETING_MODE,
+        cooldownMs: 1000 / stats.fireRate,
+        lastFireTime: -Infinity,
+      };
+    });
+
+  const result: WaveSimulationResult = {
+    waveNumber: input.waveNumber,
+    enemiesSpawned: 0,
+    enemiesKilled: 0,
+    enemiesLeaked: 0,
+    enemiesKilledByType: {},
+    coinsEarned: 0,
+    livesLost: 0,
+    damageDealt: 0,
+    durationMs: 0,
+  };
+
+  let enemies: SimEnemy[] = [];
+  let projectiles: SimProjectile[] = [];
+  let spawnIndex = 0;
+  let nextEnemyId = 1;
+  let time = 0;
+
+  // Deal final damage to an enemy, crediting the kill if it lands
+  const damageEnemy = (enemy: SimEnemy, damage: number): void => {
+    result.damageDealt += Math.min(damage, enemy.health);
+    enemy.health -= damage;
+    if (enemy.health <= 0) {
+      enemy.resolved = true;
+      result.enemiesKilled++;
+      result.coinsEarned += enemy.reward;
+      const key = String(enemy.enemyId);
+      result.enemiesKilledByType[key] = (result.enemiesKilledByType[key] ?? 0) + 1;
+    }
+  };
+
+  // Apply one projectile hit after (shredded) armor and resistances, then its effect
+  const hitEnemy = (enemy: SimEnemy, rawDamage: number, projectile: SimProjectile): void => {
+    if (enemy.resolved) return;
+    const armor = getEffectiveArmor(enemy.armor + enemy.aura.armorBonus, enemy.effects);
+    const damage = calculateDamage(rawDamage, projectile.damageType, {
+      armor,
+      resistances: enemy.resistances,
+    });
+    damageEnemy(enemy, damage);
+    if (!enemy.resolved && projectile.effectType) {
+      enemy.effects = applyStatusEffect(
+        enemy.effects,
+        projectile.effectType,
+        projectile.effectStrength,
+        projectile.effectDuration,
+        time
+      );
+    }
+  };
+
+  while (time < MAX_WAVE_TIME_MS) {
+    time += TICK_MS;
+
+    // Spawn enemies whose delay has elapsed
+    while (spawnIndex < spawns.length && spawns[spawnIndex]!.spawnDelay <= time) {
+      const spawn = spawns[spawnIndex++]!;
+      const def = definitions.get(spawn.enemyId);
+      if (!def) continue;
+
+      const health = scaleHealth(def);
+      const abilities = def.abilities ?? {};
+      enemies.push({
+        id: nextEnemyId++,
+        enemyId: def.id,
+        path: usesDiagonalPath(abilities, input.allowDiagonal) ? diagonalPath : path,
+        progress: 0,
+        x: spawnPos.x,
+        y: spawnPos.y,
+        speed: def.speed,
+        health,
+        maxHealth: health,
+        armor: def.armor ?? 0,
+        resistances: def.resistances ?? {},
+        abilities,
+        effects: [],
+        aura: { speedBonus: 0, armorBonus: 0 },
+        nextJumpAt: time + (abilities.jump?.intervalMs ?? 0),
+        reward: scaleReward(def),
+        resolved: false,
+      });
+      result.enemiesSpawned++;
+    }
+
+    // Auras are measured from positions at the start of the tick
+    for (const enemy of enemies) {
+      enemy.aura = getAuraBonus(enemy, enemies);
+    }
+
+    // Tick status effects (poison can kill) and regeneration, then move along the path,
+    // leak at the exit
+    for (const enemy of enemies) {
+      const ticked = tickStatusEffects(enemy.effects, time);
+      enemy.effects = ticked.effects;
+      if (ticked.damage > 0) damageEnemy(enemy, ticked.damage);
+      if (enemy.resolved) continue;
+      if (input.enemyRegenerationRate > 0) {
+        const heal = (enemy.maxHealth * input.enemyRegenerationRate * TICK_MS) / 1000;
+        enemy.health = Math.min(enemy.maxHealth, enemy.health + heal);
+      }
+
+      const speedMultiplier =
+        getSpeedMultiplier(enemy.effects) *
+        (1 + enemy.aura.speedBonus) *
+        input.enemySpeedMultiplier;
+      enemy.progress += (enemy.speed * speedMultiplier * TICK_MS) / 1000;
+
+      // Stunned enemies cannot jump; the jump waits until the stun ends
+      const jump = enemy.abilities.jump;
+      if (jump && time >= enemy.nextJumpAt && speedMultiplier > 0) {
+        enemy.progress += jump.distance;
+        enemy.nextJumpAt = time + jump.intervalMs;
+      }
+
+      if (shouldPromote(enemy.abilities, enemy.progress, enemy.path.length)) {
+        const promoted = definitions.get(enemy.abilities.promote!.toEnemyId);
+        if (promoted) {
+          const maxHealth = scaleHealth(promoted);
+          enemy.health = Math.max(1, Math.round((enemy.health / enemy.maxHealth) * maxHealth));
+          enemy.maxHealth = maxHealth;
+          enemy.enemyId = promoted.id;
+          enemy.speed = promoted.speed;
+          enemy.armor = promoted.armor ?? 0;
+          enemy.resistances = promoted.resistances ?? {};
+          enemy.reward = scaleReward(promoted);
+        }
+        // Abilities are replaced even if the target is missing, so this only happens once
+        enemy.abilities = promoted?.abilities ?? {};
+      }
+
+      const pos = positionAt(enemy.path.segments, enemy.progress);
+      enemy.x = pos.x;
+      enemy.y = pos.y;
+      if (enemy.progress >= enemy.path.length) {
+        enemy.resolved = true;
+        result.enemiesLeaked++;
+        if (result.livesLost < input.lives) result.livesLost++;
+      }
+    }
+    enemies = enemies.filter((e) => !e.resolved);
+
+    // Towers fire at an enemy they can attack, picked by their targeting mode
+    for (const tower of towers) {
+      if (time - tower.lastFireTime < tower.cooldownMs) continue;
+
+      const target = selectTarget(tower, tower.targetingMode, enemies);
+      if (!target) continue;
+
+      const isPierce = tower.projectileType === 'pierce';
+      const aim = distance(tower.x, tower.y, target.x, target.y) || 1;
+      projectiles.push({
+        x: tower.x,
+        y: tower.y,
+        target: isPierce ? null : target,
+        damage: tower.damage,
+        damageType: tower.damageType,
+        projectileType: tower.projectileType,
+        splashRadius: tower.splashRadius,
+        chainRange: tower.chainRange,
+        bouncesLeft: tower.chainCount,
+        piercesLeft: tower.pierceCount,
+        dirX: (target.x - tower.x) / aim,
+        dirY: (target.y - tower.y) / aim,
+        travelLeft: tower.range + HIT_THRESHOLD,
+        hitIds: new Set(),
+        effectType: tower.effectType,
+        effectStrength: tower.effectStrength,
+        effectDuration: tower.effectDuration,
+      });
+      tower.lastFireTime = time;
+    }
+
+    // Move projectiles (homing shots are dropped when their target is gone)
+    const move = (PROJECTILE_SPEED * TICK_MS) / 1000;
+    projectiles = projectiles.filter((p) => !p.target?.resolved);
+    for (const projectile of projectiles) {
+      if (!projectile.target) {
+        projectile.x += projectile.dirX * move;
+        projectile.y += projectile.dirY * move;
+        projectile.travelLeft -= move;
+        continue;
+      }
+      const dx = projectile.target.x - projectile.x;
+      const dy = projectile.target.y - projectile.y;
+      const dist = Math.sqrt(dx * dx + dy * dy);
+      if (dist > 0) {
+        projectile.x += (dx / dist) * move;
+        projectile.y += (dy / dist) * move;
+      }
+    }
+
+    // Resolve hits
+    const bounces: SimProjectile[] = [];
+    projectiles = projectiles.filter((projectile) => {
+      const target = projectile.target;
+
+      // Pierce: damage every new enemy the shot passes over
+      if (!target) {
+        for (const enemy of enemies) {
+          if (enemy.resolved || projectile.hitIds.has(enemy.id)) continue;
+          if (distance(projectile.x, projectile.y, enemy.x, enemy.y) >= HIT_THRESHOLD) continue;
+          hitEnemy(enemy, projectile.damage, projectile);
+          projectile.hitIds.add(enemy.id);
+          if (projectile.piercesLeft-- <= 0) return false;
+        }
+        return projectile.travelLeft > 0;
+      }
+
+      if (target.resolved) return false;
+      if (distance(projectile.x, projectile.y, target.x, target.y) >= HIT_THRESHOLD) return true;
+
+      hitEnemy(target, projectile.damage, projectile);
+      projectile.hitIds.add(target.id);
+
+      if (projectile.projectileType === 'splash') {
+        for (const enemy of enemies) {
+          if (enemy === target) continue;
+          const dist = distance(target.x, target.y, enemy.x, enemy.y);
+          const damage = splashDamage(projectile.damage, dist, projectile.splashRadius);
+          if (damage > 0) hitEnemy(enemy, damage, projectile);
+        }
+      }
+
+      if (projectile.projectileType === 'chain' && projectile.bouncesLeft > 0) {
+        let next: SimEnemy | null = null;
+        let nextDist = projectile.chainRange;
+        for (const enemy of enemies) {
+          if (enemy.resolved || projectile.hitIds.has(enemy.id)) continue;
+          const dist = distance(target.x, target.y, enemy.x, enemy.y);
+          if (dist <= nextDist) {
+            next = enemy;
+            nextDist = dist;
+          }
+        }
+        if (next) {
+          bounces.push({
+            ...projectile,
+            x: target.x,
+            y: target.y,
+            target: next,
+            damage: projectile.damage * CHAIN_DAMAGE_FALLOFF,
+            bouncesLeft: projectile.bouncesLeft - 1,
+          });
+        }
+      }
+      return false;
+    });
+    projectiles.push(...bounces);
+    enemies = enemies.filter((e) => !e.resolved);
+
+    if (result.livesLost >= input.lives) break;
+    if (spawnIndex >= spawns.length && enemies.length === 0) break;
+  }
+
+  // Anything still on the board when the time cap is hit counts as leaked
+  if (time >= MAX_WAVE_TIME_MS) {
+    result.enemiesLeaked += enemies.length;
+    result.livesLost = Math.min(input.lives, result.livesLost + enemies.length);
+  }
+
+  result.durationMs = Math.round(Math.min(time, MAX_WAVE_TIME_MS));
+  return result;
+}
@@ -0,0 +1,57 @@
+import { AttackPattern } from '../types';
+import { GRID_SIZE } from '../config/board';
+
+export const ATTACK_PATTERNS: AttackPattern[] = ['radius', 'rook', 'bishop', 'knight'];
+
+// Towers defined before attack patterns existed shoot anything in range
+export const DEFAULT_ATTACK_PATTERN: AttackPattern = 'radius';
+
+export function isAttackPattern(value: unknown): value is AttackPattern {
+  return ATTACK_PATTERNS.includes(value as AttackPattern);
+}
+
+/**
+ * Whether the cell `dx`, `dy` cells away from a tower is one its piece could
+ * move to. Rook lines and bishop diagonals reach `rangeCells` cells; a knight
+ * always hits its eight L-shaped cells, whatever its range. The tower's own
+ * cell is never included.
+ */
+export function isPatternCell(
+  pattern: AttackPattern,
+  dx: number,
+  dy: number,
+  rangeCells: number
+): boolean {
+  if (dx === 0 && dy === 0) return false;
+  const adx = Math.abs(dx);
+  const ady = Math.abs(dy);
+  switch (pattern) {
+    case 'radius':
+      return Math.hypot(dx, dy) <= rangeCells;
+    case 'rook':
+      return (adx === 0 || ady === 0) && Math.max(adx, ady) <= rangeCells;
+    case 'bishop':
+      return adx === ady && adx <= rangeCells;
+    case 'knight':
+      return (adx === 1 && ady === 2) || (adx === 2 && ady === 1);
+  }
+}
+
+/**
+ * Whether a tower can shoot an enemy at `target`. Radius towers use the exact
+ * pixel distance; pattern towers check the grid cell the enemy is standing on.
+ * Same rules as the game and the balance bot.
+ */
+export function canAttack(
+  tower: { x: number; y: number; range: number; attackPattern?: AttackPattern },
+  target: { x: number; y: number },
+  gridSize: number = GRID_SIZE
+): boolean {
+  const pattern = tower.attackPattern ?? DEFAULT_ATTACK_PATTERN;
+  if (pattern === 'radius') {
+    return Math.hypot(target.x - tower.x, target.y - tower.y) <= tower.range;
+  }
+  const dx = Math.floor(target.x / gridSize) - Math.floor(tower.x / gridSize);
+  const dy = Math.floor(target.y / gridSize) - Math.floor(tower.y / gridSize);
+  return isPatternCell(pattern, dx, dy, Math.floor(tower.range / gridSize));
+}
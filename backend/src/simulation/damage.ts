@@ -0,0 +1,29 @@
+import { DamageType, Resistances } from '../types';
+
+export const DAMAGE_TYPES: DamageType[] = ['pierce', 'splash', 'magic'];
+
+// Levels and sessions saved before damage types existed deal pierce damage
+export const DEFAULT_DAMAGE_TYPE: DamageType = 'pierce';
+
+// Every hit deals at least this much, so no enemy is fully immune
+const MIN_DAMAGE = 1;
+
+export function isDamageType(value: unknown): value is DamageType {
+  return DAMAGE_TYPES.includes(value as DamageType);
+}
+
+/**
+ * Damage a single hit deals after armor and resistances.
+ * Armor is subtracted first (magic ignores it), then the resistance for the
+ * damage type scales what is left. Mirrors the frontend CollisionSystem and
+ * the balance-bot SimulationEngine.
+ */
+export function calculateDamage(
+  damage: number,
+  damageType: DamageType,
+  target: { armor: number; resistances: Resistances }
+): number {
+  const armor = damageType === 'magic' ? 0 : target.armor;
+  const resistance = target.resistances[damageType] ?? 0;
+  return Math.max(MIN_DAMAGE, Math.round((damage - armor) * (1 - resistance)));
+}
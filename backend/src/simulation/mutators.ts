@@ -0,0 +1,68 @@
+import { Mutator, MutatorId } from '../types';
+
+// Sessions and statistics store mutator IDs, so keep IDs stable once they have been played
+export const MUTATORS: Mutator[] = [
+  { id: 'doubleSpeed', name: 'Double Speed', description: 'Enemies move twice as fast' },
+  { id: 'noSelling', name: 'No Selling', description: 'Towers cannot be sold' },
+  { id: 'halfRefunds', name: 'Half Refunds', description: 'Selling a tower refunds half as much' },
+  {
+    id: 'expensiveTowers',
+    name: 'Expensive Towers',
+    description: 'Building and upgrading towers costs 50% more',
+  },
+  {
+    id: 'regeneration',
+    name: 'Regeneration',
+    description: 'Enemies heal 5% of their max health per second',
+  },
+  {
+    id: 'fogOfWar',
+    name: 'Fog of War',
+    description: 'Enemies are only visible within range of a tower',
+  },
+];
+
+// Share of a tower's total cost refunded when it is sold
+export const SELL_REFUND_RATE = 0.7;
+
+const DOUBLE_SPEED_MULTIPLIER = 2;
+const HALF_REFUNDS_MULTIPLIER = 0.5;
+const EXPENSIVE_TOWERS_MULTIPLIER = 1.5;
+const REGENERATION_RATE = 0.05; // share of max health healed per second
+
+export function isMutatorId(value: unknown): value is MutatorId {
+  return MUTATORS.some((m) => m.id === value);
+}
+
+// Distinct IDs in catalog order, so the same set is always stored the same way
+export function normalizeMutators(mutators: MutatorId[]): MutatorId[] {
+  return MUTATORS.filter((m) => mutators.includes(m.id)).map((m) => m.id);
+}
+
+export function getEnemySpeedMultiplier(mutators: MutatorId[]): number {
+  return mutators.includes('doubleSpeed') ? DOUBLE_SPEED_MULTIPLIER : 1;
+}
+
+// Share of max health an enemy heals per second
+export function getEnemyRegenerationRate(mutators: MutatorId[]): number {
+  return mutators.includes('regeneration') ? REGENERATION_RATE : 0;
+}
+
+// What building or upgrading to a tower level costs
+export function getTowerCost(cost: number, mutators: MutatorId[]): number {
+  return mutators.includes('expensiveTowers')
+    ? Math.round(cost * EXPENSIVE_TOWERS_MULTIPLIER)
+    : cost;
+}
+
+export function canSellTowers(mutators: MutatorId[]): boolean {
+  return !mutators.includes('noSelling');
+}
+
+// Coins refunded for a tower that cost `totalInvested` over all its levels
+export function getSellRefund(totalInvested: number, mutators: MutatorId[]): number {
+  const rate = mutators.includes('halfRefunds')
+    ? SELL_REFUND_RATE * HALF_REFUNDS_MULTIPLIER
+    : SELL_REFUND_RATE;
+  return Math.floor(totalInvested * rate);
+}
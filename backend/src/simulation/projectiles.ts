@@ -0,0 +1,34 @@
+import { ProjectileType, TowerStats } from '../types';
+
+export const PROJECTILE_TYPES: ProjectileType[] = ['single', 'splash', 'chain', 'pierce'];
+
+// Levels and sessions saved before projectile types existed fire single-target shots
+export const DEFAULT_PROJECTILE_STATS: Pick<
+  TowerStats,
+  'projectileType' | 'splashRadius' | 'chainCount' | 'chainRange' | 'pierceCount'
+> = {
+  projectileType: 'single',
+  splashRadius: 0,
+  chainCount: 0,
+  chainRange: 0,
+  pierceCount: 0,
+};
+
+// Splash damage falls off linearly to this fraction at the edge of the radius
+export const SPLASH_EDGE_DAMAGE = 0.5;
+
+// Each chain bounce deals this fraction of the previous hit
+export const CHAIN_DAMAGE_FALLOFF = 0.75;
+
+export function isProjectileType(value: unknown): value is ProjectileType {
+  return PROJECTILE_TYPES.includes(value as ProjectileType);
+}
+
+/**
+ * Raw (pre-armor) damage a splash deals to an enemy `dist` pixels from the
+ * impact point. The enemy that was hit directly takes full damage.
+ */
+export function splashDamage(damage: number, dist: number, radius: number): number {
+  if (radius <= 0 || dist > radius) return 0;
+  return damage * (1 - (dist / radius) * (1 - SPLASH_EDGE_DAMAGE));
+}
@@ -0,0 +1,53 @@
+// A random number generator returning floats in [0, 1), like Math.random
+export type Rng = () => number;
+
+/**
+ * Seeded generator (mulberry32): the same seed always yields the same
+ * sequence, so anything built from it can be reproduced.
+ */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Derive a seed from a string (FNV-1a), e.g. to seed from an ID
+export function hashSeed(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Integer in [min, max]
+export function randomInt(rng: Rng, min: number, max: number): number {
+  return min + Math.floor(rng() * (max - min + 1));
+}
+
+// Copy of the list in a random order (Fisher-Yates)
+export function shuffle<T>(rng: Rng, items: readonly T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [result[i], result[j]] = [result[j]!, result[i]!];
+  }
+  return result;
+}
+
+// Seeds are unsigned 32-bit integers
+const SEED_RANGE = 2 ** 32;
+
+export function isSeed(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) < SEED_RANGE;
+}
+
+// A fresh seed for a new game; the game is reproducible from it, not from this
+export function createSeed(): number {
+  return Math.floor(Math.random() * SEED_RANGE);
+}
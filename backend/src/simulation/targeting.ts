@@ -0,0 +1,70 @@
+import { AttackPattern, TargetingMode } from '../types';
+import { canAttack } from './attackPatterns';
+
+export const TARGETING_MODES: TargetingMode[] = [
+  'first',
+  'last',
+  'strongest',
+  'weakest',
+  'closest',
+];
+
+// Towers built before targeting modes existed keep the old nearest-enemy rule
+export const DEFAULT_TARGETING_MODE: TargetingMode = 'closest';
+
+export interface TargetCandidate {
+  x: number;
+  y: number;
+  health: number;
+  progress: number; // distance travelled along the path
+}
+
+export function isTargetingMode(value: unknown): value is TargetingMode {
+  return TARGETING_MODES.includes(value as TargetingMode);
+}
+
+/**
+ * Pick the enemy a tower shoots at. Only enemies the tower can attack (within
+ * range, or on its pattern's cells) are considered; ties keep the earlier
+ * candidate so the choice is deterministic.
+ * Mirrors the frontend TowerSystem and the balance-bot SimulationEngine.
+ */
+export function selectTarget<T extends TargetCandidate>(
+  tower: { x: number; y: number; range: number; attackPattern?: AttackPattern },
+  mode: TargetingMode,
+  candidates: T[]
+): T | null {
+  let best: T | null = null;
+  let bestScore = -Infinity;
+
+  for (const enemy of candidates) {
+    if (!canAttack(tower, enemy)) continue;
+    const dist = Math.sqrt((enemy.x - tower.x) ** 2 + (enemy.y - tower.y) ** 2);
+
+    let score: number;
+    switch (mode) {
+      case 'first':
+        score = enemy.progress;
+        break;
+      case 'last':
+        score = -enemy.progress;
+        break;
+      case 'strongest':
+        score = enemy.health;
+        break;
+      case 'weakest':
+        score = -enemy.health;
+        break;
+      case 'closest':
+        score = -dist;
+        break;
+    }
+
+    if (score > bestScore) {
+      best = enemy;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
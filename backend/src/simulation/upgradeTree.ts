@@ -0,0 +1,92 @@
+import { TowerLevel } from '../types';
+
+// A tower's levels form an upgrade tree: each level is a node keyed by
+// (level, branch), and its parentBranch names the node one level below that
+// upgrades into it. Linear towers only use the unnamed main branch.
+export const MAIN_BRANCH = '';
+export const MAX_BRANCH_LENGTH = 30;
+
+type LevelNode = Pick<TowerLevel, 'level' | 'branch' | 'parentBranch'>;
+
+export function findLevelNode<T extends LevelNode>(
+  levels: T[],
+  level: number,
+  branch: string
+): T | undefined {
+  return levels.find((l) => l.level === level && l.branch === branch);
+}
+
+// The nodes a tower at this node can upgrade into (more than one is a branch point)
+export function getUpgradeOptions<T extends LevelNode>(
+  levels: T[],
+  level: number,
+  branch: string
+): T[] {
+  return levels.filter((l) => l.level === level + 1 && l.parentBranch === branch);
+}
+
+// The nodes from level 1 up to this one, i.e. everything a tower here has paid for
+export function getUpgradePath<T extends LevelNode>(
+  levels: T[],
+  level: number,
+  branch: string
+): T[] {
+  const path: T[] = [];
+  let node = findLevelNode(levels, level, branch);
+  while (node) {
+    path.unshift(node);
+    node = findLevelNode(levels, node.level - 1, node.parentBranch);
+  }
+  return path;
+}
+
+/**
+ * Problems with a tower's upgrade tree: level 1 is the root on the main branch,
+ * and every other node needs the node it upgrades from
+ */
+export function getUpgradeTreeErrors(levels: LevelNode[]): string[] {
+  const errors: string[] = [];
+  const keys = new Set<string>();
+  for (const node of levels) {
+    const key = `${node.level}:${node.branch}`;
+    if (keys.has(key)) errors.push(`Level ${describeNode(node)} is defined twice`);
+    keys.add(key);
+
+    if (node.level === 1) {
+      if (node.branch !== MAIN_BRANCH) errors.push('Level 1 must be on the main branch');
+    } else if (!findLevelNode(levels, node.level - 1, node.parentBranch)) {
+      errors.push(
+        `Level ${describeNode(node)} upgrades from level ${describeNode({
+          level: node.level - 1,
+          branch: node.parentBranch,
+        })}, which does not exist`
+      );
+    }
+  }
+  return errors;
+}
+
+// "4 (Marksman)" for branch nodes, "4" on the main branch
+export function describeNode(node: Pick<TowerLevel, 'level' | 'branch'>): string {
+  return node.branch === MAIN_BRANCH ? `${node.level}` : `${node.level} (${node.branch})`;
+}
+
+// Key of a level in audits and config diffs: "towerId:level", plus ":branch" off the main branch
+export function levelKey(level: Pick<TowerLevel, 'towerId' | 'level' | 'branch'>): string {
+  const key = `${level.towerId}:${level.level}`;
+  return level.branch === MAIN_BRANCH ? key : `${key}:${level.branch}`;
+}
+
+/**
+ * Levels saved before upgrade trees (old config versions and bundles) have no
+ * branch fields; they all belong to the main branch
+ */
+export function withBranchDefaults<T extends Partial<LevelNode>>(
+  level: T
+): T & Pick<TowerLevel, 'branch' | 'parentBranch'> {
+  return {
+    ...level,
+    branch: level.branch ?? MAIN_BRANCH,
+    parentBranch: level.parentBranch ?? MAIN_BRANCH,
+  };
+}
@@ -7,6 +7,7 @@
  * Structure:
  * - Database connectivity & schema
  * - Repository layer (CRUD operations)
+ * - Wave simulation (deterministic, no DB)
  * - Service layer (business logic + error handling)
  * - Wave system (repository + service)
  * - API endpoints (HTTP integration, including error cases)
@@ -22,11 +23,48 @@ import { SettingsRepository } from '../database/repositories/SettingsRepository'
 import { GameSessionRepository } from '../database/repositories/GameSessionRepository';
 import { StatisticsRepository } from '../database/repositories/StatisticsRepository';
 import { WaveRepository } from '../database/repositories/WaveRepository';
+import { MapRepository } from '../database/repositories/MapRepository';
+import { ReplayRepository } from '../database/repositories/ReplayRepository';
+import { PlayerRepository } from '../database/repositories/PlayerRepository';
+import { AuditLogRepository } from '../database/repositories/AuditLogRepository';
 import { ConfigService } from '../services/ConfigService';
 import { GameService } from '../services/GameService';
-import { StatisticsService } from '../services/StatisticsService';
-import { WaveService } from '../services/WaveService';
-import type { GameSessionDB, GameStatistics } from '../types';
+import { DEFAULT_SCORING_SETTINGS, StatisticsService } from '../services/StatisticsService';
+import { DEFAULT_ENDLESS_SETTINGS, WaveService } from '../services/WaveService';
+import { ReplayService } from '../services/ReplayService';
+import { AuthService } from '../services/AuthService';
+import { AuditService } from '../services/AuditService';
+import { ConfigVersionService } from '../services/ConfigVersionService';
+import { ConfigBundleService } from '../services/ConfigBundleService';
+import { DailyChallengeService } from '../services/DailyChallengeService';
+import { simulateWave } from '../simulation/WaveSimulator';
+import { selectTarget } from '../simulation/targeting';
+import { calculateDamage } from '../simulation/damage';
+import { DEFAULT_PROJECTILE_STATS, splashDamage } from '../simulation/projectiles';
+import {
+  DEFAULT_EFFECT_STATS,
+  applyStatusEffect,
+  getEffectiveArmor,
+  getSpeedMultiplier,
+  tickStatusEffects,
+} from '../simulation/statusEffects';
+import { diagonalWaypoints, getAuraBonus, shouldPromote } from '../simulation/abilities';
+import { canAttack, isPatternCell } from '../simulation/attackPatterns';
+import { getUpgradeOptions, getUpgradePath, getUpgradeTreeErrors } from '../simulation/upgradeTree';
+import type {
+  AttackPattern,
+  EndGameStats,
+  EnemyDefinition,
+  GameOutcome,
+  GameSessionDB,
+  GameSettings,
+  GameStatistics,
+  PlayerRole,
+  ReplayUpload,
+  TowerDB,
+  TowerDefinition,
+  WaveDefinition,
+} from '../types';
 
 // Test configuration
 const API_BASE = process.env['API_BASE'] || 'http://localhost:3001';
@@ -136,17 +174,6 @@ async function fetchJson<T>(path: string, options?: RequestInit): Promise<T> {
 // Factory functions for duplicated test payloads
 type SessionPayload = Omit<GameSessionDB, 'id' | 'startedAt' | 'lastUpdated'>;
 type StatsPayload = Omit<GameStatistics, 'id' | 'createdAt' | 'settingsId'>;
-type EndGameStats = Pick<
-  GameStatistics,
-  | 'duration'
-  | 'enemiesKilledTotal'
-  | 'enemiesKilledByType'
-  | 'towersBuiltTotal'
-  | 'towersBuiltByType'
-  | 'coinsEarned'
-  | 'coinsSpent'
-  | 'damageDealt'
->;
 
 function makeSessionPayload(
   gameId: string,
@@ -165,6 +192,8 @@ function makeSessionPayload(
     coinsEarned: 0,
     coinsSpent: 0,
     damageDealt: 0,
+    playTimeMs: 0,
+    waveActive: false,
     status: 'active',
     ...overrides,
   };
@@ -173,13 +202,45 @@ function makeSessionPayload(
 function makeEndGameStats(overrides?: Partial<EndGameStats>): EndGameStats {
   return {
     duration: 0,
-    enemiesKilledTotal: 0,
     enemiesKilledByType: {},
-    towersBuiltTotal: 0,
     towersBuiltByType: {},
-    coinsEarned: 0,
-    coinsSpent: 0,
-    damageDealt: 0,
+    damageByTowerType: {},
+    ...overrides,
+  };
+}
+
+function makeReplayPayload(overrides?: Partial<ReplayUpload>): ReplayUpload {
+  return {
+    config: {
+      towers: [],
+      enemies: [],
+      map: {
+        id: 1,
+        name: 'Test Map',
+        description: '',
+        waypoints: [
+          { x: -1, y: 5 },
+          { x: 21, y: 5 },
+        ],
+        blockedCells: [],
+        allowDiagonal: false,
+      },
+      initialCoins: 200,
+      lives: 10,
+    },
+    actions: [
+      {
+        type: 'build',
+        gameTime: 1000,
+        towerInstanceId: 'tower-1',
+        towerId: 1,
+        gridX: 3,
+        gridY: 3,
+        coins: 171,
+      },
+      { type: 'sell', gameTime: 2000, towerInstanceId: 'tower-1', coins: 191 },
+    ],
+    duration: 5000,
     ...overrides,
   };
 }
@@ -232,6 +293,11 @@ async function testDatabase(): Promise<void> {
       'game_sessions',
       'game_statistics',
       'wave_definitions',
+      'maps',
+      'game_replays',
+      'players',
+      'config_audit_log',
+      'config_versions',
     ];
 
     for (const table of tables) {
@@ -267,6 +333,11 @@ async function testDatabase(): Promise<void> {
     const result = await query('SELECT COUNT(*) as count FROM wave_definitions');
     assert(Number(result.rows[0]?.['count']) >= 1, 'Missing wave definitions');
   });
+
+  await test('Seed data present - maps', async () => {
+    const result = await query('SELECT COUNT(*) as count FROM maps');
+    assert(Number(result.rows[0]?.['count']) >= 1, 'Missing maps');
+  });
 }
 
 // ============================================================
@@ -281,6 +352,10 @@ async function testRepositories(): Promise<void> {
   const sessionRepo = new GameSessionRepository();
   const statsRepo = new StatisticsRepository();
   const waveRepo = new WaveRepository();
+  const mapRepo = new MapRepository();
+  const replayRepo = new ReplayRepository();
+  const playerRepo = new PlayerRepository();
+  const auditRepo = new AuditLogRepository();
 
   // Tower Repository
   await test('TowerRepository.getAllTowerDefinitions', async () => {
@@ -295,6 +370,7 @@ async function testRepositories(): Promise<void> {
     const tower = await towerRepo.getTowerDefinition(2);
     assertDefined(tower, 'Sniper tower (id=2) not found');
     assertEqual(tower.name, 'Sniper Tower', 'Sniper tower name mismatch');
+    assertEqual(tower.attackPattern, 'rook', 'Sniper tower should attack like a rook');
   });
 
   await test('TowerRepository.getTowerDefinition - nonexistent', async () => {
@@ -327,6 +403,11 @@ async function testRepositories(): Promise<void> {
     assertGreater(level.damage, 0, 'Damage should be positive');
     assertGreater(level.range, 0, 'Range should be positive');
     assertGreater(level.fireRate, 0, 'Fire rate should be positive');
+    assert(['pierce', 'splash', 'magic'].includes(level.damageType), 'Damage type should be valid');
+    assert(
+      ['single', 'splash', 'chain', 'pierce'].includes(level.projectileType),
+      'Projectile type should be valid'
+    );
   });
 
   await test('TowerRepository.getMaxLevel', async () => {
@@ -349,6 +430,13 @@ async function testRepositories(): Promise<void> {
     assertGreater(enemy.speed, 0, 'Queen speed should be positive');
   });
 
+  await test('EnemyRepository.getEnemyDefinition - armor and resistances', async () => {
+    const rook = await enemyRepo.getEnemyDefinition(4);
+    assertDefined(rook, 'Rook enemy (id=4) not found');
+    assertGreater(rook.armor, 0, 'Rook should be armored');
+    assert(typeof rook.resistances === 'object', 'Resistances should be parsed');
+  });
+
   await test('EnemyRepository.getEnemyDefinition - nonexistent', async () => {
     const enemy = await enemyRepo.getEnemyDefinition(999);
     assert(enemy === null, 'Should return null for nonexistent enemy');
@@ -411,6 +499,36 @@ async function testRepositories(): Promise<void> {
     await sessionRepo.deleteGameSession('test-session-3');
   });
 
+  await test('GameSessionRepository.getSessionsByStatus', async () => {
+    await sessionRepo.createGameSession(makeSessionPayload('test-session-4'));
+    await sessionRepo.createGameSession(
+      makeSessionPayload('test-session-5', { status: 'abandoned' })
+    );
+    const active = await sessionRepo.getSessionsByStatus('active');
+    const abandoned = await sessionRepo.getSessionsByStatus('abandoned');
+    assert(
+      active.some((s) => s.gameId === 'test-session-4'),
+      'Active session should be listed'
+    );
+    assert(!active.some((s) => s.gameId === 'test-session-5'), 'Abandoned session is not active');
+    assert(
+      abandoned.some((s) => s.gameId === 'test-session-5'),
+      'Abandoned session should be listed'
+    );
+    // Cleanup
+    await sessionRepo.deleteGameSession('test-session-4');
+    await sessionRepo.deleteGameSession('test-session-5');
+  });
+
+  await test('GameSessionRepository.cleanupAbandonedSessions - keeps recent sessions', async () => {
+    await sessionRepo.createGameSession(makeSessionPayload('test-session-6'));
+    await sessionRepo.cleanupAbandonedSessions(72);
+    const session = await sessionRepo.getGameSession('test-session-6');
+    assertEqual(session?.status, 'active', 'Recently played session should stay active');
+    // Cleanup
+    await sessionRepo.deleteGameSession('test-session-6');
+  });
+
   // Statistics Repository
   await test('StatisticsRepository.createStatistics and getStatisticsByGameId', async () => {
     const stat = await statsRepo.createStatistics(
@@ -429,6 +547,33 @@ async function testRepositories(): Promise<void> {
     await query('DELETE FROM game_statistics WHERE game_id = $1', ['test-stat-1']);
   });
 
+  // Replay Repository
+  await test('ReplayRepository.saveReplay and getReplayByGameId', async () => {
+    const saved = await replayRepo.saveReplay({ gameId: 'test-replay-1', ...makeReplayPayload() });
+    assert(saved.id !== undefined && saved.id > 0, 'Replay ID should be positive');
+
+    const retrieved = await replayRepo.getReplayByGameId('test-replay-1');
+    assertDefined(retrieved, 'Replay not found');
+    assertEqual(retrieved.actions.length, 2, 'Actions should round-trip');
+    assertEqual(retrieved.config.map.name, 'Test Map', 'Config should round-trip');
+
+    // Saving again replaces the existing replay
+    await replayRepo.saveReplay({
+      gameId: 'test-replay-1',
+      ...makeReplayPayload({ actions: [], duration: 100 }),
+    });
+    const replaced = await replayRepo.getReplayByGameId('test-replay-1');
+    assertEqual(replaced?.actions.length, 0, 'Actions should be replaced');
+
+    const deleted = await replayRepo.deleteReplay('test-replay-1');
+    assert(deleted, 'Replay should be deleted');
+  });
+
+  await test('ReplayRepository.getReplayByGameId - nonexistent', async () => {
+    const replay = await replayRepo.getReplayByGameId('nonexistent-replay');
+    assert(replay === null, 'Should return null for nonexistent replay');
+  });
+
   // Wave Repository
   await test('WaveRepository.getWave', async () => {
     const definitions = await waveRepo.getWave(1);
@@ -451,6 +596,501 @@ async function testRepositories(): Promise<void> {
     const atMax = await waveRepo.getWave(maxWave);
     assertEqual(beyondMax.length, atMax.length, 'Beyond-max wave should match max wave definition count');
   });
+
+  // Map Repository
+  await test('MapRepository.getDefaultMap', async () => {
+    const map = await mapRepo.getDefaultMap();
+    assertDefined(map, 'Default map not found');
+    assertGreaterOrEqual(map.waypoints.length, 2, 'Default map should have a path');
+    assert(Array.isArray(map.blockedCells), 'Blocked cells should be parsed from JSONB');
+  });
+
+  await test('MapRepository.create, update and delete', async () => {
+    const created = await mapRepo.createMap({
+      name: 'test-map-repo',
+      description: 'Repository test map',
+      waypoints: [
+        { x: -1, y: 1 },
+        { x: 21, y: 1 },
+      ],
+      blockedCells: [{ gridX: 0, gridY: 0 }],
+      allowDiagonal: true,
+    });
+    assertGreater(created.id, 0, 'Created map should have an ID');
+    assertEqual(created.blockedCells.length, 1, 'Blocked cells should round-trip');
+    assertEqual(created.allowDiagonal, true, 'allowDiagonal should round-trip');
+
+    const updated = await mapRepo.updateMap(created.id, { description: 'Updated' });
+    assert(updated, 'Update should succeed');
+    const fetched = await mapRepo.getMap(created.id);
+    assertEqual(fetched?.description, 'Updated', 'Description should be updated');
+
+    assert(await mapRepo.deleteMap(created.id), 'Delete should succeed');
+    assert((await mapRepo.getMap(created.id)) === null, 'Deleted map should be gone');
+  });
+
+  // Player Repository
+  await test('PlayerRepository.createPlayer and getPlayerByUsername', async () => {
+    const created = await playerRepo.createPlayer('test-player-repo', 'salt:hash');
+    assertGreater(created.id, 0, 'Player should have an ID');
+
+    const fetched = await playerRepo.getPlayerByUsername('TEST-Player-Repo');
+    assertEqual(fetched?.id, created.id, 'Username lookup should ignore case');
+    assertEqual(fetched?.passwordHash, 'salt:hash', 'Password hash should round-trip');
+    assertEqual(fetched?.role, 'player', 'New players should have the player role');
+
+    assert(await playerRepo.updatePlayerRole(created.id, 'designer'), 'Role update should succeed');
+    const promoted = await playerRepo.getPlayerById(created.id);
+    assertEqual(promoted?.role, 'designer', 'Role should be updated');
+
+    assert(await playerRepo.deletePlayer(created.id), 'Delete should succeed');
+    assert((await playerRepo.getPlayerById(created.id)) === null, 'Deleted player should be gone');
+  });
+
+  // Audit Log Repository
+  await test('AuditLogRepository.insertEntries and getEntries', async () => {
+    const entityId = `test-audit-${Date.now()}`;
+    await auditRepo.insertEntries([
+      {
+        playerId: null,
+        username: 'test-audit',
+        entityType: 'map',
+        entityId,
+        field: 'name',
+        oldValue: 'Old',
+        newValue: 'New',
+      },
+      {
+        playerId: null,
+        username: 'test-audit',
+        entityType: 'map',
+        entityId,
+        field: 'waypoints',
+        oldValue: [{ x: 0, y: 1 }],
+        newValue: null,
+      },
+    ]);
+
+    const entries = (await auditRepo.getEntries('map', 10)).filter((e) => e.entityId === entityId);
+    assertEqual(entries.length, 2, 'Both entries should be stored');
+    const name = entries.find((e) => e.field === 'name');
+    assertEqual(name?.oldValue, 'Old', 'String values should round-trip');
+    assertEqual(name?.newValue, 'New', 'String values should round-trip');
+    const waypoints = entries.find((e) => e.field === 'waypoints');
+    assertEqual(JSON.stringify(waypoints?.oldValue), '[{"x":0,"y":1}]', 'JSON should round-trip');
+    assertEqual(waypoints?.newValue, null, 'Null should round-trip');
+
+    await query('DELETE FROM config_audit_log WHERE entity_id = $1', [entityId]);
+  });
+}
+
+// ============================================================
+// WAVE SIMULATION TESTS
+// ============================================================
+async function testWaveSimulation(): Promise<void> {
+  section('Wave Simulation');
+
+  const pawn: EnemyDefinition = {
+    id: 1,
+    name: 'Pawn',
+    description: '',
+    health: 50,
+    speed: 100,
+    reward: 10,
+    color: '#fff',
+    size: 10,
+    armor: 0,
+    resistances: {},
+    abilities: {},
+  };
+  const basicTower: TowerDefinition = {
+    id: 1,
+    name: 'Basic Tower',
+    color: '#fff',
+    description: '',
+    maxLevel: 5,
+    attackPattern: 'radius',
+  };
+  const spawns = [0, 500, 1000].map((spawnDelay) => ({ enemyId: 1, spawnDelay }));
+  const makeTower = (gridX: number, damage: number): TowerDB => ({
+    id: `tower-${gridX}`,
+    towerId: 1,
+    gridX,
+    gridY: 3,
+    level: 1,
+    stats: {
+      cost: 0,
+      damage,
+      range: 150,
+      fireRate: 2,
+      damageType: 'pierce',
+      ...DEFAULT_PROJECTILE_STATS,
+      ...DEFAULT_EFFECT_STATS,
+    },
+  });
+  const baseInput = {
+    waveNumber: 1,
+    lives: 10,
+    waypoints: [
+      { x: -1, y: 5 },
+      { x: 21, y: 5 },
+    ],
+    allowDiagonal: false,
+    spawns,
+    enemyDefinitions: [pawn],
+    towerDefinitions: [basicTower],
+    enemyHealthWaveMultiplier: 0,
+    enemyRewardWaveMultiplier: 0,
+    enemySpeedMultiplier: 1,
+    enemyRegenerationRate: 0,
+  };
+
+  await test('simulateWave - no towers leaks every enemy', async () => {
+    const result = simulateWave({ ...baseInput, towers: [] });
+    assertEqual(result.enemiesSpawned, 3, 'All enemies should spawn');
+    assertEqual(result.enemiesLeaked, 3, 'All enemies should leak');
+    assertEqual(result.livesLost, 3, 'Each leak should cost a life');
+    assertEqual(result.coinsEarned, 0, 'No rewards without kills');
+  });
+
+  await test('simulateWave - strong towers kill everything', async () => {
+    const result = simulateWave({ ...baseInput, towers: [makeTower(5, 1000), makeTower(10, 1000)] });
+    assertEqual(result.enemiesKilled, 3, 'All enemies should be killed');
+    assertEqual(result.livesLost, 0, 'No lives should be lost');
+    assertEqual(result.coinsEarned, 30, 'Rewards should be summed');
+    assertEqual(result.enemiesKilledByType['1'], 3, 'Kills should be grouped by type');
+    assertEqual(result.damageDealt, 150, 'Damage should not count overkill');
+  });
+
+  await test('simulateWave - is deterministic', async () => {
+    const input = { ...baseInput, towers: [makeTower(8, 20)] };
+    const first = simulateWave(input);
+    const second = simulateWave(input);
+    assertEqual(JSON.stringify(second), JSON.stringify(first), 'Same input should give same result');
+  });
+
+  await test('simulateWave - lives lost capped at remaining lives', async () => {
+    const result = simulateWave({ ...baseInput, lives: 2, towers: [] });
+    assertEqual(result.livesLost, 2, 'Lives lost should not exceed remaining lives');
+  });
+
+  await test('simulateWave - reports how long the wave was in play', async () => {
+    const leaked = simulateWave({ ...baseInput, towers: [] });
+    const strong = [makeTower(5, 1000), makeTower(10, 1000)];
+    const killed = simulateWave({ ...baseInput, towers: strong });
+    assertGreater(killed.durationMs, 0, 'A played wave should take time');
+    assertGreater(leaked.durationMs, killed.durationMs, 'Kills should end the wave sooner');
+  });
+
+  await test('simulateWave - health scales with wave', async () => {
+    const towers = [makeTower(10, 60)];
+    const early = simulateWave({ ...baseInput, towers });
+    const late = simulateWave({ ...baseInput, towers, waveNumber: 20, enemyHealthWaveMultiplier: 0.5 });
+    assertGreaterOrEqual(early.enemiesKilled, late.enemiesKilled, 'Scaled enemies should be harder');
+  });
+
+  await test('simulateWave - enemies follow the map waypoints', async () => {
+    const towers = [makeTower(5, 1000), makeTower(10, 1000)];
+    const farPath = [
+      { x: -1, y: 9 },
+      { x: 21, y: 9 },
+    ];
+    const result = simulateWave({ ...baseInput, towers, waypoints: farPath });
+    assertEqual(result.enemiesKilled, 0, 'Towers out of range of the path should not kill');
+
+    const bentPath = [
+      { x: -1, y: 9 },
+      { x: 8, y: 9 },
+      { x: 8, y: 4 },
+      { x: 21, y: 4 },
+    ];
+    const bent = simulateWave({ ...baseInput, towers, waypoints: bentPath });
+    assertEqual(bent.enemiesKilled, 3, 'Path bending past the towers should be covered');
+  });
+
+  await test('selectTarget - picks by targeting mode', async () => {
+    const tower = { x: 0, y: 0, range: 100 };
+    const leader = { x: 90, y: 0, health: 20, progress: 300 };
+    const tank = { x: 50, y: 0, health: 200, progress: 200 };
+    const straggler = { x: 10, y: 0, health: 50, progress: 100 };
+    const outOfRange = { x: 500, y: 0, health: 1, progress: 900 };
+    const candidates = [leader, tank, straggler, outOfRange];
+
+    assertEqual(selectTarget(tower, 'first', candidates), leader, 'first = furthest along');
+    assertEqual(selectTarget(tower, 'last', candidates), straggler, 'last = least far along');
+    assertEqual(selectTarget(tower, 'strongest', candidates), tank, 'strongest = most health');
+    assertEqual(selectTarget(tower, 'weakest', candidates), leader, 'weakest = least health');
+    assertEqual(selectTarget(tower, 'closest', candidates), straggler, 'closest = nearest');
+    assertEqual(selectTarget(tower, 'first', [outOfRange]), null, 'Out of range is ignored');
+  });
+
+  await test('isPatternCell / canAttack - chess attack patterns', async () => {
+    assert(isPatternCell('rook', 0, -3, 3), 'Rook reaches along its column');
+    assert(!isPatternCell('rook', 1, 1, 3), 'Rook cannot hit diagonals');
+    assert(!isPatternCell('rook', 4, 0, 3), 'Rook lines stop at range');
+    assert(isPatternCell('bishop', -2, 2, 3), 'Bishop reaches along diagonals');
+    assert(!isPatternCell('bishop', 0, 1, 3), 'Bishop cannot hit orthogonals');
+    assert(isPatternCell('knight', 2, -1, 0), 'Knight cells ignore range');
+    assert(!isPatternCell('knight', 2, 2, 3), 'Knight only hits L-shaped cells');
+    assert(!isPatternCell('rook', 0, 0, 3), 'The tower cell is never attacked');
+
+    const tower = { x: 25, y: 25, range: 100 };
+    const target = { x: 75, y: 75 };
+    assert(canAttack(tower, target, 50), 'Radius towers use pixel distance');
+    assert(canAttack({ ...tower, attackPattern: 'bishop' }, target, 50), 'Diagonal cell is hit');
+    assert(!canAttack({ ...tower, attackPattern: 'rook' }, target, 50), 'Diagonal cell is missed');
+  });
+
+  await test('simulateWave - attack patterns', async () => {
+    const kills = (attackPattern: AttackPattern, gridY: number, range = 200) => {
+      const tower = makeTower(10, 1000);
+      return simulateWave({
+        ...baseInput,
+        towers: [{ ...tower, gridY, stats: { ...tower.stats, range } }],
+        towerDefinitions: [{ ...basicTower, attackPattern }],
+      }).enemiesKilled;
+    };
+    assertEqual(kills('radius', 2), 3, 'Radius tower covers the lane');
+    assertEqual(kills('rook', 2), 3, 'Rook hits the lane down its column');
+    assertEqual(kills('bishop', 2), 3, 'Bishop hits the lane on its diagonals');
+    assertEqual(kills('bishop', 2, 100), 0, 'Bishop diagonals stop at range');
+    assertEqual(kills('knight', 2), 0, 'Knight cannot reach three rows away');
+    assertEqual(kills('knight', 3), 3, 'Knight hits the lane on its L-shaped cells');
+  });
+
+  await test('calculateDamage - armor and resistances', async () => {
+    const plain = { armor: 0, resistances: {} };
+    const armored = { armor: 6, resistances: { splash: 0.5, magic: -0.5 } };
+    assertEqual(calculateDamage(20, 'pierce', plain), 20, 'No armor means full damage');
+    assertEqual(calculateDamage(20, 'pierce', armored), 14, 'Armor is subtracted');
+    assertEqual(calculateDamage(20, 'splash', armored), 7, 'Resistance scales after armor');
+    assertEqual(calculateDamage(20, 'magic', armored), 30, 'Magic ignores armor, weakness adds');
+    assertEqual(calculateDamage(3, 'pierce', armored), 1, 'Every hit deals at least 1');
+  });
+
+  await test('simulateWave - armor reduces damage dealt', async () => {
+    const towers = [makeTower(10, 60)];
+    const open = simulateWave({ ...baseInput, towers });
+    const armored = simulateWave({
+      ...baseInput,
+      towers,
+      enemyDefinitions: [{ ...pawn, armor: 40 }],
+    });
+    assertGreater(open.enemiesKilled, armored.enemiesKilled, 'Armored enemies should survive more');
+  });
+
+  await test('splashDamage - falls off towards the edge', async () => {
+    assertEqual(splashDamage(20, 0, 40), 20, 'Full damage at the impact point');
+    assertEqual(splashDamage(20, 40, 40), 10, 'Half damage at the edge');
+    assertEqual(splashDamage(20, 41, 40), 0, 'No damage outside the radius');
+  });
+
+  await test('simulateWave - splash, chain and pierce shots hit extra enemies', async () => {
+    const packed = [0, 150, 300, 450].map((spawnDelay) => ({ enemyId: 1, spawnDelay }));
+    const shoot = (stats: Partial<TowerDB['stats']>) => {
+      const tower = makeTower(10, 10);
+      return simulateWave({
+        ...baseInput,
+        spawns: packed,
+        towers: [{ ...tower, stats: { ...tower.stats, fireRate: 1, ...stats } }],
+      });
+    };
+
+    const single = shoot({});
+    const splash = shoot({ projectileType: 'splash', splashRadius: 60 });
+    const chain = shoot({ projectileType: 'chain', chainCount: 2, chainRange: 80 });
+    const pierce = shoot({ projectileType: 'pierce', pierceCount: 3 });
+    assertGreater(splash.damageDealt, single.damageDealt, 'Splash should hurt nearby enemies');
+    assertGreater(chain.damageDealt, single.damageDealt, 'Chain should bounce to nearby enemies');
+    assertGreater(pierce.damageDealt, single.damageDealt, 'Pierce should pass through enemies');
+  });
+
+  await test('applyStatusEffect - stacking rules', async () => {
+    let effects = applyStatusEffect([], 'slow', 0.2, 1000, 0);
+    effects = applyStatusEffect(effects, 'slow', 0.5, 500, 100);
+    assertEqual(effects.length, 1, 'Slow should not stack');
+    assertEqual(effects[0]?.strength, 0.5, 'Strongest slow wins');
+    assertEqual(effects[0]?.expiresAt, 1000, 'Latest expiry is kept');
+
+    let poison = applyStatusEffect([], 'poison', 10, 1000, 0);
+    for (let t = 100; t <= 300; t += 100) poison = applyStatusEffect(poison, 'poison', 10, 1000, t);
+    assertEqual(poison.length, 3, 'Poison stacks up to 3');
+    assertEqual(Math.min(...poison.map((e) => e.expiresAt)), 1100, 'Oldest stack is replaced');
+  });
+
+  await test('tickStatusEffects - poison ticks and effects expire', async () => {
+    const poisoned = applyStatusEffect([], 'poison', 10, 1000, 0);
+    const early = tickStatusEffects(poisoned, 400);
+    assertEqual(early.damage, 0, 'No tick before the first interval');
+    const ticked = tickStatusEffects(early.effects, 1000);
+    assertEqual(ticked.damage, 10, 'Two 500ms ticks at 10/s');
+    assertEqual(ticked.effects.length, 0, 'Expired effects are dropped');
+  });
+
+  await test('getSpeedMultiplier / getEffectiveArmor', async () => {
+    const slowed = applyStatusEffect([], 'slow', 0.3, 1000, 0);
+    assertEqual(getSpeedMultiplier([]), 1, 'No effects means full speed');
+    assertEqual(getSpeedMultiplier(slowed), 0.7, 'Slow removes a fraction of speed');
+    assertEqual(getSpeedMultiplier(applyStatusEffect(slowed, 'stun', 0, 100, 0)), 0, 'Stun stops');
+    const shredded = applyStatusEffect(applyStatusEffect([], 'shred', 2, 1000, 0), 'shred', 3, 1000, 0);
+    assertEqual(getEffectiveArmor(4, shredded), 0, 'Shred stacks and floors at zero');
+  });
+
+  await test('simulateWave - status effects help towers', async () => {
+    const withEffect = (stats: Partial<TowerDB['stats']>, armor = 0) => {
+      const tower = makeTower(10, 10);
+      return simulateWave({
+        ...baseInput,
+        enemyDefinitions: [{ ...pawn, armor }],
+        towers: [{ ...tower, stats: { ...tower.stats, ...stats } }],
+      });
+    };
+
+    const plain = withEffect({});
+    const slow = withEffect({ effectType: 'slow', effectStrength: 0.5, effectDuration: 2000 });
+    const poison = withEffect({ effectType: 'poison', effectStrength: 10, effectDuration: 3000 });
+    const stun = withEffect({ effectType: 'stun', effectDuration: 300 });
+    assertGreater(slow.damageDealt, plain.damageDealt, 'Slowed enemies stay in range longer');
+    assertGreater(poison.damageDealt, plain.damageDealt, 'Poison adds tick damage');
+    assertGreater(stun.enemiesKilled, plain.enemiesKilled, 'Stunned enemies are easier to kill');
+
+    const armored = withEffect({}, 4);
+    const shred = withEffect({ effectType: 'shred', effectStrength: 5, effectDuration: 3000 }, 4);
+    assertGreater(shred.damageDealt, armored.damageDealt, 'Shred removes armor');
+  });
+
+  await test('diagonalWaypoints / shouldPromote / getAuraBonus', async () => {
+    const cut = diagonalWaypoints([
+      { x: 0, y: 0 },
+      { x: 4, y: 0 },
+      { x: 4, y: 4 },
+    ]);
+    const expected = [
+      { x: 0, y: 0 },
+      { x: 2, y: 0 },
+      { x: 4, y: 2 },
+      { x: 4, y: 4 },
+    ];
+    assertEqual(JSON.stringify(cut), JSON.stringify(expected), 'Corners are cut between segment midpoints');
+
+    const promote = { promote: { atProgress: 0.5, toEnemyId: 5 } };
+    assert(!shouldPromote(promote, 40, 100), 'No promotion before the threshold');
+    assert(shouldPromote(promote, 50, 100), 'Promotes at the threshold');
+    assert(!shouldPromote({}, 100, 100), 'Enemies without the ability never promote');
+
+    const king = { x: 0, y: 0, abilities: { aura: { radius: 50, speedBonus: 0.2, armorBonus: 2 } } };
+    const near = { x: 30, y: 0, abilities: {} };
+    const far = { x: 80, y: 0, abilities: {} };
+    const enemies = [king, near, far];
+    assertEqual(getAuraBonus(near, enemies).armorBonus, 2, 'Allies in range get the aura');
+    assertEqual(getAuraBonus(far, enemies).speedBonus, 0, 'Allies out of range do not');
+    assertEqual(getAuraBonus(king, enemies).armorBonus, 0, 'The carrier does not buff itself');
+  });
+
+  await test('simulateWave - enemy abilities', async () => {
+    // Jumpers skip past a tower's range faster
+    const knight = { ...pawn, health: 200 };
+    const towers = [makeTower(10, 20)];
+    const walking = simulateWave({ ...baseInput, enemyDefinitions: [knight], towers });
+    const jumping = simulateWave({
+      ...baseInput,
+      enemyDefinitions: [{ ...knight, abilities: { jump: { distance: 150, intervalMs: 1000 } } }],
+      towers,
+    });
+    assertGreater(walking.damageDealt, jumping.damageDealt, 'Jumping enemies take less damage');
+
+    // Diagonal walkers cut the corner next to the tower, but only where the map allows it
+    const bentPath = [
+      { x: -1, y: 9 },
+      { x: 8, y: 9 },
+      { x: 8, y: 4 },
+      { x: 21, y: 4 },
+    ];
+    const corner = makeTower(8, 1000);
+    const cornerTower = { ...corner, gridY: 8, stats: { ...corner.stats, range: 60 } };
+    const bishopInput = {
+      ...baseInput,
+      waypoints: bentPath,
+      enemyDefinitions: [{ ...pawn, abilities: { diagonal: true } }],
+      towers: [cornerTower],
+    };
+    assertEqual(simulateWave(bishopInput).enemiesKilled, 3, 'Without allowDiagonal the path is walked');
+    assertEqual(
+      simulateWave({ ...bishopInput, allowDiagonal: true }).enemiesLeaked,
+      3,
+      'Diagonal walkers avoid the corner'
+    );
+
+    // Promoted enemies take the new type, reward and health share
+    const queen = { ...pawn, id: 5, name: 'Queen', health: 500, reward: 100 };
+    const promoting = { ...pawn, abilities: { promote: { atProgress: 0.5, toEnemyId: 5 } } };
+    const promoted = simulateWave({
+      ...baseInput,
+      enemyDefinitions: [promoting, queen],
+      towers: [makeTower(18, 1000)],
+    });
+    assertEqual(promoted.enemiesKilledByType['5'], 3, 'Kills are credited to the promoted type');
+    assertEqual(promoted.coinsEarned, 300, 'Promoted enemies pay the new reward');
+
+    // Aura carriers armor up the enemies around them
+    const auraInput = (abilities: EnemyDefinition['abilities']) =>
+      simulateWave({
+        ...baseInput,
+        spawns: [{ enemyId: 6, spawnDelay: 0 }, ...spawns],
+        enemyDefinitions: [pawn, { ...pawn, id: 6, health: 100000, abilities }],
+        towers: [{ ...makeTower(10, 10), targetingMode: 'weakest' }],
+      });
+    const plain = auraInput({});
+    const buffed = auraInput({ aura: { radius: 200, speedBonus: 0, armorBonus: 5 } });
+    assertGreater(
+      plain.enemiesKilledByType['1'] ?? 0,
+      buffed.enemiesKilledByType['1'] ?? 0,
+      'Aura armor protects allies'
+    );
+  });
+
+  await test('simulateWave - towers without a targeting mode target closest', async () => {
+    const legacy = simulateWave({ ...baseInput, towers: [makeTower(10, 20)] });
+    const closest = simulateWave({
+      ...baseInput,
+      towers: [{ ...makeTower(10, 20), targetingMode: 'closest' }],
+    });
+    assertEqual(JSON.stringify(legacy), JSON.stringify(closest), 'Legacy towers should target closest');
+  });
+
+  await test('simulateWave - mutators', async () => {
+    const towers = [makeTower(5, 13), makeTower(10, 13)];
+    const normal = simulateWave({ ...baseInput, towers });
+    const fast = simulateWave({ ...baseInput, towers, enemySpeedMultiplier: 2 });
+    const healing = simulateWave({ ...baseInput, towers, enemyRegenerationRate: 0.5 });
+    assertEqual(normal.enemiesKilled, 3, 'Baseline towers should kill everything');
+    assert(fast.enemiesLeaked > 0, 'Faster enemies should slip past the towers');
+    assert(healing.enemiesLeaked > 0, 'Regenerating enemies should outlast the towers');
+  });
+
+  await test('Upgrade trees - options, paths and validation', async () => {
+    const node = (level: number, branch: string, parentBranch = '') => ({
+      level,
+      branch,
+      parentBranch,
+    });
+    const tree = [
+      node(1, ''),
+      node(2, ''),
+      node(3, 'Marksman'),
+      node(3, 'Artillery'),
+      node(4, 'Marksman', 'Marksman'),
+    ];
+    const options = getUpgradeOptions(tree, 2, '').map((l) => l.branch);
+    assertEqual(options.join(), 'Marksman,Artillery', 'Level 2 should branch in two');
+    assertEqual(getUpgradeOptions(tree, 3, 'Artillery').length, 0, 'Artillery should end at 3');
+    const path = getUpgradePath(tree, 4, 'Marksman').map((l) => `${l.level}${l.branch}`);
+    assertEqual(path.join(), '1,2,3Marksman,4Marksman', 'Path should lead back to level 1');
+    assertEqual(getUpgradeTreeErrors(tree).length, 0, 'A valid tree has no errors');
+
+    const broken = [...tree, node(5, 'Deadeye', 'Artillery'), node(1, 'Artillery')];
+    assertEqual(getUpgradeTreeErrors(broken).length, 2, 'Orphans and branched roots are errors');
+  });
 }
 
 // ============================================================
@@ -463,6 +1103,8 @@ async function testServices(): Promise<void> {
   const gameService = new GameService();
   const statsService = new StatisticsService();
   const waveService = new WaveService();
+  const replayService = new ReplayService();
+  const authService = new AuthService();
 
   // Fetch actual DB values for dynamic assertions
   const normalSettings = await configService.getSettingsByMode('normal');
@@ -529,6 +1171,155 @@ async function testServices(): Promise<void> {
     assertDefined(byId, 'Should find settings by ID');
   });
 
+  await test('ConfigService.createMap - rejects invalid maps', async () => {
+    let threw = false;
+    try {
+      await configService.createMap({
+        name: 'test-invalid-map',
+        description: '',
+        waypoints: [{ x: 0, y: 0 }],
+        blockedCells: [],
+        allowDiagonal: false,
+      });
+    } catch {
+      threw = true;
+    }
+    assert(threw, 'Should reject a map with fewer than 2 waypoints');
+
+    threw = false;
+    try {
+      await configService.createMap({
+        name: 'test-invalid-map',
+        description: '',
+        waypoints: [
+          { x: -1, y: 5 },
+          { x: 21, y: 5 },
+        ],
+        blockedCells: [{ gridX: 20, gridY: 0 }],
+        allowDiagonal: false,
+      });
+    } catch {
+      threw = true;
+    }
+    assert(threw, 'Should reject blocked cells outside the grid');
+  });
+
+  await test('ConfigService.updateEnemyDefinition - rejects invalid armor and resistances', async () => {
+    const invalidUpdates = [{ armor: -1 }, { resistances: { fire: 0.5 } }, { resistances: { magic: 2 } }];
+    for (const updates of invalidUpdates) {
+      let threw = false;
+      try {
+        await configService.updateEnemyDefinition(1, updates as Partial<EnemyDefinition>);
+      } catch {
+        threw = true;
+      }
+      assert(threw, `Should reject ${JSON.stringify(updates)}`);
+    }
+  });
+
+  await test('ConfigService.updateEnemyDefinition - rejects invalid abilities', async () => {
+    const invalidAbilities = [
+      { jump: { distance: 0, intervalMs: 1000 } },
+      { diagonal: 'yes' },
+      { promote: { atProgress: 1.5, toEnemyId: 2 } },
+      { promote: { atProgress: 0.5, toEnemyId: 1 } },
+      { promote: { atProgress: 0.5, toEnemyId: 999 } },
+      { aura: { radius: 100, speedBonus: -0.5, armorBonus: 0 } },
+    ];
+    for (const abilities of invalidAbilities) {
+      let threw = false;
+      try {
+        await configService.updateEnemyDefinition(1, { abilities } as Partial<EnemyDefinition>);
+      } catch {
+        threw = true;
+      }
+      assert(threw, `Should reject ${JSON.stringify(abilities)}`);
+    }
+  });
+
+  await test('ConfigService.updateTowerDefinition - rejects unknown attack pattern', async () => {
+    let threw = false;
+    try {
+      await configService.updateTowerDefinition(1, {
+        attackPattern: 'queen',
+      } as unknown as Partial<TowerDefinition>);
+    } catch {
+      threw = true;
+    }
+    assert(threw, 'Should reject unknown attack pattern');
+  });
+
+  await test('ConfigService.deleteTowerLevel - refuses levels that upgrade further', async () => {
+    // The seeded Rapid Tower branches into Artillery and Marksman at level 4
+    let threw = false;
+    try {
+      await configService.deleteTowerLevel(3, 3);
+    } catch {
+      threw = true;
+    }
+    assert(threw, 'Should refuse to delete a level with upgrades above it');
+    assertDefined(await configService.getTowerLevel(3, 3), 'The level should be kept');
+  });
+
+  await test('ConfigService.upsertTowerLevel - rejects unknown damage type', async () => {
+    let threw = false;
+    try {
+      await configService.upsertTowerLevel({
+        towerId: 1,
+        level: 1,
+        branch: '',
+        parentBranch: '',
+        cost: 10,
+        damage: 10,
+        range: 100,
+        fireRate: 1,
+        damageType: 'fire' as 'pierce',
+        ...DEFAULT_PROJECTILE_STATS,
+        ...DEFAULT_EFFECT_STATS,
+      });
+    } catch {
+      threw = true;
+    }
+    assert(threw, 'Should reject an unknown damage type');
+  });
+
+  await test('ConfigService.upsertTowerLevel - rejects invalid projectile and effect settings', async () => {
+    const base = {
+      towerId: 1,
+      level: 1,
+      branch: '',
+      parentBranch: '',
+      cost: 10,
+      damage: 10,
+      range: 100,
+      fireRate: 1,
+      damageType: 'pierce' as const,
+      ...DEFAULT_PROJECTILE_STATS,
+      ...DEFAULT_EFFECT_STATS,
+    };
+    const invalid = [
+      { projectileType: 'laser' as 'single' },
+      { projectileType: 'splash' as const, splashRadius: 0 },
+      { projectileType: 'chain' as const, chainCount: 2, chainRange: 0 },
+      { projectileType: 'pierce' as const, pierceCount: 0 },
+      { splashRadius: -5 },
+      { effectType: 'burn' as 'slow', effectDuration: 1000 },
+      { effectType: 'slow' as const, effectStrength: 0.5, effectDuration: 0 },
+      { effectType: 'slow' as const, effectStrength: 1, effectDuration: 1000 },
+      { branch: 'Marksman' },
+      { level: 9, parentBranch: 'Nowhere' },
+    ];
+    for (const overrides of invalid) {
+      let threw = false;
+      try {
+        await configService.upsertTowerLevel({ ...base, ...overrides });
+      } catch {
+        threw = true;
+      }
+      assert(threw, `Should reject ${JSON.stringify(overrides)}`);
+    }
+  });
+
   // Game Service
   async function cleanupGame(gameId: string): Promise<void> {
     await gameService.startWave(gameId);
@@ -542,9 +1333,32 @@ async function testServices(): Promise<void> {
     assertEqual(game.coins, normalSettings.initialCoins, 'Initial coins should match normal settings');
     assertEqual(game.lives, normalSettings.initialLives, 'Initial lives should match normal settings');
     assertEqual(game.wave, 0, 'Initial wave should be 0');
+    const defaultMap = await configService.getDefaultMap();
+    assertEqual(game.map?.id, defaultMap?.id, 'Should default to the first map');
+    await cleanupGame(game.id);
+  });
+
+  await test('GameService.createGame - chosen map', async () => {
+    const maps = await configService.getAllMaps();
+    const lastMap = maps[maps.length - 1];
+    assertDefined(lastMap, 'Maps required');
+    const game = await gameService.createGame('10waves', 'normal', lastMap.id);
+    assertEqual(game.map?.id, lastMap.id, 'Game should use the chosen map');
+    const retrieved = await gameService.getGame(game.id);
+    assertEqual(retrieved?.map?.id, lastMap.id, 'Map should persist on the session');
     await cleanupGame(game.id);
   });
 
+  await test('GameService.createGame - nonexistent map', async () => {
+    let threw = false;
+    try {
+      await gameService.createGame('10waves', 'normal', 99999);
+    } catch (error) {
+      threw = error instanceof Error && error.message === 'Map not found';
+    }
+    assert(threw, 'Should throw Map not found');
+  });
+
   await test('GameService.createGame - easy mode', async () => {
     const game = await gameService.createGame('10waves', 'easy');
     assertEqual(game.coins, easySettings.initialCoins, 'Easy mode initial coins mismatch');
@@ -552,6 +1366,93 @@ async function testServices(): Promise<void> {
     await cleanupGame(game.id);
   });
 
+  await test('GameService.createGame - seed is kept and recorded', async () => {
+    const fresh = await gameService.createGame('10waves', 'normal');
+    assert(Number.isInteger(fresh.seed), 'A new game should get a seed');
+    await cleanupGame(fresh.id);
+
+    const maxSeed = 4294967295;
+    const game = await gameService.createGame('10waves', 'normal', undefined, undefined, maxSeed);
+    assertEqual(game.seed, maxSeed, 'The given seed should be used');
+    const retrieved = await gameService.getGame(game.id);
+    assertEqual(retrieved?.seed, maxSeed, 'Seed should persist on the session');
+    await cleanupGame(game.id);
+    const statsRepo = new StatisticsRepository();
+    const stats = await statsRepo.getStatisticsByGameId(game.id);
+    assertEqual(stats?.seed, maxSeed, 'Seed should be recorded in the statistics');
+    assert(stats?.customSeed === true, 'A chosen seed should be recorded');
+    const freshStats = await statsRepo.getStatisticsByGameId(fresh.id);
+    assert(freshStats?.customSeed === false, 'A new seed should not count as chosen');
+    const ranked = (await statsService.getTopScores(1000)).map((s) => s.gameId);
+    assert(!ranked.includes(game.id), 'Games on a chosen seed should not rank');
+    assert(ranked.includes(fresh.id), 'Games on a new seed should rank');
+    await query('DELETE FROM game_statistics WHERE game_id = ANY($1)', [[fresh.id, game.id]]);
+  });
+
+  await test('DailyChallengeService.deriveChallenge - the same for every player', async () => {
+    const towers = (await gameService.getGameConfig())!.towers;
+    const challenge = DailyChallengeService.deriveChallenge('2026-01-01', towers);
+    const again = DailyChallengeService.deriveChallenge('2026-01-01', towers);
+    assertEqual(JSON.stringify(again), JSON.stringify(challenge), 'A date should always match');
+    assert(
+      DailyChallengeService.deriveChallenge('2026-01-02', towers).seed !== challenge.seed,
+      'Another date should get another seed'
+    );
+    assertEqual(challenge.modifiers.length, 2, 'A challenge should have two modifiers');
+    assert(
+      challenge.towerIds.length > 0 &&
+        challenge.towerIds.every((id) => towers.some((t) => t.id === id)),
+      'The loadout should be made of existing towers'
+    );
+    assert(DailyChallengeService.isDailyDate('2026-01-01'), 'Valid date rejected');
+    assert(!DailyChallengeService.isDailyDate('2026-02-30'), 'Impossible date accepted');
+  });
+
+  await test('GameService.createGame - daily challenge', async () => {
+    const player = await new PlayerRepository().createPlayer('test-daily-player', 'salt:hash');
+    const first = await gameService.createGame('daily', 'hard', undefined, player.id, 7);
+    assertDefined(first.daily, 'A daily game should have its challenge');
+    assert(first.daily.ranked, "A player's first attempt should be ranked");
+
+    const towers = (await gameService.getGameConfig())!.towers;
+    const challenge = DailyChallengeService.deriveChallenge(first.daily.date, towers);
+    assertEqual(first.seed, challenge.seed, 'The challenge seed should replace the given one');
+    const settings = DailyChallengeService.applyModifiers(normalSettings, first.daily.modifiers);
+    assertEqual(first.coins, settings.initialCoins, 'Coins should include the modifiers');
+    assertEqual(first.lives, settings.initialLives, 'Lives should include the modifiers');
+
+    const config = await gameService.getGameConfig(first.id);
+    assertEqual(
+      config?.towers.map((t) => t.id).join(),
+      challenge.towerIds.join(),
+      'The game config should only hold the loadout'
+    );
+    const outside = towers.find((t) => !challenge.towerIds.includes(t.id));
+    if (outside) {
+      const build = await gameService.buildTower(first.id, {
+        towerId: outside.id,
+        gridX: 5,
+        gridY: 3,
+      });
+      assert(!build.success, 'Towers outside the loadout cannot be built');
+    }
+
+    const second = await gameService.createGame('daily', 'normal', undefined, player.id);
+    assert(second.daily?.ranked === false, 'Later attempts should not be ranked');
+    await cleanupGame(first.id);
+    await cleanupGame(second.id);
+
+    const stats = await new StatisticsRepository().getStatisticsByGameId(first.id);
+    assertEqual(stats?.dailyDate, first.daily.date, 'Statistics should record the challenge date');
+    const { entries } = await new DailyChallengeService().getLeaderboard(first.daily.date);
+    assert(
+      entries.some((e) => e.gameId === first.id) && !entries.some((e) => e.gameId === second.id),
+      'Only the ranked attempt should be on the leaderboard'
+    );
+    await query('DELETE FROM game_statistics WHERE game_id = ANY($1)', [[first.id, second.id]]);
+    await query('DELETE FROM players WHERE id = $1', [player.id]);
+  });
+
   await test('GameService.getGame', async () => {
     const game = await gameService.createGame('10waves', 'normal');
     const retrieved = await gameService.getGame(game.id);
@@ -611,6 +1512,18 @@ async function testServices(): Promise<void> {
     await cleanupGame(game.id);
   });
 
+  await test('GameService.buildTower - blocked by map', async () => {
+    const game = await gameService.createGame('10waves', 'normal');
+    const blocked = game.map?.blockedCells[0];
+    assertDefined(blocked, 'Default map should block the path');
+    const result = await gameService.buildTower(game.id, { towerId: 1, ...blocked });
+    assert(!result.success, 'Should fail on a blocked cell');
+    assert(result.message?.includes('blocked') ?? false, 'Should mention blocked');
+    const outside = await gameService.buildTower(game.id, { towerId: 1, gridX: 20, gridY: 0 });
+    assert(!outside.success, 'Should fail outside the grid');
+    await cleanupGame(game.id);
+  });
+
   await test('GameService.buildTower - invalid game', async () => {
     const result = await gameService.buildTower('nonexistent', { towerId: 1, gridX: 0, gridY: 0 });
     assert(!result.success, 'Should fail for nonexistent game');
@@ -632,6 +1545,37 @@ async function testServices(): Promise<void> {
     await cleanupGame(game.id);
   });
 
+  await test('GameService.upgradeTower - branches', async () => {
+    // The seeded Rapid Tower branches into Artillery and Marksman at level 4
+    const game = await gameService.createGame('10waves', 'normal');
+    await new GameSessionRepository().updateGameSession(game.id, { coins: 10000 });
+    const build = await gameService.buildTower(game.id, { towerId: 3, gridX: 5, gridY: 3 });
+    assertDefined(build.tower, 'Tower should be built');
+    const towerId = build.tower.id;
+    await gameService.upgradeTower(game.id, towerId);
+    await gameService.upgradeTower(game.id, towerId);
+
+    const unchosen = await gameService.upgradeTower(game.id, towerId);
+    assert(unchosen.message?.startsWith('Choose an upgrade branch') ?? false, 'Needs a branch');
+    const unknown = await gameService.upgradeTower(game.id, towerId, 'Wizard');
+    assert(!unknown.success, 'Should reject an unknown branch');
+    assert(unknown.message?.includes('"Marksman"') ?? false, 'Should list the branches to send');
+
+    const upgraded = await gameService.upgradeTower(game.id, towerId, 'Marksman');
+    assert(upgraded.success, 'Upgrade into a branch should succeed');
+    assertEqual(upgraded.tower?.level, 4, 'Tower should be level 4');
+    const state = await gameService.getGame(game.id);
+    assertEqual(state?.towers[0]?.branch, 'Marksman', 'Branch should be persisted');
+    assertEqual(state?.towers[0]?.stats.projectileType, 'pierce', 'Marksman stats should apply');
+
+    const config = await gameService.getGameConfig(game.id);
+    const levels = config?.towers.find((t) => t.id === 3)?.levels ?? [];
+    const paid = getUpgradePath(levels, 4, 'Marksman').reduce((sum, l) => sum + l.cost, 0);
+    const sold = await gameService.sellTower(game.id, towerId);
+    assertEqual(sold.refundAmount, Math.floor(paid * 0.7), 'Refund should follow the branch');
+    await cleanupGame(game.id);
+  });
+
   await test('GameService.upgradeTower - tower not found', async () => {
     const game = await gameService.createGame('10waves', 'normal');
     const result = await gameService.upgradeTower(game.id, 'fake-tower-id');
@@ -640,6 +1584,26 @@ async function testServices(): Promise<void> {
     await cleanupGame(game.id);
   });
 
+  await test('GameService.setTowerTargeting', async () => {
+    const game = await gameService.createGame('10waves', 'normal');
+    const buildResult = await gameService.buildTower(game.id, {
+      towerId: 1,
+      gridX: 5,
+      gridY: 3,
+    });
+    assertDefined(buildResult.tower, 'Tower should be built');
+    assertEqual(buildResult.tower.targetingMode, 'closest', 'New towers should target closest');
+
+    const result = await gameService.setTowerTargeting(game.id, buildResult.tower.id, 'strongest');
+    assert(result.success, 'Setting targeting should succeed');
+    const state = await gameService.getGame(game.id);
+    assertEqual(state?.towers[0]?.targetingMode, 'strongest', 'Targeting should be persisted');
+
+    const missing = await gameService.setTowerTargeting(game.id, 'fake-tower-id', 'first');
+    assert(!missing.success, 'Should fail for nonexistent tower');
+    await cleanupGame(game.id);
+  });
+
   await test('GameService.sellTower', async () => {
     const game = await gameService.createGame('10waves', 'normal');
     const buildResult = await gameService.buildTower(game.id, {
@@ -663,6 +1627,50 @@ async function testServices(): Promise<void> {
     await cleanupGame(game.id);
   });
 
+  await test('GameService - mutators', async () => {
+    const game = await gameService.createGame(
+      '10waves',
+      'normal',
+      undefined,
+      undefined,
+      undefined,
+      ['noSelling', 'expensiveTowers', 'noSelling']
+    );
+    assertEqual(game.mutators.join(), 'noSelling,expensiveTowers', 'Mutators should be normalized');
+    const config = await gameService.getGameConfig(game.id);
+    const level1 = config?.towers.find((t) => t.id === 1)?.levels.find((l) => l.level === 1);
+    assertEqual(level1?.cost, Math.round(basicLevel1.cost * 1.5), 'Config should show their costs');
+
+    const build = await gameService.buildTower(game.id, { towerId: 1, gridX: 5, gridY: 3 });
+    assertDefined(build.tower, 'Tower should be built');
+    assertEqual(
+      build.remainingCoins,
+      normalSettings.initialCoins - Math.round(basicLevel1.cost * 1.5),
+      'Towers should cost 50% more'
+    );
+    const sell = await gameService.sellTower(game.id, build.tower.id);
+    assert(!sell.success, 'Towers cannot be sold with noSelling');
+    await cleanupGame(game.id);
+
+    const stats = await statsService.getGameStatistics(game.id);
+    assertEqual(stats?.mutators?.join(), 'noSelling,expensiveTowers', 'Stats should record them');
+    const filtered = await statsService.getTopScores(1000, {
+      mutators: ['expensiveTowers', 'noSelling'],
+    });
+    const isGame = (s: { gameId: string }) => s.gameId === game.id;
+    assert(filtered.some(isGame), 'The same set should match');
+    const plain = await statsService.getTopScores(1000, { mutators: [] });
+    assert(!plain.some(isGame), 'Games without mutators should not match');
+
+    const refunds = await gameService.createGame('10waves', 'normal', undefined, undefined, 1, [
+      'halfRefunds',
+    ]);
+    const built = await gameService.buildTower(refunds.id, { towerId: 1, gridX: 5, gridY: 3 });
+    const sold = await gameService.sellTower(refunds.id, built.tower!.id);
+    assertEqual(sold.refundAmount, Math.floor(basicLevel1.cost * 0.35), 'Refunds should be halved');
+    await cleanupGame(refunds.id);
+  });
+
   await test('GameService.sellTower - tower not found', async () => {
     const game = await gameService.createGame('10waves', 'normal');
     const result = await gameService.sellTower(game.id, 'fake-tower-id');
@@ -672,8 +1680,15 @@ async function testServices(): Promise<void> {
 
   await test('GameService.startWave', async () => {
     const game = await gameService.createGame('10waves', 'normal');
-    const success = await gameService.startWave(game.id);
-    assert(success, 'Start wave should succeed');
+    const wave = await gameService.startWave(game.id);
+    assert(wave.success, 'Start wave should succeed');
+    assertEqual(wave.waveNumber, 1, 'Wave number should be 1');
+    assertDefined(wave.result, 'Wave should return a simulation result');
+    assertEqual(
+      wave.result.enemiesKilled + wave.result.enemiesLeaked,
+      wave.result.enemiesSpawned,
+      'Every spawned enemy should be killed or leaked'
+    );
     const updatedGame = await gameService.getGame(game.id);
     assertEqual(updatedGame?.wave, 1, 'Wave should be 1');
     // Cleanup - already at wave 1
@@ -681,109 +1696,580 @@ async function testServices(): Promise<void> {
   });
 
   await test('GameService.startWave - nonexistent game', async () => {
-    const success = await gameService.startWave('nonexistent');
-    assert(!success, 'Should fail for nonexistent game');
-  });
-
-  await test('GameService.completeWave', async () => {
-    const game = await gameService.createGame('10waves', 'normal');
-    await gameService.startWave(game.id);
-    const success = await gameService.completeWave(game.id);
-    assert(success, 'Complete wave should succeed');
-    await gameService.endGame(game.id, 'loss', makeEndGameStats());
+    const wave = await gameService.startWave('nonexistent');
+    assert(!wave.success, 'Should fail for nonexistent game');
   });
 
-  await test('GameService.addCoins', async () => {
+  await test('GameService.startWave - no towers leaks every enemy', async () => {
     const game = await gameService.createGame('10waves', 'normal');
-    const success = await gameService.addCoins(game.id, 50);
-    assert(success, 'Add coins should succeed');
+    const wave = await gameService.startWave(game.id);
+    assertDefined(wave.result, 'Wave should return a simulation result');
+    assertEqual(wave.result.enemiesKilled, 0, 'Nothing should be killed without towers');
     const updated = await gameService.getGame(game.id);
+    assertEqual(updated?.coins, normalSettings.initialCoins, 'Coins should be unchanged');
     assertEqual(
-      updated?.coins,
-      normalSettings.initialCoins + 50,
-      'Coins should increase by 50'
+      updated?.lives,
+      Math.max(0, normalSettings.initialLives - wave.result.enemiesLeaked),
+      'Lives should drop by the number of leaked enemies'
     );
-    await cleanupGame(game.id);
-  });
-
-  await test('GameService.addCoins - nonexistent game', async () => {
-    const success = await gameService.addCoins('nonexistent', 50);
-    assert(!success, 'Should fail for nonexistent game');
+    await gameService.endGame(game.id, 'loss', makeEndGameStats());
   });
 
-  await test('GameService.loseLife', async () => {
-    const game = await gameService.createGame('10waves', 'normal');
-    const stillAlive = await gameService.loseLife(game.id);
-    assert(stillAlive, 'Should still be alive after losing 1 life');
-    const updated = await gameService.getGame(game.id);
+  await test('GameService.startWave - rewards kills server-side', async () => {
+    const game = await gameService.createGame('10waves', 'easy');
+    // Line the path with towers so the first wave is cleared
+    for (let gridX = 4; gridX < 16; gridX++) {
+      await gameService.buildTower(game.id, { towerId: 1, gridX, gridY: 3 });
+    }
+    const before = await gameService.getGame(game.id);
+    assertDefined(before, 'Game should exist');
+    const wave = await gameService.startWave(game.id);
+    assertDefined(wave.result, 'Wave should return a simulation result');
+    assertGreater(wave.result.enemiesKilled, 0, 'Towers should kill enemies');
     assertEqual(
-      updated?.lives,
-      normalSettings.initialLives - 1,
-      'Lives should decrease by 1'
+      wave.remainingCoins,
+      before.coins + wave.result.coinsEarned,
+      'Coins should increase by the simulated rewards'
     );
-    await cleanupGame(game.id);
+    await gameService.endGame(game.id, 'loss', makeEndGameStats());
   });
 
-  await test('GameService.loseLife - game over', async () => {
+  await test('GameService.startWave - game over', async () => {
     const game = await gameService.createGame('10waves', 'normal');
-    // Lose all lives
-    for (let i = 0; i < normalSettings.initialLives; i++) {
-      await gameService.loseLife(game.id);
-    }
-    const updated = await gameService.getGame(game.id);
-    assertEqual(updated?.lives, 0, 'Lives should be 0');
-    await cleanupGame(game.id);
+    await new GameSessionRepository().updateGameSession(game.id, { lives: 0 });
+    const wave = await gameService.startWave(game.id);
+    assert(!wave.success, 'Should not start a wave without lives');
+    await gameService.endGame(game.id, 'loss', makeEndGameStats());
   });
 
-  await test('GameService.endGame records statistics', async () => {
+  await test('GameService.startWave - clearing the final wave wins', async () => {
     const game = await gameService.createGame('10waves', 'normal');
-    await gameService.startWave(game.id);
-    const success = await gameService.endGame(
-      game.id,
-      'win',
-      makeEndGameStats({
-        duration: 60000,
-        enemiesKilledTotal: 50,
-        enemiesKilledByType: { '1': 30, '2': 20 },
-        towersBuiltTotal: 3,
-        towersBuiltByType: { '1': 2, '2': 1 },
-        coinsEarned: 500,
-        coinsSpent: 300,
-        damageDealt: 2000,
-      })
-    );
-    assert(success, 'End game should succeed');
-    // Verify game session is deleted
-    const deleted = await gameService.getGame(game.id);
-    assert(deleted === undefined, 'Game session should be deleted after ending');
-    // Cleanup statistics
+    // Enough lives to survive the last wave without towers
+    await new GameSessionRepository().updateGameSession(game.id, { currentWave: 9, lives: 10000 });
+    const wave = await gameService.startWave(game.id);
+    assertEqual(wave.waveNumber, 10, 'Wave number should be 10');
+    assert(wave.gameWon === true, 'Clearing wave 10 should win a 10waves game');
+    const session = await new GameSessionRepository().getGameSession(game.id);
+    assertEqual(session?.status, 'completed', 'A won game should be completed');
+    assertEqual(session?.outcome, 'win', 'Session outcome should be win');
+
+    const extra = await gameService.startWave(game.id);
+    assert(!extra.success, 'Should not start a wave past the last one');
+    const lost = await gameService.endGame(game.id, 'loss', makeEndGameStats());
+    assert(!lost.success, 'A won game cannot be ended as a loss');
+    const won = await gameService.endGame(game.id, 'win', makeEndGameStats());
+    assert(won.success, 'A won game should end as a win');
     await query('DELETE FROM game_statistics WHERE game_id = $1', [game.id]);
   });
 
-  // Wave Service
-  await test('WaveService.getWaveEnemies', async () => {
-    const enemies = await waveService.getWaveEnemies(1);
-    assert(enemies.length > 0, 'Wave 1 should have enemies');
-    for (const enemy of enemies) {
-      assertGreater(enemy.enemyId, 0, 'Enemy ID should be positive');
-      assertGreaterOrEqual(enemy.spawnDelay, 0, 'Spawn delay should be non-negative');
-    }
-    // Verify spawn delays are non-decreasing
-    for (let i = 1; i < enemies.length; i++) {
-      assert(
-        (enemies[i]?.spawnDelay ?? 0) >= (enemies[i - 1]?.spawnDelay ?? 0),
-        'Spawn delays should be non-decreasing'
-      );
-    }
+  await test('GameService.startWave - endless has no last wave', async () => {
+    const game = await gameService.createGame('endless', 'normal');
+    await new GameSessionRepository().updateGameSession(game.id, { currentWave: 20, lives: 10000 });
+    const wave = await gameService.startWave(game.id);
+    assert(wave.success, 'Endless games should go past wave 20');
+    assert(wave.gameWon === false, 'Endless games are never won');
+    await gameService.endGame(game.id, 'loss', makeEndGameStats());
   });
 
-  await test('WaveService.getWave', async () => {
-    const wave = await waveService.getWave(1);
+  await test('GameService.startWave - abandoned game', async () => {
+    const game = await gameService.createGame('10waves', 'normal');
+    await new GameSessionRepository().updateGameSession(game.id, { status: 'abandoned' });
+    const wave = await gameService.startWave(game.id);
+    assert(!wave.success, 'Should not start a wave in an abandoned game');
+    await gameService.endGame(game.id, 'loss', makeEndGameStats());
+  });
+
+  await test('GameService.listGames', async () => {
+    const { player } = await authService.register('test-list-games', 'password123');
+    const game = await gameService.createGame('10waves', 'hard', undefined, player.id);
+    await gameService.buildTower(game.id, { towerId: 1, gridX: 5, gridY: 3 });
+    const games = await gameService.listGames('active', player.id);
+    const summary = games.find((g) => g.gameId === game.id);
+    assertDefined(summary, 'New game should be listed as active');
+    assertEqual(summary.difficulty, 'hard', 'Difficulty should come from the settings');
+    assertEqual(summary.mapName, game.map?.name ?? null, 'Map name mismatch');
+    assertEqual(summary.towerCount, 1, 'Tower count mismatch');
+    assertEqual(summary.wave, 0, 'Wave should be 0');
+    await gameService.endGame(game.id, 'loss', makeEndGameStats());
+    await query('DELETE FROM game_statistics WHERE game_id = $1', [game.id]);
+    await query('DELETE FROM players WHERE id = $1', [player.id]);
+  });
+
+  await test('AuthService.register and login', async () => {
+    const registered = await authService.register('test-auth-service', 'password123');
+    assertEqual(registered.player.username, 'test-auth-service', 'Username mismatch');
+    const verified = authService.verifyToken(registered.token);
+    assertEqual(verified?.id, registered.player.id, 'Token should identify the player');
+
+    const login = await authService.login('test-auth-service', 'password123');
+    assertEqual(login?.player.id, registered.player.id, 'Login should find the player');
+    const badLogin = await authService.login('test-auth-service', 'wrong-password');
+    assert(badLogin === null, 'Wrong password should not log in');
+    assert(authService.verifyToken(`${registered.token}x`) === null, 'Tampered token is invalid');
+
+    await query('DELETE FROM players WHERE id = $1', [registered.player.id]);
+  });
+
+  await test('AuthService.register - rejects invalid and duplicate accounts', async () => {
+    const registered = await authService.register('test-auth-dupe', 'password123');
+    const invalid: Array<[string, string]> = [
+      ['ab', 'password123'],
+      ['test-auth-short', 'short'],
+      ['TEST-AUTH-DUPE', 'password123'],
+    ];
+    for (const [username, password] of invalid) {
+      let threw = false;
+      try {
+        await authService.register(username, password);
+      } catch {
+        threw = true;
+      }
+      assert(threw, `Should reject ${username} / ${password}`);
+    }
+    await query('DELETE FROM players WHERE id = $1', [registered.player.id]);
+  });
+
+  await test('AuthService.setPlayerRole', async () => {
+    const { player } = await authService.register('test-auth-role', 'password123');
+    assertEqual(player.role, 'player', 'New accounts should be players');
+
+    const promoted = await authService.setPlayerRole(player.id, 'designer');
+    assertEqual(promoted?.role, 'designer', 'Role should be updated');
+    assertEqual(await authService.setPlayerRole(999999, 'admin'), null, 'Unknown player');
+
+    let threw = false;
+    try {
+      await authService.setPlayerRole(player.id, 'owner' as PlayerRole);
+    } catch {
+      threw = true;
+    }
+    assert(threw, 'Should reject an unknown role');
+
+    await query('DELETE FROM players WHERE id = $1', [player.id]);
+  });
+
+  await test('AuditService.diff', async () => {
+    const before = { id: 1, name: 'Pawn', health: 100, abilities: { diagonal: true } };
+    const after = { id: 1, name: 'Pawn', health: 120, abilities: { diagonal: false } };
+    const changes = AuditService.diff(before, after);
+    assertEqual(changes.length, 2, 'Only changed fields should be listed');
+    assertEqual(changes[0]?.field, 'health', 'Health changed');
+    assertEqual(changes[0]?.oldValue, 100, 'Old health');
+    assertEqual(changes[0]?.newValue, 120, 'New health');
+    assertEqual(changes[1]?.field, 'abilities', 'Nested objects are compared by value');
+    const reordered = AuditService.diff(
+      { waves: [{ enemyId: 1, count: 5, spawn: { delayMs: 500, label: 'normal' } }] },
+      { waves: [{ count: 5, spawn: { label: 'normal', delayMs: 500 }, enemyId: 1 }] }
+    );
+    assertEqual(reordered.length, 0, 'Key order (as JSONB returns it) should not count');
+
+    const created = AuditService.diff(null, { id: 2, name: 'Rook', updatedAt: new Date() });
+    assertEqual(created.length, 1, 'Creations list every field except bookkeeping');
+    assertEqual(created[0]?.oldValue, null, 'Created fields have no old value');
+  });
+
+  await test('ConfigVersionService.diffSnapshots', async () => {
+    const draft = await new ConfigVersionService().getDraftSnapshot();
+    assert(draft.towers.length > 0 && draft.waves.length > 0, 'Draft should hold the config');
+
+    const edited = structuredClone(draft);
+    edited.enemies[0]!.health += 10;
+    edited.towers[0]!.levels[0]!.cost += 5;
+    const lastWave = Math.max(...draft.waves.map((w) => w.waveNumber));
+    edited.waves = edited.waves.filter((w) => w.waveNumber !== lastWave);
+
+    assertEqual(ConfigVersionService.diffSnapshots(draft, draft).length, 0, 'Same config');
+    const changes = ConfigVersionService.diffSnapshots(draft, edited);
+    const enemy = changes.find((c) => c.entityType === 'enemy');
+    assertEqual(enemy?.field, 'health', 'Enemy health change');
+    assertEqual(enemy?.entityId, String(draft.enemies[0]!.id), 'Enemy ID');
+    const level = changes.find((c) => c.entityType === 'tower_level');
+    assertEqual(
+      level?.entityId,
+      `${draft.towers[0]!.id}:1`,
+      'Tower levels are keyed towerId:level'
+    );
+    const wave = changes.find((c) => c.entityType === 'wave');
+    assertEqual(wave?.entityId, String(lastWave), 'Removed wave');
+    assertEqual(wave?.newValue, null, 'Removed waves have no new value');
+  });
+
+  await test('ConfigVersionService.restoreDraft - all or nothing', async () => {
+    const versionService = new ConfigVersionService();
+    const draft = await versionService.getDraftSnapshot();
+    const broken = structuredClone(draft);
+    broken.enemies[0]!.health += 10;
+    // Waves are restored after enemies, so the unknown enemy fails the restore halfway
+    broken.waves.push({
+      waveNumber: 999,
+      enemyId: 999999,
+      count: 1,
+      spawnDelayMs: 500,
+      difficultyLabel: 'normal',
+    });
+
+    let threw = false;
+    try {
+      await versionService.restoreDraft(broken);
+    } catch {
+      threw = true;
+    }
+    assert(threw, 'A wave of an unknown enemy should fail the restore');
+    const after = await versionService.getDraftSnapshot();
+    assertEqual(after.enemies[0]?.health, draft.enemies[0]!.health, 'Enemies should roll back');
+  });
+
+  await test('WaveService.getGameWave - beyond the last wave generates one', async () => {
+    const draft = await new ConfigVersionService().getDraftSnapshot();
+    const settings = draft.settings.find((s) => s.mode === 'normal');
+    const lastWave = Math.max(...draft.waves.map((w) => w.waveNumber));
+
+    const defined = WaveService.getGameWave(draft, settings, lastWave, 42);
+    assertEqual(
+      JSON.stringify(defined),
+      JSON.stringify(draft.waves.filter((w) => w.waveNumber === lastWave)),
+      'Defined waves are used as is'
+    );
+
+    const wave = WaveService.getGameWave(draft, settings, lastWave + 5, 42);
+    assert(wave.length > 0, 'Should generate a wave');
+    assert(
+      wave.every((w) => w.waveNumber === lastWave + 5),
+      'Every entry should belong to the generated wave'
+    );
+    assertEqual(
+      JSON.stringify(WaveService.getGameWave(draft, settings, lastWave + 5, 42)),
+      JSON.stringify(wave),
+      'The same seed should give the same wave'
+    );
+  });
+
+  await test('WaveService.generateWave - budget, unlocks and boss waves', async () => {
+    const enemy = (id: number, health: number): EnemyDefinition => ({
+      id,
+      name: `Enemy ${id}`,
+      description: '',
+      health,
+      speed: 60,
+      reward: 10,
+      color: '#fff',
+      size: 20,
+      armor: 0,
+      resistances: {},
+      abilities: {},
+    });
+    const enemies = [enemy(1, 50), enemy(2, 100), enemy(3, 150), enemy(4, 1000)];
+    const options = {
+      waves: [{ waveNumber: 1, enemyId: 1, count: 10, spawnDelayMs: 500, difficultyLabel: 'easy' }],
+      enemies,
+      settings: {
+        enemyHealthWaveMultiplier: 0,
+        endlessBudgetGrowth: 0.5,
+        endlessBossInterval: 4,
+        endlessUnlockWaves: { 3: 10 },
+      },
+      seed: 7,
+    };
+    const totalHealth = (wave: WaveDefinition[]) =>
+      wave.reduce((sum, w) => sum + w.count * enemies.find((e) => e.id === w.enemyId)!.health, 0);
+
+    const wave2 = WaveService.generateWave({ ...options, waveNumber: 2 });
+    const wave3 = WaveService.generateWave({ ...options, waveNumber: 3 });
+    assertGreater(totalHealth(wave3), totalHealth(wave2), 'The budget should grow every wave');
+    assert(
+      [wave2, wave3].flat().every((w) => w.enemyId !== 3),
+      'Locked enemies should not appear'
+    );
+    assert(
+      [wave2, wave3].flat().every((w) => w.enemyId !== 4),
+      'The boss should only appear in boss waves'
+    );
+
+    const bossWave = WaveService.generateWave({ ...options, waveNumber: 4 });
+    assertEqual(bossWave[bossWave.length - 1]?.enemyId, 4, 'Boss waves should end with the boss');
+    assert(
+      [10, 11, 12].some((waveNumber) =>
+        WaveService.generateWave({ ...options, waveNumber }).some((w) => w.enemyId === 3)
+      ),
+      'Unlocked enemies should be used'
+    );
+  });
+
+  await test('ConfigBundleService.parseBundle', async () => {
+    const bundleService = new ConfigBundleService();
+    const exported = await bundleService.exportBundle();
+    assertDefined(exported, 'Draft export should exist');
+    const parsed = await bundleService.parseBundle(JSON.parse(JSON.stringify(exported)));
+    assertEqual(parsed.errors.length, 0, 'An exported bundle should be valid');
+
+    const newer = await bundleService.parseBundle({ ...exported, formatVersion: 99 });
+    assert(newer.bundle === null, 'Newer format versions should be rejected');
+
+    const broken = structuredClone(exported);
+    broken.towers[0]!.levels[0]!.cost = 0;
+    broken.enemies.push(structuredClone(broken.enemies[0]!));
+    broken.waves[0]!.enemyId = 999999;
+    const { errors } = await bundleService.parseBundle(broken);
+    assert(
+      errors.some((e) => e.startsWith('towers[0].levels[0]: Cost')),
+      'Validator errors should carry the path'
+    );
+    assert(errors.includes(`enemies has duplicate id ${broken.enemies[0]!.id}`), 'Duplicate IDs');
+    assert(
+      errors.some((e) => e.startsWith('waves[0].enemyId')),
+      'Unknown wave enemy'
+    );
+
+    const legacy = structuredClone(exported);
+    const {
+      endlessBudgetGrowth: _growth,
+      scoreMultiplier: _multiplier,
+      ...legacySettings
+    } = legacy.settings[0]!;
+    legacy.settings[0] = legacySettings as GameSettings;
+    const upgraded = await bundleService.parseBundle(legacy);
+    assertEqual(upgraded.errors.length, 0, 'Bundles without newer settings should be valid');
+    assertEqual(
+      upgraded.bundle?.settings[0]?.endlessBudgetGrowth,
+      DEFAULT_ENDLESS_SETTINGS.endlessBudgetGrowth,
+      'Missing endless settings should get their defaults'
+    );
+    assertEqual(
+      upgraded.bundle?.settings[0]?.scoreMultiplier,
+      DEFAULT_SCORING_SETTINGS.scoreMultiplier,
+      'Missing score settings should get their defaults'
+    );
+
+    const malformed = await bundleService.parseBundle({ ...exported, maps: [{ id: 'x' }] });
+    assert(malformed.errors.includes('maps[0].id must be of type integer'), 'Schema errors');
+  });
+
+  await test('GameService - player-owned games', async () => {
+    const { player } = await authService.register('test-game-owner', 'password123');
+    const game = await gameService.createGame('10waves', 'normal', undefined, player.id);
+
+    assert(await gameService.canAccessGame(game.id, player.id), 'Owner should have access');
+    assert(!(await gameService.canAccessGame(game.id)), 'Anonymous callers should not');
+    const mine = await gameService.listGames('active', player.id);
+    assert(
+      mine.some((g) => g.gameId === game.id),
+      "Game should be in the owner's list"
+    );
+
+    await gameService.endGame(game.id, 'loss', makeEndGameStats());
+    const stats = await statsService.getPlayerStatistics(player.id);
+    assertEqual(stats[0]?.gameId, game.id, "Statistics should be in the player's history");
+    assertEqual(stats[0]?.playerName, 'test-game-owner', 'History should include the username');
+
+    await query('DELETE FROM game_statistics WHERE game_id = $1', [game.id]);
+    await query('DELETE FROM game_replays WHERE game_id = $1', [game.id]);
+    await query('DELETE FROM players WHERE id = $1', [player.id]);
+  });
+
+  await test('GameService.completeWave', async () => {
+    const game = await gameService.createGame('10waves', 'normal');
+    const early = await gameService.completeWave(game.id);
+    assert(!early.success, 'Nothing to complete before a wave starts');
+    await gameService.startWave(game.id);
+    const result = await gameService.completeWave(game.id);
+    assert(result.success, 'Complete wave should succeed');
+    const updated = await gameService.getGame(game.id);
+    assert(updated?.waveActive === false, 'The wave should no longer be in progress');
+    assertEqual(updated?.wave, 1, 'Completing should not change the wave');
+    await gameService.endGame(game.id, 'loss', makeEndGameStats());
+  });
+
+  await test('GameService - towers only change between waves of active games', async () => {
+    const game = await gameService.createGame('10waves', 'normal');
+    const build = await gameService.buildTower(game.id, { towerId: 1, gridX: 5, gridY: 3 });
+    const towerId = build.tower!.id;
+    await gameService.startWave(game.id);
+
+    const during = await gameService.buildTower(game.id, { towerId: 1, gridX: 10, gridY: 3 });
+    assertEqual(during.message, 'A wave is in progress', 'Building should wait for the wave');
+    const upgrade = await gameService.upgradeTower(game.id, towerId);
+    assert(!upgrade.success, 'Upgrading should wait for the wave');
+    const sell = await gameService.sellTower(game.id, towerId);
+    assert(!sell.success, 'Selling should wait for the wave');
+    const next = await gameService.startWave(game.id);
+    assert(!next.success, 'The next wave should wait for this one');
+
+    await gameService.completeWave(game.id);
+    const after = await gameService.sellTower(game.id, towerId);
+    assert(after.success, 'Selling should work between waves');
+
+    await new GameSessionRepository().updateGameSession(game.id, { status: 'abandoned' });
+    const abandoned = await gameService.buildTower(game.id, { towerId: 1, gridX: 5, gridY: 3 });
+    assertEqual(abandoned.message, 'Game is no longer active', 'Inactive games cannot build');
+    await gameService.endGame(game.id, 'loss', makeEndGameStats());
+  });
+
+  await test('GameService.endGame records statistics', async () => {
+    const game = await gameService.createGame('10waves', 'normal');
+    await new GameSessionRepository().updateGameSession(game.id, {
+      currentWave: 10,
+      status: 'completed',
+      outcome: 'win',
+      enemiesKilled: 50,
+      coinsEarned: 5000,
+      coinsSpent: 3000,
+      damageDealt: 2000,
+    });
+    const result = await gameService.endGame(
+      game.id,
+      'win',
+      makeEndGameStats({
+        enemiesKilledByType: { '1': 30, '2': 20 },
+        towersBuiltByType: { '1': 2, '2': 1 },
+        damageByTowerType: { '1': 1500, '2': 450.5 },
+      })
+    );
+    assert(result.success, 'End game should succeed');
+    // Verify game session is deleted
+    const deleted = await gameService.getGame(game.id);
+    assert(deleted === undefined, 'Game session should be deleted after ending');
+
+    const recorded = await statsService.getGameStatistics(game.id);
+    assertDefined(recorded, 'Statistics should be recorded');
+    assertEqual(recorded.outcome, 'win', 'Outcome mismatch');
+    assertEqual(recorded.towersBuiltTotal, 3, 'Towers built should add up the breakdown');
+    assertEqual(recorded.enemiesKilledByType['2'], 20, 'Kills by type mismatch');
+    assertEqual(recorded.damageByTowerType?.['2'], 450.5, 'Damage by tower type mismatch');
+    assertEqual(recorded.damageDealt, 2000, 'Damage total should come from the session');
+    assertDefined(recorded.scoreBreakdown, 'Score breakdown should be recorded');
+    assertEqual(recorded.score, result.score, 'Recorded score should match the response');
+    assertEqual(recorded.scoreBreakdown.waves, 10 * normalSettings.scoreWavePoints, 'Wave points');
+    assertEqual(recorded.settingsId, normalSettings.id, 'Settings should come from the session');
+    const normal = await statsService.getTopScores(1000, { difficulty: 'normal' });
+    assert(
+      normal.some((s) => s.gameId === game.id),
+      'The game should rank under its difficulty'
+    );
+    // Cleanup statistics
+    await query('DELETE FROM game_statistics WHERE game_id = $1', [game.id]);
+  });
+
+  await test('GameService.endGame - a game lost before wave 1 records no waves', async () => {
+    const game = await gameService.createGame('10waves', 'normal');
+    const result = await gameService.endGame(game.id, 'loss', makeEndGameStats());
+    assert(result.success, 'Ending a game before its first wave should succeed');
+    const recorded = await statsService.getGameStatistics(game.id);
+    assertDefined(recorded, 'Statistics should be recorded');
+    assertEqual(recorded.wavesCompleted, 0, 'Waves completed should not go below zero');
+    await query('DELETE FROM game_statistics WHERE game_id = $1', [game.id]);
+  });
+
+  await test('GameService.endGame - rejects statistics that do not add up', async () => {
+    const game = await gameService.createGame('10waves', 'normal');
+    const invalid: [GameOutcome, Partial<EndGameStats>][] = [
+      ['loss', { duration: 60 * 60 * 1000 }],
+      ['loss', { enemiesKilledByType: { '1': 1 } }],
+      ['loss', { enemiesKilledByType: { '999': 0 } }],
+      ['loss', { towersBuiltByType: { '1': 1 } }],
+      ['loss', { damageByTowerType: { '999': 10 } }],
+    ];
+    for (const [outcome, stats] of invalid) {
+      const result = await gameService.endGame(game.id, outcome, makeEndGameStats(stats));
+      assert(!result.success, `Should reject ${JSON.stringify(stats)}`);
+    }
+
+    const won = await gameService.endGame(game.id, 'win', makeEndGameStats());
+    assert(!won.success, 'A game whose final wave was not cleared cannot be won');
+    assertDefined(await gameService.getGame(game.id), 'Rejected statistics keep the session');
+    await cleanupGame(game.id);
+  });
+
+  await test('GameService.endGame stores the replay', async () => {
+    const game = await gameService.createGame('10waves', 'normal');
+    const result = await gameService.endGame(
+      game.id,
+      'loss',
+      makeEndGameStats(),
+      makeReplayPayload()
+    );
+    assert(result.success, 'End game should succeed');
+
+    const replay = await replayService.getReplay(game.id);
+    assertDefined(replay, 'Replay should outlive the game session');
+    assertEqual(replay.duration, 5000, 'Duration mismatch');
+    // Cleanup
+    await query('DELETE FROM game_statistics WHERE game_id = $1', [game.id]);
+    await query('DELETE FROM game_replays WHERE game_id = $1', [game.id]);
+  });
+
+  // Replay Service
+  await test('ReplayService.validateReplay - rejects invalid replays', async () => {
+    const invalid: unknown[] = [
+      null,
+      { ...makeReplayPayload(), config: undefined },
+      makeReplayPayload({ duration: -1 }),
+      { ...makeReplayPayload(), actions: 'nope' },
+      { ...makeReplayPayload(), actions: [{ type: 'teleport', gameTime: 0 }] },
+      makeReplayPayload({
+        actions: [
+          { type: 'sell', gameTime: 2000, towerInstanceId: 'a', coins: 0 },
+          { type: 'sell', gameTime: 1000, towerInstanceId: 'b', coins: 0 },
+        ],
+      }),
+    ];
+    for (const replay of invalid) {
+      let threw = false;
+      try {
+        replayService.validateReplay(replay);
+      } catch {
+        threw = true;
+      }
+      assert(threw, `Should reject ${JSON.stringify(replay)}`);
+    }
+  });
+
+  // Wave Service
+  await test('WaveService.getWaveEnemies', async () => {
+    const enemies = await waveService.getWaveEnemies(1);
+    assert(enemies.length > 0, 'Wave 1 should have enemies');
+    for (const enemy of enemies) {
+      assertGreater(enemy.enemyId, 0, 'Enemy ID should be positive');
+      assertGreaterOrEqual(enemy.spawnDelay, 0, 'Spawn delay should be non-negative');
+    }
+    // Verify spawn delays are non-decreasing
+    for (let i = 1; i < enemies.length; i++) {
+      assert(
+        (enemies[i]?.spawnDelay ?? 0) >= (enemies[i - 1]?.spawnDelay ?? 0),
+        'Spawn delays should be non-decreasing'
+      );
+    }
+  });
+
+  await test('WaveService.getWave', async () => {
+    const wave = await waveService.getWave(1);
     assert(wave !== null, 'Wave 1 should exist');
     assertGreater(wave!.enemies.length, 0, 'Wave should have enemies');
     assertGreater(wave!.enemies[0]!.count, 0, 'Enemy count should be positive');
   });
 
+  await test('WaveService.replaceWave - keeps the group order', async () => {
+    const original = await waveService.getWave(2);
+    assertDefined(original, 'Wave 2 should exist');
+    assertGreater(original.enemies.length, 1, 'Wave 2 should have several groups');
+    try {
+      const reversed = [...original.enemies].reverse();
+      await waveService.replaceWave(2, reversed);
+      const wave = await waveService.getWave(2);
+      assertEqual(
+        wave?.enemies.map((e) => e.enemyId).join(','),
+        reversed.map((e) => e.enemyId).join(','),
+        'Groups should come back in the order they were saved'
+      );
+      assertEqual(
+        wave?.enemies[0]?.difficultyLabel,
+        reversed[0]!.difficultyLabel,
+        'Difficulty label should be returned'
+      );
+    } finally {
+      await waveService.replaceWave(2, original.enemies);
+    }
+  });
+
   // Statistics Service
   await test('StatisticsService.recordGameStatistics', async () => {
     const stat = await statsService.recordGameStatistics(
@@ -858,6 +2344,153 @@ async function testServices(): Promise<void> {
     await query('DELETE FROM game_statistics WHERE game_id = $1', ['test-mode-1']);
   });
 
+  await test('StatisticsService.computeScore', async () => {
+    const scoring = {
+      scoreWavePoints: 100,
+      scoreLifePoints: 50,
+      scoreEfficiencyPoints: 500,
+      scoreTimePoints: 50,
+      scoreMultiplier: 1.5,
+    };
+    const game = {
+      won: true,
+      wavesCleared: 10,
+      lives: 5,
+      coins: 300,
+      coinsSpent: 700,
+      elapsedMs: 600000,
+    };
+    const { score, breakdown } = StatisticsService.computeScore(game, scoring);
+    assertEqual(breakdown.waves, 1000, 'Wave points mismatch');
+    assertEqual(breakdown.lives, 250, 'Life points mismatch');
+    assertEqual(breakdown.efficiency, 150, 'Efficiency points should be the unspent share');
+    assertEqual(breakdown.time, 500, 'Waves at par pace should earn full time points');
+    assertEqual(score, 2850, 'Score should be the points times the multiplier');
+
+    const slow = StatisticsService.computeScore({ ...game, elapsedMs: 1200000 }, scoring);
+    assertEqual(slow.breakdown.time, 250, 'Half the par pace should earn half the time points');
+    const lost = StatisticsService.computeScore({ ...game, won: false }, scoring);
+    assertEqual(lost.breakdown.lives, 0, 'A loss should earn no life points');
+    assertEqual(lost.breakdown.efficiency, 0, 'A loss should earn no efficiency points');
+    const legacy = StatisticsService.computeScore(game, undefined);
+    assertEqual(legacy.breakdown.multiplier, 1, 'Settings without scoring should use defaults');
+  });
+
+  await test('StatisticsService.getTopScores - filters by mode and difficulty', async () => {
+    const hard = await configService.getSettingsByMode('hard');
+    assertDefined(hard, 'Hard settings should exist');
+    await statsService.recordGameStatistics({
+      ...makeStatsPayload('test-top-score-1', { gameMode: '20waves', score: 1e6 }),
+      settingsId: hard.id ?? null,
+    });
+
+    const [top] = await statsService.getTopScores(1, { gameMode: '20waves', difficulty: 'hard' });
+    assertEqual(top?.gameId, 'test-top-score-1', 'The highest score should rank first');
+    const isGame = (s: { gameId: string }) => s.gameId === 'test-top-score-1';
+    const endless = await statsService.getTopScores(1000, { gameMode: 'endless' });
+    assert(!endless.some(isGame), 'Other game modes should not match');
+    const easy = await statsService.getTopScores(1000, { difficulty: 'easy' });
+    assert(!easy.some(isGame), 'Other difficulties should not match');
+
+    await query('DELETE FROM game_statistics WHERE game_id = $1', ['test-top-score-1']);
+  });
+
+  await test('StatisticsRepository.getDailyLeaderboard - ranks by score', async () => {
+    const daily = { dailyDate: '2001-01-01', dailyRanked: true };
+    await statsService.recordGameStatistics(
+      makeStatsPayload('test-daily-far', { ...daily, finalWave: 12, score: 1000 })
+    );
+    await statsService.recordGameStatistics(
+      makeStatsPayload('test-daily-best', { ...daily, finalWave: 8, score: 2000 })
+    );
+    const entries = await new StatisticsRepository().getDailyLeaderboard('2001-01-01');
+    assertEqual(
+      entries.map((e) => e.gameId).join(),
+      'test-daily-best,test-daily-far',
+      'The highest score should rank first'
+    );
+    await query('DELETE FROM game_statistics WHERE game_id = ANY($1)', [
+      ['test-daily-far', 'test-daily-best'],
+    ]);
+  });
+
+  await test('StatisticsService analytics - towers, enemies and trends', async () => {
+    const hard = await configService.getSettingsByMode('hard');
+    assertDefined(hard, 'Hard settings should exist');
+    const settingsId = hard.id ?? null;
+    await statsService.recordGameStatistics({
+      ...makeStatsPayload('test-analytics-1', {
+        towersBuiltByType: { 'test-tower-a': 2, 'test-tower-b': 1 },
+        damageByTowerType: { 'test-tower-a': 300 },
+        enemiesKilledByType: { 'test-enemy-a': 30, 'test-enemy-b': 10 },
+      }),
+      settingsId,
+    });
+    await statsService.recordGameStatistics({
+      ...makeStatsPayload('test-analytics-2', {
+        outcome: 'loss',
+        towersBuiltByType: { 'test-tower-a': 1 },
+        enemiesKilledByType: { 'test-enemy-a': 20 },
+      }),
+      settingsId,
+    });
+    const filters = { difficulty: 'hard', days: 1 } as const;
+
+    const towers = await statsService.getTowerAnalytics(filters);
+    const towerA = towers.find((t) => t.towerType === 'test-tower-a');
+    const towerB = towers.find((t) => t.towerType === 'test-tower-b');
+    assertDefined(towerA, 'Built towers should be aggregated');
+    assertDefined(towerB, 'Built towers should be aggregated');
+    assertEqual(towerA.gamesPicked, 2, 'Both games picked tower A');
+    assertEqual(towerA.winRate, 50, 'One of the games picking tower A was won');
+    assertEqual(towerA.totalBuilt, 3, 'Builds should add up');
+    assertEqual(towerA.damageDealt, 300, 'Damage should add up');
+    assertEqual(towerB.winRate, 100, 'The only game picking tower B was won');
+    assert(towerB.pickRate > 0 && towerB.pickRate < towerA.pickRate, 'Pick rates should differ');
+
+    const enemies = await statsService.getEnemyAnalytics(filters);
+    const enemyA = enemies.find((e) => e.enemyType === 'test-enemy-a');
+    const enemyB = enemies.find((e) => e.enemyType === 'test-enemy-b');
+    assertDefined(enemyA, 'Killed enemies should be aggregated');
+    assertDefined(enemyB, 'Killed enemies should be aggregated');
+    assertEqual(enemyA.kills, 50, 'Kills should add up');
+    assertEqual(enemyA.gamesSeen, 2, 'Both games killed enemy A');
+    assert(
+      Math.abs(enemyA.killShare - enemyB.killShare * 5) < 1e-9,
+      'Kill shares should follow the kills'
+    );
+
+    const waves = await statsService.getWaveDistribution(filters);
+    const wave10 = waves.find((point) => point.wave === 10);
+    assertDefined(wave10, 'Games should be counted at their final wave');
+    assert(wave10.games >= 2 && wave10.wins >= 1, 'Games and wins should be counted');
+    assert(
+      waves.every((point, i) => i === 0 || point.wave > waves[i - 1]!.wave),
+      'Waves should be in ascending order'
+    );
+
+    const daily = await statsService.getTrends('day', filters);
+    assert(daily.length > 0, 'Recent games should have a trend point');
+    assert(
+      daily.every((point) => point.difficulty === 'hard'),
+      'Only the filtered difficulty should be included'
+    );
+    const weekly = await statsService.getTrends('week', filters);
+    assert(
+      weekly.every((point) => new Date(`${point.period}T00:00:00Z`).getUTCDay() === 1),
+      'Weeks should start on Monday'
+    );
+    assert(
+      weekly.reduce((sum, point) => sum + point.games, 0) >= 2,
+      'Weekly points should count the games'
+    );
+
+    await query('DELETE FROM game_statistics WHERE game_id IN ($1, $2)', [
+      'test-analytics-1',
+      'test-analytics-2',
+    ]);
+  });
+
   await test('StatisticsService.cleanupOldStatistics - rejects < 30 days', async () => {
     let threw = false;
     try {
@@ -884,6 +2517,22 @@ async function testApiEndpoints(): Promise<void> {
   const basicTower = await configService.getTowerDefinitionsWithLevels(1);
   assertDefined(basicTower[0], 'Basic tower required for API tests');
 
+  // Config changes need a designer and statistics cleanup an admin
+  const roleTestUsernames: string[] = [];
+  const registerWithRole = async (role: PlayerRole): Promise<{ Authorization: string }> => {
+    const username = `api-${role}-${Date.now()}`;
+    const { data } = await fetchWithStatus<{ token: string; player: { id: number } }>(
+      '/api/auth/register',
+      { method: 'POST', body: JSON.stringify({ username, password: 'password123' }) }
+    );
+    await new PlayerRepository().updatePlayerRole(data.player.id, role);
+    roleTestUsernames.push(username);
+    return { Authorization: `Bearer ${data.token}` };
+  };
+  const adminAuth = await registerWithRole('admin');
+  const designerAuth = await registerWithRole('designer');
+  const playerAuth = await registerWithRole('player');
+
   // ---- Health ----
   await test('GET /health', async () => {
     const { status, data } = await fetchWithStatus<{
@@ -950,6 +2599,15 @@ async function testApiEndpoints(): Promise<void> {
     assertEqual(status, 404, 'Should return 404 for nonexistent level');
   });
 
+  await test('GET /api/config/towers/:towerId/levels/:level?branch=', async () => {
+    const { status, data: level } = await fetchWithStatus<{ branch: string; parentBranch: string }>(
+      '/api/config/towers/3/levels/4?branch=Marksman'
+    );
+    assertEqual(status, 200, 'Should return 200');
+    assertEqual(level.branch, 'Marksman', 'Should return the branch level');
+    assertEqual(level.parentBranch, '', 'Marksman should upgrade from the main branch');
+  });
+
   // ---- Config - Enemies ----
   await test('GET /api/config/enemies', async () => {
     const { status, data: enemies } = await fetchWithStatus<Array<{ id: number }>>(
@@ -1021,12 +2679,317 @@ async function testApiEndpoints(): Promise<void> {
     assertEqual(data.mode, 'normal', 'Should return normal settings');
   });
 
+  // ---- Maps ----
+  await test('GET /api/config/maps', async () => {
+    const { status, data: maps } = await fetchWithStatus<{ id: number; waypoints: unknown[] }[]>(
+      '/api/config/maps'
+    );
+    assertEqual(status, 200, 'Should return 200');
+    assert(maps.length >= 1, 'Expected at least 1 map');
+    assertGreaterOrEqual(maps[0]?.waypoints.length ?? 0, 2, 'Map should have waypoints');
+  });
+
+  await test('GET /api/config/maps/:id (not found)', async () => {
+    const { status } = await fetchWithStatus('/api/config/maps/99999');
+    assertEqual(status, 404, 'Should return 404');
+  });
+
+  await test('GET /api/config/maps/:id (invalid)', async () => {
+    const { status } = await fetchWithStatus('/api/config/maps/abc');
+    assertEqual(status, 400, 'Should return 400');
+  });
+
+  await test('POST/PATCH/DELETE /api/config/maps', async () => {
+    const { status, data: created } = await fetchWithStatus<{ id: number; name: string }>(
+      '/api/config/maps',
+      {
+        method: 'POST',
+        headers: designerAuth,
+        body: JSON.stringify({
+          name: 'test-map-api',
+          waypoints: [
+            { x: -1, y: 2 },
+            { x: 21, y: 2 },
+          ],
+          blockedCells: [{ gridX: 3, gridY: 1 }],
+        }),
+      }
+    );
+    assertEqual(status, 201, 'Create should return 201');
+
+    const patched = await fetchWithStatus<{ description: string }>(
+      `/api/config/maps/${created.id}`,
+      { method: 'PATCH', headers: designerAuth, body: JSON.stringify({ description: 'Patched' }) }
+    );
+    assertEqual(patched.status, 200, 'Update should return 200');
+    assertEqual(patched.data.description, 'Patched', 'Description should be updated');
+
+    const invalid = await fetchWithStatus(`/api/config/maps/${created.id}`, {
+      method: 'PATCH',
+      headers: designerAuth,
+      body: JSON.stringify({ waypoints: [] }),
+    });
+    assertEqual(invalid.status, 400, 'Invalid waypoints should return 400');
+
+    const deleted = await fetchWithStatus(`/api/config/maps/${created.id}`, {
+      method: 'DELETE',
+      headers: designerAuth,
+    });
+    assertEqual(deleted.status, 204, 'Delete should return 204');
+  });
+
+  // ---- Config - Roles and Audit Log ----
+  await test('PATCH /api/config/enemies/:id (anonymous and player)', async () => {
+    const body = JSON.stringify({ health: 1 });
+    const anonymous = await fetchWithStatus('/api/config/enemies/1', { method: 'PATCH', body });
+    assertEqual(anonymous.status, 401, 'Should return 401 without a token');
+    const player = await fetchWithStatus('/api/config/enemies/1', {
+      method: 'PATCH',
+      headers: playerAuth,
+      body,
+    });
+    assertEqual(player.status, 403, 'Should return 403 for players');
+  });
+
+  await test('PATCH /api/config/settings/:id records the audit log', async () => {
+    assertDefined(normalSettings.id, 'Normal settings should have an ID');
+    const path = `/api/config/settings/${normalSettings.id}`;
+    const { status } = await fetchWithStatus(path, {
+      method: 'PATCH',
+      headers: designerAuth,
+      body: JSON.stringify({ initialLives: normalSettings.initialLives + 1 }),
+    });
+    assertEqual(status, 200, 'Designers should be able to edit settings');
+
+    const { data: entries } = await fetchWithStatus<
+      Array<{ entityId: string; field: string; oldValue: unknown; newValue: unknown }>
+    >('/api/config/audit-log?entityType=settings&limit=5', { headers: designerAuth });
+    const entry = entries.find((e) => e.field === 'initialLives');
+    assertDefined(entry, 'Change should be in the audit log');
+    assertEqual(entry.entityId, String(normalSettings.id), 'Entity ID mismatch');
+    assertEqual(entry.oldValue, normalSettings.initialLives, 'Old value mismatch');
+    assertEqual(entry.newValue, normalSettings.initialLives + 1, 'New value mismatch');
+
+    await fetchWithStatus(path, {
+      method: 'PATCH',
+      headers: designerAuth,
+      body: JSON.stringify({ initialLives: normalSettings.initialLives }),
+    });
+  });
+
+  await test('GET /api/config/audit-log (player)', async () => {
+    const { status } = await fetchWithStatus('/api/config/audit-log', { headers: playerAuth });
+    assertEqual(status, 403, 'Should return 403 for players');
+  });
+
+  await test('PATCH /api/auth/players/:id/role', async () => {
+    const { data: me } = await fetchWithStatus<{ id: number }>('/api/auth/me', {
+      headers: playerAuth,
+    });
+    const path = `/api/auth/players/${me.id}/role`;
+    const body = JSON.stringify({ role: 'designer' });
+
+    const designer = await fetchWithStatus(path, { method: 'PATCH', headers: designerAuth, body });
+    assertEqual(designer.status, 403, 'Only admins can change roles');
+    const admin = await fetchWithStatus<{ role: string }>(path, {
+      method: 'PATCH',
+      headers: adminAuth,
+      body,
+    });
+    assertEqual(admin.status, 200, 'Admins can change roles');
+    assertEqual(admin.data.role, 'designer', 'Role should be updated');
+
+    await fetchWithStatus(path, {
+      method: 'PATCH',
+      headers: adminAuth,
+      body: JSON.stringify({ role: 'player' }),
+    });
+  });
+
+  await test('POST /api/config/versions (player)', async () => {
+    const { status } = await fetchWithStatus('/api/config/versions', {
+      method: 'POST',
+      headers: playerAuth,
+    });
+    assertEqual(status, 403, 'Should return 403 for players');
+  });
+
+  await test('Config versions: publish, pin, diff and rollback', async () => {
+    assertDefined(normalSettings.id, 'Normal settings should have an ID');
+    const settingsPath = `/api/config/settings/${normalSettings.id}`;
+    const setLives = (initialLives: number) =>
+      fetchWithStatus(settingsPath, {
+        method: 'PATCH',
+        headers: designerAuth,
+        body: JSON.stringify({ initialLives }),
+      });
+    const publish = (notes: string) =>
+      fetchWithStatus<{ id: number; notes: string; rolledBackFrom: number | null }>(
+        '/api/config/versions',
+        { method: 'POST', headers: designerAuth, body: JSON.stringify({ notes }) }
+      );
+    const versionIds: number[] = [];
+    let gameId: string | undefined;
+
+    try {
+      await setLives(normalSettings.initialLives + 1);
+      const first = await publish('More lives');
+      assertEqual(first.status, 201, 'Designers should be able to publish');
+      assertEqual(first.data.notes, 'More lives', 'Notes mismatch');
+      versionIds.push(first.data.id);
+
+      const again = await publish('Nothing new');
+      if (again.status === 201) versionIds.push(again.data.id);
+      assertEqual(again.status, 400, 'Publishing an unchanged draft should fail');
+
+      // Games are pinned to the version that was current when they started
+      const { data: game } = await fetchWithStatus<{ gameId: string; lives: number }>(
+        '/api/games',
+        { method: 'POST', body: JSON.stringify({ difficulty: 'normal' }) }
+      );
+      gameId = game.gameId;
+      assertEqual(game.lives, normalSettings.initialLives + 1, 'Game should use the version');
+      const config = await fetchWithStatus<{ towers: unknown[] }>(`/api/games/${gameId}/config`);
+      assertEqual(config.status, 200, 'Pinned config should be available');
+
+      await setLives(normalSettings.initialLives + 2);
+      const diff = await fetchWithStatus<{
+        changes: Array<{ entityType: string; field: string; oldValue: unknown; newValue: unknown }>;
+      }>(`/api/config/versions/${first.data.id}/diff/draft`);
+      assertEqual(diff.status, 200, 'Diff should return 200');
+      assertEqual(diff.data.changes.length, 1, 'Only the lives should differ');
+      assertEqual(diff.data.changes[0]?.entityType, 'settings', 'Settings changed');
+      assertEqual(diff.data.changes[0]?.oldValue, normalSettings.initialLives + 1, 'Old value');
+      assertEqual(diff.data.changes[0]?.newValue, normalSettings.initialLives + 2, 'New value');
+
+      const second = await publish('Even more lives');
+      assertEqual(second.status, 201, 'Second publish should succeed');
+      versionIds.push(second.data.id);
+
+      const rollback = await fetchWithStatus<{ id: number; rolledBackFrom: number | null }>(
+        `/api/config/versions/${first.data.id}/rollback`,
+        { method: 'POST', headers: designerAuth }
+      );
+      assertEqual(rollback.status, 201, 'Rollback should return 201');
+      versionIds.push(rollback.data.id);
+      assertEqual(rollback.data.rolledBackFrom, first.data.id, 'Rollback source mismatch');
+      const restored = await fetchJson<{ initialLives: number }>(
+        `/api/config/settings/id/${normalSettings.id}`
+      );
+      assertEqual(restored.initialLives, normalSettings.initialLives + 1, 'Draft restored');
+
+      const versions = await fetchJson<Array<{ id: number }>>('/api/config/versions');
+      assertEqual(versions[0]?.id, rollback.data.id, 'The rollback is the current version');
+    } finally {
+      if (gameId) {
+        await fetchJson(`/api/games/${gameId}/end`, {
+          method: 'POST',
+          body: JSON.stringify({ finalWave: 0, enemiesKilled: 0 }),
+        });
+      }
+      await setLives(normalSettings.initialLives);
+      await query('DELETE FROM config_versions WHERE id = ANY($1)', [versionIds]);
+    }
+  });
+
+  await test('GET /api/config/versions/:a/diff/:b (invalid and not found)', async () => {
+    const invalid = await fetchWithStatus('/api/config/versions/abc/diff/draft');
+    assertEqual(invalid.status, 400, 'Should return 400 for invalid versions');
+    const missing = await fetchWithStatus('/api/config/versions/999999/diff/draft');
+    assertEqual(missing.status, 404, 'Should return 404 for missing versions');
+  });
+
+  await test('POST /api/config/import (player)', async () => {
+    const { status } = await fetchWithStatus('/api/config/import', {
+      method: 'POST',
+      headers: playerAuth,
+      body: JSON.stringify({}),
+    });
+    assertEqual(status, 403, 'Should return 403 for players');
+  });
+
+  await test('Config bundles: export, dry run, conflicts and import', async () => {
+    assertDefined(normalSettings.id, 'Normal settings should have an ID');
+    type Bundle = {
+      format: string;
+      towers: Array<{ id: number; levels: Array<{ towerId: number }> }>;
+      settings: Array<{ id: number; initialLives: number }>;
+    };
+    type ImportResult = {
+      applied: boolean;
+      changes: Array<{ entityType: string; newValue: unknown }>;
+      conflicts: Array<{ entityType: string; entityId: number }>;
+    };
+    const importBundle = (bundle: unknown, dryRun: boolean) =>
+      fetchWithStatus<ImportResult & { details?: string[] }>(
+        `/api/config/import${dryRun ? '?dryRun=true' : ''}`,
+        { method: 'POST', headers: designerAuth, body: JSON.stringify(bundle) }
+      );
+
+    const exported = await fetchWithStatus<Bundle>('/api/config/export');
+    assertEqual(exported.status, 200, 'Export should return 200');
+    assertEqual(exported.data.format, 'chess-tdf-config', 'Bundle format');
+
+    const unchanged = await importBundle(exported.data, true);
+    assertEqual(unchanged.status, 200, 'Dry run should return 200');
+    assertEqual(unchanged.data.changes.length, 0, 'Re-importing an export changes nothing');
+    assertEqual(unchanged.data.conflicts.length, 0, 'No conflicts with itself');
+
+    const edited = structuredClone(exported.data);
+    const settings = edited.settings.find((s) => s.id === normalSettings.id)!;
+    settings.initialLives = normalSettings.initialLives + 3;
+
+    try {
+      const foreign = structuredClone(edited);
+      const tower = foreign.towers[0]!;
+      tower.id = 999999;
+      for (const level of tower.levels) level.towerId = tower.id;
+      const conflicted = await importBundle(foreign, false);
+      assertEqual(conflicted.status, 409, 'Conflicting bundles should not be applied');
+      assert(
+        conflicted.data.conflicts.some((c) => c.entityType === 'tower' && c.entityId === 999999),
+        'Unknown tower should be reported'
+      );
+
+      const preview = await importBundle(edited, true);
+      assertEqual(preview.data.applied, false, 'Dry runs should not apply');
+      assertEqual(preview.data.changes.length, 1, 'Only the lives should change');
+      let draft = await fetchJson<{ initialLives: number }>(
+        `/api/config/settings/id/${normalSettings.id}`
+      );
+      assertEqual(draft.initialLives, normalSettings.initialLives, 'Dry run left the draft');
+
+      const applied = await importBundle(edited, false);
+      assertEqual(applied.status, 200, 'Import should return 200');
+      assertEqual(applied.data.applied, true, 'Import should apply');
+      draft = await fetchJson(`/api/config/settings/id/${normalSettings.id}`);
+      assertEqual(draft.initialLives, normalSettings.initialLives + 3, 'Draft updated');
+    } finally {
+      await fetchWithStatus(`/api/config/settings/${normalSettings.id}`, {
+        method: 'PATCH',
+        headers: designerAuth,
+        body: JSON.stringify({ initialLives: normalSettings.initialLives }),
+      });
+    }
+  });
+
+  await test('POST /api/config/import (invalid bundle)', async () => {
+    const { status, data } = await fetchWithStatus<{ details: string[] }>('/api/config/import', {
+      method: 'POST',
+      headers: designerAuth,
+      body: JSON.stringify({ format: 'chess-tdf-config', formatVersion: 1, towers: 'none' }),
+    });
+    assertEqual(status, 400, 'Should return 400 for invalid bundles');
+    assert(data.details.includes('towers must be an array'), 'Details should list problems');
+  });
+
   // ---- Game Lifecycle ----
   await test('POST /api/games', async () => {
     const { status, data: response } = await fetchWithStatus<{
       gameId: string;
       initialCoins: number;
       lives: number;
+      map: { id: number };
     }>('/api/games', {
       method: 'POST',
       body: JSON.stringify({ difficulty: 'normal', gameMode: '10waves' }),
@@ -1035,6 +2998,7 @@ async function testApiEndpoints(): Promise<void> {
     assert(response.gameId.length > 0, 'Game ID should not be empty');
     assertEqual(response.initialCoins, normalSettings.initialCoins, 'Initial coins should match DB');
     assertEqual(response.lives, normalSettings.initialLives, 'Lives should match DB');
+    assertDefined(response.map, 'Response should include the map');
     // Cleanup
     await fetchJson(`/api/games/${response.gameId}/end`, {
       method: 'POST',
@@ -1042,6 +3006,59 @@ async function testApiEndpoints(): Promise<void> {
     });
   });
 
+  await test('POST /api/games (seed)', async () => {
+    const { status, data: response } = await fetchWithStatus<{ gameId: string; seed: number }>(
+      '/api/games',
+      { method: 'POST', body: JSON.stringify({ difficulty: 'normal', seed: 42 }) }
+    );
+    assertEqual(status, 201, 'Should return 201');
+    assertEqual(response.seed, 42, 'Response should return the given seed');
+    const state = await fetchJson<{ seed: number | null }>(`/api/games/${response.gameId}`);
+    assertEqual(state.seed, 42, 'Game state should include the seed');
+    await fetchJson(`/api/games/${response.gameId}/end`, {
+      method: 'POST',
+      body: JSON.stringify({ finalWave: 0, enemiesKilled: 0 }),
+    });
+
+    const invalid = await fetchWithStatus('/api/games', {
+      method: 'POST',
+      body: JSON.stringify({ difficulty: 'normal', seed: -1 }),
+    });
+    assertEqual(invalid.status, 400, 'Should return 400 for an invalid seed');
+  });
+
+  await test('POST /api/games (mutators)', async () => {
+    const { status, data: response } = await fetchWithStatus<{
+      gameId: string;
+      mutators: string[];
+    }>('/api/games', {
+      method: 'POST',
+      body: JSON.stringify({ difficulty: 'normal', mutators: ['fogOfWar', 'doubleSpeed'] }),
+    });
+    assertEqual(status, 201, 'Should return 201');
+    assertEqual(response.mutators.join(), 'doubleSpeed,fogOfWar', 'Mutators in catalog order');
+    const state = await fetchJson<{ mutators: string[] }>(`/api/games/${response.gameId}`);
+    assertEqual(state.mutators.join(), 'doubleSpeed,fogOfWar', 'Game state should include them');
+    await fetchJson(`/api/games/${response.gameId}/end`, {
+      method: 'POST',
+      body: JSON.stringify({ finalWave: 0, enemiesKilled: 0 }),
+    });
+
+    const invalid = await fetchWithStatus('/api/games', {
+      method: 'POST',
+      body: JSON.stringify({ difficulty: 'normal', mutators: ['invisible'] }),
+    });
+    assertEqual(invalid.status, 400, 'Should return 400 for an unknown mutator');
+  });
+
+  await test('POST /api/games (map not found)', async () => {
+    const { status } = await fetchWithStatus('/api/games', {
+      method: 'POST',
+      body: JSON.stringify({ difficulty: 'normal', mapId: 99999 }),
+    });
+    assertEqual(status, 404, 'Should return 404 for unknown map');
+  });
+
   await test('GET /api/games/config', async () => {
     const { status, data: config } = await fetchWithStatus<{
       towers: unknown[];
@@ -1096,6 +3113,8 @@ async function testApiEndpoints(): Promise<void> {
       lives: number;
       wave: number;
       towers: unknown[];
+      status: string;
+      map: unknown;
     }>(`/api/games/${testGameId}`);
     assertEqual(status, 200, 'Should return 200');
     assertEqual(
@@ -1106,6 +3125,46 @@ async function testApiEndpoints(): Promise<void> {
     assertEqual(state.lives, normalSettings.initialLives, 'Lives should match');
     assertEqual(state.wave, 0, 'Wave should be 0');
     assert(state.towers.length >= 1, 'Should have at least 1 tower');
+    assertEqual(state.status, 'active', 'Game should be active');
+    assertDefined(state.map, 'State should include the map to resume on');
+  });
+
+  await test('GET /api/games?status=active', async () => {
+    const { data: game } = await fetchWithStatus<{ gameId: string }>('/api/games', {
+      method: 'POST',
+      headers: playerAuth,
+      body: JSON.stringify({ difficulty: 'normal', gameMode: '10waves' }),
+    });
+    const { status, data: games } = await fetchWithStatus<
+      Array<{ gameId: string; status: string }>
+    >('/api/games?status=active', { headers: playerAuth });
+    assertEqual(status, 200, 'Should return 200');
+    assert(
+      games.some((g) => g.gameId === game.gameId),
+      "The player's running game should be listed"
+    );
+    assert(!games.some((g) => g.gameId === testGameId), 'Anonymous games should not be listed');
+    assert(
+      games.every((g) => g.status === 'active'),
+      'Only active games should be listed'
+    );
+    await fetchWithStatus(`/api/games/${game.gameId}/end`, {
+      method: 'POST',
+      headers: playerAuth,
+      body: JSON.stringify({ finalWave: 0, enemiesKilled: 0 }),
+    });
+  });
+
+  await test('GET /api/games?status=active (anonymous)', async () => {
+    const { status } = await fetchWithStatus('/api/games?status=active');
+    assertEqual(status, 401, 'Should return 401 for anonymous callers');
+  });
+
+  await test('GET /api/games?status=invalid', async () => {
+    const { status } = await fetchWithStatus<{ error: string }>('/api/games?status=invalid', {
+      headers: playerAuth,
+    });
+    assertEqual(status, 400, 'Should return 400 for an unknown status');
   });
 
   await test('GET /api/games/:gameId (not found)', async () => {
@@ -1141,6 +3200,38 @@ async function testApiEndpoints(): Promise<void> {
     assertEqual(status, 400, 'Should return 400 for nonexistent tower');
   });
 
+  await test('PATCH /api/games/:gameId/towers/:towerId (invalid branch)', async () => {
+    assertDefined(builtTowerId, 'Need a tower ID for upgrade test');
+    const { status } = await fetchWithStatus<{ error: string }>(
+      `/api/games/${testGameId}/towers/${builtTowerId}`,
+      { method: 'PATCH', body: JSON.stringify({ branch: 4 }) }
+    );
+    assertEqual(status, 400, 'Should return 400 for a non-string branch');
+  });
+
+  await test('PATCH /api/games/:gameId/towers/:towerId/targeting', async () => {
+    assertDefined(builtTowerId, 'Need a tower ID for targeting test');
+    const { status, data } = await fetchWithStatus<{
+      success: boolean;
+      tower: { targetingMode: string };
+    }>(`/api/games/${testGameId}/towers/${builtTowerId}/targeting`, {
+      method: 'PATCH',
+      body: JSON.stringify({ targetingMode: 'first' }),
+    });
+    assertEqual(status, 200, 'Should return 200');
+    assert(data.success, 'Targeting change should succeed');
+    assertEqual(data.tower.targetingMode, 'first', 'Tower should target first');
+  });
+
+  await test('PATCH /api/games/:gameId/towers/:towerId/targeting (invalid mode)', async () => {
+    assertDefined(builtTowerId, 'Need a tower ID for targeting test');
+    const { status } = await fetchWithStatus<{ error: string }>(
+      `/api/games/${testGameId}/towers/${builtTowerId}/targeting`,
+      { method: 'PATCH', body: JSON.stringify({ targetingMode: 'random' }) }
+    );
+    assertEqual(status, 400, 'Should return 400 for an unknown targeting mode');
+  });
+
   await test('DELETE /api/games/:gameId/towers/:towerId (sell)', async () => {
     assertDefined(builtTowerId, 'Need a tower ID for sell test');
     const { status, data } = await fetchWithStatus<{
@@ -1162,52 +3253,24 @@ async function testApiEndpoints(): Promise<void> {
     assertEqual(status, 400, 'Should return 400 for nonexistent tower');
   });
 
-  // Coins and lives endpoints
-  await test('PATCH /api/games/:gameId/coins', async () => {
-    const { status, data } = await fetchWithStatus<{ success: boolean; coins: number }>(
-      `/api/games/${testGameId}/coins`,
-      {
-        method: 'PATCH',
-        body: JSON.stringify({ amount: 100 }),
-      }
-    );
-    assertEqual(status, 200, 'Should return 200');
-    assert(data.success, 'Add coins should succeed');
-    assertGreater(data.coins, 0, 'Coins should be positive');
-  });
-
-  await test('PATCH /api/games/:gameId/coins (invalid amount)', async () => {
+  // Coins and lives are server-authoritative; the old client endpoints are gone
+  await test('PATCH /api/games/:gameId/coins (removed)', async () => {
     const { status } = await fetchWithStatus<{ error: string }>(
       `/api/games/${testGameId}/coins`,
       {
         method: 'PATCH',
-        body: JSON.stringify({ amount: -10 }),
+        body: JSON.stringify({ amount: 100 }),
       }
     );
-    assertEqual(status, 400, 'Should return 400 for negative amount');
+    assertEqual(status, 404, 'Should return 404 for removed endpoint');
   });
 
-  await test('PATCH /api/games/:gameId/coins (not found)', async () => {
+  await test('PATCH /api/games/:gameId/lives (removed)', async () => {
     const { status } = await fetchWithStatus<{ error: string }>(
-      '/api/games/nonexistent-game-id/coins',
-      {
-        method: 'PATCH',
-        body: JSON.stringify({ amount: 10 }),
-      }
+      `/api/games/${testGameId}/lives`,
+      { method: 'PATCH' }
     );
-    assertEqual(status, 404, 'Should return 404 for nonexistent game');
-  });
-
-  await test('PATCH /api/games/:gameId/lives', async () => {
-    const { status, data } = await fetchWithStatus<{
-      success: boolean;
-      lives: number;
-      gameOver: boolean;
-    }>(`/api/games/${testGameId}/lives`, { method: 'PATCH' });
-    assertEqual(status, 200, 'Should return 200');
-    assert(data.success, 'Lose life should succeed');
-    assertEqual(data.lives, normalSettings.initialLives - 1, 'Lives should decrease by 1');
-    assert(!data.gameOver, 'Should not be game over yet');
+    assertEqual(status, 404, 'Should return 404 for removed endpoint');
   });
 
   await test('POST /api/games/:gameId/waves', async () => {
@@ -1216,12 +3279,50 @@ async function testApiEndpoints(): Promise<void> {
       enemies: unknown[];
       enemyHealthWaveMultiplier: number;
       enemyRewardWaveMultiplier: number;
+      result: { enemiesSpawned: number; enemiesKilled: number; enemiesLeaked: number };
+      coins: number;
+      lives: number;
+      gameOver: boolean;
+      gameWon: boolean;
     }>(`/api/games/${testGameId}/waves`, { method: 'POST' });
     assertEqual(status, 200, 'Should return 200');
     assertEqual(response.waveNumber, 1, 'Wave should be 1');
     assert(response.enemies.length > 0, 'Should have enemies');
     assert(typeof response.enemyHealthWaveMultiplier === 'number', 'Should have health multiplier');
     assert(typeof response.enemyRewardWaveMultiplier === 'number', 'Should have reward multiplier');
+    assertEqual(
+      response.result.enemiesSpawned,
+      response.enemies.length,
+      'Simulation should spawn every wave enemy'
+    );
+    assertEqual(
+      response.result.enemiesKilled + response.result.enemiesLeaked,
+      response.result.enemiesSpawned,
+      'Every spawned enemy should be killed or leaked'
+    );
+    assertEqual(response.gameOver, response.lives <= 0, 'gameOver should match lives');
+    assertEqual(response.gameWon, false, 'The first wave should not win the game');
+  });
+
+  await test('POST /api/games/:gameId/waves/complete', async () => {
+    const { status } = await fetchWithStatus<{ success: boolean }>(
+      `/api/games/${testGameId}/waves/complete`,
+      { method: 'POST' }
+    );
+    assertEqual(status, 200, 'Should return 200');
+    const { status: again } = await fetchWithStatus<{ error: string }>(
+      `/api/games/${testGameId}/waves/complete`,
+      { method: 'POST' }
+    );
+    assertEqual(again, 400, 'Should return 400 without a wave in progress');
+  });
+
+  await test('POST /api/games/:gameId/waves (not found)', async () => {
+    const { status } = await fetchWithStatus<{ error: string }>(
+      '/api/games/nonexistent-game-id/waves',
+      { method: 'POST' }
+    );
+    assertEqual(status, 404, 'Should return 404 for nonexistent game');
   });
 
   await test('POST /api/games/:gameId/end', async () => {
@@ -1229,18 +3330,134 @@ async function testApiEndpoints(): Promise<void> {
       `/api/games/${testGameId}/end`,
       {
         method: 'POST',
-        body: JSON.stringify({ finalWave: 1, enemiesKilled: 5 }),
+        body: JSON.stringify({ finalWave: 1, enemiesKilled: 5, replay: makeReplayPayload() }),
       }
     );
     assertEqual(status, 200, 'Should return 200');
     assert(response.success, 'End game should succeed');
   });
 
+  await test('GET /api/games/:gameId/replay', async () => {
+    const { status, data: replay } = await fetchWithStatus<{
+      gameId: string;
+      actions: unknown[];
+      duration: number;
+    }>(`/api/games/${testGameId}/replay`);
+    assertEqual(status, 200, 'Should return 200');
+    assertEqual(replay.gameId, testGameId, 'Game ID mismatch');
+    assertEqual(replay.actions.length, 2, 'Actions should match the upload');
+    // Cleanup
+    await query('DELETE FROM game_replays WHERE game_id = $1', [testGameId]);
+  });
+
+  await test('GET /api/games/:gameId/replay (not found)', async () => {
+    const { status } = await fetchWithStatus('/api/games/nonexistent-replay/replay');
+    assertEqual(status, 404, 'Should return 404');
+  });
+
+  await test('POST /api/games/:gameId/end (invalid outcome)', async () => {
+    const { status } = await fetchWithStatus('/api/games/nonexistent-game/end', {
+      method: 'POST',
+      body: JSON.stringify({ finalWave: 1, enemiesKilled: 0, outcome: 'draw' }),
+    });
+    assertEqual(status, 400, 'Should return 400');
+  });
+
+  await test('POST /api/games/:gameId/end (invalid replay)', async () => {
+    const { status } = await fetchWithStatus('/api/games/nonexistent-game/end', {
+      method: 'POST',
+      body: JSON.stringify({ finalWave: 1, enemiesKilled: 0, replay: { actions: [] } }),
+    });
+    assertEqual(status, 400, 'Should return 400');
+  });
+
+  // ---- Auth ----
+  const testUsername = `api-test-${Date.now()}`;
+  let authToken = '';
+
+  await test('POST /api/auth/register', async () => {
+    const { status, data } = await fetchWithStatus<{
+      token: string;
+      player: { id: number; username: string };
+    }>('/api/auth/register', {
+      method: 'POST',
+      body: JSON.stringify({ username: testUsername, password: 'password123' }),
+    });
+    assertEqual(status, 201, 'Should return 201');
+    assertEqual(data.player.username, testUsername, 'Username mismatch');
+    assert(data.token.length > 0, 'Should return a token');
+    authToken = data.token;
+  });
+
+  await test('POST /api/auth/register (username taken)', async () => {
+    const { status } = await fetchWithStatus<{ error: string }>('/api/auth/register', {
+      method: 'POST',
+      body: JSON.stringify({ username: testUsername, password: 'password123' }),
+    });
+    assertEqual(status, 400, 'Should return 400 for a taken username');
+  });
+
+  await test('POST /api/auth/login', async () => {
+    const { status, data } = await fetchWithStatus<{ token: string }>('/api/auth/login', {
+      method: 'POST',
+      body: JSON.stringify({ username: testUsername, password: 'password123' }),
+    });
+    assertEqual(status, 200, 'Should return 200');
+    assert(data.token.length > 0, 'Should return a token');
+  });
+
+  await test('POST /api/auth/login (wrong password)', async () => {
+    const { status } = await fetchWithStatus<{ error: string }>('/api/auth/login', {
+      method: 'POST',
+      body: JSON.stringify({ username: testUsername, password: 'wrong-password' }),
+    });
+    assertEqual(status, 401, 'Should return 401 for a wrong password');
+  });
+
+  await test('GET /api/auth/me', async () => {
+    const { status, data } = await fetchWithStatus<{ username: string }>('/api/auth/me', {
+      headers: { Authorization: `Bearer ${authToken}` },
+    });
+    assertEqual(status, 200, 'Should return 200');
+    assertEqual(data.username, testUsername, 'Should return the signed-in player');
+  });
+
+  await test('GET /api/auth/me (anonymous and invalid token)', async () => {
+    const anonymous = await fetchWithStatus('/api/auth/me');
+    assertEqual(anonymous.status, 401, 'Should return 401 without a token');
+    const invalid = await fetchWithStatus('/api/auth/me', {
+      headers: { Authorization: 'Bearer not-a-token' },
+    });
+    assertEqual(invalid.status, 401, 'Should return 401 for an invalid token');
+  });
+
+  await test("GET /api/games/:gameId (another player's game)", async () => {
+    const auth = { Authorization: `Bearer ${authToken}` };
+    const { data: game } = await fetchWithStatus<{ gameId: string }>('/api/games', {
+      method: 'POST',
+      headers: auth,
+      body: JSON.stringify({ difficulty: 'normal', gameMode: '10waves' }),
+    });
+    const anonymous = await fetchWithStatus(`/api/games/${game.gameId}`);
+    assertEqual(anonymous.status, 403, 'Should return 403 for anonymous callers');
+    const owner = await fetchWithStatus(`/api/games/${game.gameId}`, { headers: auth });
+    assertEqual(owner.status, 200, 'Should return 200 for the owner');
+    const config = await fetchWithStatus(`/api/games/${game.gameId}/config`);
+    assertEqual(config.status, 403, "Should not return another player's game config");
+
+    await fetchWithStatus(`/api/games/${game.gameId}/end`, {
+      method: 'POST',
+      headers: auth,
+      body: JSON.stringify({ finalWave: 0, enemiesKilled: 0 }),
+    });
+  });
+
   // ---- Statistics ----
   // Create test statistics for filter tests
   const testStatGameId = 'api-test-stat-' + Date.now();
   await fetchJson('/api/statistics', {
     method: 'POST',
+    headers: adminAuth,
     body: JSON.stringify(
       makeStatsPayload(testStatGameId, {
         enemiesKilledByType: { '1': 50, '2': 50 },
@@ -1269,6 +3486,35 @@ async function testApiEndpoints(): Promise<void> {
     );
     assertEqual(status, 200, 'Should return 200');
     assert(Array.isArray(topScores), 'Top scores should be an array');
+
+    const filtered = await fetchWithStatus<unknown[]>('/api/statistics/top-scores?mutators=');
+    assertEqual(filtered.status, 200, 'Should return 200 for games without mutators');
+    const invalid = await fetchWithStatus('/api/statistics/top-scores?mutators=invisible');
+    assertEqual(invalid.status, 400, 'Should return 400 for an unknown mutator');
+    const byMode = await fetchWithStatus<unknown[]>(
+      '/api/statistics/top-scores?gameMode=endless&difficulty=hard'
+    );
+    assertEqual(byMode.status, 200, 'Should return 200 for a game mode and difficulty');
+    const badMode = await fetchWithStatus('/api/statistics/top-scores?gameMode=5waves');
+    assertEqual(badMode.status, 400, 'Should return 400 for an unknown game mode');
+    const badDifficulty = await fetchWithStatus('/api/statistics/top-scores?difficulty=insane');
+    assertEqual(badDifficulty.status, 400, 'Should return 400 for an unknown difficulty');
+  });
+
+  await test('GET /api/statistics/towers, enemies, waves and trends', async () => {
+    for (const path of ['towers', 'enemies', 'waves', 'trends', 'trends?interval=week']) {
+      const { status, data } = await fetchWithStatus<unknown[]>(`/api/statistics/${path}`);
+      assertEqual(status, 200, `${path} should return 200`);
+      assert(Array.isArray(data), `${path} should return an array`);
+    }
+    const filtered = await fetchWithStatus<unknown[]>(
+      '/api/statistics/towers?gameMode=endless&difficulty=hard&days=7'
+    );
+    assertEqual(filtered.status, 200, 'Should return 200 for valid filters');
+    const badDays = await fetchWithStatus('/api/statistics/enemies?days=0');
+    assertEqual(badDays.status, 400, 'Should return 400 for days below 1');
+    const badInterval = await fetchWithStatus('/api/statistics/trends?interval=month');
+    assertEqual(badInterval.status, 400, 'Should return 400 for an unknown interval');
   });
 
   await test('GET /api/statistics (paginated)', async () => {
@@ -1326,29 +3572,51 @@ async function testApiEndpoints(): Promise<void> {
     assertEqual(status, 400, 'Should return 400 for invalid game mode');
   });
 
+  await test('GET /api/statistics/daily/:date', async () => {
+    const today = new Date().toISOString().slice(0, 10);
+    const { status, data } = await fetchWithStatus<{
+      challenge: { date: string; towerIds: number[] };
+      entries: unknown[];
+    }>(`/api/statistics/daily/${today}`);
+    assertEqual(status, 200, 'Should return 200');
+    assertEqual(data.challenge.date, today, 'Should return the challenge of the date');
+    assert(Array.isArray(data.entries), 'Entries should be an array');
+
+    const invalid = await fetchWithStatus('/api/statistics/daily/2026-13-01');
+    assertEqual(invalid.status, 400, 'Should return 400 for an invalid date');
+    const future = await fetchWithStatus('/api/statistics/daily/9999-01-01');
+    assertEqual(future.status, 400, 'Should return 400 for a future date');
+  });
+
   await test('POST /api/statistics (record)', async () => {
     const recordId = 'api-test-record-' + Date.now();
-    const { status, data } = await fetchWithStatus<{ id: number; gameId: string }>(
-      '/api/statistics',
-      {
-        method: 'POST',
-        body: JSON.stringify(
-          makeStatsPayload(recordId, {
-            duration: 30000,
-            outcome: 'loss',
-            finalWave: 3,
-            wavesCompleted: 2,
-            enemiesKilledTotal: 20,
-            towersBuiltTotal: 2,
-            coinsEarned: 200,
-            coinsSpent: 100,
-            damageDealt: 500,
-          })
-        ),
-      }
-    );
+    const { status, data } = await fetchWithStatus<GameStatistics>('/api/statistics', {
+      method: 'POST',
+      headers: adminAuth,
+      body: JSON.stringify(
+        makeStatsPayload(recordId, {
+          duration: 30000,
+          outcome: 'loss',
+          finalWave: 3,
+          wavesCompleted: 2,
+          enemiesKilledTotal: 20,
+          towersBuiltTotal: 2,
+          coinsEarned: 200,
+          coinsSpent: 100,
+          damageDealt: 500,
+          score: 999999,
+          scoreBreakdown: { waves: 999999, lives: 0, efficiency: 0, time: 0, multiplier: 1 },
+          dailyDate: '2026-01-01',
+          dailyRanked: true,
+        })
+      ),
+    });
     assertEqual(status, 201, 'Should return 201');
-    assertGreater(data.id, 0, 'Should return positive ID');
+    assertGreater(data.id ?? 0, 0, 'Should return positive ID');
+    assertEqual(data.scoreBreakdown?.waves, 200, 'The score should be computed by the server');
+    assert(data.score !== 999999, 'A score in the body should be ignored');
+    assertEqual(data.dailyDate, null, 'A daily date in the body should be ignored');
+    assertEqual(data.dailyRanked, false, 'A ranked daily attempt in the body should be ignored');
     // Cleanup
     await query('DELETE FROM game_statistics WHERE game_id = $1', [recordId]);
   });
@@ -1356,21 +3624,70 @@ async function testApiEndpoints(): Promise<void> {
   await test('POST /api/statistics (missing fields)', async () => {
     const { status } = await fetchWithStatus<{ error: string }>('/api/statistics', {
       method: 'POST',
+      headers: adminAuth,
       body: JSON.stringify({ gameId: 'x' }),
     });
     assertEqual(status, 400, 'Should return 400 for missing required fields');
   });
 
+  await test('POST /api/statistics (not an admin)', async () => {
+    const body = JSON.stringify(makeStatsPayload('api-test-forged-' + Date.now()));
+    const anonymous = await fetchWithStatus('/api/statistics', { method: 'POST', body });
+    assertEqual(anonymous.status, 401, 'Should return 401 for anonymous callers');
+    const player = await fetchWithStatus('/api/statistics', {
+      method: 'POST',
+      headers: playerAuth,
+      body,
+    });
+    assertEqual(player.status, 403, 'Should return 403 for players');
+  });
+
   await test('DELETE /api/statistics?olderThanDays=5 (invalid)', async () => {
     const { status } = await fetchWithStatus<{ error: string }>(
       '/api/statistics?olderThanDays=5',
-      { method: 'DELETE' }
+      { method: 'DELETE', headers: adminAuth }
     );
     assertEqual(status, 400, 'Should return 400 for days < 30');
   });
 
-  // Cleanup test statistics
+  await test('DELETE /api/statistics (not an admin)', async () => {
+    const { status } = await fetchWithStatus<{ error: string }>(
+      '/api/statistics?olderThanDays=90',
+      { method: 'DELETE', headers: { Authorization: `Bearer ${authToken}` } }
+    );
+    assertEqual(status, 403, 'Should return 403 for players');
+  });
+
+  await test('DELETE /api/statistics (anonymous)', async () => {
+    const { status } = await fetchWithStatus<{ error: string }>(
+      '/api/statistics?olderThanDays=90',
+      { method: 'DELETE' }
+    );
+    assertEqual(status, 401, 'Should return 401 without a token');
+  });
+
+  await test('GET /api/statistics/me', async () => {
+    const { status, data } = await fetchWithStatus<{
+      summary: { totalGames: number };
+      games: Array<{ playerName: string }>;
+    }>('/api/statistics/me', { headers: { Authorization: `Bearer ${authToken}` } });
+    assertEqual(status, 200, 'Should return 200');
+    assertEqual(data.summary.totalGames, data.games.length, 'Summary should count the history');
+    assert(
+      data.games.every((g) => g.playerName === testUsername),
+      "History should only hold the player's games"
+    );
+  });
+
+  // Cleanup test statistics and player
   await query('DELETE FROM game_statistics WHERE game_id = $1', [testStatGameId]);
+  await query(
+    `DELETE FROM game_statistics WHERE player_id IN (SELECT id FROM players WHERE username = $1)`,
+    [testUsername]
+  );
+  await query('DELETE FROM players WHERE username = $1', [testUsername]);
+  await query('DELETE FROM config_audit_log WHERE username = ANY($1)', [roleTestUsernames]);
+  await query('DELETE FROM players WHERE username = ANY($1)', [roleTestUsernames]);
 }
 
 // ============================================================
@@ -1386,6 +3703,7 @@ async function runTests(): Promise<void> {
   try {
     await testDatabase();
     await testRepositories();
+    await testWaveSimulation();
     await testServices();
     await testApiEndpoints();
   } catch (error) {
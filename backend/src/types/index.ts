@@ -7,20 +7,46 @@ export interface TowerDefinition {
   color: string;
   description: string;
   maxLevel: number;
+  attackPattern: AttackPattern;
 }
 
+// Which cells a tower can shoot into: a circle of `range`, or the cells its
+// chess piece could move to (rook lines, bishop diagonals, knight L-jumps)
+export type AttackPattern = 'radius' | 'rook' | 'bishop' | 'knight';
+
 // Tower Level (Per-level stats for a tower type)
-// Level 1 = base tower stats, Level 2+ = upgrade stats
+// Level 1 = base tower stats, Level 2+ = upgrade stats. Levels form an upgrade
+// tree: several nodes of the same level on different branches are alternatives.
 export interface TowerLevel {
   id?: number;
   towerId: number;
   level: number;
+  branch: string; // e.g. 'Marksman'; '' is the main branch
+  parentBranch: string; // branch of the level below this upgrades from (ignored at level 1)
   cost: number; // cost to build (level 1) or upgrade to this level (level 2+)
   damage: number;
   range: number;
   fireRate: number; // shots per second
+  damageType: DamageType;
+  projectileType: ProjectileType;
+  splashRadius: number; // pixels, splash only
+  chainCount: number; // extra enemies a chain bounces to
+  chainRange: number; // pixels between chain bounces
+  pierceCount: number; // extra enemies a pierce shot passes through
+  effectType: StatusEffectType | null; // status effect applied on hit
+  effectStrength: number; // see StatusEffect.strength
+  effectDuration: number; // ms
 }
 
+// How a tower's shot travels and which enemies it hits
+export type ProjectileType = 'single' | 'splash' | 'chain' | 'pierce';
+
+// Damage types: pierce and splash are reduced by armor, magic ignores it
+export type DamageType = 'pierce' | 'splash' | 'magic';
+
+// Fraction of damage resisted per type (negative = weakness)
+export type Resistances = Partial<Record<DamageType, number>>;
+
 // Tower definition with all its levels included
 export interface TowerDefinitionWithLevels extends TowerDefinition {
   levels: TowerLevel[];
@@ -37,6 +63,42 @@ export interface EnemyDefinition {
   reward: number; // coins awarded on kill
   color: string;
   size: number;
+  armor: number; // flat damage reduction per hit (ignored by magic)
+  resistances: Resistances;
+  abilities: EnemyAbilities;
+}
+
+// Data-driven enemy abilities; an enemy may have any combination
+export interface EnemyAbilities {
+  jump?: { distance: number; intervalMs: number }; // leap forward along the path (px) periodically
+  diagonal?: boolean; // cut path corners diagonally on maps with allowDiagonal
+  promote?: { atProgress: number; toEnemyId: number }; // become another enemy past this fraction of the path
+  aura?: { radius: number; speedBonus: number; armorBonus: number }; // buff other enemies in range
+}
+
+// Map waypoint in grid units; (x, y) is a grid line intersection, so y = 5 runs
+// between rows 4 and 5. Enemies walk the polyline from the first to the last point.
+export interface MapPoint {
+  x: number;
+  y: number;
+}
+
+// Single grid cell (column, row)
+export interface GridCell {
+  gridX: number;
+  gridY: number;
+}
+
+// Map Definition (Static configuration)
+export interface MapDefinition {
+  id: number;
+  name: string;
+  description: string;
+  waypoints: MapPoint[];
+  blockedCells: GridCell[]; // cells where towers cannot be built (usually the path itself)
+  allowDiagonal: boolean; // enemies with the diagonal ability may cut corners
+  createdAt?: Date;
+  updatedAt?: Date;
 }
 
 // Tower runtime stats (derived from TowerLevel at current level)
@@ -45,8 +107,31 @@ export interface TowerStats {
   damage: number;
   range: number;
   fireRate: number;
+  damageType: DamageType;
+  projectileType: ProjectileType;
+  splashRadius: number;
+  chainCount: number;
+  chainRange: number;
+  pierceCount: number;
+  effectType: StatusEffectType | null;
+  effectStrength: number;
+  effectDuration: number;
 }
 
+// Debuffs towers apply to enemies on hit
+export type StatusEffectType = 'slow' | 'poison' | 'stun' | 'shred';
+
+// One active debuff on an enemy; times are game time in ms
+export interface StatusEffect {
+  type: StatusEffectType;
+  strength: number; // slow: fraction of speed removed, poison: damage per second, shred: armor removed, stun: unused
+  expiresAt: number;
+  nextTickAt: number; // poison only
+}
+
+// Which enemy in range a tower shoots at
+export type TargetingMode = 'first' | 'last' | 'strongest' | 'weakest' | 'closest';
+
 // Tower Instance (Runtime game object)
 export interface Tower {
   id: string;
@@ -56,7 +141,9 @@ export interface Tower {
   x: number; // pixel position
   y: number;
   level: number;
+  branch: string; // upgrade tree branch of the current level
   stats: TowerStats; // current stats at this level
+  targetingMode: TargetingMode;
   lastFireTime: number;
 }
 
@@ -103,6 +190,14 @@ export interface GameSession {
   lastUpdated: Date;
   gameMode?: GameMode | undefined;
   settingsId?: number | undefined;
+  configVersionId?: number | undefined; // undefined plays the live config
+  seed?: number | undefined; // undefined for games started before seeds
+  daily?: DailyGame | undefined; // daily challenge games only
+  mutators: MutatorId[];
+  map?: MapDefinition | undefined;
+  enemiesKilled: number;
+  status: SessionStatus;
+  waveActive: boolean; // towers can only change between waves
 }
 
 // Enemy Spawn Data
@@ -117,6 +212,10 @@ export interface StartGameResponse {
   gameId: string;
   initialCoins: number;
   lives: number;
+  map: MapDefinition;
+  seed: number; // seeds every random choice, pass it to a new game to replay this one
+  daily: DailyGame | null; // null unless the game is a daily challenge
+  mutators: MutatorId[];
 }
 
 export interface GameConfigResponse {
@@ -130,6 +229,15 @@ export interface BuildTowerRequest {
   gridY: number;
 }
 
+export interface SetTargetingRequest {
+  targetingMode: TargetingMode;
+}
+
+// Which node to upgrade into; only needed where the upgrade tree branches
+export interface UpgradeTowerRequest {
+  branch?: string;
+}
+
 export interface BuildTowerResponse {
   success: boolean;
   tower?: Tower;
@@ -137,31 +245,140 @@ export interface BuildTowerResponse {
   message?: string;
 }
 
+// Server-side wave outcome (authoritative kills, leaks, rewards and lives)
+export interface WaveSimulationResult {
+  waveNumber: number;
+  enemiesSpawned: number;
+  enemiesKilled: number;
+  enemiesLeaked: number;
+  enemiesKilledByType: { [key: string]: number };
+  coinsEarned: number;
+  livesLost: number;
+  damageDealt: number;
+  durationMs: number; // simulated time until the wave was cleared or lost
+}
+
 export interface StartWaveResponse {
   waveNumber: number;
   enemies: EnemySpawnData[];
   enemyHealthWaveMultiplier: number;
   enemyRewardWaveMultiplier: number;
+  result: WaveSimulationResult;
+  coins: number; // session coins after the wave's rewards
+  lives: number; // session lives after the wave's leaks
+  gameOver: boolean;
+  gameWon: boolean; // the game mode's final wave was cleared
 }
 
 export interface EndGameRequest {
   finalWave: number;
   enemiesKilled: number;
+  // Tracked by the client and cross-checked against the session; older clients
+  // send none of them and record a loss with empty breakdowns
+  outcome?: GameOutcome;
+  duration?: number; // ms of play time
+  enemiesKilledByType?: { [key: string]: number }; // enemy ID → kills
+  towersBuiltByType?: { [key: string]: number }; // tower ID → towers built
+  damageByTowerType?: { [key: string]: number }; // tower ID → damage its shots dealt
+  replay?: ReplayUpload;
 }
 
+// The client's statistics of a finished game
+export type EndGameStats = Required<
+  Pick<
+    EndGameRequest,
+    'duration' | 'enemiesKilledByType' | 'towersBuiltByType' | 'damageByTowerType'
+  >
+>;
+
 export interface EndGameResponse {
   success: boolean;
+  score: number;
+  scoreBreakdown: ScoreBreakdown;
+}
+
+// Replay Types
+
+// Everything needed to play a game back without the live config (no RNG involved)
+export interface ReplayConfig {
+  towers: TowerDefinitionWithLevels[];
+  enemies: EnemyDefinition[];
+  map: MapDefinition;
+  initialCoins: number;
+  lives: number;
+  seed?: number; // absent in replays recorded before seeds
+  mutators?: MutatorId[]; // absent in replays recorded before mutators
 }
 
+// Single recorded player action; gameTime is the client game clock in ms.
+// coins is the session balance reported by the backend after the action.
+export type ReplayAction =
+  | {
+      type: 'build';
+      gameTime: number;
+      towerInstanceId: string;
+      towerId: number;
+      gridX: number;
+      gridY: number;
+      coins: number;
+    }
+  | {
+      type: 'upgrade';
+      gameTime: number;
+      towerInstanceId: string;
+      level: number;
+      branch?: string; // missing in replays recorded before upgrade trees
+      coins: number;
+    }
+  | { type: 'sell'; gameTime: number; towerInstanceId: string; coins: number }
+  | { type: 'targeting'; gameTime: number; towerInstanceId: string; targetingMode: TargetingMode }
+  | ({ type: 'wave'; gameTime: number } & Omit<StartWaveResponse, 'gameWon'> & {
+        gameWon?: boolean; // missing in replays recorded before finite modes could be won
+      });
+
+export type ReplayActionType = ReplayAction['type'];
+
+export interface GameReplay {
+  id?: number;
+  gameId: string;
+  config: ReplayConfig;
+  actions: ReplayAction[];
+  duration: number; // ms of game time
+  createdAt?: Date;
+}
+
+export type ReplayUpload = Omit<GameReplay, 'id' | 'gameId' | 'createdAt'>;
+
 export interface GameStateResponse {
   coins: number;
   lives: number;
   wave: number;
   towers: Tower[];
+  enemiesKilled: number;
+  status: SessionStatus;
+  waveActive: boolean; // a started wave still has to be completed before towers can change
+  map: MapDefinition | null; // needed to resume the game in a new browser session
+  seed: number | null; // null for games started before seeds
+  mutators: MutatorId[];
+}
+
+// Resumable game listed on the main screen (GET /api/games?status=...)
+export interface GameSessionSummary {
+  gameId: string;
+  gameMode: GameMode;
+  difficulty: SettingsMode | null;
+  mapName: string | null;
+  wave: number;
+  coins: number;
+  lives: number;
+  towerCount: number;
+  startedAt: Date;
+  lastUpdated: Date;
+  status: SessionStatus;
 }
 
 // Game Mode Types
-export type GameMode = '10waves' | '20waves' | 'endless';
+export type GameMode = '10waves' | '20waves' | 'endless' | 'daily';
 export type SettingsMode = 'easy' | 'normal' | 'hard' | 'custom';
 export type GameOutcome = 'win' | 'loss';
 export type SessionStatus = 'active' | 'completed' | 'abandoned';
@@ -175,6 +392,16 @@ export interface GameSettings {
   initialLives: number;
   enemyHealthWaveMultiplier: number;
   enemyRewardWaveMultiplier: number;
+  // Endless waves past the last defined one are generated from these
+  endlessBudgetGrowth: number; // budget growth per generated wave (0.15 = +15%)
+  endlessBossInterval: number; // every Nth wave is a boss wave, 0 for none
+  endlessUnlockWaves: Record<number, number>; // enemy ID -> first wave the generator may use it in
+  // A game's score adds up these points, times the difficulty multiplier
+  scoreWavePoints: number; // per wave cleared
+  scoreLifePoints: number; // per life remaining, wins only
+  scoreEfficiencyPoints: number; // for winning with every coin earned unspent, pro rata
+  scoreTimePoints: number; // per wave cleared at par pace or faster, pro rata when slower
+  scoreMultiplier: number;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -188,12 +415,22 @@ export interface WaveDefinition {
 }
 
 // Tower data as stored in JSONB (excludes runtime-computed fields)
-export type TowerDB = Pick<Tower, 'id' | 'towerId' | 'gridX' | 'gridY' | 'level' | 'stats'>;
+export type TowerDB = Pick<Tower, 'id' | 'towerId' | 'gridX' | 'gridY' | 'level' | 'stats'> & {
+  branch?: string; // missing on sessions saved before upgrade trees
+  targetingMode?: TargetingMode; // missing on sessions saved before targeting modes
+};
 
 export interface GameSessionDB {
   id?: number;
   gameId: string;
+  playerId?: number | null; // null for anonymous games
   settingsId?: number | null;
+  mapId?: number | null;
+  configVersionId?: number | null; // null plays the live config
+  seed?: number | null; // null for games started before seeds
+  daily?: DailyGame | null; // JSONB, daily challenge games only
+  customSeed?: boolean; // the player chose the seed, so the game is not ranked
+  mutators?: MutatorId[]; // JSONB
   gameMode: GameMode;
   currentWave: number;
   wavesCompleted: number;
@@ -204,14 +441,28 @@ export interface GameSessionDB {
   coinsEarned: number;
   coinsSpent: number;
   damageDealt: number;
+  playTimeMs: number; // simulated time of the waves played, so pauses don't count
+  waveActive: boolean; // a wave was started and the client has not finished playing it yet
   startedAt: Date;
   lastUpdated: Date;
   status: SessionStatus;
+  outcome?: GameOutcome | null; // set by the wave that decides the game, null until then
+}
+
+// Points a game scored for each part of the formula, before the difficulty multiplier
+export interface ScoreBreakdown {
+  waves: number;
+  lives: number;
+  efficiency: number;
+  time: number;
+  multiplier: number;
 }
 
 export interface GameStatistics {
   id?: number;
   gameId: string;
+  playerId?: number | null; // null for anonymous games
+  playerName?: string | null; // joined from players for leaderboards
   timestamp: Date;
   duration: number;
   outcome: GameOutcome;
@@ -225,10 +476,25 @@ export interface GameStatistics {
   coinsEarned: number;
   coinsSpent: number;
   damageDealt: number;
+  damageByTowerType?: { [key: string]: number }; // empty for games recorded before it was tracked
   settingsId?: number | null;
+  seed?: number | null; // null for games recorded before seeds
+  dailyDate?: string | null; // challenge date of daily games
+  dailyRanked?: boolean; // the player's first attempt at that challenge
+  customSeed?: boolean; // played on a seed the player chose, left out of the top scores
+  mutators?: MutatorId[]; // in catalog order, so equal sets compare equal
+  score?: number; // 0 for games recorded before scoring
+  scoreBreakdown?: ScoreBreakdown | null; // null for games recorded before scoring
   createdAt?: Date;
 }
 
+// Filters of the top scores; each one given narrows them down
+export interface TopScoreFilters {
+  mutators?: MutatorId[]; // exactly this set, [] for none
+  gameMode?: GameMode;
+  difficulty?: SettingsMode;
+}
+
 export interface StatisticsSummary {
   totalGames: number;
   wins: number;
@@ -240,6 +506,80 @@ export interface StatisticsSummary {
   totalTowersBuilt: number;
 }
 
+// Filters of the analytics aggregates; each one given narrows the games down
+export interface AnalyticsFilters {
+  gameMode?: GameMode;
+  difficulty?: SettingsMode;
+  days?: number; // only games of the last this many days
+}
+
+// How often the games built a tower type, and how those games went (rates in percent)
+export interface TowerAnalytics {
+  towerType: string; // key of towersBuiltByType
+  gamesPicked: number;
+  pickRate: number; // of all games
+  winRate: number; // of the games that picked it
+  totalBuilt: number;
+  damageDealt: number;
+}
+
+// Kills of an enemy type (share in percent of all kills)
+export interface EnemyAnalytics {
+  enemyType: string; // key of enemiesKilledByType
+  kills: number;
+  killShare: number;
+  gamesSeen: number; // games that killed at least one
+}
+
+// Games that ended on a wave, and how many of them were won
+export interface WaveDistributionPoint {
+  wave: number; // final wave reached
+  games: number;
+  wins: number;
+}
+
+export type TrendInterval = 'day' | 'week';
+
+// One difficulty's games in one day or week (win rate in percent)
+export interface TrendPoint {
+  period: string; // YYYY-MM-DD, the first day of the day or week (weeks start on Monday)
+  difficulty: SettingsMode | null; // null for games recorded without settings
+  games: number;
+  winRate: number;
+  avgWave: number;
+}
+
+// Admins manage accounts and statistics; designers (and admins) edit game config
+export type PlayerRole = 'admin' | 'designer' | 'player';
+
+// Player account (never exposes the password hash)
+export interface Player {
+  id: number;
+  username: string;
+  role: PlayerRole;
+  createdAt: Date;
+}
+
+export interface PlayerDB extends Player {
+  passwordHash: string;
+}
+
+// Identity carried by a verified auth token (attached to req.player)
+export interface AuthenticatedPlayer {
+  id: number;
+  username: string;
+}
+
+export interface AuthRequest {
+  username: string;
+  password: string;
+}
+
+export interface AuthResponse {
+  token: string;
+  player: Player;
+}
+
 // Tower info for UI display (includes next level preview)
 export interface TowerInfo {
   currentLevel: number;
@@ -260,6 +600,12 @@ export interface UpgradeTowerResponse {
   message?: string | undefined;
 }
 
+export interface SetTargetingResponse {
+  success: boolean;
+  tower?: Tower | undefined;
+  message?: string | undefined;
+}
+
 export interface SellTowerResponse {
   success: boolean;
   refundAmount: number;
@@ -286,3 +632,139 @@ export interface GetStatisticsResponse {
 }
 
 export type GetStatisticsSummaryResponse = StatisticsSummary;
+
+export interface PlayerHistoryResponse {
+  summary: StatisticsSummary;
+  games: GameStatistics[];
+}
+
+// Daily challenge: one seed, modifier set and tower loadout per UTC date, the same for everyone
+export type DailyModifierId = 'wealthy' | 'fragile' | 'armored' | 'bounty' | 'relentless';
+
+export interface DailyModifier {
+  id: DailyModifierId;
+  name: string;
+  description: string;
+}
+
+export interface DailyChallenge {
+  date: string; // YYYY-MM-DD (UTC)
+  seed: number;
+  modifiers: DailyModifier[];
+  towerIds: number[]; // the only towers that can be built
+}
+
+// Stored on a daily game's session
+export interface DailyGame {
+  date: string;
+  modifiers: DailyModifierId[];
+  towerIds: number[];
+  ranked: boolean; // only a player's first attempt at a date is ranked
+}
+
+export interface DailyLeaderboardResponse {
+  challenge: DailyChallenge;
+  entries: GameStatistics[]; // ranked attempts, best first
+}
+
+// Mutators: optional rule changes picked at game start, freely combinable
+export type MutatorId =
+  | 'doubleSpeed'
+  | 'noSelling'
+  | 'halfRefunds'
+  | 'expensiveTowers'
+  | 'regeneration'
+  | 'fogOfWar';
+
+export interface Mutator {
+  id: MutatorId;
+  name: string;
+  description: string;
+}
+
+// Audit log: one entry per changed field of a config change
+export type AuditEntityType =
+  | 'tower'
+  | 'tower_level'
+  | 'enemy'
+  | 'wave'
+  | 'settings'
+  | 'map'
+  | 'player'
+  | 'version';
+
+export interface AuditLogEntry {
+  id: number;
+  playerId: number | null;
+  username: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  field: string;
+  oldValue: unknown; // null when the entity was created
+  newValue: unknown; // null when the entity was deleted
+  createdAt: Date;
+}
+
+// Config versions: the live config tables are the draft designers edit,
+// publishing freezes them into an immutable version that new games play
+
+export interface ConfigSnapshot {
+  towers: TowerDefinitionWithLevels[];
+  enemies: EnemyDefinition[];
+  waves: WaveDefinition[];
+  settings: GameSettings[];
+}
+
+export interface ConfigVersionSummary {
+  id: number;
+  notes: string;
+  rolledBackFrom: number | null; // the version a rollback restored
+  playerId: number | null;
+  username: string;
+  publishedAt: Date;
+}
+
+export interface ConfigVersion extends ConfigVersionSummary {
+  snapshot: ConfigSnapshot;
+}
+
+// Either side of a diff: a version ID or the current draft
+export type ConfigVersionRef = number | 'draft';
+
+export interface ConfigVersionChange {
+  entityType: 'tower' | 'tower_level' | 'enemy' | 'wave' | 'settings' | 'map'; // maps only in imports
+  entityId: string; // tower levels are "towerId:level"
+  field: string;
+  oldValue: unknown; // null when the entity was added
+  newValue: unknown; // null when the entity was removed
+}
+
+export interface ConfigVersionDiff {
+  from: ConfigVersionRef;
+  to: ConfigVersionRef;
+  changes: ConfigVersionChange[];
+}
+
+// Portable config bundle: a whole config as one JSON file that can be exported
+// from one server and imported into another (or analyzed offline)
+export interface ConfigBundle extends ConfigSnapshot {
+  format: 'chess-tdf-config';
+  formatVersion: number;
+  exportedAt: string;
+  configVersionId: number | null; // the published version exported, null for the draft
+  maps: MapDefinition[];
+}
+
+// An entity that exists on only one side, so the bundle cannot be applied as is
+export interface ConfigImportConflict {
+  entityType: 'tower' | 'enemy' | 'settings' | 'map';
+  entityId: number;
+  message: string;
+}
+
+export interface ConfigImportResult {
+  dryRun: boolean;
+  applied: boolean;
+  changes: ConfigVersionChange[]; // draft -> bundle
+  conflicts: ConfigImportConflict[];
+}
@@ -1,18 +1,29 @@
 import { useEffect } from 'react';
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { useGameStore } from './state/gameStore';
+import { useAuthStore } from './state/authStore';
 import { MainScreen } from './components/screens/MainScreen';
 import { GameScreen } from './components/screens/GameScreen';
+import { ReplayScreen } from './components/screens/ReplayScreen';
 import { SettingsScreen } from './components/screens/SettingsScreen';
+import { LoginScreen } from './components/screens/LoginScreen';
+import { HistoryScreen } from './components/screens/HistoryScreen';
+import { StatisticsScreen } from './components/screens/StatisticsScreen';
+import { GameStatisticsScreen } from './components/screens/GameStatisticsScreen';
 import './App.css';
 
 function App() {
   const initializeGame = useGameStore((state) => state.initializeGame);
+  const loadPlayer = useAuthStore((state) => state.loadPlayer);
 
   useEffect(() => {
     initializeGame();
   }, [initializeGame]);
 
+  useEffect(() => {
+    loadPlayer();
+  }, [loadPlayer]);
+
   return (
     <BrowserRouter>
       <div className="app">
@@ -20,6 +31,11 @@ function App() {
           <Route path="/" element={<MainScreen />} />
           <Route path="/settings" element={<SettingsScreen />} />
           <Route path="/game/:gameId" element={<GameScreen />} />
+          <Route path="/replay/:gameId" element={<ReplayScreen />} />
+          <Route path="/login" element={<LoginScreen />} />
+          <Route path="/history" element={<HistoryScreen />} />
+          <Route path="/statistics" element={<StatisticsScreen />} />
+          <Route path="/statistics/:gameId" element={<GameStatisticsScreen />} />
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
       </div>
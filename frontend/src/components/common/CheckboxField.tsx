@@ -0,0 +1,12 @@
+interface CheckboxFieldProps {
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}
+
+export const CheckboxField = ({ label, checked, onChange }: CheckboxFieldProps) => (
+  <div className="field-row">
+    <label>{label}</label>
+    <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} />
+  </div>
+);
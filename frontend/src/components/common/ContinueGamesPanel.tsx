@@ -0,0 +1,38 @@
+import type { GameSessionSummary } from '../../types';
+import { capitalize, formatGameMode } from '../../utils/string';
+
+interface ContinueGamesPanelProps {
+  games: GameSessionSummary[];
+  onContinue: (gameId: string) => void;
+}
+
+export const ContinueGamesPanel = ({ games, onContinue }: ContinueGamesPanelProps) => {
+  if (games.length === 0) {
+    return <div className="stats-panel-empty">No saved games</div>;
+  }
+
+  return (
+    <div className="continue-games">
+      {games.map((game) => (
+        <div key={game.gameId} className="continue-game-row">
+          <div className="continue-game-info">
+            <span className="continue-game-title">
+              {formatGameMode(game.gameMode)}
+              {game.difficulty && ` · ${capitalize(game.difficulty)}`}
+              {game.mapName && ` · ${game.mapName}`}
+            </span>
+            <span className="continue-game-meta">
+              Wave {game.wave} · {game.lives} lives · {game.coins} coins · {game.towerCount} towers
+            </span>
+            <span className="continue-game-meta">
+              Last played {new Date(game.lastUpdated).toLocaleString()}
+            </span>
+          </div>
+          <button className="btn btn-gold btn-sm" onClick={() => onContinue(game.gameId)}>
+            Continue
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import { useEffect, useRef, type RefObject } from 'react';
+import { Application } from 'pixi.js';
+import { GameEngine } from '../../game/GameEngine';
+import { AssetLoader } from '../../game/managers/AssetLoader';
+import { CanvasState } from '../../config/gameConfig';
+
+interface GameCanvasProps {
+  // Receives the running engine (null after unmount), e.g. for replay seeking
+  engineRef?: RefObject<GameEngine | null>;
+}
+
+/**
+ * PixiJS canvas + GameEngine lifecycle. The engine reads the map and
+ * entities from the game store, so the store must be ready before mounting.
+ */
+export const GameCanvas = ({ engineRef }: GameCanvasProps) => {
+  const canvasRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    let localApp: Application | null = null;
+    let localEngine: GameEngine | null = null;
+
+    const initPixi = async () => {
+      const container = canvasRef.current;
+      if (!container || isCancelled) return;
+
+      // Clear any existing canvas elements
+      while (container.firstChild) {
+        container.removeChild(container.firstChild);
+      }
+
+      // Use fixed canvas size for simplicity
+      const canvasWidth = 800;
+      const canvasHeight = 400;
+
+      // Update CanvasState with dimensions
+      CanvasState.updateDimensions(canvasWidth, canvasHeight);
+
+      // Initialize PixiJS Application
+      const app = new Application();
+      await app.init({
+        width: canvasWidth,
+        height: canvasHeight,
+        backgroundColor: 0x1a1a1a,
+        antialias: true,
+        resolution: window.devicePixelRatio || 1,
+        autoDensity: true,
+      });
+
+      // Check if effect was cancelled during async init
+      if (isCancelled) {
+        app.destroy({ removeView: true });
+        return;
+      }
+
+      localApp = app;
+
+      // Mount canvas to DOM
+      container.appendChild(app.canvas as HTMLCanvasElement);
+
+      // Load chess piece assets before creating engine
+      try {
+        await AssetLoader.loadChessPieces();
+      } catch (error) {
+        console.warn('Failed to load chess piece assets, using fallback graphics:', error);
+      }
+
+      // Initialize game engine
+      const engine = new GameEngine(app);
+      localEngine = engine;
+      engine.start();
+
+      if (engineRef) {
+        engineRef.current = engine;
+      }
+    };
+
+    initPixi();
+
+    return () => {
+      isCancelled = true;
+      // Cleanup local references (captures the actual instances)
+      if (localEngine) {
+        localEngine.stop();
+      }
+      if (localApp) {
+        localApp.destroy({ removeView: true });
+      }
+      if (engineRef) {
+        engineRef.current = null;
+      }
+    };
+  }, [engineRef]);
+
+  return (
+    <div className="game-canvas-container" ref={canvasRef}>
+      {/* PixiJS canvas will be injected here */}
+    </div>
+  );
+};
@@ -0,0 +1,30 @@
+import type { MapDefinition } from '../../types';
+
+interface MapSelectorProps {
+  maps: MapDefinition[];
+  selectedMapId: number | null;
+  onSelectMap: (mapId: number) => void;
+}
+
+export const MapSelector = ({ maps, selectedMapId, onSelectMap }: MapSelectorProps) => {
+  // No explicit choice yet: the backend starts on the first map
+  const currentMap = maps.find((m) => m.id === selectedMapId) ?? maps[0];
+
+  return (
+    <>
+      <div className="difficulty-options map-options">
+        {maps.map((map) => (
+          <button
+            key={map.id}
+            className={`btn btn-dark btn-sm difficulty-button ${currentMap?.id === map.id ? 'selected' : ''}`}
+            onClick={() => onSelectMap(map.id)}
+          >
+            {map.name}
+          </button>
+        ))}
+      </div>
+
+      {currentMap?.description && <p className="map-description">{currentMap.description}</p>}
+    </>
+  );
+};
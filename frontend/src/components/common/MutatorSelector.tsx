@@ -0,0 +1,23 @@
+import type { MutatorId } from '../../types';
+import { MUTATORS } from '../../utils/mutators';
+
+interface MutatorSelectorProps {
+  selected: MutatorId[];
+  onToggle: (mutator: MutatorId) => void;
+}
+
+// Mutators for the next game, any combination (none by default)
+export const MutatorSelector = ({ selected, onToggle }: MutatorSelectorProps) => (
+  <div className="difficulty-options mutator-options">
+    {MUTATORS.map((mutator) => (
+      <button
+        key={mutator.id}
+        className={`btn btn-dark btn-sm ${selected.includes(mutator.id) ? 'selected' : ''}`}
+        title={mutator.description}
+        onClick={() => onToggle(mutator.id)}
+      >
+        {mutator.name}
+      </button>
+    ))}
+  </div>
+);
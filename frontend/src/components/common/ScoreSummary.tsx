@@ -0,0 +1,21 @@
+import type { ScoreBreakdown } from '../../types';
+
+interface ScoreSummaryProps {
+  breakdown: ScoreBreakdown;
+}
+
+// Points a game scored per part of the formula, then the difficulty multiplier
+export const ScoreSummary = ({ breakdown }: ScoreSummaryProps) => (
+  <dl className="score-summary">
+    <dt>Waves Cleared</dt>
+    <dd>{breakdown.waves}</dd>
+    <dt>Lives Remaining</dt>
+    <dd>{breakdown.lives}</dd>
+    <dt>Coin Efficiency</dt>
+    <dd>{breakdown.efficiency}</dd>
+    <dt>Wave Pace</dt>
+    <dd>{breakdown.time}</dd>
+    <dt>Difficulty</dt>
+    <dd>&times;{breakdown.multiplier}</dd>
+  </dl>
+);
@@ -0,0 +1,26 @@
+interface SelectFieldProps<T extends string> {
+  label: string;
+  value: T;
+  options: readonly T[];
+  onChange: (value: T) => void;
+  getLabel?: (option: T) => string;
+}
+
+export const SelectField = <T extends string>({
+  label,
+  value,
+  options,
+  onChange,
+  getLabel = (option) => option,
+}: SelectFieldProps<T>) => (
+  <div className="field-row">
+    <label>{label}</label>
+    <select value={value} onChange={(e) => onChange(e.target.value as T)}>
+      {options.map((option) => (
+        <option key={option} value={option}>
+          {getLabel(option)}
+        </option>
+      ))}
+    </select>
+  </div>
+);
@@ -1,48 +1,90 @@
-import { useState, useEffect } from 'react';
+import { Fragment, useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { gameApi } from '../../services/gameApi';
-import type { StatisticsSummary, GameStatistics } from '../../types';
+import { capitalize, formatDuration, formatGameMode } from '../../utils/string';
+import { getTowerImage } from '../../utils/pieceAssets';
+import { MUTATORS, normalizeMutators } from '../../utils/mutators';
+import { ScoreSummary } from './ScoreSummary';
+import type {
+  StatisticsSummary,
+  GameStatistics,
+  DailyLeaderboardResponse,
+  MutatorId,
+  TopScoreFilters,
+} from '../../types';
 
-type Tab = 'recent' | 'highscores' | 'overall';
+type Tab = 'recent' | 'highscores' | 'daily' | 'overall';
 
-const formatDuration = (ms: number): string => {
-  const seconds = Math.floor(ms / 1000);
-  const mins = Math.floor(seconds / 60);
-  const secs = seconds % 60;
-  return `${mins}:${secs.toString().padStart(2, '0')}`;
-};
+const GAME_MODES: NonNullable<TopScoreFilters['gameMode']>[] = [
+  '10waves',
+  '20waves',
+  'endless',
+  'daily',
+];
+const DIFFICULTIES: NonNullable<TopScoreFilters['difficulty']>[] = [
+  'easy',
+  'normal',
+  'hard',
+  'custom',
+];
 
-const formatGameMode = (mode: string): string => {
-  if (mode === '10waves') return '10 Waves';
-  if (mode === '20waves') return '20 Waves';
-  if (mode === 'endless') return 'Endless';
-  return mode;
-};
+interface StatisticsPanelProps {
+  onPlayDaily: () => void;
+}
 
-export const StatisticsPanel = () => {
+export const StatisticsPanel = ({ onPlayDaily }: StatisticsPanelProps) => {
+  const navigate = useNavigate();
   const [activeTab, setActiveTab] = useState<Tab>('recent');
   const [summary, setSummary] = useState<StatisticsSummary | null>(null);
   const [recentGames, setRecentGames] = useState<GameStatistics[]>([]);
   const [topScores, setTopScores] = useState<GameStatistics[]>([]);
+  // Highscores of exactly this mutator set ([] = none), null for all games
+  const [mutatorFilter, setMutatorFilter] = useState<MutatorId[] | null>(null);
+  const [modeFilter, setModeFilter] = useState<TopScoreFilters['gameMode'] | null>(null);
+  const [difficultyFilter, setDifficultyFilter] = useState<TopScoreFilters['difficulty'] | null>(
+    null
+  );
+  // Highscore whose score breakdown is shown
+  const [expandedGameId, setExpandedGameId] = useState<string | null>(null);
+  const [daily, setDaily] = useState<DailyLeaderboardResponse | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
+    // Daily challenges change at midnight UTC
+    const today = new Date().toISOString().slice(0, 10);
     Promise.all([
       gameApi.getStatisticsSummary(),
       gameApi.getRecentGames(1),
-      gameApi.getTopScores(10),
+      gameApi.getDailyLeaderboard(today),
     ])
-      .then(([summaryData, recentData, topData]) => {
+      .then(([summaryData, recentData, dailyData]) => {
         setSummary(summaryData);
         setRecentGames(recentData);
-        setTopScores(topData);
+        setDaily(dailyData);
       })
       .catch(console.error)
       .finally(() => setLoading(false));
   }, []);
 
+  useEffect(() => {
+    const filters: TopScoreFilters = {};
+    if (mutatorFilter) filters.mutators = mutatorFilter;
+    if (modeFilter) filters.gameMode = modeFilter;
+    if (difficultyFilter) filters.difficulty = difficultyFilter;
+    gameApi.getTopScores(10, filters).then(setTopScores).catch(console.error);
+  }, [mutatorFilter, modeFilter, difficultyFilter]);
+
+  const toggleMutatorFilter = (mutator: MutatorId) =>
+    setMutatorFilter((filter) =>
+      filter?.includes(mutator)
+        ? filter.filter((m) => m !== mutator)
+        : normalizeMutators([...(filter ?? []), mutator])
+    );
+
   const tabs: { key: Tab; label: string }[] = [
     { key: 'recent', label: 'Recent' },
     { key: 'highscores', label: 'Highscores' },
+    { key: 'daily', label: 'Daily' },
     { key: 'overall', label: 'Overall' },
   ];
 
@@ -100,6 +142,25 @@ export const StatisticsPanel = () => {
                     <span className="stats-recent-label">Towers</span>
                     <span className="stats-recent-value">{lastGame.towersBuiltTotal}</span>
                   </div>
+                  <div className="stats-recent-item">
+                    <span className="stats-recent-label">Score</span>
+                    <span className="stats-recent-value">{lastGame.score ?? 0}</span>
+                  </div>
+                </div>
+                {lastGame.scoreBreakdown && <ScoreSummary breakdown={lastGame.scoreBreakdown} />}
+                <div className="stats-recent-actions">
+                  <button
+                    className="btn btn-dark btn-sm"
+                    onClick={() => navigate(`/statistics/${lastGame.gameId}`)}
+                  >
+                    Details
+                  </button>
+                  <button
+                    className="btn btn-dark btn-sm"
+                    onClick={() => navigate(`/replay/${lastGame.gameId}`)}
+                  >
+                    Watch Replay
+                  </button>
                 </div>
               </div>
             ) : (
@@ -110,33 +171,171 @@ export const StatisticsPanel = () => {
 
         {activeTab === 'highscores' && (
           <>
+            <div className="stats-mutator-filter">
+              <button
+                className={`btn btn-dark btn-sm ${mutatorFilter === null ? 'selected' : ''}`}
+                onClick={() => setMutatorFilter(null)}
+              >
+                All
+              </button>
+              <button
+                className={`btn btn-dark btn-sm ${mutatorFilter?.length === 0 ? 'selected' : ''}`}
+                onClick={() => setMutatorFilter([])}
+              >
+                No Mutators
+              </button>
+              {MUTATORS.map((mutator) => (
+                <button
+                  key={mutator.id}
+                  className={`btn btn-dark btn-sm ${mutatorFilter?.includes(mutator.id) ? 'selected' : ''}`}
+                  title={mutator.description}
+                  onClick={() => toggleMutatorFilter(mutator.id)}
+                >
+                  {mutator.name}
+                </button>
+              ))}
+            </div>
+            <div className="stats-mutator-filter">
+              <button
+                className={`btn btn-dark btn-sm ${modeFilter === null ? 'selected' : ''}`}
+                onClick={() => setModeFilter(null)}
+              >
+                All Modes
+              </button>
+              {GAME_MODES.map((mode) => (
+                <button
+                  key={mode}
+                  className={`btn btn-dark btn-sm ${modeFilter === mode ? 'selected' : ''}`}
+                  onClick={() => setModeFilter(mode)}
+                >
+                  {formatGameMode(mode)}
+                </button>
+              ))}
+            </div>
+            <div className="stats-mutator-filter">
+              <button
+                className={`btn btn-dark btn-sm ${difficultyFilter === null ? 'selected' : ''}`}
+                onClick={() => setDifficultyFilter(null)}
+              >
+                All Difficulties
+              </button>
+              {DIFFICULTIES.map((difficulty) => (
+                <button
+                  key={difficulty}
+                  className={`btn btn-dark btn-sm ${difficultyFilter === difficulty ? 'selected' : ''}`}
+                  onClick={() => setDifficultyFilter(difficulty)}
+                >
+                  {capitalize(difficulty)}
+                </button>
+              ))}
+            </div>
             {topScores.length === 0 ? (
               <div className="stats-panel-empty">No high scores yet</div>
             ) : (
               <div className="stats-scores">
                 <div className="stats-score-row stats-score-header">
                   <span>#</span>
+                  <span>Player</span>
+                  <span>Score</span>
                   <span>Wave</span>
-                  <span>Kills</span>
                   <span>Time</span>
                   <span>Mode</span>
                 </div>
                 {topScores.map((game, index) => (
-                  <div key={game.gameId} className="stats-score-row">
-                    <span className={index < 3 ? 'stats-score-medal' : ''}>
-                      #{index + 1}
-                    </span>
-                    <span>{game.finalWave}</span>
-                    <span>{game.enemiesKilledTotal}</span>
-                    <span>{formatDuration(game.duration)}</span>
-                    <span>{formatGameMode(game.gameMode)}</span>
-                  </div>
+                  <Fragment key={game.gameId}>
+                    <div
+                      className="stats-score-row stats-score-expandable"
+                      title="Show score breakdown"
+                      onClick={() =>
+                        setExpandedGameId((id) => (id === game.gameId ? null : game.gameId))
+                      }
+                    >
+                      <span className={index < 3 ? 'stats-score-medal' : ''}>#{index + 1}</span>
+                      <span className="stats-score-player">{game.playerName ?? 'Anonymous'}</span>
+                      <span>{game.score ?? 0}</span>
+                      <span>{game.finalWave}</span>
+                      <span>{formatDuration(game.duration)}</span>
+                      <span>{formatGameMode(game.gameMode)}</span>
+                    </div>
+                    {expandedGameId === game.gameId && game.scoreBreakdown && (
+                      <ScoreSummary breakdown={game.scoreBreakdown} />
+                    )}
+                  </Fragment>
                 ))}
               </div>
             )}
           </>
         )}
 
+        {activeTab === 'daily' && (
+          <>
+            {daily ? (
+              <>
+                <div className="stats-daily-challenge">
+                  <div className="stats-daily-modifiers">
+                    {daily.challenge.modifiers.map((modifier) => (
+                      <span
+                        key={modifier.id}
+                        className="stats-daily-modifier"
+                        title={modifier.description}
+                      >
+                        {modifier.name}
+                      </span>
+                    ))}
+                  </div>
+                  <div className="stats-daily-loadout">
+                    {daily.challenge.towerIds.map((towerId) => (
+                      <img
+                        key={towerId}
+                        src={getTowerImage(towerId)}
+                        alt={`Tower ${towerId}`}
+                        className="piece-icon-small"
+                      />
+                    ))}
+                  </div>
+                  <button className="btn btn-gold btn-sm" onClick={onPlayDaily}>
+                    Play Today's Challenge
+                  </button>
+                </div>
+                <p className="stats-daily-note">
+                  Only your first attempt is ranked. Sign in to appear on the leaderboard.
+                </p>
+                {daily.entries.length === 0 ? (
+                  <div className="stats-panel-empty">No ranked attempts yet today</div>
+                ) : (
+                  <div className="stats-scores">
+                    <div className="stats-score-row stats-score-header">
+                      <span>#</span>
+                      <span>Player</span>
+                      <span>Score</span>
+                      <span>Wave</span>
+                      <span>Time</span>
+                      <span />
+                    </div>
+                    {daily.entries.map((game, index) => (
+                      <div key={game.gameId} className="stats-score-row">
+                        <span className={index < 3 ? 'stats-score-medal' : ''}>#{index + 1}</span>
+                        <span className="stats-score-player">{game.playerName ?? 'Anonymous'}</span>
+                        <span>{game.score ?? 0}</span>
+                        <span>{game.finalWave}</span>
+                        <span>{formatDuration(game.duration)}</span>
+                        <button
+                          className="btn btn-dark btn-sm"
+                          onClick={() => navigate(`/replay/${game.gameId}`)}
+                        >
+                          Replay
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            ) : (
+              <div className="stats-panel-empty">Daily challenge unavailable</div>
+            )}
+          </>
+        )}
+
         {activeTab === 'overall' && (
           <>
             {summary ? (
@@ -168,6 +367,13 @@ export const StatisticsPanel = () => {
           </>
         )}
       </div>
+
+      <button
+        className="btn btn-dark btn-sm stats-panel-more"
+        onClick={() => navigate('/statistics')}
+      >
+        All Statistics
+      </button>
     </>
   );
 };
@@ -2,7 +2,7 @@ interface TextFieldProps {
   label: string;
   value: string;
   onChange: (value: string) => void;
-  type?: 'text' | 'color';
+  type?: 'text' | 'color' | 'password';
 }
 
 export const TextField = ({ label, value, onChange, type = 'text' }: TextFieldProps) => (
@@ -1,12 +1,61 @@
 import { useState, useEffect } from 'react';
 import { useGameStore } from '../../state/gameStore';
 import { getEnemyImage } from '../../utils/pieceAssets';
-import type { Enemy } from '../../types';
+import { capitalize } from '../../utils/string';
+import { STATUS_EFFECT_TYPES } from '../../utils/statusEffects';
+import type {
+  Enemy,
+  EnemyAbilities,
+  EnemyDefinition,
+  StatusEffect,
+  StatusEffectType,
+} from '../../types';
 import './EnemyStatsPanel.css';
 
+const describeEffect = (type: StatusEffectType, stacks: StatusEffect[]): string => {
+  const total = stacks.reduce((sum, e) => sum + e.strength, 0);
+  const stackText = stacks.length > 1 ? ` x${stacks.length}` : '';
+  switch (type) {
+    case 'slow':
+      return `Slowed ${Math.round(Math.max(...stacks.map((e) => e.strength)) * 100)}%`;
+    case 'poison':
+      return `Poisoned${stackText} (${total}/s)`;
+    case 'stun':
+      return 'Stunned';
+    case 'shred':
+      return `Armor -${total}${stackText}`;
+  }
+};
+
+const describeAbilities = (abilities: EnemyAbilities, definitions: EnemyDefinition[]): string => {
+  const parts: string[] = [];
+  if (abilities.jump) {
+    parts.push(`Jumps ${abilities.jump.distance}px every ${abilities.jump.intervalMs / 1000}s`);
+  }
+  if (abilities.diagonal) parts.push('Cuts corners');
+  if (abilities.promote) {
+    const target = definitions.find((d) => d.id === abilities.promote?.toEnemyId);
+    parts.push(
+      `Promotes to ${target?.name ?? 'unknown'} at ${Math.round(abilities.promote.atProgress * 100)}%`
+    );
+  }
+  if (abilities.aura) {
+    parts.push(
+      `Aura ${abilities.aura.radius}px (+${Math.round(abilities.aura.speedBonus * 100)}% speed, +${abilities.aura.armorBonus} armor)`
+    );
+  }
+  return parts.join(', ') || 'None';
+};
+
 export const EnemyStatsPanel = () => {
   const selectedEnemy = useGameStore((state) => state.selectedEnemy);
   const selectEnemy = useGameStore((state) => state.selectEnemy);
+  // The selection is a snapshot; read the live enemy for health and effects
+  const liveEnemy = useGameStore((state) =>
+    state.enemies.find((e) => e.id === state.selectedEnemy?.id)
+  );
+  const gameTime = useGameStore((state) => state.gameTime);
+  const enemyDefinitions = useGameStore((state) => state.enemyDefinitions);
 
   const [isClosing, setIsClosing] = useState(false);
   const [closingEnemyData, setClosingEnemyData] = useState<Enemy | null>(null);
@@ -34,7 +83,7 @@ export const EnemyStatsPanel = () => {
   }, [isClosing]);
 
   const renderPanel = !!selectedEnemy || isClosing;
-  const displayEnemy = selectedEnemy ?? closingEnemyData;
+  const displayEnemy = liveEnemy ?? selectedEnemy ?? closingEnemyData;
   const showClosingAnimation = !selectedEnemy && isClosing;
 
   if (!renderPanel || !displayEnemy) return null;
@@ -44,6 +93,17 @@ export const EnemyStatsPanel = () => {
   const healthPercent = Math.max(0, (enemy.health / enemy.maxHealth) * 100);
   const pieceImage = getEnemyImage(enemy.enemyId);
 
+  const resistanceText =
+    Object.entries(def.resistances)
+      .filter(([, value]) => value !== 0)
+      .map(([type, value]) => `${capitalize(type)} ${Math.round(value * 100)}%`)
+      .join(', ') || 'None';
+
+  const activeEffects = STATUS_EFFECT_TYPES.map((type) => ({
+    type,
+    stacks: enemy.statusEffects.filter((e) => e.type === type && e.expiresAt > gameTime),
+  })).filter(({ stacks }) => stacks.length > 0);
+
   const getHealthColor = (percent: number): string => {
     if (percent > 60) return '#4db8a0';
     if (percent > 30) return '#f4c542';
@@ -100,7 +160,33 @@ export const EnemyStatsPanel = () => {
           <span className="stat-label">Size:</span>
           <span className="stat-value">{def.size}</span>
         </div>
+        <div className="stat-row">
+          <span className="stat-label">Armor:</span>
+          <span className="stat-value">{def.armor}</span>
+        </div>
+        <div className="stat-row">
+          <span className="stat-label">Resist:</span>
+          <span className="stat-value">{resistanceText}</span>
+        </div>
+        <div className="stat-row">
+          <span className="stat-label">Abilities:</span>
+          <span className="stat-value">{describeAbilities(def.abilities, enemyDefinitions)}</span>
+        </div>
       </div>
+
+      {activeEffects.length > 0 && (
+        <div className="panel-stats panel-effects">
+          <h3>Effects</h3>
+          {activeEffects.map(({ type, stacks }) => (
+            <div className="stat-row" key={type}>
+              <span className="stat-label">{describeEffect(type, stacks)}</span>
+              <span className="stat-value">
+                {((Math.max(...stacks.map((e) => e.expiresAt)) - gameTime) / 1000).toFixed(1)}s
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -8,6 +8,8 @@ export const GameControls = () => {
   const gameId = useGameStore((state) => state.gameId);
   const gameSpeed = useGameStore((state) => state.gameSpeed);
   const toggleGameSpeed = useGameStore((state) => state.toggleGameSpeed);
+  const isPaused = useGameStore((state) => state.isPaused);
+  const togglePause = useGameStore((state) => state.togglePause);
   const startWave = useGameStore((state) => state.startWave);
   const endGame = useGameStore((state) => state.endGame);
   const setWaveEnemiesTotal = useGameStore((state) => state.setWaveEnemiesTotal);
@@ -37,6 +39,9 @@ export const GameControls = () => {
 
   return (
     <div className="game-controls">
+      <button className="btn btn-dark" onClick={togglePause}>
+        {isPaused ? 'Resume' : 'Pause'}
+      </button>
       <button className="btn btn-gold game-button" onClick={toggleGameSpeed}>
         {gameSpeed === 1 ? 'Fast forward' : 'Normal speed'}
       </button>
@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { useGameStore } from '../../state/gameStore';
+import './ReplayControls.css';
+
+const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+const formatTime = (ms: number): string => {
+  const seconds = Math.floor(ms / 1000);
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+interface ReplayControlsProps {
+  onSeek: (gameTime: number) => void;
+  onExit: () => void;
+}
+
+export const ReplayControls = ({ onSeek, onExit }: ReplayControlsProps) => {
+  const replay = useGameStore((state) => state.replay);
+  const gameTime = useGameStore((state) => state.gameTime);
+  const replayPaused = useGameStore((state) => state.replayPaused);
+  const replaySpeed = useGameStore((state) => state.replaySpeed);
+  const setReplayPaused = useGameStore((state) => state.setReplayPaused);
+  const setReplaySpeed = useGameStore((state) => state.setReplaySpeed);
+  // Where the slider is dragged to; the replay only seeks there on release
+  const [seekTime, setSeekTime] = useState<number | null>(null);
+
+  if (!replay) return null;
+
+  const atEnd = gameTime >= replay.duration;
+  const shownTime = seekTime ?? Math.min(gameTime, replay.duration);
+
+  const commitSeek = () => {
+    if (seekTime === null) return;
+    onSeek(seekTime);
+    setSeekTime(null);
+  };
+
+  const handlePlayPause = () => {
+    // Playing again from the end restarts the replay
+    if (replayPaused && atEnd) {
+      onSeek(0);
+    }
+    setReplayPaused(!replayPaused);
+  };
+
+  return (
+    <div className="replay-controls">
+      <button className="btn btn-gold replay-play-button" onClick={handlePlayPause}>
+        {replayPaused ? (atEnd ? 'Restart' : 'Play') : 'Pause'}
+      </button>
+      <input
+        className="replay-seek"
+        type="range"
+        min={0}
+        max={replay.duration}
+        step={100}
+        value={shownTime}
+        onChange={(e) => setSeekTime(Number(e.target.value))}
+        onPointerUp={commitSeek}
+        onKeyUp={commitSeek}
+        onBlur={commitSeek}
+        aria-label="Seek replay"
+      />
+      <span className="replay-time">
+        {formatTime(shownTime)} / {formatTime(replay.duration)}
+      </span>
+      <div className="replay-speeds">
+        {REPLAY_SPEEDS.map((speed) => (
+          <button
+            key={speed}
+            className={`btn btn-dark btn-sm ${replaySpeed === speed ? 'selected' : ''}`}
+            onClick={() => setReplaySpeed(speed)}
+          >
+            {speed}x
+          </button>
+        ))}
+      </div>
+      <button className="btn btn-dark" onClick={onExit}>
+        Exit Replay
+      </button>
+    </div>
+  );
+};
@@ -1,32 +1,86 @@
 import { useState, useEffect } from 'react';
 import { useGameStore } from '../../state/gameStore';
 import { getTowerImage } from '../../utils/pieceAssets';
+import { capitalize } from '../../utils/string';
+import { canSellTowers, getSellRefund } from '../../utils/mutators';
+import { getBranchName, getUpgradeOptions, getUpgradePath } from '../../utils/upgradeTree';
+import type { TargetingMode, TowerStats } from '../../types';
 import './TowerModal.css';
 
+const TARGETING_OPTIONS: { mode: TargetingMode; label: string; title: string }[] = [
+  { mode: 'first', label: 'First', title: 'Enemy furthest along the path' },
+  { mode: 'last', label: 'Last', title: 'Enemy least far along the path' },
+  { mode: 'strongest', label: 'Strong', title: 'Enemy with the most health' },
+  { mode: 'weakest', label: 'Weak', title: 'Enemy with the least health' },
+  { mode: 'closest', label: 'Close', title: 'Nearest enemy' },
+];
+
+const describeProjectile = (stats: TowerStats): string => {
+  switch (stats.projectileType) {
+    case 'splash':
+      return `Splash (${stats.splashRadius}px)`;
+    case 'chain':
+      return `Chain x${stats.chainCount}`;
+    case 'pierce':
+      return `Pierce x${stats.pierceCount}`;
+    default:
+      return 'Single';
+  }
+};
+
+const describeEffect = (stats: TowerStats): string => {
+  const seconds = (stats.effectDuration / 1000).toFixed(1);
+  switch (stats.effectType) {
+    case 'slow':
+      return `Slow ${Math.round(stats.effectStrength * 100)}% (${seconds}s)`;
+    case 'poison':
+      return `Poison ${stats.effectStrength}/s (${seconds}s)`;
+    case 'stun':
+      return `Stun (${seconds}s)`;
+    case 'shred':
+      return `Armor -${stats.effectStrength} (${seconds}s)`;
+    default:
+      return 'None';
+  }
+};
+
 export const TowerModal = () => {
   const selectedTower = useGameStore((state) => state.selectedTower);
   const selectTower = useGameStore((state) => state.selectTower);
   const upgradeTower = useGameStore((state) => state.upgradeTower);
   const sellTower = useGameStore((state) => state.sellTower);
+  const setTowerTargeting = useGameStore((state) => state.setTowerTargeting);
   const coins = useGameStore((state) => state.coins);
+  const mutators = useGameStore((state) => state.mutators);
   const getTowerDefinition = useGameStore((state) => state.getTowerDefinition);
 
   const [isClosing, setIsClosing] = useState(false);
   const [renderModal, setRenderModal] = useState(false);
+  // Picked upgrade branch where the tree branches; the first option until one is picked
+  const [branchChoice, setBranchChoice] = useState<string | null>(null);
 
-  useEffect(() => {
-    if (selectedTower) {
+  // Open, close or switch towers while rendering when the selection changes
+  const selectedTowerId = selectedTower?.id ?? null;
+  const [shownTowerId, setShownTowerId] = useState<string | null>(null);
+  if (selectedTowerId !== shownTowerId) {
+    setShownTowerId(selectedTowerId);
+    setBranchChoice(null);
+    if (selectedTowerId) {
       setRenderModal(true);
       setIsClosing(false);
     } else if (renderModal) {
       setIsClosing(true);
-      const timer = setTimeout(() => {
-        setRenderModal(false);
-        setIsClosing(false);
-      }, 300);
-      return () => clearTimeout(timer);
     }
-  }, [selectedTower, renderModal]);
+  }
+
+  useEffect(() => {
+    if (!isClosing) return;
+    const timer = setTimeout(() => {
+      setRenderModal(false);
+      setIsClosing(false);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [isClosing]);
 
   if (!renderModal || !selectedTower) return null;
 
@@ -41,35 +95,39 @@ export const TowerModal = () => {
   const currentLevel = tower.level;
   const maxLevel = towerDef.maxLevel;
 
-  // Get current level data
-  const currentLevelData = towerDef.levels.find((l) => l.level === currentLevel);
-  if (!currentLevelData) {
-    console.error('Current level data not found:', currentLevel);
+  // Levels paid for so far, from level 1 to the current one
+  const upgradePath = getUpgradePath(towerDef.levels, currentLevel, tower.branch);
+  if (upgradePath.length === 0) {
+    console.error('Current level data not found:', currentLevel, tower.branch);
     return null;
   }
 
-  // Get next level data (if not at max)
+  // Get next level data (if not at max); a branch point offers several
   const isAtMaxLevel = currentLevel >= maxLevel;
-  const nextLevelData = !isAtMaxLevel
-    ? towerDef.levels.find((l) => l.level === currentLevel + 1)
-    : null;
+  const upgradeOptions = !isAtMaxLevel
+    ? getUpgradeOptions(towerDef.levels, currentLevel, tower.branch)
+    : [];
+  const nextLevelData =
+    upgradeOptions.find((l) => l.branch === branchChoice) ?? upgradeOptions[0] ?? null;
   const upgradeCost = nextLevelData?.cost ?? null;
   const canAffordUpgrade = upgradeCost !== null && coins >= upgradeCost;
 
-  // Calculate refund (70% of total invested)
-  let totalInvested = 0;
-  for (let i = 1; i <= currentLevel; i++) {
-    const levelData = towerDef.levels.find((l) => l.level === i);
-    if (levelData) totalInvested += levelData.cost;
-  }
-  const refundAmount = Math.round(totalInvested * 0.7);
+  // Calculate refund (share of total invested, less with mutators)
+  const totalInvested = upgradePath.reduce((sum, levelData) => sum + levelData.cost, 0);
+  const refundAmount = getSellRefund(totalInvested, mutators);
+  const canSell = canSellTowers(mutators);
 
   // Current stats come directly from tower.stats
   const currentStats = tower.stats;
 
   const handleUpgrade = async () => {
-    if (!canAffordUpgrade) return;
-    await upgradeTower(tower.id);
+    if (!canAffordUpgrade || !nextLevelData) return;
+    await upgradeTower(tower.id, nextLevelData.branch);
+  };
+
+  const handleTargeting = async (mode: TargetingMode) => {
+    if (mode === tower.targetingMode) return;
+    await setTowerTargeting(tower.id, mode);
   };
 
   const handleSell = async () => {
@@ -92,6 +150,7 @@ export const TowerModal = () => {
           <h2>{towerDef.name}</h2>
           <span className="tower-level">
             Level {currentLevel} / {maxLevel}
+            {tower.branch && ` · ${tower.branch}`}
           </span>
         </div>
       </div>
@@ -106,15 +165,63 @@ export const TowerModal = () => {
           <span className="stat-label">Range:</span>
           <span className="stat-value">{currentStats.range}</span>
         </div>
+        <div className="stat-row">
+          <span className="stat-label">Attack Pattern:</span>
+          <span className="stat-value">{capitalize(towerDef.attackPattern)}</span>
+        </div>
         <div className="stat-row">
           <span className="stat-label">Fire Rate:</span>
           <span className="stat-value">{currentStats.fireRate.toFixed(1)}/s</span>
         </div>
+        <div className="stat-row">
+          <span className="stat-label">Damage Type:</span>
+          <span className="stat-value">{capitalize(currentStats.damageType)}</span>
+        </div>
+        <div className="stat-row">
+          <span className="stat-label">Projectile:</span>
+          <span className="stat-value">{describeProjectile(currentStats)}</span>
+        </div>
+        <div className="stat-row">
+          <span className="stat-label">Effect:</span>
+          <span className="stat-value">{describeEffect(currentStats)}</span>
+        </div>
+      </div>
+
+      <div className="modal-targeting">
+        <h3>Targeting</h3>
+        <div className="targeting-options">
+          {TARGETING_OPTIONS.map((option) => (
+            <button
+              key={option.mode}
+              className={`btn btn-dark btn-sm ${tower.targetingMode === option.mode ? 'selected' : ''}`}
+              title={option.title}
+              onClick={() => handleTargeting(option.mode)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
       </div>
 
       {!isAtMaxLevel && nextLevelData && (
         <div className="modal-upgrade">
-          <h3>Upgrade to Level {currentLevel + 1}</h3>
+          <h3>
+            Upgrade to Level {currentLevel + 1}
+            {nextLevelData.branch && ` (${nextLevelData.branch})`}
+          </h3>
+          {upgradeOptions.length > 1 && (
+            <div className="branch-options">
+              {upgradeOptions.map((option) => (
+                <button
+                  key={option.branch}
+                  className={`btn btn-dark btn-sm ${option.branch === nextLevelData.branch ? 'selected' : ''}`}
+                  onClick={() => setBranchChoice(option.branch)}
+                >
+                  {getBranchName(option.branch)}
+                </button>
+              ))}
+            </div>
+          )}
           <div className="upgrade-preview">
             <div>
               Damage: {currentStats.damage} → {nextLevelData.damage}
@@ -125,6 +232,16 @@ export const TowerModal = () => {
             <div>
               Fire Rate: {currentStats.fireRate.toFixed(1)} → {nextLevelData.fireRate.toFixed(1)}
             </div>
+            {describeProjectile(currentStats) !== describeProjectile(nextLevelData) && (
+              <div>
+                Projectile: {describeProjectile(currentStats)} → {describeProjectile(nextLevelData)}
+              </div>
+            )}
+            {describeEffect(currentStats) !== describeEffect(nextLevelData) && (
+              <div>
+                Effect: {describeEffect(currentStats)} → {describeEffect(nextLevelData)}
+              </div>
+            )}
           </div>
           <div
             style={{
@@ -155,8 +272,13 @@ export const TowerModal = () => {
       )}
 
       <div className="modal-sell">
-        <button className="btn btn-danger sell-button" onClick={handleSell}>
-          Sell Tower (+{refundAmount} coins)
+        <button
+          className="btn btn-danger sell-button"
+          onClick={handleSell}
+          disabled={!canSell}
+          title={canSell ? undefined : 'Towers cannot be sold in this game'}
+        >
+          {canSell ? `Sell Tower (+${refundAmount} coins)` : 'Selling Disabled'}
         </button>
       </div>
     </div>
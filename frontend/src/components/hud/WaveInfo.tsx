@@ -1,10 +1,12 @@
 import { useGameStore } from '../../state/gameStore';
+import { MUTATORS } from '../../utils/mutators';
 import './WaveInfo.css';
 
 export const WaveInfo = () => {
   const wave = useGameStore((state) => state.wave);
   const isPlaying = useGameStore((state) => state.isPlaying);
   const gameSpeed = useGameStore((state) => state.gameSpeed);
+  const mutators = useGameStore((state) => state.mutators);
 
   return (
     <div className="wave-info">
@@ -17,6 +19,15 @@ export const WaveInfo = () => {
         <div className={`wave-status active ${gameSpeed === 3 ? 'fast' : ''}`}>In Progress</div>
       )}
       {!isPlaying && wave > 0 && <div className="wave-status complete">Complete</div>}
+      {mutators.length > 0 && (
+        <div className="wave-mutators">
+          {MUTATORS.filter((m) => mutators.includes(m.id)).map((mutator) => (
+            <span key={mutator.id} className="wave-mutator" title={mutator.description}>
+              {mutator.name}
+            </span>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,165 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useGameStore } from '../../state/gameStore';
+import { gameApi } from '../../services/gameApi';
+import { ScreenLayout } from '../common/ScreenLayout';
+import { ScoreSummary } from '../common/ScoreSummary';
+import { BarChart, type BarChartItem } from './statistics/BarChart';
+import { getEnemyLabel, getTowerLabel } from './statistics/labels';
+import { MUTATORS } from '../../utils/mutators';
+import { formatDuration, formatGameMode } from '../../utils/string';
+import type { GameStatistics } from '../../types';
+import './StatisticsScreen.css';
+
+type LoadState = 'loading' | 'ready' | 'missing';
+
+// Counts keyed by tower or enemy ID as bars, largest first
+const toBarItems = (
+  counts: Record<string, number>,
+  getLabel: (key: string) => string
+): BarChartItem[] =>
+  Object.entries(counts)
+    .filter(([, value]) => value > 0)
+    .sort(([, a], [, b]) => b - a)
+    .map(([key, value]) => ({ key, label: getLabel(key), value }));
+
+export const GameStatisticsScreen = () => {
+  const { gameId } = useParams<{ gameId: string }>();
+  const navigate = useNavigate();
+  const towerDefinitions = useGameStore((state) => state.towerDefinitions);
+  const enemyDefinitions = useGameStore((state) => state.enemyDefinitions);
+
+  const [game, setGame] = useState<GameStatistics | null>(null);
+  const [loadState, setLoadState] = useState<LoadState>('loading');
+
+  useEffect(() => {
+    if (!gameId) return;
+    let isCancelled = false;
+
+    gameApi
+      .getGameStatistics(gameId)
+      .then((stats) => {
+        if (isCancelled) return;
+        setGame(stats);
+        setLoadState('ready');
+      })
+      .catch(() => {
+        if (!isCancelled) setLoadState('missing');
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [gameId]);
+
+  const towerLabel = (key: string) => getTowerLabel(towerDefinitions, key);
+  const enemyLabel = (key: string) => getEnemyLabel(enemyDefinitions, key);
+
+  const navRight = (
+    <>
+      {game && (
+        <button className="btn btn-dark" onClick={() => navigate(`/replay/${game.gameId}`)}>
+          Watch Replay
+        </button>
+      )}
+      <button className="btn btn-dark" onClick={() => navigate('/statistics')}>
+        Back
+      </button>
+    </>
+  );
+
+  const mutatorNames = MUTATORS.filter((m) => game?.mutators?.includes(m.id)).map((m) => m.name);
+
+  return (
+    <ScreenLayout
+      className="statistics-screen"
+      navRight={navRight}
+      scrollable
+      heading={game ? `${game.playerName ?? 'Anonymous'}'s Game` : 'Game Statistics'}
+      {...(game && {
+        subtitle: `${formatGameMode(game.gameMode)} · ${new Date(game.timestamp).toLocaleString()}`,
+      })}
+    >
+      {loadState === 'loading' ? (
+        <p className="statistics-empty">Loading...</p>
+      ) : !game ? (
+        <p className="statistics-empty">No statistics were recorded for this game</p>
+      ) : (
+        <div className="statistics-content">
+          <div className="statistics-summary">
+            <div className="statistics-summary-item">
+              <span className="statistics-summary-label">Result</span>
+              <span className={`statistics-summary-value statistics-outcome ${game.outcome}`}>
+                {game.outcome === 'win' ? 'Victory' : 'Defeat'}
+              </span>
+            </div>
+            <div className="statistics-summary-item">
+              <span className="statistics-summary-label">Wave</span>
+              <span className="statistics-summary-value">{game.finalWave}</span>
+            </div>
+            <div className="statistics-summary-item">
+              <span className="statistics-summary-label">Score</span>
+              <span className="statistics-summary-value">{game.score ?? 0}</span>
+            </div>
+            <div className="statistics-summary-item">
+              <span className="statistics-summary-label">Time</span>
+              <span className="statistics-summary-value">{formatDuration(game.duration)}</span>
+            </div>
+            <div className="statistics-summary-item">
+              <span className="statistics-summary-label">Kills</span>
+              <span className="statistics-summary-value">{game.enemiesKilledTotal}</span>
+            </div>
+            <div className="statistics-summary-item">
+              <span className="statistics-summary-label">Towers Built</span>
+              <span className="statistics-summary-value">{game.towersBuiltTotal}</span>
+            </div>
+            <div className="statistics-summary-item">
+              <span className="statistics-summary-label">Coins Earned / Spent</span>
+              <span className="statistics-summary-value">
+                {game.coinsEarned} / {game.coinsSpent}
+              </span>
+            </div>
+            <div className="statistics-summary-item">
+              <span className="statistics-summary-label">Damage Dealt</span>
+              <span className="statistics-summary-value">{Math.round(game.damageDealt)}</span>
+            </div>
+          </div>
+
+          {(mutatorNames.length > 0 || game.seed != null) && (
+            <p className="statistics-game-meta">
+              {game.seed != null && <>Seed {game.seed}</>}
+              {game.customSeed && <> (chosen, unranked)</>}
+              {mutatorNames.length > 0 && <> · Mutators: {mutatorNames.join(', ')}</>}
+            </p>
+          )}
+
+          {game.scoreBreakdown && (
+            <section className="statistics-card">
+              <h2 className="statistics-card-title">Score Breakdown</h2>
+              <ScoreSummary breakdown={game.scoreBreakdown} />
+            </section>
+          )}
+
+          <div className="statistics-columns">
+            <section className="statistics-card">
+              <h2 className="statistics-card-title">Towers Built</h2>
+              <BarChart items={toBarItems(game.towersBuiltByType, towerLabel)} />
+            </section>
+            <section className="statistics-card">
+              <h2 className="statistics-card-title">Damage by Tower</h2>
+              <BarChart
+                items={toBarItems(game.damageByTowerType ?? {}, towerLabel)}
+                emptyText="Not recorded for this game"
+              />
+            </section>
+          </div>
+
+          <section className="statistics-card">
+            <h2 className="statistics-card-title">Enemies Killed</h2>
+            <BarChart items={toBarItems(game.enemiesKilledByType, enemyLabel)} />
+          </section>
+        </div>
+      )}
+    </ScreenLayout>
+  );
+};
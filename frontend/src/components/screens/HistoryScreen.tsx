@@ -0,0 +1,127 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuthStore } from '../../state/authStore';
+import { gameApi } from '../../services/gameApi';
+import { ScreenLayout } from '../common/ScreenLayout';
+import { formatDuration, formatGameMode } from '../../utils/string';
+import type { PlayerHistoryResponse } from '../../types';
+import './HistoryScreen.css';
+
+export const HistoryScreen = () => {
+  const navigate = useNavigate();
+  const player = useAuthStore((state) => state.player);
+  const isLoading = useAuthStore((state) => state.isLoading);
+  const logout = useAuthStore((state) => state.logout);
+
+  const [history, setHistory] = useState<PlayerHistoryResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // Personal history needs an account; wait for a stored token to be checked first
+  useEffect(() => {
+    if (isLoading) return;
+    if (!player) {
+      navigate('/login', { replace: true });
+      return;
+    }
+
+    gameApi
+      .getPlayerHistory()
+      .then(setHistory)
+      .catch(console.error)
+      .finally(() => setLoading(false));
+  }, [player, isLoading, navigate]);
+
+  const handleSignOut = () => {
+    navigate('/');
+    logout();
+  };
+
+  const navRight = (
+    <>
+      <button className="btn btn-dark" onClick={handleSignOut}>
+        Sign Out
+      </button>
+      <button className="btn btn-dark" onClick={() => navigate('/')}>
+        Back
+      </button>
+    </>
+  );
+
+  const summary = history?.summary;
+
+  return (
+    <ScreenLayout
+      className="history-screen"
+      navRight={navRight}
+      scrollable
+      heading={player ? `${player.username}'s Games` : 'My Games'}
+    >
+      {loading ? (
+        <p className="history-empty">Loading...</p>
+      ) : !history ? (
+        <p className="history-empty">Failed to load your games</p>
+      ) : (
+        <div className="history-content">
+          {summary && (
+            <div className="history-summary">
+              <div className="history-summary-item">
+                <span className="history-summary-label">Games</span>
+                <span className="history-summary-value">{summary.totalGames}</span>
+              </div>
+              <div className="history-summary-item">
+                <span className="history-summary-label">Win Rate</span>
+                <span className="history-summary-value">
+                  {((summary.winRate || 0) * 100).toFixed(0)}%
+                </span>
+              </div>
+              <div className="history-summary-item">
+                <span className="history-summary-label">Avg Wave</span>
+                <span className="history-summary-value">
+                  {Math.round(summary.avgWaveReached || 0)}
+                </span>
+              </div>
+              <div className="history-summary-item">
+                <span className="history-summary-label">Total Kills</span>
+                <span className="history-summary-value">{summary.totalEnemiesKilled}</span>
+              </div>
+            </div>
+          )}
+
+          {history.games.length === 0 ? (
+            <p className="history-empty">No games played yet</p>
+          ) : (
+            <div className="history-games">
+              <div className="history-game-row history-game-header">
+                <span>Date</span>
+                <span>Result</span>
+                <span>Mode</span>
+                <span>Wave</span>
+                <span>Kills</span>
+                <span>Time</span>
+                <span />
+              </div>
+              {history.games.map((game) => (
+                <div key={game.gameId} className="history-game-row">
+                  <span>{new Date(game.timestamp).toLocaleDateString()}</span>
+                  <span className={`history-outcome ${game.outcome}`}>
+                    {game.outcome === 'win' ? 'Victory' : 'Defeat'}
+                  </span>
+                  <span>{formatGameMode(game.gameMode)}</span>
+                  <span>{game.finalWave}</span>
+                  <span>{game.enemiesKilledTotal}</span>
+                  <span>{formatDuration(game.duration)}</span>
+                  <button
+                    className="btn btn-dark btn-sm"
+                    onClick={() => navigate(`/replay/${game.gameId}`)}
+                  >
+                    Replay
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </ScreenLayout>
+  );
+};
@@ -0,0 +1,85 @@
+import { useState, useEffect, type FormEvent } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuthStore } from '../../state/authStore';
+import { ScreenLayout } from '../common/ScreenLayout';
+import { TextField } from '../common/TextField';
+import './LoginScreen.css';
+
+type Mode = 'login' | 'register';
+
+export const LoginScreen = () => {
+  const navigate = useNavigate();
+  const login = useAuthStore((state) => state.login);
+  const register = useAuthStore((state) => state.register);
+  const authError = useAuthStore((state) => state.authError);
+  const clearAuthError = useAuthStore((state) => state.clearAuthError);
+
+  const [mode, setMode] = useState<Mode>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  // Don't carry an error over from a previous visit or the other form
+  useEffect(() => {
+    clearAuthError();
+  }, [mode, clearAuthError]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    const success =
+      mode === 'login' ? await login(username, password) : await register(username, password);
+    setSubmitting(false);
+    if (success) {
+      navigate('/history');
+    }
+  };
+
+  const isLogin = mode === 'login';
+
+  return (
+    <ScreenLayout
+      className="login-screen"
+      showBackButton
+      heading={isLogin ? 'Sign In' : 'Create Account'}
+      subtitle="Keep your games and statistics across devices"
+    >
+      <form className="login-form screen-card" onSubmit={handleSubmit}>
+        <div className="login-tabs">
+          <button
+            type="button"
+            className={`btn btn-dark btn-sm ${isLogin ? 'active' : ''}`}
+            onClick={() => setMode('login')}
+          >
+            Sign In
+          </button>
+          <button
+            type="button"
+            className={`btn btn-dark btn-sm ${!isLogin ? 'active' : ''}`}
+            onClick={() => setMode('register')}
+          >
+            Create Account
+          </button>
+        </div>
+
+        <TextField label="Username" value={username} onChange={setUsername} />
+        <TextField label="Password" value={password} onChange={setPassword} type="password" />
+        {!isLogin && (
+          <p className="login-hint">
+            3-32 letters, numbers, _ or -; password at least 8 characters
+          </p>
+        )}
+
+        {authError && <div className="login-error">{authError}</div>}
+
+        <button
+          type="submit"
+          className="btn btn-gold"
+          disabled={submitting || !username || !password}
+        >
+          {submitting ? 'Please wait...' : isLogin ? 'Sign In' : 'Create Account'}
+        </button>
+      </form>
+    </ScreenLayout>
+  );
+};
@@ -1,12 +1,17 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useGameStore } from '../../state/gameStore';
+import { useAuthStore } from '../../state/authStore';
 import { gameApi } from '../../services/gameApi';
 import { ScreenLayout } from '../common/ScreenLayout';
 import { DifficultySelector } from '../common/DifficultySelector';
+import { MapSelector } from '../common/MapSelector';
+import { MutatorSelector } from '../common/MutatorSelector';
 import { StatisticsPanel } from '../common/StatisticsPanel';
-import { capitalize } from '../../utils/string';
-import type { GameSettings } from '../../types';
+import { ContinueGamesPanel } from '../common/ContinueGamesPanel';
+import { ScoreSummary } from '../common/ScoreSummary';
+import { capitalize, formatDuration } from '../../utils/string';
+import type { GameSessionSummary, GameSettings, MapDefinition } from '../../types';
 import './MainScreen.css';
 
 const featureCards = (
@@ -35,17 +40,31 @@ const featureCards = (
 export const MainScreen = () => {
   const navigate = useNavigate();
   const startGame = useGameStore((state) => state.startGame);
+  const resumeGame = useGameStore((state) => state.resumeGame);
   const selectedDifficulty = useGameStore((state) => state.selectedDifficulty);
   const setDifficulty = useGameStore((state) => state.setDifficulty);
+  const selectedMapId = useGameStore((state) => state.selectedMapId);
+  const setMapId = useGameStore((state) => state.setMapId);
+  const selectedMutators = useGameStore((state) => state.selectedMutators);
+  const toggleMutator = useGameStore((state) => state.toggleMutator);
   const gameResult = useGameStore((state) => state.gameResult);
   const wavesSurvived = useGameStore((state) => state.wavesSurvived);
   const enemiesKilled = useGameStore((state) => state.enemiesKilled);
+  const lives = useGameStore((state) => state.lives);
+  const playTime = useGameStore((state) => state.playTime);
+  const towersBuiltByType = useGameStore((state) => state.towersBuiltByType);
+  const damageByTowerType = useGameStore((state) => state.damageByTowerType);
+  const seed = useGameStore((state) => state.seed);
+  const gameScore = useGameStore((state) => state.gameScore);
   const resetGame = useGameStore((state) => state.resetGame);
+  const player = useAuthStore((state) => state.player);
+  const isAuthLoading = useAuthStore((state) => state.isLoading);
 
   const [resultFading, setResultFading] = useState(false);
 
+  // A defeat fades on its own; the victory summary stays until dismissed
   useEffect(() => {
-    if (!gameResult) return;
+    if (gameResult !== 'loss') return;
     const fadeTimer = setTimeout(() => setResultFading(true), 3_000);
     return () => clearTimeout(fadeTimer);
   }, [gameResult]);
@@ -64,6 +83,7 @@ export const MainScreen = () => {
   const [diffClosing, setDiffClosing] = useState(false);
   const [diffPos, setDiffPos] = useState<{ top: number; right: number } | null>(null);
   const [settings, setSettings] = useState<GameSettings[]>([]);
+  const [maps, setMaps] = useState<MapDefinition[]>([]);
   const diffPanelRef = useRef<HTMLDivElement>(null);
   const diffBtnRef = useRef<HTMLButtonElement>(null);
 
@@ -74,10 +94,26 @@ export const MainScreen = () => {
   const statsPanelRef = useRef<HTMLDivElement>(null);
   const statsBtnRef = useRef<HTMLButtonElement>(null);
 
+  // Continue game panel state
+  const [continueVisible, setContinueVisible] = useState(false);
+  const [continueClosing, setContinueClosing] = useState(false);
+  const [continuePos, setContinuePos] = useState<{ top: number; right: number } | null>(null);
+  const [activeGames, setActiveGames] = useState<GameSessionSummary[]>([]);
+  const continuePanelRef = useRef<HTMLDivElement>(null);
+  const continueBtnRef = useRef<HTMLButtonElement>(null);
+
   useEffect(() => {
     gameApi.getAllSettings().then(setSettings).catch(console.error);
+    gameApi.getMaps().then(setMaps).catch(console.error);
   }, []);
 
+  // Only signed-in players have games to resume
+  useEffect(() => {
+    if (isAuthLoading || !player) return;
+    gameApi.getGames('active').then(setActiveGames).catch(console.error);
+  }, [player, isAuthLoading]);
+  const resumableGames = player ? activeGames : [];
+
   // Difficulty panel controls
   const closeDiffPanel = useCallback(() => {
     setDiffClosing(true);
@@ -108,8 +144,24 @@ export const MainScreen = () => {
     }
   }, []);
 
+  // Continue game panel controls
+  const closeContinuePanel = useCallback(() => {
+    setContinueClosing(true);
+    const onEnd = () => {
+      setContinueVisible(false);
+      setContinueClosing(false);
+    };
+    const el = continuePanelRef.current;
+    if (el) {
+      el.addEventListener('animationend', onEnd, { once: true });
+    } else {
+      onEnd();
+    }
+  }, []);
+
   const toggleDiffPanel = useCallback(() => {
     if (statsVisible && !statsClosing) closeStatsPanel();
+    if (continueVisible && !continueClosing) closeContinuePanel();
     if (diffVisible) {
       closeDiffPanel();
     } else {
@@ -122,10 +174,20 @@ export const MainScreen = () => {
       }
       setDiffVisible(true);
     }
-  }, [diffVisible, closeDiffPanel, statsVisible, statsClosing, closeStatsPanel]);
+  }, [
+    diffVisible,
+    closeDiffPanel,
+    statsVisible,
+    statsClosing,
+    closeStatsPanel,
+    continueVisible,
+    continueClosing,
+    closeContinuePanel,
+  ]);
 
   const toggleStatsPanel = useCallback(() => {
     if (diffVisible && !diffClosing) closeDiffPanel();
+    if (continueVisible && !continueClosing) closeContinuePanel();
     if (statsVisible) {
       closeStatsPanel();
     } else {
@@ -138,7 +200,42 @@ export const MainScreen = () => {
       }
       setStatsVisible(true);
     }
-  }, [statsVisible, closeStatsPanel, diffVisible, diffClosing, closeDiffPanel]);
+  }, [
+    statsVisible,
+    closeStatsPanel,
+    diffVisible,
+    diffClosing,
+    closeDiffPanel,
+    continueVisible,
+    continueClosing,
+    closeContinuePanel,
+  ]);
+
+  const toggleContinuePanel = useCallback(() => {
+    if (diffVisible && !diffClosing) closeDiffPanel();
+    if (statsVisible && !statsClosing) closeStatsPanel();
+    if (continueVisible) {
+      closeContinuePanel();
+    } else {
+      if (continueBtnRef.current) {
+        const rect = continueBtnRef.current.getBoundingClientRect();
+        setContinuePos({
+          top: rect.bottom + 8,
+          right: window.innerWidth - rect.right,
+        });
+      }
+      setContinueVisible(true);
+    }
+  }, [
+    continueVisible,
+    closeContinuePanel,
+    diffVisible,
+    diffClosing,
+    closeDiffPanel,
+    statsVisible,
+    statsClosing,
+    closeStatsPanel,
+  ]);
 
   // Click-outside for difficulty panel
   useEffect(() => {
@@ -174,6 +271,23 @@ export const MainScreen = () => {
     return () => document.removeEventListener('mousedown', handleClick);
   }, [statsVisible, statsClosing, closeStatsPanel]);
 
+  // Click-outside for continue game panel
+  useEffect(() => {
+    if (!continueVisible || continueClosing) return;
+    const handleClick = (e: MouseEvent) => {
+      if (
+        continuePanelRef.current &&
+        !continuePanelRef.current.contains(e.target as Node) &&
+        continueBtnRef.current &&
+        !continueBtnRef.current.contains(e.target as Node)
+      ) {
+        closeContinuePanel();
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [continueVisible, continueClosing, closeContinuePanel]);
+
   const handleStartGame = async () => {
     const gameId = await startGame();
     if (gameId) {
@@ -181,27 +295,90 @@ export const MainScreen = () => {
     }
   };
 
+  const handleStartDailyGame = async () => {
+    const gameId = await startGame(true);
+    if (gameId) {
+      navigate(`/game/${gameId}`);
+    }
+  };
+
+  const handleContinueGame = async (gameId: string) => {
+    if (await resumeGame(gameId)) {
+      navigate(`/game/${gameId}`);
+    } else {
+      // The game ended or was abandoned since the list was loaded
+      setActiveGames((games) => games.filter((g) => g.gameId !== gameId));
+    }
+  };
+
   const hasResult = gameResult !== null;
   const isVictory = gameResult === 'win';
 
+  const sumValues = (counts: Record<string, number>) =>
+    Object.values(counts).reduce((sum, n) => sum + n, 0);
+
   const resultCards = (
     <>
       <div className="screen-card-item end-stat-card">
         <span className="end-stat-value">{wavesSurvived}</span>
-        <h3 className="screen-card-title">Waves Survived</h3>
+        <h3 className="screen-card-title">{isVictory ? 'Waves Cleared' : 'Waves Survived'}</h3>
       </div>
+      {isVictory && (
+        <div className="screen-card-item end-stat-card">
+          <span className="end-stat-value">{lives}</span>
+          <h3 className="screen-card-title">Lives Remaining</h3>
+        </div>
+      )}
       <div className="screen-card-item end-stat-card">
         <span className="end-stat-value">{enemiesKilled}</span>
         <h3 className="screen-card-title">Enemies Defeated</h3>
       </div>
+      {seed !== null && (
+        <div className="screen-card-item end-stat-card">
+          <span className="end-stat-value">{seed}</span>
+          <h3 className="screen-card-title">Seed</h3>
+        </div>
+      )}
+      {gameScore && (
+        <div className="screen-card-item end-score">
+          <h3 className="screen-card-title">Score</h3>
+          <span className="end-score-total">{gameScore.score}</span>
+          <ScoreSummary breakdown={gameScore.breakdown} />
+        </div>
+      )}
+      {isVictory && (
+        <div className="screen-card-item end-breakdown">
+          <h3 className="screen-card-title">Game Summary</h3>
+          <dl className="end-breakdown-rows">
+            <dt>Towers Built</dt>
+            <dd>{sumValues(towersBuiltByType)}</dd>
+            <dt>Damage Dealt</dt>
+            <dd>{Math.round(sumValues(damageByTowerType))}</dd>
+            <dt>Play Time</dt>
+            <dd>{formatDuration(playTime)}</dd>
+          </dl>
+        </div>
+      )}
     </>
   );
 
   const navRight = (
     <>
+      <button className="btn btn-dark" onClick={() => navigate(player ? '/history' : '/login')}>
+        {player ? player.username : 'Sign In'}
+      </button>
       <button className="btn btn-dark" onClick={() => navigate('/settings')}>
         Configuration
       </button>
+      {resumableGames.length > 0 && (
+        <button
+          ref={continueBtnRef}
+          className={`btn btn-dark ${continueVisible ? 'active' : ''}`}
+          onClick={toggleContinuePanel}
+        >
+          Continue Game
+        </button>
+      )}
       <button
         ref={statsBtnRef}
         className={`btn btn-dark ${statsVisible ? 'active' : ''}`}
@@ -238,6 +415,16 @@ export const MainScreen = () => {
       }
       cards={hasResult ? resultCards : featureCards}
     >
+      {isVictory && (
+        <button
+          className="btn btn-gold end-continue"
+          onClick={() => setResultFading(true)}
+          disabled={resultFading}
+        >
+          Continue
+        </button>
+      )}
+
       {diffVisible && settings.length > 0 && diffPos && (
         <div
           ref={diffPanelRef}
@@ -249,6 +436,10 @@ export const MainScreen = () => {
             selectedMode={selectedDifficulty}
             onSelectMode={setDifficulty}
           />
+          {maps.length > 1 && (
+            <MapSelector maps={maps} selectedMapId={selectedMapId} onSelectMap={setMapId} />
+          )}
+          <MutatorSelector selected={selectedMutators} onToggle={toggleMutator} />
         </div>
       )}
 
@@ -258,7 +449,17 @@ export const MainScreen = () => {
           className={`statistics-panel ${statsClosing ? 'closing' : ''}`}
           style={{ top: statsPos.top, right: statsPos.right }}
         >
-          <StatisticsPanel />
+          <StatisticsPanel onPlayDaily={handleStartDailyGame} />
+        </div>
+      )}
+
+      {continueVisible && continuePos && (
+        <div
+          ref={continuePanelRef}
+          className={`continue-panel ${continueClosing ? 'closing' : ''}`}
+          style={{ top: continuePos.top, right: continuePos.right }}
+        >
+          <ContinueGamesPanel games={resumableGames} onContinue={handleContinueGame} />
         </div>
       )}
     </ScreenLayout>
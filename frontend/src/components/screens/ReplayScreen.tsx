@@ -0,0 +1,80 @@
+import { useEffect, useRef, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useGameStore } from '../../state/gameStore';
+import { gameApi } from '../../services/gameApi';
+import type { GameEngine } from '../../game/GameEngine';
+import { PlayerStats } from '../hud/PlayerStats';
+import { WaveInfo } from '../hud/WaveInfo';
+import { ReplayControls } from '../hud/ReplayControls';
+import { ScreenLayout } from '../common/ScreenLayout';
+import { GameCanvas } from '../common/GameCanvas';
+import './GameScreen.css';
+
+type LoadState = 'loading' | 'ready' | 'missing';
+
+export const ReplayScreen = () => {
+  const { gameId } = useParams<{ gameId: string }>();
+  const navigate = useNavigate();
+  const engineRef = useRef<GameEngine | null>(null);
+  const [loadState, setLoadState] = useState<LoadState>('loading');
+  const loadReplay = useGameStore((state) => state.loadReplay);
+  const resetGame = useGameStore((state) => state.resetGame);
+
+  // Load the replay before mounting the canvas (the engine reads the map on start)
+  useEffect(() => {
+    if (!gameId) return;
+    let isCancelled = false;
+
+    gameApi
+      .getReplay(gameId)
+      .then((replay) => {
+        if (isCancelled) return;
+        loadReplay(replay);
+        setLoadState('ready');
+      })
+      .catch(() => {
+        if (!isCancelled) setLoadState('missing');
+      });
+
+    return () => {
+      isCancelled = true;
+      resetGame();
+    };
+  }, [gameId, loadReplay, resetGame]);
+
+  const handleSeek = (gameTime: number) => {
+    engineRef.current?.seekReplay(gameTime);
+  };
+
+  return (
+    <ScreenLayout
+      className="game-screen"
+      navCenter={
+        loadState === 'ready' && (
+          <>
+            <PlayerStats />
+            <WaveInfo />
+          </>
+        )
+      }
+      navRight={
+        loadState === 'ready' ? (
+          <ReplayControls onSeek={handleSeek} onExit={() => navigate('/')} />
+        ) : undefined
+      }
+      showBackButton
+    >
+      <div className="game-content">
+        {loadState === 'ready' ? (
+          <GameCanvas engineRef={engineRef} />
+        ) : (
+          <div className="game-canvas-container">
+            <div className="canvas-placeholder">
+              <p>{loadState === 'loading' ? 'Loading replay...' : 'Replay not found'}</p>
+            </div>
+          </div>
+        )}
+      </div>
+    </ScreenLayout>
+  );
+};
@@ -1,32 +1,63 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { gameApi } from '../../services/gameApi';
+import { useAuthStore, canEditConfig } from '../../state/authStore';
 import { ScreenLayout } from '../common/ScreenLayout';
 import { ConfirmModal } from '../common/ConfirmModal';
 import { getTowerImage, getEnemyImage } from '../../utils/pieceAssets';
 import { capitalize } from '../../utils/string';
+import { getPathLength } from '../../utils/waves';
+import { findLevelNode } from '../../utils/upgradeTree';
 import { SelectorDetailLayout } from './settings/SelectorDetailLayout';
 import { SettingsEditor } from './settings/SettingsEditor';
 import { TowerEditor } from './settings/TowerEditor';
 import { EnemyEditor } from './settings/EnemyEditor';
 import { TowerLevelEditor } from './settings/TowerLevelEditor';
+import { WaveEditor } from './settings/WaveEditor';
+import { VersionsPanel } from './settings/VersionsPanel';
+import { ConfigImportModal } from './settings/ConfigImportModal';
 import type {
+  ConfigImportResult,
   GameSettings,
   TowerDefinitionWithLevels,
   TowerLevel,
   EnemyDefinition,
+  EnemyAbilities,
+  Resistances,
+  MapDefinition,
+  WaveComposition,
+  WaveEnemyGroup,
 } from '../../types';
 import './SettingsScreen.css';
 
-type AdvancedTab = 'gameModes' | 'towers' | 'towerLevels' | 'enemies';
+type AdvancedTab = 'gameModes' | 'towers' | 'towerLevels' | 'enemies' | 'waves' | 'versions';
 
 const tabs: Array<{ key: AdvancedTab; label: string }> = [
   { key: 'gameModes', label: 'Game Modes' },
   { key: 'towers', label: 'Towers' },
   { key: 'towerLevels', label: 'Tower Levels' },
   { key: 'enemies', label: 'Enemies' },
+  { key: 'waves', label: 'Waves' },
+  { key: 'versions', label: 'Versions' },
 ];
 
+// Edited tower levels are keyed by tree node; branch names may contain '-', so the branch goes last
+const levelEditKey = (towerId: number, level: number, branch: string) =>
+  `${towerId}-${level}-${branch}`;
+
+const parseLevelEditKey = (key: string) => {
+  const [towerId = '', level = '', ...branch] = key.split('-');
+  return { towerId: parseInt(towerId, 10), level: parseInt(level, 10), branch: branch.join('-') };
+};
+
+// Pull the backend's { error } message (and the first detail, if any) out of a failed request
+const getErrorMessage = (error: unknown, fallback: string): string => {
+  const axiosError = error as { response?: { data?: { error?: string; details?: string[] } } };
+  const data = axiosError?.response?.data;
+  if (!data?.error) return fallback;
+  return data.details?.[0] ? `${data.error}: ${data.details[0]}` : data.error;
+};
+
 function updateEditMap<K, V>(
   setter: React.Dispatch<React.SetStateAction<Map<K, Partial<V>>>>,
   key: K,
@@ -42,12 +73,15 @@ function updateEditMap<K, V>(
 
 export const SettingsScreen = () => {
   const navigate = useNavigate();
+  const canEdit = useAuthStore((state) => canEditConfig(state.player));
 
   const [settings, setSettings] = useState<GameSettings[]>([]);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<AdvancedTab>('gameModes');
   const [towers, setTowers] = useState<TowerDefinitionWithLevels[]>([]);
   const [enemies, setEnemies] = useState<EnemyDefinition[]>([]);
+  const [waves, setWaves] = useState<WaveComposition[]>([]);
+  const [maps, setMaps] = useState<MapDefinition[]>([]);
   const [saving, setSaving] = useState(false);
   const [saveMessage, setSaveMessage] = useState<{
     text: string;
@@ -55,12 +89,20 @@ export const SettingsScreen = () => {
   } | null>(null);
   const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const [showBackConfirm, setShowBackConfirm] = useState(false);
+  const [importPreview, setImportPreview] = useState<{
+    fileName: string;
+    bundle: unknown;
+    result: ConfigImportResult;
+  } | null>(null);
+  const [importing, setImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   // Selector state per tab
   const [selectedSettingId, setSelectedSettingId] = useState<number | null>(null);
   const [selectedTowerId, setSelectedTowerId] = useState<number | null>(null);
   const [selectedTowerForLevels, setSelectedTowerForLevels] = useState<number | null>(null);
   const [selectedEnemyId, setSelectedEnemyId] = useState<number | null>(null);
+  const [selectedWaveNumber, setSelectedWaveNumber] = useState<number | null>(null);
 
   // Edit state for each category
   const [editedSettings, setEditedSettings] = useState<Map<number, Partial<GameSettings>>>(
@@ -72,9 +114,13 @@ export const SettingsScreen = () => {
   const [editedTowerLevels, setEditedTowerLevels] = useState<Map<string, Partial<TowerLevel>>>(
     new Map()
   );
+  // Branches added in the tree editor, created on the backend when changes are saved
+  const [addedTowerLevels, setAddedTowerLevels] = useState<Map<string, TowerLevel>>(new Map());
   const [editedEnemies, setEditedEnemies] = useState<Map<number, Partial<EnemyDefinition>>>(
     new Map()
   );
+  // Waves are saved whole, so an edited wave holds its full list of groups
+  const [editedWaves, setEditedWaves] = useState<Map<number, WaveEnemyGroup[]>>(new Map());
 
   useEffect(() => {
     loadAllData();
@@ -96,8 +142,9 @@ export const SettingsScreen = () => {
     if (editedTowers.size > 0) categories.push('Towers');
     if (editedTowerLevels.size > 0) categories.push('Tower Levels');
     if (editedEnemies.size > 0) categories.push('Enemies');
+    if (editedWaves.size > 0) categories.push('Waves');
     return categories;
-  }, [editedSettings, editedTowers, editedTowerLevels, editedEnemies]);
+  }, [editedSettings, editedTowers, editedTowerLevels, editedEnemies, editedWaves]);
 
   const handleBack = () => {
     if (getDirtyCategories().length > 0) {
@@ -109,14 +156,18 @@ export const SettingsScreen = () => {
 
   const loadAllData = async () => {
     try {
-      const [allSettings, towersData, enemiesData] = await Promise.all([
+      const [allSettings, towersData, enemiesData, wavesData, mapsData] = await Promise.all([
         gameApi.getAllSettings(),
         gameApi.getAllTowerDefinitions(),
         gameApi.getAllEnemyDefinitions(),
+        gameApi.getWaves(),
+        gameApi.getMaps(),
       ]);
       setSettings(allSettings);
       setTowers(towersData);
       setEnemies(enemiesData);
+      setWaves(wavesData);
+      setMaps(mapsData);
 
       // Auto-select first item in each category
       if (allSettings.length > 0 && allSettings[0]?.id != null) {
@@ -129,6 +180,9 @@ export const SettingsScreen = () => {
       if (enemiesData.length > 0) {
         setSelectedEnemyId(enemiesData[0]?.id ?? null);
       }
+      if (wavesData.length > 0) {
+        setSelectedWaveNumber(wavesData[0]?.waveNumber ?? null);
+      }
     } catch (error) {
       console.error('Failed to load data:', error);
     } finally {
@@ -136,8 +190,11 @@ export const SettingsScreen = () => {
     }
   };
 
-  const handleSettingsChange = (id: number, field: keyof GameSettings, value: number) =>
-    updateEditMap(setEditedSettings, id, field, value);
+  const handleSettingsChange = (
+    id: number,
+    field: keyof GameSettings,
+    value: number | Record<number, number>
+  ) => updateEditMap(setEditedSettings, id, field, value);
 
   const handleTowerChange = (
     id: number,
@@ -148,12 +205,35 @@ export const SettingsScreen = () => {
   const handleTowerLevelChange = (
     towerId: number,
     level: number,
-    field: keyof Omit<TowerLevel, 'id' | 'towerId' | 'level'>,
-    value: number
-  ) => updateEditMap(setEditedTowerLevels, `${towerId}-${level}`, field, value);
+    branch: string,
+    field: keyof Omit<TowerLevel, 'id' | 'towerId' | 'level' | 'branch'>,
+    value: number | string | null
+  ) => updateEditMap(setEditedTowerLevels, levelEditKey(towerId, level, branch), field, value);
+
+  // The new branch starts as a copy of the node it upgrades from, one level up
+  const handleAddBranch = (from: TowerLevel, branch: string) => {
+    const key = levelEditKey(from.towerId, from.level + 1, branch);
+    setAddedTowerLevels((prev) =>
+      new Map(prev).set(key, { ...from, level: from.level + 1, branch, parentBranch: from.branch })
+    );
+    handleTowerLevelChange(from.towerId, from.level + 1, branch, 'parentBranch', from.branch);
+  };
 
-  const handleEnemyChange = (id: number, field: keyof EnemyDefinition, value: number | string) =>
-    updateEditMap(setEditedEnemies, id, field, value);
+  const handleEnemyChange = (
+    id: number,
+    field: keyof EnemyDefinition,
+    value: number | string | Resistances | EnemyAbilities
+  ) => updateEditMap(setEditedEnemies, id, field, value);
+
+  const handleWaveChange = (waveNumber: number, groups: WaveEnemyGroup[]) =>
+    setEditedWaves((prev) => new Map(prev).set(waveNumber, groups));
+
+  // The copy is a new last wave, created on the backend when changes are saved
+  const handleDuplicateWave = (groups: WaveEnemyGroup[]) => {
+    const waveNumber = Math.max(0, ...waves.map((w) => w.waveNumber), ...editedWaves.keys()) + 1;
+    handleWaveChange(waveNumber, groups);
+    setSelectedWaveNumber(waveNumber);
+  };
 
   const handleSaveAll = async () => {
     setSaving(true);
@@ -177,19 +257,30 @@ export const SettingsScreen = () => {
       }
 
       for (const [key, updates] of editedTowerLevels) {
-        const parts = key.split('-');
-        if (parts.length !== 2 || !parts[0] || !parts[1]) continue;
-        const towerId = parseInt(parts[0], 10);
-        const levelNum = parseInt(parts[1], 10);
+        const { towerId, level: levelNum, branch } = parseLevelEditKey(key);
         if (Object.keys(updates).length > 0) {
           const tower = towers.find((t) => t.id === towerId);
-          const originalLevel = tower?.levels.find((l) => l.level === levelNum);
+          const originalLevel =
+            (tower && findLevelNode(tower.levels, levelNum, branch)) ?? addedTowerLevels.get(key);
           if (originalLevel) {
             const completeData: Omit<TowerLevel, 'towerId' | 'level'> = {
+              branch,
+              parentBranch: updates.parentBranch ?? originalLevel.parentBranch,
               cost: updates.cost ?? originalLevel.cost,
               damage: updates.damage ?? originalLevel.damage,
               range: updates.range ?? originalLevel.range,
               fireRate: updates.fireRate ?? originalLevel.fireRate,
+              damageType: updates.damageType ?? originalLevel.damageType,
+              projectileType: updates.projectileType ?? originalLevel.projectileType,
+              splashRadius: updates.splashRadius ?? originalLevel.splashRadius,
+              chainCount: updates.chainCount ?? originalLevel.chainCount,
+              chainRange: updates.chainRange ?? originalLevel.chainRange,
+              pierceCount: updates.pierceCount ?? originalLevel.pierceCount,
+              // null is a real edit here: it removes the level's effect
+              effectType:
+                updates.effectType !== undefined ? updates.effectType : originalLevel.effectType,
+              effectStrength: updates.effectStrength ?? originalLevel.effectStrength,
+              effectDuration: updates.effectDuration ?? originalLevel.effectDuration,
             };
             promises.push(gameApi.upsertTowerLevel(towerId, levelNum, completeData));
           }
@@ -202,12 +293,18 @@ export const SettingsScreen = () => {
         }
       }
 
+      for (const [waveNumber, groups] of editedWaves) {
+        promises.push(gameApi.replaceWave(waveNumber, groups));
+      }
+
       await Promise.all(promises);
 
       setEditedSettings(new Map());
       setEditedTowers(new Map());
       setEditedTowerLevels(new Map());
+      setAddedTowerLevels(new Map());
       setEditedEnemies(new Map());
+      setEditedWaves(new Map());
 
       await loadAllData();
       setSaveMessage({
@@ -231,11 +328,75 @@ export const SettingsScreen = () => {
     }
   };
 
+  const handleExport = async () => {
+    try {
+      const bundle = await gameApi.exportConfig();
+      const url = URL.createObjectURL(
+        new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' })
+      );
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `chess-tdf-config-${bundle.configVersionId ?? 'draft'}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export config:', error);
+      setSaveMessage({ text: getErrorMessage(error, 'Failed to export config'), type: 'error' });
+    }
+  };
+
+  // Dry-run the chosen bundle so the designer can review it before it replaces the draft
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // allow choosing the same file again
+    if (!file) return;
+
+    let bundle: unknown;
+    try {
+      bundle = JSON.parse(await file.text());
+    } catch {
+      setSaveMessage({ text: `${file.name} is not a JSON file`, type: 'error' });
+      return;
+    }
+
+    setImporting(true);
+    try {
+      const result = await gameApi.importConfig(bundle, true);
+      setImportPreview({ fileName: file.name, bundle, result });
+    } catch (error) {
+      setSaveMessage({
+        text: getErrorMessage(error, 'Failed to read config bundle'),
+        type: 'error',
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleImportApply = async () => {
+    if (!importPreview) return;
+    setImporting(true);
+    try {
+      const result = await gameApi.importConfig(importPreview.bundle, false);
+      setImportPreview(null);
+      await loadAllData();
+      setSaveMessage({
+        text: `Imported ${result.changes.length} changes into the draft`,
+        type: 'success',
+      });
+    } catch (error) {
+      setSaveMessage({ text: getErrorMessage(error, 'Failed to import config'), type: 'error' });
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const hasUnsavedChanges =
     editedSettings.size > 0 ||
     editedTowers.size > 0 ||
     editedTowerLevels.size > 0 ||
-    editedEnemies.size > 0;
+    editedEnemies.size > 0 ||
+    editedWaves.size > 0;
 
   const navCenter = (
     <h1 className="nav-page-title">CONFIGURATION</h1>
@@ -243,13 +404,37 @@ export const SettingsScreen = () => {
 
   const navRight = (
     <>
-      <button
-        className="btn btn-dark"
-        onClick={handleSaveAll}
-        disabled={saving || !hasUnsavedChanges}
-      >
-        {saving ? 'Saving...' : 'Save'}
+      <button className="btn btn-dark" onClick={handleExport}>
+        Export
       </button>
+      {canEdit && (
+        <>
+          <button
+            className="btn btn-dark"
+            onClick={() => importInputRef.current?.click()}
+            disabled={importing || hasUnsavedChanges}
+            title={hasUnsavedChanges ? 'Save or discard your edits first' : undefined}
+          >
+            Import
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            hidden
+            onChange={handleImportFile}
+          />
+        </>
+      )}
+      {canEdit && (
+        <button
+          className="btn btn-dark"
+          onClick={handleSaveAll}
+          disabled={saving || !hasUnsavedChanges}
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      )}
       <button className="btn btn-dark" onClick={handleBack}>
         Back
       </button>
@@ -269,8 +454,30 @@ export const SettingsScreen = () => {
   const selectedSetting = settings.find((s) => s.id === selectedSettingId);
   const selectedTower = towers.find((t) => t.id === selectedTowerId);
   const selectedTowerLevels = towers.find((t) => t.id === selectedTowerForLevels);
+  // Saved and newly added nodes of the selected tower's upgrade tree, by level then branch
+  const selectedLevelNodes = selectedTowerLevels
+    ? [
+        ...selectedTowerLevels.levels,
+        ...[...addedTowerLevels.values()].filter((l) => l.towerId === selectedTowerLevels.id),
+      ]
+        .filter((level) => level.level <= selectedTowerLevels.maxLevel)
+        .sort((a, b) => a.level - b.level || a.branch.localeCompare(b.branch))
+    : [];
   const selectedEnemy = enemies.find((e) => e.id === selectedEnemyId);
 
+  const savedWaveNumbers = new Set(waves.map((w) => w.waveNumber));
+  const waveNumbers = [...new Set([...savedWaveNumbers, ...editedWaves.keys()])].sort(
+    (a, b) => a - b
+  );
+  const selectedWaveGroups =
+    selectedWaveNumber === null
+      ? undefined
+      : (editedWaves.get(selectedWaveNumber) ??
+        waves.find((w) => w.waveNumber === selectedWaveNumber)?.enemies);
+  // Previews use the normal mode's scaling and the first map's path
+  const normalSettings = settings.find((s) => s.mode === 'normal');
+  const previewMap = maps[0];
+
   const towerSelectorItems = towers.map((tower) => ({
     id: tower.id,
     label: (
@@ -306,12 +513,14 @@ export const SettingsScreen = () => {
                 }))}
                 selectedId={selectedSettingId}
                 onSelect={setSelectedSettingId}
+                readOnly={!canEdit}
                 emptyMessage="Select a game mode"
                 detail={
                   selectedSetting ? (
                     <SettingsEditor
                       setting={selectedSetting}
                       edits={editedSettings.get(selectedSetting.id ?? 0) ?? {}}
+                      enemies={enemies}
                       onChange={(field, value) =>
                         handleSettingsChange(selectedSetting.id ?? 0, field, value)
                       }
@@ -326,6 +535,7 @@ export const SettingsScreen = () => {
                 items={towerSelectorItems}
                 selectedId={selectedTowerId}
                 onSelect={setSelectedTowerId}
+                readOnly={!canEdit}
                 emptyMessage="Select a tower"
                 detail={
                   selectedTower ? (
@@ -346,6 +556,7 @@ export const SettingsScreen = () => {
                 items={towerSelectorItems}
                 selectedId={selectedTowerForLevels}
                 onSelect={setSelectedTowerForLevels}
+                readOnly={!canEdit}
                 emptyMessage="Select a tower type"
                 scrollable
                 detail={
@@ -355,28 +566,34 @@ export const SettingsScreen = () => {
                         {selectedTowerLevels.name} Levels (Max: {selectedTowerLevels.maxLevel})
                       </h3>
                       <div className="levels-list">
-                        {selectedTowerLevels.levels
-                          .filter((level) => level.level <= selectedTowerLevels.maxLevel)
-                          .sort((a, b) => a.level - b.level)
-                          .map((level) => (
+                        {selectedLevelNodes.map((level) => {
+                          const key = levelEditKey(level.towerId, level.level, level.branch);
+                          return (
                             <TowerLevelEditor
-                              key={`${selectedTowerLevels.id}-${level.level}`}
+                              key={key}
                               level={level}
-                              edits={
-                                editedTowerLevels.get(
-                                  `${selectedTowerLevels.id}-${level.level}`
-                                ) ?? {}
-                              }
+                              edits={editedTowerLevels.get(key) ?? {}}
+                              isNew={addedTowerLevels.has(key)}
+                              parentBranches={selectedLevelNodes
+                                .filter((l) => l.level === level.level - 1)
+                                .map((l) => l.branch)}
+                              childBranches={selectedLevelNodes
+                                .filter((l) => l.level === level.level + 1)
+                                .map((l) => l.branch)}
+                              canBranch={level.level < selectedTowerLevels.maxLevel}
                               onChange={(field, value) =>
                                 handleTowerLevelChange(
-                                  selectedTowerLevels.id,
+                                  level.towerId,
                                   level.level,
+                                  level.branch,
                                   field,
                                   value
                                 )
                               }
+                              onAddBranch={(branch) => handleAddBranch(level, branch)}
                             />
-                          ))}
+                          );
+                        })}
                       </div>
                     </>
                   ) : null
@@ -401,11 +618,13 @@ export const SettingsScreen = () => {
                 }))}
                 selectedId={selectedEnemyId}
                 onSelect={setSelectedEnemyId}
+                readOnly={!canEdit}
                 emptyMessage="Select an enemy"
                 detail={
                   selectedEnemy ? (
                     <EnemyEditor
                       enemy={selectedEnemy}
+                      promoteTargets={enemies.filter((e) => e.id !== selectedEnemy.id)}
                       edits={editedEnemies.get(selectedEnemy.id) ?? {}}
                       onChange={(field, value) =>
                         handleEnemyChange(selectedEnemy.id, field, value)
@@ -415,10 +634,54 @@ export const SettingsScreen = () => {
                 }
               />
             )}
+
+            {activeTab === 'waves' && (
+              <SelectorDetailLayout
+                items={waveNumbers.map((waveNumber) => ({
+                  id: waveNumber,
+                  label: `Wave ${waveNumber}${savedWaveNumbers.has(waveNumber) ? '' : ' (new)'}`,
+                }))}
+                selectedId={selectedWaveNumber}
+                onSelect={setSelectedWaveNumber}
+                readOnly={!canEdit}
+                scrollable
+                emptyMessage="Select a wave"
+                detail={
+                  selectedWaveNumber !== null && selectedWaveGroups ? (
+                    <WaveEditor
+                      waveNumber={selectedWaveNumber}
+                      groups={selectedWaveGroups}
+                      enemies={enemies}
+                      healthWaveMultiplier={normalSettings?.enemyHealthWaveMultiplier ?? 0.1}
+                      pathLength={previewMap ? getPathLength(previewMap.waypoints) : null}
+                      isNew={!savedWaveNumbers.has(selectedWaveNumber)}
+                      readOnly={!canEdit}
+                      onChange={(groups) => handleWaveChange(selectedWaveNumber, groups)}
+                      onDuplicate={() => handleDuplicateWave(selectedWaveGroups)}
+                    />
+                  ) : null
+                }
+              />
+            )}
+
+            {activeTab === 'versions' && (
+              <VersionsPanel
+                canEdit={canEdit}
+                hasUnsavedChanges={hasUnsavedChanges}
+                onRollback={loadAllData}
+                onMessage={setSaveMessage}
+              />
+            )}
           </div>
 
         </div>
 
+        {!canEdit && (
+          <div className="save-message info">
+            Read-only: sign in as a designer or admin to change the configuration
+          </div>
+        )}
+
         {saveMessage && (
           <div className={`save-message ${saveMessage.type}`}>
             {saveMessage.text}
@@ -426,6 +689,16 @@ export const SettingsScreen = () => {
         )}
       </div>
 
+      {importPreview && (
+        <ConfigImportModal
+          fileName={importPreview.fileName}
+          preview={importPreview.result}
+          busy={importing}
+          onApply={handleImportApply}
+          onCancel={() => setImportPreview(null)}
+        />
+      )}
+
       <ConfirmModal
         isOpen={showBackConfirm}
         title="Unsaved Changes"
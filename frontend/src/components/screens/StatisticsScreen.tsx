@@ -0,0 +1,294 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useGameStore } from '../../state/gameStore';
+import { gameApi } from '../../services/gameApi';
+import { ScreenLayout } from '../common/ScreenLayout';
+import { SelectField } from '../common/SelectField';
+import { BarChart } from './statistics/BarChart';
+import { TrendChart, type TrendMetric } from './statistics/TrendChart';
+import { WaveDistributionChart } from './statistics/WaveDistributionChart';
+import { formatPercent, getEnemyLabel, getTowerLabel } from './statistics/labels';
+import { capitalize, formatDuration, formatGameMode } from '../../utils/string';
+import type {
+  AnalyticsFilters,
+  EnemyAnalytics,
+  GameStatistics,
+  TowerAnalytics,
+  TrendInterval,
+  TrendPoint,
+  WaveDistributionPoint,
+} from '../../types';
+import './StatisticsScreen.css';
+
+type GameModeOption = NonNullable<AnalyticsFilters['gameMode']> | 'all';
+type DifficultyOption = NonNullable<AnalyticsFilters['difficulty']> | 'all';
+
+const GAME_MODE_OPTIONS: GameModeOption[] = ['all', '10waves', '20waves', 'endless', 'daily'];
+const DIFFICULTY_OPTIONS: DifficultyOption[] = ['all', 'easy', 'normal', 'hard', 'custom'];
+const PERIOD_OPTIONS = ['7', '30', '90', '365'] as const;
+const INTERVAL_OPTIONS: TrendInterval[] = ['day', 'week'];
+
+interface Analytics {
+  towers: TowerAnalytics[];
+  enemies: EnemyAnalytics[];
+  waves: WaveDistributionPoint[];
+  trends: TrendPoint[];
+}
+
+interface DifficultyTotals {
+  difficulty: string;
+  games: number;
+  wins: number;
+  waveSum: number;
+}
+
+// Games, wins and waves per difficulty over all trend points
+const getDifficultyTotals = (trends: TrendPoint[]): DifficultyTotals[] => {
+  const totals = new Map<string, DifficultyTotals>();
+  for (const point of trends) {
+    const difficulty = point.difficulty ?? 'unknown';
+    const total = totals.get(difficulty) ?? { difficulty, games: 0, wins: 0, waveSum: 0 };
+    total.games += point.games;
+    total.wins += (point.winRate / 100) * point.games;
+    total.waveSum += point.avgWave * point.games;
+    totals.set(difficulty, total);
+  }
+  return [...totals.values()];
+};
+
+export const StatisticsScreen = () => {
+  const navigate = useNavigate();
+  const towerDefinitions = useGameStore((state) => state.towerDefinitions);
+  const enemyDefinitions = useGameStore((state) => state.enemyDefinitions);
+
+  const [gameMode, setGameMode] = useState<GameModeOption>('all');
+  const [difficulty, setDifficulty] = useState<DifficultyOption>('all');
+  const [period, setPeriod] = useState<(typeof PERIOD_OPTIONS)[number]>('30');
+  const [trendInterval, setTrendInterval] = useState<TrendInterval>('day');
+  const [metric, setMetric] = useState<TrendMetric>('winRate');
+  const [analytics, setAnalytics] = useState<Analytics | null>(null);
+  const [recentGames, setRecentGames] = useState<GameStatistics[]>([]);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    gameApi.getRecentGames(20).then(setRecentGames).catch(console.error);
+  }, []);
+
+  // Charts keep showing the previous filters' data until the new data arrives
+  useEffect(() => {
+    const filters: AnalyticsFilters = { days: parseInt(period) };
+    if (gameMode !== 'all') filters.gameMode = gameMode;
+    if (difficulty !== 'all') filters.difficulty = difficulty;
+
+    let isCancelled = false;
+    Promise.all([
+      gameApi.getTowerAnalytics(filters),
+      gameApi.getEnemyAnalytics(filters),
+      gameApi.getWaveDistribution(filters),
+      gameApi.getTrends(trendInterval, filters),
+    ])
+      .then(([towers, enemies, waves, trends]) => {
+        if (isCancelled) return;
+        setAnalytics({ towers, enemies, waves, trends });
+        setFailed(false);
+      })
+      .catch((error) => {
+        console.error(error);
+        if (!isCancelled) setFailed(true);
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [gameMode, difficulty, period, trendInterval]);
+
+  const difficultyTotals = analytics ? getDifficultyTotals(analytics.trends) : [];
+  const totalGames = difficultyTotals.reduce((sum, total) => sum + total.games, 0);
+  const totalWins = difficultyTotals.reduce((sum, total) => sum + total.wins, 0);
+  const totalWaves = difficultyTotals.reduce((sum, total) => sum + total.waveSum, 0);
+
+  return (
+    <ScreenLayout
+      className="statistics-screen"
+      showBackButton
+      scrollable
+      heading="Statistics"
+      subtitle="Balance trends from every recorded game"
+    >
+      <div className="statistics-content">
+        <div className="statistics-filters">
+          <SelectField
+            label="Game Mode"
+            value={gameMode}
+            options={GAME_MODE_OPTIONS}
+            getLabel={(mode) => (mode === 'all' ? 'All Modes' : formatGameMode(mode))}
+            onChange={setGameMode}
+          />
+          <SelectField
+            label="Difficulty"
+            value={difficulty}
+            options={DIFFICULTY_OPTIONS}
+            getLabel={(d) => (d === 'all' ? 'All Difficulties' : capitalize(d))}
+            onChange={setDifficulty}
+          />
+          <SelectField
+            label="Period"
+            value={period}
+            options={PERIOD_OPTIONS}
+            getLabel={(days) => `Last ${days} days`}
+            onChange={setPeriod}
+          />
+          <SelectField
+            label="Trend Interval"
+            value={trendInterval}
+            options={INTERVAL_OPTIONS}
+            getLabel={(i) => (i === 'day' ? 'Daily' : 'Weekly')}
+            onChange={setTrendInterval}
+          />
+        </div>
+
+        {failed ? (
+          <p className="statistics-empty">Failed to load statistics</p>
+        ) : !analytics ? (
+          <p className="statistics-empty">Loading...</p>
+        ) : (
+          <>
+            <div className="statistics-summary">
+              <div className="statistics-summary-item">
+                <span className="statistics-summary-label">Games</span>
+                <span className="statistics-summary-value">{totalGames}</span>
+              </div>
+              <div className="statistics-summary-item">
+                <span className="statistics-summary-label">Win Rate</span>
+                <span className="statistics-summary-value">
+                  {formatPercent(totalGames > 0 ? (totalWins / totalGames) * 100 : 0)}
+                </span>
+              </div>
+              <div className="statistics-summary-item">
+                <span className="statistics-summary-label">Avg Wave</span>
+                <span className="statistics-summary-value">
+                  {(totalGames > 0 ? totalWaves / totalGames : 0).toFixed(1)}
+                </span>
+              </div>
+            </div>
+
+            <section className="statistics-card">
+              <div className="statistics-card-header">
+                <h2 className="statistics-card-title">
+                  {metric === 'winRate' ? 'Win Rate' : 'Average Wave'} Over Time
+                </h2>
+                <div className="statistics-toggle">
+                  <button
+                    className={`btn btn-dark btn-sm ${metric === 'winRate' ? 'selected' : ''}`}
+                    onClick={() => setMetric('winRate')}
+                  >
+                    Win Rate
+                  </button>
+                  <button
+                    className={`btn btn-dark btn-sm ${metric === 'avgWave' ? 'selected' : ''}`}
+                    onClick={() => setMetric('avgWave')}
+                  >
+                    Avg Wave
+                  </button>
+                </div>
+              </div>
+              <TrendChart points={analytics.trends} metric={metric} />
+            </section>
+
+            <section className="statistics-card">
+              <h2 className="statistics-card-title">Difficulty Comparison</h2>
+              {difficultyTotals.length === 0 ? (
+                <p className="statistics-empty">No games in this period</p>
+              ) : (
+                <div className="statistics-table">
+                  <div className="statistics-table-row statistics-table-header">
+                    <span>Difficulty</span>
+                    <span>Games</span>
+                    <span>Win Rate</span>
+                    <span>Avg Wave</span>
+                  </div>
+                  {difficultyTotals.map((total) => (
+                    <div key={total.difficulty} className="statistics-table-row">
+                      <span>{capitalize(total.difficulty)}</span>
+                      <span>{total.games}</span>
+                      <span>{formatPercent((total.wins / total.games) * 100)}</span>
+                      <span>{(total.waveSum / total.games).toFixed(1)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+
+            <section className="statistics-card">
+              <h2 className="statistics-card-title">Wave Reached</h2>
+              <WaveDistributionChart points={analytics.waves} />
+            </section>
+
+            <div className="statistics-columns">
+              <section className="statistics-card">
+                <h2 className="statistics-card-title">Tower Pick Rate</h2>
+                <BarChart
+                  items={analytics.towers.map((tower) => ({
+                    key: tower.towerType,
+                    label: getTowerLabel(towerDefinitions, tower.towerType),
+                    value: tower.pickRate,
+                    detail: `(${formatPercent(tower.winRate)} won)`,
+                  }))}
+                  max={100}
+                  formatValue={formatPercent}
+                />
+              </section>
+
+              <section className="statistics-card">
+                <h2 className="statistics-card-title">Enemy Kill Share</h2>
+                <BarChart
+                  items={analytics.enemies.map((enemy) => ({
+                    key: enemy.enemyType,
+                    label: getEnemyLabel(enemyDefinitions, enemy.enemyType),
+                    value: enemy.killShare,
+                  }))}
+                  formatValue={formatPercent}
+                />
+              </section>
+            </div>
+          </>
+        )}
+
+        <section className="statistics-card">
+          <h2 className="statistics-card-title">Recent Games</h2>
+          {recentGames.length === 0 ? (
+            <p className="statistics-empty">No games played yet</p>
+          ) : (
+            <div className="statistics-table">
+              <div className="statistics-table-row statistics-games-row statistics-table-header">
+                <span>Date</span>
+                <span>Player</span>
+                <span>Result</span>
+                <span>Mode</span>
+                <span>Wave</span>
+                <span>Score</span>
+                <span>Time</span>
+              </div>
+              {recentGames.map((game) => (
+                <button
+                  key={game.gameId}
+                  className="statistics-table-row statistics-games-row statistics-game-link"
+                  onClick={() => navigate(`/statistics/${game.gameId}`)}
+                >
+                  <span>{new Date(game.timestamp).toLocaleDateString()}</span>
+                  <span className="statistics-player">{game.playerName ?? 'Anonymous'}</span>
+                  <span className={`statistics-outcome ${game.outcome}`}>
+                    {game.outcome === 'win' ? 'Victory' : 'Defeat'}
+                  </span>
+                  <span>{formatGameMode(game.gameMode)}</span>
+                  <span>{game.finalWave}</span>
+                  <span>{game.score ?? 0}</span>
+                  <span>{formatDuration(game.duration)}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+    </ScreenLayout>
+  );
+};
@@ -0,0 +1,34 @@
+import type { ConfigVersionChange } from '../../../types';
+
+const entityLabels: Record<ConfigVersionChange['entityType'], string> = {
+  tower: 'Tower',
+  tower_level: 'Tower level',
+  enemy: 'Enemy',
+  wave: 'Wave',
+  settings: 'Settings',
+  map: 'Map',
+};
+
+const formatValue = (value: unknown): string =>
+  value === null ? 'none' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+interface ConfigChangeListProps {
+  changes: ConfigVersionChange[];
+}
+
+// Field-level config changes, one line per changed field
+export const ConfigChangeList = ({ changes }: ConfigChangeListProps) =>
+  changes.length === 0 ? (
+    <p className="version-meta">No changes</p>
+  ) : (
+    <ul className="version-changes">
+      {changes.map((change) => (
+        <li key={`${change.entityType}-${change.entityId}-${change.field}`}>
+          <span className="version-change-entity">
+            {entityLabels[change.entityType]} {change.entityId}
+          </span>{' '}
+          {change.field}: {formatValue(change.oldValue)} → {formatValue(change.newValue)}
+        </li>
+      ))}
+    </ul>
+  );
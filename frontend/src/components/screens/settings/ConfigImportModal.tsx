@@ -0,0 +1,58 @@
+import { ConfigChangeList } from './ConfigChangeList';
+import type { ConfigImportResult } from '../../../types';
+import '../../common/ConfirmModal.css';
+
+interface ConfigImportModalProps {
+  fileName: string;
+  preview: ConfigImportResult; // dry-run result of the bundle
+  busy: boolean;
+  onApply: () => void;
+  onCancel: () => void;
+}
+
+// Preview of a config bundle import: what it would change, or why it cannot be applied
+export const ConfigImportModal = ({
+  fileName,
+  preview,
+  busy,
+  onApply,
+  onCancel,
+}: ConfigImportModalProps) => {
+  const hasConflicts = preview.conflicts.length > 0;
+
+  return (
+    <div className="confirm-overlay" onClick={onCancel}>
+      <div className="confirm-modal import-modal" onClick={(e) => e.stopPropagation()}>
+        <h2 className="confirm-title">Import Config</h2>
+        <p className="confirm-message">
+          {hasConflicts
+            ? `${fileName} does not match this server's config and cannot be imported.`
+            : `${fileName} replaces the draft; publish a version afterwards to use it in new games.`}
+        </p>
+        {hasConflicts ? (
+          <ul className="version-changes import-conflicts">
+            {preview.conflicts.map((conflict) => (
+              <li key={`${conflict.entityType}-${conflict.entityId}`}>{conflict.message}</li>
+            ))}
+          </ul>
+        ) : (
+          <div className="import-changes">
+            <ConfigChangeList changes={preview.changes} />
+          </div>
+        )}
+        <div className="confirm-actions">
+          <button className="btn btn-gold btn-lg" onClick={onCancel}>
+            Cancel
+          </button>
+          <button
+            className="btn btn-danger btn-lg"
+            onClick={onApply}
+            disabled={busy || hasConflicts || preview.changes.length === 0}
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,21 +1,51 @@
 import { NumberField } from '../../common/NumberField';
 import { TextField } from '../../common/TextField';
+import { SelectField } from '../../common/SelectField';
+import { CheckboxField } from '../../common/CheckboxField';
 import { getEnemyImage } from '../../../utils/pieceAssets';
-import type { EnemyDefinition } from '../../../types';
+import { DAMAGE_TYPES } from '../../../utils/damage';
+import { capitalize } from '../../../utils/string';
+import type { EnemyAbilities, EnemyDefinition, Resistances } from '../../../types';
 
 interface EnemyEditorProps {
   enemy: EnemyDefinition;
+  promoteTargets: EnemyDefinition[]; // enemies this one may promote to
   edits: Partial<EnemyDefinition>;
-  onChange: (field: keyof EnemyDefinition, value: number | string) => void;
+  onChange: (
+    field: keyof EnemyDefinition,
+    value: number | string | Resistances | EnemyAbilities
+  ) => void;
 }
 
-export const EnemyEditor = ({ enemy, edits, onChange }: EnemyEditorProps) => {
+// Starting values when an ability is switched on (the seeded Knight and King)
+const JUMP_DEFAULTS = { distance: 90, intervalMs: 3000 };
+const AURA_DEFAULTS = { radius: 120, speedBonus: 0.25, armorBonus: 2 };
+const PROMOTE_AT_DEFAULT = 0.85;
+
+export const EnemyEditor = ({ enemy, promoteTargets, edits, onChange }: EnemyEditorProps) => {
   const getValue = <K extends keyof EnemyDefinition>(field: K): EnemyDefinition[K] => {
     const editValue = edits[field];
     if (editValue !== undefined) return editValue as EnemyDefinition[K];
     return enemy[field];
   };
 
+  const resistances = getValue('resistances');
+  const abilities = getValue('abilities');
+  const { jump, diagonal, promote, aura } = abilities;
+
+  // Replace one ability; undefined switches it off
+  const setAbility = <K extends keyof EnemyAbilities>(key: K, value: EnemyAbilities[K]) => {
+    const next = { ...abilities };
+    if (value === undefined) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    onChange('abilities', next);
+  };
+
+  const promoteTarget = promoteTargets.find((e) => e.id === promote?.toEnemyId);
+
   return (
     <div className="definition-card">
       <div className="definition-header">
@@ -53,6 +83,113 @@ export const EnemyEditor = ({ enemy, edits, onChange }: EnemyEditorProps) => {
           value={getValue('size')}
           onChange={(v) => onChange('size', v)}
         />
+        <NumberField
+          label="Armor (min 0):"
+          min={0}
+          value={getValue('armor')}
+          onChange={(v) => onChange('armor', v)}
+        />
+        {DAMAGE_TYPES.map((type) => (
+          <NumberField
+            key={type}
+            label={`${capitalize(type)} Resistance (-1 to 1):`}
+            min={-1}
+            max={1}
+            step={0.05}
+            value={resistances[type] ?? 0}
+            onChange={(v) => onChange('resistances', { ...resistances, [type]: v })}
+          />
+        ))}
+        <CheckboxField
+          label="Jumps forward:"
+          checked={!!jump}
+          onChange={(on) => setAbility('jump', on ? JUMP_DEFAULTS : undefined)}
+        />
+        {jump && (
+          <>
+            <NumberField
+              label="Jump Distance px (min 1):"
+              min={1}
+              value={jump.distance}
+              onChange={(v) => setAbility('jump', { ...jump, distance: v })}
+            />
+            <NumberField
+              label="Jump Interval ms (min 1):"
+              min={1}
+              step={100}
+              value={jump.intervalMs}
+              onChange={(v) => setAbility('jump', { ...jump, intervalMs: v })}
+            />
+          </>
+        )}
+        <CheckboxField
+          label="Cuts corners diagonally (maps that allow it):"
+          checked={!!diagonal}
+          onChange={(on) => setAbility('diagonal', on ? true : undefined)}
+        />
+        {promoteTargets.length > 0 && (
+          <CheckboxField
+            label="Promotes:"
+            checked={!!promote}
+            onChange={(on) =>
+              setAbility(
+                'promote',
+                on
+                  ? { atProgress: PROMOTE_AT_DEFAULT, toEnemyId: promoteTargets[0]!.id }
+                  : undefined
+              )
+            }
+          />
+        )}
+        {promote && (
+          <>
+            <NumberField
+              label="Promote at Path Fraction (0-1):"
+              min={0.05}
+              max={1}
+              step={0.05}
+              value={promote.atProgress}
+              onChange={(v) => setAbility('promote', { ...promote, atProgress: v })}
+            />
+            <SelectField
+              label="Promote To:"
+              value={promoteTarget?.name ?? ''}
+              options={promoteTargets.map((e) => e.name)}
+              onChange={(name) => {
+                const target = promoteTargets.find((e) => e.name === name);
+                if (target) setAbility('promote', { ...promote, toEnemyId: target.id });
+              }}
+            />
+          </>
+        )}
+        <CheckboxField
+          label="Buffs nearby allies:"
+          checked={!!aura}
+          onChange={(on) => setAbility('aura', on ? AURA_DEFAULTS : undefined)}
+        />
+        {aura && (
+          <>
+            <NumberField
+              label="Aura Radius px (min 1):"
+              min={1}
+              value={aura.radius}
+              onChange={(v) => setAbility('aura', { ...aura, radius: v })}
+            />
+            <NumberField
+              label="Aura Speed Bonus (min 0):"
+              min={0}
+              step={0.05}
+              value={aura.speedBonus}
+              onChange={(v) => setAbility('aura', { ...aura, speedBonus: v })}
+            />
+            <NumberField
+              label="Aura Armor Bonus (min 0):"
+              min={0}
+              value={aura.armorBonus}
+              onChange={(v) => setAbility('aura', { ...aura, armorBonus: v })}
+            />
+          </>
+        )}
         <TextField
           label="Color:"
           type="color"
@@ -12,6 +12,7 @@ interface SelectorDetailLayoutProps {
   detail: ReactNode | null;
   emptyMessage: string;
   scrollable?: boolean;
+  readOnly?: boolean; // items stay selectable, the detail editor is disabled
 }
 
 export const SelectorDetailLayout = ({
@@ -21,6 +22,7 @@ export const SelectorDetailLayout = ({
   detail,
   emptyMessage,
   scrollable,
+  readOnly,
 }: SelectorDetailLayoutProps) => (
   <div className="selector-detail-layout">
     <div className="item-selector">
@@ -36,7 +38,9 @@ export const SelectorDetailLayout = ({
     </div>
 
     <div className={scrollable ? 'detail-panel-scroll' : 'detail-panel'}>
-      {detail ?? <div className="detail-empty">{emptyMessage}</div>}
+      <fieldset className="detail-fieldset" disabled={readOnly}>
+        {detail ?? <div className="detail-empty">{emptyMessage}</div>}
+      </fieldset>
     </div>
   </div>
 );
@@ -1,18 +1,26 @@
 import { NumberField } from '../../common/NumberField';
-import type { GameSettings } from '../../../types';
+import type { EnemyDefinition, GameSettings } from '../../../types';
 
 interface SettingsEditorProps {
   setting: GameSettings;
   edits: Partial<GameSettings>;
-  onChange: (field: keyof GameSettings, value: number) => void;
+  enemies: EnemyDefinition[];
+  onChange: (field: keyof GameSettings, value: number | Record<number, number>) => void;
 }
 
-export const SettingsEditor = ({ setting, edits, onChange }: SettingsEditorProps) => {
+export const SettingsEditor = ({ setting, edits, enemies, onChange }: SettingsEditorProps) => {
   const getValue = (field: keyof GameSettings): number => {
     const editValue = edits[field];
     if (editValue !== undefined) return editValue as number;
     return setting[field] as number;
   };
+  const unlockWaves = edits.endlessUnlockWaves ?? setting.endlessUnlockWaves;
+
+  // 0 makes the enemy available to the generator from the start
+  const setUnlockWave = (enemyId: number, wave: number) => {
+    const { [enemyId]: _previous, ...rest } = unlockWaves;
+    onChange('endlessUnlockWaves', wave > 0 ? { ...rest, [enemyId]: wave } : rest);
+  };
 
   return (
     <div className="definition-card">
@@ -51,6 +59,77 @@ export const SettingsEditor = ({ setting, edits, onChange }: SettingsEditorProps
           onChange={(v) => onChange('enemyRewardWaveMultiplier', v)}
         />
       </div>
+
+      <h4 className="definition-name">Endless Waves</h4>
+      <p className="version-meta">Used to generate waves past the last defined one.</p>
+      <div className="definition-fields">
+        <NumberField
+          label="Budget Growth per Wave (0-1):"
+          min={0}
+          max={1}
+          step={0.01}
+          value={getValue('endlessBudgetGrowth')}
+          onChange={(v) => onChange('endlessBudgetGrowth', v)}
+        />
+        <NumberField
+          label="Boss Wave Every N Waves (0 = none):"
+          min={0}
+          value={getValue('endlessBossInterval')}
+          onChange={(v) => onChange('endlessBossInterval', v)}
+        />
+        {enemies.map((enemy) => (
+          <NumberField
+            key={enemy.id}
+            label={`${enemy.name} Unlock Wave (0 = always):`}
+            min={0}
+            value={unlockWaves[enemy.id] ?? 0}
+            onChange={(v) => setUnlockWave(enemy.id, v)}
+          />
+        ))}
+      </div>
+
+      <h4 className="definition-name">Scoring</h4>
+      <p className="version-meta">
+        A game's score adds up these points, times the difficulty multiplier.
+      </p>
+      <div className="definition-fields">
+        <NumberField
+          label="Points per Wave Cleared (0-10000):"
+          min={0}
+          max={10000}
+          value={getValue('scoreWavePoints')}
+          onChange={(v) => onChange('scoreWavePoints', v)}
+        />
+        <NumberField
+          label="Points per Life Left (0-10000):"
+          min={0}
+          max={10000}
+          value={getValue('scoreLifePoints')}
+          onChange={(v) => onChange('scoreLifePoints', v)}
+        />
+        <NumberField
+          label="Points for No Coins Spent (0-10000):"
+          min={0}
+          max={10000}
+          value={getValue('scoreEfficiencyPoints')}
+          onChange={(v) => onChange('scoreEfficiencyPoints', v)}
+        />
+        <NumberField
+          label="Points per Wave at 1 min Pace (0-10000):"
+          min={0}
+          max={10000}
+          value={getValue('scoreTimePoints')}
+          onChange={(v) => onChange('scoreTimePoints', v)}
+        />
+        <NumberField
+          label="Difficulty Multiplier (0.1-10):"
+          min={0.1}
+          max={10}
+          step={0.05}
+          value={getValue('scoreMultiplier')}
+          onChange={(v) => onChange('scoreMultiplier', v)}
+        />
+      </div>
     </div>
   );
 };
@@ -1,5 +1,7 @@
 import { NumberField } from '../../common/NumberField';
 import { TextField } from '../../common/TextField';
+import { SelectField } from '../../common/SelectField';
+import { ATTACK_PATTERNS } from '../../../utils/attackPatterns';
 import { getTowerImage } from '../../../utils/pieceAssets';
 import type { TowerDefinitionWithLevels } from '../../../types';
 
@@ -47,6 +49,12 @@ export const TowerEditor = ({ tower, edits, onChange }: TowerEditorProps) => {
           value={getValue('maxLevel')}
           onChange={(v) => onChange('maxLevel', v)}
         />
+        <SelectField
+          label="Attack Pattern:"
+          value={getValue('attackPattern')}
+          options={ATTACK_PATTERNS}
+          onChange={(v) => onChange('attackPattern', v)}
+        />
       </div>
     </div>
   );
@@ -1,23 +1,81 @@
+import { useState } from 'react';
 import { NumberField } from '../../common/NumberField';
+import { SelectField } from '../../common/SelectField';
+import { DAMAGE_TYPES } from '../../../utils/damage';
+import { PROJECTILE_TYPES } from '../../../utils/projectiles';
+import { MAX_SLOW, STATUS_EFFECT_TYPES } from '../../../utils/statusEffects';
+import { getBranchName } from '../../../utils/upgradeTree';
 import type { TowerLevel } from '../../../types';
 
+// A node's level and branch are its identity in the upgrade tree, so they are not editable
+type EditableField = keyof Omit<TowerLevel, 'id' | 'towerId' | 'level' | 'branch'>;
+
 interface TowerLevelEditorProps {
   level: TowerLevel;
   edits: Partial<TowerLevel>;
-  onChange: (field: keyof Omit<TowerLevel, 'id' | 'towerId' | 'level'>, value: number) => void;
+  isNew: boolean; // a branch added but not saved yet
+  parentBranches: string[]; // nodes one level down this one can upgrade from
+  childBranches: string[]; // nodes one level up, whose names a new branch can't reuse
+  canBranch: boolean; // below the tower's max level
+  onChange: (field: EditableField, value: number | string | null) => void;
+  onAddBranch: (branch: string) => void;
 }
 
-export const TowerLevelEditor = ({ level, edits, onChange }: TowerLevelEditorProps) => {
-  const getValue = (field: keyof Omit<TowerLevel, 'id' | 'towerId' | 'level'>): number => {
+// Select option standing in for a null effectType
+const NO_EFFECT = 'none';
+
+// Same limit as the backend's branch column
+const MAX_BRANCH_LENGTH = 30;
+
+export const TowerLevelEditor = ({
+  level,
+  edits,
+  isNew,
+  parentBranches,
+  childBranches,
+  canBranch,
+  onChange,
+  onAddBranch,
+}: TowerLevelEditorProps) => {
+  const [newBranch, setNewBranch] = useState('');
+
+  const getValue = <K extends EditableField>(field: K): TowerLevel[K] => {
     const editValue = edits[field];
-    if (editValue !== undefined) return editValue as number;
+    if (editValue !== undefined) return editValue as TowerLevel[K];
     return level[field];
   };
 
+  const projectileType = getValue('projectileType');
+  const effectType = getValue('effectType');
+
+  const newBranchName = newBranch.trim();
+  const canAddBranch =
+    newBranchName.length > 0 &&
+    newBranchName.length <= MAX_BRANCH_LENGTH &&
+    !childBranches.includes(newBranchName);
+
+  const handleAddBranch = () => {
+    onAddBranch(newBranchName);
+    setNewBranch('');
+  };
+
   return (
     <div className="definition-card level-card">
-      <h4 className="definition-name">Level {level.level}</h4>
+      <h4 className="definition-name">
+        Level {level.level}
+        {level.branch && ` (${level.branch})`}
+        {isNew && ' (new)'}
+      </h4>
       <div className="definition-fields">
+        {level.level > 1 && (
+          <SelectField
+            label="Upgrades From:"
+            value={getValue('parentBranch')}
+            options={parentBranches}
+            getLabel={(branch) => `Level ${level.level - 1} (${getBranchName(branch)})`}
+            onChange={(v) => onChange('parentBranch', v)}
+          />
+        )}
         <NumberField
           label={`${level.level === 1 ? 'Build Cost' : 'Upgrade Cost'} (min 1):`}
           min={1}
@@ -43,7 +101,110 @@ export const TowerLevelEditor = ({ level, edits, onChange }: TowerLevelEditorPro
           value={getValue('fireRate')}
           onChange={(v) => onChange('fireRate', v)}
         />
+        <SelectField
+          label="Damage Type:"
+          value={getValue('damageType')}
+          options={DAMAGE_TYPES}
+          onChange={(v) => onChange('damageType', v)}
+        />
+        <SelectField
+          label="Projectile:"
+          value={projectileType}
+          options={PROJECTILE_TYPES}
+          onChange={(v) => onChange('projectileType', v)}
+        />
+        {projectileType === 'splash' && (
+          <NumberField
+            label="Splash Radius (min 1):"
+            min={1}
+            value={getValue('splashRadius')}
+            onChange={(v) => onChange('splashRadius', v)}
+          />
+        )}
+        {projectileType === 'chain' && (
+          <>
+            <NumberField
+              label="Chain Bounces (min 1):"
+              min={1}
+              value={getValue('chainCount')}
+              onChange={(v) => onChange('chainCount', v)}
+            />
+            <NumberField
+              label="Chain Range (min 1):"
+              min={1}
+              value={getValue('chainRange')}
+              onChange={(v) => onChange('chainRange', v)}
+            />
+          </>
+        )}
+        {projectileType === 'pierce' && (
+          <NumberField
+            label="Pierce Count (min 1):"
+            min={1}
+            value={getValue('pierceCount')}
+            onChange={(v) => onChange('pierceCount', v)}
+          />
+        )}
+        <SelectField
+          label="Effect:"
+          value={effectType ?? NO_EFFECT}
+          options={[NO_EFFECT, ...STATUS_EFFECT_TYPES]}
+          onChange={(v) => onChange('effectType', v === NO_EFFECT ? null : v)}
+        />
+        {effectType === 'slow' && (
+          <NumberField
+            label={`Slow (0-${MAX_SLOW}):`}
+            min={0}
+            max={MAX_SLOW}
+            step={0.05}
+            value={getValue('effectStrength')}
+            onChange={(v) => onChange('effectStrength', v)}
+          />
+        )}
+        {effectType === 'poison' && (
+          <NumberField
+            label="Poison Damage/s (min 0):"
+            min={0}
+            value={getValue('effectStrength')}
+            onChange={(v) => onChange('effectStrength', v)}
+          />
+        )}
+        {effectType === 'shred' && (
+          <NumberField
+            label="Armor Shred (min 0):"
+            min={0}
+            value={getValue('effectStrength')}
+            onChange={(v) => onChange('effectStrength', v)}
+          />
+        )}
+        {effectType && (
+          <NumberField
+            label="Effect Duration ms (min 1):"
+            min={1}
+            step={100}
+            value={getValue('effectDuration')}
+            onChange={(v) => onChange('effectDuration', v)}
+          />
+        )}
       </div>
+      {canBranch && (
+        <div className="level-add-branch">
+          <input
+            type="text"
+            placeholder={`New level ${level.level + 1} branch`}
+            maxLength={MAX_BRANCH_LENGTH}
+            value={newBranch}
+            onChange={(e) => setNewBranch(e.target.value)}
+          />
+          <button
+            className="btn btn-dark btn-sm"
+            onClick={handleAddBranch}
+            disabled={!canAddBranch}
+          >
+            Add Branch
+          </button>
+        </div>
+      )}
     </div>
   );
 };
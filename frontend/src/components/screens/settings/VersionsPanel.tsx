@@ -0,0 +1,189 @@
+import { useState, useEffect, useCallback } from 'react';
+import { gameApi } from '../../../services/gameApi';
+import { ConfirmModal } from '../../common/ConfirmModal';
+import { TextField } from '../../common/TextField';
+import { SelectorDetailLayout } from './SelectorDetailLayout';
+import { ConfigChangeList } from './ConfigChangeList';
+import type { ConfigVersionChange, ConfigVersionSummary } from '../../../types';
+
+// Selector ID of the draft (version IDs start at 1)
+const DRAFT_ID = 0;
+
+interface VersionsPanelProps {
+  canEdit: boolean;
+  hasUnsavedChanges: boolean; // unsaved edits are not part of the draft yet
+  onRollback: () => void; // the draft was restored, reload it
+  onMessage: (message: { text: string; type: 'success' | 'error' }) => void;
+}
+
+export const VersionsPanel = ({
+  canEdit,
+  hasUnsavedChanges,
+  onRollback,
+  onMessage,
+}: VersionsPanelProps) => {
+  const [versions, setVersions] = useState<ConfigVersionSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<number>(DRAFT_ID);
+  const [changes, setChanges] = useState<ConfigVersionChange[] | null>(null);
+  const [notes, setNotes] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [showRollbackConfirm, setShowRollbackConfirm] = useState(false);
+
+  const loadVersions = useCallback(async () => {
+    try {
+      setVersions(await gameApi.getConfigVersions());
+    } catch (error) {
+      console.error('Failed to load config versions:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  const current = versions[0];
+  const selectedIndex = versions.findIndex((v) => v.id === selectedId);
+  const selected = versions[selectedIndex];
+  // The draft is compared with the current version, a version with the one before it
+  const previous = selectedId === DRAFT_ID ? current : versions[selectedIndex + 1];
+
+  useEffect(() => {
+    setChanges(null);
+    if (!previous) return;
+    gameApi
+      .diffConfigVersions(previous.id, selectedId === DRAFT_ID ? 'draft' : selectedId)
+      .then((diff) => setChanges(diff.changes))
+      .catch(console.error);
+  }, [previous, selectedId]);
+
+  const runAction = async (
+    action: () => Promise<ConfigVersionSummary>,
+    success: (versionId: number) => string
+  ) => {
+    setBusy(true);
+    try {
+      const version = await action();
+      await loadVersions();
+      setSelectedId(version.id);
+      onMessage({ text: success(version.id), type: 'success' });
+    } catch (error) {
+      const axiosError = error as { response?: { data?: { error?: string } } };
+      onMessage({
+        text: axiosError.response?.data?.error ?? 'Failed to update config versions',
+        type: 'error',
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePublish = () =>
+    runAction(
+      async () => {
+        const version = await gameApi.publishConfigVersion(notes);
+        setNotes('');
+        return version;
+      },
+      (id) => `Published version ${id}`
+    );
+
+  const handleRollback = () => {
+    setShowRollbackConfirm(false);
+    runAction(
+      async () => {
+        const version = await gameApi.rollbackConfigVersion(selectedId);
+        onRollback();
+        return version;
+      },
+      (id) => `Rolled back; new games play version ${id}`
+    );
+  };
+
+  const changeList =
+    changes === null ? (
+      previous && <p className="version-meta">Loading changes...</p>
+    ) : (
+      <ConfigChangeList changes={changes} />
+    );
+
+  const draftDetail = (
+    <div className="definition-card">
+      <h4 className="definition-name">Draft</h4>
+      <p className="version-meta">
+        {current
+          ? `Saved edits not yet in a version. New games play version ${current.id}.`
+          : 'Nothing is published yet, so new games play the draft.'}
+      </p>
+      {changeList}
+      {canEdit && (
+        <div className="version-actions">
+          <TextField label="Notes" value={notes} onChange={setNotes} />
+          <button
+            className="btn btn-gold btn-sm"
+            onClick={handlePublish}
+            disabled={busy || hasUnsavedChanges || changes?.length === 0}
+          >
+            Publish
+          </button>
+          {hasUnsavedChanges && <p className="version-meta">Save your edits before publishing</p>}
+        </div>
+      )}
+    </div>
+  );
+
+  const versionDetail = selected && (
+    <div className="definition-card">
+      <h4 className="definition-name">
+        Version {selected.id}
+        {selected === current && ' (current)'}
+      </h4>
+      <p className="version-meta">
+        Published by {selected.username} on {new Date(selected.publishedAt).toLocaleString()}
+        {selected.rolledBackFrom !== null && ` as a rollback to version ${selected.rolledBackFrom}`}
+      </p>
+      {selected.notes && <p className="version-notes">{selected.notes}</p>}
+      {previous ? changeList : <p className="version-meta">First published version</p>}
+      {canEdit && (
+        <div className="version-actions">
+          <button
+            className="btn btn-dark btn-sm"
+            onClick={() => setShowRollbackConfirm(true)}
+            disabled={busy || hasUnsavedChanges}
+          >
+            Roll Back to Version {selected.id}
+          </button>
+          {hasUnsavedChanges && <p className="version-meta">Save or discard your edits first</p>}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <>
+      <SelectorDetailLayout
+        items={[
+          { id: DRAFT_ID, label: 'Draft' },
+          ...versions.map((version) => ({
+            id: version.id,
+            label: `Version ${version.id}${version === current ? ' (current)' : ''}`,
+          })),
+        ]}
+        selectedId={selectedId}
+        onSelect={setSelectedId}
+        emptyMessage="Select a version"
+        scrollable
+        detail={selectedId === DRAFT_ID ? draftDetail : (versionDetail ?? null)}
+      />
+
+      <ConfirmModal
+        isOpen={showRollbackConfirm}
+        title="Roll Back"
+        message={`Replace the draft with version ${selectedId} and publish it? Games in progress keep their version.`}
+        cancelLabel="Cancel"
+        confirmLabel="Roll Back"
+        onCancel={() => setShowRollbackConfirm(false)}
+        onConfirm={handleRollback}
+      />
+    </>
+  );
+};
@@ -0,0 +1,207 @@
+import { useState, type DragEvent } from 'react';
+import { NumberField } from '../../common/NumberField';
+import { SelectField } from '../../common/SelectField';
+import { getEnemyImage } from '../../../utils/pieceAssets';
+import { formatDuration } from '../../../utils/string';
+import {
+  WAVE_DIFFICULTY_LABELS,
+  estimateWaveDuration,
+  getGroupStartTimes,
+  getWaveTotalHealth,
+} from '../../../utils/waves';
+import type { EnemyDefinition, WaveEnemyGroup } from '../../../types';
+
+interface WaveEditorProps {
+  waveNumber: number;
+  groups: WaveEnemyGroup[];
+  enemies: EnemyDefinition[];
+  healthWaveMultiplier: number; // from the normal game mode
+  pathLength: number | null; // px along the default map, null if no map loaded
+  isNew: boolean; // not saved yet (e.g. a duplicate)
+  readOnly: boolean;
+  onChange: (groups: WaveEnemyGroup[]) => void;
+  onDuplicate: () => void;
+}
+
+// Starting values for a newly added group
+const NEW_GROUP = { count: 1, spawnDelayMs: 500, difficultyLabel: 'easy' };
+
+export const WaveEditor = ({
+  waveNumber,
+  groups,
+  enemies,
+  healthWaveMultiplier,
+  pathLength,
+  isNew,
+  readOnly,
+  onChange,
+  onDuplicate,
+}: WaveEditorProps) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  // A wave holds at most one group per enemy type
+  const unusedEnemies = enemies.filter((e) => !groups.some((g) => g.enemyId === e.id));
+  const [newEnemyId, setNewEnemyId] = useState<number | null>(null);
+  const addEnemyId = unusedEnemies.some((e) => e.id === newEnemyId)
+    ? newEnemyId
+    : (unusedEnemies[0]?.id ?? null);
+
+  const startTimes = getGroupStartTimes(groups);
+  const totalHealth = getWaveTotalHealth(groups, enemies, waveNumber, healthWaveMultiplier);
+  const enemyCount = groups.reduce((sum, group) => sum + group.count, 0);
+
+  const updateGroup = (index: number, changes: Partial<WaveEnemyGroup>) =>
+    onChange(groups.map((group, i) => (i === index ? { ...group, ...changes } : group)));
+
+  const moveGroup = (from: number, to: number) => {
+    const next = [...groups];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved!);
+    onChange(next);
+  };
+
+  const addGroup = () => {
+    if (addEnemyId === null) return;
+    const last = groups[groups.length - 1];
+    onChange([
+      ...groups,
+      {
+        ...NEW_GROUP,
+        ...(last && { spawnDelayMs: last.spawnDelayMs, difficultyLabel: last.difficultyLabel }),
+        enemyId: addEnemyId,
+      },
+    ]);
+  };
+
+  // Timeline segments and group cards can both be dragged onto each other
+  const dragProps = (index: number) =>
+    readOnly
+      ? {}
+      : {
+          draggable: true,
+          onDragStart: (e: DragEvent) => {
+            e.dataTransfer.setData('text/plain', String(index)); // needed to start a drag in Firefox
+            setDragIndex(index);
+          },
+          onDragOver: (e: DragEvent) => e.preventDefault(),
+          onDrop: () => {
+            if (dragIndex !== null && dragIndex !== index) moveGroup(dragIndex, index);
+            setDragIndex(null);
+          },
+          onDragEnd: () => setDragIndex(null),
+        };
+
+  const enemyName = (enemyId: number) =>
+    enemies.find((e) => e.id === enemyId)?.name ?? `Enemy ${enemyId}`;
+
+  return (
+    <div className="definition-card">
+      <div className="definition-header">
+        <h4 className="definition-name">
+          Wave {waveNumber}
+          {isNew && ' (new)'}
+        </h4>
+        <button className="btn btn-dark btn-sm wave-duplicate" onClick={onDuplicate}>
+          Duplicate
+        </button>
+      </div>
+
+      <div className="wave-preview">
+        <span>{enemyCount} enemies</span>
+        <span>Total HP (normal): {totalHealth.toLocaleString()}</span>
+        <span>
+          Est. duration:{' '}
+          {pathLength !== null
+            ? formatDuration(estimateWaveDuration(groups, enemies, pathLength))
+            : 'unknown'}
+        </span>
+      </div>
+
+      <div className="wave-timeline">
+        {groups.map((group, index) => (
+          <div
+            key={group.enemyId}
+            className={`wave-timeline-group ${dragIndex === index ? 'dragging' : ''}`}
+            style={{
+              flexGrow: Math.max(1, group.count * group.spawnDelayMs),
+              borderColor: enemies.find((e) => e.id === group.enemyId)?.color,
+            }}
+            title={`${enemyName(group.enemyId)}: ${group.count} from ${formatDuration(startTimes[index]!)}`}
+            {...dragProps(index)}
+          >
+            <img
+              src={getEnemyImage(group.enemyId)}
+              alt={enemyName(group.enemyId)}
+              className="piece-icon-small"
+            />
+            ×{group.count}
+          </div>
+        ))}
+      </div>
+
+      <div className="wave-groups">
+        {groups.map((group, index) => (
+          <div
+            key={group.enemyId}
+            className={`level-card wave-group ${dragIndex === index ? 'dragging' : ''}`}
+            {...dragProps(index)}
+          >
+            <div className="definition-header">
+              {!readOnly && <span className="wave-drag-handle">⠿</span>}
+              <img
+                src={getEnemyImage(group.enemyId)}
+                alt={enemyName(group.enemyId)}
+                className="piece-icon-small"
+              />
+              <h4 className="definition-name">{enemyName(group.enemyId)}</h4>
+              <span className="version-meta">from {formatDuration(startTimes[index]!)}</span>
+              <button
+                className="btn btn-dark btn-sm wave-remove"
+                onClick={() => onChange(groups.filter((_, i) => i !== index))}
+                disabled={groups.length === 1}
+                title={groups.length === 1 ? 'A wave needs at least one group' : undefined}
+              >
+                Remove
+              </button>
+            </div>
+            <div className="definition-fields">
+              <NumberField
+                label="Count (min 1):"
+                min={1}
+                value={group.count}
+                onChange={(v) => updateGroup(index, { count: v })}
+              />
+              <NumberField
+                label="Spawn Delay (ms):"
+                min={0}
+                step={50}
+                value={group.spawnDelayMs}
+                onChange={(v) => updateGroup(index, { spawnDelayMs: v })}
+              />
+              <SelectField
+                label="Difficulty Label:"
+                value={group.difficultyLabel}
+                options={[...new Set([...WAVE_DIFFICULTY_LABELS, group.difficultyLabel])]}
+                onChange={(v) => updateGroup(index, { difficultyLabel: v })}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {unusedEnemies.length > 0 && (
+        <div className="wave-add-group">
+          <select value={addEnemyId ?? ''} onChange={(e) => setNewEnemyId(Number(e.target.value))}>
+            {unusedEnemies.map((enemy) => (
+              <option key={enemy.id} value={enemy.id}>
+                {enemy.name}
+              </option>
+            ))}
+          </select>
+          <button className="btn btn-dark btn-sm" onClick={addGroup}>
+            Add Group
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
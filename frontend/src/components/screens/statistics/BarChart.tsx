@@ -0,0 +1,47 @@
+export interface BarChartItem {
+  key: string;
+  label: string;
+  value: number;
+  detail?: string; // shown after the value
+}
+
+interface BarChartProps {
+  items: BarChartItem[];
+  max?: number; // value of a full-width bar; the largest value by default
+  formatValue?: (value: number) => string;
+  emptyText?: string;
+}
+
+// Horizontal bars, one per item, in the given order
+export const BarChart = ({
+  items,
+  max,
+  formatValue = (value) => `${Math.round(value)}`,
+  emptyText = 'No data yet',
+}: BarChartProps) => {
+  if (items.length === 0) {
+    return <p className="statistics-empty">{emptyText}</p>;
+  }
+
+  const fullWidth = max ?? Math.max(...items.map((item) => item.value));
+
+  return (
+    <div className="bar-chart">
+      {items.map((item) => (
+        <div key={item.key} className="bar-chart-row">
+          <span className="bar-chart-label">{item.label}</span>
+          <div className="bar-chart-track">
+            <div
+              className="bar-chart-bar"
+              style={{ width: `${fullWidth > 0 ? (item.value / fullWidth) * 100 : 0}%` }}
+            />
+          </div>
+          <span className="bar-chart-value">
+            {formatValue(item.value)}
+            {item.detail && <span className="bar-chart-detail"> {item.detail}</span>}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import { capitalize } from '../../../utils/string';
+import type { TrendPoint } from '../../../types';
+
+export type TrendMetric = 'winRate' | 'avgWave';
+
+interface TrendChartProps {
+  points: TrendPoint[];
+  metric: TrendMetric;
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = 24;
+
+const formatMetric = (metric: TrendMetric, value: number) =>
+  metric === 'winRate' ? `${value.toFixed(0)}%` : value.toFixed(1);
+
+// One line per difficulty over the periods, oldest on the left
+export const TrendChart = ({ points, metric }: TrendChartProps) => {
+  if (points.length === 0) {
+    return <p className="statistics-empty">No games in this period</p>;
+  }
+
+  const periods = [...new Set(points.map((point) => point.period))].sort();
+  const difficulties = [...new Set(points.map((point) => point.difficulty ?? 'unknown'))];
+  // Win rates always scale to 100%, waves to the highest average
+  const maxValue = metric === 'winRate' ? 100 : Math.max(1, ...points.map((p) => p.avgWave));
+
+  const x = (period: string) =>
+    periods.length === 1
+      ? WIDTH / 2
+      : PADDING + (periods.indexOf(period) / (periods.length - 1)) * (WIDTH - 2 * PADDING);
+  const y = (value: number) => HEIGHT - PADDING - (value / maxValue) * (HEIGHT - 2 * PADDING);
+
+  return (
+    <div className="trend-chart">
+      <span className="trend-chart-max">{formatMetric(metric, maxValue)}</span>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`}>
+        <line className="trend-chart-axis" x1={0} x2={WIDTH} y1={y(0)} y2={y(0)} />
+        <line className="trend-chart-axis" x1={0} x2={WIDTH} y1={y(maxValue)} y2={y(maxValue)} />
+        {difficulties.map((difficulty) => {
+          const series = points.filter((point) => (point.difficulty ?? 'unknown') === difficulty);
+          return (
+            <g key={difficulty} className={`trend-chart-series ${difficulty}`}>
+              <polyline
+                points={series.map((point) => `${x(point.period)},${y(point[metric])}`).join(' ')}
+              />
+              {series.map((point) => (
+                <circle key={point.period} cx={x(point.period)} cy={y(point[metric])} r={4}>
+                  <title>
+                    {`${capitalize(difficulty)} ${point.period}: ${formatMetric(metric, point[metric])} (${point.games} games)`}
+                  </title>
+                </circle>
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+      <div className="trend-chart-footer">
+        <span>{periods[0]}</span>
+        <div className="trend-chart-legend">
+          {difficulties.map((difficulty) => (
+            <span key={difficulty} className={`trend-chart-key ${difficulty}`}>
+              {capitalize(difficulty)}
+            </span>
+          ))}
+        </div>
+        <span>{periods[periods.length - 1]}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import type { WaveDistributionPoint } from '../../../types';
+
+interface WaveDistributionChartProps {
+  points: WaveDistributionPoint[];
+}
+
+// One column per final wave reached, its won games in a separate colour
+export const WaveDistributionChart = ({ points }: WaveDistributionChartProps) => {
+  if (points.length === 0) {
+    return <p className="statistics-empty">No games yet</p>;
+  }
+
+  const maxGames = Math.max(...points.map((point) => point.games));
+
+  return (
+    <div className="wave-chart">
+      {points.map((point) => (
+        <div
+          key={point.wave}
+          className="wave-chart-column"
+          title={`Wave ${point.wave}: ${point.games} games, ${point.wins} won`}
+        >
+          <div className="wave-chart-bar" style={{ height: `${(point.games / maxGames) * 100}%` }}>
+            <div
+              className="wave-chart-wins"
+              style={{ height: `${(point.wins / point.games) * 100}%` }}
+            />
+          </div>
+          <span className="wave-chart-label">{point.wave}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
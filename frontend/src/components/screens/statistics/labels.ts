@@ -0,0 +1,10 @@
+import type { EnemyDefinition, TowerDefinition } from '../../../types';
+
+// Statistics key towers and enemies by ID; show their current name, or the ID once removed
+export const getTowerLabel = (towers: TowerDefinition[], key: string): string =>
+  towers.find((tower) => `${tower.id}` === key)?.name ?? `Tower ${key}`;
+
+export const getEnemyLabel = (enemies: EnemyDefinition[], key: string): string =>
+  enemies.find((enemy) => `${enemy.id}` === key)?.name ?? `Enemy ${key}`;
+
+export const formatPercent = (value: number): string => `${value.toFixed(0)}%`;
@@ -15,6 +15,10 @@ export const GAME_CONFIG = {
   // Projectile settings
   PROJECTILE_SPEED: 400, // pixels per second
   PROJECTILE_SIZE: 6,
+  PROJECTILE_HIT_THRESHOLD: 10, // pixels
+
+  // Towers target the nearest enemy until the player picks another mode
+  DEFAULT_TARGETING_MODE: 'closest',
 
   // Game loop
   FPS: 60,
@@ -24,9 +28,6 @@ export const GAME_CONFIG = {
   INITIAL_COINS: 200,
   INITIAL_LIVES: 10,
 
-  // Tower placement zones (prevent placing in enemy path)
-  RESTRICTED_ROWS: [4, 5] as const, // Middle rows reserved for enemy path
-
   // UI
   HUD_HEIGHT: 80,
   TOWER_PANEL_WIDTH: 250,
@@ -69,16 +70,4 @@ export class CanvasState {
     this._offsetX = width * 0.05;
     this._offsetY = height * 0.05;
   }
-
-  static getEnemyPathY(): number {
-    return (GAME_CONFIG.RESTRICTED_ROWS[0] ?? 4) * this._gridSize + this._gridSize;
-  }
-
-  static getSpawnX(): number {
-    return -this._gridSize;
-  }
-
-  static getDespawnX(): number {
-    return this._width + this._gridSize;
-  }
 }
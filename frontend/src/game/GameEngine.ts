@@ -3,6 +3,7 @@
  * - Runs 60 FPS ticker
  * - Calls systems in order (Enemy -> Tower -> Projectile -> Collision)
  * - Forwards input events to gameStore
+ * - Steps recorded replays (playback, pause, speed, seek)
  * - Triggers rendering
  *
  * NO: State changes, validation, API calls, game rules
@@ -15,6 +16,10 @@ import { ProjectileSystem } from './systems/ProjectileSystem';
 import { CollisionSystem } from './systems/CollisionSystem';
 import { GridManager } from './managers/GridManager';
 import { useGameStore } from '../state/gameStore';
+import { isEnemyRevealed } from '../utils/mutators';
+
+// Fixed step used to fast-forward a replay when seeking (one 60 FPS frame)
+const SEEK_STEP_MS = 1000 / 60;
 
 export class GameEngine {
   private app: Application;
@@ -89,8 +94,10 @@ export class GameEngine {
 
   private findEnemyAtPosition(gameX: number, gameY: number): import('../types').Enemy | null {
     const HIT_RADIUS = 20;
-    const enemies = useGameStore.getState().enemies;
+    const { enemies, towers, mutators } = useGameStore.getState();
     for (const enemy of enemies) {
+      // Enemies hidden by fog of war cannot be picked
+      if (!isEnemyRevealed(enemy, towers, mutators)) continue;
       const dx = gameX - enemy.x;
       const dy = gameY - enemy.y;
       if (dx * dx + dy * dy <= HIT_RADIUS * HIT_RADIUS) {
@@ -101,13 +108,16 @@ export class GameEngine {
   }
 
   private handleGridClick(gridX: number, gridY: number): void {
+    // Replays are read-only
+    if (useGameStore.getState().replay) return;
+
     // Forward to store - all validation happens there
     useGameStore.getState().handleTowerPlacement(gridX, gridY);
   }
 
   start(): void {
     this.isRunning = true;
-    this.renderer.initialize();
+    this.renderer.initialize(useGameStore.getState().currentMap);
     this.app.ticker.add(this.gameLoop, this);
   }
 
@@ -119,7 +129,7 @@ export class GameEngine {
 
   handleResize(): void {
     // Re-render the grid with new canvas dimensions
-    this.renderer.updateGrid();
+    this.renderer.updateGrid(useGameStore.getState().currentMap);
 
     // Reposition all entities based on their grid coordinates
     useGameStore.getState().repositionEntitiesAfterResize();
@@ -129,15 +139,51 @@ export class GameEngine {
     this.renderer.renderEnemies(useGameStore.getState().enemies);
   }
 
+  /**
+   * Fast-forward the loaded replay to the given game time. The simulation only
+   * runs forwards, so seeking backwards restarts the replay first.
+   */
+  seekReplay(targetTime: number): void {
+    const { replay, loadReplay, gameTime } = useGameStore.getState();
+    if (!replay) return;
+
+    if (targetTime < gameTime) loadReplay(replay);
+    while (useGameStore.getState().gameTime < targetTime) {
+      this.update(SEEK_STEP_MS);
+    }
+    this.render();
+  }
+
   private gameLoop(ticker: Ticker): void {
     if (!this.isRunning) return;
 
     const state = useGameStore.getState();
-    const deltaTime = ticker.deltaMS * state.gameSpeed;
+    if (state.replay) {
+      // Recorded games stop at the end of their log
+      if (!state.replayPaused && state.gameTime >= state.replay.duration) {
+        state.setReplayPaused(true);
+      }
+      if (!state.replayPaused) {
+        this.update(ticker.deltaMS * state.replaySpeed);
+      }
+    } else if (!state.isPaused) {
+      // Play time is real time, game time runs faster at higher speeds
+      state.updatePlayTime(ticker.deltaMS);
+      this.update(ticker.deltaMS * state.gameSpeed);
+    }
+
+    this.render();
+  }
+
+  private update(deltaTime: number): void {
+    const state = useGameStore.getState();
 
     // Update game time
     state.updateGameTime(deltaTime);
 
+    // Replay the recorded actions that are due (builds, upgrades, sells, waves)
+    state.applyReplayActions();
+
     // Process spawn queue (respects gameSpeed via deltaTime)
     state.processSpawnQueue(deltaTime);
 
@@ -150,6 +196,10 @@ export class GameEngine {
     // Check game rules (handled by store)
     state.checkGameOver();
     state.checkWaveComplete();
+  }
+
+  private render(): void {
+    const state = useGameStore.getState();
 
     // Render all entities
     this.renderer.renderTowers(state.towers);
@@ -162,7 +212,8 @@ export class GameEngine {
       const isValid = this.gridManager.isValidPlacement(
         this.mouseGridX,
         this.mouseGridY,
-        state.towers
+        state.towers,
+        state.currentMap?.blockedCells ?? []
       );
 
       if (towerDef) {
@@ -1,6 +1,9 @@
 import { describe, test, expect, beforeEach } from 'vitest';
 import { GridManager } from './GridManager';
 import { CanvasState } from '../../config/gameConfig';
+import { DEFAULT_PROJECTILE_STATS } from '../../utils/projectiles';
+import { DEFAULT_EFFECT_STATS } from '../../utils/statusEffects';
+import type { GridCell } from '../../types';
 
 describe('GridManager Coordinate Transformations', () => {
   let gridManager: GridManager;
@@ -151,23 +154,35 @@ describe('GridManager Coordinate Transformations', () => {
   });
 
   describe('isValidPlacement', () => {
+    // Straight lane through rows 4-5 (default map)
+    const blockedCells: GridCell[] = [];
+    for (let gridX = 0; gridX < 20; gridX++) {
+      blockedCells.push({ gridX, gridY: 4 }, { gridX, gridY: 5 });
+    }
+
     test('rejects placement outside grid bounds', () => {
-      expect(gridManager.isValidPlacement(-1, 0, [])).toBe(false);
-      expect(gridManager.isValidPlacement(0, -1, [])).toBe(false);
-      expect(gridManager.isValidPlacement(20, 0, [])).toBe(false);
-      expect(gridManager.isValidPlacement(0, 10, [])).toBe(false);
+      expect(gridManager.isValidPlacement(-1, 0, [], blockedCells)).toBe(false);
+      expect(gridManager.isValidPlacement(0, -1, [], blockedCells)).toBe(false);
+      expect(gridManager.isValidPlacement(20, 0, [], blockedCells)).toBe(false);
+      expect(gridManager.isValidPlacement(0, 10, [], blockedCells)).toBe(false);
+    });
+
+    test('rejects placement on cells blocked by the map', () => {
+      expect(gridManager.isValidPlacement(10, 4, [], blockedCells)).toBe(false);
+      expect(gridManager.isValidPlacement(10, 5, [], blockedCells)).toBe(false);
     });
 
-    test('rejects placement on restricted rows (4-5)', () => {
-      expect(gridManager.isValidPlacement(10, 4, [])).toBe(false);
-      expect(gridManager.isValidPlacement(10, 5, [])).toBe(false);
+    test('accepts path rows when the map does not block them', () => {
+      expect(gridManager.isValidPlacement(10, 4, [], [])).toBe(true);
+      expect(gridManager.isValidPlacement(3, 1, [], [{ gridX: 3, gridY: 2 }])).toBe(true);
+      expect(gridManager.isValidPlacement(3, 2, [], [{ gridX: 3, gridY: 2 }])).toBe(false);
     });
 
     test('accepts placement on valid cells', () => {
-      expect(gridManager.isValidPlacement(0, 0, [])).toBe(true);
-      expect(gridManager.isValidPlacement(19, 9, [])).toBe(true);
-      expect(gridManager.isValidPlacement(10, 3, [])).toBe(true);
-      expect(gridManager.isValidPlacement(10, 6, [])).toBe(true);
+      expect(gridManager.isValidPlacement(0, 0, [], blockedCells)).toBe(true);
+      expect(gridManager.isValidPlacement(19, 9, [], blockedCells)).toBe(true);
+      expect(gridManager.isValidPlacement(10, 3, [], blockedCells)).toBe(true);
+      expect(gridManager.isValidPlacement(10, 6, [], blockedCells)).toBe(true);
     });
 
     test('rejects placement on occupied cells', () => {
@@ -176,17 +191,27 @@ describe('GridManager Coordinate Transformations', () => {
           id: 'tower1',
           towerId: 1,
           level: 1,
+          branch: '',
           gridX: 5,
           gridY: 3,
           x: 100,
           y: 100,
-          stats: { cost: 0, damage: 0, range: 0, fireRate: 0 },
+          stats: {
+            cost: 0,
+            damage: 0,
+            range: 0,
+            fireRate: 0,
+            damageType: 'pierce' as const,
+            ...DEFAULT_PROJECTILE_STATS,
+            ...DEFAULT_EFFECT_STATS,
+          },
+          targetingMode: 'closest' as const,
           lastFireTime: 0,
         },
       ];
 
-      expect(gridManager.isValidPlacement(5, 3, towers)).toBe(false);
-      expect(gridManager.isValidPlacement(5, 2, towers)).toBe(true);
+      expect(gridManager.isValidPlacement(5, 3, towers, blockedCells)).toBe(false);
+      expect(gridManager.isValidPlacement(5, 2, towers, blockedCells)).toBe(true);
     });
   });
 });
@@ -1,5 +1,5 @@
 import { GAME_CONFIG, CanvasState } from '../../config/gameConfig';
-import type { Tower } from '../../types';
+import type { Tower, GridCell } from '../../types';
 
 export class GridManager {
   gridToPixel(gridX: number, gridY: number): { x: number; y: number } {
@@ -18,7 +18,12 @@ export class GridManager {
     };
   }
 
-  isValidPlacement(gridX: number, gridY: number, towers: Tower[]): boolean {
+  isValidPlacement(
+    gridX: number,
+    gridY: number,
+    towers: Tower[],
+    blockedCells: GridCell[]
+  ): boolean {
     // Check bounds
     if (
       gridX < 0 ||
@@ -29,8 +34,8 @@ export class GridManager {
       return false;
     }
 
-    // Check restricted rows
-    if ((GAME_CONFIG.RESTRICTED_ROWS as readonly number[]).includes(gridY)) {
+    // Check cells blocked by the map (enemy path)
+    if (blockedCells.some((c) => c.gridX === gridX && c.gridY === gridY)) {
       return false;
     }
 
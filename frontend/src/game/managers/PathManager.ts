@@ -1,26 +1,64 @@
 import { CanvasState } from '../../config/gameConfig';
+import type { MapPoint } from '../../types';
 
+/**
+ * Enemy movement along the map's waypoint polyline.
+ * Progress is tracked in grid units so it survives canvas resizes;
+ * pixel positions are derived from it with the current grid size.
+ */
 export class PathManager {
+  private waypoints: MapPoint[];
+
+  constructor(waypoints: MapPoint[]) {
+    this.waypoints = waypoints;
+  }
+
+  getPathLength(): number {
+    let length = 0;
+    for (let i = 0; i < this.waypoints.length - 1; i++) {
+      const a = this.waypoints[i]!;
+      const b = this.waypoints[i + 1]!;
+      length += Math.hypot(b.x - a.x, b.y - a.y);
+    }
+    return length;
+  }
+
+  getPositionAtProgress(progress: number): { x: number; y: number } {
+    const gridSize = CanvasState.gridSize;
+    let remaining = Math.max(0, progress);
+
+    for (let i = 0; i < this.waypoints.length - 1; i++) {
+      const a = this.waypoints[i]!;
+      const b = this.waypoints[i + 1]!;
+      const segLength = Math.hypot(b.x - a.x, b.y - a.y);
+      if (segLength > 0 && remaining <= segLength) {
+        const t = remaining / segLength;
+        return {
+          x: (a.x + (b.x - a.x) * t) * gridSize,
+          y: (a.y + (b.y - a.y) * t) * gridSize,
+        };
+      }
+      remaining -= segLength;
+    }
+
+    const last = this.waypoints[this.waypoints.length - 1] ?? { x: 0, y: 0 };
+    return { x: last.x * gridSize, y: last.y * gridSize };
+  }
+
   getSpawnPosition(): { x: number; y: number } {
-    return {
-      x: CanvasState.getSpawnX(),
-      y: CanvasState.getEnemyPathY(),
-    };
+    return this.getPositionAtProgress(0);
   }
 
   getEndPosition(): { x: number; y: number } {
-    return {
-      x: CanvasState.getDespawnX(),
-      y: CanvasState.getEnemyPathY(),
-    };
+    return this.getPositionAtProgress(this.getPathLength());
   }
 
-  hasReachedEnd(x: number): boolean {
-    return x >= CanvasState.getDespawnX();
+  hasReachedEnd(progress: number): boolean {
+    return progress >= this.getPathLength();
   }
 
-  updatePosition(currentX: number, speed: number, deltaTime: number): number {
+  updateProgress(currentProgress: number, speed: number, deltaTime: number): number {
     // speed is in pixels/second, deltaTime is in milliseconds
-    return currentX + (speed * deltaTime) / 1000;
+    return currentProgress + (speed * deltaTime) / 1000 / CanvasState.gridSize;
   }
 }
@@ -1,10 +1,15 @@
 import { Application, Container, Graphics, Point } from 'pixi.js';
-import type { Tower, Enemy, Projectile, TowerDefinition } from '../../types';
+import type { Tower, Enemy, Projectile, TowerDefinition, MapDefinition } from '../../types';
 import { SpriteFactory } from './SpriteFactory';
 import { HealthBarRenderer } from './HealthBarRenderer';
 import { GAME_CONFIG, CanvasState } from '../../config/gameConfig';
 import { useGameStore } from '../../state/gameStore';
 import { LEVEL_COLORS } from '../../utils/pieceAssets';
+import { DEFAULT_PROJECTILE_STATS } from '../../utils/projectiles';
+import { DEFAULT_EFFECT_STATS } from '../../utils/statusEffects';
+import { getPatternCells } from '../../utils/attackPatterns';
+import { isEnemyRevealed } from '../../utils/mutators';
+import { MAIN_BRANCH } from '../../utils/upgradeTree';
 
 export class PixiRenderer {
   private app: Application;
@@ -59,8 +64,8 @@ export class PixiRenderer {
     this.updateCanvasDimensions();
   }
 
-  initialize(): void {
-    this.renderGrid();
+  initialize(map: MapDefinition | null): void {
+    this.renderGrid(map);
   }
 
   updateCanvasDimensions(): void {
@@ -76,11 +81,11 @@ export class PixiRenderer {
     return { x: point.x, y: point.y };
   }
 
-  updateGrid(): void {
+  updateGrid(map: MapDefinition | null): void {
     // Clear existing grid layer
     this.gridLayer.removeChildren();
     // Re-render grid with current canvas dimensions
-    this.renderGrid();
+    this.renderGrid(map);
     // Update gameContainer position for new canvas size
     this.updateCanvasDimensions();
   }
@@ -104,11 +109,12 @@ export class PixiRenderer {
     this.uiLayer.destroy({ children: true });
   }
 
-  renderGrid(): void {
-    const { GRID_COLS, GRID_ROWS, RESTRICTED_ROWS } = GAME_CONFIG;
+  renderGrid(map: MapDefinition | null): void {
+    const { GRID_COLS, GRID_ROWS } = GAME_CONFIG;
     const gridSize = CanvasState.gridSize;
     const gridWidth = GRID_COLS * gridSize;
     const gridHeight = GRID_ROWS * gridSize;
+    const blockedCells = new Set((map?.blockedCells ?? []).map((c) => `${c.gridX},${c.gridY}`));
 
     // Draw board background (full canvas, added to gridLayer which is child of gameContainer)
     const background = new Graphics();
@@ -133,14 +139,13 @@ export class PixiRenderer {
     const pathDarkSquare = 0xb8c5d9; // Light blue-gray
 
     for (let row = 0; row < GRID_ROWS; row++) {
-      const isPathRow = (RESTRICTED_ROWS as readonly number[]).includes(row);
-
       for (let col = 0; col < GRID_COLS; col++) {
         const isLight = (row + col) % 2 === 0;
+        const isPathCell = blockedCells.has(`${col},${row}`);
 
         // Choose color based on whether it's the enemy path or tower placement area
         let color: number;
-        if (isPathRow) {
+        if (isPathCell) {
           color = isLight ? pathLightSquare : pathDarkSquare;
         } else {
           color = isLight ? towerLightSquare : towerDarkSquare;
@@ -156,7 +161,7 @@ export class PixiRenderer {
 
         // Add subtle border to each square for better definition
         boardGraphics.rect(x, y, gridSize, gridSize);
-        const borderColor = isPathRow ? 0xa0aec0 : 0x1e293b;
+        const borderColor = isPathCell ? 0xa0aec0 : 0x1e293b;
         boardGraphics.stroke({ width: 0.5, color: borderColor, alpha: 0.3 });
       }
     }
@@ -171,30 +176,32 @@ export class PixiRenderer {
     innerBorder.rect(2, 2, gridWidth - 4, gridHeight - 4); // NO OFFSET
     innerBorder.stroke({ width: 1, color: 0x64748b, alpha: 0.4 });
 
-    // Highlight restricted zone (enemy path) with subtle directional indicators
-    const restrictedGraphics = new Graphics();
-    const restrictedRow = GAME_CONFIG.RESTRICTED_ROWS[0];
-    if (restrictedRow !== undefined) {
-      const pathY = restrictedRow * gridSize; // NO OFFSET
-      const pathHeight = 2 * gridSize;
-
-      // Dashed border lines at top and bottom of path
-      const dashLength = 15;
-      const gapLength = 10;
-
-      for (let x = 0; x < gridWidth; x += dashLength + gapLength) {
-        // Top border - NO OFFSET
-        restrictedGraphics.moveTo(x, pathY);
-        restrictedGraphics.lineTo(Math.min(x + dashLength, gridWidth), pathY);
-
-        // Bottom border - NO OFFSET
-        restrictedGraphics.moveTo(x, pathY + pathHeight);
-        restrictedGraphics.lineTo(Math.min(x + dashLength, gridWidth), pathY + pathHeight);
+    // Dashed line along the enemy path (waypoints clamped to the board)
+    const pathGraphics = new Graphics();
+    const waypoints = (map?.waypoints ?? []).map((p) => ({
+      x: Math.min(Math.max(p.x * gridSize, 0), gridWidth), // NO OFFSET
+      y: Math.min(Math.max(p.y * gridSize, 0), gridHeight),
+    }));
+    const dashLength = 15;
+    const gapLength = 10;
+
+    for (let i = 0; i < waypoints.length - 1; i++) {
+      const a = waypoints[i]!;
+      const b = waypoints[i + 1]!;
+      const segLength = Math.hypot(b.x - a.x, b.y - a.y);
+      if (segLength === 0) continue;
+      const ux = (b.x - a.x) / segLength;
+      const uy = (b.y - a.y) / segLength;
+
+      for (let d = 0; d < segLength; d += dashLength + gapLength) {
+        const dashEnd = Math.min(d + dashLength, segLength);
+        pathGraphics.moveTo(a.x + ux * d, a.y + uy * d);
+        pathGraphics.lineTo(a.x + ux * dashEnd, a.y + uy * dashEnd);
       }
-
-      restrictedGraphics.stroke({ width: 2, color: 0x94a3b8, alpha: 0.6 });
     }
 
+    pathGraphics.stroke({ width: 2, color: 0x94a3b8, alpha: 0.6 });
+
     // Draw subtle grid lines for reference (less prominent)
     const gridLines = new Graphics();
 
@@ -215,7 +222,7 @@ export class PixiRenderer {
       background,
       boardGraphics,
       gridLines,
-      restrictedGraphics,
+      pathGraphics,
       boardBorder,
       innerBorder
     );
@@ -245,6 +252,13 @@ export class PixiRenderer {
       onAdd: (enemy) => this.addEnemySprite(enemy),
       onUpdate: (enemy) => this.updateEnemySprite(enemy),
     });
+
+    // Fog of war (mutator) hides enemies outside every tower's range
+    const { towers, mutators } = useGameStore.getState();
+    for (const enemy of enemies) {
+      const sprite = this.enemySprites.get(enemy.id);
+      if (sprite) sprite.visible = isEnemyRevealed(enemy, towers, mutators);
+    }
   }
 
   renderProjectiles(projectiles: Projectile[]): void {
@@ -356,11 +370,16 @@ export class PixiRenderer {
 
   private addEnemySprite(enemy: Enemy): void {
     const sprite = this.spriteFactory.createEnemySprite(enemy);
+    // Piece type, so promoted enemies can be redrawn
+    sprite.label = `enemy-${enemy.enemyId}`;
 
     // Add health bar
     const healthBar = this.healthBarRenderer.createHealthBar();
     sprite.addChild(healthBar);
 
+    // Status effect dots, redrawn every update
+    sprite.addChild(this.spriteFactory.createStatusIndicator());
+
     sprite.position.set(enemy.x, enemy.y);
     this.enemyLayer.addChild(sprite);
     this.enemySprites.set(enemy.id, sprite);
@@ -370,6 +389,12 @@ export class PixiRenderer {
     const sprite = this.enemySprites.get(enemy.id);
     if (!sprite) return;
 
+    if (sprite.label !== `enemy-${enemy.enemyId}`) {
+      sprite.destroy({ children: true });
+      this.addEnemySprite(enemy);
+      return;
+    }
+
     sprite.position.set(enemy.x, enemy.y);
 
     // Update health bar
@@ -377,11 +402,19 @@ export class PixiRenderer {
     if (healthBar) {
       this.healthBarRenderer.updateHealthBar(healthBar, enemy.health, enemy.maxHealth);
     }
+
+    const statusIndicator = sprite.children.find((child) => child.label === 'statusIndicator');
+    if (statusIndicator instanceof Graphics) {
+      this.spriteFactory.updateStatusIndicator(statusIndicator, enemy.statusEffects);
+    }
   }
 
   private addProjectileSprite(projectile: Projectile): void {
-    const sprite = this.spriteFactory.createProjectileSprite();
+    const sprite = this.spriteFactory.createProjectileSprite(projectile.projectileType);
     sprite.position.set(projectile.x, projectile.y);
+    if (projectile.projectileType === 'pierce') {
+      sprite.rotation = Math.atan2(projectile.dirY, projectile.dirX);
+    }
     this.projectileLayer.addChild(sprite);
     this.projectileSprites.set(projectile.id, sprite);
   }
@@ -421,29 +454,27 @@ export class PixiRenderer {
     // Create tower preview sprite
     // Get level 1 stats for this tower type to show preview stats
     const level1 = useGameStore.getState().getTowerLevelStats(towerDef.id, 1);
-    const previewStats = level1
-      ? {
-          cost: level1.cost,
-          damage: level1.damage,
-          range: level1.range,
-          fireRate: level1.fireRate,
-        }
-      : {
-          cost: 0,
-          damage: 0,
-          range: 0,
-          fireRate: 0,
-        };
+    const previewStats = level1 ?? {
+      cost: 0,
+      damage: 0,
+      range: 0,
+      fireRate: 0,
+      damageType: 'pierce' as const,
+      ...DEFAULT_PROJECTILE_STATS,
+      ...DEFAULT_EFFECT_STATS,
+    };
 
     const towerSprite = this.spriteFactory.createTowerSprite({
       id: 'preview',
       towerId: towerDef.id,
       level: 1,
+      branch: MAIN_BRANCH,
       stats: previewStats,
       gridX,
       gridY,
       x: pixelPos.x,
       y: pixelPos.y,
+      targetingMode: GAME_CONFIG.DEFAULT_TARGETING_MODE,
       lastFireTime: 0,
     });
 
@@ -460,21 +491,37 @@ export class PixiRenderer {
 
     this.previewContainer.addChild(towerSprite);
 
-    // Draw range indicator circle centered at the tower position
+    // Draw the range: a circle centered at the tower, or the cells its chess
+    // pattern can hit (NO OFFSET - relative to gameContainer)
+    const gridSize = CanvasState.gridSize;
     this.rangeIndicator = new Graphics();
-    this.rangeIndicator.circle(0, 0, previewStats.range);
+    if (towerDef.attackPattern === 'radius') {
+      this.rangeIndicator.circle(0, 0, previewStats.range);
+      this.rangeIndicator.position.set(pixelPos.x, pixelPos.y);
+    } else {
+      const cells = getPatternCells(
+        towerDef.attackPattern,
+        gridX,
+        gridY,
+        previewStats.range,
+        gridSize,
+        GAME_CONFIG.GRID_COLS,
+        GAME_CONFIG.GRID_ROWS
+      );
+      for (const cell of cells) {
+        this.rangeIndicator.rect(cell.gridX * gridSize, cell.gridY * gridSize, gridSize, gridSize);
+      }
+    }
     this.rangeIndicator.stroke({
       width: 2,
       color: isValid ? 0x00ff00 : 0xff0000,
       alpha: 0.3,
     });
     this.rangeIndicator.fill({ color: isValid ? 0x00ff00 : 0xff0000, alpha: 0.1 });
-    this.rangeIndicator.position.set(pixelPos.x, pixelPos.y);
 
     this.previewContainer.addChild(this.rangeIndicator);
 
     // Draw grid cell highlight (NO OFFSET - relative to gameContainer)
-    const gridSize = CanvasState.gridSize;
     const cellHighlight = new Graphics();
     cellHighlight.rect(gridX * gridSize, gridY * gridSize, gridSize, gridSize);
     cellHighlight.fill({
@@ -1,9 +1,23 @@
 import { Container, Graphics, Sprite, Texture } from 'pixi.js';
-import type { Tower, Enemy, EnemyDefinition } from '../../types';
+import type {
+  Tower,
+  Enemy,
+  EnemyDefinition,
+  ProjectileType,
+  StatusEffect,
+  StatusEffectType,
+} from '../../types';
 import { useGameStore } from '../../state/gameStore';
 import { AssetLoader } from '../managers/AssetLoader';
 import { TOWER_PIECE_MAP, ENEMY_PIECE_MAP, LEVEL_COLORS } from '../../utils/pieceAssets';
 
+const STATUS_EFFECT_COLORS: Record<StatusEffectType, number> = {
+  slow: 0x4da6ff,
+  poison: 0x5bd75b,
+  stun: 0xffe14d,
+  shred: 0xff8c42,
+};
+
 export class SpriteFactory {
   createTowerSprite(tower: Tower): Container {
     const container = new Container();
@@ -79,10 +93,51 @@ export class SpriteFactory {
     return container;
   }
 
-  createProjectileSprite(): Graphics {
+  // Row of dots above the health bar, one per active effect type
+  createStatusIndicator(): Graphics {
     const graphics = new Graphics();
-    graphics.circle(0, 0, 3);
-    graphics.fill({ color: 0xffd700 });
+    graphics.label = 'statusIndicator';
+    graphics.position.set(0, -38);
+    return graphics;
+  }
+
+  updateStatusIndicator(indicator: Graphics, effects: StatusEffect[]): void {
+    indicator.clear();
+
+    const types = [...new Set(effects.map((e) => e.type))];
+    const dotSpacing = 8;
+    const startX = -((types.length - 1) * dotSpacing) / 2;
+
+    types.forEach((type, i) => {
+      indicator.circle(startX + i * dotSpacing, 0, 3);
+      indicator.fill({ color: STATUS_EFFECT_COLORS[type] });
+    });
+  }
+
+  createProjectileSprite(projectileType: ProjectileType): Graphics {
+    const graphics = new Graphics();
+    switch (projectileType) {
+      case 'splash':
+        graphics.circle(0, 0, 5);
+        graphics.fill({ color: 0xff8c00 });
+        graphics.circle(0, 0, 8);
+        graphics.fill({ color: 0xff8c00, alpha: 0.3 });
+        break;
+      case 'chain':
+        graphics.circle(0, 0, 4);
+        graphics.fill({ color: 0x7df9ff });
+        graphics.circle(0, 0, 7);
+        graphics.fill({ color: 0x7df9ff, alpha: 0.35 });
+        break;
+      case 'pierce':
+        // Drawn along the x axis; the renderer rotates it to the flight direction
+        graphics.rect(-8, -1.5, 16, 3);
+        graphics.fill({ color: 0xffffff });
+        break;
+      default:
+        graphics.circle(0, 0, 3);
+        graphics.fill({ color: 0xffd700 });
+    }
     return graphics;
   }
 
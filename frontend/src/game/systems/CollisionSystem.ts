@@ -1,42 +1,135 @@
 import { useGameStore } from '../../state/gameStore';
 import { distance } from '../../utils/math';
+import { calculateDamage } from '../../utils/damage';
+import { CHAIN_DAMAGE_FALLOFF, splashDamage } from '../../utils/projectiles';
+import { applyStatusEffect, getEffectiveArmor } from '../../utils/statusEffects';
+import { getAuraBonus } from '../../utils/abilities';
+import { GAME_CONFIG } from '../../config/gameConfig';
+import type { Enemy, Projectile } from '../../types';
 
 export class CollisionSystem {
-  private readonly HIT_THRESHOLD = 10; // pixels
+  private readonly HIT_THRESHOLD = GAME_CONFIG.PROJECTILE_HIT_THRESHOLD;
+  private nextBounceId = 0;
 
   update(): void {
     const state = useGameStore.getState();
     const projectiles = state.projectiles;
-    const enemies = state.enemies;
 
     for (const projectile of projectiles) {
-      const target = enemies.find((e) => e.id === projectile.targetId);
+      if (projectile.projectileType === 'pierce') {
+        this.resolvePierce(projectile);
+        continue;
+      }
+
+      const target = useGameStore.getState().enemies.find((e) => e.id === projectile.targetId);
       if (!target) continue;
 
       // Check collision
       const dist = distance(projectile.x, projectile.y, target.x, target.y);
 
       if (dist < this.HIT_THRESHOLD) {
-        // Apply damage
-        const newHealth = target.health - projectile.damage;
-        state.updateEnemy(target.id, { health: newHealth });
-
         // Remove projectile
         state.removeProjectile(projectile.id);
 
-        // Check if enemy died
-        if (newHealth <= 0) {
-          // Auto-deselect if this enemy was selected
-          if (state.selectedEnemy?.id === target.id) {
-            state.selectEnemy(null);
+        this.applyHit(target.id, projectile.damage, projectile);
+
+        // Splash: nearby enemies take damage that falls off with distance
+        if (projectile.projectileType === 'splash') {
+          for (const enemy of useGameStore.getState().enemies) {
+            if (enemy.id === target.id) continue;
+            const damage = splashDamage(
+              projectile.damage,
+              distance(target.x, target.y, enemy.x, enemy.y),
+              projectile.splashRadius
+            );
+            if (damage > 0) this.applyHit(enemy.id, damage, projectile);
           }
-          state.removeEnemy(target.id);
-          state.addCoinsFromBackend(target.scaledReward ?? target.definition.reward);
-          state.incrementEnemiesKilled();
-          state.incrementWaveEnemiesDealt();
+        }
+
+        if (projectile.projectileType === 'chain' && projectile.bouncesLeft > 0) {
+          this.bounce(projectile, target);
         }
       }
     }
   }
 
+  // Pierce: damage every new enemy the shot passes over until it runs out
+  private resolvePierce(projectile: Projectile): void {
+    const state = useGameStore.getState();
+    const hitEnemyIds = [...projectile.hitEnemyIds];
+    let piercesLeft = projectile.piercesLeft;
+
+    for (const enemy of state.enemies) {
+      if (hitEnemyIds.includes(enemy.id)) continue;
+      if (distance(projectile.x, projectile.y, enemy.x, enemy.y) >= this.HIT_THRESHOLD) continue;
+
+      this.applyHit(enemy.id, projectile.damage, projectile);
+      hitEnemyIds.push(enemy.id);
+      if (piercesLeft-- <= 0) {
+        state.removeProjectile(projectile.id);
+        return;
+      }
+    }
+
+    if (projectile.travelLeft <= 0) {
+      state.removeProjectile(projectile.id);
+    } else {
+      state.updateProjectile(projectile.id, { hitEnemyIds, piercesLeft });
+    }
+  }
+
+  // Chain: jump to the nearest enemy not yet hit, within chain range of the last hit
+  private bounce(projectile: Projectile, from: Enemy): void {
+    const hitEnemyIds = [...projectile.hitEnemyIds, from.id];
+    let next: Enemy | null = null;
+    let nextDist = projectile.chainRange;
+
+    for (const enemy of useGameStore.getState().enemies) {
+      if (hitEnemyIds.includes(enemy.id)) continue;
+      const dist = distance(from.x, from.y, enemy.x, enemy.y);
+      if (dist <= nextDist) {
+        next = enemy;
+        nextDist = dist;
+      }
+    }
+    if (!next) return;
+
+    useGameStore.getState().addProjectile({
+      ...projectile,
+      id: `bounce-${this.nextBounceId++}`,
+      x: from.x,
+      y: from.y,
+      targetId: next.id,
+      damage: projectile.damage * CHAIN_DAMAGE_FALLOFF,
+      bouncesLeft: projectile.bouncesLeft - 1,
+      hitEnemyIds,
+    });
+  }
+
+  // One hit after (shredded, aura-boosted) armor and resistances, then the shot's status effect
+  private applyHit(enemyId: string, rawDamage: number, projectile: Projectile): void {
+    const state = useGameStore.getState();
+    const target = state.enemies.find((e) => e.id === enemyId);
+    if (!target) return;
+
+    const { armorBonus } = getAuraBonus(target, state.enemies);
+    const armor = getEffectiveArmor(target.definition.armor + armorBonus, target.statusEffects);
+    const damage = calculateDamage(rawDamage, projectile.damageType, {
+      armor,
+      resistances: target.definition.resistances,
+    });
+    state.damageEnemy(target.id, damage, projectile.towerId);
+
+    if (projectile.effectType && target.health > damage) {
+      state.updateEnemy(target.id, {
+        statusEffects: applyStatusEffect(
+          target.statusEffects,
+          projectile.effectType,
+          projectile.effectStrength,
+          projectile.effectDuration,
+          state.gameTime
+        ),
+      });
+    }
+  }
 }
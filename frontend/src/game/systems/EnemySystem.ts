@@ -1,36 +1,106 @@
 import { PathManager } from '../managers/PathManager';
+import { CanvasState } from '../../config/gameConfig';
 import { useGameStore } from '../../state/gameStore';
+import { getSpeedMultiplier, tickStatusEffects } from '../../utils/statusEffects';
+import { diagonalWaypoints, getAuraBonus, shouldPromote } from '../../utils/abilities';
+import { getEnemyRegenerationRate, getEnemySpeedMultiplier } from '../../utils/mutators';
+import type { Enemy } from '../../types';
 
 export class EnemySystem {
-  private pathManager: PathManager;
-
-  constructor() {
-    this.pathManager = new PathManager();
-  }
-
   update(deltaTime: number): void {
     const state = useGameStore.getState();
     const enemies = state.enemies;
+    if (!state.currentMap) return;
+
+    const pathManager = new PathManager(state.currentMap.waypoints);
+    const diagonalPathManager = new PathManager(diagonalWaypoints(state.currentMap.waypoints));
+    const mutatorSpeed = getEnemySpeedMultiplier(state.mutators);
+    const regenerationRate = getEnemyRegenerationRate(state.mutators);
 
     for (const enemy of enemies) {
-      // Update position
-      const newX = this.pathManager.updatePosition(enemy.x, enemy.definition.speed, deltaTime);
+      // Tick status effects; poison ignores armor and can kill
+      const ticked = tickStatusEffects(enemy.statusEffects, state.gameTime);
+      if (ticked.damage > 0) {
+        state.damageEnemy(enemy.id, ticked.damage);
+        if (enemy.health <= ticked.damage) continue;
+      }
+
+      // Regeneration (mutator) heals a share of max health per second
+      const health =
+        regenerationRate > 0
+          ? Math.min(
+              enemy.maxHealth,
+              enemy.health - ticked.damage + (enemy.maxHealth * regenerationRate * deltaTime) / 1000
+            )
+          : undefined;
+
+      // Advance along the map path, slowed or stopped by effects, sped up by auras and mutators
+      const path = enemy.onDiagonalPath ? diagonalPathManager : pathManager;
+      const speedMultiplier =
+        getSpeedMultiplier(ticked.effects) *
+        (1 + getAuraBonus(enemy, enemies).speedBonus) *
+        mutatorSpeed;
+      let progress = path.updateProgress(
+        enemy.pathProgress,
+        enemy.definition.speed * speedMultiplier,
+        deltaTime
+      );
+
+      // Stunned enemies cannot jump; the jump waits until the stun ends
+      let nextJumpAt = enemy.nextJumpAt;
+      const jump = enemy.definition.abilities.jump;
+      if (jump && state.gameTime >= nextJumpAt && speedMultiplier > 0) {
+        progress += jump.distance / CanvasState.gridSize;
+        nextJumpAt = state.gameTime + jump.intervalMs;
+      }
 
       // Check if reached end
-      if (this.pathManager.hasReachedEnd(newX)) {
+      if (path.hasReachedEnd(progress)) {
         // Auto-deselect if this enemy was selected
         if (state.selectedEnemy?.id === enemy.id) {
           state.selectEnemy(null);
         }
-        // Remove enemy, lose life, and mark as dealt with
+        // Remove enemy, lose life (display only, backend resolved the wave), mark as dealt with
         state.removeEnemy(enemy.id);
-        state.loseLifeFromBackend();
+        state.updateLives(-1);
         state.incrementWaveEnemiesDealt();
         continue;
       }
 
       // Update enemy position in store
-      state.updateEnemy(enemy.id, { x: newX });
+      state.updateEnemy(enemy.id, {
+        statusEffects: ticked.effects,
+        ...(health !== undefined && { health }),
+        pathProgress: progress,
+        nextJumpAt,
+        ...path.getPositionAtProgress(progress),
+        ...this.promote(enemy, progress, path.getPathLength()),
+      });
     }
   }
+
+  // Enemies that walk far enough turn into another type, keeping their health share
+  private promote(enemy: Enemy, progress: number, pathLength: number): Partial<Enemy> {
+    const abilities = enemy.definition.abilities;
+    if (!abilities.promote || !shouldPromote(abilities, progress, pathLength)) return {};
+
+    const state = useGameStore.getState();
+    const promoted = state.enemyDefinitions.find((e) => e.id === abilities.promote?.toEnemyId);
+    // Abilities are dropped even if the target is missing, so this only happens once
+    if (!promoted) return { definition: { ...enemy.definition, abilities: {} } };
+
+    const maxHealth = Math.round(
+      promoted.health * (1 + state.wave * state.enemyHealthWaveMultiplier)
+    );
+    const current = state.enemies.find((e) => e.id === enemy.id) ?? enemy;
+    return {
+      enemyId: promoted.id,
+      definition: promoted,
+      maxHealth,
+      health: Math.max(1, Math.round((current.health / enemy.maxHealth) * maxHealth)),
+      scaledReward: Math.round(
+        promoted.reward * (1 + state.wave * state.enemyRewardWaveMultiplier)
+      ),
+    };
+  }
 }
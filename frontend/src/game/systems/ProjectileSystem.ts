@@ -7,6 +7,18 @@ export class ProjectileSystem {
     const enemies = state.enemies;
 
     for (const projectile of projectiles) {
+      const moveDistance = (projectile.speed * deltaTime) / 1000;
+
+      // Pierce shots fly straight; CollisionSystem expires them
+      if (projectile.projectileType === 'pierce') {
+        state.updateProjectile(projectile.id, {
+          x: projectile.x + projectile.dirX * moveDistance,
+          y: projectile.y + projectile.dirY * moveDistance,
+          travelLeft: projectile.travelLeft - moveDistance,
+        });
+        continue;
+      }
+
       // Check if target still exists
       const target = enemies.find((e) => e.id === projectile.targetId);
       if (!target) {
@@ -23,7 +35,6 @@ export class ProjectileSystem {
       if (distance > 0) {
         const dirX = dx / distance;
         const dirY = dy / distance;
-        const moveDistance = (projectile.speed * deltaTime) / 1000;
 
         const newX = projectile.x + dirX * moveDistance;
         const newY = projectile.y + dirY * moveDistance;
@@ -1,6 +1,8 @@
-import type { Tower, Enemy, Projectile } from '../../types';
+import type { AttackPattern, Tower, Enemy, Projectile, TargetingMode } from '../../types';
 import { useGameStore } from '../../state/gameStore';
 import { distance } from '../../utils/math';
+import { canAttack, DEFAULT_ATTACK_PATTERN } from '../../utils/attackPatterns';
+import { CanvasState, GAME_CONFIG } from '../../config/gameConfig';
 
 export class TowerSystem {
   private nextProjectileId = 0;
@@ -18,8 +20,10 @@ export class TowerSystem {
         continue;
       }
 
-      // Find nearest enemy in range
-      const target = this.findNearestEnemy(tower, enemies);
+      // Pick an enemy it can attack by the tower's targeting mode
+      const attackPattern =
+        state.getTowerDefinition(tower.towerId)?.attackPattern ?? DEFAULT_ATTACK_PATTERN;
+      const target = this.findTarget(tower, attackPattern, enemies);
       if (!target) continue;
 
       // Fire projectile
@@ -30,19 +34,39 @@ export class TowerSystem {
     }
   }
 
-  private findNearestEnemy(tower: Tower, enemies: Enemy[]): Enemy | null {
-    let nearest: Enemy | null = null;
-    let minDistance = Infinity;
+  // Same rules as the backend WaveSimulator; ties keep the earlier enemy
+  private findTarget(tower: Tower, attackPattern: AttackPattern, enemies: Enemy[]): Enemy | null {
+    const attacker = { x: tower.x, y: tower.y, range: tower.stats.range, attackPattern };
+    let best: Enemy | null = null;
+    let bestScore = -Infinity;
 
     for (const enemy of enemies) {
+      if (!canAttack(attacker, enemy, CanvasState.gridSize)) continue;
       const dist = distance(tower.x, tower.y, enemy.x, enemy.y);
-      if (dist <= tower.stats.range && dist < minDistance) {
-        nearest = enemy;
-        minDistance = dist;
+
+      const score = this.getTargetScore(tower.targetingMode, enemy, dist);
+      if (score > bestScore) {
+        best = enemy;
+        bestScore = score;
       }
     }
 
-    return nearest;
+    return best;
+  }
+
+  private getTargetScore(mode: TargetingMode, enemy: Enemy, dist: number): number {
+    switch (mode) {
+      case 'first':
+        return enemy.pathProgress;
+      case 'last':
+        return -enemy.pathProgress;
+      case 'strongest':
+        return enemy.health;
+      case 'weakest':
+        return -enemy.health;
+      case 'closest':
+        return -dist;
+    }
   }
 
   private fireProjectile(
@@ -50,13 +74,28 @@ export class TowerSystem {
     target: Enemy,
     state: ReturnType<typeof useGameStore.getState>
   ): void {
+    const aim = distance(tower.x, tower.y, target.x, target.y) || 1;
     const projectile: Projectile = {
       id: `proj-${this.nextProjectileId++}`,
       x: tower.x,
       y: tower.y,
       targetId: target.id,
       damage: tower.stats.damage,
+      damageType: tower.stats.damageType,
       speed: 400, // pixels/second (fast)
+      projectileType: tower.stats.projectileType,
+      splashRadius: tower.stats.splashRadius,
+      chainRange: tower.stats.chainRange,
+      bouncesLeft: tower.stats.chainCount,
+      piercesLeft: tower.stats.pierceCount,
+      dirX: (target.x - tower.x) / aim,
+      dirY: (target.y - tower.y) / aim,
+      travelLeft: tower.stats.range + GAME_CONFIG.PROJECTILE_HIT_THRESHOLD,
+      hitEnemyIds: [],
+      towerId: tower.towerId,
+      effectType: tower.stats.effectType,
+      effectStrength: tower.stats.effectStrength,
+      effectDuration: tower.stats.effectDuration,
     };
 
     state.addProjectile(projectile);
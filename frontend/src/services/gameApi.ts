@@ -8,15 +8,41 @@ import type {
   EndGameRequest,
   EndGameResponse,
   GameStateResponse,
+  GameSessionSummary,
+  SessionStatus,
   UpgradeTowerResponse,
+  SetTargetingResponse,
+  TargetingMode,
   SellTowerResponse,
   StatisticsSummary,
   GameStatistics,
+  MutatorId,
+  TopScoreFilters,
+  AnalyticsFilters,
+  TowerAnalytics,
+  EnemyAnalytics,
+  WaveDistributionPoint,
+  TrendInterval,
+  TrendPoint,
   GameSettings,
   TowerDefinitionWithLevels,
   TowerLevel,
   EnemyDefinition,
+  MapDefinition,
+  GameReplay,
+  Player,
+  AuthResponse,
+  PlayerHistoryResponse,
+  DailyLeaderboardResponse,
+  ConfigVersionSummary,
+  ConfigVersionDiff,
+  ConfigVersionRef,
+  ConfigBundle,
+  ConfigImportResult,
+  WaveComposition,
+  WaveEnemyGroup,
 } from '../types';
+import { MAIN_BRANCH } from '../utils/upgradeTree';
 
 const API_BASE_URL = '/api';
 
@@ -27,20 +53,67 @@ const api = axios.create({
   },
 });
 
+// localStorage key for the signed-in player's token
+export const AUTH_TOKEN_KEY = 'chess-tdf-auth-token';
+
+// Send the token (if signed in) so games and statistics are tied to the player
+api.interceptors.request.use((config) => {
+  const token = localStorage.getItem(AUTH_TOKEN_KEY);
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+// A tower level's config endpoint; branch levels are picked with ?branch=
+const levelPath = (towerId: number, level: number, branch: string) =>
+  branch === MAIN_BRANCH
+    ? `/config/towers/${towerId}/levels/${level}`
+    : `/config/towers/${towerId}/levels/${level}?branch=${encodeURIComponent(branch)}`;
+
+// Query string of the statistics analytics filters, after any other params
+const analyticsQuery = ({ gameMode, difficulty, days }: AnalyticsFilters, ...params: string[]) => {
+  if (gameMode) params.push(`gameMode=${gameMode}`);
+  if (difficulty) params.push(`difficulty=${difficulty}`);
+  if (days) params.push(`days=${days}`);
+  return params.length > 0 ? `?${params.join('&')}` : '';
+};
+
 export const gameApi = {
   /**
-   * Get game configuration (tower and enemy definitions)
+   * Get game configuration (tower and enemy definitions).
+   * With a game ID: the config version that game is pinned to.
+   */
+  async getConfig(gameId?: string): Promise<GameConfigResponse> {
+    const path = gameId ? `/games/${gameId}/config` : '/games/config';
+    const response = await api.get<GameConfigResponse>(path);
+    return response.data;
+  },
+
+  /**
+   * Start a new game session (on the default map unless a map ID is given,
+   * with a fresh seed unless one is given to replay an earlier game)
    */
-  async getConfig(): Promise<GameConfigResponse> {
-    const response = await api.get<GameConfigResponse>('/games/config');
+  async startGame(
+    difficulty: string = 'normal',
+    mapId?: number,
+    seed?: number,
+    mutators: MutatorId[] = []
+  ): Promise<StartGameResponse> {
+    const response = await api.post<StartGameResponse>('/games', {
+      difficulty,
+      mapId,
+      seed,
+      mutators,
+    });
     return response.data;
   },
 
   /**
-   * Start a new game session
+   * Start today's daily challenge (the challenge decides difficulty, map and seed)
    */
-  async startGame(difficulty: string = 'normal'): Promise<StartGameResponse> {
-    const response = await api.post<StartGameResponse>('/games', { difficulty });
+  async startDailyGame(): Promise<StartGameResponse> {
+    const response = await api.post<StartGameResponse>('/games', { gameMode: 'daily' });
     return response.data;
   },
 
@@ -60,6 +133,21 @@ export const gameApi = {
     return response.data;
   },
 
+  /**
+   * Complete the started wave once it has played, so towers can change again
+   */
+  async completeWave(gameId: string): Promise<void> {
+    await api.post(`/games/${gameId}/waves/complete`);
+  },
+
+  /**
+   * List the signed-in player's game sessions by status (active games can be resumed)
+   */
+  async getGames(status: SessionStatus = 'active'): Promise<GameSessionSummary[]> {
+    const response = await api.get<GameSessionSummary[]>(`/games?status=${status}`);
+    return response.data;
+  },
+
   /**
    * Get current game state
    */
@@ -69,7 +157,7 @@ export const gameApi = {
   },
 
   /**
-   * End the game and submit final statistics
+   * End the game and submit final statistics (and the recorded replay)
    */
   async endGame(gameId: string, request: EndGameRequest): Promise<EndGameResponse> {
     const response = await api.post<EndGameResponse>(`/games/${gameId}/end`, request);
@@ -77,11 +165,39 @@ export const gameApi = {
   },
 
   /**
-   * Upgrade a tower to the next level
+   * Get the recorded replay of a finished game
    */
-  async upgradeTower(gameId: string, towerId: string): Promise<UpgradeTowerResponse> {
+  async getReplay(gameId: string): Promise<GameReplay> {
+    const response = await api.get<GameReplay>(`/games/${gameId}/replay`);
+    return response.data;
+  },
+
+  /**
+   * Upgrade a tower to the next level (the branch is only needed where the upgrade tree branches)
+   */
+  async upgradeTower(
+    gameId: string,
+    towerId: string,
+    branch?: string
+  ): Promise<UpgradeTowerResponse> {
     const response = await api.patch<UpgradeTowerResponse>(
-      `/games/${gameId}/towers/${towerId}`
+      `/games/${gameId}/towers/${towerId}`,
+      branch !== undefined ? { branch } : {}
+    );
+    return response.data;
+  },
+
+  /**
+   * Change which enemy a tower shoots at
+   */
+  async setTowerTargeting(
+    gameId: string,
+    towerId: string,
+    targetingMode: TargetingMode
+  ): Promise<SetTargetingResponse> {
+    const response = await api.patch<SetTargetingResponse>(
+      `/games/${gameId}/towers/${towerId}/targeting`,
+      { targetingMode }
     );
     return response.data;
   },
@@ -102,6 +218,14 @@ export const gameApi = {
     return response.data;
   },
 
+  /**
+   * Get all maps
+   */
+  async getMaps(): Promise<MapDefinition[]> {
+    const response = await api.get<MapDefinition[]>('/config/maps');
+    return response.data;
+  },
+
   /**
    * Get settings by mode
    */
@@ -127,10 +251,109 @@ export const gameApi = {
   },
 
   /**
-   * Get top scores
+   * Get a finished game's statistics
+   */
+  async getGameStatistics(gameId: string): Promise<GameStatistics> {
+    const response = await api.get<GameStatistics>(`/statistics/game/${gameId}`);
+    return response.data;
+  },
+
+  /**
+   * Get pick and win rates per tower type
+   */
+  async getTowerAnalytics(filters: AnalyticsFilters = {}): Promise<TowerAnalytics[]> {
+    const response = await api.get<TowerAnalytics[]>(
+      `/statistics/towers${analyticsQuery(filters)}`
+    );
+    return response.data;
+  },
+
+  /**
+   * Get kills and kill share per enemy type
+   */
+  async getEnemyAnalytics(filters: AnalyticsFilters = {}): Promise<EnemyAnalytics[]> {
+    const response = await api.get<EnemyAnalytics[]>(
+      `/statistics/enemies${analyticsQuery(filters)}`
+    );
+    return response.data;
+  },
+
+  /**
+   * Get the number of games per final wave reached
+   */
+  async getWaveDistribution(filters: AnalyticsFilters = {}): Promise<WaveDistributionPoint[]> {
+    const response = await api.get<WaveDistributionPoint[]>(
+      `/statistics/waves${analyticsQuery(filters)}`
+    );
+    return response.data;
+  },
+
+  /**
+   * Get daily or weekly win rate and average wave per difficulty
+   */
+  async getTrends(interval: TrendInterval, filters: AnalyticsFilters = {}): Promise<TrendPoint[]> {
+    const response = await api.get<TrendPoint[]>(
+      `/statistics/trends${analyticsQuery(filters, `interval=${interval}`)}`
+    );
+    return response.data;
+  },
+
+  /**
+   * Get top scores, optionally only of games played with exactly one mutator set,
+   * in one game mode or on one difficulty
+   */
+  async getTopScores(limit = 10, filters: TopScoreFilters = {}): Promise<GameStatistics[]> {
+    const { mutators, gameMode, difficulty } = filters;
+    const filter = [
+      mutators ? `&mutators=${mutators.join(',')}` : '',
+      gameMode ? `&gameMode=${gameMode}` : '',
+      difficulty ? `&difficulty=${difficulty}` : '',
+    ].join('');
+    const response = await api.get<GameStatistics[]>(
+      `/statistics/top-scores?limit=${limit}${filter}`
+    );
+    return response.data;
+  },
+
+  /**
+   * Get the signed-in player's summary and games
+   */
+  async getPlayerHistory(limit = 50): Promise<PlayerHistoryResponse> {
+    const response = await api.get<PlayerHistoryResponse>(`/statistics/me?limit=${limit}`);
+    return response.data;
+  },
+
+  /**
+   * Get a daily challenge (YYYY-MM-DD) and its leaderboard
    */
-  async getTopScores(limit = 10): Promise<GameStatistics[]> {
-    const response = await api.get<GameStatistics[]>(`/statistics/top-scores?limit=${limit}`);
+  async getDailyLeaderboard(date: string, limit = 10): Promise<DailyLeaderboardResponse> {
+    const response = await api.get<DailyLeaderboardResponse>(
+      `/statistics/daily/${date}?limit=${limit}`
+    );
+    return response.data;
+  },
+
+  /**
+   * Create an account (signs the player in)
+   */
+  async register(username: string, password: string): Promise<AuthResponse> {
+    const response = await api.post<AuthResponse>('/auth/register', { username, password });
+    return response.data;
+  },
+
+  /**
+   * Sign in with username and password
+   */
+  async login(username: string, password: string): Promise<AuthResponse> {
+    const response = await api.post<AuthResponse>('/auth/login', { username, password });
+    return response.data;
+  },
+
+  /**
+   * Get the player the stored token belongs to
+   */
+  async getCurrentPlayer(): Promise<Player> {
+    const response = await api.get<Player>('/auth/me');
     return response.data;
   },
 
@@ -189,50 +412,99 @@ export const gameApi = {
   },
 
   /**
-   * Get specific level for a tower ID
+   * Get specific level for a tower ID (main branch unless given)
    */
-  async getTowerLevel(towerId: number, level: number): Promise<TowerLevel> {
-    const response = await api.get<TowerLevel>(`/config/towers/${towerId}/levels/${level}`);
+  async getTowerLevel(towerId: number, level: number, branch = MAIN_BRANCH): Promise<TowerLevel> {
+    const response = await api.get<TowerLevel>(levelPath(towerId, level, branch));
     return response.data;
   },
 
   /**
-   * Create or update a tower level
+   * Create or update a tower level (the branch comes from the data)
    */
   async upsertTowerLevel(
     towerId: number,
     level: number,
     data: Omit<TowerLevel, 'towerId' | 'level'>
   ): Promise<TowerLevel> {
-    const response = await api.put<TowerLevel>(`/config/towers/${towerId}/levels/${level}`, data);
+    const { branch, ...body } = data;
+    const response = await api.put<TowerLevel>(levelPath(towerId, level, branch), body);
     return response.data;
   },
 
   /**
-   * Delete a tower level
+   * Delete a tower level (main branch unless given)
    */
-  async deleteTowerLevel(towerId: number, level: number): Promise<void> {
-    await api.delete(`/config/towers/${towerId}/levels/${level}`);
+  async deleteTowerLevel(towerId: number, level: number, branch = MAIN_BRANCH): Promise<void> {
+    await api.delete(levelPath(towerId, level, branch));
   },
 
   /**
-   * Add coins to the game (when enemy dies)
+   * Get all waves with their enemy groups (in spawn order)
    */
-  async addCoins(gameId: string, amount: number): Promise<{ success: boolean; coins: number }> {
-    const response = await api.patch<{ success: boolean; coins: number }>(
-      `/games/${gameId}/coins`,
-      { amount }
-    );
+  async getWaves(): Promise<WaveComposition[]> {
+    const response = await api.get<WaveComposition[]>('/config/waves');
     return response.data;
   },
 
   /**
-   * Lose a life (when enemy reaches end)
+   * Replace a wave's enemy groups (creates the wave if it does not exist)
    */
-  async loseLife(gameId: string): Promise<{ success: boolean; lives: number; gameOver: boolean }> {
-    const response = await api.patch<{ success: boolean; lives: number; gameOver: boolean }>(
-      `/games/${gameId}/lives`
-    );
+  async replaceWave(waveNumber: number, enemies: WaveEnemyGroup[]): Promise<WaveComposition> {
+    const response = await api.put<WaveComposition>(`/config/waves/${waveNumber}`, { enemies });
+    return response.data;
+  },
+
+  /**
+   * Get published config versions (newest first, the first is current)
+   */
+  async getConfigVersions(): Promise<ConfigVersionSummary[]> {
+    const response = await api.get<ConfigVersionSummary[]>('/config/versions');
+    return response.data;
+  },
+
+  /**
+   * Publish the draft config as a new version
+   */
+  async publishConfigVersion(notes: string): Promise<ConfigVersionSummary> {
+    const response = await api.post<ConfigVersionSummary>('/config/versions', { notes });
+    return response.data;
+  },
+
+  /**
+   * Restore the draft to a version and publish it again
+   */
+  async rollbackConfigVersion(id: number): Promise<ConfigVersionSummary> {
+    const response = await api.post<ConfigVersionSummary>(`/config/versions/${id}/rollback`);
+    return response.data;
+  },
+
+  /**
+   * Field-level changes between two versions ('draft' for the unpublished config)
+   */
+  async diffConfigVersions(
+    from: ConfigVersionRef,
+    to: ConfigVersionRef
+  ): Promise<ConfigVersionDiff> {
+    const response = await api.get<ConfigVersionDiff>(`/config/versions/${from}/diff/${to}`);
+    return response.data;
+  },
+
+  /**
+   * Download the draft (or a published version) as a portable bundle
+   */
+  async exportConfig(versionId?: number): Promise<ConfigBundle> {
+    const query = versionId !== undefined ? `?version=${versionId}` : '';
+    const response = await api.get<ConfigBundle>(`/config/export${query}`);
+    return response.data;
+  },
+
+  /**
+   * Import a bundle into the draft; a dry run only reports changes and conflicts
+   */
+  async importConfig(bundle: unknown, dryRun: boolean): Promise<ConfigImportResult> {
+    const query = dryRun ? '?dryRun=true' : '';
+    const response = await api.post<ConfigImportResult>(`/config/import${query}`, bundle);
     return response.data;
   },
 };
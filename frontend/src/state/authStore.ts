@@ -0,0 +1,93 @@
+/**
+ * RESPONSIBILITY: The signed-in player.
+ * - Player profile and auth token (persisted in localStorage)
+ * - Login, registration and sign-out
+ *
+ * NO: Game state (see gameStore)
+ */
+import { create } from 'zustand';
+import type { AuthResponse, Player } from '../types';
+import { gameApi, AUTH_TOKEN_KEY } from '../services/gameApi';
+
+interface AuthStore {
+  player: Player | null;
+  isLoading: boolean; // restoring the session from a stored token
+  authError: string | null;
+
+  loadPlayer: () => Promise<void>;
+  login: (username: string, password: string) => Promise<boolean>;
+  register: (username: string, password: string) => Promise<boolean>;
+  logout: () => void;
+  clearAuthError: () => void;
+}
+
+// Designers and admins may change the game configuration
+export const canEditConfig = (player: Player | null): boolean =>
+  player?.role === 'designer' || player?.role === 'admin';
+
+// Pull the backend's { error } message out of a failed request
+const getErrorMessage = (error: unknown, fallback: string): string => {
+  if (error && typeof error === 'object' && 'response' in error) {
+    const axiosError = error as { response?: { data?: { error?: string } } };
+    if (axiosError.response?.data?.error) {
+      return axiosError.response.data.error;
+    }
+  }
+  return fallback;
+};
+
+export const useAuthStore = create<AuthStore>((set) => {
+  const signIn = (response: AuthResponse) => {
+    localStorage.setItem(AUTH_TOKEN_KEY, response.token);
+    set({ player: response.player, authError: null });
+  };
+
+  return {
+    player: null,
+    isLoading: localStorage.getItem(AUTH_TOKEN_KEY) !== null,
+    authError: null,
+
+    // Restore the player from a stored token (drops it if expired)
+    loadPlayer: async () => {
+      if (!localStorage.getItem(AUTH_TOKEN_KEY)) {
+        set({ isLoading: false });
+        return;
+      }
+      try {
+        const player = await gameApi.getCurrentPlayer();
+        set({ player, isLoading: false });
+      } catch (error) {
+        console.error('Failed to restore session:', error);
+        localStorage.removeItem(AUTH_TOKEN_KEY);
+        set({ player: null, isLoading: false });
+      }
+    },
+
+    login: async (username, password) => {
+      try {
+        signIn(await gameApi.login(username, password));
+        return true;
+      } catch (error) {
+        set({ authError: getErrorMessage(error, 'Failed to sign in') });
+        return false;
+      }
+    },
+
+    register: async (username, password) => {
+      try {
+        signIn(await gameApi.register(username, password));
+        return true;
+      } catch (error) {
+        set({ authError: getErrorMessage(error, 'Failed to create account') });
+        return false;
+      }
+    },
+
+    logout: () => {
+      localStorage.removeItem(AUTH_TOKEN_KEY);
+      set({ player: null, authError: null });
+    },
+
+    clearAuthError: () => set({ authError: null }),
+  };
+});
@@ -16,20 +16,46 @@ import type {
   Tower,
   Enemy,
   Projectile,
+  WaveSimulationResult,
+  MapDefinition,
+  ReplayAction,
+  ReplayConfig,
+  GameReplay,
+  TargetingMode,
+  MutatorId,
+  ScoreBreakdown,
 } from '../types';
 import { gameApi } from '../services/gameApi';
-import { GAME_CONFIG, CanvasState } from '../config/gameConfig';
+import { GAME_CONFIG } from '../config/gameConfig';
 import { GridManager } from '../game/managers/GridManager';
 import { PathManager } from '../game/managers/PathManager';
+import { diagonalWaypoints, usesDiagonalPath } from '../utils/abilities';
+import { createRng, type Rng } from '../utils/random';
+import { normalizeMutators } from '../utils/mutators';
+import { MAIN_BRANCH, findLevelNode } from '../utils/upgradeTree';
 
 type GameResult = 'win' | 'loss' | null;
 
+// A copy of a statistics breakdown (e.g. kills per enemy type) with `amount` added for `id`
+const addCount = (
+  byId: Record<string, number>,
+  id: string | number,
+  amount: number
+): Record<string, number> => ({ ...byId, [id]: (byId[id] ?? 0) + amount });
+
 interface GameStore {
   // Settings
   selectedDifficulty: string;
   setDifficulty: (difficulty: string) => void;
+  selectedMapId: number | null; // null = backend default map
+  setMapId: (mapId: number | null) => void;
+  selectedMutators: MutatorId[]; // for the next game
+  toggleMutator: (mutator: MutatorId) => void;
   gameSpeed: 1 | 3;
   toggleGameSpeed: () => void;
+  isPaused: boolean; // freezes the game loop (live games only)
+  togglePause: () => void;
+  setPaused: (paused: boolean) => void;
 
   // Game session
   gameId: string | null;
@@ -42,20 +68,37 @@ interface GameStore {
   isPlaying: boolean;
   enemiesKilled: number;
   gameResult: GameResult;
+  gameScore: { score: number; breakdown: ScoreBreakdown } | null; // computed by the backend at the end
   gameTime: number;
   updateGameTime: (deltaTime: number) => void;
 
+  // Statistics sent on game end (only what this browser session played, for resumed games)
+  playTime: number; // ms of real time played, without pauses
+  updatePlayTime: (deltaTime: number) => void;
+  enemiesKilledByType: Record<string, number>; // from the backend's wave results
+  towersBuiltByType: Record<string, number>;
+  damageByTowerType: Record<string, number>;
+  seed: number | null; // null for games started before seeds
+  random: Rng; // seeded from the game, use it instead of Math.random
+  mutators: MutatorId[]; // of the running game
+
   // Wave scaling multipliers (from startWave response)
   enemyHealthWaveMultiplier: number;
   enemyRewardWaveMultiplier: number;
 
+  // Authoritative outcome of the current wave (simulated by the backend)
+  waveResult: WaveSimulationResult | null;
+  waveGameOver: boolean;
+  waveGameWon: boolean; // the wave is the game mode's last and is cleared
+
   // Game configuration (from backend)
   towerDefinitions: TowerDefinitionWithLevels[];
   enemyDefinitions: EnemyDefinition[];
+  currentMap: MapDefinition | null; // map of the running game (path + blocked cells)
 
   // Helper methods for tower definitions
   getTowerDefinition: (towerId: number) => TowerDefinitionWithLevels | null;
-  getTowerLevelStats: (towerId: number, level: number) => TowerStats | null;
+  getTowerLevelStats: (towerId: number, level: number, branch?: string) => TowerStats | null;
   getTowerMaxLevel: (towerId: number) => number;
 
   // Game entities (client-side)
@@ -75,20 +118,21 @@ interface GameStore {
   selectedEnemy: Enemy | null;
   selectEnemy: (enemy: Enemy | null) => void;
 
-  // Tower upgrade/sell
-  upgradeTower: (towerId: string) => Promise<boolean>;
+  // Tower upgrade/sell/targeting
+  upgradeTower: (towerId: string, branch?: string) => Promise<boolean>; // branch where the tree branches
   sellTower: (towerId: string) => Promise<boolean>;
+  setTowerTargeting: (towerId: string, targetingMode: TargetingMode) => Promise<boolean>;
 
   // Backend-synced game state updates
-  addCoinsFromBackend: (amount: number) => Promise<void>;
-  loseLifeFromBackend: () => Promise<void>;
+  syncWaveOutcome: () => Promise<void>;
 
   // Actions
   initializeGame: () => Promise<void>;
-  startGame: () => Promise<string | null>;
+  startGame: (daily?: boolean) => Promise<string | null>; // daily plays today's challenge
+  resumeGame: (gameId: string) => Promise<boolean>;
   buildTower: (gridX: number, gridY: number) => Promise<boolean>;
   startWave: () => Promise<EnemySpawnData[] | undefined>;
-  endGame: (result: GameResult) => Promise<void>;
+  endGame: (result: NonNullable<GameResult>) => Promise<void>;
 
   // Game logic (called by GameEngine)
   handleTowerPlacement: (gridX: number, gridY: number) => Promise<void>;
@@ -103,10 +147,10 @@ interface GameStore {
   addEnemy: (enemy: Enemy) => void;
   removeEnemy: (enemyId: string) => void;
   updateEnemy: (enemyId: string, updates: Partial<Enemy>) => void;
+  damageEnemy: (enemyId: string, damage: number, towerId?: number) => void;
   addProjectile: (projectile: Projectile) => void;
   removeProjectile: (projectileId: string) => void;
   updateProjectile: (projectileId: string, updates: Partial<Projectile>) => void;
-  incrementEnemiesKilled: () => void;
   incrementWaveEnemiesDealt: () => void;
   setWaveEnemiesTotal: (count: number) => void;
   markWaveSurvived: () => void;
@@ -120,6 +164,21 @@ interface GameStore {
   // Resize
   repositionEntitiesAfterResize: () => void;
 
+  // Replay recording (live games): config snapshot + action log, uploaded on endGame
+  replayConfig: ReplayConfig | null;
+  replayActions: ReplayAction[];
+  recordReplayAction: (action: ReplayAction) => void;
+
+  // Replay playback (/replay/:gameId); actions are applied by the game loop
+  replay: GameReplay | null;
+  replayCursor: number; // index of the next action to apply
+  replayPaused: boolean;
+  replaySpeed: number;
+  loadReplay: (replay: GameReplay) => void;
+  applyReplayActions: () => void;
+  setReplayPaused: (paused: boolean) => void;
+  setReplaySpeed: (speed: number) => void;
+
   // Reset
   resetGame: () => void;
 }
@@ -127,7 +186,10 @@ interface GameStore {
 export const useGameStore = create<GameStore>((set, get) => ({
   // Initial state
   selectedDifficulty: 'normal',
+  selectedMapId: null,
+  selectedMutators: [],
   gameSpeed: 1,
+  isPaused: false,
   gameId: null,
   coins: 0,
   lives: 0,
@@ -138,24 +200,57 @@ export const useGameStore = create<GameStore>((set, get) => ({
   isPlaying: false,
   enemiesKilled: 0,
   gameResult: null,
+  gameScore: null,
   gameTime: 0,
+  playTime: 0,
+  enemiesKilledByType: {},
+  towersBuiltByType: {},
+  damageByTowerType: {},
+  seed: null,
+  random: createRng(0),
+  mutators: [],
   enemyHealthWaveMultiplier: 0.1,
   enemyRewardWaveMultiplier: 0.05,
+  waveResult: null,
+  waveGameOver: false,
+  waveGameWon: false,
   towerDefinitions: [],
   enemyDefinitions: [],
+  currentMap: null,
   towers: [],
   enemies: [],
   projectiles: [],
   selectedTowerId: null,
   spawnQueue: [],
   spawnElapsed: 0,
+  replayConfig: null,
+  replayActions: [],
+  replay: null,
+  replayCursor: 0,
+  replayPaused: false,
+  replaySpeed: 1,
 
   // Difficulty setting
   setDifficulty: (difficulty) => set({ selectedDifficulty: difficulty }),
 
+  // Map selection
+  setMapId: (mapId) => set({ selectedMapId: mapId }),
+
+  // Mutator selection
+  toggleMutator: (mutator) =>
+    set((state) => ({
+      selectedMutators: state.selectedMutators.includes(mutator)
+        ? state.selectedMutators.filter((m) => m !== mutator)
+        : normalizeMutators([...state.selectedMutators, mutator]),
+    })),
+
   // Game speed
   toggleGameSpeed: () => set((state) => ({ gameSpeed: state.gameSpeed === 1 ? 3 : 1 })),
 
+  // Pause
+  togglePause: () => set((state) => ({ isPaused: !state.isPaused })),
+  setPaused: (paused) => set({ isPaused: paused }),
+
   // Tower selection (for building)
   selectTowerId: (towerId) => set({ selectedTowerId: towerId }),
 
@@ -175,16 +270,25 @@ export const useGameStore = create<GameStore>((set, get) => ({
     return towerDefinitions.find((t) => t.id === towerId) ?? null;
   },
 
-  getTowerLevelStats: (towerId, level) => {
+  getTowerLevelStats: (towerId, level, branch = MAIN_BRANCH) => {
     const def = get().getTowerDefinition(towerId);
     if (!def) return null;
-    const levelData = def.levels.find((l) => l.level === level);
+    const levelData = findLevelNode(def.levels, level, branch);
     if (!levelData) return null;
     return {
       cost: levelData.cost,
       damage: levelData.damage,
       range: levelData.range,
       fireRate: levelData.fireRate,
+      damageType: levelData.damageType,
+      projectileType: levelData.projectileType,
+      splashRadius: levelData.splashRadius,
+      chainCount: levelData.chainCount,
+      chainRange: levelData.chainRange,
+      pierceCount: levelData.pierceCount,
+      effectType: levelData.effectType,
+      effectStrength: levelData.effectStrength,
+      effectDuration: levelData.effectDuration,
     };
   },
 
@@ -194,7 +298,7 @@ export const useGameStore = create<GameStore>((set, get) => ({
   },
 
   // Tower upgrade
-  upgradeTower: async (towerId) => {
+  upgradeTower: async (towerId, branch) => {
     const { gameId, towers } = get();
     if (!gameId) {
       console.error('No gameId for upgrade');
@@ -205,7 +309,7 @@ export const useGameStore = create<GameStore>((set, get) => ({
     console.log('Attempting upgrade for tower:', towerId, 'Current tower:', currentTower);
 
     try {
-      const response = await gameApi.upgradeTower(gameId, towerId);
+      const response = await gameApi.upgradeTower(gameId, towerId, branch);
       console.log('Upgrade response:', response);
       if (response.success && response.tower) {
         const upgradedTower = response.tower;
@@ -215,6 +319,7 @@ export const useGameStore = create<GameStore>((set, get) => ({
               ? {
                   ...t,
                   level: upgradedTower.level,
+                  branch: upgradedTower.branch,
                   stats: upgradedTower.stats,
                 }
               : t
@@ -222,9 +327,22 @@ export const useGameStore = create<GameStore>((set, get) => ({
           coins: response.remainingCoins,
           selectedTower:
             state.selectedTower?.id === towerId
-              ? { ...state.selectedTower, level: upgradedTower.level, stats: upgradedTower.stats }
+              ? {
+                  ...state.selectedTower,
+                  level: upgradedTower.level,
+                  branch: upgradedTower.branch,
+                  stats: upgradedTower.stats,
+                }
               : state.selectedTower,
         }));
+        get().recordReplayAction({
+          type: 'upgrade',
+          gameTime: get().gameTime,
+          towerInstanceId: towerId,
+          level: upgradedTower.level,
+          branch: upgradedTower.branch,
+          coins: response.remainingCoins,
+        });
         console.log('Tower upgraded successfully to level:', upgradedTower.level);
         return true;
       }
@@ -258,6 +376,12 @@ export const useGameStore = create<GameStore>((set, get) => ({
           coins: response.remainingCoins,
           selectedTower: null,
         }));
+        get().recordReplayAction({
+          type: 'sell',
+          gameTime: get().gameTime,
+          towerInstanceId: towerId,
+          coins: response.remainingCoins,
+        });
         return true;
       }
       return false;
@@ -267,6 +391,36 @@ export const useGameStore = create<GameStore>((set, get) => ({
     }
   },
 
+  // Tower targeting mode
+  setTowerTargeting: async (towerId, targetingMode) => {
+    const { gameId } = get();
+    if (!gameId) return false;
+
+    try {
+      const response = await gameApi.setTowerTargeting(gameId, towerId, targetingMode);
+      if (response.success) {
+        get().updateTower(towerId, { targetingMode });
+        set((state) => ({
+          selectedTower:
+            state.selectedTower?.id === towerId
+              ? { ...state.selectedTower, targetingMode }
+              : state.selectedTower,
+        }));
+        get().recordReplayAction({
+          type: 'targeting',
+          gameTime: get().gameTime,
+          towerInstanceId: towerId,
+          targetingMode,
+        });
+        return true;
+      }
+      return false;
+    } catch (error) {
+      console.error('Failed to set tower targeting:', error);
+      return false;
+    }
+  },
+
   // Initialize game configuration from backend
   initializeGame: async () => {
     try {
@@ -281,21 +435,28 @@ export const useGameStore = create<GameStore>((set, get) => ({
   },
 
   // Start new game session
-  startGame: async () => {
+  startGame: async (daily = false) => {
     try {
-      const { selectedDifficulty } = get();
-
-      // Fetch fresh config and start game in parallel
-      const [config, response] = await Promise.all([
-        gameApi.getConfig(),
-        gameApi.startGame(selectedDifficulty),
-      ]);
+      const { selectedDifficulty, selectedMapId, selectedMutators } = get();
+
+      // Start the game, then fetch the config version it was pinned to
+      // (a daily game's config only holds the towers of its loadout)
+      const response = daily
+        ? await gameApi.startDailyGame()
+        : await gameApi.startGame(
+            selectedDifficulty,
+            selectedMapId ?? undefined,
+            undefined,
+            selectedMutators
+          );
+      const config = await gameApi.getConfig(response.gameId);
 
       set({
-        // Fresh definitions from database
+        // Definitions from the game's config version
         towerDefinitions: config.towers,
         enemyDefinitions: config.enemies,
         // Game session data
+        currentMap: response.map,
         gameId: response.gameId,
         coins: response.initialCoins,
         lives: response.lives,
@@ -306,7 +467,15 @@ export const useGameStore = create<GameStore>((set, get) => ({
         isPlaying: false,
         enemiesKilled: 0,
         gameTime: 0,
+        playTime: 0,
+        enemiesKilledByType: {},
+        towersBuiltByType: {},
+        damageByTowerType: {},
+        seed: response.seed,
+        random: createRng(response.seed),
+        mutators: response.mutators,
         gameSpeed: 1,
+        isPaused: false,
         towers: [],
         enemies: [],
         projectiles: [],
@@ -314,6 +483,18 @@ export const useGameStore = create<GameStore>((set, get) => ({
         selectedTower: null,
         selectedEnemy: null,
         gameResult: null,
+        gameScore: null,
+        // Replay recording starts from the config this game was started with
+        replayConfig: {
+          towers: config.towers,
+          enemies: config.enemies,
+          map: response.map,
+          initialCoins: response.initialCoins,
+          lives: response.lives,
+          seed: response.seed,
+          mutators: response.mutators,
+        },
+        replayActions: [],
       });
       return response.gameId;
     } catch (error) {
@@ -322,6 +503,68 @@ export const useGameStore = create<GameStore>((set, get) => ({
     }
   },
 
+  // Resume a saved game from its last between-wave checkpoint.
+  // The backend resolves each wave when it starts, so a wave left playing only needs completing.
+  resumeGame: async (gameId) => {
+    try {
+      const [config, state] = await Promise.all([
+        gameApi.getConfig(gameId),
+        gameApi.getGameState(gameId),
+      ]);
+      if (state.status !== 'active' || state.lives <= 0 || !state.map) return false;
+      if (state.waveActive) await gameApi.completeWave(gameId);
+
+      // Recalculate tower positions using frontend grid size
+      const gridManager = new GridManager();
+      const towers = state.towers.map((tower) => ({
+        ...tower,
+        ...gridManager.gridToPixel(tower.gridX, tower.gridY),
+      }));
+
+      set({
+        towerDefinitions: config.towers,
+        enemyDefinitions: config.enemies,
+        currentMap: state.map,
+        gameId,
+        coins: state.coins,
+        lives: state.lives,
+        wave: state.wave,
+        wavesSurvived: state.wave,
+        waveEnemiesTotal: 0,
+        waveEnemiesDealt: 0,
+        isPlaying: false,
+        enemiesKilled: state.enemiesKilled,
+        gameTime: 0,
+        playTime: 0,
+        enemiesKilledByType: {},
+        towersBuiltByType: {},
+        damageByTowerType: {},
+        seed: state.seed,
+        random: createRng(state.seed ?? 0),
+        mutators: state.mutators,
+        gameSpeed: 1,
+        isPaused: false,
+        towers,
+        enemies: [],
+        projectiles: [],
+        spawnQueue: [],
+        spawnElapsed: 0,
+        selectedTowerId: null,
+        selectedTower: null,
+        selectedEnemy: null,
+        gameResult: null,
+        gameScore: null,
+        // The start of the game was not recorded in this browser session
+        replayConfig: null,
+        replayActions: [],
+      });
+      return true;
+    } catch (error) {
+      console.error('Failed to resume game:', error);
+      return false;
+    }
+  },
+
   // Build tower
   buildTower: async (gridX, gridY) => {
     const { gameId, selectedTowerId } = get();
@@ -348,7 +591,17 @@ export const useGameStore = create<GameStore>((set, get) => ({
           towers: [...state.towers, correctedTower],
           coins: response.remainingCoins,
           selectedTowerId: null,
+          towersBuiltByType: addCount(state.towersBuiltByType, correctedTower.towerId, 1),
         }));
+        get().recordReplayAction({
+          type: 'build',
+          gameTime: get().gameTime,
+          towerInstanceId: correctedTower.id,
+          towerId: correctedTower.towerId,
+          gridX: correctedTower.gridX,
+          gridY: correctedTower.gridY,
+          coins: response.remainingCoins,
+        });
         return true;
       }
       return false;
@@ -370,7 +623,11 @@ export const useGameStore = create<GameStore>((set, get) => ({
         isPlaying: true,
         enemyHealthWaveMultiplier: response.enemyHealthWaveMultiplier,
         enemyRewardWaveMultiplier: response.enemyRewardWaveMultiplier,
+        waveResult: response.result,
+        waveGameOver: response.gameOver,
+        waveGameWon: response.gameWon,
       });
+      get().recordReplayAction({ type: 'wave', gameTime: get().gameTime, ...response });
 
       // Return spawn data for game engine to handle
       return response.enemies;
@@ -381,15 +638,44 @@ export const useGameStore = create<GameStore>((set, get) => ({
 
   // End game
   endGame: async (result) => {
-    const { gameId, wave, enemiesKilled } = get();
+    const {
+      gameId,
+      wave,
+      enemiesKilled,
+      playTime,
+      enemiesKilledByType,
+      towersBuiltByType,
+      damageByTowerType,
+      replay,
+      replayConfig,
+      replayActions,
+      gameTime,
+    } = get();
+
+    // Replays only play the recorded ending back
+    if (replay) {
+      set({ gameResult: result, replayPaused: true });
+      return;
+    }
     if (!gameId) return;
 
     try {
-      await gameApi.endGame(gameId, {
+      const response = await gameApi.endGame(gameId, {
         finalWave: wave,
         enemiesKilled,
+        outcome: result,
+        duration: Math.round(playTime),
+        enemiesKilledByType,
+        towersBuiltByType,
+        damageByTowerType,
+        ...(replayConfig && {
+          replay: { config: replayConfig, actions: replayActions, duration: gameTime },
+        }),
+      });
+      set({
+        gameResult: result,
+        gameScore: { score: response.score, breakdown: response.scoreBreakdown },
       });
-      set({ gameResult: result });
     } catch (error) {
       console.error('Failed to end game:', error);
       set({ gameResult: result });
@@ -429,9 +715,10 @@ export const useGameStore = create<GameStore>((set, get) => ({
       return;
     }
 
-    // Check restricted rows (enemy path)
-    if ((GAME_CONFIG.RESTRICTED_ROWS as readonly number[]).includes(gridY)) {
-      console.warn('Invalid tower placement: restricted row');
+    // Check cells blocked by the map (enemy path)
+    const blockedCells = state.currentMap?.blockedCells ?? [];
+    if (blockedCells.some((c) => c.gridX === gridX && c.gridY === gridY)) {
+      console.warn('Invalid tower placement: blocked by map');
       return;
     }
 
@@ -459,58 +746,73 @@ export const useGameStore = create<GameStore>((set, get) => ({
   },
 
   // Check if game is over (called after collision system)
+  // Only the backend's wave result can end the game; local lives are display only
   checkGameOver: () => {
-    const { lives, isPlaying } = get();
-    if (lives <= 0 && isPlaying) {
+    const { lives, isPlaying, waveGameOver } = get();
+    if (lives <= 0 && isPlaying && waveGameOver) {
+      set({ isPlaying: false });
       get().endGame('loss');
     }
   },
 
   // Check if wave is complete (called each frame)
   checkWaveComplete: () => {
-    const { isPlaying, waveEnemiesTotal, waveEnemiesDealt, lives } = get();
+    const { isPlaying, waveEnemiesTotal, waveEnemiesDealt } = get();
 
     if (isPlaying && waveEnemiesTotal > 0 && waveEnemiesDealt >= waveEnemiesTotal) {
-      if (lives > 0) {
-        get().markWaveSurvived();
-      } else {
-        set({ isPlaying: false });
-      }
+      set({ isPlaying: false });
+      get().syncWaveOutcome();
     }
   },
 
   // Backend-synced updates (call API, then update state)
-  addCoinsFromBackend: async (amount) => {
-    const { gameId } = get();
-    if (!gameId) return;
+  // Replaces the locally animated coins/lives with the session's values
+  syncWaveOutcome: async () => {
+    const { gameId, waveResult, waveGameOver, waveGameWon, replay, wave } = get();
+
+    if (replay) {
+      // The recorded wave carries the session's coins and lives after the wave
+      const waveAction = replay.actions.find((a) => a.type === 'wave' && a.waveNumber === wave);
+      if (waveAction?.type === 'wave') {
+        set({
+          coins: waveAction.coins,
+          lives: waveAction.lives,
+          enemiesKilled: get().enemiesKilled + waveAction.result.enemiesKilled,
+        });
+      }
+    } else {
+      if (!gameId) return;
 
-    try {
-      const response = await gameApi.addCoins(gameId, amount);
-      set({ coins: response.coins });
-    } catch (error) {
-      console.error('Failed to add coins:', error);
+      try {
+        await gameApi.completeWave(gameId);
+        const response = await gameApi.getGameState(gameId);
+        set((state) => ({
+          coins: response.coins,
+          lives: response.lives,
+          enemiesKilled: state.enemiesKilled + (waveResult?.enemiesKilled ?? 0),
+          enemiesKilledByType: Object.entries(waveResult?.enemiesKilledByType ?? {}).reduce(
+            (byType, [enemyId, kills]) => addCount(byType, enemyId, kills),
+            state.enemiesKilledByType
+          ),
+        }));
+      } catch (error) {
+        console.error('Failed to sync wave outcome:', error);
+      }
     }
-  },
-
-  loseLifeFromBackend: async () => {
-    const { gameId } = get();
-    if (!gameId) return;
 
-    try {
-      const response = await gameApi.loseLife(gameId);
-      set({ lives: response.lives });
-      if (response.gameOver) {
-        get().endGame('loss');
-      }
-    } catch (error) {
-      console.error('Failed to lose life:', error);
+    if (waveGameOver) {
+      get().endGame('loss');
+    } else {
+      get().markWaveSurvived();
+      if (waveGameWon) get().endGame('win');
     }
   },
 
   // Client-side updates (local only, for display purposes)
   updateCoins: (amount) => set((state) => ({ coins: state.coins + amount })),
-  updateLives: (amount) => set((state) => ({ lives: state.lives + amount })),
+  updateLives: (amount) => set((state) => ({ lives: Math.max(0, state.lives + amount) })),
   updateGameTime: (deltaTime) => set((state) => ({ gameTime: state.gameTime + deltaTime })),
+  updatePlayTime: (deltaTime) => set((state) => ({ playTime: state.playTime + deltaTime })),
   addTower: (tower) => set((state) => ({ towers: [...state.towers, tower] })),
   updateTower: (towerId, updates) =>
     set((state) => ({
@@ -524,6 +826,37 @@ export const useGameStore = create<GameStore>((set, get) => ({
     set((state) => ({
       enemies: state.enemies.map((e) => (e.id === enemyId ? { ...e, ...updates } : e)),
     })),
+  damageEnemy: (enemyId, damage, towerId) => {
+    const state = get();
+    const target = state.enemies.find((e) => e.id === enemyId);
+    if (!target) return;
+
+    // Overkill does not count, same as the backend's damage total
+    if (towerId !== undefined) {
+      set({
+        damageByTowerType: addCount(
+          state.damageByTowerType,
+          towerId,
+          Math.min(damage, Math.max(0, target.health))
+        ),
+      });
+    }
+
+    const newHealth = target.health - damage;
+    state.updateEnemy(target.id, { health: newHealth });
+
+    // Check if enemy died
+    if (newHealth <= 0) {
+      // Auto-deselect if this enemy was selected
+      if (state.selectedEnemy?.id === target.id) {
+        state.selectEnemy(null);
+      }
+      state.removeEnemy(target.id);
+      // Display only: the backend already credited this wave's rewards
+      state.updateCoins(target.scaledReward ?? target.definition.reward);
+      state.incrementWaveEnemiesDealt();
+    }
+  },
 
   addProjectile: (projectile) =>
     set((state) => ({ projectiles: [...state.projectiles, projectile] })),
@@ -536,8 +869,6 @@ export const useGameStore = create<GameStore>((set, get) => ({
       projectiles: state.projectiles.map((p) => (p.id === projectileId ? { ...p, ...updates } : p)),
     })),
 
-  incrementEnemiesKilled: () => set((state) => ({ enemiesKilled: state.enemiesKilled + 1 })),
-
   incrementWaveEnemiesDealt: () =>
     set((state) => ({ waveEnemiesDealt: state.waveEnemiesDealt + 1 })),
 
@@ -556,10 +887,10 @@ export const useGameStore = create<GameStore>((set, get) => ({
 
   processSpawnQueue: (deltaTime) => {
     const state = get();
-    if (state.spawnQueue.length === 0) return;
+    if (state.spawnQueue.length === 0 || !state.currentMap) return;
 
     const newElapsed = state.spawnElapsed + deltaTime;
-    const pathManager = new PathManager();
+    const pathManager = new PathManager(state.currentMap.waypoints);
     const remaining: EnemySpawnData[] = [];
 
     for (const data of state.spawnQueue) {
@@ -576,15 +907,19 @@ export const useGameStore = create<GameStore>((set, get) => ({
         );
 
         state.addEnemy({
-          id: `enemy-${Date.now()}-${Math.random()}`,
+          id: `enemy-${state.gameTime}-${state.random()}`,
           enemyId: data.enemyId,
           definition: enemyDef,
           health: scaledHealth,
           maxHealth: scaledHealth,
           scaledReward,
+          pathProgress: 0,
+          onDiagonalPath: usesDiagonalPath(enemyDef.abilities, state.currentMap.allowDiagonal),
+          nextJumpAt: state.gameTime + (enemyDef.abilities.jump?.intervalMs ?? 0),
           x: spawnPos.x,
           y: spawnPos.y,
           isDead: false,
+          statusEffects: [],
         });
       } else {
         remaining.push(data);
@@ -597,6 +932,9 @@ export const useGameStore = create<GameStore>((set, get) => ({
   // Reposition entities after window resize
   repositionEntitiesAfterResize: () => {
     const gridManager = new GridManager();
+    const waypoints = get().currentMap?.waypoints ?? [];
+    const pathManager = new PathManager(waypoints);
+    const diagonalPathManager = new PathManager(diagonalWaypoints(waypoints));
 
     set((state) => ({
       towers: state.towers.map((tower) => {
@@ -609,15 +947,143 @@ export const useGameStore = create<GameStore>((set, get) => ({
       }),
       enemies: state.enemies.map((enemy) => ({
         ...enemy,
-        y: CanvasState.getEnemyPathY(),
+        ...(enemy.onDiagonalPath ? diagonalPathManager : pathManager).getPositionAtProgress(
+          enemy.pathProgress
+        ),
       })),
     }));
   },
 
+  // Replay recording
+  recordReplayAction: (action) => {
+    if (!get().replayConfig) return;
+    set((state) => ({ replayActions: [...state.replayActions, action] }));
+  },
+
+  // Replay playback: (re)start a replay from its first action
+  loadReplay: (replay) =>
+    set({
+      replay,
+      replayCursor: 0,
+      towerDefinitions: replay.config.towers,
+      enemyDefinitions: replay.config.enemies,
+      currentMap: replay.config.map,
+      gameId: null,
+      coins: replay.config.initialCoins,
+      lives: replay.config.lives,
+      wave: 0,
+      wavesSurvived: 0,
+      waveEnemiesTotal: 0,
+      waveEnemiesDealt: 0,
+      isPlaying: false,
+      enemiesKilled: 0,
+      gameResult: null,
+      gameScore: null,
+      gameTime: 0,
+      playTime: 0,
+      enemiesKilledByType: {},
+      towersBuiltByType: {},
+      damageByTowerType: {},
+      seed: replay.config.seed ?? null,
+      random: createRng(replay.config.seed ?? 0),
+      mutators: replay.config.mutators ?? [],
+      waveResult: null,
+      waveGameOver: false,
+      waveGameWon: false,
+      towers: [],
+      enemies: [],
+      projectiles: [],
+      selectedTowerId: null,
+      selectedTower: null,
+      selectedEnemy: null,
+      spawnQueue: [],
+      spawnElapsed: 0,
+      replayConfig: null,
+      replayActions: [],
+    }),
+
+  // Apply every recorded action whose time has come (called each frame by GameEngine)
+  applyReplayActions: () => {
+    const { replay, replayCursor, gameTime } = get();
+    if (!replay) return;
+
+    let cursor = replayCursor;
+    while (cursor < replay.actions.length && replay.actions[cursor]!.gameTime <= gameTime) {
+      const action = replay.actions[cursor]!;
+      cursor++;
+      set({ replayCursor: cursor });
+
+      switch (action.type) {
+        case 'build': {
+          const stats = get().getTowerLevelStats(action.towerId, 1);
+          if (!stats) break;
+          const pixelPos = new GridManager().gridToPixel(action.gridX, action.gridY);
+          set((state) => ({
+            towers: [
+              ...state.towers,
+              {
+                id: action.towerInstanceId,
+                towerId: action.towerId,
+                gridX: action.gridX,
+                gridY: action.gridY,
+                x: pixelPos.x,
+                y: pixelPos.y,
+                level: 1,
+                branch: MAIN_BRANCH,
+                stats,
+                targetingMode: GAME_CONFIG.DEFAULT_TARGETING_MODE,
+                lastFireTime: 0,
+              },
+            ],
+            coins: action.coins,
+          }));
+          break;
+        }
+        case 'upgrade': {
+          const tower = get().towers.find((t) => t.id === action.towerInstanceId);
+          const branch = action.branch ?? MAIN_BRANCH;
+          const stats = tower && get().getTowerLevelStats(tower.towerId, action.level, branch);
+          if (stats) {
+            get().updateTower(action.towerInstanceId, { level: action.level, branch, stats });
+          }
+          set({ coins: action.coins });
+          break;
+        }
+        case 'sell':
+          set((state) => ({
+            towers: state.towers.filter((t) => t.id !== action.towerInstanceId),
+            coins: action.coins,
+          }));
+          break;
+        case 'targeting':
+          get().updateTower(action.towerInstanceId, { targetingMode: action.targetingMode });
+          break;
+        case 'wave':
+          // Same as GameControls starting a live wave, minus the API call
+          set({
+            wave: action.waveNumber,
+            isPlaying: true,
+            enemyHealthWaveMultiplier: action.enemyHealthWaveMultiplier,
+            enemyRewardWaveMultiplier: action.enemyRewardWaveMultiplier,
+            waveResult: action.result,
+            waveGameOver: action.gameOver,
+            waveGameWon: action.gameWon ?? false,
+          });
+          get().setWaveEnemiesTotal(action.enemies.length);
+          get().setSpawnQueue(action.enemies);
+          break;
+      }
+    }
+  },
+
+  setReplayPaused: (paused) => set({ replayPaused: paused }),
+  setReplaySpeed: (speed) => set({ replaySpeed: speed }),
+
   // Reset game state
   resetGame: () =>
     set({
       gameSpeed: 1,
+      isPaused: false,
       gameId: null,
       coins: 0,
       lives: 0,
@@ -628,9 +1094,21 @@ export const useGameStore = create<GameStore>((set, get) => ({
       isPlaying: false,
       enemiesKilled: 0,
       gameResult: null,
+      gameScore: null,
       gameTime: 0,
+      playTime: 0,
+      enemiesKilledByType: {},
+      towersBuiltByType: {},
+      damageByTowerType: {},
+      seed: null,
+      random: createRng(0),
+      mutators: [],
       enemyHealthWaveMultiplier: 0.1,
       enemyRewardWaveMultiplier: 0.05,
+      waveResult: null,
+      waveGameOver: false,
+      waveGameWon: false,
+      currentMap: null,
       towers: [],
       enemies: [],
       projectiles: [],
@@ -639,5 +1117,11 @@ export const useGameStore = create<GameStore>((set, get) => ({
       selectedEnemy: null,
       spawnQueue: [],
       spawnElapsed: 0,
+      replayConfig: null,
+      replayActions: [],
+      replay: null,
+      replayCursor: 0,
+      replayPaused: false,
+      replaySpeed: 1,
     }),
 }));
@@ -7,26 +7,63 @@ export interface TowerDefinition {
   color: string;
   description: string;
   maxLevel: number;
+  attackPattern: AttackPattern;
 }
 
+// Which cells a tower can shoot into: a circle of `range`, or the cells its
+// chess piece could move to (rook lines, bishop diagonals, knight L-jumps)
+export type AttackPattern = 'radius' | 'rook' | 'bishop' | 'knight';
+
 // Tower Level (Per-level stats for a tower type)
+// Levels form an upgrade tree: nodes of the same level on different branches are alternatives
 export interface TowerLevel {
   id?: number;
   towerId: number;
   level: number;
+  branch: string; // e.g. 'Marksman'; '' is the main branch
+  parentBranch: string; // branch of the level below this upgrades from (ignored at level 1)
   cost: number;
   damage: number;
   range: number;
   fireRate: number; // shots per second
+  damageType: DamageType;
+  projectileType: ProjectileType;
+  splashRadius: number; // pixels, splash only
+  chainCount: number; // extra enemies a chain bounces to
+  chainRange: number; // pixels between chain bounces
+  pierceCount: number; // extra enemies a pierce shot passes through
+  effectType: StatusEffectType | null; // status effect applied on hit
+  effectStrength: number; // see StatusEffect.strength
+  effectDuration: number; // ms
+}
+
+// How a tower's shot travels and which enemies it hits
+export type ProjectileType = 'single' | 'splash' | 'chain' | 'pierce';
+
+// Debuffs towers apply to enemies on hit
+export type StatusEffectType = 'slow' | 'poison' | 'stun' | 'shred';
+
+// One active debuff on an enemy; times are gameTime in ms
+export interface StatusEffect {
+  type: StatusEffectType;
+  strength: number; // slow: fraction of speed removed, poison: damage per second, shred: armor removed, stun: unused
+  expiresAt: number;
+  nextTickAt: number; // poison only
 }
 
+// Damage types: pierce and splash are reduced by armor, magic ignores it
+export type DamageType = 'pierce' | 'splash' | 'magic';
+
+// Fraction of damage resisted per type (negative = weakness)
+export type Resistances = Partial<Record<DamageType, number>>;
+
 // Tower definition with all its levels included
 export interface TowerDefinitionWithLevels extends TowerDefinition {
   levels: TowerLevel[];
 }
 
 // Tower runtime stats (derived from TowerLevel at current level)
-export type TowerStats = Pick<TowerLevel, 'cost' | 'damage' | 'range' | 'fireRate'>;
+export type TowerStats = Omit<TowerLevel, 'id' | 'towerId' | 'level' | 'branch' | 'parentBranch'>;
 
 // Enemy Definition (Static configuration)
 export interface EnemyDefinition {
@@ -38,8 +75,58 @@ export interface EnemyDefinition {
   reward: number; // coins awarded on kill
   color: string;
   size: number;
+  armor: number; // flat damage reduction per hit (ignored by magic)
+  resistances: Resistances;
+  abilities: EnemyAbilities;
+}
+
+// Data-driven enemy abilities; an enemy may have any combination
+export interface EnemyAbilities {
+  jump?: { distance: number; intervalMs: number }; // leap forward along the path (px) periodically
+  diagonal?: boolean; // cut path corners diagonally on maps with allowDiagonal
+  promote?: { atProgress: number; toEnemyId: number }; // become another enemy past this fraction of the path
+  aura?: { radius: number; speedBonus: number; armorBonus: number }; // buff other enemies in range
+}
+
+// One enemy group of a wave; a wave's groups spawn one after another in list order
+export interface WaveEnemyGroup {
+  enemyId: number;
+  count: number;
+  spawnDelayMs: number; // between consecutive spawns of the group
+  difficultyLabel: string;
+}
+
+export interface WaveComposition {
+  waveNumber: number;
+  enemies: WaveEnemyGroup[];
 }
 
+// Map waypoint in grid units; (x, y) is a grid line intersection, so y = 5 runs
+// between rows 4 and 5. Enemies walk the polyline from the first to the last point.
+export interface MapPoint {
+  x: number;
+  y: number;
+}
+
+// Single grid cell (column, row)
+export interface GridCell {
+  gridX: number;
+  gridY: number;
+}
+
+// Map Definition (Static configuration)
+export interface MapDefinition {
+  id: number;
+  name: string;
+  description: string;
+  waypoints: MapPoint[];
+  blockedCells: GridCell[]; // cells where towers cannot be built (usually the path itself)
+  allowDiagonal: boolean; // enemies with the diagonal ability may cut corners
+}
+
+// Which enemy in range a tower shoots at
+export type TargetingMode = 'first' | 'last' | 'strongest' | 'weakest' | 'closest';
+
 // Tower Instance (Runtime game object)
 export interface Tower {
   id: string;
@@ -49,7 +136,9 @@ export interface Tower {
   x: number; // pixel position
   y: number;
   level: number; // NOW REQUIRED
+  branch: string; // upgrade tree branch of the current level
   stats: TowerStats; // Replaces definition field
+  targetingMode: TargetingMode;
   lastFireTime: number;
 }
 
@@ -61,9 +150,13 @@ export interface Enemy {
   health: number;
   maxHealth: number;
   scaledReward?: number; // wave-scaled reward (if different from definition.reward)
+  pathProgress: number; // distance travelled along the map path, in grid units
+  onDiagonalPath: boolean; // fixed at spawn, see EnemyAbilities.diagonal
+  nextJumpAt: number; // gameTime of the next jump, for enemies that can jump
   x: number;
   y: number;
   isDead: boolean;
+  statusEffects: StatusEffect[];
 }
 
 // Projectile (Runtime game object)
@@ -71,9 +164,23 @@ export interface Projectile {
   id: string;
   x: number;
   y: number;
-  targetId: string;
+  targetId: string; // enemy a homing shot follows; pierce shots only aim at it once
   damage: number;
+  damageType: DamageType;
   speed: number;
+  projectileType: ProjectileType;
+  splashRadius: number;
+  chainRange: number;
+  bouncesLeft: number; // chain only
+  piercesLeft: number; // pierce only
+  dirX: number; // pierce only, unit direction of travel
+  dirY: number;
+  travelLeft: number; // pierce only, pixels before the shot expires
+  hitEnemyIds: string[]; // enemies already hit by this shot or its chain
+  towerId: number; // type of the tower that fired it, credited with its damage
+  effectType: StatusEffectType | null;
+  effectStrength: number;
+  effectDuration: number;
 }
 
 // Enemy Spawn Data
@@ -88,6 +195,10 @@ export interface StartGameResponse {
   gameId: string;
   initialCoins: number;
   lives: number;
+  map: MapDefinition;
+  seed: number; // seeds every random choice of the game
+  daily: DailyGame | null; // null unless the game is a daily challenge
+  mutators: MutatorId[];
 }
 
 export interface GameConfigResponse {
@@ -108,27 +219,134 @@ export interface BuildTowerResponse {
   message?: string;
 }
 
+// Server-side wave outcome (authoritative kills, leaks, rewards and lives)
+export interface WaveSimulationResult {
+  waveNumber: number;
+  enemiesSpawned: number;
+  enemiesKilled: number;
+  enemiesLeaked: number;
+  enemiesKilledByType: { [key: string]: number };
+  coinsEarned: number;
+  livesLost: number;
+  damageDealt: number;
+  durationMs: number; // simulated time until the wave was cleared or lost
+}
+
 export interface StartWaveResponse {
   waveNumber: number;
   enemies: EnemySpawnData[];
   enemyHealthWaveMultiplier: number;
   enemyRewardWaveMultiplier: number;
+  result: WaveSimulationResult;
+  coins: number; // session coins after the wave's rewards
+  lives: number; // session lives after the wave's leaks
+  gameOver: boolean;
+  gameWon: boolean; // the game mode's final wave was cleared
 }
 
 export interface EndGameRequest {
   finalWave: number;
   enemiesKilled: number;
+  // Tracked during play; the backend cross-checks them against the session
+  outcome: 'win' | 'loss';
+  duration: number; // ms of play time
+  enemiesKilledByType: { [key: string]: number }; // enemy ID → kills
+  towersBuiltByType: { [key: string]: number }; // tower ID → towers built
+  damageByTowerType: { [key: string]: number }; // tower ID → damage its shots dealt
+  replay?: ReplayUpload;
 }
 
 export interface EndGameResponse {
   success: boolean;
+  score: number;
+  scoreBreakdown: ScoreBreakdown;
+}
+
+// Points a game scored for each part of the formula, before the difficulty multiplier
+export interface ScoreBreakdown {
+  waves: number;
+  lives: number;
+  efficiency: number;
+  time: number;
+  multiplier: number;
+}
+
+// Replay: config snapshot + action log recorded during a game
+export interface ReplayConfig {
+  towers: TowerDefinitionWithLevels[];
+  enemies: EnemyDefinition[];
+  map: MapDefinition;
+  initialCoins: number;
+  lives: number;
+  seed?: number; // absent in replays recorded before seeds
+  mutators?: MutatorId[]; // absent in replays recorded before mutators
 }
 
+// gameTime is the game clock (ms) when the action happened;
+// coins is the session balance reported by the backend after it
+export type ReplayAction =
+  | {
+      type: 'build';
+      gameTime: number;
+      towerInstanceId: string;
+      towerId: number;
+      gridX: number;
+      gridY: number;
+      coins: number;
+    }
+  | {
+      type: 'upgrade';
+      gameTime: number;
+      towerInstanceId: string;
+      level: number;
+      branch?: string; // missing in replays recorded before upgrade trees
+      coins: number;
+    }
+  | { type: 'sell'; gameTime: number; towerInstanceId: string; coins: number }
+  | { type: 'targeting'; gameTime: number; towerInstanceId: string; targetingMode: TargetingMode }
+  | ({ type: 'wave'; gameTime: number } & Omit<StartWaveResponse, 'gameWon'> & {
+        gameWon?: boolean; // missing in replays recorded before finite modes could be won
+      });
+
+export interface GameReplay {
+  id?: number;
+  gameId: string;
+  config: ReplayConfig;
+  actions: ReplayAction[];
+  duration: number; // ms of game time
+  createdAt?: string;
+}
+
+export type ReplayUpload = Omit<GameReplay, 'id' | 'gameId' | 'createdAt'>;
+
+export type SessionStatus = 'active' | 'completed' | 'abandoned';
+
 export interface GameStateResponse {
   coins: number;
   lives: number;
   wave: number;
   towers: Tower[];
+  enemiesKilled: number;
+  status: SessionStatus;
+  waveActive: boolean; // a started wave still has to be completed before towers can change
+  map: MapDefinition | null;
+  seed: number | null; // null for games started before seeds
+  mutators: MutatorId[];
+}
+
+// Resumable game listed on the main screen
+export interface GameSessionSummary {
+  gameId: string;
+  gameMode: '10waves' | '20waves' | 'endless' | 'daily';
+  difficulty: 'easy' | 'normal' | 'hard' | 'custom' | null;
+  mapName: string | null;
+  wave: number;
+  coins: number;
+  lives: number;
+  towerCount: number;
+  startedAt: string;
+  lastUpdated: string;
+  status: SessionStatus;
 }
 
 // Tower Upgrade/Sell API Types
@@ -139,6 +357,12 @@ export interface UpgradeTowerResponse {
   message?: string;
 }
 
+export interface SetTargetingResponse {
+  success: boolean;
+  tower?: Tower;
+  message?: string;
+}
+
 export interface SellTowerResponse {
   success: boolean;
   refundAmount?: number;
@@ -164,13 +388,120 @@ export interface GameStatistics {
   timestamp: string;
   duration: number;
   outcome: 'win' | 'loss';
-  gameMode: '10waves' | '20waves' | 'endless';
+  gameMode: '10waves' | '20waves' | 'endless' | 'daily';
   finalWave: number;
   wavesCompleted: number;
   enemiesKilledTotal: number;
+  enemiesKilledByType: Record<string, number>; // keyed by enemy ID
   towersBuiltTotal: number;
+  towersBuiltByType: Record<string, number>; // keyed by tower ID
   coinsEarned: number;
   coinsSpent: number;
+  damageDealt: number;
+  damageByTowerType?: Record<string, number>; // empty for games recorded before it was tracked
+  playerId?: number | null;
+  playerName?: string | null; // null for anonymous games
+  seed?: number | null; // null for games recorded before seeds
+  customSeed?: boolean; // played on a chosen seed, not in the top scores
+  dailyDate?: string | null; // challenge date of daily games
+  dailyRanked?: boolean;
+  mutators?: MutatorId[]; // in catalog order
+  score?: number; // 0 for games recorded before scoring
+  scoreBreakdown?: ScoreBreakdown | null; // null for games recorded before scoring
+}
+
+// Filters of the top scores; each one given narrows them down
+export interface TopScoreFilters {
+  mutators?: MutatorId[]; // exactly this set, [] for none
+  gameMode?: GameStatistics['gameMode'];
+  difficulty?: GameSettings['mode'];
+}
+
+// Filters of the statistics analytics; each one given narrows the games down
+export interface AnalyticsFilters {
+  gameMode?: GameStatistics['gameMode'];
+  difficulty?: GameSettings['mode'];
+  days?: number; // only games of the last this many days
+}
+
+// Rates in percent
+export interface TowerAnalytics {
+  towerType: string; // tower ID, as in towersBuiltByType
+  gamesPicked: number;
+  pickRate: number; // of all games
+  winRate: number; // of the games that picked it
+  totalBuilt: number;
+  damageDealt: number;
+}
+
+export interface EnemyAnalytics {
+  enemyType: string; // enemy ID, as in enemiesKilledByType
+  kills: number;
+  killShare: number; // percent of all kills
+  gamesSeen: number;
+}
+
+export interface WaveDistributionPoint {
+  wave: number; // final wave reached
+  games: number;
+  wins: number;
+}
+
+export type TrendInterval = 'day' | 'week';
+
+export interface TrendPoint {
+  period: string; // YYYY-MM-DD, the first day of the day or week
+  difficulty: GameSettings['mode'] | null; // null for games recorded without settings
+  games: number;
+  winRate: number; // percent
+  avgWave: number;
+}
+
+// Signed-in player's own summary and games
+export interface PlayerHistoryResponse {
+  summary: StatisticsSummary;
+  games: GameStatistics[];
+}
+
+// Daily challenge: one seed, modifier set and tower loadout per UTC date
+export interface DailyModifier {
+  id: string;
+  name: string;
+  description: string;
+}
+
+export interface DailyChallenge {
+  date: string; // YYYY-MM-DD
+  seed: number;
+  modifiers: DailyModifier[];
+  towerIds: number[]; // the only towers that can be built
+}
+
+export interface DailyGame {
+  date: string;
+  modifiers: string[];
+  towerIds: number[];
+  ranked: boolean; // only a player's first attempt at a date is ranked
+}
+
+export interface DailyLeaderboardResponse {
+  challenge: DailyChallenge;
+  entries: GameStatistics[]; // ranked attempts, best first
+}
+
+// Mutators: optional rule changes picked at game start, freely combinable
+export type MutatorId =
+  | 'doubleSpeed'
+  | 'noSelling'
+  | 'halfRefunds'
+  | 'expensiveTowers'
+  | 'regeneration'
+  | 'fogOfWar';
+
+export interface Mutator {
+  id: MutatorId;
+  name: string;
+  description: string;
 }
 
 // Settings Types
@@ -181,4 +512,79 @@ export interface GameSettings {
   initialLives: number;
   enemyHealthWaveMultiplier: number;
   enemyRewardWaveMultiplier: number;
+  // Endless waves past the last defined one are generated from these
+  endlessBudgetGrowth: number;
+  endlessBossInterval: number; // 0 for no boss waves
+  endlessUnlockWaves: Record<number, number>; // enemy ID -> first wave the generator may use it in
+  // A game's score adds up these points, times the difficulty multiplier
+  scoreWavePoints: number; // per wave cleared
+  scoreLifePoints: number; // per life remaining
+  scoreEfficiencyPoints: number; // for ending with every coin earned unspent
+  scoreTimePoints: number; // per wave cleared at par pace or faster
+  scoreMultiplier: number;
+}
+
+// Config Version Types
+// The editable config is the draft; published versions are immutable
+export interface ConfigVersionSummary {
+  id: number;
+  notes: string;
+  rolledBackFrom: number | null; // the version a rollback restored
+  playerId: number | null;
+  username: string;
+  publishedAt: string;
+}
+
+// Either side of a diff: a version ID or the current draft
+export type ConfigVersionRef = number | 'draft';
+
+export interface ConfigVersionChange {
+  entityType: 'tower' | 'tower_level' | 'enemy' | 'wave' | 'settings' | 'map'; // maps only in imports
+  entityId: string; // tower levels are "towerId:level"
+  field: string;
+  oldValue: unknown; // null when the entity was added
+  newValue: unknown; // null when the entity was removed
+}
+
+export interface ConfigVersionDiff {
+  from: ConfigVersionRef;
+  to: ConfigVersionRef;
+  changes: ConfigVersionChange[];
+}
+
+// Portable config bundle from GET /api/config/export; imports send it back untouched
+export interface ConfigBundle {
+  format: 'chess-tdf-config';
+  formatVersion: number;
+  exportedAt: string;
+  configVersionId: number | null; // the published version exported, null for the draft
+  [section: string]: unknown; // towers, enemies, waves, settings and maps
+}
+
+export interface ConfigImportConflict {
+  entityType: 'tower' | 'enemy' | 'settings' | 'map';
+  entityId: number;
+  message: string;
+}
+
+export interface ConfigImportResult {
+  dryRun: boolean;
+  applied: boolean;
+  changes: ConfigVersionChange[]; // draft -> bundle
+  conflicts: ConfigImportConflict[];
+}
+
+// Auth Types
+export type PlayerRole = 'admin' | 'designer' | 'player';
+
+export interface Player {
+  id: number;
+  username: string;
+  role: PlayerRole;
+  createdAt: string;
+}
+
+export interface AuthResponse {
+  token: string;
+  player: Player;
 }
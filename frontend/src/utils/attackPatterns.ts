@@ -0,0 +1,72 @@
+import type { AttackPattern, GridCell } from '../types';
+
+export const ATTACK_PATTERNS: AttackPattern[] = ['radius', 'rook', 'bishop', 'knight'];
+
+// Towers defined before attack patterns existed shoot anything in range
+export const DEFAULT_ATTACK_PATTERN: AttackPattern = 'radius';
+
+/**
+ * Whether the cell `dx`, `dy` cells away from a tower is one its piece could
+ * move to. Rook lines and bishop diagonals reach `rangeCells` cells; a knight
+ * always hits its eight L-shaped cells, whatever its range. Same rules as the
+ * backend WaveSimulator.
+ */
+export function isPatternCell(
+  pattern: AttackPattern,
+  dx: number,
+  dy: number,
+  rangeCells: number
+): boolean {
+  if (dx === 0 && dy === 0) return false;
+  const adx = Math.abs(dx);
+  const ady = Math.abs(dy);
+  switch (pattern) {
+    case 'radius':
+      return Math.hypot(dx, dy) <= rangeCells;
+    case 'rook':
+      return (adx === 0 || ady === 0) && Math.max(adx, ady) <= rangeCells;
+    case 'bishop':
+      return adx === ady && adx <= rangeCells;
+    case 'knight':
+      return (adx === 1 && ady === 2) || (adx === 2 && ady === 1);
+  }
+}
+
+/**
+ * Whether a tower can shoot an enemy at `target`. Radius towers use the exact
+ * pixel distance; pattern towers check the grid cell the enemy is standing on.
+ */
+export function canAttack(
+  tower: { x: number; y: number; range: number; attackPattern: AttackPattern },
+  target: { x: number; y: number },
+  gridSize: number
+): boolean {
+  if (tower.attackPattern === 'radius') {
+    return Math.hypot(target.x - tower.x, target.y - tower.y) <= tower.range;
+  }
+  const dx = Math.floor(target.x / gridSize) - Math.floor(tower.x / gridSize);
+  const dy = Math.floor(target.y / gridSize) - Math.floor(tower.y / gridSize);
+  return isPatternCell(tower.attackPattern, dx, dy, Math.floor(tower.range / gridSize));
+}
+
+// Board cells a pattern tower at (gridX, gridY) can shoot into, for previews
+export function getPatternCells(
+  pattern: AttackPattern,
+  gridX: number,
+  gridY: number,
+  range: number,
+  gridSize: number,
+  cols: number,
+  rows: number
+): GridCell[] {
+  const rangeCells = Math.floor(range / gridSize);
+  const cells: GridCell[] = [];
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      if (isPatternCell(pattern, x - gridX, y - gridY, rangeCells)) {
+        cells.push({ gridX: x, gridY: y });
+      }
+    }
+  }
+  return cells;
+}
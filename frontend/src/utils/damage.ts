@@ -0,0 +1,21 @@
+import type { DamageType, Resistances } from '../types';
+
+export const DAMAGE_TYPES: DamageType[] = ['pierce', 'splash', 'magic'];
+
+// Every hit deals at least this much, so no enemy is fully immune
+const MIN_DAMAGE = 1;
+
+/**
+ * Damage a single hit deals after armor and resistances.
+ * Armor is subtracted first (magic ignores it), then the resistance for the
+ * damage type scales what is left. Same formula as the backend WaveSimulator.
+ */
+export function calculateDamage(
+  damage: number,
+  damageType: DamageType,
+  target: { armor: number; resistances: Resistances }
+): number {
+  const armor = damageType === 'magic' ? 0 : target.armor;
+  const resistance = target.resistances[damageType] ?? 0;
+  return Math.max(MIN_DAMAGE, Math.round((damage - armor) * (1 - resistance)));
+}
@@ -0,0 +1,69 @@
+import type { Mutator, MutatorId } from '../types';
+
+// Same catalog and rules as the backend; tower costs already come mutated in the game config
+export const MUTATORS: Mutator[] = [
+  { id: 'doubleSpeed', name: 'Double Speed', description: 'Enemies move twice as fast' },
+  { id: 'noSelling', name: 'No Selling', description: 'Towers cannot be sold' },
+  { id: 'halfRefunds', name: 'Half Refunds', description: 'Selling a tower refunds half as much' },
+  {
+    id: 'expensiveTowers',
+    name: 'Expensive Towers',
+    description: 'Building and upgrading towers costs 50% more',
+  },
+  {
+    id: 'regeneration',
+    name: 'Regeneration',
+    description: 'Enemies heal 5% of their max health per second',
+  },
+  {
+    id: 'fogOfWar',
+    name: 'Fog of War',
+    description: 'Enemies are only visible within range of a tower',
+  },
+];
+
+// Share of a tower's total cost refunded when it is sold
+export const SELL_REFUND_RATE = 0.7;
+
+const DOUBLE_SPEED_MULTIPLIER = 2;
+const HALF_REFUNDS_MULTIPLIER = 0.5;
+const REGENERATION_RATE = 0.05; // share of max health healed per second
+
+// Distinct IDs in catalog order, the form the backend stores and filters by
+export function normalizeMutators(mutators: MutatorId[]): MutatorId[] {
+  return MUTATORS.filter((m) => mutators.includes(m.id)).map((m) => m.id);
+}
+
+export function getEnemySpeedMultiplier(mutators: MutatorId[]): number {
+  return mutators.includes('doubleSpeed') ? DOUBLE_SPEED_MULTIPLIER : 1;
+}
+
+// Share of max health an enemy heals per second
+export function getEnemyRegenerationRate(mutators: MutatorId[]): number {
+  return mutators.includes('regeneration') ? REGENERATION_RATE : 0;
+}
+
+export function canSellTowers(mutators: MutatorId[]): boolean {
+  return !mutators.includes('noSelling');
+}
+
+// Coins refunded for a tower that cost `totalInvested` over all its levels
+export function getSellRefund(totalInvested: number, mutators: MutatorId[]): number {
+  const rate = mutators.includes('halfRefunds')
+    ? SELL_REFUND_RATE * HALF_REFUNDS_MULTIPLIER
+    : SELL_REFUND_RATE;
+  return Math.floor(totalInvested * rate);
+}
+
+/**
+ * Whether an enemy can be seen: with fog of war only within range of a tower.
+ * Display only, towers never shoot beyond their range anyway.
+ */
+export function isEnemyRevealed(
+  enemy: { x: number; y: number },
+  towers: { x: number; y: number; stats: { range: number } }[],
+  mutators: MutatorId[]
+): boolean {
+  if (!mutators.includes('fogOfWar')) return true;
+  return towers.some((t) => Math.hypot(enemy.x - t.x, enemy.y - t.y) <= t.stats.range);
+}
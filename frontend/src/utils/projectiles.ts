@@ -0,0 +1,30 @@
+import type { ProjectileType, TowerStats } from '../types';
+
+export const PROJECTILE_TYPES: ProjectileType[] = ['single', 'splash', 'chain', 'pierce'];
+
+// Stats for a plain single-target shot (no splash, chain or pierce)
+export const DEFAULT_PROJECTILE_STATS: Pick<
+  TowerStats,
+  'projectileType' | 'splashRadius' | 'chainCount' | 'chainRange' | 'pierceCount'
+> = {
+  projectileType: 'single',
+  splashRadius: 0,
+  chainCount: 0,
+  chainRange: 0,
+  pierceCount: 0,
+};
+
+// Splash damage falls off linearly to this fraction at the edge of the radius
+const SPLASH_EDGE_DAMAGE = 0.5;
+
+// Each chain bounce deals this fraction of the previous hit
+export const CHAIN_DAMAGE_FALLOFF = 0.75;
+
+/**
+ * Raw (pre-armor) damage a splash deals to an enemy `dist` pixels from the
+ * impact point. Same falloff as the backend WaveSimulator.
+ */
+export function splashDamage(damage: number, dist: number, radius: number): number {
+  if (radius <= 0 || dist > radius) return 0;
+  return damage * (1 - (dist / radius) * (1 - SPLASH_EDGE_DAMAGE));
+}
@@ -0,0 +1,112 @@
+import type { StatusEffect, StatusEffectType, TowerStats } from '../types';
+
+export const STATUS_EFFECT_TYPES: StatusEffectType[] = ['slow', 'poison', 'stun', 'shred'];
+
+// Stats for a tower that applies no status effect
+export const DEFAULT_EFFECT_STATS: Pick<
+  TowerStats,
+  'effectType' | 'effectStrength' | 'effectDuration'
+> = {
+  effectType: null,
+  effectStrength: 0,
+  effectDuration: 0,
+};
+
+// How many instances of each effect an enemy can carry at once. Single-instance
+// effects keep the strongest strength and the latest expiry; stacking effects
+// add an instance per hit and replace the one closest to expiring past the cap.
+const MAX_STACKS: Record<StatusEffectType, number> = {
+  slow: 1,
+  poison: 3,
+  stun: 1,
+  shred: 3,
+};
+
+// Poison deals its damage per second in ticks of this length
+export const POISON_TICK_MS = 500;
+
+// A slow can never stop an enemy outright, that is what stun is for
+export const MAX_SLOW = 0.9;
+
+export function isStatusEffectType(value: unknown): value is StatusEffectType {
+  return STATUS_EFFECT_TYPES.includes(value as StatusEffectType);
+}
+
+/**
+ * Add a hit's effect to an enemy's active effects, following the stacking
+ * rules above. Returns a new array. Same rules as the backend WaveSimulator.
+ */
+export function applyStatusEffect(
+  effects: StatusEffect[],
+  type: StatusEffectType,
+  strength: number,
+  duration: number,
+  now: number
+): StatusEffect[] {
+  const incoming: StatusEffect = {
+    type,
+    strength,
+    expiresAt: now + duration,
+    nextTickAt: now + POISON_TICK_MS,
+  };
+  const same = effects.filter((e) => e.type === type);
+  const others = effects.filter((e) => e.type !== type);
+
+  if (MAX_STACKS[type] === 1) {
+    const current = same[0];
+    if (!current) return [...effects, incoming];
+    return [
+      ...others,
+      {
+        ...current,
+        strength: Math.max(current.strength, strength),
+        expiresAt: Math.max(current.expiresAt, incoming.expiresAt),
+      },
+    ];
+  }
+
+  const stacks = [...same, incoming]
+    .sort((a, b) => b.expiresAt - a.expiresAt)
+    .slice(0, MAX_STACKS[type]);
+  return [...others, ...stacks];
+}
+
+/**
+ * Advance effects to `now`: collect poison ticks that are due and drop
+ * expired effects. Poison ignores armor and resistances.
+ */
+export function tickStatusEffects(
+  effects: StatusEffect[],
+  now: number
+): { effects: StatusEffect[]; damage: number } {
+  let damage = 0;
+  const active: StatusEffect[] = [];
+
+  for (const effect of effects) {
+    let next = effect;
+    if (effect.type === 'poison') {
+      let tickAt = effect.nextTickAt;
+      while (tickAt <= now && tickAt <= effect.expiresAt) {
+        damage += (effect.strength * POISON_TICK_MS) / 1000;
+        tickAt += POISON_TICK_MS;
+      }
+      next = { ...effect, nextTickAt: tickAt };
+    }
+    if (next.expiresAt > now) active.push(next);
+  }
+
+  return { effects: active, damage: Math.round(damage) };
+}
+
+// Stun stops movement outright, otherwise the strongest slow applies
+export function getSpeedMultiplier(effects: StatusEffect[]): number {
+  if (effects.some((e) => e.type === 'stun')) return 0;
+  const slow = Math.max(0, ...effects.filter((e) => e.type === 'slow').map((e) => e.strength));
+  return 1 - Math.min(slow, MAX_SLOW);
+}
+
+// Armor after every active shred stack, never below zero
+export function getEffectiveArmor(armor: number, effects: StatusEffect[]): number {
+  const shred = effects.filter((e) => e.type === 'shred').reduce((sum, e) => sum + e.strength, 0);
+  return Math.max(0, armor - shred);
+}
@@ -1 +1,17 @@
 export const capitalize = (s: string): string => s.charAt(0).toUpperCase() + s.slice(1);
+
+export const formatGameMode = (mode: string): string => {
+  if (mode === '10waves') return '10 Waves';
+  if (mode === '20waves') return '20 Waves';
+  if (mode === 'endless') return 'Endless';
+  if (mode === 'daily') return 'Daily';
+  return mode;
+};
+
+// Milliseconds as m:ss
+export const formatDuration = (ms: number): string => {
+  const seconds = Math.floor(ms / 1000);
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
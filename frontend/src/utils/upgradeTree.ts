@@ -0,0 +1,44 @@
+import type { TowerLevel } from '../types';
+
+// Same tree rules as the backend: each level is a node keyed by (level, branch),
+// and its parentBranch names the node one level below that upgrades into it
+export const MAIN_BRANCH = '';
+
+type LevelNode = Pick<TowerLevel, 'level' | 'branch' | 'parentBranch'>;
+
+export function findLevelNode<T extends LevelNode>(
+  levels: T[],
+  level: number,
+  branch: string
+): T | undefined {
+  return levels.find((l) => l.level === level && l.branch === branch);
+}
+
+// The nodes a tower at this node can upgrade into (more than one is a branch point)
+export function getUpgradeOptions<T extends LevelNode>(
+  levels: T[],
+  level: number,
+  branch: string
+): T[] {
+  return levels.filter((l) => l.level === level + 1 && l.parentBranch === branch);
+}
+
+// The nodes from level 1 up to this one, i.e. everything a tower here has paid for
+export function getUpgradePath<T extends LevelNode>(
+  levels: T[],
+  level: number,
+  branch: string
+): T[] {
+  const path: T[] = [];
+  let node = findLevelNode(levels, level, branch);
+  while (node) {
+    path.unshift(node);
+    node = findLevelNode(levels, node.level - 1, node.parentBranch);
+  }
+  return path;
+}
+
+// Display name of a branch; the main branch has none of its own
+export function getBranchName(branch: string): string {
+  return branch === MAIN_BRANCH ? 'Main' : branch;
+}
@@ -0,0 +1,64 @@
+import { GAME_CONFIG } from '../config/gameConfig';
+import { distance } from './math';
+import type { EnemyDefinition, MapPoint, WaveEnemyGroup } from '../types';
+
+// Labels the default waves use
+export const WAVE_DIFFICULTY_LABELS = ['easy', 'medium', 'hard', 'extreme'];
+
+// Reference cell size in pixels (default canvas, board at 90%), same as the backend board
+const GRID_SIZE = (GAME_CONFIG.DEFAULT_CANVAS_WIDTH * 0.9) / GAME_CONFIG.GRID_COLS;
+
+/**
+ * When each group's first enemy spawns (ms after the wave starts). Groups
+ * spawn one after another and every spawn waits its group's spawn delay,
+ * like the backend WaveService.toSpawns.
+ */
+export function getGroupStartTimes(groups: WaveEnemyGroup[]): number[] {
+  let time = 0;
+  return groups.map((group) => {
+    const start = time;
+    time += group.count * group.spawnDelayMs;
+    return start;
+  });
+}
+
+// Health of every enemy in the wave, scaled like the backend WaveSimulator
+export function getWaveTotalHealth(
+  groups: WaveEnemyGroup[],
+  enemies: EnemyDefinition[],
+  waveNumber: number,
+  healthWaveMultiplier: number
+): number {
+  return groups.reduce((total, group) => {
+    const enemy = enemies.find((e) => e.id === group.enemyId);
+    if (!enemy) return total;
+    const health = Math.round(enemy.health * (1 + waveNumber * healthWaveMultiplier));
+    return total + group.count * health;
+  }, 0);
+}
+
+// Length of a map path in pixels at the reference cell size
+export function getPathLength(waypoints: MapPoint[]): number {
+  return waypoints.slice(1).reduce((length, b, i) => {
+    const a = waypoints[i]!;
+    return length + distance(a.x, a.y, b.x, b.y) * GRID_SIZE;
+  }, 0);
+}
+
+/**
+ * Rough wave length in ms: until the last enemy to spawn in each group walks
+ * the whole path unhindered. Ignores abilities, slows and kills.
+ */
+export function estimateWaveDuration(
+  groups: WaveEnemyGroup[],
+  enemies: EnemyDefinition[],
+  pathLength: number
+): number {
+  const starts = getGroupStartTimes(groups);
+  return groups.reduce((duration, group, i) => {
+    const enemy = enemies.find((e) => e.id === group.enemyId);
+    if (!enemy || group.count < 1) return duration;
+    const lastSpawn = starts[i]! + (group.count - 1) * group.spawnDelayMs;
+    return Math.max(duration, lastSpawn + (pathLength / enemy.speed) * 1000);
+  }, 0);
+}
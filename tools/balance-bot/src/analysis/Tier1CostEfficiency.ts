@@ -8,6 +8,8 @@ import type {
   BalanceIssue,
 } from '../types';
 import { getGridSize } from '../types';
+import { calculateDamage } from '../simulation/damage';
+import { estimateTargetsPerShot } from '../simulation/projectiles';
 
 const ANALYSIS_WAVES = [1, 5, 10] as const;
 
@@ -25,13 +27,16 @@ function computeTowerMetrics(
       const adjustedCost = level.cost * costMultiplier;
       cumulativeCost += adjustedCost;
       const dps = level.damage * level.fireRate;
-      const dpsPerCoin = cumulativeCost > 0 ? dps / cumulativeCost : 0;
+      const targetsPerShot = estimateTargetsPerShot(level);
+      const dpsPerCoin =
+        cumulativeCost > 0 ? (dps * targetsPerShot) / cumulativeCost : 0;
 
       metrics.push({
         towerId: tower.id,
         towerName: tower.name,
         level: level.level,
         dps,
+        targetsPerShot,
         cumulativeCost,
         dpsPerCoin,
       });
@@ -53,7 +58,6 @@ function computeMatchups(
     const sortedLevels = [...tower.levels].sort((a, b) => a.level - b.level);
 
     for (const level of sortedLevels) {
-      const dps = level.damage * level.fireRate;
       const verticalDist = gridSize;
 
       let horizontalCoverage: number;
@@ -65,6 +69,13 @@ function computeMatchups(
       }
 
       for (const enemy of enemies) {
+        // Per-hit damage after this enemy's armor and resistances
+        const hitDamage =
+          level.damage > 0
+            ? calculateDamage(level.damage, level.damageType, enemy)
+            : 0;
+        const effectiveDps = hitDamage * level.fireRate;
+
         for (const wave of ANALYSIS_WAVES) {
           const scaledHealth = Math.round(
             enemy.health *
@@ -73,13 +84,13 @@ function computeMatchups(
           );
           const scaledSpeed = enemy.speed * settings.enemySpeedMultiplier;
 
-          const ttk = dps > 0 ? scaledHealth / dps : Infinity;
+          const ttk = effectiveDps > 0 ? scaledHealth / effectiveDps : Infinity;
           const shotsToKill =
-            level.damage > 0 ? Math.ceil(scaledHealth / level.damage) : Infinity;
+            hitDamage > 0 ? Math.ceil(scaledHealth / hitDamage) : Infinity;
           const overkillRatio =
-            scaledHealth > 0 && level.damage > 0
-              ? (shotsToKill * level.damage) / scaledHealth
-              : level.damage > 0 ? 1 : Infinity;
+            scaledHealth > 0 && hitDamage > 0
+              ? (shotsToKill * hitDamage) / scaledHealth
+              : hitDamage > 0 ? 1 : Infinity;
 
           const rangeCoverageTime =
             scaledSpeed > 0 ? horizontalCoverage / scaledSpeed : Infinity;
@@ -3,13 +3,13 @@ import type {
   EnemyDefinition,
   GameSettings,
   WaveDefinition,
+  MapDefinition,
   WaveAnalysis,
   Tier2Results,
   BalanceIssue,
 } from '../types';
-import { getSpawnX, getDespawnX } from '../types';
-
-const TOTAL_DISTANCE = getDespawnX() - getSpawnX();
+import { MapPath } from '../simulation/MapPath';
+import { estimateTargetsPerShot } from '../simulation/projectiles';
 
 interface TowerDpsInfo {
   towerId: number;
@@ -29,7 +29,8 @@ function buildTowerDpsTable(
     const level1 = tower.levels.find((l) => l.level === 1);
     if (!level1) continue;
 
-    const dps = level1.damage * level1.fireRate;
+    const dps =
+      level1.damage * level1.fireRate * estimateTargetsPerShot(level1);
     const adjustedCost = level1.cost * costMultiplier;
     const dpsPerCoin = adjustedCost > 0 ? dps / adjustedCost : 0;
 
@@ -94,8 +95,10 @@ export function analyzeTier2(
   enemies: EnemyDefinition[],
   settings: GameSettings,
   waves: WaveDefinition[],
+  map: MapDefinition,
   numWaves: number,
 ): Tier2Results {
+  const totalDistance = new MapPath(map.waypoints).length;
   const towerTable = buildTowerDpsTable(towers, settings.towerCostMultiplier);
   const cheapestTowerCost =
     towerTable.length > 0
@@ -148,7 +151,7 @@ export function analyzeTier2(
     // Estimate wave duration
     const travelDuration =
       slowestScaledSpeed > 0 && slowestScaledSpeed < Infinity
-        ? TOTAL_DISTANCE / slowestScaledSpeed
+        ? totalDistance / slowestScaledSpeed
         : 0;
     const totalSpawnTimeSec = totalSpawnTimeMs / 1000;
     const estimatedDuration = Math.max(travelDuration, totalSpawnTimeSec);
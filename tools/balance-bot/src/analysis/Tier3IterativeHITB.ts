@@ -3,6 +3,7 @@ import type {
   EnemyDefinition,
   GameSettings,
   WaveDefinition,
+  MapDefinition,
   Tier3Results,
   SensitivityResult,
   BalanceIssue,
@@ -20,6 +21,9 @@ const PERTURBATION = 0.1;
 /** Strategy used for sensitivity analysis runs (deterministic, middle-ground). */
 const SENSITIVITY_STRATEGY = 'balanced';
 
+/** Seed shared by baseline and perturbed runs, so only the parameter differs. */
+const SENSITIVITY_SEED = 0;
+
 /**
  * Deep-clone a tower definition array so we can safely mutate level stats.
  */
@@ -43,6 +47,7 @@ export async function analyzeTier3(
   enemies: EnemyDefinition[],
   settings: GameSettings,
   waves: WaveDefinition[],
+  map: MapDefinition,
   numWaves: number,
   simRuns: number,
 ): Promise<Tier3Results> {
@@ -58,8 +63,10 @@ export async function analyzeTier3(
         enemies,
         settings,
         waves,
+        map,
         strategy,
         numWaves,
+        run, // each run plays a different, reproducible seed
       );
       const result = engine.run();
       collector.addRun(result);
@@ -78,6 +85,7 @@ export async function analyzeTier3(
     enemies,
     settings,
     waves,
+    map,
     numWaves,
   );
 
@@ -96,6 +104,7 @@ export async function analyzeTier3(
         enemies,
         settings,
         waves,
+        map,
         numWaves,
         tower.id,
         tower.name,
@@ -112,6 +121,7 @@ export async function analyzeTier3(
         enemies,
         settings,
         waves,
+        map,
         numWaves,
         tower.id,
         tower.name,
@@ -128,6 +138,7 @@ export async function analyzeTier3(
         enemies,
         settings,
         waves,
+        map,
         numWaves,
         tower.id,
         tower.name,
@@ -147,6 +158,7 @@ export async function analyzeTier3(
         enemies,
         settings,
         waves,
+        map,
         numWaves,
         enemy.id,
         enemy.name,
@@ -163,6 +175,7 @@ export async function analyzeTier3(
         enemies,
         settings,
         waves,
+        map,
         numWaves,
         enemy.id,
         enemy.name,
@@ -199,6 +212,7 @@ function getBaselineWavesCompleted(
   enemies: EnemyDefinition[],
   settings: GameSettings,
   waves: WaveDefinition[],
+  map: MapDefinition,
   numWaves: number,
 ): number {
   const strategy = getStrategy(SENSITIVITY_STRATEGY);
@@ -207,8 +221,10 @@ function getBaselineWavesCompleted(
     enemies,
     settings,
     waves,
+    map,
     strategy,
     numWaves,
+    SENSITIVITY_SEED,
   );
   const result = engine.run();
   return result.wavesCompleted;
@@ -223,6 +239,7 @@ function runTowerSensitivity(
   enemies: EnemyDefinition[],
   settings: GameSettings,
   waves: WaveDefinition[],
+  map: MapDefinition,
   numWaves: number,
   towerId: number,
   towerName: string,
@@ -246,6 +263,7 @@ function runTowerSensitivity(
     enemies,
     settings,
     waves,
+    map,
     numWaves,
   );
 
@@ -263,6 +281,7 @@ function runTowerSensitivity(
     enemies,
     settings,
     waves,
+    map,
     numWaves,
   );
 
@@ -295,6 +314,7 @@ function runEnemySensitivity(
   enemies: EnemyDefinition[],
   settings: GameSettings,
   waves: WaveDefinition[],
+  map: MapDefinition,
   numWaves: number,
   enemyId: number,
   enemyName: string,
@@ -315,6 +335,7 @@ function runEnemySensitivity(
     plusEnemies,
     settings,
     waves,
+    map,
     numWaves,
   );
 
@@ -329,6 +350,7 @@ function runEnemySensitivity(
     minusEnemies,
     settings,
     waves,
+    map,
     numWaves,
   );
 
@@ -359,6 +381,7 @@ function runSingleSensitivity(
   enemies: EnemyDefinition[],
   settings: GameSettings,
   waves: WaveDefinition[],
+  map: MapDefinition,
   numWaves: number,
 ): number {
   const strategy = getStrategy(SENSITIVITY_STRATEGY);
@@ -367,8 +390,10 @@ function runSingleSensitivity(
     enemies,
     settings,
     waves,
+    map,
     strategy,
     numWaves,
+    SENSITIVITY_SEED,
   );
   const result = engine.run();
   return result.wavesCompleted;
@@ -7,7 +7,10 @@ import type {
   BuildTowerResponse,
   UpgradeTowerResponse,
   SellTowerResponse,
+  SetTargetingResponse,
+  TargetingMode,
   StartWaveResponse,
+  CompleteWaveResponse,
   EndGameRequest,
   EndGameResponse,
 } from '../types';
@@ -25,30 +28,34 @@ export class GamePlayClient {
   async startGame(
     gameMode: GameMode,
     difficulty: SettingsMode,
+    mapId?: number,
+    seed?: number,
   ): Promise<StartGameResponse> {
-    return this.post<StartGameResponse>('/api/game/start', {
+    return this.post<StartGameResponse>('/api/games', {
       gameMode,
       difficulty,
+      ...(mapId != null && { mapId }),
+      ...(seed != null && { seed }),
     });
   }
 
   async getGameState(gameId: string): Promise<GameStateResponse> {
-    return this.get<GameStateResponse>(`/api/game/${gameId}/state`);
+    return this.get<GameStateResponse>(`/api/games/${gameId}`);
   }
 
   async buildTower(
     gameId: string,
     data: BuildTowerRequest,
   ): Promise<BuildTowerResponse> {
-    return this.post<BuildTowerResponse>(`/api/game/${gameId}/tower`, { ...data });
+    return this.post<BuildTowerResponse>(`/api/games/${gameId}/towers`, { ...data });
   }
 
   async upgradeTower(
     gameId: string,
     towerId: string,
   ): Promise<UpgradeTowerResponse> {
-    return this.post<UpgradeTowerResponse>(
-      `/api/game/${gameId}/tower/${towerId}/upgrade`,
+    return this.patch<UpgradeTowerResponse>(
+      `/api/games/${gameId}/towers/${towerId}`,
       {},
     );
   }
@@ -58,28 +65,28 @@ export class GamePlayClient {
     towerId: string,
   ): Promise<SellTowerResponse> {
     return this.delete<SellTowerResponse>(
-      `/api/game/${gameId}/tower/${towerId}`,
+      `/api/games/${gameId}/towers/${towerId}`,
     );
   }
 
-  async startWave(gameId: string): Promise<StartWaveResponse> {
-    return this.post<StartWaveResponse>(`/api/game/${gameId}/wave`, {});
+  async setTowerTargeting(
+    gameId: string,
+    towerId: string,
+    targetingMode: TargetingMode,
+  ): Promise<SetTargetingResponse> {
+    return this.patch<SetTargetingResponse>(
+      `/api/games/${gameId}/towers/${towerId}/targeting`,
+      { targetingMode },
+    );
   }
 
-  async addCoins(
-    gameId: string,
-    amount: number,
-  ): Promise<{ coins: number }> {
-    return this.post<{ coins: number }>(`/api/game/${gameId}/coins`, {
-      amount,
-    });
+  async startWave(gameId: string): Promise<StartWaveResponse> {
+    return this.post<StartWaveResponse>(`/api/games/${gameId}/waves`, {});
   }
 
-  async loseLife(
-    gameId: string,
-  ): Promise<{ lives: number; gameOver: boolean }> {
-    return this.post<{ lives: number; gameOver: boolean }>(
-      `/api/game/${gameId}/life/lose`,
+  async completeWave(gameId: string): Promise<CompleteWaveResponse> {
+    return this.post<CompleteWaveResponse>(
+      `/api/games/${gameId}/waves/complete`,
       {},
     );
   }
@@ -88,7 +95,7 @@ export class GamePlayClient {
     gameId: string,
     data: EndGameRequest,
   ): Promise<EndGameResponse> {
-    return this.post<EndGameResponse>(`/api/game/${gameId}/end`, { ...data });
+    return this.post<EndGameResponse>(`/api/games/${gameId}/end`, { ...data });
   }
 
   private async get<T>(path: string): Promise<T> {
@@ -102,6 +109,13 @@ export class GamePlayClient {
     return this.requestWithRetry<T>('POST', path, body);
   }
 
+  private async patch<T>(
+    path: string,
+    body: Record<string, unknown>,
+  ): Promise<T> {
+    return this.requestWithRetry<T>('PATCH', path, body);
+  }
+
   private async delete<T>(path: string): Promise<T> {
     return this.requestWithRetry<T>('DELETE', path);
   }
@@ -0,0 +1,79 @@
+import { readFileSync } from 'node:fs';
+import type {
+  TowerDefinition,
+  EnemyDefinition,
+  GameSettings,
+  WaveDefinition,
+  WaveEnemy,
+  MapDefinition,
+} from '../types';
+
+export const CONFIG_BUNDLE_FORMAT = 'chess-tdf-config';
+export const CONFIG_BUNDLE_FORMAT_VERSION = 1;
+
+// A config bundle as written by GET /api/config/export
+// (waves are stored one row per enemy group, not grouped by wave)
+interface ConfigBundle {
+  format: string;
+  formatVersion: number;
+  configVersionId: number | null;
+  towers: TowerDefinition[];
+  enemies: EnemyDefinition[];
+  waves: Array<WaveEnemy & { waveNumber: number }>;
+  settings: GameSettings[];
+  maps: MapDefinition[];
+}
+
+// The same data the ApiClient getters return, read from a bundle file
+export interface BundleConfig {
+  configVersionId: number | null;
+  towers: TowerDefinition[];
+  enemies: EnemyDefinition[];
+  waves: WaveDefinition[];
+  settings: GameSettings[];
+  maps: MapDefinition[];
+}
+
+/**
+ * Read an exported config bundle so analysis can run without a backend.
+ * Throws if the file is not a bundle this version understands.
+ */
+export function loadBundle(path: string): BundleConfig {
+  const bundle = JSON.parse(readFileSync(path, 'utf8')) as ConfigBundle;
+
+  if (bundle.format !== CONFIG_BUNDLE_FORMAT) {
+    throw new Error(
+      `${path} is not a config bundle (format "${bundle.format}")`,
+    );
+  }
+  if (bundle.formatVersion > CONFIG_BUNDLE_FORMAT_VERSION) {
+    throw new Error(
+      `${path} uses bundle format ${bundle.formatVersion}; this bot reads up to ${CONFIG_BUNDLE_FORMAT_VERSION}`,
+    );
+  }
+  const lists = ['towers', 'enemies', 'waves', 'settings', 'maps'] as const;
+  for (const list of lists) {
+    if (!Array.isArray(bundle[list])) {
+      throw new Error(`${path} has no ${list} list`);
+    }
+  }
+
+  const waves = new Map<number, WaveEnemy[]>();
+  for (const { waveNumber, enemyId, count, spawnDelayMs } of bundle.waves) {
+    waves.set(waveNumber, [
+      ...(waves.get(waveNumber) ?? []),
+      { enemyId, count, spawnDelayMs },
+    ]);
+  }
+
+  return {
+    configVersionId: bundle.configVersionId,
+    towers: bundle.towers,
+    enemies: bundle.enemies,
+    waves: [...waves]
+      .sort(([a], [b]) => a - b)
+      .map(([waveNumber, enemies]) => ({ waveNumber, enemies })),
+    settings: bundle.settings,
+    maps: bundle.maps,
+  };
+}
@@ -4,13 +4,17 @@ import type {
   GameSettings,
   SettingsMode,
   WaveDefinition,
+  MapDefinition,
 } from '../types';
 
 export class ApiClient {
   private readonly baseUrl: string;
+  private readonly token: string | undefined;
 
-  constructor(baseUrl = 'http://localhost:3001') {
+  // Config changes need a designer or admin token; reads work without one
+  constructor(baseUrl = 'http://localhost:3001', token?: string) {
     this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.token = token;
   }
 
   async getTowers(): Promise<TowerDefinition[]> {
@@ -33,6 +37,10 @@ export class ApiClient {
     return this.get<WaveDefinition[]>('/api/config/waves');
   }
 
+  async getMaps(): Promise<MapDefinition[]> {
+    return this.get<MapDefinition[]>('/api/config/maps');
+  }
+
   async patchTower(id: number, body: Record<string, unknown>): Promise<void> {
     await this.patch(`/api/config/towers/${id}`, body);
   }
@@ -65,6 +73,13 @@ export class ApiClient {
     }
   }
 
+  private writeHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+    };
+  }
+
   private async get<T>(path: string): Promise<T> {
     const url = `${this.baseUrl}${path}`;
     const response = await fetch(url);
@@ -86,7 +101,7 @@ export class ApiClient {
     const url = `${this.baseUrl}${path}`;
     const response = await fetch(url, {
       method: 'PATCH',
-      headers: { 'Content-Type': 'application/json' },
+      headers: this.writeHeaders(),
       body: JSON.stringify(body),
     });
 
@@ -105,7 +120,7 @@ export class ApiClient {
     const url = `${this.baseUrl}${path}`;
     const response = await fetch(url, {
       method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
+      headers: this.writeHeaders(),
       body: JSON.stringify(body),
     });
 
@@ -18,6 +18,7 @@ export interface BotRunResult {
   strategy: string;
   difficulty: string;
   gameMode: string;
+  seed: number; // the game's seed, pass it to --seed to replay the game
   wavesCompleted: number;
   totalWaves: number;
   enemiesKilled: number;
@@ -3,46 +3,26 @@ import type { GamePlayClient } from '../api/GamePlayClient';
 import type { ApiClient } from '../api/client';
 import type {
   TowerDefinition,
-  EnemyDefinition,
   GameSettings,
-  WaveDefinition,
   SettingsMode,
   GameMode,
   GameStateResponse,
   StartWaveResponse,
+  MapDefinition,
 } from '../types';
-import {
-  getGridSize,
-  getSpawnX,
-  getDespawnX,
-  getEnemyPathY,
-  GAME_CONSTANTS,
-} from '../types';
+import { GAME_CONSTANTS, getGridSize } from '../types';
 import type {
   SimState,
   SimTower,
-  SimEnemy,
-  SimProjectile,
   Strategy,
   StrategyAction,
 } from '../simulation/SimulationTypes';
+import { createRng, type Rng } from '../simulation/random';
 import type { BotRunResult } from './BotTypes';
 
-const DELTA_MS = 1000 / GAME_CONSTANTS.FPS;
-const MAX_WAVE_TIME_MS = 60_000;
-
-interface WaveSimResult {
-  killed: number;
-  escaped: number;
-  totalReward: number;
-  livesLost: number;
-}
-
 export class GameBot {
   private readonly gridSize: number;
-  private readonly spawnX: number;
-  private readonly despawnX: number;
-  private readonly enemyPathY: number;
+  private random: Rng = createRng(0); // seeded from the game once it starts
 
   constructor(
     private readonly gamePlayClient: GamePlayClient,
@@ -52,11 +32,10 @@ export class GameBot {
     private readonly gameMode: GameMode,
     private readonly numWaves: number,
     private readonly verbose: boolean = false,
+    private readonly mapId?: number,
+    private readonly seed?: number,
   ) {
     this.gridSize = getGridSize();
-    this.spawnX = getSpawnX();
-    this.despawnX = getDespawnX();
-    this.enemyPathY = getEnemyPathY();
   }
 
   async play(): Promise<BotRunResult> {
@@ -65,17 +44,23 @@ export class GameBot {
     const startResp = await this.gamePlayClient.startGame(
       this.gameMode,
       this.difficulty,
+      this.mapId,
+      this.seed,
     );
     const gameId = startResp.gameId;
-    this.log(chalk.gray(`  Game started: ${gameId}`));
+    const map = startResp.map;
+    this.random = createRng(startResp.seed);
+    this.log(
+      chalk.gray(
+        `  Game started: ${gameId} (map: ${map.name}, seed: ${startResp.seed})`,
+      ),
+    );
 
     // Step 2: Fetch config data
     this.log(chalk.gray('Fetching configuration...'));
-    const [towerDefs, enemyDefs, settingsArr, waves] = await Promise.all([
+    const [towerDefs, settingsArr] = await Promise.all([
       this.configClient.getTowers(),
-      this.configClient.getEnemies(),
       this.configClient.getSettings(this.difficulty),
-      this.configClient.getWaves(),
     ]);
 
     const settings = settingsArr[0];
@@ -85,17 +70,13 @@ export class GameBot {
       );
     }
 
-    const sortedWaves = [...waves].sort(
-      (a, b) => a.waveNumber - b.waveNumber,
-    );
-
     // Track cumulative stats
     let totalKilled = 0;
     let totalEscaped = 0;
     let wavesCompleted = 0;
 
     // Build initial sim state from API
-    let simState = await this.buildSimState(gameId, settings, towerDefs);
+    let simState = await this.buildSimState(gameId, map, settings, towerDefs);
 
     // Step 3: Wave loop
     for (let w = 1; w <= this.numWaves; w++) {
@@ -118,7 +99,7 @@ export class GameBot {
       );
 
       // 3c: Sync state after tower changes
-      simState = await this.buildSimState(gameId, settings, towerDefs);
+      simState = await this.buildSimState(gameId, map, settings, towerDefs);
       simState.wave = w;
 
       // 3d: Start wave via API
@@ -132,55 +113,33 @@ export class GameBot {
         break;
       }
 
-      // 3e: Simulate wave locally
-      const waveDef = this.getWaveDefinition(sortedWaves, waveResp.wave);
-      if (!waveDef) {
-        this.log(chalk.yellow(`  Wave ${w}: no wave definition found`));
-        break;
-      }
+      // 3e: The backend simulates the wave and applies kills, rewards and lives
+      const waveResult = waveResp.result;
 
-      const waveResult = this.simulateWave(
-        simState,
-        waveDef,
-        enemyDefs,
-        settings,
-        waveResp.wave,
-      );
-
-      totalKilled += waveResult.killed;
-      totalEscaped += waveResult.escaped;
-
-      // 3f: Report results to backend
-      if (waveResult.totalReward > 0) {
-        await this.gamePlayClient.addCoins(gameId, waveResult.totalReward);
-      }
-
-      let gameOver = false;
-      for (let i = 0; i < waveResult.livesLost; i++) {
-        const lifeResp = await this.gamePlayClient.loseLife(gameId);
-        if (lifeResp.gameOver) {
-          gameOver = true;
-          break;
-        }
-      }
+      totalKilled += waveResult.enemiesKilled;
+      totalEscaped += waveResult.enemiesLeaked;
+      const gameOver = waveResp.gameOver;
 
       this.log(
         chalk.gray(
-          `  Wave ${w}: killed=${waveResult.killed}, escaped=${waveResult.escaped}, reward=${waveResult.totalReward}`,
+          `  Wave ${w}: killed=${waveResult.enemiesKilled}, escaped=${waveResult.enemiesLeaked}, reward=${waveResult.coinsEarned}`,
         ),
       );
 
       wavesCompleted = w;
 
+      // 3f: Tell the backend the wave is over so towers can change again
+      await this.gamePlayClient.completeWave(gameId);
+
       // 3g: Sync state and check game over
       const gameState = await this.gamePlayClient.getGameState(gameId);
-      if (gameOver || gameState.isOver || gameState.lives <= 0) {
+      if (gameOver || gameState.status !== 'active' || gameState.lives <= 0) {
         this.log(chalk.red(`  Game over after wave ${w}`));
         break;
       }
 
       // Rebuild sim state from fresh API state
-      simState = this.gameStateToSimState(gameState, settings, towerDefs);
+      simState = this.gameStateToSimState(gameState, map, settings, towerDefs);
     }
 
     // Step 4: End game
@@ -193,7 +152,7 @@ export class GameBot {
     await this.gamePlayClient.endGame(gameId, {
       finalWave: wavesCompleted,
       enemiesKilled: totalKilled,
-      outcome,
+      outcome: outcome === 'win' ? 'win' : 'loss',
     });
 
     this.log(
@@ -209,6 +168,7 @@ export class GameBot {
       strategy: this.strategy.name,
       difficulty: this.difficulty,
       gameMode: this.gameMode,
+      seed: startResp.seed,
       wavesCompleted,
       totalWaves: this.numWaves,
       enemiesKilled: totalKilled,
@@ -224,11 +184,12 @@ export class GameBot {
    */
   private async buildSimState(
     gameId: string,
+    map: MapDefinition,
     settings: GameSettings,
     towerDefs: TowerDefinition[],
   ): Promise<SimState> {
     const gameState = await this.gamePlayClient.getGameState(gameId);
-    return this.gameStateToSimState(gameState, settings, towerDefs);
+    return this.gameStateToSimState(gameState, map, settings, towerDefs);
   }
 
   /**
@@ -237,6 +198,7 @@ export class GameBot {
    */
   private gameStateToSimState(
     gameState: GameStateResponse,
+    map: MapDefinition,
     settings: GameSettings,
     towerDefs: TowerDefinition[],
   ): SimState {
@@ -259,6 +221,19 @@ export class GameBot {
         damage: levelDef?.damage ?? 0,
         range: levelDef?.range ?? 0,
         fireRate: levelDef?.fireRate ?? 0,
+        damageType: levelDef?.damageType ?? GAME_CONSTANTS.DEFAULT_DAMAGE_TYPE,
+        projectileType: levelDef?.projectileType ?? 'single',
+        splashRadius: levelDef?.splashRadius ?? 0,
+        chainCount: levelDef?.chainCount ?? 0,
+        chainRange: levelDef?.chainRange ?? 0,
+        pierceCount: levelDef?.pierceCount ?? 0,
+        effectType: levelDef?.effectType ?? null,
+        effectStrength: levelDef?.effectStrength ?? 0,
+        effectDuration: levelDef?.effectDuration ?? 0,
+        attackPattern:
+          def?.attackPattern ?? GAME_CONSTANTS.DEFAULT_ATTACK_PATTERN,
+        targetingMode:
+          t.targetingMode ?? GAME_CONSTANTS.DEFAULT_TARGETING_MODE,
         lastFireTime: -Infinity,
         totalDamageDealt: 0,
         totalInvested: this.computeTotalInvested(def, t.level, settings),
@@ -272,6 +247,7 @@ export class GameBot {
     }
 
     return {
+      map,
       towers,
       enemies: [],
       projectiles: [],
@@ -286,6 +262,7 @@ export class GameBot {
       towerDamage: {},
       enemyKills: {},
       enemyEscapes: {},
+      random: this.random,
     };
   }
 
@@ -362,7 +339,7 @@ export class GameBot {
               gridX: action.gridX,
               gridY: action.gridY,
             });
-            currentCoins = resp.coins;
+            currentCoins = resp.remainingCoins;
             const key = `${action.gridX},${action.gridY}`;
             apiTowerMap.set(key, {
               apiId: resp.tower.id,
@@ -398,7 +375,7 @@ export class GameBot {
               gameId,
               apiTower.apiId,
             );
-            currentCoins = resp.coins;
+            currentCoins = resp.remainingCoins;
             this.log(
               chalk.gray(
                 `    Upgraded tower at (${simTower.gridX}, ${simTower.gridY}) to level ${resp.tower.level}`,
@@ -428,11 +405,11 @@ export class GameBot {
               gameId,
               apiTower.apiId,
             );
-            currentCoins = resp.coins;
+            currentCoins = resp.remainingCoins;
             apiTowerMap.delete(key);
             this.log(
               chalk.gray(
-                `    Sold tower at (${simTower.gridX}, ${simTower.gridY}) for ${resp.refund}`,
+                `    Sold tower at (${simTower.gridX}, ${simTower.gridY}) for ${resp.refundAmount}`,
               ),
             );
           } catch (err: unknown) {
@@ -442,216 +419,41 @@ export class GameBot {
           break;
         }
 
-        case 'none':
-          break;
-      }
-    }
-  }
-
-  /**
-   * Simulate a single wave locally to determine kills, escapes, and rewards.
-   * Uses the same tick-based simulation logic as SimulationEngine.
-   */
-  private simulateWave(
-    simState: SimState,
-    waveDef: WaveDefinition,
-    enemyDefs: EnemyDefinition[],
-    settings: GameSettings,
-    waveNumber: number,
-  ): WaveSimResult {
-    // Build spawn queue
-    const spawnQueue: Array<{ enemyId: number; spawnTime: number }> = [];
-    let cumulativeTime = 0;
-    for (const group of waveDef.enemies) {
-      for (let i = 0; i < group.count; i++) {
-        spawnQueue.push({
-          enemyId: group.enemyId,
-          spawnTime: cumulativeTime,
-        });
-        cumulativeTime += group.spawnDelayMs;
-      }
-    }
+        case 'targeting': {
+          if (action.targetTowerInstanceId == null || !action.targetingMode)
+            break;
 
-    // Clone towers with reset fire timers for this wave
-    const simTowers: SimTower[] = simState.towers.map((t) => ({
-      ...t,
-      lastFireTime: -Infinity,
-      totalDamageDealt: 0,
-    }));
-
-    const enemies: SimEnemy[] = [];
-    const projectiles: SimProjectile[] = [];
-    let nextEnemyId = 1;
-    let nextProjectileId = 1;
-
-    let killed = 0;
-    let escaped = 0;
-    let totalReward = 0;
-
-    let spawnIndex = 0;
-    let time = 0;
-
-    while (time < MAX_WAVE_TIME_MS) {
-      // Spawn enemies
-      while (
-        spawnIndex < spawnQueue.length &&
-        spawnQueue[spawnIndex]!.spawnTime <= time
-      ) {
-        const entry = spawnQueue[spawnIndex]!;
-        const enemyDef = enemyDefs.find((e) => e.id === entry.enemyId);
-        if (enemyDef) {
-          const scaledHealth = this.scaleHealth(
-            enemyDef.health,
-            settings,
-            waveNumber,
-          );
-          const scaledSpeed =
-            enemyDef.speed * settings.enemySpeedMultiplier;
-          const scaledReward = this.scaleReward(
-            enemyDef.reward,
-            settings,
-            waveNumber,
+          const simTower = simState.towers.find(
+            (t) => t.id === action.targetTowerInstanceId,
           );
+          if (!simTower) break;
 
-          enemies.push({
-            id: nextEnemyId++,
-            enemyId: enemyDef.id,
-            x: this.spawnX,
-            y: this.enemyPathY,
-            health: scaledHealth,
-            maxHealth: scaledHealth,
-            speed: scaledSpeed,
-            reward: scaledReward,
-            isDead: false,
-            hasEscaped: false,
-          });
-        }
-        spawnIndex++;
-      }
-
-      // Move enemies
-      for (const enemy of enemies) {
-        if (enemy.isDead || enemy.hasEscaped) continue;
-        enemy.x += (enemy.speed * DELTA_MS) / 1000;
-
-        if (enemy.x >= this.despawnX) {
-          enemy.hasEscaped = true;
-          escaped++;
-        }
-      }
-
-      // Tower targeting and firing
-      for (const tower of simTowers) {
-        if (tower.fireRate <= 0) continue;
-        const cooldownMs = 1000 / tower.fireRate;
-        if (time - tower.lastFireTime < cooldownMs) continue;
-
-        let nearestEnemy: SimEnemy | null = null;
-        let nearestDist = Infinity;
-
-        for (const enemy of enemies) {
-          if (enemy.isDead || enemy.hasEscaped) continue;
-          const dist = calcDistance(tower.x, tower.y, enemy.x, enemy.y);
-          if (dist <= tower.range && dist < nearestDist) {
-            nearestDist = dist;
-            nearestEnemy = enemy;
-          }
-        }
-
-        if (nearestEnemy) {
-          tower.lastFireTime = time;
-          projectiles.push({
-            id: nextProjectileId++,
-            x: tower.x,
-            y: tower.y,
-            targetId: nearestEnemy.id,
-            damage: tower.damage,
-            speed: GAME_CONSTANTS.PROJECTILE_SPEED,
-          });
-        }
-      }
+          const key = `${simTower.gridX},${simTower.gridY}`;
+          const apiTower = apiTowerMap.get(key);
+          if (!apiTower) break;
 
-      // Move projectiles
-      const activeProjectiles: SimProjectile[] = [];
-      for (const proj of projectiles) {
-        const target = enemies.find((e) => e.id === proj.targetId);
-        if (!target || target.isDead || target.hasEscaped) continue;
-
-        const dx = target.x - proj.x;
-        const dy = target.y - proj.y;
-        const dist = Math.sqrt(dx * dx + dy * dy);
-
-        if (dist < GAME_CONSTANTS.HIT_THRESHOLD) {
-          target.health -= proj.damage;
-          if (target.health <= 0) {
-            target.isDead = true;
-            killed++;
-            totalReward += target.reward;
+          try {
+            await this.gamePlayClient.setTowerTargeting(
+              gameId,
+              apiTower.apiId,
+              action.targetingMode,
+            );
+            this.log(
+              chalk.gray(
+                `    Tower at (${simTower.gridX}, ${simTower.gridY}) now targets ${action.targetingMode}`,
+              ),
+            );
+          } catch (err: unknown) {
+            const msg = err instanceof Error ? err.message : String(err);
+            this.log(chalk.yellow(`    Targeting change failed: ${msg}`));
           }
-          continue;
+          break;
         }
 
-        const moveAmount = (proj.speed * DELTA_MS) / 1000;
-        if (dist > 0) {
-          proj.x += (dx / dist) * moveAmount;
-          proj.y += (dy / dist) * moveAmount;
-        }
-        activeProjectiles.push(proj);
+        case 'none':
+          break;
       }
-      projectiles.length = 0;
-      projectiles.push(...activeProjectiles);
-
-      time += DELTA_MS;
-
-      // Check if wave is complete
-      const allSpawned = spawnIndex >= spawnQueue.length;
-      const allResolved = enemies.every(
-        (e) => e.isDead || e.hasEscaped,
-      );
-      if (allSpawned && allResolved) break;
     }
-
-    return {
-      killed,
-      escaped,
-      totalReward,
-      livesLost: escaped,
-    };
-  }
-
-  private scaleHealth(
-    baseHealth: number,
-    settings: GameSettings,
-    wave: number,
-  ): number {
-    return Math.round(
-      baseHealth *
-        settings.enemyHealthMultiplier *
-        (1 + wave * settings.enemyHealthWaveMultiplier),
-    );
-  }
-
-  private scaleReward(
-    baseReward: number,
-    settings: GameSettings,
-    wave: number,
-  ): number {
-    return Math.round(
-      baseReward *
-        settings.enemyRewardMultiplier *
-        (1 + wave * settings.enemyRewardWaveMultiplier),
-    );
-  }
-
-  private getWaveDefinition(
-    waves: WaveDefinition[],
-    waveNum: number,
-  ): WaveDefinition | undefined {
-    const exact = waves.find((w) => w.waveNumber === waveNum);
-    if (exact) return exact;
-
-    if (waves.length === 0) return undefined;
-    return waves[waves.length - 1];
   }
 
   private log(message: string): void {
@@ -660,12 +462,3 @@ export class GameBot {
     }
   }
 }
-
-function calcDistance(
-  x1: number,
-  y1: number,
-  x2: number,
-  y2: number,
-): number {
-  return Math.sqrt((x2 - x1) ** 2 + (y2 - y1) ** 2);
-}
@@ -2,11 +2,13 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import { ApiClient } from './api/client';
 import { GamePlayClient } from './api/GamePlayClient';
+import { loadBundle, type BundleConfig } from './api/bundle';
 import { classifyTowers, classifyEnemies } from './analysis/Classifier';
 import { analyzeTier1 } from './analysis/Tier1CostEfficiency';
 import { analyzeTier2 } from './analysis/Tier2WaveScaling';
 import { analyzeTier3 } from './analysis/Tier3IterativeHITB';
 import { SimulationEngine } from './simulation/SimulationEngine';
+import { createSeed } from './simulation/random';
 import {
   getStrategy,
   getAllStrategyNames,
@@ -17,7 +19,7 @@ import { generateSuggestions } from './suggestions/SuggestionEngine';
 import { applySuggestions, printDryRun } from './suggestions/PatchGenerator';
 import { GameBot } from './bot/GameBot';
 import type { BotRunResult } from './bot/BotTypes';
-import type { SettingsMode, GameMode } from './types';
+import type { SettingsMode, GameMode, MapDefinition } from './types';
 
 const program = new Command();
 
@@ -36,6 +38,7 @@ program
   .option('--tier <n>', 'Analysis tier (1, 2, 3, or all)', 'all')
   .option('--url <url>', 'Backend URL', 'http://localhost:3001')
   .option('--difficulty <d>', 'Difficulty to analyze', 'normal')
+  .option('--map <id>', 'Map ID to simulate on (defaults to the first map)')
   .option('--waves <n>', 'Number of waves to analyze', '10')
   .option('--sim-runs <n>', 'Number of simulation runs per strategy (Tier 3)', '3')
   .option('--format <f>', 'Output format (console, json)', 'console')
@@ -45,6 +48,7 @@ program
       tier: string;
       url: string;
       difficulty: string;
+      map?: string;
       waves: string;
       simRuns: string;
       format: string;
@@ -72,11 +76,12 @@ program
 
       // Fetch data
       console.log(chalk.gray('Fetching game configuration...'));
-      const [towers, enemies, settingsArr, waves] = await Promise.all([
+      const [towers, enemies, settingsArr, waves, maps] = await Promise.all([
         client.getTowers(),
         client.getEnemies(),
         client.getSettings(difficulty),
         client.getWaves(),
+        client.getMaps(),
       ]);
 
       const settings = settingsArr[0];
@@ -87,6 +92,8 @@ program
         process.exit(1);
       }
 
+      const map = selectMap(maps, opts.map);
+
       if (opts.verbose) {
         console.log(
           chalk.gray(
@@ -115,6 +122,122 @@ program
           enemies,
           settings,
           waves,
+          map,
+          numWaves,
+        );
+        reporter.reportTier2(tier2Results);
+      }
+
+      // Tier 3
+      if (tier === null || tier === 3) {
+        console.log(
+          chalk.gray(
+            `\nRunning Tier 3 analysis (${simRuns} runs per strategy)...`,
+          ),
+        );
+        const tier3Results = await analyzeTier3(
+          towers,
+          enemies,
+          settings,
+          waves,
+          map,
+          numWaves,
+          simRuns,
+        );
+        reporter.reportTier3(tier3Results);
+      }
+
+      console.log('');
+      console.log(chalk.bold('Analysis complete.'));
+    },
+  );
+
+program
+  .command('analyze-bundle <file>')
+  .description(
+    'Run balance analysis on an exported config bundle (no backend needed)',
+  )
+  .option('--tier <n>', 'Analysis tier (1, 2, 3, or all)', 'all')
+  .option('--difficulty <d>', 'Difficulty to analyze', 'normal')
+  .option('--map <id>', 'Map ID to simulate on (defaults to the first map)')
+  .option('--waves <n>', 'Number of waves to analyze', '10')
+  .option('--sim-runs <n>', 'Number of simulation runs per strategy (Tier 3)', '3')
+  .option('--format <f>', 'Output format (console, json)', 'console')
+  .option('--verbose', 'Show detailed output')
+  .action(
+    async (
+      file: string,
+      opts: {
+        tier: string;
+        difficulty: string;
+        map?: string;
+        waves: string;
+        simRuns: string;
+        format: string;
+        verbose?: boolean;
+      },
+    ) => {
+      const tier = opts.tier === 'all' ? null : Number(opts.tier);
+      const difficulty = opts.difficulty as SettingsMode;
+      const numWaves = Number(opts.waves);
+      const simRuns = Number(opts.simRuns);
+      const reporter = createReporter(opts.format);
+
+      // Load data
+      console.log(chalk.gray(`Reading config bundle ${file}...`));
+      let bundle: BundleConfig;
+      try {
+        bundle = loadBundle(file);
+      } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : String(err);
+        console.error(chalk.red(`Cannot read bundle: ${msg}`));
+        process.exit(1);
+      }
+      const { towers, enemies, waves, maps } = bundle;
+
+      const settings = bundle.settings.find((s) => s.mode === difficulty);
+      if (!settings) {
+        console.error(
+          chalk.red(`No settings found for difficulty "${difficulty}".`),
+        );
+        process.exit(1);
+      }
+
+      const map = selectMap(maps, opts.map);
+
+      if (opts.verbose) {
+        const source =
+          bundle.configVersionId !== null
+            ? `version ${bundle.configVersionId}`
+            : 'the draft';
+        console.log(
+          chalk.gray(
+            `  Loaded ${towers.length} towers, ${enemies.length} enemies, settings for "${difficulty}" from ${source}`,
+          ),
+        );
+      }
+
+      // Classification
+      const classifiedTowers = classifyTowers(towers);
+      const classifiedEnemies = classifyEnemies(enemies);
+      reporter.reportClassification(classifiedTowers, classifiedEnemies);
+
+      // Tier 1
+      if (tier === null || tier === 1) {
+        console.log(chalk.gray('\nRunning Tier 1 analysis...'));
+        const tier1Results = analyzeTier1(towers, enemies, settings);
+        reporter.reportTier1(tier1Results);
+      }
+
+      // Tier 2
+      if (tier === null || tier === 2) {
+        console.log(chalk.gray('\nRunning Tier 2 analysis...'));
+        const tier2Results = analyzeTier2(
+          towers,
+          enemies,
+          settings,
+          waves,
+          map,
           numWaves,
         );
         reporter.reportTier2(tier2Results);
@@ -132,6 +255,7 @@ program
           enemies,
           settings,
           waves,
+          map,
           numWaves,
           simRuns,
         );
@@ -153,6 +277,8 @@ program
   )
   .option('--waves <n>', 'Number of waves to simulate', '10')
   .option('--difficulty <d>', 'Difficulty setting', 'normal')
+  .option('--map <id>', 'Map ID to simulate on (defaults to the first map)')
+  .option('--seed <n>', 'Seed for random choices (defaults to a random seed)')
   .option('--url <url>', 'Backend URL', 'http://localhost:3001')
   .option('--format <f>', 'Output format (console, json)', 'console')
   .option('--verbose', 'Show per-wave details')
@@ -161,12 +287,15 @@ program
       strategy: string;
       waves: string;
       difficulty: string;
+      map?: string;
+      seed?: string;
       url: string;
       format: string;
       verbose?: boolean;
     }) => {
       const difficulty = opts.difficulty as SettingsMode;
       const numWaves = Number(opts.waves);
+      const seed = opts.seed != null ? Number(opts.seed) : createSeed();
       const isJson = opts.format === 'json';
       const client = new ApiClient(opts.url);
 
@@ -185,11 +314,12 @@ program
 
       // Fetch data
       console.log(chalk.gray('Fetching game configuration...'));
-      const [towers, enemies, settingsArr, waves] = await Promise.all([
+      const [towers, enemies, settingsArr, waves, maps] = await Promise.all([
         client.getTowers(),
         client.getEnemies(),
         client.getSettings(difficulty),
         client.getWaves(),
+        client.getMaps(),
       ]);
 
       const settings = settingsArr[0];
@@ -200,6 +330,8 @@ program
         process.exit(1);
       }
 
+      const map = selectMap(maps, opts.map);
+
       // Resolve strategy
       let strategy;
       try {
@@ -212,7 +344,7 @@ program
 
       console.log(
         chalk.gray(
-          `Running simulation: strategy="${strategy.name}", waves=${numWaves}, difficulty="${difficulty}"`,
+          `Running simulation: strategy="${strategy.name}", waves=${numWaves}, difficulty="${difficulty}", seed=${seed}`,
         ),
       );
 
@@ -222,8 +354,10 @@ program
         enemies,
         settings,
         waves,
+        map,
         strategy,
         numWaves,
+        seed,
       );
       const result = engine.run();
 
@@ -254,6 +388,7 @@ program
         console.log(chalk.bold('='.repeat(50)));
         console.log(`  Strategy:        ${result.strategy}`);
         console.log(`  Difficulty:      ${result.difficulty}`);
+        console.log(`  Seed:            ${result.seed}`);
         console.log(
           `  Waves completed: ${result.wavesCompleted} / ${result.totalWaves}`,
         );
@@ -318,18 +453,26 @@ program
   .description('Generate balance suggestions from analysis')
   .option('--url <url>', 'Backend URL', 'http://localhost:3001')
   .option('--difficulty <d>', 'Difficulty to analyze', 'normal')
+  .option('--map <id>', 'Map ID to simulate on (defaults to the first map)')
   .option('--waves <n>', 'Number of waves to analyze', '10')
   .option('--sim-runs <n>', 'Number of simulation runs per strategy (Tier 3)', '3')
   .option('--apply', 'Apply suggestions via API')
+  .option(
+    '--token <token>',
+    'Designer or admin auth token (needed for --apply)',
+    process.env['CHESS_TDF_TOKEN'],
+  )
   .option('--dry-run', 'Show API calls without executing')
   .option('--format <f>', 'Output format (console, json)', 'console')
   .action(
     async (opts: {
       url: string;
       difficulty: string;
+      map?: string;
       waves: string;
       simRuns: string;
       apply?: boolean;
+      token?: string;
       dryRun?: boolean;
       format: string;
     }) => {
@@ -337,7 +480,7 @@ program
       const numWaves = Number(opts.waves);
       const simRuns = Number(opts.simRuns);
       const reporter = createReporter(opts.format);
-      const client = new ApiClient(opts.url);
+      const client = new ApiClient(opts.url, opts.token);
 
       // Health check
       console.log(chalk.gray(`Connecting to ${opts.url}...`));
@@ -354,11 +497,12 @@ program
 
       // Fetch data
       console.log(chalk.gray('Fetching game configuration...'));
-      const [towers, enemies, settingsArr, waves] = await Promise.all([
+      const [towers, enemies, settingsArr, waves, maps] = await Promise.all([
         client.getTowers(),
         client.getEnemies(),
         client.getSettings(difficulty),
         client.getWaves(),
+        client.getMaps(),
       ]);
 
       const settings = settingsArr[0];
@@ -369,6 +513,8 @@ program
         process.exit(1);
       }
 
+      const map = selectMap(maps, opts.map);
+
       // Run Tier 1 analysis
       console.log(chalk.gray('\nRunning Tier 1 analysis...'));
       const tier1Results = analyzeTier1(towers, enemies, settings);
@@ -381,6 +527,7 @@ program
         enemies,
         settings,
         waves,
+        map,
         numWaves,
       );
       reporter.reportTier2(tier2Results);
@@ -396,6 +543,7 @@ program
         enemies,
         settings,
         waves,
+        map,
         numWaves,
         simRuns,
       );
@@ -431,6 +579,7 @@ program
   .option('--format <f>', 'Output format (console, json)', 'console')
   .option('--url <url>', 'Backend URL', 'http://localhost:3001')
   .option('--difficulty <d>', 'Difficulty', 'normal')
+  .option('--map <id>', 'Map ID to simulate on (defaults to the first map)')
   .option('--waves <n>', 'Number of waves', '10')
   .option('--sim-runs <n>', 'Number of simulation runs per strategy (Tier 3)', '3')
   .action(
@@ -438,6 +587,7 @@ program
       format: string;
       url: string;
       difficulty: string;
+      map?: string;
       waves: string;
       simRuns: string;
     }) => {
@@ -462,11 +612,12 @@ program
 
       // Fetch data
       console.log(chalk.gray('Fetching game configuration...'));
-      const [towers, enemies, settingsArr, waves] = await Promise.all([
+      const [towers, enemies, settingsArr, waves, maps] = await Promise.all([
         client.getTowers(),
         client.getEnemies(),
         client.getSettings(difficulty),
         client.getWaves(),
+        client.getMaps(),
       ]);
 
       const settings = settingsArr[0];
@@ -477,6 +628,8 @@ program
         process.exit(1);
       }
 
+      const map = selectMap(maps, opts.map);
+
       // Classification
       const classifiedTowers = classifyTowers(towers);
       const classifiedEnemies = classifyEnemies(enemies);
@@ -494,6 +647,7 @@ program
         enemies,
         settings,
         waves,
+        map,
         numWaves,
       );
       reporter.reportTier2(tier2Results);
@@ -509,6 +663,7 @@ program
         enemies,
         settings,
         waves,
+        map,
         numWaves,
         simRuns,
       );
@@ -528,6 +683,8 @@ program
     'balanced',
   )
   .option('--difficulty <d>', 'Difficulty', 'normal')
+  .option('--map <id>', 'Map ID to play on (defaults to the first map)')
+  .option('--seed <n>', 'Seed for every game (defaults to a new seed per game)')
   .option('--waves <n>', 'Number of waves', '10')
   .option('--game-mode <m>', 'Game mode (10waves, 20waves, endless)', '10waves')
   .option('--url <url>', 'Backend URL', 'http://localhost:3001')
@@ -539,6 +696,8 @@ program
     async (opts: {
       strategy: string;
       difficulty: string;
+      map?: string;
+      seed?: string;
       waves: string;
       gameMode: string;
       url: string;
@@ -607,6 +766,8 @@ program
             gameMode,
             numWaves,
             opts.verbose,
+            opts.map != null ? Number(opts.map) : undefined,
+            opts.seed != null ? Number(opts.seed) : undefined,
           );
 
           try {
@@ -632,6 +793,20 @@ program
 
 program.parse();
 
+function selectMap(maps: MapDefinition[], mapId?: string): MapDefinition {
+  const map =
+    mapId != null ? maps.find((m) => m.id === Number(mapId)) : maps[0];
+  if (!map) {
+    console.error(
+      chalk.red(
+        mapId != null ? `Map ${mapId} not found.` : 'No maps configured.',
+      ),
+    );
+    process.exit(1);
+  }
+  return map;
+}
+
 function printBotResult(result: BotRunResult): void {
   const outcomeStr =
     result.outcome === 'win' ? chalk.green('WIN') : chalk.red('LOSS');
@@ -642,6 +817,7 @@ function printBotResult(result: BotRunResult): void {
   console.log(`  Strategy:        ${result.strategy}`);
   console.log(`  Difficulty:      ${result.difficulty}`);
   console.log(`  Game mode:       ${result.gameMode}`);
+  console.log(`  Seed:            ${result.seed}`);
   console.log(
     `  Waves completed: ${result.wavesCompleted} / ${result.totalWaves}`,
   );
@@ -133,13 +133,13 @@ export class ConsoleReporter {
     );
 
     console.log(
-      `  ${padRight('Tower', nameWidth)}  ${padLeft('Lvl', 3)}  ${padLeft('DPS', 8)}  ${padLeft('Cost', 8)}  ${padLeft('DPS/Coin', 10)}`,
+      `  ${padRight('Tower', nameWidth)}  ${padLeft('Lvl', 3)}  ${padLeft('DPS', 8)}  ${padLeft('Targets', 7)}  ${padLeft('Cost', 8)}  ${padLeft('DPS/Coin', 10)}`,
     );
-    console.log(`  ${'-'.repeat(nameWidth + 35)}`);
+    console.log(`  ${'-'.repeat(nameWidth + 44)}`);
 
     for (const m of results.towerMetrics) {
       console.log(
-        `  ${padRight(m.towerName, nameWidth)}  ${padLeft(String(m.level), 3)}  ${padLeft(m.dps.toFixed(1), 8)}  ${padLeft(m.cumulativeCost.toFixed(0), 8)}  ${padLeft(m.dpsPerCoin.toFixed(4), 10)}`,
+        `  ${padRight(m.towerName, nameWidth)}  ${padLeft(String(m.level), 3)}  ${padLeft(m.dps.toFixed(1), 8)}  ${padLeft(m.targetsPerShot.toFixed(2), 7)}  ${padLeft(m.cumulativeCost.toFixed(0), 8)}  ${padLeft(m.dpsPerCoin.toFixed(4), 10)}`,
       );
     }
 
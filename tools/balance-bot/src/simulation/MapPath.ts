@@ -0,0 +1,84 @@
+import type { MapPoint } from '../types';
+import { getGridSize } from '../types';
+
+interface PathSegment {
+  x: number;
+  y: number;
+  dx: number;
+  dy: number;
+  start: number; // path distance (px) at the segment's first point
+  length: number;
+}
+
+/**
+ * Enemy path in pixels, built from a map's waypoint polyline (grid units).
+ * Mirrors the backend WaveSimulator and frontend PathManager.
+ */
+export class MapPath {
+  private readonly segments: PathSegment[] = [];
+  readonly length: number;
+
+  constructor(waypoints: MapPoint[]) {
+    const gridSize = getGridSize();
+    let length = 0;
+
+    for (let i = 0; i < waypoints.length - 1; i++) {
+      const a = waypoints[i]!;
+      const b = waypoints[i + 1]!;
+      const dx = (b.x - a.x) * gridSize;
+      const dy = (b.y - a.y) * gridSize;
+      const segLength = Math.sqrt(dx * dx + dy * dy);
+      if (segLength === 0) continue;
+
+      this.segments.push({
+        x: a.x * gridSize,
+        y: a.y * gridSize,
+        dx,
+        dy,
+        start: length,
+        length: segLength,
+      });
+      length += segLength;
+    }
+
+    this.length = length;
+  }
+
+  /**
+   * Pixel position after travelling `progress` pixels along the path.
+   */
+  positionAt(progress: number): { x: number; y: number } {
+    for (const seg of this.segments) {
+      if (progress <= seg.start + seg.length) {
+        const t = Math.max(0, (progress - seg.start) / seg.length);
+        return { x: seg.x + seg.dx * t, y: seg.y + seg.dy * t };
+      }
+    }
+
+    const last = this.segments[this.segments.length - 1];
+    return last ? { x: last.x + last.dx, y: last.y + last.dy } : { x: 0, y: 0 };
+  }
+
+  /**
+   * Shortest pixel distance from a point to the path.
+   */
+  distanceTo(x: number, y: number): number {
+    let best = Infinity;
+
+    for (const seg of this.segments) {
+      const t = Math.min(
+        1,
+        Math.max(
+          0,
+          ((x - seg.x) * seg.dx + (y - seg.y) * seg.dy) /
+            (seg.length * seg.length),
+        ),
+      );
+      const px = seg.x + seg.dx * t;
+      const py = seg.y + seg.dy * t;
+      best = Math.min(best, Math.sqrt((x - px) ** 2 + (y - py) ** 2));
+    }
+
+    return best;
+  }
+}
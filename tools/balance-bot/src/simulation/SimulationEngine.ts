@@ -3,16 +3,29 @@ import type {
   EnemyDefinition,
   GameSettings,
   WaveDefinition,
+  MapDefinition,
   SimulationRunResult,
   WaveSimMetrics,
+  TargetingMode,
 } from '../types';
+import { GAME_CONSTANTS, getGridSize } from '../types';
+import { MapPath } from './MapPath';
+import { calculateDamage } from './damage';
+import { CHAIN_DAMAGE_FALLOFF, splashDamage } from './projectiles';
+import { canAttack } from './attackPatterns';
 import {
-  GAME_CONSTANTS,
-  getGridSize,
-  getSpawnX,
-  getDespawnX,
-  getEnemyPathY,
-} from '../types';
+  diagonalWaypoints,
+  getAuraBonus,
+  shouldPromote,
+  usesDiagonalPath,
+} from './abilities';
+import {
+  applyStatusEffect,
+  getEffectiveArmor,
+  getSpeedMultiplier,
+  tickStatusEffects,
+} from './statusEffects';
+import { createRng } from './random';
 import type {
   SimState,
   SimTower,
@@ -31,31 +44,39 @@ export class SimulationEngine {
   private readonly enemies: EnemyDefinition[];
   private readonly settings: GameSettings;
   private readonly waves: WaveDefinition[];
+  private readonly map: MapDefinition;
   private readonly strategy: Strategy;
   private readonly numWaves: number;
+  private readonly seed: number;
   private readonly gridSize: number;
-  private readonly spawnX: number;
-  private readonly despawnX: number;
-  private readonly enemyPathY: number;
+  private readonly path: MapPath;
+  private readonly diagonalPath: MapPath;
+  private readonly blockedCells: Set<string>;
 
   constructor(
     towers: TowerDefinition[],
     enemies: EnemyDefinition[],
     settings: GameSettings,
     waves: WaveDefinition[],
+    map: MapDefinition,
     strategy: Strategy,
     numWaves: number,
+    seed: number,
   ) {
     this.towers = towers;
     this.enemies = enemies;
     this.settings = settings;
     this.waves = waves.sort((a, b) => a.waveNumber - b.waveNumber);
+    this.map = map;
     this.strategy = strategy;
     this.numWaves = numWaves;
+    this.seed = seed;
     this.gridSize = getGridSize();
-    this.spawnX = getSpawnX();
-    this.despawnX = getDespawnX();
-    this.enemyPathY = getEnemyPathY();
+    this.path = new MapPath(map.waypoints);
+    this.diagonalPath = new MapPath(diagonalWaypoints(map.waypoints));
+    this.blockedCells = new Set(
+      map.blockedCells.map((c) => `${c.gridX},${c.gridY}`),
+    );
   }
 
   run(): SimulationRunResult {
@@ -122,30 +143,105 @@ export class SimulationEngine {
               state.wave,
             );
 
+            const path = usesDiagonalPath(
+              enemyDef.abilities,
+              this.map.allowDiagonal,
+            )
+              ? this.diagonalPath
+              : this.path;
+            const spawnPos = path.positionAt(0);
             const enemy: SimEnemy = {
               id: state.nextEnemyId++,
               enemyId: enemyDef.id,
-              x: this.spawnX,
-              y: this.enemyPathY,
+              progress: 0,
+              x: spawnPos.x,
+              y: spawnPos.y,
               health: scaledHealth,
               maxHealth: scaledHealth,
+              armor: enemyDef.armor,
+              resistances: enemyDef.resistances,
               speed: scaledSpeed,
               reward: scaledReward,
               isDead: false,
               hasEscaped: false,
+              effects: [],
+              path,
+              abilities: enemyDef.abilities,
+              aura: { speedBonus: 0, armorBonus: 0 },
+              nextJumpAt:
+                state.time + (enemyDef.abilities.jump?.intervalMs ?? 0),
             };
             state.enemies.push(enemy);
           }
           spawnIndex++;
         }
 
-        // Move enemies
+        // Apply damage and credit the kill; towerInstanceId is null for poison
+        // ticks, which count toward the wave but not toward any tower
+        const damageEnemy = (
+          enemy: SimEnemy,
+          damage: number,
+          towerInstanceId: number | null,
+        ): void => {
+          enemy.health -= damage;
+          waveDamageDealt += damage;
+
+          const tower = state.towers.find((t) => t.id === towerInstanceId);
+          if (tower) {
+            tower.totalDamageDealt += damage;
+            state.towerDamage[tower.towerId] =
+              (state.towerDamage[tower.towerId] ?? 0) + damage;
+          }
+
+          if (enemy.health <= 0) {
+            enemy.isDead = true;
+            state.coins += enemy.reward;
+            waveCoinsEarned += enemy.reward;
+            waveEnemiesKilled++;
+            state.enemyKills[enemy.enemyId] =
+              (state.enemyKills[enemy.enemyId] ?? 0) + 1;
+          }
+        };
+
+        // Auras are read from positions at the start of the tick
+        const active = state.enemies.filter((e) => !e.isDead && !e.hasEscaped);
+        for (const enemy of active) {
+          enemy.aura = getAuraBonus(enemy, active);
+        }
+
+        // Move enemies along their path, after status effects tick
         for (const enemy of state.enemies) {
           if (enemy.isDead || enemy.hasEscaped) continue;
-          enemy.x += (enemy.speed * DELTA_MS) / 1000;
+          const ticked = tickStatusEffects(enemy.effects, state.time);
+          enemy.effects = ticked.effects;
+          if (ticked.damage > 0) {
+            damageEnemy(enemy, ticked.damage, null);
+            if (enemy.isDead) continue;
+          }
+
+          const speedMultiplier =
+            getSpeedMultiplier(enemy.effects) * (1 + enemy.aura.speedBonus);
+          enemy.progress += (enemy.speed * speedMultiplier * DELTA_MS) / 1000;
+
+          // Stunned enemies cannot jump; the jump waits until the stun ends
+          const jump = enemy.abilities.jump;
+          if (jump && state.time >= enemy.nextJumpAt && speedMultiplier > 0) {
+            enemy.progress += jump.distance;
+            enemy.nextJumpAt = state.time + jump.intervalMs;
+          }
+
+          const pos = enemy.path.positionAt(enemy.progress);
+          enemy.x = pos.x;
+          enemy.y = pos.y;
+
+          if (
+            shouldPromote(enemy.abilities, enemy.progress, enemy.path.length)
+          ) {
+            this.promote(enemy, state.wave);
+          }
 
           // Check escape
-          if (enemy.x >= this.despawnX) {
+          if (enemy.progress >= enemy.path.length) {
             enemy.hasEscaped = true;
             state.lives--;
             waveEnemiesEscaped++;
@@ -159,36 +255,106 @@ export class SimulationEngine {
           const cooldownMs = 1000 / tower.fireRate;
           if (state.time - tower.lastFireTime < cooldownMs) continue;
 
-          // Find nearest alive enemy in range
-          let nearestEnemy: SimEnemy | null = null;
-          let nearestDist = Infinity;
+          // Pick an alive enemy it can attack by the tower's targeting mode
+          let target: SimEnemy | null = null;
+          let bestScore = -Infinity;
 
           for (const enemy of state.enemies) {
             if (enemy.isDead || enemy.hasEscaped) continue;
+            if (!canAttack(tower, enemy, this.gridSize)) continue;
             const dist = distance(tower.x, tower.y, enemy.x, enemy.y);
-            if (dist <= tower.range && dist < nearestDist) {
-              nearestDist = dist;
-              nearestEnemy = enemy;
+            const score = targetScore(tower.targetingMode, enemy, dist);
+            if (score > bestScore) {
+              bestScore = score;
+              target = enemy;
             }
           }
 
-          if (nearestEnemy) {
+          if (target) {
             tower.lastFireTime = state.time;
+            const aim = distance(tower.x, tower.y, target.x, target.y) || 1;
             const projectile: SimProjectile = {
               id: state.nextProjectileId++,
+              towerInstanceId: tower.id,
               x: tower.x,
               y: tower.y,
-              targetId: nearestEnemy.id,
+              targetId: target.id,
               damage: tower.damage,
+              damageType: tower.damageType,
               speed: GAME_CONSTANTS.PROJECTILE_SPEED,
+              projectileType: tower.projectileType,
+              splashRadius: tower.splashRadius,
+              chainRange: tower.chainRange,
+              bouncesLeft: tower.chainCount,
+              piercesLeft: tower.pierceCount,
+              dirX: (target.x - tower.x) / aim,
+              dirY: (target.y - tower.y) / aim,
+              travelLeft: tower.range + GAME_CONSTANTS.HIT_THRESHOLD,
+              hitEnemyIds: [],
+              effectType: tower.effectType,
+              effectStrength: tower.effectStrength,
+              effectDuration: tower.effectDuration,
             };
             state.projectiles.push(projectile);
           }
         }
 
+        // Apply one hit after (shredded) armor/resistances, credited to the
+        // shooting tower, then the shot's status effect
+        const hitEnemy = (
+          enemy: SimEnemy,
+          proj: SimProjectile,
+          rawDamage: number,
+        ): void => {
+          if (enemy.isDead || enemy.hasEscaped) return;
+          const damage = calculateDamage(rawDamage, proj.damageType, {
+            armor: getEffectiveArmor(
+              enemy.armor + enemy.aura.armorBonus,
+              enemy.effects,
+            ),
+            resistances: enemy.resistances,
+          });
+          damageEnemy(enemy, damage, proj.towerInstanceId);
+
+          if (proj.effectType && !enemy.isDead) {
+            enemy.effects = applyStatusEffect(
+              enemy.effects,
+              proj.effectType,
+              proj.effectStrength,
+              proj.effectDuration,
+              state.time,
+            );
+          }
+        };
+
         // Move projectiles toward target
         const activeProjectiles: SimProjectile[] = [];
         for (const proj of state.projectiles) {
+          const moveAmount = (proj.speed * DELTA_MS) / 1000;
+
+          // Pierce shots fly straight, hitting each enemy they pass once
+          if (proj.projectileType === 'pierce') {
+            let spent = false;
+            for (const enemy of state.enemies) {
+              if (enemy.isDead || enemy.hasEscaped) continue;
+              if (proj.hitEnemyIds.includes(enemy.id)) continue;
+              const dist = distance(proj.x, proj.y, enemy.x, enemy.y);
+              if (dist >= GAME_CONSTANTS.HIT_THRESHOLD) continue;
+              hitEnemy(enemy, proj, proj.damage);
+              proj.hitEnemyIds.push(enemy.id);
+              if (proj.piercesLeft-- <= 0) {
+                spent = true;
+                break;
+              }
+            }
+            if (spent || proj.travelLeft <= 0) continue;
+            proj.x += proj.dirX * moveAmount;
+            proj.y += proj.dirY * moveAmount;
+            proj.travelLeft -= moveAmount;
+            activeProjectiles.push(proj);
+            continue;
+          }
+
           const target = state.enemies.find((e) => e.id === proj.targetId);
 
           // If target is dead or escaped, remove projectile
@@ -200,34 +366,53 @@ export class SimulationEngine {
 
           // Collision check
           if (dist < GAME_CONSTANTS.HIT_THRESHOLD) {
-            target.health -= proj.damage;
-            waveDamageDealt += proj.damage;
-
-            // Find the tower that shot this (by damage match on the active towers)
-            // Track damage on towers
-            for (const tower of state.towers) {
-              if (tower.damage === proj.damage) {
-                tower.totalDamageDealt += proj.damage;
-                state.towerDamage[tower.towerId] =
-                  (state.towerDamage[tower.towerId] ?? 0) + proj.damage;
-                break;
+            hitEnemy(target, proj, proj.damage);
+
+            // Splash: nearby enemies take damage that falls off with distance
+            if (proj.projectileType === 'splash') {
+              for (const enemy of state.enemies) {
+                if (enemy === target) continue;
+                const damage = splashDamage(
+                  proj.damage,
+                  distance(target.x, target.y, enemy.x, enemy.y),
+                  proj.splashRadius,
+                );
+                if (damage > 0) hitEnemy(enemy, proj, damage);
               }
             }
 
-            if (target.health <= 0) {
-              target.isDead = true;
-              state.coins += target.reward;
-              waveCoinsEarned += target.reward;
-              waveEnemiesKilled++;
-              state.enemyKills[target.enemyId] =
-                (state.enemyKills[target.enemyId] ?? 0) + 1;
+            // Chain: jump to the nearest enemy not yet hit
+            if (proj.projectileType === 'chain' && proj.bouncesLeft > 0) {
+              const hitEnemyIds = [...proj.hitEnemyIds, target.id];
+              let next: SimEnemy | null = null;
+              let nextDist = proj.chainRange;
+              for (const enemy of state.enemies) {
+                if (enemy.isDead || enemy.hasEscaped) continue;
+                if (hitEnemyIds.includes(enemy.id)) continue;
+                const d = distance(target.x, target.y, enemy.x, enemy.y);
+                if (d <= nextDist) {
+                  next = enemy;
+                  nextDist = d;
+                }
+              }
+              if (next) {
+                activeProjectiles.push({
+                  ...proj,
+                  id: state.nextProjectileId++,
+                  x: target.x,
+                  y: target.y,
+                  targetId: next.id,
+                  damage: proj.damage * CHAIN_DAMAGE_FALLOFF,
+                  bouncesLeft: proj.bouncesLeft - 1,
+                  hitEnemyIds,
+                });
+              }
             }
             // Projectile is consumed; do not keep
             continue;
           }
 
           // Move toward target
-          const moveAmount = (proj.speed * DELTA_MS) / 1000;
           if (dist > 0) {
             proj.x += (dx / dist) * moveAmount;
             proj.y += (dy / dist) * moveAmount;
@@ -296,6 +481,7 @@ export class SimulationEngine {
     return {
       strategy: this.strategy.name,
       difficulty: this.settings.mode,
+      seed: this.seed,
       wavesCompleted,
       totalWaves: this.numWaves,
       enemiesKilled: totalEnemiesKilled,
@@ -311,6 +497,7 @@ export class SimulationEngine {
 
   private initState(): SimState {
     return {
+      map: this.map,
       towers: [],
       enemies: [],
       projectiles: [],
@@ -325,6 +512,7 @@ export class SimulationEngine {
       towerDamage: {},
       enemyKills: {},
       enemyEscapes: {},
+      random: createRng(this.seed),
     };
   }
 
@@ -355,6 +543,31 @@ export class SimulationEngine {
     return queue;
   }
 
+  // Turn an enemy into its promotion target, keeping its health share.
+  // Abilities are replaced (or dropped if the target is missing), so an enemy
+  // promotes at most once.
+  private promote(enemy: SimEnemy, wave: number): void {
+    const targetId = enemy.abilities.promote?.toEnemyId;
+    const promoted = this.enemies.find((e) => e.id === targetId);
+    if (!promoted) {
+      enemy.abilities = {};
+      return;
+    }
+
+    const maxHealth = this.scaleHealth(promoted.health, wave);
+    enemy.health = Math.max(
+      1,
+      Math.round((enemy.health / enemy.maxHealth) * maxHealth),
+    );
+    enemy.maxHealth = maxHealth;
+    enemy.enemyId = promoted.id;
+    enemy.armor = promoted.armor;
+    enemy.resistances = promoted.resistances;
+    enemy.speed = promoted.speed * this.settings.enemySpeedMultiplier;
+    enemy.reward = this.scaleReward(promoted.reward, wave);
+    enemy.abilities = promoted.abilities;
+  }
+
   private scaleHealth(baseHealth: number, wave: number): number {
     return Math.round(
       baseHealth *
@@ -412,6 +625,17 @@ export class SimulationEngine {
             damage: level1.damage,
             range: level1.range,
             fireRate: level1.fireRate,
+            damageType: level1.damageType,
+            projectileType: level1.projectileType,
+            splashRadius: level1.splashRadius,
+            chainCount: level1.chainCount,
+            chainRange: level1.chainRange,
+            pierceCount: level1.pierceCount,
+            effectType: level1.effectType,
+            effectStrength: level1.effectStrength,
+            effectDuration: level1.effectDuration,
+            attackPattern: towerDef.attackPattern,
+            targetingMode: GAME_CONSTANTS.DEFAULT_TARGETING_MODE,
             lastFireTime: -Infinity,
             totalDamageDealt: 0,
             totalInvested: cost,
@@ -451,6 +675,15 @@ export class SimulationEngine {
           tower.damage = nextLevelDef.damage;
           tower.range = nextLevelDef.range;
           tower.fireRate = nextLevelDef.fireRate;
+          tower.damageType = nextLevelDef.damageType;
+          tower.projectileType = nextLevelDef.projectileType;
+          tower.splashRadius = nextLevelDef.splashRadius;
+          tower.chainCount = nextLevelDef.chainCount;
+          tower.chainRange = nextLevelDef.chainRange;
+          tower.pierceCount = nextLevelDef.pierceCount;
+          tower.effectType = nextLevelDef.effectType;
+          tower.effectStrength = nextLevelDef.effectStrength;
+          tower.effectDuration = nextLevelDef.effectDuration;
           tower.totalInvested += cost;
           break;
         }
@@ -474,6 +707,17 @@ export class SimulationEngine {
           break;
         }
 
+        case 'targeting': {
+          if (action.targetTowerInstanceId == null || !action.targetingMode)
+            break;
+
+          const tower = state.towers.find(
+            (t) => t.id === action.targetTowerInstanceId,
+          );
+          if (tower) tower.targetingMode = action.targetingMode;
+          break;
+        }
+
         case 'none':
           break;
       }
@@ -497,8 +741,8 @@ export class SimulationEngine {
       return false;
     }
 
-    // Check restricted rows (enemy path)
-    if (GAME_CONSTANTS.RESTRICTED_ROWS.includes(gridY)) {
+    // Check cells blocked by the map (enemy path)
+    if (this.blockedCells.has(`${gridX},${gridY}`)) {
       return false;
     }
 
@@ -513,3 +757,23 @@ export class SimulationEngine {
 function distance(x1: number, y1: number, x2: number, y2: number): number {
   return Math.sqrt((x2 - x1) ** 2 + (y2 - y1) ** 2);
 }
+
+// Mirrors the frontend TowerSystem and backend WaveSimulator: highest score wins
+function targetScore(
+  mode: TargetingMode,
+  enemy: SimEnemy,
+  dist: number,
+): number {
+  switch (mode) {
+    case 'first':
+      return enemy.progress;
+    case 'last':
+      return -enemy.progress;
+    case 'strongest':
+      return enemy.health;
+    case 'weakest':
+      return -enemy.health;
+    case 'closest':
+      return -dist;
+  }
+}
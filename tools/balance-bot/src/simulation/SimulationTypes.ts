@@ -1,4 +1,19 @@
-import type { TowerDefinition, GameSettings } from '../types';
+import type { MapPath } from './MapPath';
+import type { AuraBonus } from './abilities';
+import type { Rng } from './random';
+import type {
+  TowerDefinition,
+  GameSettings,
+  EnemyAbilities,
+  MapDefinition,
+  TargetingMode,
+  AttackPattern,
+  DamageType,
+  ProjectileType,
+  Resistances,
+  StatusEffect,
+  StatusEffectType,
+} from '../types';
 
 export interface SimTower {
   id: number;
@@ -11,6 +26,17 @@ export interface SimTower {
   damage: number;
   range: number;
   fireRate: number;
+  damageType: DamageType;
+  projectileType: ProjectileType;
+  splashRadius: number;
+  chainCount: number;
+  chainRange: number;
+  pierceCount: number;
+  effectType: StatusEffectType | null;
+  effectStrength: number;
+  effectDuration: number;
+  attackPattern: AttackPattern;
+  targetingMode: TargetingMode;
   lastFireTime: number;
   totalDamageDealt: number;
   totalInvested: number; // cumulative cost of this tower
@@ -19,26 +45,49 @@ export interface SimTower {
 export interface SimEnemy {
   id: number;
   enemyId: number;
+  progress: number; // pixels travelled along the map path
   x: number;
   y: number;
   health: number;
   maxHealth: number;
+  armor: number;
+  resistances: Resistances;
   speed: number; // px/s, already scaled by difficulty
   reward: number; // already scaled by wave
   isDead: boolean;
   hasEscaped: boolean;
+  effects: StatusEffect[];
+  path: MapPath; // normal or diagonal, fixed at spawn
+  abilities: EnemyAbilities;
+  aura: AuraBonus; // bonus from nearby aura carriers this tick
+  nextJumpAt: number; // sim time (ms)
 }
 
 export interface SimProjectile {
   id: number;
+  towerInstanceId: number; // SimTower.id that fired it
   x: number;
   y: number;
   targetId: number;
   damage: number;
+  damageType: DamageType;
   speed: number; // 400 px/s
+  projectileType: ProjectileType;
+  splashRadius: number;
+  chainRange: number;
+  bouncesLeft: number; // chain only
+  piercesLeft: number; // pierce only
+  dirX: number; // pierce only, unit direction of travel
+  dirY: number;
+  travelLeft: number; // pierce only, px before the shot expires
+  hitEnemyIds: number[]; // enemies already hit by this shot or its chain
+  effectType: StatusEffectType | null;
+  effectStrength: number;
+  effectDuration: number;
 }
 
 export interface SimState {
+  map: MapDefinition;
   towers: SimTower[];
   enemies: SimEnemy[];
   projectiles: SimProjectile[];
@@ -53,6 +102,7 @@ export interface SimState {
   towerDamage: Record<number, number>; // towerId -> total damage dealt
   enemyKills: Record<number, number>; // enemyId -> kills
   enemyEscapes: Record<number, number>; // enemyId -> escapes
+  random: Rng; // seeded from the run, strategies use it instead of Math.random
 }
 
 export interface SpawnEntry {
@@ -61,11 +111,12 @@ export interface SpawnEntry {
 }
 
 export interface StrategyAction {
-  type: 'build' | 'upgrade' | 'sell' | 'none';
+  type: 'build' | 'upgrade' | 'sell' | 'targeting' | 'none';
   towerId?: number; // tower definition ID (for build)
   gridX?: number;
   gridY?: number;
-  targetTowerInstanceId?: number; // for upgrade/sell
+  targetTowerInstanceId?: number; // for upgrade/sell/targeting
+  targetingMode?: TargetingMode; // for targeting
 }
 
 export interface Strategy {
@@ -0,0 +1,58 @@
+import type { EnemyAbilities, MapPoint } from '../types';
+
+export interface AuraBonus {
+  speedBonus: number;
+  armorBonus: number;
+}
+
+/**
+ * Path for enemies with the diagonal ability on maps that allow it: join the
+ * midpoints of consecutive segments so every corner is cut by a diagonal.
+ * Same path as the game and backend.
+ */
+export function diagonalWaypoints(waypoints: MapPoint[]): MapPoint[] {
+  if (waypoints.length < 3) return waypoints;
+  const midpoints = waypoints.slice(1).map((b, i) => {
+    const a = waypoints[i]!;
+    return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+  });
+  return [waypoints[0]!, ...midpoints, waypoints[waypoints.length - 1]!];
+}
+
+export function usesDiagonalPath(
+  abilities: EnemyAbilities,
+  allowDiagonal: boolean,
+): boolean {
+  return allowDiagonal && abilities.diagonal === true;
+}
+
+// Promote once the enemy has walked far enough along its path (px)
+export function shouldPromote(
+  abilities: EnemyAbilities,
+  progress: number,
+  pathLength: number,
+): boolean {
+  return (
+    !!abilities.promote && progress >= abilities.promote.atProgress * pathLength
+  );
+}
+
+/**
+ * Bonus `target` gets from aura carriers in range (never from itself). Auras
+ * do not stack: each bonus comes from the strongest aura in range.
+ */
+export function getAuraBonus<
+  T extends { x: number; y: number; abilities: EnemyAbilities },
+>(target: T, enemies: T[]): AuraBonus {
+  let speedBonus = 0;
+  let armorBonus = 0;
+  for (const source of enemies) {
+    const aura = source.abilities.aura;
+    if (!aura || source === target) continue;
+    if (Math.hypot(source.x - target.x, source.y - target.y) > aura.radius)
+      continue;
+    speedBonus = Math.max(speedBonus, aura.speedBonus);
+    armorBonus = Math.max(armorBonus, aura.armorBonus);
+  }
+  return { speedBonus, armorBonus };
+}
@@ -0,0 +1,52 @@
+import type { TowerLevel } from '../types';
+
+// Splash damage falls off linearly to this fraction at the edge of the radius
+const SPLASH_EDGE_DAMAGE = 0.5;
+
+// Assumed gap between enemies walking the path in a packed group (px)
+const GROUP_SPACING = 30;
+
+// Each chain bounce deals this fraction of the previous hit
+export const CHAIN_DAMAGE_FALLOFF = 0.75;
+
+/**
+ * Raw (pre-armor) damage a splash deals to an enemy `dist` px from the impact
+ * point. Same falloff as the game and backend.
+ */
+export function splashDamage(
+  damage: number,
+  dist: number,
+  radius: number,
+): number {
+  if (radius <= 0 || dist > radius) return 0;
+  return damage * (1 - (dist / radius) * (1 - SPLASH_EDGE_DAMAGE));
+}
+
+/**
+ * Expected number of full-damage hits one shot lands on a packed group of
+ * enemies walking in single file. Single shots always count 1.
+ */
+export function estimateTargetsPerShot(level: TowerLevel): number {
+  switch (level.projectileType) {
+    case 'splash': {
+      let targets = 1;
+      for (let d = GROUP_SPACING; d <= level.splashRadius; d += GROUP_SPACING) {
+        // Neighbours ahead of and behind the impact
+        targets += 2 * splashDamage(1, d, level.splashRadius);
+      }
+      return targets;
+    }
+    case 'chain': {
+      if (level.chainRange < GROUP_SPACING) return 1;
+      let targets = 1;
+      for (let i = 1; i <= level.chainCount; i++) {
+        targets += CHAIN_DAMAGE_FALLOFF ** i;
+      }
+      return targets;
+    }
+    case 'pierce':
+      return 1 + level.pierceCount;
+    default:
+      return 1;
+  }
+}
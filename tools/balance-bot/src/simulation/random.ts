@@ -0,0 +1,22 @@
+// A random number generator returning floats in [0, 1), like Math.random
+export type Rng = () => number;
+
+/**
+ * Seeded generator (mulberry32), the same as the backend's, so a run can be
+ * reproduced from its seed.
+ */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// A fresh seed (an unsigned 32-bit integer) for runs not given one
+export function createSeed(): number {
+  return Math.floor(Math.random() * 2 ** 32);
+}
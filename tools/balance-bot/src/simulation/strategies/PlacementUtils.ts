@@ -1,49 +1,74 @@
-import { GAME_CONSTANTS } from '../../types';
-import type { TowerDefinition, GameSettings } from '../../types';
+import { GAME_CONSTANTS, getGridSize } from '../../types';
+import type {
+  TowerDefinition,
+  GameSettings,
+  GridCell,
+  MapDefinition,
+} from '../../types';
+import { MapPath } from '../MapPath';
 import type { SimState, StrategyAction } from '../SimulationTypes';
 
 /**
- * Row priority: closest to enemy path (rows 4-5) first, expanding outward.
- * Towers closer to the path have better range coverage.
+ * Reference tower range (in grid cells) used to score how much of the
+ * enemy path a cell covers. Roughly a level-1 tower's range.
  */
-const ROW_PRIORITY = [3, 6, 2, 7, 1, 8, 0, 9] as const;
+const COVERAGE_RADIUS_CELLS = 2.5;
 
-/**
- * Number of edge columns to skip on each side.
- * Enemies spawn on the left and despawn on the right, so edge towers
- * have minimal coverage time.
- */
-const EDGE_MARGIN = 2;
+/** Path sampling step (in grid cells) for coverage scoring. */
+const COVERAGE_STEP_CELLS = 0.25;
 
 /**
- * Get column priority: center columns first, skipping edge columns.
- * For a 20-column grid with EDGE_MARGIN=2, uses columns 2-17 ordered from center out.
+ * Get cell priority for tower placement on a map.
+ * Cells covering the most path length within COVERAGE_RADIUS_CELLS come first,
+ * then cells closest to the path, then center columns. Blocked cells are excluded.
  */
-export function getColumnPriority(): number[] {
-  const cols: number[] = [];
-  const mid = Math.floor(GAME_CONSTANTS.GRID_COLS / 2);
-  const minCol = EDGE_MARGIN;
-  const maxCol = GAME_CONSTANTS.GRID_COLS - EDGE_MARGIN;
-
-  for (let offset = 0; offset < GAME_CONSTANTS.GRID_COLS; offset++) {
-    const left = mid - offset;
-    const right = mid + offset;
-    if (left >= minCol && left < maxCol && !cols.includes(left)) {
-      cols.push(left);
-    }
-    if (right >= minCol && right < maxCol && !cols.includes(right)) {
-      cols.push(right);
+export function getCellPriority(map: MapDefinition): GridCell[] {
+  const gridSize = getGridSize();
+  const path = new MapPath(map.waypoints);
+  const radius = COVERAGE_RADIUS_CELLS * gridSize;
+  const step = COVERAGE_STEP_CELLS * gridSize;
+  const blocked = new Set(map.blockedCells.map((c) => `${c.gridX},${c.gridY}`));
+
+  const samples: Array<{ x: number; y: number }> = [];
+  for (let d = 0; d <= path.length; d += step) {
+    samples.push(path.positionAt(d));
+  }
+
+  const mid = (GAME_CONSTANTS.GRID_COLS - 1) / 2;
+  const scored: Array<{
+    cell: GridCell;
+    coverage: number;
+    distance: number;
+    centerOffset: number;
+  }> = [];
+
+  for (let gridY = 0; gridY < GAME_CONSTANTS.GRID_ROWS; gridY++) {
+    for (let gridX = 0; gridX < GAME_CONSTANTS.GRID_COLS; gridX++) {
+      if (blocked.has(`${gridX},${gridY}`)) continue;
+
+      const x = gridX * gridSize + gridSize / 2;
+      const y = gridY * gridSize + gridSize / 2;
+      const inRange = samples.filter(
+        (p) => Math.sqrt((p.x - x) ** 2 + (p.y - y) ** 2) <= radius,
+      ).length;
+
+      scored.push({
+        cell: { gridX, gridY },
+        coverage: inRange,
+        distance: path.distanceTo(x, y),
+        centerOffset: Math.abs(gridX - mid),
+      });
     }
   }
 
-  return cols;
-}
+  scored.sort(
+    (a, b) =>
+      b.coverage - a.coverage ||
+      a.distance - b.distance ||
+      a.centerOffset - b.centerOffset,
+  );
 
-/**
- * Get row priority for tower placement.
- */
-export function getRowPriority(): readonly number[] {
-  return ROW_PRIORITY;
+  return scored.map((s) => s.cell);
 }
 
 /**
@@ -121,7 +146,7 @@ export function spendOnUpgrades(
 }
 
 /**
- * Build new towers using row/column priority.
+ * Build new towers in order of path coverage on the current map.
  * Uses the strategy's tower picker to decide which tower type to build.
  */
 export function spendOnBuilds(
@@ -135,8 +160,7 @@ export function spendOnBuilds(
 ): { actions: StrategyAction[]; remaining: number } {
   const actions: StrategyAction[] = [];
   let remaining = budget;
-  const rows = getRowPriority();
-  const cols = getColumnPriority();
+  const cells = getCellPriority(state.map);
 
   // Track occupied cells (existing towers + pending builds)
   const occupied = new Set<string>();
@@ -160,32 +184,30 @@ export function spendOnBuilds(
     }
   }
 
-  for (const row of rows) {
-    for (const col of cols) {
-      if (remaining <= 0) return { actions, remaining };
+  for (const { gridX, gridY } of cells) {
+    if (remaining <= 0) return { actions, remaining };
 
-      const key = `${col},${row}`;
-      if (occupied.has(key)) continue;
+    const key = `${gridX},${gridY}`;
+    if (occupied.has(key)) continue;
 
-      const towerDef = pickTower(pendingUsage);
-      if (!towerDef) return { actions, remaining };
+    const towerDef = pickTower(pendingUsage);
+    if (!towerDef) return { actions, remaining };
 
-      const level1 = towerDef.levels.find((l) => l.level === 1);
-      if (!level1) continue;
+    const level1 = towerDef.levels.find((l) => l.level === 1);
+    if (!level1) continue;
 
-      const cost = Math.round(level1.cost * settings.towerCostMultiplier);
-      if (remaining < cost) continue;
+    const cost = Math.round(level1.cost * settings.towerCostMultiplier);
+    if (remaining < cost) continue;
 
-      actions.push({
-        type: 'build',
-        towerId: towerDef.id,
-        gridX: col,
-        gridY: row,
-      });
-      remaining -= cost;
-      occupied.add(key);
-      pendingUsage[towerDef.id] = (pendingUsage[towerDef.id] ?? 0) + 1;
-    }
+    actions.push({
+      type: 'build',
+      towerId: towerDef.id,
+      gridX,
+      gridY,
+    });
+    remaining -= cost;
+    occupied.add(key);
+    pendingUsage[towerDef.id] = (pendingUsage[towerDef.id] ?? 0) + 1;
   }
 
   return { actions, remaining };
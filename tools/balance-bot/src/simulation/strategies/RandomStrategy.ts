@@ -23,7 +23,7 @@ export class RandomStrategy implements Strategy {
       settings,
       state.coins,
       [],
-      () => towers[Math.floor(Math.random() * towers.length)],
+      () => towers[Math.floor(state.random() * towers.length)],
     );
 
     return builds.actions;
@@ -10,6 +10,7 @@ import type {
   BalanceIssue,
 } from '../types';
 import { clampToConstraint } from './ConstraintValidator';
+import { estimateTargetsPerShot } from '../simulation/projectiles';
 
 const MAX_CHANGE_PERCENT = 30;
 
@@ -218,7 +219,9 @@ function handleDpsCostSpread(
     const levelDef = tower.levels.find((l) => l.level === level);
     if (!levelDef) continue;
 
-    const dps = levelDef.damage * levelDef.fireRate;
+    // Same group DPS as Tier 1, so the outlier lookup below matches its minDpc
+    const dps =
+      levelDef.damage * levelDef.fireRate * estimateTargetsPerShot(levelDef);
     const adjustedCost = levelDef.cost * settings.towerCostMultiplier;
     const cumulativeCost = adjustedCost; // For level 1, cumulative = direct
     const dpsPerCoin = cumulativeCost > 0 ? dps / cumulativeCost : 0;
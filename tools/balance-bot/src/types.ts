@@ -7,6 +7,15 @@ export interface TowerLevel {
   damage: number;
   range: number;
   fireRate: number;
+  damageType: DamageType;
+  projectileType: ProjectileType;
+  splashRadius: number; // px, splash only
+  chainCount: number; // extra enemies a chain bounces to
+  chainRange: number; // px between chain bounces
+  pierceCount: number; // extra enemies a pierce shot passes through
+  effectType: StatusEffectType | null; // status effect applied on hit
+  effectStrength: number; // see StatusEffect.strength
+  effectDuration: number; // ms
 }
 
 export interface TowerDefinition {
@@ -15,6 +24,7 @@ export interface TowerDefinition {
   description: string;
   baseColor: string;
   maxLevel: number;
+  attackPattern: AttackPattern;
   levels: TowerLevel[];
 }
 
@@ -27,6 +37,17 @@ export interface EnemyDefinition {
   reward: number;
   color: string;
   size: number;
+  armor: number;
+  resistances: Resistances;
+  abilities: EnemyAbilities;
+}
+
+// Optional movement and support abilities; distances in px, times in ms
+export interface EnemyAbilities {
+  jump?: { distance: number; intervalMs: number };
+  diagonal?: boolean;
+  promote?: { atProgress: number; toEnemyId: number };
+  aura?: { radius: number; speedBonus: number; armorBonus: number };
 }
 
 export interface GameSettings {
@@ -53,8 +74,49 @@ export interface WaveDefinition {
   enemies: WaveEnemy[];
 }
 
+export interface MapPoint {
+  x: number; // grid units
+  y: number;
+}
+
+export interface GridCell {
+  gridX: number;
+  gridY: number;
+}
+
+export interface MapDefinition {
+  id: number;
+  name: string;
+  description: string;
+  waypoints: MapPoint[];
+  blockedCells: GridCell[];
+  allowDiagonal: boolean;
+}
+
 export type SettingsMode = 'easy' | 'normal' | 'hard' | 'custom';
 export type GameMode = '10waves' | '20waves' | 'endless';
+export type TargetingMode = 'first' | 'last' | 'strongest' | 'weakest' | 'closest';
+
+export type DamageType = 'pierce' | 'splash' | 'magic';
+
+export type ProjectileType = 'single' | 'splash' | 'chain' | 'pierce';
+
+// Radius towers shoot anything in range; chess patterns only hit the cells
+// that piece could move to
+export type AttackPattern = 'radius' | 'rook' | 'bishop' | 'knight';
+
+export type StatusEffectType = 'slow' | 'poison' | 'stun' | 'shred';
+
+// One active debuff on an enemy; times are sim time in ms
+export interface StatusEffect {
+  type: StatusEffectType;
+  strength: number; // slow: speed fraction, poison: dps, shred: armor
+  expiresAt: number;
+  nextTickAt: number; // poison only
+}
+
+// Fraction of damage blocked per damage type (negative = weakness)
+export type Resistances = Partial<Record<DamageType, number>>;
 
 // --- Classification ---
 
@@ -75,9 +137,10 @@ export interface TowerLevelMetrics {
   towerId: number;
   towerName: string;
   level: number;
-  dps: number;
+  dps: number; // single target
+  targetsPerShot: number; // expected enemies hit per shot against a packed group
   cumulativeCost: number;
-  dpsPerCoin: number;
+  dpsPerCoin: number; // dps * targetsPerShot per coin invested
 }
 
 export interface TowerEnemyMatchup {
@@ -130,6 +193,7 @@ export interface Tier2Results {
 export interface SimulationRunResult {
   strategy: string;
   difficulty: SettingsMode;
+  seed: number; // rerun with the same seed to reproduce the run
   wavesCompleted: number;
   totalWaves: number;
   enemiesKilled: number;
@@ -213,30 +277,19 @@ export const GAME_CONSTANTS = {
   CANVAS_HEIGHT: 600,
   GRID_SCALE: 0.9,
   GRID_OFFSET: 0.05,
-  RESTRICTED_ROWS: [4, 5] as readonly number[],
   PROJECTILE_SPEED: 400,
   HIT_THRESHOLD: 10,
   FPS: 60,
   SELL_REFUND_RATE: 0.7,
+  DEFAULT_TARGETING_MODE: 'closest',
+  DEFAULT_DAMAGE_TYPE: 'pierce',
+  DEFAULT_ATTACK_PATTERN: 'radius',
 } as const;
 
 export function getGridSize(): number {
   return (GAME_CONSTANTS.CANVAS_WIDTH * GAME_CONSTANTS.GRID_SCALE) / GAME_CONSTANTS.GRID_COLS;
 }
 
-export function getSpawnX(): number {
-  return -getGridSize();
-}
-
-export function getDespawnX(): number {
-  return GAME_CONSTANTS.CANVAS_WIDTH + getGridSize();
-}
-
-export function getEnemyPathY(): number {
-  const gridSize = getGridSize();
-  return GAME_CONSTANTS.RESTRICTED_ROWS[0]! * gridSize + gridSize;
-}
-
 // --- Analysis Config ---
 
 export interface AnalysisConfig {
@@ -252,11 +305,10 @@ export interface AnalysisConfig {
 
 export interface StartGameResponse {
   gameId: string;
-  coins: number;
+  initialCoins: number;
   lives: number;
-  wave: number;
-  gameMode: GameMode;
-  difficulty: SettingsMode;
+  map: MapDefinition;
+  seed: number;
 }
 
 export interface GameStateResponse {
@@ -272,8 +324,9 @@ export interface GameStateResponse {
     gridX: number;
     gridY: number;
     level: number;
+    targetingMode?: TargetingMode;
   }>;
-  isOver: boolean;
+  status: 'active' | 'completed' | 'abandoned';
 }
 
 export interface BuildTowerRequest {
@@ -290,8 +343,9 @@ export interface BuildTowerResponse {
     gridY: number;
     level: number;
     stats: { cost: number; damage: number; range: number; fireRate: number };
+    targetingMode: TargetingMode;
   };
-  coins: number;
+  remainingCoins: number;
 }
 
 export interface UpgradeTowerResponse {
@@ -300,12 +354,29 @@ export interface UpgradeTowerResponse {
     level: number;
     stats: { cost: number; damage: number; range: number; fireRate: number };
   };
-  coins: number;
+  remainingCoins: number;
+}
+
+export interface SetTargetingResponse {
+  success: boolean;
+  tower: { id: string; targetingMode: TargetingMode };
 }
 
 export interface SellTowerResponse {
-  refund: number;
-  coins: number;
+  refundAmount: number;
+  remainingCoins: number;
+}
+
+export interface WaveSimulationResult {
+  waveNumber: number;
+  enemiesSpawned: number;
+  enemiesKilled: number;
+  enemiesLeaked: number;
+  enemiesKilledByType: Record<string, number>;
+  coinsEarned: number;
+  livesLost: number;
+  damageDealt: number;
+  durationMs: number; // simulated time until the wave was cleared or lost
 }
 
 export interface StartWaveResponse {
@@ -317,12 +388,20 @@ export interface StartWaveResponse {
   }>;
   enemyHealthWaveMultiplier: number;
   enemyRewardWaveMultiplier: number;
+  result: WaveSimulationResult;
+  coins: number;
+  lives: number;
+  gameOver: boolean;
+}
+
+export interface CompleteWaveResponse {
+  success: boolean;
 }
 
 export interface EndGameRequest {
   finalWave: number;
   enemiesKilled: number;
-  outcome: 'win' | 'lose' | 'quit';
+  outcome: 'win' | 'loss';
 }
 
 export interface EndGameResponse {